@@ -0,0 +1,27 @@
+const { readFileSync } = require('fs');
+
+// Reading the SWC compilation config for the spec files
+const swcJestConfig = JSON.parse(
+  readFileSync(`${__dirname}/.spec.swcrc`, 'utf-8')
+);
+
+// Disable .swcrc look-up by SWC core because we're passing in swcJestConfig ourselves
+swcJestConfig.swcrc = false;
+
+module.exports = {
+  displayName: 'api-server',
+  preset: '../../jest.preset.js',
+  testEnvironment: 'node',
+  transform: {
+    '^.+\\.[tj]s$': ['@swc/jest', swcJestConfig],
+  },
+  moduleFileExtensions: ['ts', 'js', 'html'],
+  coverageDirectory: 'test-output/jest/coverage',
+  moduleNameMapper: {
+    '^@blog/shared/domain$': '<rootDir>/../../libs/shared/domain/src/index.ts',
+    '^@blog/backend/core$': '<rootDir>/../../libs/backend/core/src/index.ts',
+    '^@blog/backend/infrastructure$':
+      '<rootDir>/../../libs/backend/infrastructure/src/index.ts',
+  },
+  transformIgnorePatterns: ['node_modules/(?!(uuid)/)'],
+};
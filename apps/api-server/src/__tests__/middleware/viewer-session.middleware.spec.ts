@@ -0,0 +1,55 @@
+/**
+ * Viewer Session Middleware Tests
+ *
+ * Tests that the anonymous viewer cookie is reused when valid and replaced
+ * when missing, malformed or not percent-decodable.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import { createViewerSessionMiddleware } from '../../middleware/viewer-session.middleware.js';
+
+const VIEWER_ID = '0b6a4c1e-2f7d-4e8a-9c3b-5d1f0e2a7b64';
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+describe('Viewer Session Middleware', () => {
+  const app = express();
+  app.use(createViewerSessionMiddleware());
+  app.get('/session', (req, res) => {
+    res.json({ viewerSessionId: req.viewerSessionId });
+  });
+
+  it('should reuse a valid viewer cookie', async () => {
+    const response = await request(app)
+      .get('/session')
+      .set('Cookie', `viewer_sid=${VIEWER_ID}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.viewerSessionId).toBe(VIEWER_ID);
+    expect(response.headers['set-cookie']).toBeUndefined();
+  });
+
+  it('should issue a viewer ID when there is no cookie', async () => {
+    const response = await request(app).get('/session');
+
+    expect(response.status).toBe(200);
+    expect(response.body.viewerSessionId).toMatch(UUID_PATTERN);
+    expect(response.headers['set-cookie']?.[0]).toContain(
+      `viewer_sid=${response.body.viewerSessionId}`
+    );
+  });
+
+  it('should issue a new viewer ID for a cookie that cannot be decoded', async () => {
+    const response = await request(app)
+      .get('/session')
+      .set('Cookie', 'viewer_sid=%E0%A4%A');
+
+    expect(response.status).toBe(200);
+    expect(response.body.viewerSessionId).toMatch(UUID_PATTERN);
+    expect(response.headers['set-cookie']?.[0]).toContain(
+      `viewer_sid=${response.body.viewerSessionId}`
+    );
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Realtime Routes Tests
+ *
+ * Tests that the event stream only follows videos of the current user's
+ * posts.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import type { Express, NextFunction, Request, Response } from 'express';
+import request from 'supertest';
+import type {
+  IPostRepository,
+  IRealtimeGateway,
+  IVideoRepository,
+} from '@blog/backend/core';
+import type { PostEntity, VideoEntity } from '@blog/shared/domain';
+import { createRealtimeRoutes } from '../../routes/realtime.routes.js';
+import { errorHandler } from '../../middleware/error.middleware.js';
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const OTHER_USER_ID = '00000000-0000-4000-8000-000000000002';
+const OWN_VIDEO_ID = '00000000-0000-4000-8000-000000000011';
+const OTHER_VIDEO_ID = '00000000-0000-4000-8000-000000000012';
+const DRAFT_VIDEO_ID = '00000000-0000-4000-8000-000000000013';
+const MISSING_VIDEO_ID = '00000000-0000-4000-8000-000000000014';
+
+describe('Realtime Routes', () => {
+  let app: Express;
+  let subscribedChannels: string[][];
+
+  beforeEach(() => {
+    subscribedChannels = [];
+    const authors = new Map([
+      [OWN_VIDEO_ID, USER_ID],
+      [OTHER_VIDEO_ID, OTHER_USER_ID],
+    ]);
+
+    app = express();
+    app.use(
+      '/api/realtime',
+      createRealtimeRoutes({
+        realtimeGateway: {
+          subscribe: (channels: string[]) => {
+            subscribedChannels.push(channels);
+            return () => undefined;
+          },
+        } as unknown as IRealtimeGateway,
+        videoRepository: {
+          findById: async (id: string) =>
+            id === MISSING_VIDEO_ID ? null : ({ id } as VideoEntity),
+        } as unknown as IVideoRepository,
+        postRepository: {
+          findByVideoId: async (videoId: string) => {
+            const authorId = authors.get(videoId);
+            return authorId ? ({ authorId } as PostEntity) : null;
+          },
+        } as unknown as IPostRepository,
+        authMiddleware: (req: Request, _res: Response, next: NextFunction) => {
+          req.user = {
+            userId: USER_ID,
+            email: 'viewer@example.com',
+            username: 'viewer',
+            isAdmin: false,
+          };
+          next();
+        },
+      })
+    );
+    app.use(errorHandler);
+  });
+
+  describe('GET /api/realtime/events', () => {
+    let server: http.Server | undefined;
+
+    afterEach(async () => {
+      await new Promise((resolve) => server?.close(resolve) ?? resolve(null));
+      server = undefined;
+    });
+
+    /** Read the first event of the stream, then disconnect */
+    const readFirstEvent = async (videoIds: string[]) => {
+      server = app.listen(0);
+      const { port } = server.address() as AddressInfo;
+
+      return new Promise<{ status?: number; body: string }>(
+        (resolve, reject) => {
+          const req = http.get(
+            `http://127.0.0.1:${port}/api/realtime/events?videoIds=${videoIds.join(
+              ','
+            )}`,
+            (res) => {
+              let body = '';
+              res.on('data', (chunk: Buffer) => {
+                body += chunk.toString();
+                if (body.includes('event: ready')) {
+                  req.destroy();
+                  resolve({ status: res.statusCode, body });
+                }
+              });
+            }
+          );
+          req.on('error', reject);
+        }
+      );
+    };
+
+    it('should follow videos of the user own posts and unattached videos', async () => {
+      const { status } = await readFirstEvent([OWN_VIDEO_ID, DRAFT_VIDEO_ID]);
+
+      expect(status).toBe(200);
+      expect(subscribedChannels).toHaveLength(1);
+      expect(subscribedChannels[0]).toHaveLength(3);
+    });
+
+    it('should return 403 for a video of another user post', async () => {
+      const response = await request(app).get(
+        `/api/realtime/events?videoIds=${OWN_VIDEO_ID},${OTHER_VIDEO_ID}`
+      );
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('FORBIDDEN');
+      expect(subscribedChannels).toHaveLength(0);
+    });
+
+    it('should return 404 for an unknown video', async () => {
+      const response = await request(app).get(
+        `/api/realtime/events?videoIds=${MISSING_VIDEO_ID}`
+      );
+
+      expect(response.status).toBe(404);
+      expect(subscribedChannels).toHaveLength(0);
+    });
+  });
+});
@@ -31,6 +31,12 @@ import { createTagsRoutes } from './routes/tags.routes.js';
 import { createVideosRoutes } from './routes/videos.routes.js';
 import { createCommentsRoutes } from './routes/comments.routes.js';
 import { createBookmarksRoutes } from './routes/bookmarks.routes.js';
+import { createSearchRoutes } from './routes/search.routes.js';
+import { createAskRoutes } from './routes/ask.routes.js';
+import { createViewRoutes } from './routes/views.routes.js';
+import { createNotificationRoutes } from './routes/notifications.routes.js';
+import { createRealtimeRoutes } from './routes/realtime.routes.js';
+import { createWebhookRoutes } from './routes/webhooks.routes.js';
 import type {
   IBookmarkRepository,
   IBookmarkFolderRepository,
@@ -47,6 +53,12 @@ import type {
   ICommentLikeRepository,
   IVideoRepository,
   IVideoQualityRepository,
+  IVideoUploadRepository,
+  IVideoCaptionRepository,
+  IVideoChapterRepository,
+  IVideoThumbnailCandidateRepository,
+  IVideoEncryptionKeyRepository,
+  IVideoLoudnessRepository,
   ITokenGenerator,
   IPasswordHasher,
   IEmailVerificationTokenRepository,
@@ -54,6 +66,21 @@ import type {
   IEmailService,
   IStorageService,
   IVideoQueueService,
+  IEmbeddingService,
+  ISearchQueryRepository,
+  IPostChunkRepository,
+  ILlmService,
+  IViewRepository,
+  IAnalyticsRepository,
+  IUnitOfWork,
+  INotificationRepository,
+  INotificationPreferenceRepository,
+  IUnsubscribeTokenService,
+  IPlaybackTokenService,
+  IEventBus,
+  IRealtimeGateway,
+  IWebhookRepository,
+  IWebhookQueue,
 } from '@blog/backend/core';
 
 export interface AppDependencies {
@@ -71,14 +98,35 @@ export interface AppDependencies {
   bookmarkFolderRepository: IBookmarkFolderRepository;
   videoRepository: IVideoRepository;
   videoQualityRepository?: IVideoQualityRepository;
+  videoUploadRepository?: IVideoUploadRepository;
+  captionRepository?: IVideoCaptionRepository;
+  chapterRepository?: IVideoChapterRepository;
+  thumbnailCandidateRepository?: IVideoThumbnailCandidateRepository;
+  encryptionKeyRepository?: IVideoEncryptionKeyRepository;
+  loudnessRepository?: IVideoLoudnessRepository;
   tokenGenerator: ITokenGenerator;
   passwordHasher: IPasswordHasher;
   // Optional dependencies
   emailVerificationTokenRepository?: IEmailVerificationTokenRepository;
   passwordResetTokenRepository?: IPasswordResetTokenRepository;
+  searchQueryRepository?: ISearchQueryRepository;
+  postChunkRepository?: IPostChunkRepository;
+  viewRepository?: IViewRepository;
+  analyticsRepository?: IAnalyticsRepository;
+  notificationRepository?: INotificationRepository;
+  notificationPreferenceRepository?: INotificationPreferenceRepository;
   emailService?: IEmailService;
+  unsubscribeTokenService?: IUnsubscribeTokenService;
+  playbackTokenService?: IPlaybackTokenService;
   storageService?: IStorageService;
   videoQueueService?: IVideoQueueService;
+  embeddingService?: IEmbeddingService;
+  llmService?: ILlmService;
+  eventBus?: IEventBus;
+  realtimeGateway?: IRealtimeGateway;
+  webhookRepository?: IWebhookRepository;
+  webhookQueue?: IWebhookQueue;
+  unitOfWork?: IUnitOfWork;
   queueVideoForProcessing?: (
     videoId: string,
     rawFilePath: string
@@ -222,8 +270,11 @@ export function createApp(deps: AppDependencies): Express {
     tagRepository: deps.tagRepository,
     likeRepository: deps.likeRepository,
     bookmarkRepository: deps.bookmarkRepository,
+    chapterRepository: deps.chapterRepository,
     authMiddleware,
     optionalAuthMiddleware,
+    eventBus: deps.eventBus,
+    unitOfWork: deps.unitOfWork,
   });
 
   const commentsRoutes = createCommentsRoutes({
@@ -238,6 +289,8 @@ export function createApp(deps: AppDependencies): Express {
       port: deps.env.REDIS_PORT,
       password: deps.env.REDIS_PASSWORD,
     },
+    eventBus: deps.eventBus,
+    unitOfWork: deps.unitOfWork,
   });
 
   const usersRoutes = createUsersRoutes({
@@ -246,6 +299,7 @@ export function createApp(deps: AppDependencies): Express {
     followRepository: deps.followRepository,
     authMiddleware,
     optionalAuthMiddleware,
+    analyticsRepository: deps.analyticsRepository,
   });
 
   const followsRoutes = createFollowsRoutes({
@@ -253,6 +307,8 @@ export function createApp(deps: AppDependencies): Express {
     userRepository: deps.userRepository,
     authMiddleware,
     optionalAuthMiddleware,
+    eventBus: deps.eventBus,
+    unitOfWork: deps.unitOfWork,
   });
 
   const categoriesRoutes = createCategoriesRoutes({
@@ -272,19 +328,106 @@ export function createApp(deps: AppDependencies): Express {
     authMiddleware,
   });
 
+  const searchRoutes = createSearchRoutes({
+    postRepository: deps.postRepository,
+    userRepository: deps.userRepository,
+    bookmarkRepository: deps.bookmarkRepository,
+    embeddingService: deps.embeddingService,
+    searchQueryRepository: deps.searchQueryRepository,
+    hybridOptions: {
+      k: deps.env.SEARCH_RRF_K,
+      fulltextWeight: deps.env.SEARCH_HYBRID_FULLTEXT_WEIGHT,
+      semanticWeight: deps.env.SEARCH_HYBRID_SEMANTIC_WEIGHT,
+    },
+    optionalAuthMiddleware,
+  });
+
+  // Ask routes (only if passages are stored)
+  const askRoutes = deps.postChunkRepository
+    ? createAskRoutes({
+        postRepository: deps.postRepository,
+        postChunkRepository: deps.postChunkRepository,
+        embeddingService: deps.embeddingService,
+        llmService: deps.llmService,
+        searchQueryRepository: deps.searchQueryRepository,
+        topK: deps.env.ASK_TOP_K,
+        rateLimitMax: deps.env.ASK_RATE_LIMIT_MAX,
+        optionalAuthMiddleware,
+      })
+    : null;
+
+  // View tracking routes (only if view storage is configured)
+  const viewRoutes = deps.viewRepository
+    ? createViewRoutes({
+        viewRepository: deps.viewRepository,
+        postRepository: deps.postRepository,
+        videoRepository: deps.videoRepository,
+        optionalAuthMiddleware,
+      })
+    : null;
+
+  // Notification routes (only if notification storage is configured)
+  const notificationRoutes = deps.notificationRepository
+    ? createNotificationRoutes({
+        notificationRepository: deps.notificationRepository,
+        authMiddleware,
+        notificationPreferenceRepository: deps.notificationPreferenceRepository,
+        unsubscribeTokenService: deps.unsubscribeTokenService,
+      })
+    : null;
+
+  // Webhook routes (only if the delivery queue is configured)
+  const webhookRoutes =
+    deps.webhookRepository && deps.webhookQueue
+      ? createWebhookRoutes({
+          webhookRepository: deps.webhookRepository,
+          webhookQueue: deps.webhookQueue,
+          authMiddleware,
+        })
+      : null;
+
+  // Realtime event stream (only if a realtime gateway is configured)
+  const realtimeRoutes = deps.realtimeGateway
+    ? createRealtimeRoutes({
+        realtimeGateway: deps.realtimeGateway,
+        videoRepository: deps.videoRepository,
+        postRepository: deps.postRepository,
+        authMiddleware: createAuthMiddleware({
+          tokenGenerator: deps.tokenGenerator,
+          allowQueryToken: true,
+        }),
+      })
+    : null;
+
   // Video routes (only if storage service is configured)
   const videosRoutes =
     deps.storageService &&
     deps.queueVideoForProcessing &&
     deps.videoQueueService &&
-    deps.videoQualityRepository
+    deps.videoQualityRepository &&
+    deps.videoUploadRepository &&
+    deps.captionRepository &&
+    deps.chapterRepository &&
+    deps.thumbnailCandidateRepository &&
+    deps.encryptionKeyRepository &&
+    deps.loudnessRepository &&
+    deps.playbackTokenService
       ? createVideosRoutes({
           videoRepository: deps.videoRepository,
           videoQualityRepository: deps.videoQualityRepository,
+          videoUploadRepository: deps.videoUploadRepository,
+          captionRepository: deps.captionRepository,
+          chapterRepository: deps.chapterRepository,
+          thumbnailCandidateRepository: deps.thumbnailCandidateRepository,
+          encryptionKeyRepository: deps.encryptionKeyRepository,
+          loudnessRepository: deps.loudnessRepository,
           userRepository: deps.userRepository,
+          postRepository: deps.postRepository,
           storageService: deps.storageService,
           videoQueueService: deps.videoQueueService,
+          playbackTokenService: deps.playbackTokenService,
           authMiddleware,
+          optionalAuthMiddleware,
           queueVideoForProcessing: deps.queueVideoForProcessing,
         })
       : null;
@@ -299,6 +442,21 @@ export function createApp(deps: AppDependencies): Express {
   console.log(
     `  Video Quality Repository Configured: ${!!deps.videoQualityRepository}`
   );
+  console.log(
+    `  Video Upload Repository Configured: ${!!deps.videoUploadRepository}`
+  );
+  console.log(`  Caption Repository Configured: ${!!deps.captionRepository}`);
+  console.log(`  Chapter Repository Configured: ${!!deps.chapterRepository}`);
+  console.log(
+    `  Thumbnail Candidate Repository Configured: ${!!deps.thumbnailCandidateRepository}`
+  );
+  console.log(
+    `  Encryption Key Repository Configured: ${!!deps.encryptionKeyRepository}`
+  );
+  console.log(`  Loudness Repository Configured: ${!!deps.loudnessRepository}`);
+  console.log(
+    `  Playback Token Service Configured: ${!!deps.playbackTokenService}`
+  );
 
   // Log the availability of video routes
   if (videosRoutes) {
@@ -318,6 +476,22 @@ export function createApp(deps: AppDependencies): Express {
   app.use('/api/tags', tagsRoutes);
   // Mount bookmarks routes under /api for bookmarks endpoints
   app.use('/api', bookmarksRoutes);
+  app.use('/api/search', searchRoutes);
+  if (askRoutes) {
+    app.use('/api/ask', askRoutes);
+  }
+  if (viewRoutes) {
+    app.use('/api/views', viewRoutes);
+  }
+  if (notificationRoutes) {
+    app.use('/api/notifications', notificationRoutes);
+  }
+  if (realtimeRoutes) {
+    app.use('/api/realtime', realtimeRoutes);
+  }
+  if (webhookRoutes) {
+    app.use('/api/webhooks', webhookRoutes);
+  }
 
   // Mount video routes if configured
   if (videosRoutes) {
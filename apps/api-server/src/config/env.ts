@@ -71,6 +71,28 @@ const EnvSchema = z.object({
     .default('false')
     .transform((val) => val === 'true'),
 
+  // Notification emails (signed one-click unsubscribe links; defaults to a
+  // secret derived from JWT_SECRET)
+  UNSUBSCRIBE_SECRET: z.string().min(32).optional(),
+
+  // Video playback proxy (signed short-lived tokens; defaults to a secret
+  // derived from JWT_SECRET)
+  PLAYBACK_TOKEN_SECRET: z.string().min(32).optional(),
+  // How often due daily/weekly digests are sent (0 disables)
+  NOTIFICATION_DIGEST_INTERVAL_MS: z
+    .string()
+    .default('3600000')
+    .transform(Number), // 1 hour
+
+  // Outgoing webhooks (delivered through the Redis-backed BullMQ queue)
+  WEBHOOK_TIMEOUT_MS: z.string().default('10000').transform(Number),
+  WEBHOOK_MAX_ATTEMPTS: z.string().default('8').transform(Number),
+  // Allow webhook URLs on localhost/private networks (development only)
+  WEBHOOK_ALLOW_PRIVATE_URLS: z
+    .string()
+    .default('false')
+    .transform((val) => val === 'true'),
+
   // MinIO / S3 Configuration
   MINIO_ENDPOINT: z.string().default('localhost'),
   MINIO_PORT: z.string().default('9000').transform(Number),
@@ -87,6 +109,43 @@ const EnvSchema = z.object({
   REDIS_PORT: z.string().default('6379').transform(Number),
   REDIS_PASSWORD: z.string().default('redis_password_change_in_production'),
 
+  // Domain events and realtime push (SSE)
+  // redis: Redis Streams / pub/sub shared with video-worker, memory: in-process only
+  EVENT_BUS: z.enum(['redis', 'memory']).default('redis'),
+  // Stable per instance (default: hostname) so pending events survive restarts
+  EVENT_CONSUMER_NAME: z.string().optional(),
+  EVENT_CLAIM_IDLE_MS: z.string().default('60000').transform(Number),
+
+  // Embeddings (semantic search)
+  // ollama: OLLAMA_BASE_URL/OLLAMA_EMBEDDING_MODEL, local: deterministic stub, none: disabled
+  EMBEDDING_PROVIDER: z.enum(['ollama', 'local', 'none']).default('ollama'),
+  OLLAMA_BASE_URL: z.string().default('http://localhost:11434'),
+  OLLAMA_EMBEDDING_MODEL: z.string().default('nomic-embed-text'),
+  OLLAMA_TIMEOUT: z.string().default('30000').transform(Number),
+
+  // Ask the blog (RAG question answering)
+  // ollama: OLLAMA_BASE_URL/OLLAMA_CHAT_MODEL, local: canned stub, none: disabled
+  LLM_PROVIDER: z.enum(['ollama', 'local', 'none']).default('ollama'),
+  OLLAMA_CHAT_MODEL: z.string().default('llama3'),
+  ASK_TOP_K: z.string().default('6').transform(Number),
+  ASK_RATE_LIMIT_MAX: z.string().default('10').transform(Number),
+
+  // Hybrid search (reciprocal-rank fusion: weight / (k + position))
+  SEARCH_RRF_K: z.string().default('60').transform(Number),
+  SEARCH_HYBRID_FULLTEXT_WEIGHT: z.string().default('1').transform(Number),
+  SEARCH_HYBRID_SEMANTIC_WEIGHT: z.string().default('1').transform(Number),
+
+  // Trending feed (precomputed scores; 0 disables the periodic refresh)
+  TRENDING_REFRESH_INTERVAL_MS: z.string().default('300000').transform(Number), // 5 minutes
+
+  // View tracking (batched posts.view_count sync; 0 disables)
+  VIEW_COUNT_SYNC_INTERVAL_MS: z.string().default('10000').transform(Number),
+
+  // Transactional outbox relay (0 disables the outbox, events are then
+  // published directly after the commit)
+  OUTBOX_RELAY_INTERVAL_MS: z.string().default('1000').transform(Number),
+  OUTBOX_MAX_ATTEMPTS: z.string().default('10').transform(Number),
+
   // CORS
   CORS_ORIGIN: z.string().default('http://localhost:3001'),
 
@@ -21,14 +21,42 @@ import type {
   IBookmarkFolderRepository,
   IVideoRepository,
   IVideoQualityRepository,
+  IVideoUploadRepository,
+  IVideoCaptionRepository,
+  IVideoChapterRepository,
+  IVideoThumbnailCandidateRepository,
+  IVideoEncryptionKeyRepository,
+  IVideoLoudnessRepository,
   IEmailVerificationTokenRepository,
   IPasswordResetTokenRepository,
   ILoginAttemptRepository,
+  ISearchQueryRepository,
+  IPostChunkRepository,
+  IViewRepository,
+  IAnalyticsRepository,
+  IOutboxRepository,
+  INotificationRepository,
+  INotificationPreferenceRepository,
+  INotificationDigestRepository,
+  IWebhookRepository,
+  IUnitOfWork,
   IPasswordHasher,
   ITokenGenerator,
   IEmailService,
   IStorageService,
   IVideoQueueService,
+  IEmbeddingService,
+  ILlmService,
+  IEventBus,
+  IRealtimeGateway,
+  IUnsubscribeTokenService,
+  IPlaybackTokenService,
+  IWebhookQueue,
+} from '@blog/backend/core';
+import {
+  GeneratePostEmbeddingUseCase,
+  CreateEventNotificationsUseCase,
+  DispatchWebhookEventUseCase,
 } from '@blog/backend/core';
 import {
   PostgresUserRepository,
@@ -44,11 +72,28 @@ import {
   PostgresBookmarkFolderRepository,
   PostgresVideoRepository,
   VideoQualityRepository,
+  PostgresVideoUploadRepository,
+  PostgresVideoCaptionRepository,
+  PostgresVideoChapterRepository,
+  PostgresVideoThumbnailCandidateRepository,
+  PostgresVideoEncryptionKeyRepository,
+  PostgresVideoLoudnessRepository,
   EmailVerificationTokenRepository,
   PasswordResetTokenRepository,
   LoginAttemptRepository,
+  PostgresSearchQueryRepository,
+  PostgresPostChunkRepository,
+  PostgresViewRepository,
+  PostgresAnalyticsRepository,
+  PostgresOutboxRepository,
+  PostgresNotificationRepository,
+  PostgresNotificationPreferenceRepository,
+  PostgresNotificationDigestRepository,
+  PostgresWebhookRepository,
+  KyselyUnitOfWork,
 } from '@blog/backend/infrastructure';
 import type { Env } from './config/env.js';
+import { registerSubscribers } from './subscribers/index.js';
 
 /**
  * Application Container
@@ -70,9 +115,27 @@ export interface AppContainer {
   bookmarkFolderRepository: IBookmarkFolderRepository;
   videoRepository: IVideoRepository;
   videoQualityRepository: IVideoQualityRepository;
+  videoUploadRepository: IVideoUploadRepository;
+  captionRepository: IVideoCaptionRepository;
+  chapterRepository: IVideoChapterRepository;
+  thumbnailCandidateRepository: IVideoThumbnailCandidateRepository;
+  encryptionKeyRepository: IVideoEncryptionKeyRepository;
+  loudnessRepository: IVideoLoudnessRepository;
   emailVerificationTokenRepository: IEmailVerificationTokenRepository;
   passwordResetTokenRepository: IPasswordResetTokenRepository;
   loginAttemptRepository: ILoginAttemptRepository;
+  searchQueryRepository: ISearchQueryRepository;
+  postChunkRepository: IPostChunkRepository;
+  viewRepository: IViewRepository;
+  analyticsRepository: IAnalyticsRepository;
+  outboxRepository: IOutboxRepository;
+  notificationRepository: INotificationRepository;
+  notificationPreferenceRepository: INotificationPreferenceRepository;
+  notificationDigestRepository: INotificationDigestRepository;
+  webhookRepository: IWebhookRepository;
+
+  // Transactions spanning several repositories (and the outbox)
+  unitOfWork: IUnitOfWork;
 
   // Services
   passwordHasher: IPasswordHasher;
@@ -80,6 +143,13 @@ export interface AppContainer {
   emailService?: IEmailService;
   storageService?: IStorageService;
   videoQueueService?: IVideoQueueService;
+  embeddingService?: IEmbeddingService;
+  llmService?: ILlmService;
+  eventBus: IEventBus;
+  realtimeGateway: IRealtimeGateway;
+  unsubscribeTokenService: IUnsubscribeTokenService;
+  playbackTokenService: IPlaybackTokenService;
+  webhookQueue?: IWebhookQueue;
 
   // Video processing queue function
   queueVideoForProcessing?: (
@@ -103,6 +173,18 @@ export interface ContainerDependencies {
   emailService?: IEmailService;
   storageService?: IStorageService;
   videoQueueService?: IVideoQueueService;
+  embeddingService?: IEmbeddingService;
+  llmService?: ILlmService;
+  /** Domain events; subscribers are registered by the container */
+  eventBus: IEventBus;
+  /** Pushes messages to connected clients */
+  realtimeGateway: IRealtimeGateway;
+  /** Signs one-click unsubscribe links in emails */
+  unsubscribeTokenService: IUnsubscribeTokenService;
+  /** Signs the short-lived tokens of the video playback proxy */
+  playbackTokenService: IPlaybackTokenService;
+  /** Webhook deliveries; without it no webhooks are sent */
+  webhookQueue?: IWebhookQueue;
   queueVideoForProcessing?: (
     videoId: string,
     rawFilePath: string
@@ -129,6 +211,15 @@ export function createContainer(deps: ContainerDependencies): AppContainer {
   );
   const videoRepository = new PostgresVideoRepository(deps.db);
   const videoQualityRepository = new VideoQualityRepository(deps.pool);
+  const videoUploadRepository = new PostgresVideoUploadRepository(deps.db);
+  const captionRepository = new PostgresVideoCaptionRepository(deps.db);
+  const chapterRepository = new PostgresVideoChapterRepository(deps.db);
+  const thumbnailCandidateRepository =
+    new PostgresVideoThumbnailCandidateRepository(deps.db);
+  const encryptionKeyRepository = new PostgresVideoEncryptionKeyRepository(
+    deps.db
+  );
+  const loudnessRepository = new PostgresVideoLoudnessRepository(deps.db);
   const emailVerificationTokenRepository = new EmailVerificationTokenRepository(
     deps.pool
   );
@@ -136,6 +227,75 @@ export function createContainer(deps: ContainerDependencies): AppContainer {
     deps.pool
   );
   const loginAttemptRepository = new LoginAttemptRepository(deps.pool);
+  const searchQueryRepository = new PostgresSearchQueryRepository(deps.db);
+  const postChunkRepository = new PostgresPostChunkRepository(deps.db);
+  const viewRepository = new PostgresViewRepository(deps.db);
+  const analyticsRepository = new PostgresAnalyticsRepository(deps.db);
+  const outboxRepository = new PostgresOutboxRepository(deps.db);
+  const notificationRepository = new PostgresNotificationRepository(deps.db);
+  const notificationPreferenceRepository =
+    new PostgresNotificationPreferenceRepository(deps.db);
+  const notificationDigestRepository = new PostgresNotificationDigestRepository(
+    deps.db
+  );
+  const webhookRepository = new PostgresWebhookRepository(deps.db);
+  const unitOfWork = new KyselyUnitOfWork(deps.db);
+
+  // Post embeddings are generated in the background so publishing
+  // never waits on (or fails because of) the embedding backend
+  const generatePostEmbeddingUseCase = deps.embeddingService
+    ? new GeneratePostEmbeddingUseCase({
+        postRepository,
+        embeddingService: deps.embeddingService,
+        postChunkRepository,
+      })
+    : undefined;
+  // Runs in the post.published / post.updated subscriber: a failure throws,
+  // so the event stays pending and is delivered again
+  const generatePostEmbedding = generatePostEmbeddingUseCase
+    ? async (postId: string) => {
+        const result = await generatePostEmbeddingUseCase.execute({ postId });
+        if (result.success) return;
+        if (result.error.code === 'POST_NOT_FOUND') {
+          // Deleted since: nothing left to embed
+          console.warn(`⚠️ Embedding skipped for post ${postId}: not found`);
+          return;
+        }
+        throw new Error(
+          `Embedding failed for post ${postId}: ${result.error.message}`
+        );
+      }
+    : undefined;
+
+  // Side effects of use cases subscribe to their domain events
+  const createEventNotificationsUseCase = new CreateEventNotificationsUseCase({
+    notificationRepository,
+    userRepository,
+    postRepository,
+    commentRepository,
+    realtimePublisher: deps.realtimeGateway,
+    preferenceRepository: notificationPreferenceRepository,
+    emailService: deps.emailService,
+    unsubscribeTokenService: deps.unsubscribeTokenService,
+    appUrl: deps.env.APP_URL,
+  });
+
+  const dispatchWebhookEventUseCase = deps.webhookQueue
+    ? new DispatchWebhookEventUseCase({
+        webhookRepository,
+        webhookQueue: deps.webhookQueue,
+        postRepository,
+        commentRepository,
+        appUrl: deps.env.APP_URL,
+      })
+    : undefined;
+
+  registerSubscribers({
+    eventBus: deps.eventBus,
+    generatePostEmbedding,
+    createEventNotificationsUseCase,
+    dispatchWebhookEventUseCase,
+  });
 
   return {
     // Repositories
@@ -152,9 +312,25 @@ export function createContainer(deps: ContainerDependencies): AppContainer {
     bookmarkFolderRepository,
     videoRepository,
     videoQualityRepository,
+    videoUploadRepository,
+    captionRepository,
+    chapterRepository,
+    thumbnailCandidateRepository,
+    encryptionKeyRepository,
+    loudnessRepository,
     emailVerificationTokenRepository,
     passwordResetTokenRepository,
     loginAttemptRepository,
+    searchQueryRepository,
+    postChunkRepository,
+    viewRepository,
+    analyticsRepository,
+    outboxRepository,
+    notificationRepository,
+    notificationPreferenceRepository,
+    notificationDigestRepository,
+    webhookRepository,
+    unitOfWork,
 
     // Services
     passwordHasher: deps.passwordHasher,
@@ -162,6 +338,13 @@ export function createContainer(deps: ContainerDependencies): AppContainer {
     emailService: deps.emailService,
     storageService: deps.storageService,
     videoQueueService: deps.videoQueueService,
+    embeddingService: deps.embeddingService,
+    llmService: deps.llmService,
+    eventBus: deps.eventBus,
+    realtimeGateway: deps.realtimeGateway,
+    unsubscribeTokenService: deps.unsubscribeTokenService,
+    playbackTokenService: deps.playbackTokenService,
+    webhookQueue: deps.webhookQueue,
     queueVideoForProcessing: deps.queueVideoForProcessing,
 
     // Configuration
@@ -0,0 +1,46 @@
+/**
+ * Interval Job
+ *
+ * Runs a background task now and then every intervalMs, skipping a tick
+ * while the previous run is still in progress. Never keeps the process alive.
+ */
+
+export interface IntervalJobOptions {
+  /** Interval between runs in milliseconds */
+  intervalMs: number;
+  run: () => Promise<void>;
+  /** Called when a run throws (default: logged) */
+  onError?: (error: unknown) => void;
+}
+
+export interface IntervalJob {
+  stop(): void;
+}
+
+export function startIntervalJob(options: IntervalJobOptions): IntervalJob {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await options.run();
+    } catch (error) {
+      if (options.onError) {
+        options.onError(error);
+      } else {
+        console.error('❌ Background job failed:', error);
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(() => void tick(), options.intervalMs);
+  timer.unref();
+
+  return {
+    stop: () => clearInterval(timer),
+  };
+}
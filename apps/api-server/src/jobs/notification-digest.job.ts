@@ -0,0 +1,60 @@
+/**
+ * Notification Digest Job
+ *
+ * Sends the daily and weekly digest emails. Each run emails everyone whose
+ * digest is due, so the interval only bounds how late a digest can be.
+ * Runs from several instances may overlap; a user can then get a digest
+ * twice, never zero times.
+ */
+
+import {
+  SendNotificationDigestsUseCase,
+  type INotificationDigestRepository,
+  type INotificationPreferenceRepository,
+  type IEmailService,
+  type IUnsubscribeTokenService,
+} from '@blog/backend/core';
+import { startIntervalJob, type IntervalJob } from './interval-job.js';
+
+export interface NotificationDigestJobOptions {
+  digestRepository: INotificationDigestRepository;
+  preferenceRepository: INotificationPreferenceRepository;
+  emailService: IEmailService;
+  unsubscribeTokenService: IUnsubscribeTokenService;
+  /** Web app URL for links in emails */
+  appUrl: string;
+  /** Interval between runs in milliseconds */
+  intervalMs: number;
+}
+
+export function startNotificationDigestJob(
+  options: NotificationDigestJobOptions
+): IntervalJob {
+  const sendDigestsUseCase = new SendNotificationDigestsUseCase({
+    digestRepository: options.digestRepository,
+    preferenceRepository: options.preferenceRepository,
+    emailService: options.emailService,
+    unsubscribeTokenService: options.unsubscribeTokenService,
+  });
+
+  return startIntervalJob({
+    intervalMs: options.intervalMs,
+    run: async () => {
+      for (const frequency of ['daily', 'weekly'] as const) {
+        const result = await sendDigestsUseCase.execute({
+          frequency,
+          appUrl: options.appUrl,
+        });
+        if (!result.success) continue;
+
+        const { sent, skipped, failed } = result.data;
+        if (sent + failed > 0) {
+          console.log(
+            `📬 ${frequency} digests: ${sent} sent, ${skipped} empty, ${failed} failed`
+          );
+        }
+      }
+    },
+    onError: (error) => console.error('❌ Notification digests failed:', error),
+  });
+}
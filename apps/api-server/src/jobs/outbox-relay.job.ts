@@ -0,0 +1,105 @@
+/**
+ * Outbox Relay Job
+ *
+ * Moves domain events written to outbox_events (in the same transaction as
+ * the change they describe) onto the event bus. Delivery is at-least-once:
+ * a relay that crashes after publishing but before marking the row will
+ * publish it again once the lease expires. Failed rows are retried with
+ * exponential backoff and dead-lettered after maxAttempts.
+ */
+
+import type { IOutboxRepository, IEventBus } from '@blog/backend/core';
+import { startIntervalJob, type IntervalJob } from './interval-job.js';
+
+export interface OutboxRelayJobOptions {
+  outboxRepository: IOutboxRepository;
+  eventBus: IEventBus;
+  /** Interval between relay runs in milliseconds */
+  intervalMs: number;
+  /** Events claimed per batch (default: 100) */
+  batchSize?: number;
+  /** How long a claimed batch stays hidden from other relays (default: 30s) */
+  leaseMs?: number;
+  /** Attempts before an event is dead-lettered (default: 10) */
+  maxAttempts?: number;
+  /** How long published rows are kept (default: 7 days) */
+  retentionMs?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_LEASE_MS = 30 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 10;
+const DEFAULT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+// Batches per run at most, so a backlog never blocks the job for long
+const MAX_BATCHES_PER_RUN = 20;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 15 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Backoff before the next attempt: 1s, 2s, 4s, ... capped at 15 minutes
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0),
+    MAX_RETRY_DELAY_MS
+  );
+}
+
+export function startOutboxRelayJob(
+  options: OutboxRelayJobOptions
+): IntervalJob {
+  const { outboxRepository, eventBus } = options;
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const retentionMs = options.retentionMs ?? DEFAULT_RETENTION_MS;
+  let lastCleanupAt = 0;
+
+  const relayBatch = async (): Promise<number> => {
+    const claimed = await outboxRepository.claimPending(batchSize, leaseMs);
+    const published: string[] = [];
+
+    // One event at a time, so a failure is attributed to the right row
+    for (const event of claimed) {
+      try {
+        await eventBus.publishMessages([event.message]);
+        published.push(event.id);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const status = await outboxRepository.markFailed(
+          event.id,
+          message,
+          getRetryDelayMs(event.attempts),
+          maxAttempts
+        );
+        if (status === 'dead') {
+          console.error(
+            `❌ Outbox event ${event.message.eventName} (${event.message.eventId}) dead-lettered after ${event.attempts} attempts: ${message}`
+          );
+        }
+      }
+    }
+
+    await outboxRepository.markPublished(published);
+    return claimed.length;
+  };
+
+  return startIntervalJob({
+    intervalMs: options.intervalMs,
+    run: async () => {
+      for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+        const claimed = await relayBatch();
+        if (claimed < batchSize) break;
+      }
+
+      if (Date.now() - lastCleanupAt >= CLEANUP_INTERVAL_MS) {
+        lastCleanupAt = Date.now();
+        await outboxRepository.deletePublishedBefore(
+          new Date(Date.now() - retentionMs)
+        );
+      }
+    },
+    onError: (error) => console.error('❌ Outbox relay failed:', error),
+  });
+}
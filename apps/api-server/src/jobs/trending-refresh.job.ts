@@ -0,0 +1,29 @@
+/**
+ * Trending Refresh Job
+ *
+ * Periodically rebuilds the precomputed trending scores read by
+ * GET /api/posts/trending. Runs once at startup so the feed is never empty
+ * after a deploy; refreshes from several instances are serialized in SQL.
+ */
+
+import type { IPostRepository } from '@blog/backend/core';
+import { startIntervalJob, type IntervalJob } from './interval-job.js';
+
+export interface TrendingRefreshJobOptions {
+  postRepository: IPostRepository;
+  /** Interval between refreshes in milliseconds */
+  intervalMs: number;
+}
+
+export function startTrendingRefreshJob(
+  options: TrendingRefreshJobOptions
+): IntervalJob {
+  return startIntervalJob({
+    intervalMs: options.intervalMs,
+    run: async () => {
+      const rows = await options.postRepository.refreshTrendingScores();
+      console.log(`📈 Trending scores refreshed (${rows} rows)`);
+    },
+    onError: (error) => console.error('❌ Trending refresh failed:', error),
+  });
+}
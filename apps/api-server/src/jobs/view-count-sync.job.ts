@@ -0,0 +1,40 @@
+/**
+ * View Count Sync Job
+ *
+ * Adds recorded post views to posts.view_count in batches, so a popular post
+ * is updated once per sync instead of locking its row on every view.
+ */
+
+import type { IViewRepository } from '@blog/backend/core';
+import { startIntervalJob, type IntervalJob } from './interval-job.js';
+
+export interface ViewCountSyncJobOptions {
+  viewRepository: IViewRepository;
+  /** Interval between syncs in milliseconds */
+  intervalMs: number;
+  /** Views counted per batch (default: 5000) */
+  batchSize?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 5000;
+// Batches per sync at most, so a backlog never blocks the job for long
+const MAX_BATCHES_PER_SYNC = 20;
+
+export function startViewCountSyncJob(
+  options: ViewCountSyncJobOptions
+): IntervalJob {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+  return startIntervalJob({
+    intervalMs: options.intervalMs,
+    run: async () => {
+      for (let batch = 0; batch < MAX_BATCHES_PER_SYNC; batch++) {
+        const counted = await options.viewRepository.syncPostViewCounts(
+          batchSize
+        );
+        if (counted < batchSize) break;
+      }
+    },
+    onError: (error) => console.error('❌ View count sync failed:', error),
+  });
+}
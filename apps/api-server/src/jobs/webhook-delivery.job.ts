@@ -0,0 +1,45 @@
+/**
+ * Webhook Delivery Worker
+ *
+ * Processes the webhook delivery queue. A failed attempt is thrown back to
+ * the queue, which retries it with backoff; the last attempt marks the
+ * delivery failed instead.
+ */
+
+import {
+  DeliverWebhookUseCase,
+  type IWebhookRepository,
+  type IWebhookQueue,
+  type IWebhookSender,
+} from '@blog/backend/core';
+
+export interface WebhookDeliveryWorkerOptions {
+  webhookRepository: IWebhookRepository;
+  webhookQueue: IWebhookQueue;
+  webhookSender: IWebhookSender;
+}
+
+export function startWebhookDeliveryWorker(
+  options: WebhookDeliveryWorkerOptions
+): void {
+  const deliverWebhookUseCase = new DeliverWebhookUseCase({
+    webhookRepository: options.webhookRepository,
+    webhookSender: options.webhookSender,
+  });
+
+  options.webhookQueue.process(async (job, context) => {
+    const result = await deliverWebhookUseCase.execute({
+      deliveryId: job.deliveryId,
+      finalAttempt: context.attempt >= context.maxAttempts,
+    });
+
+    // A delivery deleted with its endpoint has nothing left to send
+    if (!result.success) return;
+
+    if (result.data.retry) {
+      throw new Error(
+        `Webhook delivery ${job.deliveryId} failed (attempt ${context.attempt}/${context.maxAttempts})`
+      );
+    }
+  });
+}
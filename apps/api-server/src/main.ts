@@ -5,14 +5,42 @@
 import { loadEnv } from './config/env.js';
 import { createApp } from './app.js';
 import { createContainer } from './container.js';
+import type { IntervalJob } from './jobs/interval-job.js';
+import { startTrendingRefreshJob } from './jobs/trending-refresh.job.js';
+import { startViewCountSyncJob } from './jobs/view-count-sync.job.js';
+import { startOutboxRelayJob } from './jobs/outbox-relay.job.js';
+import { startNotificationDigestJob } from './jobs/notification-digest.job.js';
+import { startWebhookDeliveryWorker } from './jobs/webhook-delivery.job.js';
 import {
   getDatabase,
   getPool,
   createPasswordHasher,
   createTokenGenerator,
+  createEmailService,
+  createUnsubscribeTokenService,
+  createPlaybackTokenService,
   createMinIOService,
   createVideoQueueService,
+  createWebhookQueueService,
+  createHttpWebhookSender,
+  createOllamaEmbeddingService,
+  createLocalEmbeddingService,
+  createOllamaLlmService,
+  createLocalLlmService,
+  createInMemoryEventBus,
+  createRedisStreamEventBus,
+  createInMemoryRealtimeGateway,
+  createRedisPubSubRealtimeGateway,
+  type RedisStreamEventBus,
+  type RedisPubSubRealtimeGateway,
 } from '@blog/backend/infrastructure';
+import type {
+  IEmailService,
+  IEmbeddingService,
+  ILlmService,
+  IEventBus,
+  IRealtimeGateway,
+} from '@blog/backend/core';
 
 async function main() {
   try {
@@ -43,6 +71,32 @@ async function main() {
       accessTokenSecret: env.JWT_ACCESS_SECRET ?? env.JWT_SECRET,
       refreshTokenSecret: env.JWT_REFRESH_SECRET ?? env.JWT_SECRET + '-refresh',
     });
+    const unsubscribeTokenService = createUnsubscribeTokenService(
+      env.UNSUBSCRIBE_SECRET ?? env.JWT_SECRET + '-unsubscribe'
+    );
+    const playbackTokenService = createPlaybackTokenService(
+      env.PLAYBACK_TOKEN_SECRET ?? env.JWT_SECRET + '-playback'
+    );
+
+    // Initialize email service (SMTP, or Ethereal test inboxes)
+    let emailService: IEmailService | undefined;
+    if (env.USE_ETHEREAL || env.SMTP_HOST) {
+      try {
+        emailService = await createEmailService({
+          host: env.SMTP_HOST,
+          port: env.SMTP_PORT,
+          secure: env.SMTP_SECURE,
+          user: env.SMTP_USER,
+          password: env.SMTP_PASSWORD,
+          fromEmail: env.EMAIL_FROM_ADDRESS ?? 'noreply@blogplatform.local',
+          fromName: env.EMAIL_FROM_NAME ?? env.APP_NAME,
+          appUrl: env.APP_URL,
+          useEthereal: env.USE_ETHEREAL,
+        });
+      } catch (error) {
+        console.warn('⚠️ Email service not available, emails disabled:', error);
+      }
+    }
 
     // Initialize MinIO storage service
     let storageService:
@@ -90,6 +144,91 @@ async function main() {
       );
     }
 
+    // Initialize embedding service (semantic search)
+    let embeddingService: IEmbeddingService | undefined;
+    if (env.EMBEDDING_PROVIDER === 'ollama') {
+      embeddingService = createOllamaEmbeddingService({
+        baseUrl: env.OLLAMA_BASE_URL,
+        model: env.OLLAMA_EMBEDDING_MODEL,
+        timeoutMs: env.OLLAMA_TIMEOUT,
+      });
+      if (await embeddingService.isAvailable()) {
+        console.log(
+          `🧠 Ollama embedding service initialized (${embeddingService.model})`
+        );
+      } else {
+        console.warn(
+          `⚠️ Ollama not reachable at ${env.OLLAMA_BASE_URL}, semantic search will fail until it is up`
+        );
+      }
+    } else if (env.EMBEDDING_PROVIDER === 'local') {
+      embeddingService = createLocalEmbeddingService();
+      console.log('🧠 Local (stub) embedding service initialized');
+    }
+
+    // Initialize LLM service (ask the blog)
+    let llmService: ILlmService | undefined;
+    if (env.LLM_PROVIDER === 'ollama') {
+      llmService = createOllamaLlmService({
+        baseUrl: env.OLLAMA_BASE_URL,
+        model: env.OLLAMA_CHAT_MODEL,
+        timeoutMs: env.OLLAMA_TIMEOUT,
+      });
+      console.log(`💬 Ollama LLM service initialized (${llmService.model})`);
+    } else if (env.LLM_PROVIDER === 'local') {
+      llmService = createLocalLlmService();
+      console.log('💬 Local (canned) LLM service initialized');
+    }
+
+    // Initialize webhook delivery queue (BullMQ, shares the Redis instance)
+    let webhookQueue: ReturnType<typeof createWebhookQueueService> | undefined;
+    try {
+      webhookQueue = createWebhookQueueService({
+        redis: {
+          host: env.REDIS_HOST,
+          port: env.REDIS_PORT,
+          password: env.REDIS_PASSWORD,
+        },
+        maxAttempts: env.WEBHOOK_MAX_ATTEMPTS,
+      });
+      console.log('🪝 Webhook delivery queue initialized');
+    } catch (error) {
+      console.warn('⚠️ Webhook queue not available, webhooks disabled:', error);
+    }
+
+    // Initialize event bus (domain events) and realtime gateway (push to
+    // connected clients); both go through Redis unless running in-process
+    let eventBus: IEventBus;
+    let streamEventBus: RedisStreamEventBus | undefined;
+    let realtimeGateway: IRealtimeGateway;
+    let pubSubRealtimeGateway: RedisPubSubRealtimeGateway | undefined;
+    if (env.EVENT_BUS === 'redis') {
+      streamEventBus = createRedisStreamEventBus({
+        redis: {
+          host: env.REDIS_HOST,
+          port: env.REDIS_PORT,
+          password: env.REDIS_PASSWORD,
+        },
+        consumerGroup: 'api-server',
+        consumerName: env.EVENT_CONSUMER_NAME,
+        claimIdleMs: env.EVENT_CLAIM_IDLE_MS,
+      });
+      eventBus = streamEventBus;
+      pubSubRealtimeGateway = createRedisPubSubRealtimeGateway({
+        redis: {
+          host: env.REDIS_HOST,
+          port: env.REDIS_PORT,
+          password: env.REDIS_PASSWORD,
+        },
+      });
+      realtimeGateway = pubSubRealtimeGateway;
+      console.log('📨 Redis Streams event bus and pub/sub gateway initialized');
+    } else {
+      eventBus = createInMemoryEventBus();
+      realtimeGateway = createInMemoryRealtimeGateway();
+      console.log('📨 In-memory event bus and realtime gateway initialized');
+    }
+
     // Build dependency container
     const container = createContainer({
       db,
@@ -97,11 +236,22 @@ async function main() {
       env,
       passwordHasher,
       tokenGenerator,
+      emailService,
       storageService,
       videoQueueService,
+      embeddingService,
+      llmService,
+      eventBus,
+      realtimeGateway,
+      unsubscribeTokenService,
+      playbackTokenService,
+      webhookQueue,
       queueVideoForProcessing,
     });
 
+    // Consume events once subscribers are registered
+    await streamEventBus?.start();
+
     // Create Express app
     const app = createApp({
       env: container.env,
@@ -116,6 +266,12 @@ async function main() {
       commentLikeRepository: container.commentLikeRepository,
       videoRepository: container.videoRepository,
       videoQualityRepository: container.videoQualityRepository,
+      videoUploadRepository: container.videoUploadRepository,
+      captionRepository: container.captionRepository,
+      chapterRepository: container.chapterRepository,
+      thumbnailCandidateRepository: container.thumbnailCandidateRepository,
+      encryptionKeyRepository: container.encryptionKeyRepository,
+      loudnessRepository: container.loudnessRepository,
       bookmarkRepository: container.bookmarkRepository,
       bookmarkFolderRepository: container.bookmarkFolderRepository,
       passwordHasher: container.passwordHasher,
@@ -123,9 +279,27 @@ async function main() {
       emailVerificationTokenRepository:
         container.emailVerificationTokenRepository,
       passwordResetTokenRepository: container.passwordResetTokenRepository,
+      searchQueryRepository: container.searchQueryRepository,
+      postChunkRepository: container.postChunkRepository,
+      viewRepository: container.viewRepository,
+      analyticsRepository: container.analyticsRepository,
+      notificationRepository: container.notificationRepository,
+      notificationPreferenceRepository:
+        container.notificationPreferenceRepository,
       emailService: container.emailService,
+      unsubscribeTokenService: container.unsubscribeTokenService,
+      playbackTokenService: container.playbackTokenService,
       storageService: container.storageService,
       videoQueueService: container.videoQueueService,
+      embeddingService: container.embeddingService,
+      llmService: container.llmService,
+      eventBus: container.eventBus,
+      realtimeGateway: container.realtimeGateway,
+      webhookRepository: container.webhookRepository,
+      webhookQueue: container.webhookQueue,
+      // Without the relay, events are published directly after the commit
+      unitOfWork:
+        env.OUTBOX_RELAY_INTERVAL_MS > 0 ? container.unitOfWork : undefined,
       queueVideoForProcessing: container.queueVideoForProcessing,
     });
 
@@ -144,10 +318,70 @@ async function main() {
       }
     });
 
+    // Start background jobs
+    const jobs: IntervalJob[] = [];
+    if (env.TRENDING_REFRESH_INTERVAL_MS > 0) {
+      jobs.push(
+        startTrendingRefreshJob({
+          postRepository: container.postRepository,
+          intervalMs: env.TRENDING_REFRESH_INTERVAL_MS,
+        })
+      );
+    }
+    if (env.VIEW_COUNT_SYNC_INTERVAL_MS > 0) {
+      jobs.push(
+        startViewCountSyncJob({
+          viewRepository: container.viewRepository,
+          intervalMs: env.VIEW_COUNT_SYNC_INTERVAL_MS,
+        })
+      );
+    }
+    if (env.OUTBOX_RELAY_INTERVAL_MS > 0) {
+      jobs.push(
+        startOutboxRelayJob({
+          outboxRepository: container.outboxRepository,
+          eventBus: container.eventBus,
+          intervalMs: env.OUTBOX_RELAY_INTERVAL_MS,
+          maxAttempts: env.OUTBOX_MAX_ATTEMPTS,
+        })
+      );
+    }
+    if (
+      env.NOTIFICATION_DIGEST_INTERVAL_MS > 0 &&
+      emailService?.isConfigured()
+    ) {
+      jobs.push(
+        startNotificationDigestJob({
+          digestRepository: container.notificationDigestRepository,
+          preferenceRepository: container.notificationPreferenceRepository,
+          emailService,
+          unsubscribeTokenService: container.unsubscribeTokenService,
+          appUrl: env.APP_URL,
+          intervalMs: env.NOTIFICATION_DIGEST_INTERVAL_MS,
+        })
+      );
+    }
+
+    if (webhookQueue) {
+      startWebhookDeliveryWorker({
+        webhookRepository: container.webhookRepository,
+        webhookQueue,
+        webhookSender: createHttpWebhookSender({
+          timeoutMs: env.WEBHOOK_TIMEOUT_MS,
+          allowPrivateNetworks: env.WEBHOOK_ALLOW_PRIVATE_URLS,
+        }),
+      });
+    }
+
     // Graceful shutdown
     const shutdown = async () => {
       console.log('\n🛑 Shutting down gracefully...');
 
+      jobs.forEach((job) => job.stop());
+      await streamEventBus?.stop();
+      await pubSubRealtimeGateway?.close();
+      await webhookQueue?.close();
+
       // Close queue service
       if (videoQueueService) {
         await videoQueueService.close();
@@ -157,6 +391,9 @@ async function main() {
         console.log('👋 Server closed');
         process.exit(0);
       });
+
+      // Realtime event streams never end on their own; clients reconnect
+      setTimeout(() => server.closeAllConnections(), 5000).unref();
     };
 
     process.on('SIGTERM', shutdown);
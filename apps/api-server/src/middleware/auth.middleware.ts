@@ -21,18 +21,29 @@ declare global {
 export interface AuthMiddlewareOptions {
   tokenGenerator: ITokenGenerator;
   optional?: boolean;
+  /**
+   * Also accept the token as ?access_token= (for EventSource, which cannot
+   * set headers). Only enable on routes whose URLs are not logged or cached.
+   */
+  allowQueryToken?: boolean;
 }
 
 /**
  * Create authentication middleware
  */
 export function createAuthMiddleware(options: AuthMiddlewareOptions) {
-  const { tokenGenerator, optional = false } = options;
+  const { tokenGenerator, optional = false, allowQueryToken = false } = options;
 
   return async (req: Request, _res: Response, next: NextFunction) => {
     try {
-      // Get token from Authorization header
-      const authHeader = req.headers.authorization;
+      // Get token from Authorization header (or the query string if allowed)
+      const queryToken =
+        allowQueryToken && typeof req.query.access_token === 'string'
+          ? req.query.access_token
+          : undefined;
+      const authHeader =
+        req.headers.authorization ??
+        (queryToken ? `Bearer ${queryToken}` : undefined);
 
       if (!authHeader) {
         if (optional) {
@@ -6,3 +6,4 @@ export * from './error.middleware.js';
 export * from './auth.middleware.js';
 export * from './logger.middleware.js';
 export * from './rate-limit.middleware.js';
+export * from './viewer-session.middleware.js';
@@ -56,6 +56,15 @@ export function createLogger(
 /**
  * Create HTTP logger middleware
  */
+// Access tokens passed in the query string (SSE) must not reach the logs
+const redactUrl = (url: string): string =>
+  url?.replace(/([?&]access_token=)[^&]*/g, '$1[REDACTED]');
+
+const redactQuery = (
+  query: Record<string, unknown> | undefined
+): Record<string, unknown> | undefined =>
+  query?.access_token ? { ...query, access_token: '[REDACTED]' } : query;
+
 export function createHttpLogger(
   config: LoggerConfig
 ): HttpLogger<Request, Response, LogLevel | 'silent'> {
@@ -79,8 +88,8 @@ export function createHttpLogger(
       req: (req: Record<string, unknown>) => ({
         id: req.id,
         method: req.method,
-        url: req.url,
-        query: req.query,
+        url: redactUrl(req.url as string),
+        query: redactQuery(req.query as Record<string, unknown> | undefined),
         // Don't log sensitive headers
         headers: {
           'user-agent': (req.headers as Record<string, string>)?.['user-agent'],
@@ -116,11 +125,13 @@ export function createHttpLogger(
     },
     // Customize success message
     customSuccessMessage: (req: Request, res: Response): string => {
-      return `${req.method} ${req.url} ${res.statusCode}`;
+      return `${req.method} ${redactUrl(req.url)} ${res.statusCode}`;
     },
     // Customize error message
     customErrorMessage: (req: Request, res: Response, err: Error): string => {
-      return `${req.method} ${req.url} ${res.statusCode} - ${err.message}`;
+      return `${req.method} ${redactUrl(req.url)} ${res.statusCode} - ${
+        err.message
+      }`;
     },
     // Add custom attributes to each log
     customAttributeKeys: {
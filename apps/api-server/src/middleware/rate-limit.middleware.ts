@@ -164,6 +164,45 @@ export function createResendVerificationRateLimiter(
   });
 }
 
+// ============================================================================
+// Question Answering Rate Limiter (LLM generation is expensive)
+// ============================================================================
+
+export interface AskRateLimitConfig {
+  /** Window in milliseconds (default: 1 minute) */
+  windowMs?: number;
+  /** Max questions per window (default: 10) */
+  max?: number;
+}
+
+/**
+ * Creates a rate limiter for the question answering endpoint
+ * Limits: 10 questions per minute per user (or IP for anonymous users)
+ */
+export function createAskRateLimiter(config: AskRateLimitConfig = {}) {
+  const windowMs = config.windowMs ?? 60 * 1000;
+  const max = config.max ?? 10;
+
+  return rateLimit({
+    windowMs,
+    max,
+    standardHeaders: true,
+    legacyHeaders: false,
+    keyGenerator: (req: Request) =>
+      `ask:${req.user?.userId ?? normalizeClientIp(req)}`,
+    handler: (_req: Request, res: Response) => {
+      res.status(429).json({
+        success: false,
+        error: {
+          code: 'TOO_MANY_QUESTIONS',
+          message: 'Too many questions. Please try again in a minute.',
+          retryAfter: Math.ceil(windowMs / 1000),
+        },
+      });
+    },
+  });
+}
+
 // ============================================================================
 // Redis-based Comment Rate Limiter (50 comments per day per user)
 // ============================================================================
@@ -0,0 +1,82 @@
+/**
+ * Viewer Session Middleware
+ *
+ * Identifies repeat viewers with an anonymous session cookie (no login
+ * needed) so post and video views can be deduplicated.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { Request, Response, NextFunction } from 'express';
+
+// Extend Express Request type
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      viewerSessionId?: string;
+    }
+  }
+}
+
+export interface ViewerSessionMiddlewareOptions {
+  /** Cookie name (default: 'viewer_sid') */
+  cookieName?: string;
+  /** Cookie lifetime in milliseconds (default: 1 year) */
+  maxAgeMs?: number;
+}
+
+const DEFAULT_COOKIE_NAME = 'viewer_sid';
+const DEFAULT_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1000;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Read a cookie from the Cookie header (no cookie-parser needed).
+ * A value that is not valid percent-encoding counts as missing.
+ */
+function readCookie(req: Request, name: string): string | undefined {
+  const header = req.headers.cookie;
+  if (!header) return undefined;
+
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) continue;
+    if (part.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(separator + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Create viewer session middleware: reuses a valid session cookie or issues
+ * a new one, and exposes it as req.viewerSessionId
+ */
+export function createViewerSessionMiddleware(
+  options: ViewerSessionMiddlewareOptions = {}
+) {
+  const cookieName = options.cookieName ?? DEFAULT_COOKIE_NAME;
+  const maxAge = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    let sessionId = readCookie(req, cookieName);
+
+    if (!sessionId || !UUID_PATTERN.test(sessionId)) {
+      sessionId = randomUUID();
+      res.cookie(cookieName, sessionId, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: req.secure,
+        maxAge,
+        path: '/',
+      });
+    }
+
+    req.viewerSessionId = sessionId;
+    next();
+  };
+}
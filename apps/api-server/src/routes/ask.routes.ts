@@ -0,0 +1,139 @@
+/**
+ * Ask Routes
+ *
+ * Handles "Ask the blog" question answering (RAG) over Server-Sent Events.
+ */
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { AskQuestionUseCase } from '@blog/backend/core';
+import { asyncHandler, createError } from '../middleware/error.middleware.js';
+import { createAskRateLimiter } from '../middleware/rate-limit.middleware.js';
+import type { AskRoutesDependencies } from './types.js';
+
+export function createAskRoutes(deps: AskRoutesDependencies): Router {
+  const router = Router();
+
+  const askQuestionUseCase = new AskQuestionUseCase({
+    postRepository: deps.postRepository,
+    postChunkRepository: deps.postChunkRepository,
+    embeddingService: deps.embeddingService,
+    llmService: deps.llmService,
+    searchQueryRepository: deps.searchQueryRepository,
+    topK: deps.topK,
+  });
+
+  const askLimiter = createAskRateLimiter({ max: deps.rateLimitMax });
+
+  /**
+   * @openapi
+   * /api/ask:
+   *   post:
+   *     summary: Ask the blog
+   *     description: |
+   *       Answers a question using passages of published public posts only.
+   *       The response is a Server-Sent Events stream:
+   *       - `citations`: `{ citations: [{ index, postId, title, slug, url }] }`,
+   *         sent first; the answer refers to them as [index]
+   *       - `token`: `{ text }`, answer fragments in order
+   *       - `done`: `{ model }`
+   *       - `error`: `{ code, message }` if generation fails mid-stream
+   *       Rate limited to 10 questions per minute.
+   *     tags: [Search]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - question
+   *             properties:
+   *               question:
+   *                 type: string
+   *                 maxLength: 500
+   *     responses:
+   *       200:
+   *         description: Answer stream
+   *         content:
+   *           text/event-stream:
+   *             schema:
+   *               type: string
+   *       400:
+   *         description: Missing or too long question
+   *       429:
+   *         description: Too many questions
+   *       503:
+   *         description: Question answering not configured or backend down
+   */
+  router.post(
+    '/',
+    deps.optionalAuthMiddleware,
+    askLimiter,
+    asyncHandler(async (req: Request, res: Response) => {
+      const abortController = new AbortController();
+
+      const result = await askQuestionUseCase.execute({
+        question:
+          typeof req.body?.question === 'string' ? req.body.question : '',
+        userId: req.user?.userId,
+        signal: abortController.signal,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'VALIDATION_ERROR'
+            ? 400
+            : result.error.code === 'SEARCH_UNAVAILABLE'
+            ? 503
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      // Stop generating when the client goes away
+      res.on('close', () => {
+        if (!res.writableEnded) abortController.abort();
+      });
+
+      res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        // no-transform keeps compression from buffering the stream
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      res.flushHeaders();
+
+      const send = (event: string, data: unknown) => {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      send('citations', {
+        citations: result.data.citations.map((citation) => ({
+          ...citation,
+          url: `/posts/${citation.slug}`,
+        })),
+      });
+
+      try {
+        for await (const text of result.data.answer) {
+          if (abortController.signal.aborted) break;
+          send('token', { text });
+        }
+        send('done', { model: result.data.model });
+      } catch (error) {
+        if (!abortController.signal.aborted) {
+          console.error('❌ Ask generation failed:', error);
+          send('error', {
+            code: 'GENERATION_FAILED',
+            message: 'The answer could not be completed',
+          });
+        }
+      } finally {
+        res.end();
+      }
+    })
+  );
+
+  return router;
+}
@@ -30,6 +30,8 @@ export function createCommentsRoutes(deps: CommentRoutesDependencies): Router {
     commentRepository: deps.commentRepository,
     postRepository: deps.postRepository,
     userRepository: deps.userRepository,
+    eventBus: deps.eventBus,
+    unitOfWork: deps.unitOfWork,
   });
 
   const deleteCommentUseCase = new DeleteCommentUseCase({
@@ -48,6 +50,8 @@ export function createCommentsRoutes(deps: CommentRoutesDependencies): Router {
     commentLikeRepository: deps.commentLikeRepository,
     commentRepository: deps.commentRepository,
     userRepository: deps.userRepository,
+    eventBus: deps.eventBus,
+    unitOfWork: deps.unitOfWork,
   });
 
   const unlikeCommentUseCase = new UnlikeCommentUseCase({
@@ -21,6 +21,8 @@ export function createFollowsRoutes(deps: FollowRoutesDependencies): Router {
   const followUserUseCase = new FollowUserUseCase({
     followRepository: deps.followRepository,
     userRepository: deps.userRepository,
+    eventBus: deps.eventBus,
+    unitOfWork: deps.unitOfWork,
   });
 
   const unfollowUserUseCase = new UnfollowUserUseCase({
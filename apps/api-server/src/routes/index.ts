@@ -11,4 +11,10 @@ export * from './categories.routes.js';
 export * from './tags.routes.js';
 export * from './videos.routes.js';
 export * from './bookmarks.routes.js';
+export * from './search.routes.js';
+export * from './ask.routes.js';
+export * from './views.routes.js';
+export * from './notifications.routes.js';
+export * from './realtime.routes.js';
+export * from './webhooks.routes.js';
 export * from './types.js';
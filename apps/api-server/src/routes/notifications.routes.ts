@@ -0,0 +1,421 @@
+/**
+ * Notification Routes
+ *
+ * Lists the current user's in-app notifications and marks them as read,
+ * manages notification preferences, and handles one-click unsubscribe
+ * links from emails.
+ */
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  GetNotificationsUseCase,
+  MarkNotificationsReadUseCase,
+  GetNotificationPreferencesUseCase,
+  UpdateNotificationPreferencesUseCase,
+  UnsubscribeNotificationsUseCase,
+  NOTIFICATION_TYPES,
+  type UserNotificationType,
+} from '@blog/backend/core';
+import { asyncHandler, createError } from '../middleware/error.middleware.js';
+import type { NotificationRoutesDependencies } from './types.js';
+
+// Validation schemas
+const markReadSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1).max(100),
+});
+
+const updatePreferencesSchema = z
+  .object({
+    types: z
+      .array(
+        z.object({
+          type: z.custom<UserNotificationType>(
+            (type) => NOTIFICATION_TYPES.includes(type as UserNotificationType),
+            'Unknown notification type'
+          ),
+          inApp: z.boolean(),
+          email: z.boolean(),
+        })
+      )
+      .max(NOTIFICATION_TYPES.length)
+      .optional(),
+    digestFrequency: z.enum(['off', 'daily', 'weekly']).optional(),
+  })
+  .refine(
+    (data) => data.types !== undefined || data.digestFrequency !== undefined,
+    'Nothing to update'
+  );
+
+const unsubscribeSchema = z.object({
+  token: z.string().min(1).max(512),
+});
+
+export function createNotificationRoutes(
+  deps: NotificationRoutesDependencies
+): Router {
+  const router = Router();
+
+  const getNotificationsUseCase = new GetNotificationsUseCase({
+    notificationRepository: deps.notificationRepository,
+  });
+
+  const markNotificationsReadUseCase = new MarkNotificationsReadUseCase({
+    notificationRepository: deps.notificationRepository,
+  });
+
+  /**
+   * @openapi
+   * /api/notifications:
+   *   get:
+   *     summary: List notifications
+   *     description: |
+   *       Returns the current user's notifications, newest first, with the
+   *       number of unread notifications. Pass nextCursor as cursor to get
+   *       the next page.
+   *     tags: [Notifications]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: cursor
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           default: 20
+   *           maximum: 50
+   *       - in: query
+   *         name: unread
+   *         description: Only list unread notifications
+   *         schema:
+   *           type: boolean
+   *     responses:
+   *       200:
+   *         description: Notifications with nextCursor, hasMore and unreadCount
+   *       400:
+   *         description: Invalid cursor
+   *       401:
+   *         description: Authentication required
+   */
+  router.get(
+    '/',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const result = await getNotificationsUseCase.execute({
+        userId: req.user.userId,
+        cursor: req.query.cursor as string | undefined,
+        limit: req.query.limit
+          ? parseInt(req.query.limit as string, 10)
+          : undefined,
+        unreadOnly: req.query.unread === 'true',
+      });
+
+      if (!result.success) {
+        const statusCode = result.error.code === 'INVALID_INPUT' ? 400 : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/notifications/read:
+   *   post:
+   *     summary: Mark notifications as read
+   *     tags: [Notifications]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - ids
+   *             properties:
+   *               ids:
+   *                 type: array
+   *                 maxItems: 100
+   *                 items:
+   *                   type: string
+   *                   format: uuid
+   *     responses:
+   *       200:
+   *         description: Number of notifications updated and the new unread count
+   *       400:
+   *         description: Validation error
+   *       401:
+   *         description: Authentication required
+   */
+  router.post(
+    '/read',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const validation = markReadSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw createError(
+          validation.error.issues[0].message,
+          400,
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const result = await markNotificationsReadUseCase.execute({
+        userId: req.user.userId,
+        notificationIds: validation.data.ids,
+      });
+
+      if (!result.success) {
+        throw createError(result.error.message, 400, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/notifications/read-all:
+   *   post:
+   *     summary: Mark all notifications as read
+   *     tags: [Notifications]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Number of notifications updated and the new unread count
+   *       401:
+   *         description: Authentication required
+   */
+  router.post(
+    '/read-all',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const result = await markNotificationsReadUseCase.execute({
+        userId: req.user.userId,
+      });
+
+      if (!result.success) {
+        throw createError(result.error.message, 400, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  // ============================================
+  // Preferences & Unsubscribe Routes
+  // ============================================
+
+  // Only register these routes if dependencies are provided
+  if (deps.notificationPreferenceRepository && deps.unsubscribeTokenService) {
+    const getPreferencesUseCase = new GetNotificationPreferencesUseCase({
+      preferenceRepository: deps.notificationPreferenceRepository,
+    });
+
+    const updatePreferencesUseCase = new UpdateNotificationPreferencesUseCase({
+      preferenceRepository: deps.notificationPreferenceRepository,
+    });
+
+    const unsubscribeUseCase = new UnsubscribeNotificationsUseCase({
+      preferenceRepository: deps.notificationPreferenceRepository,
+      unsubscribeTokenService: deps.unsubscribeTokenService,
+    });
+
+    /**
+     * @openapi
+     * /api/notifications/preferences:
+     *   get:
+     *     summary: Get notification preferences
+     *     description: |
+     *       Returns, for every notification type, whether it is shown in-app
+     *       and emailed right away, and how often the digest email is sent.
+     *       Types not emailed right away are summarized in the digest.
+     *     tags: [Notifications]
+     *     security:
+     *       - bearerAuth: []
+     *     responses:
+     *       200:
+     *         description: Preferences per type and the digest frequency
+     *       401:
+     *         description: Authentication required
+     */
+    router.get(
+      '/preferences',
+      deps.authMiddleware,
+      asyncHandler(async (req: Request, res: Response) => {
+        if (!req.user) {
+          throw createError('Authentication required', 401, 'UNAUTHORIZED');
+        }
+
+        const result = await getPreferencesUseCase.execute({
+          userId: req.user.userId,
+        });
+
+        if (!result.success) {
+          throw createError(result.error.message, 500, result.error.code);
+        }
+
+        res.json({
+          success: true,
+          data: result.data,
+        });
+      })
+    );
+
+    /**
+     * @openapi
+     * /api/notifications/preferences:
+     *   put:
+     *     summary: Update notification preferences
+     *     description: Types not listed keep their current preferences.
+     *     tags: [Notifications]
+     *     security:
+     *       - bearerAuth: []
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             type: object
+     *             properties:
+     *               types:
+     *                 type: array
+     *                 items:
+     *                   type: object
+     *                   required: [type, inApp, email]
+     *                   properties:
+     *                     type:
+     *                       type: string
+     *                       enum: [comment_reply, mention, follow, post_like, comment_like, video_ready, video_failed]
+     *                     inApp:
+     *                       type: boolean
+     *                     email:
+     *                       type: boolean
+     *               digestFrequency:
+     *                 type: string
+     *                 enum: [off, daily, weekly]
+     *     responses:
+     *       200:
+     *         description: The updated preferences
+     *       400:
+     *         description: Validation error
+     *       401:
+     *         description: Authentication required
+     */
+    router.put(
+      '/preferences',
+      deps.authMiddleware,
+      asyncHandler(async (req: Request, res: Response) => {
+        if (!req.user) {
+          throw createError('Authentication required', 401, 'UNAUTHORIZED');
+        }
+
+        const validation = updatePreferencesSchema.safeParse(req.body);
+        if (!validation.success) {
+          throw createError(
+            validation.error.issues[0].message,
+            400,
+            'VALIDATION_ERROR'
+          );
+        }
+
+        const result = await updatePreferencesUseCase.execute({
+          userId: req.user.userId,
+          ...validation.data,
+        });
+
+        if (!result.success) {
+          throw createError(result.error.message, 400, result.error.code);
+        }
+
+        res.json({
+          success: true,
+          data: result.data,
+        });
+      })
+    );
+
+    /**
+     * @openapi
+     * /api/notifications/unsubscribe:
+     *   post:
+     *     summary: Unsubscribe from emails
+     *     description: |
+     *       Handles one-click unsubscribe links from notification and digest
+     *       emails. The signed token identifies the user and what to turn
+     *       off, so no login is needed.
+     *     tags: [Notifications]
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             type: object
+     *             required:
+     *               - token
+     *             properties:
+     *               token:
+     *                 type: string
+     *     responses:
+     *       200:
+     *         description: What was unsubscribed from (all, digest or a notification type)
+     *       400:
+     *         description: Invalid unsubscribe link
+     */
+    router.post(
+      '/unsubscribe',
+      asyncHandler(async (req: Request, res: Response) => {
+        const validation = unsubscribeSchema.safeParse(req.body);
+        if (!validation.success) {
+          throw createError(
+            validation.error.issues[0].message,
+            400,
+            'VALIDATION_ERROR'
+          );
+        }
+
+        const result = await unsubscribeUseCase.execute(validation.data);
+
+        if (!result.success) {
+          throw createError(result.error.message, 400, result.error.code);
+        }
+
+        res.json({
+          success: true,
+          data: result.data,
+        });
+      })
+    );
+  }
+
+  return router;
+}
@@ -12,8 +12,11 @@ import {
   UpdatePostUseCase,
   DeletePostUseCase,
   ListPostsUseCase,
+  GetRelatedPostsUseCase,
+  GetTrendingPostsUseCase,
   LikePostUseCase,
   UnlikePostUseCase,
+  type TrendingPeriod,
 } from '@blog/backend/core';
 import { asyncHandler, createError } from '../middleware/error.middleware.js';
 import type { PostRoutesDependencies } from './types.js';
@@ -26,6 +29,8 @@ export function createPostsRoutes(deps: PostRoutesDependencies): Router {
     userRepository: deps.userRepository,
     categoryRepository: deps.categoryRepository,
     tagRepository: deps.tagRepository,
+    eventBus: deps.eventBus,
+    unitOfWork: deps.unitOfWork,
   });
 
   const getPostUseCase = new GetPostUseCase({
@@ -33,6 +38,7 @@ export function createPostsRoutes(deps: PostRoutesDependencies): Router {
     userRepository: deps.userRepository,
     likeRepository: deps.likeRepository,
     bookmarkRepository: deps.bookmarkRepository,
+    chapterRepository: deps.chapterRepository,
   });
 
   const updatePostUseCase = new UpdatePostUseCase({
@@ -40,6 +46,8 @@ export function createPostsRoutes(deps: PostRoutesDependencies): Router {
     userRepository: deps.userRepository,
     categoryRepository: deps.categoryRepository,
     tagRepository: deps.tagRepository,
+    eventBus: deps.eventBus,
+    unitOfWork: deps.unitOfWork,
   });
 
   const deletePostUseCase = new DeletePostUseCase({
@@ -53,10 +61,24 @@ export function createPostsRoutes(deps: PostRoutesDependencies): Router {
     bookmarkRepository: deps.bookmarkRepository,
   });
 
+  const getRelatedPostsUseCase = new GetRelatedPostsUseCase({
+    postRepository: deps.postRepository,
+    userRepository: deps.userRepository,
+    bookmarkRepository: deps.bookmarkRepository,
+  });
+
+  const getTrendingPostsUseCase = new GetTrendingPostsUseCase({
+    postRepository: deps.postRepository,
+    userRepository: deps.userRepository,
+    bookmarkRepository: deps.bookmarkRepository,
+  });
+
   const likePostUseCase = new LikePostUseCase({
     likeRepository: deps.likeRepository,
     postRepository: deps.postRepository,
     userRepository: deps.userRepository,
+    eventBus: deps.eventBus,
+    unitOfWork: deps.unitOfWork,
   });
 
   const unlikePostUseCase = new UnlikePostUseCase({
@@ -261,6 +283,73 @@ export function createPostsRoutes(deps: PostRoutesDependencies): Router {
     })
   );
 
+  /**
+   * @openapi
+   * /api/posts/trending:
+   *   get:
+   *     summary: Get trending posts
+   *     description: |
+   *       Published public posts ranked by a time-decayed engagement score:
+   *       likes, comments, bookmarks and unique (non-bot) views in the
+   *       period, each weighted and halving with age (6h half-life for day,
+   *       36h for week, 7 days for month). Scores are precomputed
+   *       periodically; computedAt tells when.
+   *     tags: [Posts]
+   *     parameters:
+   *       - in: query
+   *         name: period
+   *         schema:
+   *           type: string
+   *           enum: [day, week, month]
+   *           default: week
+   *       - in: query
+   *         name: cursor
+   *         schema:
+   *           type: string
+   *         description: Pagination cursor (nextCursor from previous page)
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 50
+   *           default: 20
+   *         description: Number of posts per page
+   *     responses:
+   *       200:
+   *         description: Trending posts with score and engagement
+   *       400:
+   *         description: Invalid period or cursor
+   */
+  router.get(
+    '/trending',
+    deps.optionalAuthMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      const result = await getTrendingPostsUseCase.execute({
+        period: req.query.period as TrendingPeriod | undefined,
+        cursor: req.query.cursor as string | undefined,
+        limit: req.query.limit
+          ? parseInt(req.query.limit as string, 10)
+          : undefined,
+        userId: req.user?.userId,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'VALIDATION_ERROR' ||
+          result.error.code === 'INVALID_INPUT'
+            ? 400
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
   /**
    * @openapi
    * /api/posts/{idOrSlug}:
@@ -288,7 +377,69 @@ export function createPostsRoutes(deps: PostRoutesDependencies): Router {
       const result = await getPostUseCase.execute({
         postIdOrSlug: req.params.idOrSlug,
         userId: req.user?.userId,
-        trackView: true,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'POST_NOT_FOUND'
+            ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/posts/{idOrSlug}/related:
+   *   get:
+   *     summary: Get related posts
+   *     description: |
+   *       Published public posts related to a post, best first. The score
+   *       combines tag and category overlap (Jaccard), embedding similarity
+   *       (when both posts are embedded), recency and same author; each
+   *       signal is returned for transparency.
+   *     tags: [Posts]
+   *     parameters:
+   *       - in: path
+   *         name: idOrSlug
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Post ID (UUID) or slug
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 12
+   *           default: 5
+   *         description: Number of related posts
+   *     responses:
+   *       200:
+   *         description: Related posts with score and signals
+   *       403:
+   *         description: Post is not visible to the current user
+   *       404:
+   *         description: Post not found
+   */
+  router.get(
+    '/:idOrSlug/related',
+    deps.optionalAuthMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      const result = await getRelatedPostsUseCase.execute({
+        postIdOrSlug: req.params.idOrSlug,
+        limit: req.query.limit
+          ? parseInt(req.query.limit as string, 10)
+          : undefined,
+        userId: req.user?.userId,
       });
 
       if (!result.success) {
@@ -0,0 +1,138 @@
+/**
+ * Realtime Routes
+ *
+ * Server-Sent Events stream pushing new notifications and video encoding
+ * progress to the signed-in user. Messages arrive through the realtime
+ * gateway (Redis pub/sub), so the video-worker can publish to clients
+ * connected to any api-server instance.
+ */
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { RealtimeChannels, type RealtimeMessage } from '@blog/backend/core';
+import { createError } from '../middleware/error.middleware.js';
+import type { RealtimeRoutesDependencies } from './types.js';
+
+// Comment lines keep proxies from closing idle connections
+const DEFAULT_HEARTBEAT_MS = 25 * 1000;
+// How long EventSource waits before reconnecting
+const RECONNECT_DELAY_MS = 5000;
+const MAX_VIDEOS_PER_STREAM = 10;
+
+// Validation schemas
+const videoIdsSchema = z
+  .array(z.string().uuid())
+  .max(MAX_VIDEOS_PER_STREAM, `At most ${MAX_VIDEOS_PER_STREAM} videos`);
+
+export function createRealtimeRoutes(deps: RealtimeRoutesDependencies): Router {
+  const router = Router();
+  const heartbeatMs = deps.heartbeatMs ?? DEFAULT_HEARTBEAT_MS;
+
+  /**
+   * @openapi
+   * /api/realtime/events:
+   *   get:
+   *     summary: Stream realtime events
+   *     description: |
+   *       Server-Sent Events stream for the current user. Always delivers
+   *       notification.created; video.progress and video.status are
+   *       delivered for the videos listed in videoIds, which must belong
+   *       to posts of the current user. EventSource cannot
+   *       send headers, so the access token may be passed as access_token.
+   *     tags: [Realtime]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: videoIds
+   *         description: Comma-separated video IDs to follow (max 10)
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: access_token
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: text/event-stream
+   *       400:
+   *         description: Invalid video IDs
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: A video belongs to another user's post
+   *       404:
+   *         description: Video not found
+   */
+  router.get(
+    '/events',
+    deps.authMiddleware,
+    async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const rawVideoIds =
+        typeof req.query.videoIds === 'string' && req.query.videoIds
+          ? req.query.videoIds.split(',')
+          : [];
+      const validation = videoIdsSchema.safeParse(rawVideoIds);
+      if (!validation.success) {
+        throw createError(
+          validation.error.issues[0].message,
+          400,
+          'VALIDATION_ERROR'
+        );
+      }
+
+      // Progress of a video is only streamed to the author of its post
+      // (videos not attached to a post yet have no owner to check)
+      for (const videoId of validation.data) {
+        const video = await deps.videoRepository.findById(videoId);
+        if (!video) {
+          throw createError('Video not found', 404, 'NOT_FOUND');
+        }
+        const post = await deps.postRepository.findByVideoId(videoId);
+        if (post && post.authorId !== req.user.userId) {
+          throw createError('You do not own this video', 403, 'FORBIDDEN');
+        }
+      }
+
+      const channels = [
+        RealtimeChannels.user(req.user.userId),
+        ...validation.data.map((videoId) => RealtimeChannels.video(videoId)),
+      ];
+
+      // no-transform keeps the compression middleware from buffering events
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+      res.write(`event: ready\ndata: ${JSON.stringify({ channels })}\n\n`);
+
+      const unsubscribe = deps.realtimeGateway.subscribe(
+        channels,
+        (message: RealtimeMessage) => {
+          res.write(
+            `event: ${message.type}\ndata: ${JSON.stringify(message.data)}\n\n`
+          );
+        }
+      );
+
+      const heartbeat = setInterval(() => {
+        res.write(': ping\n\n');
+      }, heartbeatMs);
+
+      req.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,229 @@
+/**
+ * Search Routes
+ *
+ * Handles post search endpoints.
+ */
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { SearchPostsUseCase, type SearchMode } from '@blog/backend/core';
+import { asyncHandler, createError } from '../middleware/error.middleware.js';
+import type { SearchRoutesDependencies } from './types.js';
+
+// Query parameters are single values; filters are IDs
+const searchQuerySchema = z.object({
+  q: z.string().optional(),
+  mode: z.string().optional(),
+  categoryId: z.string().uuid('categoryId must be a UUID').optional(),
+  tagId: z.string().uuid('tagId must be a UUID').optional(),
+  authorId: z.string().uuid('authorId must be a UUID').optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  cursor: z.string().optional(),
+  limit: z.string().optional(),
+});
+
+export function createSearchRoutes(deps: SearchRoutesDependencies): Router {
+  const router = Router();
+
+  const searchPostsUseCase = new SearchPostsUseCase({
+    postRepository: deps.postRepository,
+    userRepository: deps.userRepository,
+    bookmarkRepository: deps.bookmarkRepository,
+    embeddingService: deps.embeddingService,
+    searchQueryRepository: deps.searchQueryRepository,
+    hybridOptions: deps.hybridOptions,
+  });
+
+  /**
+   * @openapi
+   * /api/search/posts:
+   *   get:
+   *     summary: Search posts
+   *     description: |
+   *       Search published public posts, ranked by relevance.
+   *       - fulltext (default): web-search syntax ("exact phrase", -exclude, or);
+   *         titleHighlight and snippet are HTML-escaped text with the
+   *         matched terms wrapped in <mark>.
+   *       - semantic: meaning-based match over post embeddings; rank is the
+   *         cosine similarity, snippet is the post excerpt.
+   *       - hybrid: fulltext and semantic lists merged with reciprocal-rank
+   *         fusion (deduped by post); rank is the fused score.
+   *       Every result reports its per-signal scores. First-page searches
+   *       are logged for search analytics.
+   *     tags: [Search]
+   *     parameters:
+   *       - in: query
+   *         name: q
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 200
+   *         description: Search query
+   *       - in: query
+   *         name: mode
+   *         schema:
+   *           type: string
+   *           enum: [fulltext, semantic, hybrid]
+   *           default: fulltext
+   *         description: Search strategy
+   *       - in: query
+   *         name: categoryId
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: Filter by category ID
+   *       - in: query
+   *         name: tagId
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: Filter by tag ID
+   *       - in: query
+   *         name: authorId
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: Filter by author ID
+   *       - in: query
+   *         name: from
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Only posts published at or after this date
+   *       - in: query
+   *         name: to
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Only posts published at or before this date
+   *       - in: query
+   *         name: cursor
+   *         schema:
+   *           type: string
+   *         description: Pagination cursor (nextCursor from previous page)
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 50
+   *           default: 20
+   *         description: Number of results per page
+   *     responses:
+   *       200:
+   *         description: Ranked search results
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     mode:
+   *                       type: string
+   *                       enum: [fulltext, semantic, hybrid]
+   *                     results:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           id:
+   *                             type: string
+   *                             format: uuid
+   *                           title:
+   *                             type: string
+   *                           slug:
+   *                             type: string
+   *                           rank:
+   *                             type: number
+   *                           titleHighlight:
+   *                             type: string
+   *                           snippet:
+   *                             type: string
+   *                           scores:
+   *                             type: object
+   *                             description: Per-signal scores (null when the signal did not match)
+   *                             properties:
+   *                               fulltextRank:
+   *                                 type: number
+   *                                 nullable: true
+   *                               fulltextPosition:
+   *                                 type: integer
+   *                                 nullable: true
+   *                               semanticSimilarity:
+   *                                 type: number
+   *                                 nullable: true
+   *                               semanticPosition:
+   *                                 type: integer
+   *                                 nullable: true
+   *                               fused:
+   *                                 type: number
+   *                                 nullable: true
+   *                     nextCursor:
+   *                       type: string
+   *                       nullable: true
+   *                     hasMore:
+   *                       type: boolean
+   *                     truncated:
+   *                       type: boolean
+   *                       description: |
+   *                         Hybrid only: each signal contributes at most its
+   *                         top 100 candidates, so when true paging ends
+   *                         before the last matching post
+   *       400:
+   *         description: Missing or invalid query, mode, filter or cursor
+   *       503:
+   *         description: Semantic/hybrid search not configured or embedding backend down
+   */
+  router.get(
+    '/posts',
+    deps.optionalAuthMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      const validation = searchQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        throw createError(
+          validation.error.issues[0].message,
+          400,
+          'VALIDATION_ERROR'
+        );
+      }
+      const params = validation.data;
+
+      const result = await searchPostsUseCase.execute({
+        query: params.q ?? '',
+        mode: params.mode as SearchMode | undefined,
+        categoryId: params.categoryId,
+        tagId: params.tagId,
+        authorId: params.authorId,
+        from: params.from ? new Date(params.from) : undefined,
+        to: params.to ? new Date(params.to) : undefined,
+        cursor: params.cursor,
+        limit: params.limit ? parseInt(params.limit, 10) : undefined,
+        userId: req.user?.userId,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'VALIDATION_ERROR' ||
+          result.error.code === 'INVALID_INPUT'
+            ? 400
+            : result.error.code === 'SEARCH_UNAVAILABLE'
+            ? 503
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  return router;
+}
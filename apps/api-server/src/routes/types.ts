@@ -9,6 +9,12 @@ import type {
   IPostRepository,
   IVideoRepository,
   IVideoQualityRepository,
+  IVideoUploadRepository,
+  IVideoCaptionRepository,
+  IVideoChapterRepository,
+  IVideoThumbnailCandidateRepository,
+  IVideoEncryptionKeyRepository,
+  IVideoLoudnessRepository,
   ICategoryRepository,
   ITagRepository,
   IFollowRepository,
@@ -25,6 +31,22 @@ import type {
   IEmailService,
   IStorageService,
   IVideoQueueService,
+  IPlaybackTokenService,
+  IEmbeddingService,
+  ISearchQueryRepository,
+  HybridSearchOptions,
+  IPostChunkRepository,
+  ILlmService,
+  IViewRepository,
+  IAnalyticsRepository,
+  IUnitOfWork,
+  INotificationRepository,
+  INotificationPreferenceRepository,
+  IUnsubscribeTokenService,
+  IWebhookRepository,
+  IWebhookQueue,
+  IRealtimeGateway,
+  IEventBus,
 } from '@blog/backend/core';
 
 export interface AuthRoutesDependencies {
@@ -48,8 +70,14 @@ export interface PostRoutesDependencies {
   tagRepository: ITagRepository;
   likeRepository: ILikeRepository;
   bookmarkRepository?: IBookmarkRepository;
+  /** Adds the chapters of the post's video */
+  chapterRepository?: IVideoChapterRepository;
   authMiddleware: RequestHandler;
   optionalAuthMiddleware: RequestHandler;
+  /** Domain events (post.created, post.published, post.updated, post.liked) */
+  eventBus?: IEventBus;
+  /** Writes events to the outbox in the same transaction */
+  unitOfWork?: IUnitOfWork;
 }
 
 export interface CommentRoutesDependencies {
@@ -65,6 +93,10 @@ export interface CommentRoutesDependencies {
     port: number;
     password?: string;
   };
+  /** Domain events (comment.created, comment.liked) */
+  eventBus?: IEventBus;
+  /** Writes events to the outbox in the same transaction */
+  unitOfWork?: IUnitOfWork;
 }
 
 export interface UserRoutesDependencies {
@@ -73,6 +105,8 @@ export interface UserRoutesDependencies {
   followRepository: IFollowRepository;
   authMiddleware: RequestHandler;
   optionalAuthMiddleware: RequestHandler;
+  // Optional - for creator analytics
+  analyticsRepository?: IAnalyticsRepository;
 }
 
 export interface FollowRoutesDependencies {
@@ -80,15 +114,29 @@ export interface FollowRoutesDependencies {
   userRepository: IUserRepository;
   authMiddleware: RequestHandler;
   optionalAuthMiddleware: RequestHandler;
+  /** Domain events (user.followed) */
+  eventBus?: IEventBus;
+  /** Writes events to the outbox in the same transaction */
+  unitOfWork?: IUnitOfWork;
 }
 
 export interface VideoRoutesDependencies {
   videoRepository: IVideoRepository;
   videoQualityRepository: IVideoQualityRepository;
+  videoUploadRepository: IVideoUploadRepository;
+  captionRepository: IVideoCaptionRepository;
+  chapterRepository: IVideoChapterRepository;
+  thumbnailCandidateRepository: IVideoThumbnailCandidateRepository;
+  encryptionKeyRepository: IVideoEncryptionKeyRepository;
+  loudnessRepository: IVideoLoudnessRepository;
   userRepository: IUserRepository;
+  postRepository: IPostRepository;
   storageService: IStorageService;
   videoQueueService: IVideoQueueService;
+  /** Signs the short-lived tokens of the playback proxy */
+  playbackTokenService: IPlaybackTokenService;
   authMiddleware: RequestHandler;
+  optionalAuthMiddleware: RequestHandler;
   /**
    * Function to queue video for encoding
    * Provided by infrastructure layer (BullMQ)
@@ -115,3 +163,61 @@ export interface BookmarkRoutesDependencies {
   userRepository: IUserRepository;
   authMiddleware: RequestHandler;
 }
+
+export interface SearchRoutesDependencies {
+  postRepository: IPostRepository;
+  userRepository: IUserRepository;
+  bookmarkRepository?: IBookmarkRepository;
+  /** Enables ?mode=semantic and ?mode=hybrid */
+  embeddingService?: IEmbeddingService;
+  /** Logs searches for analytics */
+  searchQueryRepository?: ISearchQueryRepository;
+  hybridOptions?: HybridSearchOptions;
+  optionalAuthMiddleware: RequestHandler;
+}
+
+export interface AskRoutesDependencies {
+  postRepository: IPostRepository;
+  postChunkRepository: IPostChunkRepository;
+  /** Question answering is disabled (503) without both services */
+  embeddingService?: IEmbeddingService;
+  llmService?: ILlmService;
+  searchQueryRepository?: ISearchQueryRepository;
+  /** Passages retrieved per question */
+  topK?: number;
+  /** Questions per minute per user/IP */
+  rateLimitMax?: number;
+  optionalAuthMiddleware: RequestHandler;
+}
+
+export interface ViewRoutesDependencies {
+  viewRepository: IViewRepository;
+  postRepository: IPostRepository;
+  videoRepository: IVideoRepository;
+  optionalAuthMiddleware: RequestHandler;
+}
+
+export interface NotificationRoutesDependencies {
+  notificationRepository: INotificationRepository;
+  authMiddleware: RequestHandler;
+  // Preferences and unsubscribe links (optional)
+  notificationPreferenceRepository?: INotificationPreferenceRepository;
+  unsubscribeTokenService?: IUnsubscribeTokenService;
+}
+
+export interface WebhookRoutesDependencies {
+  webhookRepository: IWebhookRepository;
+  webhookQueue: IWebhookQueue;
+  authMiddleware: RequestHandler;
+}
+
+export interface RealtimeRoutesDependencies {
+  realtimeGateway: IRealtimeGateway;
+  /** Ownership of the followed videos (through their posts) */
+  videoRepository: IVideoRepository;
+  postRepository: IPostRepository;
+  /** Must accept ?access_token= (EventSource cannot set headers) */
+  authMiddleware: RequestHandler;
+  /** Interval of keep-alive comments (default: 25s) */
+  heartbeatMs?: number;
+}
@@ -10,6 +10,7 @@ import {
   GetUserProfileUseCase,
   UpdateUserProfileUseCase,
   ListPostsUseCase,
+  GetAuthorAnalyticsUseCase,
 } from '@blog/backend/core';
 import { asyncHandler, createError } from '../middleware/error.middleware.js';
 import type { UserRoutesDependencies } from './types.js';
@@ -109,6 +110,71 @@ export function createUsersRoutes(deps: UserRoutesDependencies): Router {
     })
   );
 
+  if (deps.analyticsRepository) {
+    const getAuthorAnalyticsUseCase = new GetAuthorAnalyticsUseCase({
+      analyticsRepository: deps.analyticsRepository,
+    });
+
+    /**
+     * @openapi
+     * /api/users/me/analytics:
+     *   get:
+     *     summary: Get own creator analytics
+     *     description: >
+     *       Daily views, unique viewers, likes and new followers, a per-post
+     *       breakdown, video completion-rate histogram and top referrers
+     *       for the authenticated author. Bot traffic is excluded.
+     *     tags: [Users]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: query
+     *         name: days
+     *         schema:
+     *           type: integer
+     *           minimum: 1
+     *           maximum: 365
+     *           default: 30
+     *         description: Number of days to cover, ending today (UTC)
+     *     responses:
+     *       200:
+     *         description: Analytics for the range
+     *       400:
+     *         description: Invalid range
+     *       401:
+     *         description: Authentication required
+     */
+    router.get(
+      '/me/analytics',
+      deps.authMiddleware,
+      asyncHandler(async (req: Request, res: Response) => {
+        if (!req.user) {
+          throw createError('Authentication required', 401, 'UNAUTHORIZED');
+        }
+
+        const result = await getAuthorAnalyticsUseCase.execute({
+          userId: req.user.userId,
+          days: req.query.days ? Number(req.query.days) : undefined,
+        });
+
+        if (!result.success) {
+          const statusCode =
+            result.error.code === 'VALIDATION_ERROR' ? 400 : 500;
+          throw createError(
+            result.error.message,
+            statusCode,
+            result.error.code
+          );
+        }
+
+        res.json({
+          success: true,
+          data: result.data,
+        });
+      })
+    );
+  }
+
   /**
    * @openapi
    * /api/users/{username}:
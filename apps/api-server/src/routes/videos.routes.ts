@@ -8,12 +8,26 @@ import { Router } from 'express';
 import type { Request, Response } from 'express';
 import {
   GenerateUploadUrlUseCase,
+  InitiateMultipartUploadUseCase,
+  GetMultipartUploadUseCase,
+  GetUploadPartUrlsUseCase,
+  CompleteMultipartUploadUseCase,
+  AbortMultipartUploadUseCase,
   ConfirmUploadUseCase,
   GetVideoStatusUseCase,
   DeleteVideoUseCase,
   RestoreVideoUseCase,
   CleanupOrphanVideosUseCase,
   CleanupTrashVideosUseCase,
+  GetVideoCaptionsUseCase,
+  UploadCaptionUseCase,
+  DeleteCaptionUseCase,
+  SetVideoChaptersUseCase,
+  GetVideoThumbnailCandidatesUseCase,
+  SelectVideoThumbnailUseCase,
+  AuthorizeVideoPlaybackUseCase,
+  GetVideoPlaybackFileUseCase,
+  GetVideoEncryptionKeyUseCase,
 } from '@blog/backend/core';
 import { asyncHandler, createError } from '../middleware/error.middleware.js';
 import type { VideoRoutesDependencies } from './types.js';
@@ -27,6 +41,35 @@ export function createVideosRoutes(deps: VideoRoutesDependencies): Router {
     storageService: deps.storageService,
   });
 
+  const initiateMultipartUploadUseCase = new InitiateMultipartUploadUseCase({
+    videoRepository: deps.videoRepository,
+    userRepository: deps.userRepository,
+    videoUploadRepository: deps.videoUploadRepository,
+    storageService: deps.storageService,
+  });
+
+  const getMultipartUploadUseCase = new GetMultipartUploadUseCase({
+    videoUploadRepository: deps.videoUploadRepository,
+    storageService: deps.storageService,
+  });
+
+  const getUploadPartUrlsUseCase = new GetUploadPartUrlsUseCase({
+    videoUploadRepository: deps.videoUploadRepository,
+    storageService: deps.storageService,
+  });
+
+  const completeMultipartUploadUseCase = new CompleteMultipartUploadUseCase({
+    videoRepository: deps.videoRepository,
+    videoUploadRepository: deps.videoUploadRepository,
+    storageService: deps.storageService,
+  });
+
+  const abortMultipartUploadUseCase = new AbortMultipartUploadUseCase({
+    videoRepository: deps.videoRepository,
+    videoUploadRepository: deps.videoUploadRepository,
+    storageService: deps.storageService,
+  });
+
   const confirmUploadUseCase = new ConfirmUploadUseCase({
     videoRepository: deps.videoRepository,
     storageService: deps.storageService,
@@ -36,6 +79,8 @@ export function createVideosRoutes(deps: VideoRoutesDependencies): Router {
   const getVideoStatusUseCase = new GetVideoStatusUseCase({
     videoRepository: deps.videoRepository,
     videoQueueService: deps.videoQueueService,
+    chapterRepository: deps.chapterRepository,
+    loudnessRepository: deps.loudnessRepository,
   });
 
   const deleteVideoUseCase = new DeleteVideoUseCase({
@@ -53,6 +98,7 @@ export function createVideosRoutes(deps: VideoRoutesDependencies): Router {
     videoRepository: deps.videoRepository,
     storageService: deps.storageService,
     videoQueueService: deps.videoQueueService,
+    videoUploadRepository: deps.videoUploadRepository,
   });
 
   const cleanupTrashVideosUseCase = new CleanupTrashVideosUseCase({
@@ -60,6 +106,66 @@ export function createVideosRoutes(deps: VideoRoutesDependencies): Router {
     storageService: deps.storageService,
   });
 
+  const getVideoCaptionsUseCase = new GetVideoCaptionsUseCase({
+    videoRepository: deps.videoRepository,
+    postRepository: deps.postRepository,
+    captionRepository: deps.captionRepository,
+    storageService: deps.storageService,
+  });
+
+  const uploadCaptionUseCase = new UploadCaptionUseCase({
+    videoRepository: deps.videoRepository,
+    postRepository: deps.postRepository,
+    captionRepository: deps.captionRepository,
+    storageService: deps.storageService,
+  });
+
+  const deleteCaptionUseCase = new DeleteCaptionUseCase({
+    videoRepository: deps.videoRepository,
+    postRepository: deps.postRepository,
+    captionRepository: deps.captionRepository,
+    storageService: deps.storageService,
+  });
+
+  const setVideoChaptersUseCase = new SetVideoChaptersUseCase({
+    videoRepository: deps.videoRepository,
+    postRepository: deps.postRepository,
+    chapterRepository: deps.chapterRepository,
+  });
+
+  const getVideoThumbnailCandidatesUseCase =
+    new GetVideoThumbnailCandidatesUseCase({
+      videoRepository: deps.videoRepository,
+      postRepository: deps.postRepository,
+      thumbnailCandidateRepository: deps.thumbnailCandidateRepository,
+      storageService: deps.storageService,
+    });
+
+  const selectVideoThumbnailUseCase = new SelectVideoThumbnailUseCase({
+    videoRepository: deps.videoRepository,
+    postRepository: deps.postRepository,
+    thumbnailCandidateRepository: deps.thumbnailCandidateRepository,
+    storageService: deps.storageService,
+  });
+
+  const authorizeVideoPlaybackUseCase = new AuthorizeVideoPlaybackUseCase({
+    videoRepository: deps.videoRepository,
+    postRepository: deps.postRepository,
+    playbackTokenService: deps.playbackTokenService,
+  });
+
+  const getVideoPlaybackFileUseCase = new GetVideoPlaybackFileUseCase({
+    storageService: deps.storageService,
+    playbackTokenService: deps.playbackTokenService,
+  });
+
+  const getVideoEncryptionKeyUseCase = new GetVideoEncryptionKeyUseCase({
+    videoRepository: deps.videoRepository,
+    postRepository: deps.postRepository,
+    encryptionKeyRepository: deps.encryptionKeyRepository,
+    playbackTokenService: deps.playbackTokenService,
+  });
+
   /**
    * @openapi
    * /api/videos/upload-url:
@@ -163,6 +269,107 @@ export function createVideosRoutes(deps: VideoRoutesDependencies): Router {
     })
   );
 
+  /**
+   * @openapi
+   * /api/videos/multipart:
+   *   post:
+   *     summary: Start a resumable multipart upload
+   *     description: |
+   *       Creates a pending video and starts a multipart upload of its raw
+   *       file. Upload the parts with URLs from the part-urls endpoint, then
+   *       complete the upload and confirm it like a single presigned upload.
+   *     tags: [Videos]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - filename
+   *               - fileSize
+   *               - mimeType
+   *             properties:
+   *               filename:
+   *                 type: string
+   *                 example: my-video.mp4
+   *               fileSize:
+   *                 type: integer
+   *                 description: File size in bytes (max 2GB)
+   *               mimeType:
+   *                 type: string
+   *                 enum: [video/mp4, video/quicktime, video/x-msvideo, video/x-matroska]
+   *     responses:
+   *       201:
+   *         description: Upload started
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     videoId:
+   *                       type: string
+   *                       format: uuid
+   *                     partSize:
+   *                       type: integer
+   *                       description: Size of every part but the last, in bytes
+   *                     partCount:
+   *                       type: integer
+   *       400:
+   *         description: Validation error
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Email not verified
+   */
+  router.post(
+    '/multipart',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const result = await initiateMultipartUploadUseCase.execute({
+        userId: req.user.userId,
+        filename: req.body.filename,
+        fileSize: req.body.fileSize,
+        mimeType: req.body.mimeType,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'VALIDATION_ERROR'
+            ? 400
+            : result.error.code === 'USER_NOT_FOUND'
+            ? 404
+            : result.error.code === 'EMAIL_NOT_VERIFIED'
+            ? 403
+            : result.error.code === 'USER_INACTIVE'
+            ? 403
+            : 400;
+        throw createError(
+          result.error.message,
+          statusCode,
+          result.error.code,
+          result.error.details
+        );
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
   /**
    * @openapi
    * /api/videos/deleted:
@@ -217,7 +424,8 @@ export function createVideosRoutes(deps: VideoRoutesDependencies): Router {
    *   post:
    *     summary: Cleanup orphan videos (Admin only)
    *     description: |
-   *       Cleans up videos uploaded but never attached to a post.
+   *       Cleans up videos uploaded but never attached to a post, after
+   *       aborting multipart uploads that were never completed.
    *       This is typically run as a scheduled job.
    *     tags: [Videos, Admin]
    *     security:
@@ -240,6 +448,10 @@ export function createVideosRoutes(deps: VideoRoutesDependencies): Router {
    *                 type: boolean
    *                 default: false
    *                 description: If true, only report without deleting
+   *               staleUploadHours:
+   *                 type: integer
+   *                 default: 24
+   *                 description: Hours after which unfinished multipart uploads are aborted
    *     responses:
    *       200:
    *         description: Cleanup results
@@ -263,6 +475,7 @@ export function createVideosRoutes(deps: VideoRoutesDependencies): Router {
         orphanAgeHours: req.body.orphanAgeHours,
         batchSize: req.body.batchSize,
         dryRun: req.body.dryRun,
+        staleUploadHours: req.body.staleUploadHours,
       });
 
       if (!result.success) {
@@ -342,10 +555,66 @@ export function createVideosRoutes(deps: VideoRoutesDependencies): Router {
 
   /**
    * @openapi
-   * /api/videos/{videoId}/confirm:
+   * /api/videos/{videoId}/multipart:
+   *   get:
+   *     summary: Get a multipart upload in progress
+   *     description: Returns the upload's parts already in storage, to resume it
+   *     tags: [Videos]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: videoId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Upload with its uploaded parts (partNumber, etag, size)
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Not the uploader
+   *       404:
+   *         description: No upload in progress for this video
+   */
+  router.get(
+    '/:videoId/multipart',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const result = await getMultipartUploadUseCase.execute({
+        videoId: req.params.videoId,
+        userId: req.user.userId,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'NOT_FOUND'
+            ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/videos/{videoId}/multipart/part-urls:
    *   post:
-   *     summary: Confirm video upload
-   *     description: Confirms upload is complete and queues video for processing
+   *     summary: Presign part upload URLs
+   *     description: Returns presigned PUT URLs for up to 100 parts of the upload
    *     tags: [Videos]
    *     security:
    *       - bearerAuth: []
@@ -356,52 +625,60 @@ export function createVideosRoutes(deps: VideoRoutesDependencies): Router {
    *         schema:
    *           type: string
    *           format: uuid
-   *         description: Video ID returned from upload-url endpoint
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - partNumbers
+   *             properties:
+   *               partNumbers:
+   *                 type: array
+   *                 items:
+   *                   type: integer
+   *                   minimum: 1
    *     responses:
    *       200:
-   *         description: Video queued for processing
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 success:
-   *                   type: boolean
-   *                 data:
-   *                   type: object
-   *                   properties:
-   *                     videoId:
-   *                       type: string
-   *                       format: uuid
-   *                     status:
-   *                       type: string
-   *                       enum: [processing]
-   *                     message:
-   *                       type: string
+   *         description: Part URLs and their expiration
    *       400:
-   *         description: Upload not complete or already processed
+   *         description: Invalid part numbers
    *       401:
    *         description: Authentication required
+   *       403:
+   *         description: Not the uploader
    *       404:
-   *         description: Video not found
+   *         description: No upload in progress for this video
    */
   router.post(
-    '/:videoId/confirm',
+    '/:videoId/multipart/part-urls',
     deps.authMiddleware,
     asyncHandler(async (req: Request, res: Response) => {
       if (!req.user) {
         throw createError('Authentication required', 401, 'UNAUTHORIZED');
       }
 
-      const result = await confirmUploadUseCase.execute({
+      if (!Array.isArray(req.body.partNumbers)) {
+        throw createError(
+          'partNumbers must be an array',
+          400,
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const result = await getUploadPartUrlsUseCase.execute({
         videoId: req.params.videoId,
         userId: req.user.userId,
+        partNumbers: req.body.partNumbers,
       });
 
       if (!result.success) {
         const statusCode =
           result.error.code === 'NOT_FOUND'
             ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
             : result.error.code === 'VALIDATION_ERROR'
             ? 400
             : 500;
@@ -417,11 +694,16 @@ export function createVideosRoutes(deps: VideoRoutesDependencies): Router {
 
   /**
    * @openapi
-   * /api/videos/{videoId}/status:
-   *   get:
-   *     summary: Get video processing status
-   *     description: Returns current video status for polling during processing
+   * /api/videos/{videoId}/multipart/complete:
+   *   post:
+   *     summary: Complete a multipart upload
+   *     description: |
+   *       Assembles the uploaded parts into the raw video file. Fails if a
+   *       part is missing or the parts do not add up to the file size. Call
+   *       the confirm endpoint afterwards to queue the video for processing.
    *     tags: [Videos]
+   *     security:
+   *       - bearerAuth: []
    *     parameters:
    *       - in: path
    *         name: videoId
@@ -431,29 +713,947 @@ export function createVideosRoutes(deps: VideoRoutesDependencies): Router {
    *           format: uuid
    *     responses:
    *       200:
-   *         description: Video status
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 success:
-   *                   type: boolean
-   *                 data:
-   *                   type: object
-   *                   properties:
-   *                     status:
-   *                       type: object
-   *                       properties:
-   *                         id:
-   *                           type: string
-   *                           format: uuid
-   *                         status:
-   *                           type: string
-   *                           enum: [uploading, processing, ready, failed, cancelled]
-   *                         progress:
-   *                           type: integer
-   *                           minimum: 0
+   *         description: Upload completed
+   *       400:
+   *         description: Upload incomplete (details.missingParts lists the missing parts)
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Not the uploader
+   *       404:
+   *         description: No upload in progress for this video
+   */
+  router.post(
+    '/:videoId/multipart/complete',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const result = await completeMultipartUploadUseCase.execute({
+        videoId: req.params.videoId,
+        userId: req.user.userId,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'NOT_FOUND'
+            ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
+            : result.error.code === 'VALIDATION_ERROR'
+            ? 400
+            : 500;
+        throw createError(
+          result.error.message,
+          statusCode,
+          result.error.code,
+          result.error.details
+        );
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/videos/{videoId}/multipart:
+   *   delete:
+   *     summary: Abort a multipart upload
+   *     description: Discards the uploaded parts and deletes the pending video
+   *     tags: [Videos]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: videoId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Upload aborted
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Not the uploader
+   *       404:
+   *         description: No upload in progress for this video
+   */
+  router.delete(
+    '/:videoId/multipart',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const result = await abortMultipartUploadUseCase.execute({
+        videoId: req.params.videoId,
+        userId: req.user.userId,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'NOT_FOUND'
+            ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/videos/{videoId}/captions:
+   *   get:
+   *     summary: List caption tracks
+   *     description: >
+   *       Caption tracks of a video, default first, with presigned URLs of
+   *       their WebVTT files. Only viewers who may watch the video can list
+   *       them.
+   *     tags: [Videos]
+   *     security:
+   *       - bearerAuth: []
+   *       - {}
+   *     parameters:
+   *       - in: path
+   *         name: videoId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Caption tracks
+   *       403:
+   *         description: The video's post is private or not published
+   *       404:
+   *         description: Video not found
+   */
+  router.get(
+    '/:videoId/captions',
+    deps.optionalAuthMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      const result = await getVideoCaptionsUseCase.execute({
+        videoId: req.params.videoId,
+        userId: req.user?.userId,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'NOT_FOUND'
+            ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/videos/{videoId}/captions/{language}:
+   *   put:
+   *     summary: Upload a caption track
+   *     description: |
+   *       Adds or replaces the caption track of a language. SRT is converted
+   *       to WebVTT. The track is listed in the video's HLS master playlist
+   *       as a subtitle rendition. Only the author of the video's post can
+   *       upload captions.
+   *     tags: [Videos]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: videoId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: path
+   *         name: language
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: BCP 47 language tag
+   *         example: en
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - format
+   *               - content
+   *             properties:
+   *               label:
+   *                 type: string
+   *                 description: Name shown in the player (defaults to the language)
+   *                 example: English
+   *               isDefault:
+   *                 type: boolean
+   *               format:
+   *                 type: string
+   *                 enum: [vtt, srt]
+   *               content:
+   *                 type: string
+   *                 description: Caption file contents (max 2MB)
+   *     responses:
+   *       200:
+   *         description: Caption track saved
+   *       400:
+   *         description: Validation error or invalid caption file
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Not the author of the video's post
+   *       404:
+   *         description: Video not found
+   */
+  router.put(
+    '/:videoId/captions/:language',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const { label, isDefault, format, content } = req.body;
+      if (
+        (format !== 'vtt' && format !== 'srt') ||
+        typeof content !== 'string'
+      ) {
+        throw createError(
+          'format (vtt or srt) and content are required',
+          400,
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const result = await uploadCaptionUseCase.execute({
+        videoId: req.params.videoId,
+        userId: req.user.userId,
+        language: req.params.language,
+        label: typeof label === 'string' ? label : undefined,
+        isDefault: typeof isDefault === 'boolean' ? isDefault : undefined,
+        format,
+        content,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'NOT_FOUND'
+            ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
+            : result.error.code === 'VALIDATION_ERROR'
+            ? 400
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/videos/{videoId}/captions/{language}:
+   *   delete:
+   *     summary: Delete a caption track
+   *     tags: [Videos]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: videoId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: path
+   *         name: language
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Caption track deleted
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Not the author of the video's post
+   *       404:
+   *         description: Video or caption track not found
+   */
+  router.delete(
+    '/:videoId/captions/:language',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const result = await deleteCaptionUseCase.execute({
+        videoId: req.params.videoId,
+        userId: req.user.userId,
+        language: req.params.language,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'NOT_FOUND'
+            ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/videos/{videoId}/chapters:
+   *   put:
+   *     summary: Set the chapters of a video
+   *     description: >
+   *       Replaces all chapters, with the given list or with the "0:00 Title"
+   *       lines of the post content. An empty list removes the chapters.
+   *     tags: [Videos]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: videoId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               chapters:
+   *                 type: array
+   *                 maxItems: 100
+   *                 items:
+   *                   type: object
+   *                   required:
+   *                     - startTime
+   *                     - title
+   *                   properties:
+   *                     startTime:
+   *                       type: integer
+   *                       description: Seconds from the start
+   *                       example: 90
+   *                     title:
+   *                       type: string
+   *                       maxLength: 100
+   *                       example: Setup
+   *               fromPostContent:
+   *                 type: boolean
+   *                 description: Parse the chapters from the post content instead
+   *     responses:
+   *       200:
+   *         description: Chapters saved
+   *       400:
+   *         description: Invalid chapters, or none found in the post content
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Not the author of the video's post
+   *       404:
+   *         description: Video not found
+   */
+  router.put(
+    '/:videoId/chapters',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const { chapters, fromPostContent } = req.body;
+      if (fromPostContent !== true && !Array.isArray(chapters)) {
+        throw createError(
+          'chapters or fromPostContent is required',
+          400,
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const result = await setVideoChaptersUseCase.execute({
+        videoId: req.params.videoId,
+        userId: req.user.userId,
+        chapters,
+        fromPostContent: fromPostContent === true,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'NOT_FOUND'
+            ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
+            : result.error.code === 'VALIDATION_ERROR'
+            ? 400
+            : 500;
+        throw createError(
+          result.error.message,
+          statusCode,
+          result.error.code,
+          result.error.details
+        );
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/videos/{videoId}/thumbnail-candidates:
+   *   get:
+   *     summary: List poster candidates
+   *     description: >
+   *       Frames taken across the video while it was processed, in video
+   *       order and scored (sharp, well exposed frames score higher), with
+   *       the current poster. Only the author of the video's post can list
+   *       them.
+   *     tags: [Videos]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: videoId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Poster candidates
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Not the author of the video's post
+   *       404:
+   *         description: Video not found
+   */
+  router.get(
+    '/:videoId/thumbnail-candidates',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const result = await getVideoThumbnailCandidatesUseCase.execute({
+        videoId: req.params.videoId,
+        userId: req.user.userId,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'NOT_FOUND'
+            ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/videos/{videoId}/thumbnail:
+   *   put:
+   *     summary: Set the poster of a video
+   *     description: >
+   *       Sets the poster to one of the video's candidate frames or to an
+   *       uploaded JPEG, PNG or WebP image (max 2MB). The post's featured
+   *       image follows the poster unless the author set another one.
+   *     tags: [Videos]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: videoId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               candidateId:
+   *                 type: string
+   *                 format: uuid
+   *               image:
+   *                 type: object
+   *                 required:
+   *                   - contentType
+   *                   - data
+   *                 properties:
+   *                   contentType:
+   *                     type: string
+   *                     enum: [image/jpeg, image/png, image/webp]
+   *                   data:
+   *                     type: string
+   *                     format: byte
+   *                     description: Base64 encoded image
+   *     responses:
+   *       200:
+   *         description: Poster set
+   *       400:
+   *         description: Neither or both of candidateId and image, or an invalid image
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Not the author of the video's post
+   *       404:
+   *         description: Video or candidate not found
+   */
+  router.put(
+    '/:videoId/thumbnail',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const { candidateId, image } = req.body;
+      if (
+        image !== undefined &&
+        (typeof image?.contentType !== 'string' ||
+          typeof image?.data !== 'string')
+      ) {
+        throw createError(
+          'image needs contentType and base64 data',
+          400,
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const result = await selectVideoThumbnailUseCase.execute({
+        videoId: req.params.videoId,
+        userId: req.user.userId,
+        candidateId: typeof candidateId === 'string' ? candidateId : undefined,
+        image: image
+          ? {
+              contentType: image.contentType,
+              data: Buffer.from(image.data, 'base64'),
+            }
+          : undefined,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'NOT_FOUND'
+            ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
+            : result.error.code === 'VALIDATION_ERROR'
+            ? 400
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/videos/{videoId}/playback:
+   *   post:
+   *     summary: Authorize playback
+   *     description: >
+   *       Issues a short-lived token for loading the video's files through
+   *       the playback proxy, to viewers who may see the video's post
+   *       (published public and unlisted posts, or their author). Ask for a
+   *       new token before it expires to keep playing.
+   *     tags: [Videos]
+   *     security:
+   *       - bearerAuth: []
+   *       - {}
+   *     parameters:
+   *       - in: path
+   *         name: videoId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Playback token
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     token:
+   *                       type: string
+   *                     expiresAt:
+   *                       type: string
+   *                       format: date-time
+   *       403:
+   *         description: The video's post is private or not published
+   *       404:
+   *         description: Video not found, not encoded or not attached to a post
+   */
+  router.post(
+    '/:videoId/playback',
+    deps.optionalAuthMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      const result = await authorizeVideoPlaybackUseCase.execute({
+        videoId: req.params.videoId,
+        userId: req.user?.userId,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'NOT_FOUND'
+            ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/videos/{videoId}/playback/{path}:
+   *   get:
+   *     summary: Playback proxy
+   *     description: >
+   *       Serves a file of the video (start with master.m3u8, or
+   *       manifest.mpd for DASH) to the holder of a playback token.
+   *       Playlists and manifests come back with the token on every URI in
+   *       them; segments, captions and sprite sheets redirect to presigned
+   *       storage URLs.
+   *     tags: [Videos]
+   *     parameters:
+   *       - in: path
+   *         name: videoId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: path
+   *         name: path
+   *         required: true
+   *         schema:
+   *           type: string
+   *         example: master.m3u8
+   *       - in: query
+   *         name: token
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Playlist, DASH manifest or thumbnails track
+   *       302:
+   *         description: Redirect to the file in storage
+   *       401:
+   *         description: Missing, invalid or expired token
+   *       404:
+   *         description: File not found
+   */
+  router.get(
+    '/:videoId/playback/*path',
+    asyncHandler(async (req: Request, res: Response) => {
+      const token = req.query.token;
+      if (typeof token !== 'string' || !token) {
+        throw createError('Playback token required', 401, 'INVALID_TOKEN');
+      }
+
+      const path = req.params.path as unknown as string[];
+      const result = await getVideoPlaybackFileUseCase.execute({
+        videoId: req.params.videoId,
+        path: path.join('/'),
+        token,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'INVALID_TOKEN'
+            ? 401
+            : result.error.code === 'NOT_FOUND'
+            ? 404
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      // Responses carry the token (or a presigned URL): never cache them
+      res.set('Cache-Control', 'no-store');
+      if (result.data.type === 'redirect') {
+        res.redirect(302, result.data.url);
+        return;
+      }
+      res.type(result.data.contentType).send(result.data.body);
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/videos/{videoId}/key:
+   *   get:
+   *     summary: Get encryption key
+   *     description: >
+   *       Returns the AES-128 key the video's HLS segments are encrypted
+   *       with. Players get here from the key URI of a media playlist, which
+   *       carries their playback token; without a token the viewer must be
+   *       allowed to see the video's post. Keys of earlier encodes stay
+   *       available by version.
+   *     tags: [Videos]
+   *     security:
+   *       - bearerAuth: []
+   *       - {}
+   *     parameters:
+   *       - in: path
+   *         name: videoId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: query
+   *         name: version
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *         description: Key version (default the latest)
+   *       - in: query
+   *         name: token
+   *         schema:
+   *           type: string
+   *         description: Playback token
+   *     responses:
+   *       200:
+   *         description: The 16-byte key
+   *         content:
+   *           application/octet-stream:
+   *             schema:
+   *               type: string
+   *               format: binary
+   *       400:
+   *         description: Invalid version
+   *       401:
+   *         description: Invalid or expired token
+   *       403:
+   *         description: The video's post is private or not published
+   *       404:
+   *         description: Video or key not found
+   */
+  router.get(
+    '/:videoId/key',
+    deps.optionalAuthMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      const { version, token } = req.query;
+      if (version !== undefined && !/^[1-9]\d{0,8}$/.test(String(version))) {
+        throw createError('Invalid key version', 400, 'VALIDATION_ERROR');
+      }
+
+      const result = await getVideoEncryptionKeyUseCase.execute({
+        videoId: req.params.videoId,
+        version: version === undefined ? undefined : Number(version),
+        token: typeof token === 'string' && token ? token : undefined,
+        userId: req.user?.userId,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'INVALID_TOKEN'
+            ? 401
+            : result.error.code === 'NOT_FOUND'
+            ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.set('Cache-Control', 'private, no-store');
+      res.type('application/octet-stream').send(result.data.key);
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/videos/{videoId}/confirm:
+   *   post:
+   *     summary: Confirm video upload
+   *     description: Confirms upload is complete and queues video for processing
+   *     tags: [Videos]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: videoId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: Video ID returned from upload-url endpoint
+   *     responses:
+   *       200:
+   *         description: Video queued for processing
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     videoId:
+   *                       type: string
+   *                       format: uuid
+   *                     status:
+   *                       type: string
+   *                       enum: [processing]
+   *                     message:
+   *                       type: string
+   *       400:
+   *         description: Upload not complete or already processed
+   *       401:
+   *         description: Authentication required
+   *       404:
+   *         description: Video not found
+   */
+  router.post(
+    '/:videoId/confirm',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const result = await confirmUploadUseCase.execute({
+        videoId: req.params.videoId,
+        userId: req.user.userId,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'NOT_FOUND'
+            ? 404
+            : result.error.code === 'VALIDATION_ERROR'
+            ? 400
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/videos/{videoId}/status:
+   *   get:
+   *     summary: Get video processing status
+   *     description: Returns current video status for polling during processing
+   *     tags: [Videos]
+   *     parameters:
+   *       - in: path
+   *         name: videoId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Video status
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     status:
+   *                       type: object
+   *                       properties:
+   *                         id:
+   *                           type: string
+   *                           format: uuid
+   *                         status:
+   *                           type: string
+   *                           enum: [uploading, processing, ready, failed, cancelled]
+   *                         progress:
+   *                           type: integer
+   *                           minimum: 0
    *                           maximum: 100
    *                         duration:
    *                           type: integer
@@ -464,6 +1664,14 @@ export function createVideosRoutes(deps: VideoRoutesDependencies): Router {
    *                         hlsMasterUrl:
    *                           type: string
    *                           nullable: true
+   *                         thumbnailsVttUrl:
+   *                           type: string
+   *                           nullable: true
+   *                           description: WebVTT thumbnails track for seek bar previews
+   *                         dashManifestUrl:
+   *                           type: string
+   *                           nullable: true
+   *                           description: DASH manifest, with CMAF packaging
    *                         availableQualities:
    *                           type: array
    *                           items:
@@ -472,6 +1680,31 @@ export function createVideosRoutes(deps: VideoRoutesDependencies): Router {
    *                         errorMessage:
    *                           type: string
    *                           nullable: true
+   *                         chapters:
+   *                           type: array
+   *                           items:
+   *                             type: object
+   *                             properties:
+   *                               startTime:
+   *                                 type: integer
+   *                                 description: Seconds from the start
+   *                               title:
+   *                                 type: string
+   *                         loudness:
+   *                           type: object
+   *                           nullable: true
+   *                           description: >
+   *                             EBU R128 loudness of the source audio, and the
+   *                             integrated loudness it was normalized to
+   *                           properties:
+   *                             integratedLufs:
+   *                               type: number
+   *                             truePeakDbtp:
+   *                               type: number
+   *                             loudnessRangeLu:
+   *                               type: number
+   *                             targetLufs:
+   *                               type: number
    *       404:
    *         description: Video not found
    */
@@ -499,7 +1732,9 @@ export function createVideosRoutes(deps: VideoRoutesDependencies): Router {
    * /api/videos/{videoId}/encoding/status:
    *   get:
    *     summary: Get detailed encoding status
-   *     description: Returns encoding progress with per-quality status
+   *     description: >
+   *       Returns encoding progress with per-quality status and the
+   *       resolution and bitrates (kbps) each quality is encoded at
    *     tags: [Videos]
    *     security:
    *       - bearerAuth: []
@@ -550,6 +1785,10 @@ export function createVideosRoutes(deps: VideoRoutesDependencies): Router {
           qualities: qualities.map((q) => ({
             name: q.qualityName,
             status: q.status,
+            width: q.width,
+            height: q.height,
+            videoBitrate: q.videoBitrate,
+            audioBitrate: q.audioBitrate,
             retryCount: q.retryCount,
             errorMessage: q.errorMessage,
             completedAt: q.completedAt,
@@ -0,0 +1,171 @@
+/**
+ * View Routes
+ *
+ * Records post views and video watch heartbeats. Viewers are identified by
+ * an anonymous session cookie, so views are counted once per session and day.
+ */
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import {
+  RecordPostViewUseCase,
+  RecordVideoViewUseCase,
+} from '@blog/backend/core';
+import { asyncHandler, createError } from '../middleware/error.middleware.js';
+import { createViewerSessionMiddleware } from '../middleware/viewer-session.middleware.js';
+import type { ViewRoutesDependencies } from './types.js';
+
+export function createViewRoutes(deps: ViewRoutesDependencies): Router {
+  const router = Router();
+
+  const recordPostViewUseCase = new RecordPostViewUseCase({
+    postRepository: deps.postRepository,
+    viewRepository: deps.viewRepository,
+  });
+
+  const recordVideoViewUseCase = new RecordVideoViewUseCase({
+    videoRepository: deps.videoRepository,
+    postRepository: deps.postRepository,
+    viewRepository: deps.viewRepository,
+  });
+
+  const viewerSession = createViewerSessionMiddleware();
+
+  /**
+   * @openapi
+   * /api/views/posts/{postId}:
+   *   post:
+   *     summary: Record a post view
+   *     description: |
+   *       Records a view of a published post. Views are deduplicated per
+   *       viewer session (viewer_sid cookie, set if missing) and day; bot
+   *       user agents are stored but never counted, and authors viewing
+   *       their own post are ignored. The post's viewCount is updated in
+   *       batches, so it may lag by a few seconds.
+   *     tags: [Views]
+   *     parameters:
+   *       - in: path
+   *         name: postId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: View processed (recorded is false for repeat views)
+   *       403:
+   *         description: Post is not viewable
+   *       404:
+   *         description: Post not found
+   */
+  router.post(
+    '/posts/:postId',
+    deps.optionalAuthMiddleware,
+    viewerSession,
+    asyncHandler(async (req: Request, res: Response) => {
+      const result = await recordPostViewUseCase.execute({
+        postId: req.params.postId,
+        sessionId: req.viewerSessionId as string,
+        userId: req.user?.userId,
+        userAgent: req.get('user-agent'),
+        referrer: req.get('referer'),
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'POST_NOT_FOUND'
+            ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/views/videos/{videoId}:
+   *   post:
+   *     summary: Video watch heartbeat
+   *     description: |
+   *       Sent by the player while a video plays (and on pause/end). The
+   *       first heartbeat of a viewer session and day creates the view;
+   *       later ones raise the watched duration (never lowered) and record
+   *       the quality being played.
+   *     tags: [Views]
+   *     parameters:
+   *       - in: path
+   *         name: videoId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - watchedSeconds
+   *             properties:
+   *               watchedSeconds:
+   *                 type: number
+   *                 minimum: 0
+   *                 description: Seconds actually played in this session
+   *               quality:
+   *                 type: string
+   *                 example: 720p
+   *     responses:
+   *       200:
+   *         description: Heartbeat recorded
+   *       400:
+   *         description: Invalid watchedSeconds or quality
+   *       403:
+   *         description: Video is not viewable
+   *       404:
+   *         description: Video not found
+   */
+  router.post(
+    '/videos/:videoId',
+    deps.optionalAuthMiddleware,
+    viewerSession,
+    asyncHandler(async (req: Request, res: Response) => {
+      const result = await recordVideoViewUseCase.execute({
+        videoId: req.params.videoId,
+        sessionId: req.viewerSessionId as string,
+        watchedSeconds: Number(req.body?.watchedSeconds),
+        quality:
+          typeof req.body?.quality === 'string' ? req.body.quality : undefined,
+        userId: req.user?.userId,
+        userAgent: req.get('user-agent'),
+        referrer: req.get('referer'),
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'VALIDATION_ERROR'
+            ? 400
+            : result.error.code === 'VIDEO_NOT_FOUND'
+            ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,508 @@
+/**
+ * Webhook Routes
+ *
+ * Lets users register URLs that receive signed POST requests when their
+ * posts are published or commented on and when their videos are ready or
+ * fail. Each endpoint has a delivery log; deliveries can be replayed and a
+ * test event can be sent.
+ */
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  GetWebhookEndpointsUseCase,
+  CreateWebhookEndpointUseCase,
+  UpdateWebhookEndpointUseCase,
+  DeleteWebhookEndpointUseCase,
+  GetWebhookDeliveriesUseCase,
+  SendTestWebhookUseCase,
+  ReplayWebhookDeliveryUseCase,
+  WEBHOOK_EVENT_TYPES,
+  type WebhookEventType,
+} from '@blog/backend/core';
+import { asyncHandler, createError } from '../middleware/error.middleware.js';
+import type { WebhookRoutesDependencies } from './types.js';
+
+// Validation schemas
+const eventsSchema = z
+  .array(
+    z.custom<WebhookEventType>(
+      (event) => WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType),
+      'Unknown webhook event'
+    )
+  )
+  .min(1, 'Select at least one event');
+
+const createWebhookSchema = z.object({
+  url: z.string().url('Invalid URL'),
+  description: z.string().max(200).nullable().optional(),
+  events: eventsSchema,
+});
+
+const updateWebhookSchema = z
+  .object({
+    url: z.string().url('Invalid URL').optional(),
+    description: z.string().max(200).nullable().optional(),
+    events: eventsSchema.optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine(
+    (data) => Object.values(data).some((value) => value !== undefined),
+    'Nothing to update'
+  );
+
+export function createWebhookRoutes(deps: WebhookRoutesDependencies): Router {
+  const router = Router();
+
+  const getWebhookEndpointsUseCase = new GetWebhookEndpointsUseCase({
+    webhookRepository: deps.webhookRepository,
+  });
+
+  const createWebhookEndpointUseCase = new CreateWebhookEndpointUseCase({
+    webhookRepository: deps.webhookRepository,
+  });
+
+  const updateWebhookEndpointUseCase = new UpdateWebhookEndpointUseCase({
+    webhookRepository: deps.webhookRepository,
+  });
+
+  const deleteWebhookEndpointUseCase = new DeleteWebhookEndpointUseCase({
+    webhookRepository: deps.webhookRepository,
+  });
+
+  const getWebhookDeliveriesUseCase = new GetWebhookDeliveriesUseCase({
+    webhookRepository: deps.webhookRepository,
+  });
+
+  const sendTestWebhookUseCase = new SendTestWebhookUseCase({
+    webhookRepository: deps.webhookRepository,
+    webhookQueue: deps.webhookQueue,
+  });
+
+  const replayWebhookDeliveryUseCase = new ReplayWebhookDeliveryUseCase({
+    webhookRepository: deps.webhookRepository,
+    webhookQueue: deps.webhookQueue,
+  });
+
+  /**
+   * @openapi
+   * /api/webhooks:
+   *   get:
+   *     summary: List webhooks
+   *     description: Returns the current user's webhooks (without secrets).
+   *     tags: [Webhooks]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Webhooks
+   *       401:
+   *         description: Authentication required
+   */
+  router.get(
+    '/',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const result = await getWebhookEndpointsUseCase.execute({
+        userId: req.user.userId,
+      });
+
+      if (!result.success) {
+        throw createError(result.error.message, 500, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/webhooks:
+   *   post:
+   *     summary: Create a webhook
+   *     description: |
+   *       Registers a URL for the selected events. The response contains the
+   *       signing secret, which is not shown again. Requests carry an
+   *       X-Webhook-Signature header of the form t=<unix>,v1=<hex>, where v1
+   *       is the HMAC-SHA256 of "<t>.<raw body>" keyed with the secret.
+   *     tags: [Webhooks]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [url, events]
+   *             properties:
+   *               url:
+   *                 type: string
+   *               description:
+   *                 type: string
+   *               events:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *                   enum: [post.published, comment.created, video.ready, video.failed]
+   *     responses:
+   *       201:
+   *         description: Webhook with its signing secret
+   *       400:
+   *         description: Validation error or webhook limit reached
+   *       401:
+   *         description: Authentication required
+   */
+  router.post(
+    '/',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const validation = createWebhookSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw createError(
+          validation.error.issues[0].message,
+          400,
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const result = await createWebhookEndpointUseCase.execute({
+        userId: req.user.userId,
+        ...validation.data,
+      });
+
+      if (!result.success) {
+        const statusCode = result.error.code === 'VALIDATION_ERROR' ? 400 : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/webhooks/{id}:
+   *   patch:
+   *     summary: Update a webhook
+   *     description: Changes the URL, description or events, or disables the webhook.
+   *     tags: [Webhooks]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Updated webhook
+   *       400:
+   *         description: Validation error
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Not the owner of the webhook
+   *       404:
+   *         description: Webhook not found
+   */
+  router.patch(
+    '/:id',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const validation = updateWebhookSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw createError(
+          validation.error.issues[0].message,
+          400,
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const result = await updateWebhookEndpointUseCase.execute({
+        userId: req.user.userId,
+        endpointId: req.params.id,
+        ...validation.data,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'NOT_FOUND'
+            ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
+            : result.error.code === 'VALIDATION_ERROR'
+            ? 400
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/webhooks/{id}:
+   *   delete:
+   *     summary: Delete a webhook
+   *     description: Deletes the webhook and its delivery log.
+   *     tags: [Webhooks]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Webhook deleted
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Not the owner of the webhook
+   *       404:
+   *         description: Webhook not found
+   */
+  router.delete(
+    '/:id',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const result = await deleteWebhookEndpointUseCase.execute({
+        userId: req.user.userId,
+        endpointId: req.params.id,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'NOT_FOUND'
+            ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/webhooks/{id}/deliveries:
+   *   get:
+   *     summary: List webhook deliveries
+   *     description: |
+   *       Returns the delivery log of a webhook, newest first. Pass
+   *       nextCursor as cursor to get the next page.
+   *     tags: [Webhooks]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: cursor
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           default: 20
+   *           maximum: 50
+   *     responses:
+   *       200:
+   *         description: Deliveries with nextCursor and hasMore
+   *       400:
+   *         description: Invalid cursor
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Not the owner of the webhook
+   *       404:
+   *         description: Webhook not found
+   */
+  router.get(
+    '/:id/deliveries',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const result = await getWebhookDeliveriesUseCase.execute({
+        userId: req.user.userId,
+        endpointId: req.params.id,
+        cursor: req.query.cursor as string | undefined,
+        limit: req.query.limit
+          ? parseInt(req.query.limit as string, 10)
+          : undefined,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'NOT_FOUND'
+            ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
+            : result.error.code === 'INVALID_INPUT'
+            ? 400
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/webhooks/{id}/test:
+   *   post:
+   *     summary: Send a test event
+   *     description: Queues a webhook.test event to the webhook, even if it is disabled.
+   *     tags: [Webhooks]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       202:
+   *         description: Test delivery queued
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Not the owner of the webhook
+   *       404:
+   *         description: Webhook not found
+   */
+  router.post(
+    '/:id/test',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const result = await sendTestWebhookUseCase.execute({
+        userId: req.user.userId,
+        endpointId: req.params.id,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'NOT_FOUND'
+            ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.status(202).json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  /**
+   * @openapi
+   * /api/webhooks/deliveries/{deliveryId}/replay:
+   *   post:
+   *     summary: Replay a delivery
+   *     description: Queues the delivery again with the same event id and payload.
+   *     tags: [Webhooks]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: deliveryId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       202:
+   *         description: Replay queued
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Not the owner of the webhook
+   *       404:
+   *         description: Delivery not found
+   */
+  router.post(
+    '/deliveries/:deliveryId/replay',
+    deps.authMiddleware,
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!req.user) {
+        throw createError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const result = await replayWebhookDeliveryUseCase.execute({
+        userId: req.user.userId,
+        deliveryId: req.params.deliveryId,
+      });
+
+      if (!result.success) {
+        const statusCode =
+          result.error.code === 'NOT_FOUND'
+            ? 404
+            : result.error.code === 'FORBIDDEN'
+            ? 403
+            : 500;
+        throw createError(result.error.message, statusCode, result.error.code);
+      }
+
+      res.status(202).json({
+        success: true,
+        data: result.data,
+      });
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,58 @@
+/**
+ * Domain Event Subscribers
+ *
+ * Side effects of use cases run here, after the change is committed,
+ * instead of inside the use case.
+ */
+
+import type {
+  IEventBus,
+  CreateEventNotificationsUseCase,
+  DispatchWebhookEventUseCase,
+} from '@blog/backend/core';
+import { registerPostEmbeddingSubscriber } from './post-embedding.subscriber.js';
+import { registerNotificationSubscriber } from './notification.subscriber.js';
+import { registerWebhookSubscriber } from './webhook.subscriber.js';
+
+export interface SubscriberDependencies {
+  eventBus: IEventBus;
+  generatePostEmbedding?: (postId: string) => Promise<void>;
+  createEventNotificationsUseCase?: CreateEventNotificationsUseCase;
+  dispatchWebhookEventUseCase?: DispatchWebhookEventUseCase;
+}
+
+/**
+ * Register all subscribers. Returns a function that removes them.
+ */
+export function registerSubscribers(deps: SubscriberDependencies): () => void {
+  const unsubscribers: (() => void)[] = [];
+
+  if (deps.generatePostEmbedding) {
+    unsubscribers.push(
+      registerPostEmbeddingSubscriber({
+        eventBus: deps.eventBus,
+        generatePostEmbedding: deps.generatePostEmbedding,
+      })
+    );
+  }
+
+  if (deps.createEventNotificationsUseCase) {
+    unsubscribers.push(
+      registerNotificationSubscriber({
+        eventBus: deps.eventBus,
+        createEventNotificationsUseCase: deps.createEventNotificationsUseCase,
+      })
+    );
+  }
+
+  if (deps.dispatchWebhookEventUseCase) {
+    unsubscribers.push(
+      registerWebhookSubscriber({
+        eventBus: deps.eventBus,
+        dispatchWebhookEventUseCase: deps.dispatchWebhookEventUseCase,
+      })
+    );
+  }
+
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
@@ -0,0 +1,29 @@
+/**
+ * Notification Subscriber
+ *
+ * Creates in-app notifications for follows, replies, mentions, likes and
+ * video processing results.
+ */
+
+import {
+  NOTIFICATION_EVENTS,
+  type IEventBus,
+  type CreateEventNotificationsUseCase,
+} from '@blog/backend/core';
+
+export interface NotificationSubscriberOptions {
+  eventBus: IEventBus;
+  createEventNotificationsUseCase: CreateEventNotificationsUseCase;
+}
+
+export function registerNotificationSubscriber(
+  options: NotificationSubscriberOptions
+): () => void {
+  const unsubscribers = NOTIFICATION_EVENTS.map((eventName) =>
+    options.eventBus.subscribe(eventName, async (event) => {
+      await options.createEventNotificationsUseCase.execute(event);
+    })
+  );
+
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
@@ -0,0 +1,34 @@
+/**
+ * Post Embedding Subscriber
+ *
+ * Generates the post embedding (semantic search) when a post is published,
+ * and again when a published post's content changed significantly. Errors
+ * propagate so the event bus delivers the event again.
+ */
+
+import type { IEventBus } from '@blog/backend/core';
+
+export interface PostEmbeddingSubscriberOptions {
+  eventBus: IEventBus;
+  generatePostEmbedding: (postId: string) => Promise<void>;
+}
+
+export function registerPostEmbeddingSubscriber(
+  options: PostEmbeddingSubscriberOptions
+): () => void {
+  const unsubscribers = [
+    options.eventBus.subscribe('post.published', (event) =>
+      options.generatePostEmbedding(event.aggregateId)
+    ),
+    options.eventBus.subscribe('post.updated', async (event) => {
+      const changes = event.payload['changes'] as
+        | { requiresReembedding?: boolean }
+        | undefined;
+      if (changes?.requiresReembedding) {
+        await options.generatePostEmbedding(event.aggregateId);
+      }
+    }),
+  ];
+
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
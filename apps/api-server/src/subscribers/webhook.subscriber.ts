@@ -0,0 +1,29 @@
+/**
+ * Webhook Subscriber
+ *
+ * Queues webhook deliveries for published posts, new comments and video
+ * processing results.
+ */
+
+import {
+  WEBHOOK_SOURCE_EVENTS,
+  type IEventBus,
+  type DispatchWebhookEventUseCase,
+} from '@blog/backend/core';
+
+export interface WebhookSubscriberOptions {
+  eventBus: IEventBus;
+  dispatchWebhookEventUseCase: DispatchWebhookEventUseCase;
+}
+
+export function registerWebhookSubscriber(
+  options: WebhookSubscriberOptions
+): () => void {
+  const unsubscribers = WEBHOOK_SOURCE_EVENTS.map((eventName) =>
+    options.eventBus.subscribe(eventName, async (event) => {
+      await options.dispatchWebhookEventUseCase.execute(event);
+    })
+  );
+
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
@@ -50,6 +50,34 @@ const EnvSchema = z.object({
   FFMPEG_PATH: z.string().optional(),
   FFPROBE_PATH: z.string().optional(),
   TEMP_DIR: z.string().default('/tmp/video-processing'),
+  // Segment format: MPEG-TS, or CMAF (fMP4) with a DASH manifest as well
+  HLS_PACKAGING: z.enum(['ts', 'cmaf']).default('ts'),
+  // AES-128 encrypted segments, keys served by the API to allowed viewers
+  HLS_ENCRYPTION_ENABLED: z
+    .string()
+    .default('false')
+    .transform((val) => val === 'true'),
+  // Integrated loudness (LUFS, EBU R128) audio is normalized to
+  LOUDNESS_TARGET_LUFS: z
+    .string()
+    .default('-16')
+    .transform(Number)
+    .refine((val) => val >= -70 && val <= -5, 'Must be between -70 and -5'),
+
+  // Speech-to-text captions (whisper.cpp, or a fixture transcript for
+  // development without a model)
+  TRANSCRIPTION_ENABLED: z
+    .string()
+    .default('false')
+    .transform((val) => val === 'true'),
+  TRANSCRIPTION_ENGINE: z
+    .enum(['whisper-cpp', 'fixture'])
+    .default('whisper-cpp'),
+  WHISPER_CPP_PATH: z.string().default('whisper-cli'),
+  WHISPER_MODEL_PATH: z.string().default('/models/ggml-base.bin'),
+  WHISPER_THREADS: z.string().default('4').transform(Number),
+  TRANSCRIPTION_FIXTURE_PATH: z.string().optional(),
+  TRANSCRIPTION_LANGUAGE: z.string().optional(),
 });
 
 export type Env = z.infer<typeof EnvSchema>;
@@ -6,6 +6,10 @@
 
 import { loadEnv } from './config/env.js';
 import { createVideoEncodingWorker } from './worker.js';
+import {
+  createVideoTranscriptionWorker,
+  type VideoTranscriptionWorker,
+} from './transcription-worker.js';
 import {
   createMinIOService,
   createFFmpegService,
@@ -13,8 +17,19 @@ import {
   getPool,
   PostgresVideoRepository,
   createVideoQualityRepository,
+  createVideoCaptionRepository,
+  createVideoTranscriptRepository,
+  createVideoThumbnailCandidateRepository,
+  createVideoEncryptionKeyRepository,
+  createVideoLoudnessRepository,
   createNotificationService,
   createQualityRetryQueueService,
+  createRedisStreamEventBus,
+  createRedisPubSubRealtimeGateway,
+  createTranscriptionQueueService,
+  createWhisperCppTranscriptionService,
+  createFixtureTranscriptionService,
+  type TranscriptionQueueService,
 } from '@blog/backend/infrastructure';
 import * as fs from 'fs';
 
@@ -76,6 +91,7 @@ async function main() {
       throw new Error('Database pool not initialized');
     }
     const videoQualityRepository = createVideoQualityRepository(pool);
+    const captionRepository = createVideoCaptionRepository(db);
 
     // Initialize notification service
     console.log('📢 Initializing notification service...');
@@ -91,6 +107,71 @@ async function main() {
       },
     });
 
+    // Initialize event bus (publish only; api-server consumes the stream)
+    const eventBus = createRedisStreamEventBus({
+      redis: {
+        host: env.REDIS_HOST,
+        port: env.REDIS_PORT,
+        password: env.REDIS_PASSWORD,
+      },
+      consumerGroup: 'video-worker',
+    });
+
+    // Realtime gateway (publish only; api-server pushes to clients)
+    const realtimeGateway = createRedisPubSubRealtimeGateway({
+      redis: {
+        host: env.REDIS_HOST,
+        port: env.REDIS_PORT,
+        password: env.REDIS_PASSWORD,
+      },
+    });
+
+    // Speech-to-text runs as separate jobs, after a video is playable
+    let transcriptionQueue: TranscriptionQueueService | undefined;
+    let transcriptionWorker: VideoTranscriptionWorker | null = null;
+    if (env.TRANSCRIPTION_ENABLED) {
+      console.log(
+        `🗣️ Initializing transcription (${env.TRANSCRIPTION_ENGINE})...`
+      );
+      const transcriptionService =
+        env.TRANSCRIPTION_ENGINE === 'fixture'
+          ? createFixtureTranscriptionService(env.TRANSCRIPTION_FIXTURE_PATH)
+          : createWhisperCppTranscriptionService({
+              binaryPath: env.WHISPER_CPP_PATH,
+              modelPath: env.WHISPER_MODEL_PATH,
+              threads: env.WHISPER_THREADS,
+            });
+
+      if (await transcriptionService.isAvailable()) {
+        transcriptionQueue = createTranscriptionQueueService({
+          redis: {
+            host: env.REDIS_HOST,
+            port: env.REDIS_PORT,
+            password: env.REDIS_PASSWORD,
+          },
+        });
+        transcriptionWorker = createVideoTranscriptionWorker(
+          {
+            tempDir: env.TEMP_DIR,
+            language: env.TRANSCRIPTION_LANGUAGE,
+          },
+          {
+            transcriptionQueue,
+            transcriptionService,
+            storageService,
+            ffmpegService,
+            videoRepository,
+            captionRepository,
+            transcriptRepository: createVideoTranscriptRepository(db),
+          }
+        );
+      } else {
+        console.warn(
+          `⚠️ ${transcriptionService.model} is not available, transcription disabled`
+        );
+      }
+    }
+
     // Create worker with dependencies
     const worker = createVideoEncodingWorker(
       {
@@ -102,6 +183,8 @@ async function main() {
         concurrency: env.WORKER_CONCURRENCY,
         tempDir: env.TEMP_DIR,
         minioEndpoint: `http://${env.MINIO_ENDPOINT}:${env.MINIO_PORT}`,
+        packaging: env.HLS_PACKAGING,
+        loudnessTarget: env.LOUDNESS_TARGET_LUFS,
       },
       {
         storageService,
@@ -110,6 +193,16 @@ async function main() {
         videoQualityRepository,
         notificationService,
         qualityRetryQueue,
+        eventBus,
+        realtimePublisher: realtimeGateway,
+        captionRepository,
+        transcriptionQueue,
+        thumbnailCandidateRepository:
+          createVideoThumbnailCandidateRepository(db),
+        encryptionKeyRepository: env.HLS_ENCRYPTION_ENABLED
+          ? createVideoEncryptionKeyRepository(db)
+          : undefined,
+        loudnessRepository: createVideoLoudnessRepository(db),
       }
     );
 
@@ -122,7 +215,10 @@ async function main() {
     const shutdown = async () => {
       console.log('\n🛑 Received shutdown signal...');
       await worker.close();
+      await transcriptionWorker?.close();
       await qualityRetryQueue.close();
+      await eventBus.stop();
+      await realtimeGateway.close();
       await db.destroy();
       process.exit(0);
     };
@@ -0,0 +1,146 @@
+/**
+ * Video Transcription Worker
+ *
+ * Processes speech-to-text jobs queued once a video is playable.
+ * Downloads raw video → Extracts audio → Transcribes → Stores transcript and
+ * generated caption track → Cleanup
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  IStorageService,
+  IFFmpegService,
+  IVideoRepository,
+  IVideoCaptionRepository,
+  IVideoTranscriptRepository,
+  ITranscriptionService,
+  ITranscriptionQueue,
+  TranscriptionJob,
+} from '@blog/backend/core';
+import { GenerateVideoTranscriptUseCase } from '@blog/backend/core';
+
+export interface TranscriptionWorkerConfig {
+  /** Temporary directory for processing */
+  tempDir: string;
+  /** Spoken language of all videos; detected per video when unset */
+  language?: string;
+}
+
+export interface TranscriptionWorkerDependencies {
+  transcriptionQueue: ITranscriptionQueue;
+  transcriptionService: ITranscriptionService;
+  storageService: IStorageService;
+  ffmpegService: IFFmpegService;
+  videoRepository: IVideoRepository;
+  captionRepository: IVideoCaptionRepository;
+  transcriptRepository: IVideoTranscriptRepository;
+}
+
+export class VideoTranscriptionWorker {
+  private readonly generateTranscript: GenerateVideoTranscriptUseCase;
+
+  constructor(
+    private readonly config: TranscriptionWorkerConfig,
+    private readonly deps: TranscriptionWorkerDependencies
+  ) {
+    this.generateTranscript = new GenerateVideoTranscriptUseCase(deps);
+    deps.transcriptionQueue.process((job) => this.processJob(job));
+  }
+
+  private async processJob(job: TranscriptionJob): Promise<void> {
+    const { videoId, rawFilePath } = job;
+    const workDir = path.join(this.config.tempDir, `${videoId}-transcription`);
+    const startTime = Date.now();
+
+    console.log(`🗣️ Transcribing video ${videoId}`);
+
+    try {
+      fs.mkdirSync(workDir, { recursive: true });
+
+      // Step 1: Download video from MinIO
+      const localVideoPath = path.join(workDir, 'source.mp4');
+      const [bucket, ...keyParts] = rawFilePath.split('/');
+      await this.downloadFromStorage(
+        bucket,
+        keyParts.join('/'),
+        localVideoPath
+      );
+
+      // Step 2: Extract audio
+      const audioPath = await this.deps.ffmpegService.extractAudio(
+        localVideoPath,
+        path.join(workDir, 'audio.wav')
+      );
+
+      // Step 3: Transcribe and store
+      const result = await this.generateTranscript.execute({
+        videoId,
+        audioPath,
+        language: this.config.language,
+      });
+
+      if (!result.success) {
+        // The video was deleted meanwhile, or the output was unusable:
+        // retrying will not help
+        console.warn(
+          `⚠️ Transcription of ${videoId} skipped: ${result.error.message}`
+        );
+        return;
+      }
+
+      console.log(
+        `✅ Transcribed video ${videoId} in ${Date.now() - startTime}ms`,
+        result.data
+      );
+    } finally {
+      // Step 4: Cleanup
+      this.cleanup(workDir);
+    }
+  }
+
+  private async downloadFromStorage(
+    bucket: string,
+    key: string,
+    localPath: string
+  ): Promise<void> {
+    const stream = await this.deps.storageService.getObjectStream({
+      bucket,
+      key,
+    });
+
+    const writeStream = fs.createWriteStream(localPath);
+
+    return new Promise((resolve, reject) => {
+      stream.pipe(writeStream);
+      stream.on('error', reject);
+      writeStream.on('finish', resolve);
+      writeStream.on('error', reject);
+    });
+  }
+
+  private cleanup(workDir: string): void {
+    try {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    } catch (error) {
+      console.warn(`⚠️ Failed to cleanup ${workDir}:`, error);
+    }
+  }
+
+  /**
+   * Stop taking jobs and close the queue
+   */
+  async close(): Promise<void> {
+    await this.deps.transcriptionQueue.close();
+  }
+}
+
+/**
+ * Create and start the video transcription worker
+ */
+export function createVideoTranscriptionWorker(
+  config: TranscriptionWorkerConfig,
+  deps: TranscriptionWorkerDependencies
+): VideoTranscriptionWorker {
+  return new VideoTranscriptionWorker(config, deps);
+}
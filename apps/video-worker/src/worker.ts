@@ -2,14 +2,17 @@
  * Video Encoding Worker
  *
  * BullMQ worker that processes video encoding jobs.
- * Downloads raw video → Extracts metadata → Generates thumbnail →
- * Encodes to HLS (4 qualities) → Uploads → Updates database → Cleanup
+ * Downloads raw video → Extracts metadata → Picks a thumbnail from scored
+ * candidate frames, generates seek preview sprites → Measures loudness →
+ * Encodes to HLS (4 qualities, one normalized audio rendition) → Uploads →
+ * Updates database → Cleanup
  */
 
 import { Worker, Job } from 'bullmq';
 import type { RedisOptions } from 'ioredis';
 import * as fs from 'fs';
 import * as path from 'path';
+import { randomBytes } from 'crypto';
 import type {
   EncodingJobData,
   JobResult,
@@ -17,20 +20,45 @@ import type {
   IFFmpegService,
   IVideoRepository,
   IVideoQualityRepository,
+  IVideoCaptionRepository,
+  IVideoThumbnailCandidateRepository,
+  IVideoEncryptionKeyRepository,
+  IVideoLoudnessRepository,
+  ITranscriptionQueue,
+  HLSEncryption,
+  HLSPackaging,
+  HLSQuality,
+  LoudnessMeasurement,
+  VideoMetadata,
+  ThumbnailSpritesResult,
+  ThumbnailCandidateFrame,
 } from '@blog/backend/core';
 import {
   StorageBuckets,
+  DEFAULT_HLS_QUALITIES,
+  publishVideoCaptions,
   VideoQualityStatus,
   CreateVideoQualityInput,
 } from '@blog/backend/core';
-import type { INotificationService } from '@blog/backend/core';
+import {
+  RealtimeChannels,
+  RealtimeMessageTypes,
+  type INotificationService,
+  type IEventBus,
+  type IRealtimePublisher,
+} from '@blog/backend/core';
 import {
   VIDEO_ENCODING_QUEUE,
   ENCODING_CONFIG,
+  buildEncodingLadder,
   QualityRetryQueueService,
   QualityRetryJobData,
 } from '@blog/backend/infrastructure';
-import { VideoStatus } from '@blog/shared/domain';
+import {
+  VideoStatus,
+  VideoProcessingCompletedEvent,
+  VideoProcessingFailedEvent,
+} from '@blog/shared/domain';
 
 export interface WorkerConfig {
   /** Redis connection options */
@@ -41,6 +69,13 @@ export interface WorkerConfig {
   tempDir: string;
   /** MinIO endpoint for URL generation */
   minioEndpoint: string;
+  /**
+   * Segment format: MPEG-TS, or CMAF (fMP4) with a DASH manifest next to
+   * the HLS playlists (default: 'ts')
+   */
+  packaging?: HLSPackaging;
+  /** Integrated loudness the audio is normalized to, in LUFS */
+  loudnessTarget: number;
 }
 
 export interface WorkerDependencies {
@@ -50,8 +85,30 @@ export interface WorkerDependencies {
   videoQualityRepository: IVideoQualityRepository;
   notificationService: INotificationService;
   qualityRetryQueue: QualityRetryQueueService;
+  /** Publishes video.processing_completed / video.processing_failed */
+  eventBus?: IEventBus;
+  /** Pushes encoding progress to clients following the video */
+  realtimePublisher?: IRealtimePublisher;
+  /** Lists caption tracks added before encoding finished in the playlist */
+  captionRepository?: IVideoCaptionRepository;
+  /** Queues speech-to-text once the video is playable */
+  transcriptionQueue?: ITranscriptionQueue;
+  /** Keeps the poster candidates for the author to choose from */
+  thumbnailCandidateRepository?: IVideoThumbnailCandidateRepository;
+  /** Encrypts the segments (AES-128) with a new key on every encode */
+  encryptionKeyRepository?: IVideoEncryptionKeyRepository;
+  /** Keeps the loudness measured for display */
+  loudnessRepository?: IVideoLoudnessRepository;
 }
 
+/** Minimum interval between video.progress messages of one job */
+const PROGRESS_PUBLISH_INTERVAL_MS = 1000;
+
+type ProgressReporter = (
+  progress: number,
+  quality?: { name: string; percent: number }
+) => Promise<void>;
+
 export class VideoEncodingWorker {
   private worker: Worker<EncodingJobData, JobResult>;
   private config: WorkerConfig;
@@ -148,6 +205,7 @@ export class VideoEncodingWorker {
         await this.deps.videoRepository.update(video.id, {
           status: VideoStatus.FAILED,
         });
+        await this.publishStatus(videoId, VideoStatus.FAILED);
         console.log(`📝 Updated video ${videoId} status to ERROR`);
       }
     } catch (error) {
@@ -159,6 +217,7 @@ export class VideoEncodingWorker {
     const { videoId, rawFilePath } = job.data;
     const startTime = Date.now();
     const workDir = path.join(this.config.tempDir, videoId);
+    const reportProgress = this.createProgressReporter(job);
 
     console.log(`🎬 Processing video ${videoId} from ${rawFilePath}`);
 
@@ -192,8 +251,9 @@ export class VideoEncodingWorker {
 
       videoEntity.startProcessing();
       await this.deps.videoRepository.save(videoEntity);
+      await this.publishStatus(videoId, VideoStatus.PROCESSING);
       console.log(`📝 Updated video ${videoId} status to PROCESSING`);
-      await job.updateProgress(5);
+      await reportProgress(5);
 
       // Check for cancellation flag
       if (await this.isCancelled(job)) {
@@ -210,7 +270,7 @@ export class VideoEncodingWorker {
 
       console.log(`  Downloading from bucket: ${bucket}, key: ${key}`);
       await this.downloadFromStorage(bucket, key, localVideoPath);
-      await job.updateProgress(10);
+      await reportProgress(10);
 
       // Step 2: Extract metadata (20%)
       console.log(`📊 Step 2/8: Extracting metadata...`);
@@ -220,7 +280,7 @@ export class VideoEncodingWorker {
       console.log(
         `  Duration: ${metadata.duration}s, Resolution: ${metadata.width}x${metadata.height}`
       );
-      await job.updateProgress(20);
+      await reportProgress(20);
 
       // Check for cancellation
       if (await this.isCancelled(job)) {
@@ -233,57 +293,90 @@ export class VideoEncodingWorker {
       }
 
       // Step 3: Generate thumbnail (30%)
-      console.log(`🖼️ Step 3/8: Generating thumbnail...`);
+      console.log(`🖼️ Step 3/8: Generating thumbnail and preview sprites...`);
       const thumbnailPath = path.join(workDir, 'thumbnail.jpg');
-      const thumbnailTimestamp = Math.min(2, metadata.duration * 0.1);
-      await this.deps.ffmpegService.generateThumbnail(
+      const candidates = await this.extractThumbnailCandidates(
         localVideoPath,
-        thumbnailPath,
-        thumbnailTimestamp
+        workDir,
+        metadata.duration
       );
-      await job.updateProgress(30);
+      if (candidates.length > 0) {
+        // The best-scoring candidate is the poster until the author picks one
+        const best = candidates.reduce((a, b) => (b.score > a.score ? b : a));
+        fs.copyFileSync(best.path, thumbnailPath);
+        console.log(
+          `  Picked the frame at ${best.time}s (score ${best.score})`
+        );
+      } else {
+        const thumbnailTimestamp = Math.min(2, metadata.duration * 0.1);
+        await this.deps.ffmpegService.generateThumbnail(
+          localVideoPath,
+          thumbnailPath,
+          thumbnailTimestamp
+        );
+      }
+      const sprites = await this.generateThumbnailSprites(
+        localVideoPath,
+        workDir,
+        metadata
+      );
+      await reportProgress(30);
 
       // Step 4: Encode to HLS (30% - 80%)
       console.log(
         `🎞️ Step 4/8: Encoding to HLS (parallel mode: ${ENCODING_CONFIG.ENABLE_PARALLEL})...`
       );
 
-      // Initialize video quality records before encoding
+      // Bitrates for this video, from how hard it is to compress
+      const ladder = await this.buildEncodingLadder(
+        localVideoPath,
+        workDir,
+        metadata
+      );
+
+      // Initialize video quality records before encoding, with the ladder
+      // they are encoded at
       // Use upsertBatch to handle job retries gracefully (avoid duplicate key errors)
-      const qualityNames = ['360p', '480p', '720p', '1080p'];
-      const qualityInputs: CreateVideoQualityInput[] = qualityNames
-        .filter((name) => {
-          // Filter based on source resolution
-          const heightMap = {
-            '360p': 360,
-            '480p': 480,
-            '720p': 720,
-            '1080p': 1080,
-          };
-          return heightMap[name as keyof typeof heightMap] <= metadata.height;
-        })
-        .map((name) => ({
+      const qualityInputs: CreateVideoQualityInput[] = ladder.map(
+        (quality) => ({
           videoId,
-          qualityName: name,
-          retryPriority: ENCODING_CONFIG.QUALITY_RETRY_PRIORITY[name] || 4,
+          qualityName: quality.name,
+          retryPriority:
+            ENCODING_CONFIG.QUALITY_RETRY_PRIORITY[quality.name] || 4,
           status: VideoQualityStatus.ENCODING,
-        }));
+          width: quality.width,
+          height: quality.height,
+          videoBitrate: quality.videoBitrate,
+          audioBitrate: quality.audioBitrate,
+        })
+      );
 
       await this.deps.videoQualityRepository.upsertBatch(qualityInputs);
       console.log(`  Initialized ${qualityInputs.length} quality records`);
 
+      const loudness = await this.measureLoudness(localVideoPath, metadata);
+
       const hlsDir = path.join(workDir, 'hls');
+      const encryption = await this.createEncryption(videoId);
       const hlsResult = await this.deps.ffmpegService.encodeToHLS(
         localVideoPath,
         hlsDir,
-        undefined, // Use default qualities
+        ladder,
         (progress) => {
           // Map encoding progress to 30-80 range
           const jobProgress = 30 + Math.floor(progress.percent * 0.5);
-          job.updateProgress(Math.min(jobProgress, 80));
+          reportProgress(Math.min(jobProgress, 80), {
+            name: progress.quality,
+            percent: progress.percent,
+          });
           console.log(
             `  Encoding ${progress.quality}: ${progress.percent.toFixed(1)}%`
           );
+        },
+        {
+          packaging: this.config.packaging,
+          encryption: encryption?.options,
+          loudness: loudness ?? undefined,
         }
       );
       console.log(`  Encoding completed in ${hlsResult.encodingTime}ms`);
@@ -332,7 +425,7 @@ export class VideoEncodingWorker {
         }
       }
 
-      await job.updateProgress(80);
+      await reportProgress(80);
 
       // Check for cancellation before continuing
       if (await this.isCancelled(job)) {
@@ -348,17 +441,35 @@ export class VideoEncodingWorker {
         thumbnailKey,
         'image/jpeg'
       );
-      await job.updateProgress(85);
+      await this.uploadThumbnailCandidates(videoId, candidates);
+      await reportProgress(85);
 
       // Step 6: Upload encoded files (90%)
       console.log(`📤 Step 6/8: Uploading encoded files...`);
       await this.uploadHLSFiles(videoId, hlsDir, hlsResult);
-      await job.updateProgress(90);
+      if (encryption) {
+        await this.removeStaleSegments(
+          videoId,
+          this.getRenditionDirs(hlsResult).map((dir) => path.basename(dir)),
+          encryption.version
+        );
+      }
+      if (sprites) {
+        await this.uploadThumbnailSprites(videoId, sprites);
+      }
+      await this.publishCaptions(videoId, metadata.duration);
+      await reportProgress(90);
 
       // Step 7: Update database (95%)
       console.log(`💾 Step 7/8: Updating database...`);
       const hlsMasterUrl = `${this.config.minioEndpoint}/${StorageBuckets.VIDEOS_ENCODED}/${videoId}/master.m3u8`;
-      const thumbnailUrl = `${this.config.minioEndpoint}/${StorageBuckets.THUMBNAILS}/${thumbnailKey}`;
+      const generatedThumbnailUrl = `${this.config.minioEndpoint}/${StorageBuckets.THUMBNAILS}/${thumbnailKey}`;
+      const thumbnailsVttUrl = sprites
+        ? `${this.config.minioEndpoint}/${StorageBuckets.VIDEOS_ENCODED}/${videoId}/thumbnails.vtt`
+        : undefined;
+      const dashManifestUrl = hlsResult.dashManifestPath
+        ? `${this.config.minioEndpoint}/${StorageBuckets.VIDEOS_ENCODED}/${videoId}/manifest.mpd`
+        : null;
       const qualities = hlsResult.variantPlaylists.map((v) => v.quality);
 
       // Determine video status based on number of successful qualities
@@ -371,6 +482,12 @@ export class VideoEncodingWorker {
         throw new Error(`Video ${videoId} not found in database`);
       }
 
+      // A poster the author uploaded while the video was processing is kept
+      const currentThumbnailUrl = video.toJSON().thumbnailUrl;
+      const thumbnailUrl = currentThumbnailUrl?.includes(`/${videoId}/custom-`)
+        ? currentThumbnailUrl
+        : generatedThumbnailUrl;
+
       // Extract user ID from postId (will need to fetch Post to get authorId in notification service)
       const userId = video.toJSON().postId || 'unknown';
 
@@ -445,12 +562,41 @@ export class VideoEncodingWorker {
         status: videoStatus,
         hlsUrl: videoStatus !== VideoStatus.FAILED ? hlsMasterUrl : undefined,
         thumbnailUrl: thumbnailUrl,
+        thumbnailsVttUrl,
+        dashManifestUrl:
+          videoStatus !== VideoStatus.FAILED ? dashManifestUrl : undefined,
         duration: Math.floor(metadata.duration),
         width: metadata.width,
         height: metadata.height,
         processedAt: new Date(),
       });
-      await job.updateProgress(95);
+      if (loudness && videoStatus !== VideoStatus.FAILED) {
+        await this.deps.loudnessRepository?.upsert(videoId, {
+          integratedLufs: loudness.integratedLufs,
+          truePeakDbtp: loudness.truePeakDbtp,
+          loudnessRangeLu: loudness.loudnessRangeLu,
+          targetLufs: loudness.targetLufs,
+        });
+      }
+      await this.publishStatus(videoId, videoStatus);
+
+      await this.deps.eventBus?.publish(
+        videoStatus === VideoStatus.FAILED
+          ? new VideoProcessingFailedEvent(
+              videoId,
+              `${failedQualities.length} qualities failed to encode`,
+              job.attemptsMade
+            )
+          : new VideoProcessingCompletedEvent(
+              videoId,
+              Math.floor(metadata.duration),
+              successQualities
+            )
+      );
+      if (videoStatus !== VideoStatus.FAILED) {
+        await this.queueTranscription(videoId, rawFilePath);
+      }
+      await reportProgress(95);
 
       // Step 8: Cleanup (100%)
       console.log(`🧹 Step 8/8: Cleaning up...`);
@@ -459,7 +605,7 @@ export class VideoEncodingWorker {
       // Optionally: Delete raw file from storage
       // await this.deps.storageService.deleteFile(StorageBuckets.VIDEOS_RAW, rawFilePath);
 
-      await job.updateProgress(100);
+      await reportProgress(100);
 
       const processingTime = Date.now() - startTime;
       console.log(`✅ Video ${videoId} processed in ${processingTime}ms`);
@@ -496,6 +642,51 @@ export class VideoEncodingWorker {
     }
   }
 
+  /**
+   * Job progress reporter. Every update is stored on the job; video.progress
+   * messages (overall and per-quality progress) are throttled, except for
+   * the final one.
+   */
+  private createProgressReporter(job: Job<EncodingJobData>): ProgressReporter {
+    const { videoId } = job.data;
+    const qualities: Record<string, number> = {};
+    let lastPublishedAt = 0;
+
+    return async (progress, quality) => {
+      if (quality) {
+        qualities[quality.name] = Math.min(100, Math.round(quality.percent));
+      }
+
+      await job.updateProgress(progress);
+
+      const now = Date.now();
+      if (
+        !this.deps.realtimePublisher ||
+        (progress < 100 && now - lastPublishedAt < PROGRESS_PUBLISH_INTERVAL_MS)
+      ) {
+        return;
+      }
+      lastPublishedAt = now;
+
+      await this.deps.realtimePublisher.publish(
+        RealtimeChannels.video(videoId),
+        RealtimeMessageTypes.VIDEO_PROGRESS,
+        { videoId, progress, qualities: { ...qualities } }
+      );
+    };
+  }
+
+  /**
+   * Tell clients following the video that its status changed
+   */
+  private async publishStatus(videoId: string, status: string): Promise<void> {
+    await this.deps.realtimePublisher?.publish(
+      RealtimeChannels.video(videoId),
+      RealtimeMessageTypes.VIDEO_STATUS,
+      { videoId, status }
+    );
+  }
+
   private async downloadFromStorage(
     bucket: string,
     key: string,
@@ -536,7 +727,9 @@ export class VideoEncodingWorker {
     _hlsDir: string,
     hlsResult: {
       masterPlaylistPath: string;
-      variantPlaylists: { quality: string; segmentsDir: string }[];
+      dashManifestPath?: string;
+      audioPlaylist?: { segmentsDir: string };
+      variantPlaylists: { segmentsDir: string }[];
     }
   ): Promise<void> {
     // Upload master playlist
@@ -547,27 +740,338 @@ export class VideoEncodingWorker {
       'application/vnd.apple.mpegurl'
     );
 
-    // Upload each quality variant
-    for (const variant of hlsResult.variantPlaylists) {
-      const qualityDir = variant.segmentsDir;
-      const files = fs.readdirSync(qualityDir);
+    // Upload the DASH manifest (CMAF packaging), over the same segments
+    if (hlsResult.dashManifestPath) {
+      await this.uploadToStorage(
+        hlsResult.dashManifestPath,
+        StorageBuckets.VIDEOS_ENCODED,
+        `${videoId}/manifest.mpd`,
+        'application/dash+xml'
+      );
+    }
+
+    // Upload each quality variant, and the audio rendition they play
+    for (const renditionDir of this.getRenditionDirs(hlsResult)) {
+      const files = fs.readdirSync(renditionDir);
 
       for (const file of files) {
-        const filePath = path.join(qualityDir, file);
+        const filePath = path.join(renditionDir, file);
         const contentType = file.endsWith('.m3u8')
           ? 'application/vnd.apple.mpegurl'
+          : file.endsWith('.m4s')
+          ? 'video/iso.segment' // CMAF segments
+          : file.endsWith('.mp4')
+          ? 'video/mp4' // CMAF init segments
           : 'video/mp2t'; // .ts files
 
         await this.uploadToStorage(
           filePath,
           StorageBuckets.VIDEOS_ENCODED,
-          `${videoId}/${variant.quality}/${file}`,
+          `${videoId}/${path.basename(renditionDir)}/${file}`,
           contentType
         );
       }
     }
   }
 
+  /**
+   * Folders of the encoded variants and audio rendition, named as they are
+   * in storage
+   */
+  private getRenditionDirs(hlsResult: {
+    audioPlaylist?: { segmentsDir: string };
+    variantPlaylists: { segmentsDir: string }[];
+  }): string[] {
+    return [
+      ...hlsResult.variantPlaylists.map((variant) => variant.segmentsDir),
+      ...(hlsResult.audioPlaylist ? [hlsResult.audioPlaylist.segmentsDir] : []),
+    ];
+  }
+
+  /**
+   * First loudness pass, for the encode to normalize the audio with.
+   * Without it the audio is encoded as is, so a failure (e.g. a silent
+   * track) is only logged.
+   */
+  private async measureLoudness(
+    inputPath: string,
+    metadata: VideoMetadata
+  ): Promise<LoudnessMeasurement | null> {
+    if (!metadata.hasAudio) {
+      console.log(`  No audio stream, skipping loudness normalization`);
+      return null;
+    }
+
+    try {
+      const loudness = await this.deps.ffmpegService.measureLoudness(
+        inputPath,
+        this.config.loudnessTarget
+      );
+      console.log(
+        `  🔊 Loudness: ${loudness.integratedLufs} LUFS (true peak ${loudness.truePeakDbtp} dBTP), normalizing to ${loudness.targetLufs} LUFS`
+      );
+      return loudness;
+    } catch (error) {
+      console.warn(
+        `  ⚠️ Failed to measure loudness, encoding the audio as is:`,
+        error instanceof Error ? error.message : error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Content-aware encoding ladder: a quick constant-quality encode of a few
+   * samples measures how many bits the video needs, so a slideshow is not
+   * encoded at the bitrate of a game capture. Falls back to the preset
+   * bitrates if the probe fails.
+   */
+  private async buildEncodingLadder(
+    inputPath: string,
+    workDir: string,
+    metadata: VideoMetadata
+  ): Promise<HLSQuality[]> {
+    try {
+      const analysis = await this.deps.ffmpegService.analyzeComplexity(
+        inputPath,
+        path.join(workDir, 'probe'),
+        metadata
+      );
+      const ladder = buildEncodingLadder(analysis, metadata);
+      console.log(
+        `  Complexity: ${analysis.probeBitrate}kbps at ${
+          analysis.probeHeight
+        }p (CRF), ladder: ${ladder
+          .map((q) => `${q.name}@${q.videoBitrate}kbps`)
+          .join(', ')}`
+      );
+      return ladder;
+    } catch (error) {
+      console.warn(
+        `  ⚠️ Failed to analyze complexity, using the preset bitrates:`,
+        error instanceof Error ? error.message : error
+      );
+      return DEFAULT_HLS_QUALITIES.filter(
+        (quality) => quality.height <= metadata.height
+      );
+    }
+  }
+
+  /**
+   * A new key for this encode. Keys are served by the API at
+   * /api/videos/:id/key, which the key URI resolves to from a media
+   * playlist played through the playback proxy
+   * (/api/videos/:id/playback/<quality>/playlist.m3u8).
+   */
+  private async createEncryption(
+    videoId: string
+  ): Promise<{ version: number; options: HLSEncryption } | undefined> {
+    const { encryptionKeyRepository } = this.deps;
+    if (!encryptionKeyRepository) return undefined;
+
+    const { version, key } = await encryptionKeyRepository.create(
+      videoId,
+      randomBytes(16)
+    );
+    console.log(`  🔐 Encrypting segments with key version ${version}`);
+
+    return {
+      version,
+      options: {
+        key,
+        keyUri: `../../key?version=${version}`,
+        keyId: `k${version}`,
+      },
+    };
+  }
+
+  /**
+   * Delete segments of encodes before the previous one. The previous
+   * encode's segments (and key) are kept for players still on a playlist
+   * loaded before this one; an unencrypted encode is the one before key
+   * version 1. Leftovers only cost storage, so a failure is only logged.
+   */
+  private async removeStaleSegments(
+    videoId: string,
+    renditions: string[],
+    keyVersion: number
+  ): Promise<void> {
+    const isKept = (file: string) =>
+      file.startsWith(`segment_k${keyVersion}_`) ||
+      (keyVersion > 1
+        ? file.startsWith(`segment_k${keyVersion - 1}_`)
+        : /^segment_(\d+|init)\.(ts|m4s|mp4)$/.test(file));
+
+    try {
+      for (const rendition of renditions) {
+        const objects = await this.deps.storageService.listObjects({
+          bucket: StorageBuckets.VIDEOS_ENCODED,
+          prefix: `${videoId}/${rendition}/`,
+        });
+        const stale = objects
+          .map((object) => object.key)
+          .filter((key) => {
+            const file = path.posix.basename(key);
+            return /\.(ts|m4s|mp4)$/.test(file) && !isKept(file);
+          });
+
+        if (stale.length > 0) {
+          await this.deps.storageService.deleteObjects(
+            StorageBuckets.VIDEOS_ENCODED,
+            stale
+          );
+        }
+      }
+    } catch (error) {
+      console.warn(
+        `  ⚠️ Failed to remove stale segments:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  /**
+   * Poster candidates. Without them the poster is the frame at a fixed
+   * time, so a failure is only logged.
+   */
+  private async extractThumbnailCandidates(
+    inputPath: string,
+    workDir: string,
+    duration: number
+  ): Promise<ThumbnailCandidateFrame[]> {
+    try {
+      return await this.deps.ffmpegService.extractThumbnailCandidates(
+        inputPath,
+        path.join(workDir, 'candidates'),
+        duration
+      );
+    } catch (error) {
+      console.warn(
+        `  ⚠️ Failed to extract thumbnail candidates:`,
+        error instanceof Error ? error.message : error
+      );
+      return [];
+    }
+  }
+
+  private async uploadThumbnailCandidates(
+    videoId: string,
+    candidates: ThumbnailCandidateFrame[]
+  ): Promise<void> {
+    const { thumbnailCandidateRepository } = this.deps;
+    if (!thumbnailCandidateRepository || candidates.length === 0) return;
+
+    const stored = [];
+    for (const candidate of candidates) {
+      const storageKey = `${videoId}/candidates/${path.basename(
+        candidate.path
+      )}`;
+      await this.uploadToStorage(
+        candidate.path,
+        StorageBuckets.THUMBNAILS,
+        storageKey,
+        'image/jpeg'
+      );
+      stored.push({ storageKey, time: candidate.time, score: candidate.score });
+    }
+
+    await thumbnailCandidateRepository.replace(videoId, stored);
+    console.log(`  🖼️ Stored ${stored.length} thumbnail candidate(s)`);
+  }
+
+  /**
+   * Seek bar preview sprites. They are optional, so a failure is logged and
+   * the video is published without them.
+   */
+  private async generateThumbnailSprites(
+    inputPath: string,
+    workDir: string,
+    metadata: { duration: number; width: number; height: number }
+  ): Promise<ThumbnailSpritesResult | null> {
+    try {
+      const sprites = await this.deps.ffmpegService.generateThumbnailSprites(
+        inputPath,
+        path.join(workDir, 'thumbnails'),
+        metadata
+      );
+      console.log(
+        `  🎞️ Generated ${sprites.spritePaths.length} preview sprite sheet(s)`
+      );
+      return sprites;
+    } catch (error) {
+      console.warn(
+        `  ⚠️ Failed to generate preview sprites:`,
+        error instanceof Error ? error.message : error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Upload the sprite sheets next to the HLS output; the VTT points at them
+   * with relative URLs
+   */
+  private async uploadThumbnailSprites(
+    videoId: string,
+    sprites: ThumbnailSpritesResult
+  ): Promise<void> {
+    for (const spritePath of sprites.spritePaths) {
+      await this.uploadToStorage(
+        spritePath,
+        StorageBuckets.VIDEOS_ENCODED,
+        `${videoId}/sprites/${path.basename(spritePath)}`,
+        'image/jpeg'
+      );
+    }
+
+    await this.uploadToStorage(
+      sprites.vttPath,
+      StorageBuckets.VIDEOS_ENCODED,
+      `${videoId}/thumbnails.vtt`,
+      'text/vtt'
+    );
+  }
+
+  /**
+   * Add the video's caption tracks to the master playlist just uploaded
+   */
+  private async publishCaptions(
+    videoId: string,
+    duration: number
+  ): Promise<void> {
+    const { captionRepository } = this.deps;
+    if (!captionRepository) return;
+
+    const captions = await captionRepository.findByVideoId(videoId);
+    if (captions.length === 0) return;
+
+    await publishVideoCaptions(
+      { ...this.deps, captionRepository },
+      videoId,
+      duration,
+      captions
+    );
+    console.log(`  📝 Added ${captions.length} caption track(s)`);
+  }
+
+  /**
+   * Queue speech-to-text as its own job; the video is playable already and
+   * a queueing failure only means no generated captions
+   */
+  private async queueTranscription(
+    videoId: string,
+    rawFilePath: string
+  ): Promise<void> {
+    if (!this.deps.transcriptionQueue) return;
+
+    try {
+      await this.deps.transcriptionQueue.enqueue({ videoId, rawFilePath });
+      console.log(`  🗣️ Queued transcription`);
+    } catch (error) {
+      console.warn(`⚠️ Failed to queue transcription for ${videoId}:`, error);
+    }
+  }
+
   private async cleanup(workDir: string): Promise<void> {
     try {
       if (fs.existsSync(workDir)) {
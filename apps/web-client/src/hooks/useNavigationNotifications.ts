@@ -0,0 +1,45 @@
+import { useNavigate } from 'react-router-dom';
+import {
+  useNotifications,
+  useUnreadNotificationCount,
+  useMarkNotificationsRead,
+  useMarkAllNotificationsRead,
+  type UserNotification,
+} from '@blog/shared-data-access';
+import { useAuth } from '../providers/AuthProvider';
+
+/**
+ * Notification props for NavigationBar: the unread badge count and the
+ * bell dropdown (only fetched while signed in).
+ */
+export function useNavigationNotifications() {
+  const navigate = useNavigate();
+  const { isAuthenticated } = useAuth();
+
+  const unreadCount = useUnreadNotificationCount(isAuthenticated);
+  const list = useNotifications(isAuthenticated);
+  const markRead = useMarkNotificationsRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  const handleItemClick = (notification: UserNotification) => {
+    if (notification.readAt === null) {
+      markRead.mutate([notification.id]);
+    }
+
+    if (notification.type === 'follow' && notification.actor) {
+      navigate(`/users/${notification.actor.username}`);
+    } else if (notification.postSlug || notification.postId) {
+      navigate(`/posts/${notification.postSlug ?? notification.postId}`);
+    }
+  };
+
+  return {
+    notificationCount: unreadCount.data ?? 0,
+    notifications: list.data?.pages.flatMap((page) => page.notifications) ?? [],
+    notificationsLoading: list.isLoading || list.isFetchingNextPage,
+    hasMoreNotifications: list.hasNextPage,
+    onLoadMoreNotifications: () => list.fetchNextPage(),
+    onNotificationItemClick: handleItemClick,
+    onMarkAllNotificationsRead: () => markAllRead.mutate(),
+  };
+}
@@ -1,23 +1,52 @@
-import { Container, Typography, Box, Tabs, Tab, Stack } from '@mui/material';
+import {
+  Container,
+  Typography,
+  Box,
+  Tabs,
+  Tab,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
 import { NavigationBar, PostCard, PostCardSkeleton } from '@blog/shared-ui-kit';
-import { useInfinitePosts } from '@blog/shared-data-access';
+import {
+  useInfinitePosts,
+  useTrendingPosts,
+  type TrendingPeriod,
+} from '@blog/shared-data-access';
 import { useAuth } from '../providers/AuthProvider';
+import { useNavigationNotifications } from '../hooks/useNavigationNotifications';
 import { useNavigate } from 'react-router-dom';
 import { useState } from 'react';
 
+const TRENDING_TAB = 2;
+
+const TRENDING_PERIODS: { value: TrendingPeriod; label: string }[] = [
+  { value: 'day', label: 'Today' },
+  { value: 'week', label: 'This week' },
+  { value: 'month', label: 'This month' },
+];
+
 export default function HomePage() {
   const navigate = useNavigate();
+  const notificationProps = useNavigationNotifications();
   const { user, isAuthenticated, logout } = useAuth();
   const [activeTab, setActiveTab] = useState(0);
+  const [trendingPeriod, setTrendingPeriod] = useState<TrendingPeriod>('week');
+  const isTrending = activeTab === TRENDING_TAB;
+
+  const latest = useInfinitePosts({
+    limit: 10,
+  });
+  const trending = useTrendingPosts(trendingPeriod, 10, isTrending);
 
-  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
-    useInfinitePosts({
-      limit: 10,
-    });
+  const { isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    isTrending ? trending : latest;
 
   // Backend returns cursor-based pagination - check both 'posts' and 'data' fields
-  const posts =
-    data?.pages.flatMap((page) => page.posts ?? page.data ?? []) || [];
+  const posts = isTrending
+    ? trending.data?.pages.flatMap((page) => page.posts) || []
+    : latest.data?.pages.flatMap((page) => page.posts ?? page.data ?? []) || [];
 
   console.log('Rendered HomePage with posts:', posts);
 
@@ -30,7 +59,7 @@ export default function HomePage() {
     <>
       <NavigationBar
         user={user || undefined}
-        notificationCount={0}
+        {...notificationProps}
         onProfileClick={() => user && navigate(`/users/${user.username}`)}
         onLoginClick={() => navigate('/auth/login')}
         onCreatePostClick={() => navigate('/posts/new')}
@@ -60,6 +89,26 @@ export default function HomePage() {
           </Tabs>
         </Box>
 
+        {isTrending && (
+          <Box mb={3}>
+            <ToggleButtonGroup
+              value={trendingPeriod}
+              exclusive
+              size="small"
+              onChange={(_, value: TrendingPeriod | null) =>
+                value && setTrendingPeriod(value)
+              }
+              aria-label="Trending period"
+            >
+              {TRENDING_PERIODS.map((period) => (
+                <ToggleButton key={period.value} value={period.value}>
+                  {period.label}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+          </Box>
+        )}
+
         {/* Posts Feed */}
         {isLoading ? (
           <Stack spacing={3}>
@@ -117,10 +166,12 @@ export default function HomePage() {
         ) : (
           <Box textAlign="center" py={8}>
             <Typography variant="h6" color="text.secondary">
-              No posts yet
+              {isTrending ? 'Nothing trending yet' : 'No posts yet'}
             </Typography>
             <Typography variant="body2" color="text.secondary" mt={1}>
-              Be the first to create a post!
+              {isTrending
+                ? 'Check back once posts get some likes, comments and views.'
+                : 'Be the first to create a post!'}
             </Typography>
           </Box>
         )}
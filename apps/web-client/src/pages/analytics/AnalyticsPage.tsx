@@ -0,0 +1,479 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Container,
+  Box,
+  Typography,
+  Paper,
+  Stack,
+  Button,
+  CircularProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  LinearProgress,
+  useTheme,
+} from '@mui/material';
+import { Download } from '@mui/icons-material';
+import { NavigationBar } from '@blog/shared-ui-kit';
+import {
+  useMyAnalytics,
+  type AuthorAnalytics,
+  type AnalyticsDailyPoint,
+  type CompletionBucket,
+} from '@blog/shared-data-access';
+import { formatCompactNumber, formatDate } from '@blog/shared-utils';
+import { useAuth } from '../../providers/AuthProvider';
+import { useNavigationNotifications } from '../../hooks/useNavigationNotifications';
+
+const RANGE_OPTIONS = [7, 30, 90, 365];
+
+type DailyMetric = 'views' | 'uniqueViewers' | 'likes' | 'newFollowers';
+
+const DAILY_METRICS: { key: DailyMetric; label: string }[] = [
+  { key: 'views', label: 'Views' },
+  { key: 'uniqueViewers', label: 'Unique viewers' },
+  { key: 'likes', label: 'Likes' },
+  { key: 'newFollowers', label: 'New followers' },
+];
+
+// CSV field: quote when it contains a separator, quote or line break
+function csvField(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: (string | number | null)[][]): string {
+  return rows.map((row) => row.map(csvField).join(',')).join('\r\n');
+}
+
+function downloadCsv(analytics: AuthorAnalytics) {
+  const { range, daily, posts, referrers } = analytics;
+  const sections = [
+    toCsv([
+      ['date', 'views', 'unique_viewers', 'likes', 'new_followers'],
+      ...daily.map((point) => [
+        point.date,
+        point.views,
+        point.uniqueViewers,
+        point.likes,
+        point.newFollowers,
+      ]),
+    ]),
+    toCsv([
+      [
+        'post_id',
+        'title',
+        'status',
+        'views',
+        'unique_viewers',
+        'likes',
+        'comments',
+        'bookmarks',
+        'total_views',
+      ],
+      ...posts.map((post) => [
+        post.postId,
+        post.title,
+        post.status,
+        post.views,
+        post.uniqueViewers,
+        post.likes,
+        post.comments,
+        post.bookmarks,
+        post.totalViews,
+      ]),
+    ]),
+    toCsv([
+      ['referrer', 'views'],
+      ...referrers.map((item) => [item.referrer ?? 'direct', item.views]),
+    ]),
+  ];
+
+  const blob = new Blob([sections.join('\r\n\r\n')], {
+    type: 'text/csv;charset=utf-8',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `analytics-${range.from}-${range.to}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function StatCard({ label, value }: { label: string; value: string }) {
+  return (
+    <Paper
+      elevation={0}
+      sx={{ p: 2, flex: 1, border: '1px solid', borderColor: 'divider' }}
+    >
+      <Typography variant="body2" color="text.secondary">
+        {label}
+      </Typography>
+      <Typography variant="h5" fontWeight={700}>
+        {value}
+      </Typography>
+    </Paper>
+  );
+}
+
+// Line chart of one daily metric (plain SVG, scales to container width)
+function DailyChart({
+  points,
+  metric,
+}: {
+  points: AnalyticsDailyPoint[];
+  metric: DailyMetric;
+}) {
+  const theme = useTheme();
+  const width = 800;
+  const height = 220;
+  const padding = { top: 16, right: 16, bottom: 24, left: 40 };
+  const values = points.map((point) => point[metric]);
+  const max = Math.max(1, ...values);
+  const innerWidth = width - padding.left - padding.right;
+  const innerHeight = height - padding.top - padding.bottom;
+  const x = (index: number) =>
+    padding.left +
+    (points.length > 1 ? (index / (points.length - 1)) * innerWidth : 0);
+  const y = (value: number) =>
+    padding.top + innerHeight - (value / max) * innerHeight;
+  const line = values
+    .map((value, index) => `${x(index)},${y(value)}`)
+    .join(' ');
+  const labelEvery = Math.max(1, Math.ceil(points.length / 8));
+
+  return (
+    <Box
+      component="svg"
+      viewBox={`0 0 ${width} ${height}`}
+      sx={{ width: '100%', height: 'auto', display: 'block' }}
+    >
+      {[0, 0.5, 1].map((fraction) => (
+        <g key={fraction}>
+          <line
+            x1={padding.left}
+            x2={width - padding.right}
+            y1={y(max * fraction)}
+            y2={y(max * fraction)}
+            stroke={theme.palette.divider}
+          />
+          <text
+            x={padding.left - 6}
+            y={y(max * fraction) + 4}
+            textAnchor="end"
+            fontSize={11}
+            fill={theme.palette.text.secondary}
+          >
+            {formatCompactNumber(Math.round(max * fraction))}
+          </text>
+        </g>
+      ))}
+      <polyline
+        points={line}
+        fill="none"
+        stroke={theme.palette.primary.main}
+        strokeWidth={2}
+      />
+      {points.map((point, index) => (
+        <g key={point.date}>
+          <circle
+            cx={x(index)}
+            cy={y(point[metric])}
+            r={points.length > 60 ? 0 : 3}
+            fill={theme.palette.primary.main}
+          >
+            <title>{`${point.date}: ${point[metric]}`}</title>
+          </circle>
+          {index % labelEvery === 0 && (
+            <text
+              x={x(index)}
+              y={height - 6}
+              textAnchor="middle"
+              fontSize={11}
+              fill={theme.palette.text.secondary}
+            >
+              {point.date.slice(5)}
+            </text>
+          )}
+        </g>
+      ))}
+    </Box>
+  );
+}
+
+// Histogram of video views by completion rate
+function CompletionHistogram({ buckets }: { buckets: CompletionBucket[] }) {
+  const max = Math.max(1, ...buckets.map((bucket) => bucket.views));
+
+  return (
+    <Box>
+      <Stack direction="row" alignItems="flex-end" spacing={1} height={140}>
+        {buckets.map((bucket) => (
+          <Box
+            key={bucket.from}
+            title={`${bucket.from}–${bucket.to}%: ${bucket.views} views`}
+            sx={{
+              flex: 1,
+              height: `${(bucket.views / max) * 100}%`,
+              minHeight: 2,
+              bgcolor: 'primary.main',
+              borderRadius: '4px 4px 0 0',
+            }}
+          />
+        ))}
+      </Stack>
+      <Stack direction="row" spacing={1} mt={0.5}>
+        {buckets.map((bucket) => (
+          <Typography
+            key={bucket.from}
+            variant="caption"
+            color="text.secondary"
+            sx={{ flex: 1, textAlign: 'center' }}
+          >
+            {bucket.from}%
+          </Typography>
+        ))}
+      </Stack>
+    </Box>
+  );
+}
+
+export default function AnalyticsPage() {
+  const navigate = useNavigate();
+  const notificationProps = useNavigationNotifications();
+  const { user, logout } = useAuth();
+  const [days, setDays] = useState(30);
+  const [metric, setMetric] = useState<DailyMetric>('views');
+  const { data: analytics, isLoading, isError } = useMyAnalytics(days);
+
+  const handleLogout = async () => {
+    await logout();
+    navigate('/');
+  };
+
+  if (!user) {
+    navigate('/auth/login');
+    return null;
+  }
+
+  const maxReferrerViews = Math.max(
+    1,
+    ...(analytics?.referrers.map((item) => item.views) ?? [])
+  );
+
+  return (
+    <>
+      <NavigationBar
+        user={user}
+        {...notificationProps}
+        onProfileClick={() => navigate(`/users/${user.username}`)}
+        onLoginClick={() => navigate('/auth/login')}
+        onCreatePostClick={() => navigate('/posts/new')}
+        onLogoutClick={handleLogout}
+      />
+      <Container maxWidth="lg" sx={{ py: 4 }}>
+        <Stack
+          direction={{ xs: 'column', sm: 'row' }}
+          justifyContent="space-between"
+          alignItems={{ xs: 'flex-start', sm: 'center' }}
+          spacing={2}
+          mb={3}
+        >
+          <Typography variant="h4" fontWeight={700}>
+            Analytics
+          </Typography>
+          <Stack direction="row" spacing={2} alignItems="center">
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={days}
+              onChange={(_event, value: number | null) => {
+                if (value !== null) setDays(value);
+              }}
+            >
+              {RANGE_OPTIONS.map((option) => (
+                <ToggleButton key={option} value={option}>
+                  {option}d
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+            <Button
+              variant="outlined"
+              startIcon={<Download />}
+              disabled={!analytics}
+              onClick={() => analytics && downloadCsv(analytics)}
+            >
+              Export CSV
+            </Button>
+          </Stack>
+        </Stack>
+
+        {isLoading ? (
+          <Box display="flex" justifyContent="center" py={8}>
+            <CircularProgress />
+          </Box>
+        ) : isError || !analytics ? (
+          <Paper sx={{ p: 8, textAlign: 'center' }}>
+            <Typography color="text.secondary">
+              Analytics are not available right now
+            </Typography>
+          </Paper>
+        ) : (
+          <Stack spacing={3}>
+            {/* Summary */}
+            <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+              <StatCard
+                label="Views"
+                value={formatCompactNumber(analytics.totals.views)}
+              />
+              <StatCard
+                label="Unique viewers"
+                value={formatCompactNumber(analytics.totals.uniqueViewers)}
+              />
+              <StatCard
+                label="Likes"
+                value={formatCompactNumber(analytics.totals.likes)}
+              />
+              <StatCard
+                label="New followers"
+                value={formatCompactNumber(analytics.totals.newFollowers)}
+              />
+              <StatCard
+                label="Avg. video completion"
+                value={
+                  analytics.totals.avgCompletionRate === null
+                    ? '–'
+                    : `${Math.round(analytics.totals.avgCompletionRate)}%`
+                }
+              />
+            </Stack>
+
+            {/* Daily series */}
+            <Paper sx={{ p: 3 }}>
+              <Stack
+                direction="row"
+                justifyContent="space-between"
+                alignItems="center"
+                mb={2}
+              >
+                <Typography variant="h6">Daily activity</Typography>
+                <ToggleButtonGroup
+                  size="small"
+                  exclusive
+                  value={metric}
+                  onChange={(_event, value: DailyMetric | null) => {
+                    if (value !== null) setMetric(value);
+                  }}
+                >
+                  {DAILY_METRICS.map((option) => (
+                    <ToggleButton key={option.key} value={option.key}>
+                      {option.label}
+                    </ToggleButton>
+                  ))}
+                </ToggleButtonGroup>
+              </Stack>
+              <DailyChart points={analytics.daily} metric={metric} />
+            </Paper>
+
+            <Stack direction={{ xs: 'column', md: 'row' }} spacing={3}>
+              {/* Video completion */}
+              <Paper sx={{ p: 3, flex: 1 }}>
+                <Typography variant="h6" gutterBottom>
+                  Video completion
+                </Typography>
+                <Typography variant="body2" color="text.secondary" mb={2}>
+                  {analytics.totals.videoViews} video views by how much was
+                  watched
+                </Typography>
+                <CompletionHistogram buckets={analytics.videoCompletion} />
+              </Paper>
+
+              {/* Referrers */}
+              <Paper sx={{ p: 3, flex: 1 }}>
+                <Typography variant="h6" gutterBottom>
+                  Top referrers
+                </Typography>
+                {analytics.referrers.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    No views in this period
+                  </Typography>
+                ) : (
+                  <Stack spacing={1.5}>
+                    {analytics.referrers.map((item) => (
+                      <Box key={item.referrer ?? 'direct'}>
+                        <Stack direction="row" justifyContent="space-between">
+                          <Typography variant="body2">
+                            {item.referrer ?? 'Direct'}
+                          </Typography>
+                          <Typography variant="body2" color="text.secondary">
+                            {item.views}
+                          </Typography>
+                        </Stack>
+                        <LinearProgress
+                          variant="determinate"
+                          value={(item.views / maxReferrerViews) * 100}
+                        />
+                      </Box>
+                    ))}
+                  </Stack>
+                )}
+              </Paper>
+            </Stack>
+
+            {/* Per-post breakdown */}
+            <Paper sx={{ p: 3, overflowX: 'auto' }}>
+              <Typography variant="h6" gutterBottom>
+                Posts
+              </Typography>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Post</TableCell>
+                    <TableCell align="right">Views</TableCell>
+                    <TableCell align="right">Unique</TableCell>
+                    <TableCell align="right">Likes</TableCell>
+                    <TableCell align="right">Comments</TableCell>
+                    <TableCell align="right">Bookmarks</TableCell>
+                    <TableCell align="right">All-time views</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {analytics.posts.map((post) => (
+                    <TableRow
+                      key={post.postId}
+                      hover
+                      sx={{ cursor: 'pointer' }}
+                      onClick={() => navigate(`/posts/${post.slug}`)}
+                    >
+                      <TableCell>
+                        <Typography variant="body2" fontWeight={600}>
+                          {post.title}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {post.publishedAt
+                            ? formatDate(post.publishedAt)
+                            : post.status}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right">{post.views}</TableCell>
+                      <TableCell align="right">{post.uniqueViewers}</TableCell>
+                      <TableCell align="right">{post.likes}</TableCell>
+                      <TableCell align="right">{post.comments}</TableCell>
+                      <TableCell align="right">{post.bookmarks}</TableCell>
+                      <TableCell align="right">{post.totalViews}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Paper>
+          </Stack>
+        )}
+      </Container>
+    </>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -26,14 +26,19 @@ import {
   RichTextEditor,
   VideoUpload,
   VideoUploadSuccess,
+  type MultipartUploadHandlers,
 } from '@blog/shared-ui-kit';
 import { useAuth } from '../../providers/AuthProvider';
+import { useNavigationNotifications } from '../../hooks/useNavigationNotifications';
 import {
   useCreatePost,
   useCategories,
   useTags,
   useVideoUpload,
   useDeleteVideo,
+  useVideoStatus,
+  useVideoThumbnailCandidates,
+  useSelectVideoThumbnail,
   type Category,
   type Tag,
 } from '@blog/shared-data-access';
@@ -57,6 +62,7 @@ type CreatePostFormData = z.infer<typeof createPostSchema>;
 
 export default function CreatePostPage() {
   const navigate = useNavigate();
+  const notificationProps = useNavigationNotifications();
   const { user, logout } = useAuth();
   const createPostMutation = useCreatePost();
   const deleteVideoMutation = useDeleteVideo();
@@ -76,29 +82,47 @@ export default function CreatePostPage() {
     filename: string;
     fileSize: number;
   } | null>(null);
-  const { generateUploadUrl, confirmUpload, isGeneratingUrl, isConfirming } =
-    useVideoUpload();
-
-  // Video upload handlers
-  const handleVideoUploadStart = useCallback(
-    async (file: File) => {
-      // Store file metadata for display later
-      setUploadedVideoMeta({
-        filename: file.name,
-        fileSize: file.size,
-      });
+  const {
+    confirmUpload,
+    initiateMultipartUpload,
+    getMultipartUploadStatus,
+    getUploadPartUrls,
+    completeMultipartUpload,
+    abortMultipartUpload,
+    isConfirming,
+  } = useVideoUpload();
 
-      const result = await generateUploadUrl({
-        filename: file.name,
-        mimeType: file.type,
-        fileSize: file.size,
-      });
-      return {
-        uploadUrl: result.uploadUrl,
-        videoId: result.videoId,
-      };
-    },
-    [generateUploadUrl]
+  // Video upload handlers: resumable multipart upload straight to storage
+  const handleVideoFileSelect = useCallback((file: File) => {
+    // Store file metadata for display later
+    setUploadedVideoMeta({
+      filename: file.name,
+      fileSize: file.size,
+    });
+  }, []);
+
+  const multipartUploadHandlers = useMemo<MultipartUploadHandlers>(
+    () => ({
+      initiate: (file) =>
+        initiateMultipartUpload({
+          filename: file.name,
+          mimeType: file.type,
+          fileSize: file.size,
+        }),
+      getUploadedParts: async (videoId) =>
+        (await getMultipartUploadStatus(videoId)).uploadedParts,
+      getPartUrls: async (videoId, partNumbers) =>
+        (await getUploadPartUrls({ videoId, partNumbers })).parts,
+      complete: completeMultipartUpload,
+      abort: abortMultipartUpload,
+    }),
+    [
+      initiateMultipartUpload,
+      getMultipartUploadStatus,
+      getUploadPartUrls,
+      completeMultipartUpload,
+      abortMultipartUpload,
+    ]
   );
 
   const handleVideoConfirmUpload = useCallback(
@@ -136,6 +160,8 @@ export default function CreatePostPage() {
   const {
     control,
     handleSubmit,
+    getValues,
+    setValue,
     formState: { errors },
   } = useForm<CreatePostFormData>({
     resolver: zodResolver(createPostSchema),
@@ -149,6 +175,37 @@ export default function CreatePostPage() {
     },
   });
 
+  // Poster candidates are taken while the video is processed
+  const { data: videoStatus } = useVideoStatus(uploadedVideoId);
+  const { data: thumbnailCandidates } = useVideoThumbnailCandidates(
+    uploadedVideoId ?? undefined,
+    {
+      enabled:
+        videoStatus?.status === 'ready' ||
+        videoStatus?.status === 'partial_ready',
+    }
+  );
+  const selectThumbnailMutation = useSelectVideoThumbnail();
+
+  const handleSelectThumbnail = useCallback(
+    (selection: { candidateId?: string; file?: File }) => {
+      if (!uploadedVideoId) return;
+      selectThumbnailMutation.mutate(
+        { videoId: uploadedVideoId, ...selection },
+        {
+          // The post does not exist yet: the poster becomes its featured
+          // image unless one was entered
+          onSuccess: ({ thumbnailUrl }) => {
+            if (!getValues('featuredImageUrl')) {
+              setValue('featuredImageUrl', thumbnailUrl);
+            }
+          },
+        }
+      );
+    },
+    [uploadedVideoId, selectThumbnailMutation, getValues, setValue]
+  );
+
   const onSubmit = async (data: CreatePostFormData) => {
     try {
       await createPostMutation.mutateAsync({
@@ -178,7 +235,7 @@ export default function CreatePostPage() {
       <>
         <NavigationBar
           user={undefined}
-          notificationCount={0}
+          {...notificationProps}
           onLoginClick={() => navigate('/auth/login')}
         />
         <Container maxWidth="md" sx={{ py: 8 }}>
@@ -192,7 +249,7 @@ export default function CreatePostPage() {
     <>
       <NavigationBar
         user={user}
-        notificationCount={0}
+        {...notificationProps}
         onProfileClick={() => navigate(`/users/${user.username}`)}
         onLoginClick={() => navigate('/auth/login')}
         onCreatePostClick={() => navigate('/posts/new')}
@@ -321,11 +378,12 @@ export default function CreatePostPage() {
 
               {!uploadedVideoId && (
                 <VideoUpload
-                  onUploadStart={handleVideoUploadStart}
+                  multipart={multipartUploadHandlers}
+                  onFileSelect={handleVideoFileSelect}
                   onUploadComplete={handleVideoUploadComplete}
                   onUploadError={handleVideoUploadError}
                   onConfirmUpload={handleVideoConfirmUpload}
-                  disabled={isGeneratingUrl || isConfirming}
+                  disabled={isConfirming}
                   config={{
                     maxFileSize: 2 * 1024 * 1024 * 1024, // 2GB
                     maxDuration: 30 * 60, // 30 minutes
@@ -340,6 +398,14 @@ export default function CreatePostPage() {
                   fileSize={uploadedVideoMeta?.fileSize}
                   onRemove={handleRemoveVideo}
                   showDetails
+                  thumbnailCandidates={thumbnailCandidates?.candidates}
+                  selectedThumbnailUrl={thumbnailCandidates?.thumbnailUrl}
+                  onSelectThumbnail={(candidateId) =>
+                    handleSelectThumbnail({ candidateId })
+                  }
+                  onUploadThumbnail={(file) => handleSelectThumbnail({ file })}
+                  isThumbnailSaving={selectThumbnailMutation.isPending}
+                  loudness={videoStatus?.loudness}
                 />
               )}
               <Divider sx={{ my: 3 }} />
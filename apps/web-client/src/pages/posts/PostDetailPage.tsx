@@ -18,6 +18,10 @@ import {
   Menu,
   MenuItem,
   Collapse,
+  Card,
+  CardActionArea,
+  CardContent,
+  CardMedia,
 } from '@mui/material';
 import {
   FavoriteBorder,
@@ -32,10 +36,13 @@ import {
   CommentCard,
   VideoPlayer,
   BookmarkButton,
+  type VideoPlayerHandle,
 } from '@blog/shared-ui-kit';
 import { useAuth } from '../../providers/AuthProvider';
+import { useNavigationNotifications } from '../../hooks/useNavigationNotifications';
 import {
   usePost,
+  useRelatedPosts,
   usePostComments,
   useCommentReplies,
   useCreateComment,
@@ -44,10 +51,16 @@ import {
   useUnlikePost,
   useLikeComment,
   useUnlikeComment,
+  useRecordPostView,
+  useVideoViewTracker,
+  useVideoPlayback,
+  getVideoPlaybackUrl,
   Comment,
   CursorPaginatedResponse,
 } from '@blog/shared-data-access';
 import { formatDate } from '@blog/shared-utils';
+import VideoCaptionsDialog from './VideoCaptionsDialog';
+import VideoChaptersDialog from './VideoChaptersDialog';
 
 const commentSchema = z.object({
   content: z
@@ -71,6 +84,8 @@ interface CommentWithRepliesProps {
     isLiked: boolean,
     parentId?: string
   ) => void;
+  /** Seeks the post's video (timestamps in comments become links) */
+  onTimestampClick?: (seconds: number) => void;
 }
 
 function CommentWithReplies({
@@ -81,6 +96,7 @@ function CommentWithReplies({
   replyingTo,
   onCancelReply,
   onLikeComment,
+  onTimestampClick,
 }: CommentWithRepliesProps) {
   const viewerKey = currentUserId ?? 'guest';
   const [showReplies, setShowReplies] = useState(false);
@@ -155,6 +171,7 @@ function CommentWithReplies({
         isLiked={comment.isLiked}
         onLike={() => onLikeComment(comment.id, comment.isLiked ?? false)}
         onReply={() => onReplyClick(comment.id)}
+        onTimestampClick={onTimestampClick}
       />
 
       {/* Reply Form */}
@@ -240,6 +257,7 @@ function CommentWithReplies({
                   onLike={() =>
                     onLikeComment(reply.id, reply.isLiked ?? false, comment.id)
                   }
+                  onTimestampClick={onTimestampClick}
                 />
                 {currentUserId === reply.author.id && (
                   <Button
@@ -272,11 +290,91 @@ function CommentWithReplies({
   );
 }
 
+// "Related" rail shown under the article so readers can keep going
+function RelatedPostsRail({ postId }: { postId: string }) {
+  const navigate = useNavigate();
+  const { data, isLoading } = useRelatedPosts(postId, 6);
+  const relatedPosts = data?.posts ?? [];
+
+  if (isLoading || relatedPosts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box mb={3}>
+      <Typography variant="h6" fontWeight={700} gutterBottom>
+        Related
+      </Typography>
+      <Box
+        sx={{
+          display: 'grid',
+          gridAutoFlow: 'column',
+          gridAutoColumns: { xs: '75%', sm: 'calc((100% - 32px) / 3)' },
+          gap: 2,
+          overflowX: 'auto',
+          pb: 1,
+          scrollSnapType: 'x mandatory',
+        }}
+      >
+        {relatedPosts.map((related) => {
+          const image =
+            related.featuredImageUrl ?? related.video?.thumbnailUrl ?? null;
+
+          return (
+            <Card
+              key={related.id}
+              variant="outlined"
+              sx={{ borderRadius: 2, scrollSnapAlign: 'start' }}
+            >
+              <CardActionArea
+                onClick={() => navigate(`/posts/${related.slug}`)}
+                sx={{ height: '100%' }}
+              >
+                {image && (
+                  <CardMedia
+                    component="img"
+                    height="120"
+                    image={image}
+                    alt={related.title}
+                  />
+                )}
+                <CardContent>
+                  <Typography
+                    variant="subtitle2"
+                    fontWeight={600}
+                    sx={{
+                      display: '-webkit-box',
+                      WebkitLineClamp: 2,
+                      WebkitBoxOrient: 'vertical',
+                      overflow: 'hidden',
+                    }}
+                  >
+                    {related.title}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {related.author.fullName || related.author.username} ·{' '}
+                    {formatDate(related.publishedAt ?? related.createdAt)}
+                  </Typography>
+                </CardContent>
+              </CardActionArea>
+            </Card>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+}
+
 export default function PostDetailPage() {
   const params = useParams();
   const navigate = useNavigate();
+  const notificationProps = useNavigationNotifications();
   const { user, logout, isLoading: authLoading } = useAuth();
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const [captionsOpen, setCaptionsOpen] = useState(false);
+  const [chaptersOpen, setChaptersOpen] = useState(false);
+  const playerRef = useRef<VideoPlayerHandle>(null);
+  const playerBoxRef = useRef<HTMLDivElement>(null);
   const [replyingTo, setReplyingTo] = useState<string | null>(null);
   const postId = params.id as string;
 
@@ -302,6 +400,22 @@ export default function PostDetailPage() {
   const likeCommentMutation = useLikeComment();
   const unlikeCommentMutation = useUnlikeComment();
 
+  const { mutate: recordPostView } = useRecordPostView();
+  const videoViewTracker = useVideoViewTracker(post?.video?.id);
+  // Encoded videos are private: they play with a token that is refreshed
+  // while the page is open
+  const { data: playback } = useVideoPlayback(post?.video?.id, {
+    enabled: !!post?.video?.hlsUrl,
+  });
+
+  // Record one view per loaded post (the API dedupes per session and day)
+  const viewedPostIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!post?.id || viewedPostIdRef.current === post.id) return;
+    viewedPostIdRef.current = post.id;
+    recordPostView(post.id);
+  }, [post?.id, recordPostView]);
+
   // Track previous user id to detect login/logout transitions
   const prevUserIdRef = useRef<string | undefined>(undefined);
 
@@ -407,6 +521,14 @@ export default function PostDetailPage() {
     setReplyingTo(replyingTo === commentId ? null : commentId);
   };
 
+  const handleTimestampClick = (seconds: number) => {
+    playerRef.current?.seek(seconds);
+    playerBoxRef.current?.scrollIntoView({
+      behavior: 'smooth',
+      block: 'center',
+    });
+  };
+
   const handleLogout = async () => {
     await logout();
     navigate('/');
@@ -418,7 +540,7 @@ export default function PostDetailPage() {
       <>
         <NavigationBar
           user={user || undefined}
-          notificationCount={0}
+          {...notificationProps}
           onProfileClick={() => user && navigate(`/users/${user.username}`)}
           onLoginClick={() => navigate('/auth/login')}
           onCreatePostClick={() => navigate('/posts/new')}
@@ -438,7 +560,7 @@ export default function PostDetailPage() {
       <>
         <NavigationBar
           user={user || undefined}
-          notificationCount={0}
+          {...notificationProps}
           onProfileClick={() => user && navigate(`/users/${user.username}`)}
           onLoginClick={() => navigate('/auth/login')}
           onCreatePostClick={() => navigate('/posts/new')}
@@ -457,7 +579,7 @@ export default function PostDetailPage() {
     <>
       <NavigationBar
         user={user || undefined}
-        notificationCount={0}
+        {...notificationProps}
         onProfileClick={() => user && navigate(`/users/${user.username}`)}
         onLoginClick={() => navigate('/auth/login')}
         onCreatePostClick={() => navigate('/posts/new')}
@@ -503,6 +625,26 @@ export default function PostDetailPage() {
                   <MenuItem onClick={() => navigate(`/posts/${postId}/edit`)}>
                     Edit
                   </MenuItem>
+                  {post.video && (
+                    <MenuItem
+                      onClick={() => {
+                        setAnchorEl(null);
+                        setCaptionsOpen(true);
+                      }}
+                    >
+                      Captions
+                    </MenuItem>
+                  )}
+                  {post.video && (
+                    <MenuItem
+                      onClick={() => {
+                        setAnchorEl(null);
+                        setChaptersOpen(true);
+                      }}
+                    >
+                      Chapters
+                    </MenuItem>
+                  )}
                   <MenuItem onClick={() => setAnchorEl(null)}>Delete</MenuItem>
                 </>
               )}
@@ -523,14 +665,31 @@ export default function PostDetailPage() {
           </Box>
 
           {/* Video Player (if post has video) */}
-          {post.video && post.video.hlsUrl && (
-            <Box mb={3}>
+          {post.video && post.video.hlsUrl && playback && (
+            <Box mb={3} ref={playerBoxRef}>
               <VideoPlayer
-                src={post.video.hlsUrl}
+                ref={playerRef}
+                src={getVideoPlaybackUrl(post.video.id)}
+                dashSrc={
+                  post.video.dashManifestUrl
+                    ? getVideoPlaybackUrl(post.video.id, 'manifest.mpd')
+                    : null
+                }
+                playbackToken={playback.token}
                 poster={
                   post.video.thumbnailUrl ?? post.featuredImageUrl ?? undefined
                 }
                 title={post.title}
+                chapters={post.video.chapters}
+                thumbnails={
+                  post.video.thumbnailsVttUrl
+                    ? getVideoPlaybackUrl(post.video.id, 'thumbnails.vtt')
+                    : null
+                }
+                onTimeUpdate={videoViewTracker.onTimeUpdate}
+                onPause={videoViewTracker.onPause}
+                onEnded={videoViewTracker.onEnded}
+                onQualityChange={videoViewTracker.onQualityChange}
                 onError={(error: Error) => console.error('Video error:', error)}
               />
               {post.video.duration && (
@@ -542,6 +701,23 @@ export default function PostDetailPage() {
             </Box>
           )}
 
+          {post.video && user?.id === post.author?.id && (
+            <VideoCaptionsDialog
+              videoId={post.video.id}
+              open={captionsOpen}
+              onClose={() => setCaptionsOpen(false)}
+            />
+          )}
+
+          {post.video && chaptersOpen && user?.id === post.author?.id && (
+            <VideoChaptersDialog
+              videoId={post.video.id}
+              chapters={post.video.chapters ?? []}
+              open={chaptersOpen}
+              onClose={() => setChaptersOpen(false)}
+            />
+          )}
+
           {/* Featured Image (only if no video) */}
           {!post.video?.hlsUrl && post.featuredImageUrl && (
             <Box
@@ -655,6 +831,9 @@ export default function PostDetailPage() {
           </Stack>
         </Paper>
 
+        {/* Related Posts */}
+        <RelatedPostsRail postId={postId} />
+
         {/* Comments Section */}
         <Paper
           elevation={0}
@@ -735,6 +914,9 @@ export default function PostDetailPage() {
                   replyingTo={replyingTo}
                   onCancelReply={() => setReplyingTo(null)}
                   onLikeComment={handleLikeComment}
+                  onTimestampClick={
+                    post.video?.hlsUrl ? handleTimestampClick : undefined
+                  }
                 />
               ))
             ) : (
@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Checkbox,
+  FormControlLabel,
+  Chip,
+  Stack,
+  Alert,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material';
+import { Delete as DeleteIcon } from '@mui/icons-material';
+import {
+  useVideoCaptions,
+  useUploadCaption,
+  useDeleteCaption,
+  type CaptionFormat,
+} from '@blog/shared-data-access';
+
+interface VideoCaptionsDialogProps {
+  videoId: string;
+  open: boolean;
+  onClose: () => void;
+}
+
+const getCaptionFormat = (fileName: string): CaptionFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return extension === 'vtt' || extension === 'srt' ? extension : null;
+};
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (error as { error?: { message?: string } })?.error?.message || fallback;
+
+export default function VideoCaptionsDialog({
+  videoId,
+  open,
+  onClose,
+}: VideoCaptionsDialogProps) {
+  const { data: captions, isLoading } = useVideoCaptions(
+    open ? videoId : undefined
+  );
+  const uploadMutation = useUploadCaption();
+  const deleteMutation = useDeleteCaption();
+  const [language, setLanguage] = useState('');
+  const [label, setLabel] = useState('');
+  const [isDefault, setIsDefault] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+
+  const format = file ? getCaptionFormat(file.name) : null;
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file || !format) return;
+
+    uploadMutation.mutate(
+      {
+        videoId,
+        language: language.trim(),
+        label: label.trim() || undefined,
+        isDefault: isDefault || undefined,
+        format,
+        content: await file.text(),
+      },
+      {
+        onSuccess: () => {
+          setLanguage('');
+          setLabel('');
+          setIsDefault(false);
+          setFile(null);
+          setFileInputKey((key) => key + 1);
+        },
+      }
+    );
+  };
+
+  const handleDelete = (captionLanguage: string) => {
+    if (window.confirm(`Delete the ${captionLanguage} captions?`)) {
+      deleteMutation.mutate({ videoId, language: captionLanguage });
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Captions</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" mb={2}>
+          Upload a WebVTT (.vtt) or SubRip (.srt) file per language. Viewers
+          pick a language from the CC menu of the player.
+        </Typography>
+
+        {isLoading ? (
+          <Box display="flex" justifyContent="center" py={2}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : captions && captions.length > 0 ? (
+          <List dense sx={{ mb: 2 }}>
+            {captions.map((caption) => (
+              <ListItem
+                key={caption.id}
+                disableGutters
+                secondaryAction={
+                  <IconButton
+                    edge="end"
+                    aria-label={`Delete ${caption.label}`}
+                    onClick={() => handleDelete(caption.language)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <DeleteIcon />
+                  </IconButton>
+                }
+              >
+                <ListItemText
+                  primary={
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <span>{caption.label}</span>
+                      {caption.isDefault && (
+                        <Chip label="Default" size="small" />
+                      )}
+                      {caption.isGenerated && (
+                        <Chip label="Auto-generated" size="small" />
+                      )}
+                    </Stack>
+                  }
+                  secondary={
+                    caption.isGenerated
+                      ? `${caption.language} · upload a track to replace it`
+                      : `${
+                          caption.language
+                        } · uploaded as ${caption.sourceFormat.toUpperCase()}`
+                  }
+                />
+              </ListItem>
+            ))}
+          </List>
+        ) : (
+          <Typography variant="body2" color="text.secondary" mb={2}>
+            No captions yet
+          </Typography>
+        )}
+
+        {deleteMutation.isError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {getErrorMessage(
+              deleteMutation.error,
+              'Failed to delete captions. Please try again.'
+            )}
+          </Alert>
+        )}
+
+        <form id="video-captions-form" onSubmit={handleUpload}>
+          <Stack spacing={2}>
+            {uploadMutation.isError && (
+              <Alert severity="error">
+                {getErrorMessage(
+                  uploadMutation.error,
+                  'Failed to upload captions. Please try again.'
+                )}
+              </Alert>
+            )}
+            <Stack direction="row" spacing={2}>
+              <TextField
+                label="Language"
+                placeholder="en"
+                helperText="Language tag, e.g. en or pt-BR"
+                value={language}
+                onChange={(e) => setLanguage(e.target.value)}
+                size="small"
+                required
+                inputProps={{ maxLength: 35 }}
+              />
+              <TextField
+                label="Label"
+                placeholder="English"
+                helperText="Shown in the CC menu"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                size="small"
+                inputProps={{ maxLength: 100 }}
+                fullWidth
+              />
+            </Stack>
+            <Box>
+              <Button variant="outlined" component="label" size="small">
+                {file ? file.name : 'Choose file'}
+                <input
+                  key={fileInputKey}
+                  type="file"
+                  accept=".vtt,.srt,text/vtt"
+                  hidden
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                />
+              </Button>
+              {file && !format && (
+                <Typography variant="caption" color="error" display="block">
+                  Choose a .vtt or .srt file
+                </Typography>
+              )}
+            </Box>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={isDefault}
+                  onChange={(e) => setIsDefault(e.target.checked)}
+                />
+              }
+              label="Default track"
+            />
+          </Stack>
+        </form>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button
+          type="submit"
+          form="video-captions-form"
+          variant="contained"
+          disabled={!language.trim() || !format || uploadMutation.isPending}
+        >
+          {uploadMutation.isPending ? 'Uploading...' : 'Upload Captions'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
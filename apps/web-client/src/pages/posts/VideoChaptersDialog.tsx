@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import {
+  Typography,
+  Button,
+  TextField,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import {
+  useSetVideoChapters,
+  type VideoChapter,
+} from '@blog/shared-data-access';
+
+interface VideoChaptersDialogProps {
+  videoId: string;
+  chapters: VideoChapter[];
+  open: boolean;
+  onClose: () => void;
+}
+
+const CHAPTER_LINE_PATTERN = /^(?:(\d{1,2}):)?(\d{1,2}):([0-5]\d)\s+(.+)$/;
+
+const formatTimestamp = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = (seconds % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+const chaptersToText = (chapters: VideoChapter[]): string =>
+  chapters
+    .map((chapter) => `${formatTimestamp(chapter.startTime)} ${chapter.title}`)
+    .join('\n');
+
+/**
+ * Chapters from "0:00 Title" lines, or the number of the first line that
+ * is not one
+ */
+const parseChapterLines = (text: string): VideoChapter[] | number => {
+  const chapters: VideoChapter[] = [];
+  const lines = text.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    const match = CHAPTER_LINE_PATTERN.exec(line);
+    if (!match) return i + 1;
+
+    const [, hours, minutes, seconds, title] = match;
+    chapters.push({
+      startTime:
+        Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds),
+      title: title.trim(),
+    });
+  }
+
+  return chapters;
+};
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (error as { error?: { message?: string } })?.error?.message || fallback;
+
+export default function VideoChaptersDialog({
+  videoId,
+  chapters,
+  open,
+  onClose,
+}: VideoChaptersDialogProps) {
+  const setChaptersMutation = useSetVideoChapters();
+  // Mounted when opened, so the form starts from the saved chapters
+  const [text, setText] = useState(() => chaptersToText(chapters));
+  const [lineError, setLineError] = useState<number | null>(null);
+
+  const handleSave = () => {
+    const parsed = parseChapterLines(text);
+    if (typeof parsed === 'number') {
+      setLineError(parsed);
+      return;
+    }
+
+    setLineError(null);
+    setChaptersMutation.mutate(
+      { videoId, chapters: parsed },
+      { onSuccess: onClose }
+    );
+  };
+
+  const handleImport = () => {
+    setLineError(null);
+    setChaptersMutation.mutate(
+      { videoId, fromPostContent: true },
+      { onSuccess: (saved) => setText(chaptersToText(saved)) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Chapters</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" mb={2}>
+          One chapter per line, starting with its time: &quot;0:00 Intro&quot;.
+          Viewers see them on the seek bar and in the chapter list of the
+          player. Leave empty to remove the chapters.
+        </Typography>
+
+        {lineError !== null && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            Line {lineError} does not start with a time like 1:30.
+          </Alert>
+        )}
+        {setChaptersMutation.isError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {getErrorMessage(
+              setChaptersMutation.error,
+              'Failed to save chapters. Please try again.'
+            )}
+          </Alert>
+        )}
+
+        <TextField
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={'0:00 Intro\n1:30 Setup\n5:45 Demo'}
+          multiline
+          minRows={6}
+          fullWidth
+          inputProps={{ 'aria-label': 'Chapters' }}
+        />
+      </DialogContent>
+      <DialogActions sx={{ justifyContent: 'space-between', px: 3 }}>
+        <Button onClick={handleImport} disabled={setChaptersMutation.isPending}>
+          Import from post content
+        </Button>
+        <div>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={setChaptersMutation.isPending}
+          >
+            {setChaptersMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -17,6 +17,7 @@ import {
 import { ArrowBack, Visibility, VisibilityOff } from '@mui/icons-material';
 import { NavigationBar } from '@blog/shared-ui-kit';
 import { useAuth } from '../../providers/AuthProvider';
+import { useNavigationNotifications } from '../../hooks/useNavigationNotifications';
 
 const passwordSchema = z
   .object({
@@ -39,6 +40,7 @@ type PasswordFormData = z.infer<typeof passwordSchema>;
 
 export default function ChangePasswordPage() {
   const navigate = useNavigate();
+  const notificationProps = useNavigationNotifications();
   const { user, logout } = useAuth();
   const [showCurrentPassword, setShowCurrentPassword] = useState(false);
   const [showNewPassword, setShowNewPassword] = useState(false);
@@ -95,7 +97,7 @@ export default function ChangePasswordPage() {
     <>
       <NavigationBar
         user={user}
-        notificationCount={0}
+        {...notificationProps}
         onProfileClick={() => navigate(`/users/${user.username}`)}
         onLoginClick={() => navigate('/auth/login')}
         onCreatePostClick={() => navigate('/posts/new')}
@@ -0,0 +1,134 @@
+import {
+  Box,
+  Typography,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  MenuItem,
+  CircularProgress,
+  Alert,
+} from '@mui/material';
+import {
+  useNotificationPreferences,
+  useUpdateNotificationPreferences,
+  type DigestFrequency,
+  type NotificationTypePreference,
+  type UserNotificationType,
+} from '@blog/shared-data-access';
+
+const TYPE_LABELS: Record<UserNotificationType, string> = {
+  comment_reply: 'Replies to my comments',
+  mention: 'Mentions',
+  follow: 'New followers',
+  post_like: 'Likes on my posts',
+  comment_like: 'Likes on my comments',
+  video_ready: 'Video ready',
+  video_failed: 'Video processing failed',
+};
+
+export default function NotificationPreferencesSection() {
+  const { data: preferences, isLoading } = useNotificationPreferences();
+  const updatePreferencesMutation = useUpdateNotificationPreferences();
+
+  const handleToggle = (
+    preference: NotificationTypePreference,
+    channel: 'inApp' | 'email',
+    checked: boolean
+  ) => {
+    updatePreferencesMutation.mutate({
+      types: [{ ...preference, [channel]: checked }],
+    });
+  };
+
+  const handleDigestChange = (digestFrequency: DigestFrequency) => {
+    updatePreferencesMutation.mutate({ digestFrequency });
+  };
+
+  return (
+    <Box>
+      <Typography variant="h6" fontWeight={600} mb={1}>
+        Notifications
+      </Typography>
+      <Typography variant="body2" color="text.secondary" mb={2}>
+        Choose where you are notified. Activity you do not get an email for
+        right away is summarized in your digest, along with new posts from
+        people you follow.
+      </Typography>
+
+      {updatePreferencesMutation.isError && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          Failed to save notification settings. Please try again.
+        </Alert>
+      )}
+
+      {isLoading || !preferences ? (
+        <Box display="flex" justifyContent="center" py={3}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : (
+        <>
+          <Table size="small" sx={{ mb: 3 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>Activity</TableCell>
+                <TableCell align="center">In-app</TableCell>
+                <TableCell align="center">Email</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {preferences.types.map((preference) => (
+                <TableRow key={preference.type}>
+                  <TableCell>{TYPE_LABELS[preference.type]}</TableCell>
+                  <TableCell align="center">
+                    <Switch
+                      checked={preference.inApp}
+                      onChange={(e) =>
+                        handleToggle(preference, 'inApp', e.target.checked)
+                      }
+                      disabled={updatePreferencesMutation.isPending}
+                      inputProps={{
+                        'aria-label': `${TYPE_LABELS[preference.type]} in-app`,
+                      }}
+                    />
+                  </TableCell>
+                  <TableCell align="center">
+                    <Switch
+                      checked={preference.email}
+                      onChange={(e) =>
+                        handleToggle(preference, 'email', e.target.checked)
+                      }
+                      disabled={updatePreferencesMutation.isPending}
+                      inputProps={{
+                        'aria-label': `${TYPE_LABELS[preference.type]} email`,
+                      }}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <TextField
+            select
+            label="Digest email"
+            value={preferences.digestFrequency}
+            onChange={(e) =>
+              handleDigestChange(e.target.value as DigestFrequency)
+            }
+            disabled={updatePreferencesMutation.isPending}
+            size="small"
+            sx={{ minWidth: 200 }}
+          >
+            <MenuItem value="daily">Daily</MenuItem>
+            <MenuItem value="weekly">Weekly</MenuItem>
+            <MenuItem value="off">Off</MenuItem>
+          </TextField>
+        </>
+      )}
+    </Box>
+  );
+}
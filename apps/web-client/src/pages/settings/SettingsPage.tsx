@@ -16,7 +16,10 @@ import {
 import { Save, Cancel } from '@mui/icons-material';
 import { NavigationBar } from '@blog/shared-ui-kit';
 import { useAuth } from '../../providers/AuthProvider';
+import { useNavigationNotifications } from '../../hooks/useNavigationNotifications';
 import { useUpdateProfile } from '@blog/shared-data-access';
+import NotificationPreferencesSection from './NotificationPreferencesSection';
+import WebhooksSection from './WebhooksSection';
 
 const profileSchema = z.object({
   fullName: z
@@ -34,6 +37,7 @@ type ProfileFormData = z.infer<typeof profileSchema>;
 
 export default function SettingsPage() {
   const navigate = useNavigate();
+  const notificationProps = useNavigationNotifications();
   const { user, logout, refreshUser } = useAuth();
   const updateProfileMutation = useUpdateProfile();
 
@@ -95,7 +99,7 @@ export default function SettingsPage() {
     <>
       <NavigationBar
         user={user}
-        notificationCount={0}
+        {...notificationProps}
         onProfileClick={() => navigate(`/users/${user.username}`)}
         onLoginClick={() => navigate('/auth/login')}
         onCreatePostClick={() => navigate('/posts/new')}
@@ -316,6 +320,16 @@ export default function SettingsPage() {
 
           <Divider sx={{ my: 4 }} />
 
+          {/* Notification Settings */}
+          <NotificationPreferencesSection />
+
+          <Divider sx={{ my: 4 }} />
+
+          {/* Webhooks */}
+          <WebhooksSection />
+
+          <Divider sx={{ my: 4 }} />
+
           {/* Additional Settings */}
           <Box>
             <Typography variant="h6" fontWeight={600} mb={2}>
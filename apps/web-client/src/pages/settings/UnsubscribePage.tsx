@@ -0,0 +1,82 @@
+import { useEffect, useRef } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import {
+  Container,
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Paper,
+  CircularProgress,
+} from '@mui/material';
+import {
+  useUnsubscribe,
+  type UnsubscribeResponse,
+} from '@blog/shared-data-access';
+
+const getScopeText = (scope: UnsubscribeResponse['scope']): string => {
+  switch (scope) {
+    case 'all':
+      return 'You will no longer receive notification emails.';
+    case 'digest':
+      return 'You will no longer receive digest emails.';
+    default:
+      return 'You will no longer receive emails for this type of notification.';
+  }
+};
+
+export default function UnsubscribePage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const unsubscribeMutation = useUnsubscribe();
+  const requested = useRef(false);
+
+  // One click: the link itself unsubscribes, no login or confirmation
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+    unsubscribeMutation.mutate(token);
+  }, [token, unsubscribeMutation]);
+
+  return (
+    <Container maxWidth="sm" sx={{ py: 8 }}>
+      <Paper
+        elevation={0}
+        sx={{
+          p: 4,
+          borderRadius: 3,
+          border: '1px solid',
+          borderColor: 'divider',
+        }}
+      >
+        <Box textAlign="center" mb={3}>
+          <Typography variant="h4" fontWeight={700} gutterBottom>
+            Unsubscribe
+          </Typography>
+        </Box>
+
+        {!token || unsubscribeMutation.isError ? (
+          <Alert severity="error">
+            This unsubscribe link is invalid. You can change which emails you
+            receive in your settings.
+          </Alert>
+        ) : unsubscribeMutation.isSuccess ? (
+          <Alert severity="success">
+            {getScopeText(unsubscribeMutation.data.scope)} You can turn emails
+            back on in your settings.
+          </Alert>
+        ) : (
+          <Box display="flex" justifyContent="center" py={2}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        <Box textAlign="center" mt={3}>
+          <Link to="/settings" style={{ textDecoration: 'none' }}>
+            <Button variant="contained">Notification Settings</Button>
+          </Link>
+        </Box>
+      </Paper>
+    </Container>
+  );
+}
@@ -0,0 +1,348 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Checkbox,
+  FormControlLabel,
+  FormGroup,
+  Switch,
+  Chip,
+  Stack,
+  Alert,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Collapse,
+} from '@mui/material';
+import {
+  useWebhooks,
+  useCreateWebhook,
+  useUpdateWebhook,
+  useDeleteWebhook,
+  useWebhookDeliveries,
+  useSendTestWebhook,
+  useReplayWebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookDeliveryStatus,
+  type WebhookEventType,
+} from '@blog/shared-data-access';
+
+const EVENT_LABELS: Record<WebhookEventType, string> = {
+  'post.published': 'Post published',
+  'comment.created': 'New comment on my posts',
+  'video.ready': 'Video ready',
+  'video.failed': 'Video processing failed',
+};
+
+const STATUS_COLORS: Record<
+  WebhookDeliveryStatus,
+  'default' | 'success' | 'error'
+> = {
+  pending: 'default',
+  succeeded: 'success',
+  failed: 'error',
+};
+
+function WebhookDeliveryLog({ endpointId }: { endpointId: string }) {
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } =
+    useWebhookDeliveries(endpointId);
+  const replayMutation = useReplayWebhookDelivery();
+
+  const deliveries = data?.pages.flatMap((page) => page.deliveries) ?? [];
+
+  if (isLoading) {
+    return (
+      <Box display="flex" justifyContent="center" py={2}>
+        <CircularProgress size={20} />
+      </Box>
+    );
+  }
+
+  if (deliveries.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary" py={1}>
+        No deliveries yet
+      </Typography>
+    );
+  }
+
+  return (
+    <>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Event</TableCell>
+            <TableCell>Status</TableCell>
+            <TableCell>Response</TableCell>
+            <TableCell>Sent</TableCell>
+            <TableCell />
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {deliveries.map((delivery) => (
+            <TableRow key={delivery.id}>
+              <TableCell>
+                {delivery.eventName}
+                {delivery.replayOf && (
+                  <Chip label="Replay" size="small" sx={{ ml: 1 }} />
+                )}
+              </TableCell>
+              <TableCell>
+                <Chip
+                  label={delivery.status}
+                  color={STATUS_COLORS[delivery.status]}
+                  size="small"
+                />
+              </TableCell>
+              <TableCell>
+                <Typography variant="body2" title={delivery.error ?? ''}>
+                  {delivery.responseStatus ?? delivery.error ?? '-'}
+                  {delivery.attempts > 1 && ` (${delivery.attempts} attempts)`}
+                </Typography>
+              </TableCell>
+              <TableCell>
+                {new Date(delivery.createdAt).toLocaleString()}
+              </TableCell>
+              <TableCell align="right">
+                <Button
+                  size="small"
+                  onClick={() => replayMutation.mutate(delivery.id)}
+                  disabled={
+                    delivery.status === 'pending' || replayMutation.isPending
+                  }
+                >
+                  Replay
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {hasNextPage && (
+        <Box display="flex" justifyContent="center" py={1}>
+          <Button
+            size="small"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+          >
+            Load more
+          </Button>
+        </Box>
+      )}
+    </>
+  );
+}
+
+function WebhookItem({ endpoint }: { endpoint: WebhookEndpoint }) {
+  const [showDeliveries, setShowDeliveries] = useState(false);
+  const updateMutation = useUpdateWebhook();
+  const deleteMutation = useDeleteWebhook();
+  const sendTestMutation = useSendTestWebhook();
+
+  const handleDelete = () => {
+    if (window.confirm('Delete this webhook and its delivery log?')) {
+      deleteMutation.mutate(endpoint.id);
+    }
+  };
+
+  const handleSendTest = () => {
+    sendTestMutation.mutate(endpoint.id, {
+      onSuccess: () => setShowDeliveries(true),
+    });
+  };
+
+  return (
+    <Box
+      sx={{
+        p: 2,
+        mb: 2,
+        border: '1px solid',
+        borderColor: 'divider',
+        borderRadius: 2,
+      }}
+    >
+      <Stack direction="row" alignItems="center" spacing={1}>
+        <Box flex={1} minWidth={0}>
+          <Typography variant="body1" fontWeight={600} noWrap>
+            {endpoint.url}
+          </Typography>
+          {endpoint.description && (
+            <Typography variant="body2" color="text.secondary">
+              {endpoint.description}
+            </Typography>
+          )}
+        </Box>
+        <Switch
+          checked={endpoint.isActive}
+          onChange={(e) =>
+            updateMutation.mutate({
+              id: endpoint.id,
+              isActive: e.target.checked,
+            })
+          }
+          disabled={updateMutation.isPending}
+          inputProps={{ 'aria-label': 'Webhook enabled' }}
+        />
+      </Stack>
+
+      <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap my={1}>
+        {endpoint.events.map((event) => (
+          <Chip key={event} label={EVENT_LABELS[event]} size="small" />
+        ))}
+      </Stack>
+
+      <Stack direction="row" spacing={1}>
+        <Button size="small" onClick={() => setShowDeliveries((v) => !v)}>
+          {showDeliveries ? 'Hide deliveries' : 'Deliveries'}
+        </Button>
+        <Button
+          size="small"
+          onClick={handleSendTest}
+          disabled={sendTestMutation.isPending}
+        >
+          Send test event
+        </Button>
+        <Button
+          size="small"
+          color="error"
+          onClick={handleDelete}
+          disabled={deleteMutation.isPending}
+        >
+          Delete
+        </Button>
+      </Stack>
+
+      <Collapse in={showDeliveries} unmountOnExit>
+        <Box mt={1}>
+          <WebhookDeliveryLog endpointId={endpoint.id} />
+        </Box>
+      </Collapse>
+    </Box>
+  );
+}
+
+export default function WebhooksSection() {
+  const { data: endpoints, isLoading } = useWebhooks();
+  const createMutation = useCreateWebhook();
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>([]);
+  const [secret, setSecret] = useState<string | null>(null);
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setEvents((current) =>
+      checked ? [...current, event] : current.filter((e) => e !== event)
+    );
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate(
+      { url, description: description || null, events },
+      {
+        onSuccess: (data) => {
+          setSecret(data.secret);
+          setUrl('');
+          setDescription('');
+          setEvents([]);
+        },
+      }
+    );
+  };
+
+  return (
+    <Box>
+      <Typography variant="h6" fontWeight={600} mb={1}>
+        Webhooks
+      </Typography>
+      <Typography variant="body2" color="text.secondary" mb={2}>
+        Send a signed POST request to your URL when your posts are published or
+        commented on, and when your videos are ready. Verify the
+        X-Webhook-Signature header with the webhook&apos;s secret.
+      </Typography>
+
+      {secret && (
+        <Alert
+          severity="success"
+          onClose={() => setSecret(null)}
+          sx={{ mb: 2 }}
+        >
+          Webhook created. Copy its signing secret now, it will not be shown
+          again:
+          <Box
+            component="code"
+            sx={{ display: 'block', mt: 1, wordBreak: 'break-all' }}
+          >
+            {secret}
+          </Box>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Box display="flex" justifyContent="center" py={3}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : (
+        endpoints?.map((endpoint) => (
+          <WebhookItem key={endpoint.id} endpoint={endpoint} />
+        ))
+      )}
+
+      <form onSubmit={handleCreate}>
+        <Stack spacing={2}>
+          {createMutation.isError && (
+            <Alert severity="error">
+              {(createMutation.error as { error?: { message?: string } })?.error
+                ?.message || 'Failed to create webhook. Please try again.'}
+            </Alert>
+          )}
+          <TextField
+            label="Payload URL"
+            placeholder="https://example.com/webhooks"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            size="small"
+            required
+            fullWidth
+          />
+          <TextField
+            label="Description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            size="small"
+            inputProps={{ maxLength: 200 }}
+            fullWidth
+          />
+          <FormGroup row>
+            {(Object.keys(EVENT_LABELS) as WebhookEventType[]).map((event) => (
+              <FormControlLabel
+                key={event}
+                control={
+                  <Checkbox
+                    checked={events.includes(event)}
+                    onChange={(e) => toggleEvent(event, e.target.checked)}
+                  />
+                }
+                label={EVENT_LABELS[event]}
+              />
+            ))}
+          </FormGroup>
+          <Box>
+            <Button
+              type="submit"
+              variant="outlined"
+              disabled={!url || events.length === 0 || createMutation.isPending}
+            >
+              {createMutation.isPending ? 'Adding...' : 'Add Webhook'}
+            </Button>
+          </Box>
+        </Stack>
+      </form>
+    </Box>
+  );
+}
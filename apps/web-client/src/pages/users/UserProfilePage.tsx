@@ -11,7 +11,7 @@ import {
   Stack,
   Avatar,
 } from '@mui/material';
-import { PersonAdd, PersonRemove } from '@mui/icons-material';
+import { PersonAdd, PersonRemove, Insights } from '@mui/icons-material';
 import {
   NavigationBar,
   PostCard,
@@ -20,6 +20,7 @@ import {
   UserProfileCardSkeleton,
 } from '@blog/shared-ui-kit';
 import { useAuth } from '../../providers/AuthProvider';
+import { useNavigationNotifications } from '../../hooks/useNavigationNotifications';
 import {
   useUser,
   useUserPosts,
@@ -35,6 +36,7 @@ import {
 export default function UserProfilePage() {
   const params = useParams();
   const navigate = useNavigate();
+  const notificationProps = useNavigationNotifications();
   const { user: currentUser, logout } = useAuth();
   const [activeTab, setActiveTab] = useState(0);
   const username = params.username as string;
@@ -73,7 +75,7 @@ export default function UserProfilePage() {
       <>
         <NavigationBar
           user={currentUser || undefined}
-          notificationCount={0}
+          {...notificationProps}
           onProfileClick={() =>
             currentUser && navigate(`/users/${currentUser.username}`)
           }
@@ -108,7 +110,7 @@ export default function UserProfilePage() {
       <>
         <NavigationBar
           user={currentUser || undefined}
-          notificationCount={0}
+          {...notificationProps}
           onProfileClick={() =>
             currentUser && navigate(`/users/${currentUser.username}`)
           }
@@ -142,7 +144,7 @@ export default function UserProfilePage() {
     <>
       <NavigationBar
         user={currentUser || undefined}
-        notificationCount={0}
+        {...notificationProps}
         onProfileClick={() =>
           currentUser && navigate(`/users/${currentUser.username}`)
         }
@@ -191,6 +193,15 @@ export default function UserProfilePage() {
                 </Typography>
               )}
             </Box>
+            {isOwnProfile && (
+              <Button
+                variant="outlined"
+                startIcon={<Insights />}
+                onClick={() => navigate('/analytics')}
+              >
+                Analytics
+              </Button>
+            )}
             {!isOwnProfile && currentUser && (
               <Button
                 variant={isFollowing ? 'outlined' : 'contained'}
@@ -17,7 +17,9 @@ const SettingsPage = lazy(() => import('./pages/settings/SettingsPage'));
 const ChangePasswordPage = lazy(
   () => import('./pages/settings/ChangePasswordPage')
 );
+const UnsubscribePage = lazy(() => import('./pages/settings/UnsubscribePage'));
 const BookmarksPage = lazy(() => import('./pages/bookmarks/BookmarksPage'));
+const AnalyticsPage = lazy(() => import('./pages/analytics/AnalyticsPage'));
 const NotFoundPage = lazy(() => import('./pages/NotFoundPage'));
 
 function PageLoader() {
@@ -59,10 +61,16 @@ export function AppRoutes() {
         {/* Bookmarks route */}
         <Route path="/bookmarks" element={<BookmarksPage />} />
 
+        {/* Creator analytics */}
+        <Route path="/analytics" element={<AnalyticsPage />} />
+
         {/* Settings routes */}
         <Route path="/settings" element={<SettingsPage />} />
         <Route path="/settings/password" element={<ChangePasswordPage />} />
 
+        {/* Email unsubscribe links (no login needed) */}
+        <Route path="/unsubscribe" element={<UnsubscribePage />} />
+
         {/* 404 */}
         <Route path="*" element={<NotFoundPage />} />
       </Routes>
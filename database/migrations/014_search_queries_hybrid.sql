@@ -0,0 +1,23 @@
+-- Migration: Allow hybrid search type in search_queries
+-- Description: Search API logs every query with its mode; add 'hybrid'
+--   (full-text + semantic fused with reciprocal-rank fusion)
+-- Date: 2026-10-19
+
+-- =====================================================
+-- SEARCH TYPE CONSTRAINT
+-- =====================================================
+
+-- Drop old (auto-named) constraint from 001_initial_schema.sql
+ALTER TABLE search_queries
+DROP CONSTRAINT IF EXISTS search_queries_search_type_check;
+
+-- Add constraint with hybrid search type
+ALTER TABLE search_queries
+ADD CONSTRAINT search_queries_search_type_check
+CHECK (search_type IN ('fulltext', 'semantic', 'hybrid', 'rag'));
+
+COMMENT ON COLUMN search_queries.search_type IS 'Search mode used:
+  - fulltext: tsvector / ts_rank
+  - semantic: pgvector cosine similarity
+  - hybrid: reciprocal-rank fusion of fulltext + semantic
+  - rag: question answering over retrieved posts';
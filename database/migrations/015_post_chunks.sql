@@ -0,0 +1,35 @@
+-- Migration: Post chunks for question answering
+-- Description: Published posts are split into overlapping text chunks, each
+--   with its own embedding, so "Ask the blog" (POST /api/ask) can retrieve
+--   the most relevant passages instead of whole posts
+-- Date: 2026-10-19
+
+-- =====================================================
+-- POST CHUNKS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS post_chunks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    chunk_index INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    embedding vector(1536) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT unique_post_chunk UNIQUE (post_id, chunk_index),
+    CONSTRAINT chunk_index_non_negative CHECK (chunk_index >= 0)
+);
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_post_chunks_post ON post_chunks(post_id);
+
+-- HNSW works well from the first row (ivfflat needs data to train lists)
+CREATE INDEX IF NOT EXISTS idx_post_chunks_embedding
+ON post_chunks USING hnsw (embedding vector_cosine_ops);
+
+COMMENT ON TABLE post_chunks IS 'Embedded passages of published posts (RAG retrieval).
+Visibility is NOT copied here: queries must join posts and filter on
+status/visibility/deleted_at so private and unlisted posts never leak.';
@@ -0,0 +1,36 @@
+-- Migration: Precomputed trending scores
+-- Description: Time-decayed engagement score per post and period (day, week,
+--   month), recomputed periodically by the API server so GET
+--   /api/posts/trending is a cheap indexed read
+-- Date: 2026-10-19
+
+-- =====================================================
+-- POST TRENDING SCORES TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS post_trending_scores (
+    post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    period VARCHAR(10) NOT NULL,
+    score DOUBLE PRECISION NOT NULL,
+    likes INTEGER NOT NULL DEFAULT 0,
+    comments INTEGER NOT NULL DEFAULT 0,
+    bookmarks INTEGER NOT NULL DEFAULT 0,
+    unique_views INTEGER NOT NULL DEFAULT 0,
+    computed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (post_id, period),
+    CONSTRAINT trending_period_valid CHECK (period IN ('day', 'week', 'month'))
+);
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+-- Feed order: best score first, id as tie-breaker for keyset pagination
+CREATE INDEX IF NOT EXISTS idx_post_trending_scores_rank
+ON post_trending_scores(period, score DESC, post_id DESC);
+
+COMMENT ON TABLE post_trending_scores IS 'Materialized trending feed, rebuilt in
+one transaction by refreshTrendingScores. Only published public posts are
+scored, but visibility can change between refreshes: readers must still join
+posts and filter on status/visibility/deleted_at.';
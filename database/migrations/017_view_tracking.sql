@@ -0,0 +1,40 @@
+-- Migration: Deduplicated view tracking
+-- Description: post_views rows are counted into posts.view_count by a batched
+--   sync instead of updating the post on every hit, and video_views becomes one
+--   row per viewer session and day, updated by player heartbeats
+-- Date: 2026-10-19
+
+-- =====================================================
+-- POST VIEWS: BATCHED COUNTER SYNC
+-- =====================================================
+
+ALTER TABLE post_views
+ADD COLUMN IF NOT EXISTS counted BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Bot views are kept for analytics but never counted
+UPDATE post_views SET counted = TRUE WHERE is_bot = TRUE;
+
+-- Pending rows for the sync (small: rows leave the index once counted)
+CREATE INDEX IF NOT EXISTS idx_post_views_uncounted
+ON post_views(viewed_at) WHERE counted = FALSE;
+
+-- =====================================================
+-- VIDEO VIEWS: ONE ROW PER SESSION AND DAY
+-- =====================================================
+
+ALTER TABLE video_views
+ADD COLUMN IF NOT EXISTS user_agent TEXT,
+ADD COLUMN IF NOT EXISTS is_bot BOOLEAN DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS last_heartbeat_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN IF NOT EXISTS view_date DATE GENERATED ALWAYS AS (viewed_at::DATE) STORED;
+
+ALTER TABLE video_views
+DROP CONSTRAINT IF EXISTS unique_video_view_per_day;
+
+ALTER TABLE video_views
+ADD CONSTRAINT unique_video_view_per_day UNIQUE (video_id, session_id, view_date);
+
+COMMENT ON COLUMN post_views.counted IS 'TRUE once added to posts.view_count
+by syncPostViewCounts. Bot views are inserted as counted.';
+COMMENT ON COLUMN video_views.duration_watched IS 'Seconds watched, kept at
+the maximum reported by heartbeats for the session and day';
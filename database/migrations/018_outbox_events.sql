@@ -0,0 +1,44 @@
+-- Migration: Transactional outbox for domain events
+-- Description: Domain events are inserted in the same transaction as the
+--   change they describe and relayed to the event stream afterwards, so a
+--   crash between commit and publish no longer loses them
+-- Date: 2026-10-19
+
+-- =====================================================
+-- OUTBOX EVENTS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS outbox_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id UUID NOT NULL UNIQUE,
+    event_name VARCHAR(100) NOT NULL,
+    aggregate_type VARCHAR(50) NOT NULL,
+    aggregate_id VARCHAR(100) NOT NULL,
+    -- Serialized event (DomainEvent.toJSON())
+    message JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'published', 'dead')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    -- Next time the relay may pick the row up (retry backoff and claim lease)
+    available_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    published_at TIMESTAMP
+);
+
+-- Relay queue (rows leave the index once published or dead)
+CREATE INDEX IF NOT EXISTS idx_outbox_events_pending
+ON outbox_events(available_at, created_at) WHERE status = 'pending';
+
+-- Cleanup of relayed rows
+CREATE INDEX IF NOT EXISTS idx_outbox_events_published
+ON outbox_events(published_at) WHERE status = 'published';
+
+-- Dead-lettered rows for inspection and replay
+CREATE INDEX IF NOT EXISTS idx_outbox_events_dead
+ON outbox_events(created_at) WHERE status = 'dead';
+
+COMMENT ON TABLE outbox_events IS 'Domain events written with the aggregate
+change and relayed to Redis Streams (at-least-once)';
+COMMENT ON COLUMN outbox_events.status IS 'pending until relayed, dead after
+the maximum number of failed attempts';
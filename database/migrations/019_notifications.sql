@@ -0,0 +1,49 @@
+-- Migration: In-app notifications
+-- Description: Notifications created by event subscribers (follows, replies,
+--   likes, mentions, video processing) and listed in the notification menu
+-- Date: 2026-10-19
+
+-- =====================================================
+-- NOTIFICATIONS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Recipient
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    -- User who triggered the notification (null for system notifications)
+    actor_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    type VARCHAR(30) NOT NULL
+        CHECK (type IN (
+            'follow',
+            'comment_reply',
+            'mention',
+            'post_like',
+            'comment_like',
+            'video_ready',
+            'video_failed'
+        )),
+    post_id UUID REFERENCES posts(id) ON DELETE CASCADE,
+    comment_id UUID REFERENCES comments(id) ON DELETE CASCADE,
+    video_id UUID REFERENCES videos(id) ON DELETE CASCADE,
+    data JSONB NOT NULL DEFAULT '{}',
+    -- Events are delivered at least once, and liking/following again after
+    -- undoing it must not notify twice
+    dedupe_key VARCHAR(200) UNIQUE,
+    read_at TIMESTAMP,
+    -- Millisecond precision so (created_at, id) cursors round-trip exactly
+    created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Notification list (newest first, cursor on created_at + id)
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+ON notifications(user_id, created_at DESC, id DESC);
+
+-- Unread badge count
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+ON notifications(user_id) WHERE read_at IS NULL;
+
+COMMENT ON TABLE notifications IS 'In-app notifications shown in the
+notification menu';
+COMMENT ON COLUMN notifications.dedupe_key IS 'Identifies the notified
+action (e.g. post_like:post:user), duplicates are ignored';
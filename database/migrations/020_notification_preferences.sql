@@ -0,0 +1,47 @@
+-- Migration: Notification preferences and email digests
+-- Description: Per-user, per-type channel preferences (in-app, email) and
+--   the digest email schedule for users who opt out of instant emails
+-- Date: 2026-10-19
+
+-- =====================================================
+-- NOTIFICATION PREFERENCES
+-- =====================================================
+
+-- Only changed preferences are stored, the defaults live in the API
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    type VARCHAR(30) NOT NULL
+        CHECK (type IN (
+            'follow',
+            'comment_reply',
+            'mention',
+            'post_like',
+            'comment_like',
+            'video_ready',
+            'video_failed'
+        )),
+    in_app BOOLEAN NOT NULL,
+    email BOOLEAN NOT NULL,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, type)
+);
+
+COMMENT ON TABLE notification_preferences IS 'Channels a user receives each
+notification type on, rows exist only for changed defaults';
+
+-- =====================================================
+-- NOTIFICATION SETTINGS (DIGEST SCHEDULE)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS notification_settings (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    digest_frequency VARCHAR(10) NOT NULL DEFAULT 'weekly'
+        CHECK (digest_frequency IN ('off', 'daily', 'weekly')),
+    last_digest_sent_at TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+COMMENT ON TABLE notification_settings IS 'Digest email schedule, users
+without a row get the default (weekly) digest';
+COMMENT ON COLUMN notification_settings.last_digest_sent_at IS 'End of the
+window covered by the last digest, the next one starts there';
@@ -0,0 +1,68 @@
+-- Migration: Outgoing webhooks
+-- Description: Webhook endpoints registered by users for events on their
+--   content, and the log of every delivery attempt (signed, retried)
+-- Date: 2026-10-19
+
+-- =====================================================
+-- WEBHOOK ENDPOINTS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    description VARCHAR(200),
+    -- HMAC-SHA256 key for the X-Webhook-Signature header
+    secret VARCHAR(100) NOT NULL,
+    -- Subscribed event types (post.published, comment.created, ...)
+    events TEXT[] NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user
+ON webhook_endpoints(user_id);
+
+-- =====================================================
+-- WEBHOOK DELIVERIES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+    -- Same for replays of a delivery, so receivers can dedupe
+    event_id UUID NOT NULL,
+    event_name VARCHAR(100) NOT NULL,
+    -- Request body as sent
+    payload JSONB NOT NULL,
+    -- pending: queued or waiting for a retry, failed: gave up
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    -- Outcome of the last attempt
+    response_status INTEGER,
+    response_body TEXT,
+    error TEXT,
+    duration_ms INTEGER,
+    is_test BOOLEAN NOT NULL DEFAULT FALSE,
+    replay_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+    -- Millisecond precision so (created_at, id) cursors round-trip exactly
+    created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_attempt_at TIMESTAMP
+);
+
+-- Domain events are delivered at least once; an event is only delivered
+-- once per endpoint (replays and test events are exempt)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_event
+ON webhook_deliveries(endpoint_id, event_id)
+WHERE replay_of IS NULL AND is_test = FALSE;
+
+-- Delivery log (newest first, cursor on created_at + id)
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_created
+ON webhook_deliveries(endpoint_id, created_at DESC, id DESC);
+
+COMMENT ON TABLE webhook_endpoints IS 'User-registered URLs that receive
+signed POST requests for events on their content';
+COMMENT ON TABLE webhook_deliveries IS 'Delivery log of webhook requests,
+one row per event and endpoint (replays and test events get their own)';
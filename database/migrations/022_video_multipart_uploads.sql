@@ -0,0 +1,30 @@
+-- Migration: Resumable multipart video uploads
+-- Description: Tracks S3 multipart uploads of raw videos so uploads can be
+--   resumed part by part and stale ones aborted
+-- Date: 2026-10-19
+
+-- =====================================================
+-- VIDEO MULTIPART UPLOADS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS video_multipart_uploads (
+    -- One upload in progress per video; removed when completed or aborted
+    video_id UUID PRIMARY KEY REFERENCES videos(id) ON DELETE CASCADE,
+    -- Uploader (videos have no owner column until attached to a post)
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    -- Upload ID issued by the object storage
+    upload_id TEXT NOT NULL,
+    bucket VARCHAR(63) NOT NULL,
+    object_key TEXT NOT NULL,
+    -- Every part but the last has part_size bytes
+    part_size INTEGER NOT NULL CHECK (part_size > 0),
+    part_count INTEGER NOT NULL CHECK (part_count BETWEEN 1 AND 10000),
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Stale upload cleanup
+CREATE INDEX IF NOT EXISTS idx_video_multipart_uploads_created
+ON video_multipart_uploads(created_at);
+
+COMMENT ON TABLE video_multipart_uploads IS 'Multipart uploads of raw videos
+in progress; parts are uploaded straight to storage with presigned URLs';
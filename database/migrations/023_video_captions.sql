@@ -0,0 +1,32 @@
+-- Migration: Video caption tracks
+-- Description: Subtitle/caption tracks uploaded by post authors, one per
+--   language; the WebVTT files live next to the HLS output
+-- Date: 2026-10-19
+
+-- =====================================================
+-- VIDEO CAPTIONS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS video_captions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+    -- BCP 47 language tag, e.g. "en" or "pt-BR"
+    language VARCHAR(35) NOT NULL,
+    -- Name shown in the player's caption menu
+    label VARCHAR(100) NOT NULL,
+    -- Selected by players when the viewer has no preference
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    -- Format the author uploaded (SRT is stored converted to WebVTT)
+    source_format VARCHAR(10) NOT NULL CHECK (source_format IN ('vtt', 'srt')),
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT unique_video_caption_language UNIQUE (video_id, language)
+);
+
+-- At most one default track per video
+CREATE UNIQUE INDEX IF NOT EXISTS idx_video_captions_default
+ON video_captions(video_id) WHERE is_default;
+
+COMMENT ON TABLE video_captions IS 'Caption tracks of videos, referenced from
+the HLS master playlist as subtitle renditions';
@@ -0,0 +1,35 @@
+-- Migration: Speech-to-text transcripts
+-- Description: Transcripts generated from the audio of videos, searchable
+--   with full-text search, and generated caption tracks
+-- Date: 2026-10-19
+
+-- =====================================================
+-- VIDEO TRANSCRIPTS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS video_transcripts (
+    video_id UUID PRIMARY KEY REFERENCES videos(id) ON DELETE CASCADE,
+    -- BCP 47 language tag of the speech
+    language VARCHAR(35) NOT NULL,
+    text TEXT NOT NULL,
+    -- Transcription engine and model that produced it
+    model VARCHAR(100) NOT NULL,
+    search_vector TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', text)) STORED,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Full-text search of spoken words
+CREATE INDEX IF NOT EXISTS idx_video_transcripts_search
+ON video_transcripts USING GIN (search_vector);
+
+COMMENT ON TABLE video_transcripts IS 'Speech-to-text transcripts of videos,
+matched by post full-text search';
+
+-- =====================================================
+-- GENERATED CAPTIONS
+-- =====================================================
+
+-- Generated tracks never replace a track the author uploaded
+ALTER TABLE video_captions
+ADD COLUMN IF NOT EXISTS is_generated BOOLEAN NOT NULL DEFAULT FALSE;
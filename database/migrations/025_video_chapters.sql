@@ -0,0 +1,22 @@
+-- Migration: Video chapters
+-- Description: Titled sections of a video, set by the post author or parsed
+--   from "00:00 Intro" lines in the post content
+-- Date: 2026-10-19
+
+-- =====================================================
+-- VIDEO CHAPTERS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS video_chapters (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+    -- Seconds from the start of the video
+    start_time INTEGER NOT NULL CHECK (start_time >= 0),
+    title VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT unique_video_chapter_start UNIQUE (video_id, start_time)
+);
+
+COMMENT ON TABLE video_chapters IS 'Chapters of videos, shown as seek bar
+markers and a chapter list in the player';
@@ -0,0 +1,10 @@
+-- Migration: Seek bar preview thumbnails
+-- Description: WebVTT index of the sprite sheets generated with the HLS
+--   output, mapping time ranges to preview frames
+-- Date: 2026-10-19
+
+ALTER TABLE videos
+ADD COLUMN IF NOT EXISTS thumbnails_vtt_url VARCHAR(500);
+
+COMMENT ON COLUMN videos.thumbnails_vtt_url IS 'WebVTT thumbnails track
+(sprite sheet coordinates) for seek bar previews';
@@ -0,0 +1,25 @@
+-- Migration: Video poster candidates
+-- Description: Frames extracted across a video when it is encoded, scored
+--   by sharpness and brightness, for the author to pick the poster from
+-- Date: 2026-10-19
+
+-- =====================================================
+-- VIDEO THUMBNAIL CANDIDATES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS video_thumbnail_candidates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+    -- Object key in the thumbnails bucket
+    storage_key VARCHAR(500) NOT NULL,
+    -- Seconds from the start of the video
+    frame_time REAL NOT NULL CHECK (frame_time >= 0),
+    -- Higher is better (sharp, neither too dark nor too bright)
+    score REAL NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT unique_video_thumbnail_candidate UNIQUE (video_id, storage_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_thumbnail_candidates_video
+ON video_thumbnail_candidates(video_id);
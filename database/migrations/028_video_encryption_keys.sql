@@ -0,0 +1,19 @@
+-- Migration: Video encryption keys
+-- Description: AES-128 keys HLS segments are encrypted with. A video gets a
+--   new key version each time it is encoded; older versions are kept so
+--   playlists cached before a re-encode can still be played.
+-- Date: 2026-10-19
+
+-- =====================================================
+-- VIDEO ENCRYPTION KEYS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS video_encryption_keys (
+    video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL CHECK (version > 0),
+    -- Raw 16-byte AES-128 key
+    key_data BYTEA NOT NULL CHECK (octet_length(key_data) = 16),
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (video_id, version)
+);
@@ -0,0 +1,14 @@
+-- Migration: Content-aware encoding ladder
+-- Description: Resolution and bitrates each quality was encoded at, chosen
+--   per video from a complexity probe instead of fixed presets
+-- Date: 2026-10-19
+
+ALTER TABLE video_qualities
+ADD COLUMN IF NOT EXISTS width INTEGER,
+ADD COLUMN IF NOT EXISTS height INTEGER,
+ADD COLUMN IF NOT EXISTS video_bitrate INTEGER,
+ADD COLUMN IF NOT EXISTS audio_bitrate INTEGER;
+
+COMMENT ON COLUMN video_qualities.video_bitrate IS 'Target video bitrate
+in kbps, derived from the complexity of the video and capped by the source';
+COMMENT ON COLUMN video_qualities.audio_bitrate IS 'Audio bitrate in kbps';
@@ -0,0 +1,10 @@
+-- Migration: DASH manifest
+-- Description: Videos packaged as fragmented MP4 (CMAF) have a DASH
+--   manifest next to the HLS master playlist, over the same segments
+-- Date: 2026-10-19
+
+ALTER TABLE videos
+ADD COLUMN IF NOT EXISTS dash_manifest_url VARCHAR(500);
+
+COMMENT ON COLUMN videos.dash_manifest_url IS 'DASH manifest (CMAF
+packaging), sharing the segments of the HLS playlists';
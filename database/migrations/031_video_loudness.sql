@@ -0,0 +1,20 @@
+-- Migration: Video loudness
+-- Description: Loudness of each video's audio (EBU R128), measured when it
+--   is encoded and normalized to a target, for display to the author
+-- Date: 2026-10-19
+
+-- =====================================================
+-- VIDEO LOUDNESS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS video_loudness (
+    video_id UUID PRIMARY KEY REFERENCES videos(id) ON DELETE CASCADE,
+    -- Measured on the source, before normalization
+    integrated_lufs REAL NOT NULL,
+    true_peak_dbtp REAL NOT NULL,
+    loudness_range_lu REAL NOT NULL CHECK (loudness_range_lu >= 0),
+    -- Integrated loudness the audio was normalized to
+    target_lufs REAL NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,22 @@
+-- Migration: Plain-text post search
+-- Description: Post content is HTML. Full-text search indexes and
+--   highlights its text only, so markup neither matches queries nor
+--   ends up in snippets
+-- Date: 2026-10-19
+
+-- Tags become spaces; the common entities are decoded (&amp; last, so
+-- "&amp;lt;" stays "&lt;")
+CREATE OR REPLACE FUNCTION html_to_text(html TEXT)
+RETURNS TEXT AS $$
+    SELECT replace(replace(replace(replace(replace(replace(
+        regexp_replace(html, '<[^>]*>', ' ', 'g'),
+        '&lt;', '<'), '&gt;', '>'), '&quot;', '"'), '&#39;', ''''),
+        '&nbsp;', ' '), '&amp;', '&');
+$$ LANGUAGE sql IMMUTABLE STRICT PARALLEL SAFE;
+
+COMMENT ON FUNCTION html_to_text(TEXT) IS 'Text of an HTML fragment, for
+full-text search and search snippets';
+
+DROP INDEX IF EXISTS idx_posts_fulltext;
+CREATE INDEX idx_posts_fulltext ON posts
+USING GIN (to_tsvector('english', title || ' ' || html_to_text(content)));
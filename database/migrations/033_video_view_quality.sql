@@ -0,0 +1,14 @@
+-- Migration: Video view quality from the encoding ladder
+-- Description: The content-aware ladder (029) encodes any height, so the
+--   quality watched is no longer limited to the four fixed presets
+-- Date: 2026-10-19
+
+ALTER TABLE video_views
+DROP CONSTRAINT IF EXISTS video_views_quality_watched_check;
+
+ALTER TABLE video_views
+ADD CONSTRAINT video_views_quality_watched_check
+CHECK (quality_watched ~ '^[0-9]{3,4}p$' OR quality_watched IS NULL);
+
+COMMENT ON COLUMN video_views.quality_watched IS 'Rendition height being
+played (e.g. 720p), NULL when unknown or chosen automatically';
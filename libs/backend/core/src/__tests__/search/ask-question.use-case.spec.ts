@@ -0,0 +1,136 @@
+/**
+ * Ask Question Use Case Tests
+ *
+ * Passages are re-checked against their posts before they reach the
+ * model: private, unlisted, draft and deleted posts must never be quoted.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { PostEntity, PostStatus, PostVisibility } from '@blog/shared/domain';
+import { AskQuestionUseCase } from '../../use-cases/search/ask-question.use-case.js';
+import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
+import type {
+  IPostChunkRepository,
+  PostChunkHit,
+} from '../../ports/repositories/post-chunk.repository.interface.js';
+import type { IEmbeddingService } from '../../ports/services/embedding.service.interface.js';
+import type {
+  ILlmService,
+  LlmCompletionRequest,
+} from '../../ports/services/llm.service.interface.js';
+
+const createPost = (
+  title: string,
+  options: { published?: boolean; visibility?: PostVisibility } = {}
+): PostEntity => {
+  const post = PostEntity.create({
+    authorId: '00000000-0000-4000-8000-000000000001',
+    title,
+    content: `Content of ${title}. ${'Lorem ipsum dolor sit amet. '.repeat(3)}`,
+    status: PostStatus.DRAFT,
+    visibility: options.visibility ?? PostVisibility.PUBLIC,
+  });
+  if (options.published ?? true) post.publish();
+  return post;
+};
+
+const hitFor = (post: PostEntity): PostChunkHit => ({
+  postId: post.id,
+  postTitle: post.title,
+  postSlug: post.slug,
+  chunkIndex: 0,
+  content: `Passage of ${post.title}`,
+  similarity: 0.9,
+});
+
+async function collect(answer: AsyncIterable<string>): Promise<string> {
+  let text = '';
+  for await (const token of answer) text += token;
+  return text;
+}
+
+describe('AskQuestionUseCase', () => {
+  const setup = (posts: PostEntity[], hits: PostChunkHit[]) => {
+    const prompts: LlmCompletionRequest[] = [];
+    const byId = new Map(posts.map((post) => [post.id, post]));
+
+    const useCase = new AskQuestionUseCase({
+      postRepository: {
+        findById: async (id: string) => byId.get(id) ?? null,
+      } as unknown as IPostRepository,
+      postChunkRepository: {
+        searchSimilar: async () => hits,
+      } as unknown as IPostChunkRepository,
+      embeddingService: {
+        model: 'test-embedding',
+        embedQuery: async () => [1, 0, 0],
+      } as unknown as IEmbeddingService,
+      llmService: {
+        model: 'test-llm',
+        async *streamCompletion(request: LlmCompletionRequest) {
+          prompts.push(request);
+          yield 'Answer [1]';
+        },
+      } as unknown as ILlmService,
+    });
+
+    return { useCase, prompts };
+  };
+
+  it('should only cite and quote published public posts', async () => {
+    const publicPost = createPost('Public post');
+    const unlisted = createPost('Unlisted post', {
+      visibility: PostVisibility.UNLISTED,
+    });
+    const privatePost = createPost('Private post', {
+      visibility: PostVisibility.PRIVATE,
+    });
+    const draft = createPost('Draft post', { published: false });
+    const deleted = createPost('Deleted post');
+    deleted.softDelete();
+    const posts = [unlisted, privatePost, draft, deleted, publicPost];
+    // A passage of a post that no longer exists
+    const missing = createPost('Missing post');
+
+    const { useCase, prompts } = setup(posts, [
+      ...posts.map(hitFor),
+      hitFor(missing),
+    ]);
+    const result = await useCase.execute({ question: 'What is new?' });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.citations).toEqual([
+      {
+        index: 1,
+        postId: publicPost.id,
+        title: 'Public post',
+        slug: publicPost.slug,
+      },
+    ]);
+
+    await collect(result.data.answer);
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0].prompt).toContain('Passage of Public post');
+    for (const hidden of [...posts.slice(0, 4), missing]) {
+      expect(prompts[0].prompt).not.toContain(hidden.title);
+    }
+  });
+
+  it('should not call the model when no visible passage is left', async () => {
+    const privatePost = createPost('Private post', {
+      visibility: PostVisibility.PRIVATE,
+    });
+    const { useCase, prompts } = setup([privatePost], [hitFor(privatePost)]);
+
+    const result = await useCase.execute({ question: 'What is new?' });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.citations).toEqual([]);
+    expect(await collect(result.data.answer)).toContain(
+      "couldn't find any published posts"
+    );
+    expect(prompts).toHaveLength(0);
+  });
+});
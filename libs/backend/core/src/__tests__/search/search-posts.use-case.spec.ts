@@ -0,0 +1,164 @@
+/**
+ * Search Posts Use Case Tests
+ *
+ * Hybrid search fuses the fulltext and semantic candidate lists with
+ * reciprocal-rank fusion and pages through the fused list.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { PostEntity, PostStatus, PostVisibility } from '@blog/shared/domain';
+import {
+  SearchPostsUseCase,
+  type HybridSearchOptions,
+} from '../../use-cases/search/search-posts.use-case.js';
+import type {
+  IPostRepository,
+  PostSearchOptions,
+} from '../../ports/repositories/post.repository.interface.js';
+import type { IUserRepository } from '../../ports/repositories/user.repository.interface.js';
+import type { IEmbeddingService } from '../../ports/services/embedding.service.interface.js';
+
+const createPost = (title: string): PostEntity => {
+  const post = PostEntity.create({
+    authorId: '00000000-0000-4000-8000-000000000001',
+    title,
+    content: `Content of ${title}. ${'Lorem ipsum dolor sit amet. '.repeat(3)}`,
+    excerpt: `Excerpt of ${title}`,
+    status: PostStatus.DRAFT,
+    visibility: PostVisibility.PUBLIC,
+  });
+  post.publish();
+  return post;
+};
+
+describe('SearchPostsUseCase (hybrid)', () => {
+  const a = createPost('Post A about caching');
+  const b = createPost('Post B about caching');
+  const c = createPost('Post C about caching');
+  const d = createPost('Post D: tips & tricks');
+
+  const setup = (hybridOptions?: HybridSearchOptions) => {
+    const calls: PostSearchOptions[] = [];
+
+    const useCase = new SearchPostsUseCase({
+      postRepository: {
+        // Fulltext: A, B, C / semantic: C, A, D
+        searchFullTextRanked: async (
+          _query: string,
+          options: PostSearchOptions
+        ) => {
+          calls.push(options);
+          return [a, b, c].map((post, index) => ({
+            post,
+            rank: 0.5 - index * 0.1,
+            titleHighlight: `<mark>${post.title}</mark>`,
+            snippet: 'snippet',
+          }));
+        },
+        searchSemantic: async (
+          _embedding: number[],
+          options: PostSearchOptions
+        ) => {
+          calls.push(options);
+          return [c, a, d].map((post, index) => ({
+            post,
+            similarity: 0.9 - index * 0.1,
+          }));
+        },
+      } as unknown as IPostRepository,
+      userRepository: {
+        findByIds: async () => [],
+      } as unknown as IUserRepository,
+      embeddingService: {
+        model: 'test-embedding',
+        embedQuery: async () => [1, 0, 0],
+      } as unknown as IEmbeddingService,
+      hybridOptions,
+    });
+
+    return { useCase, calls };
+  };
+
+  it('should rank posts by the sum of their reciprocal ranks', async () => {
+    const { useCase, calls } = setup();
+
+    const result = await useCase.execute({ query: 'caching', mode: 'hybrid' });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    // A: 1/61 + 1/62, C: 1/63 + 1/61, B: 1/62, D: 1/63
+    expect(result.data.results.map((r) => r.id)).toEqual([
+      a.id,
+      c.id,
+      b.id,
+      d.id,
+    ]);
+    expect(result.data.results[0].rank).toBeCloseTo(1 / 61 + 1 / 62, 10);
+    expect(result.data.results[0].scores).toEqual({
+      fulltextRank: 0.5,
+      fulltextPosition: 1,
+      semanticSimilarity: 0.8,
+      semanticPosition: 2,
+      fused: result.data.results[0].rank,
+    });
+    expect(result.data.hasMore).toBe(false);
+    expect(result.data.truncated).toBe(false);
+
+    // Candidates are fetched without the page cursor
+    expect(calls).toHaveLength(2);
+    for (const options of calls) {
+      expect(options.cursor).toBeUndefined();
+      expect(options.limit).toBe(100);
+    }
+  });
+
+  it('should quote semantic-only matches with their escaped title and excerpt', async () => {
+    const { useCase } = setup();
+
+    const result = await useCase.execute({ query: 'caching', mode: 'hybrid' });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const semanticOnly = result.data.results[3];
+    expect(semanticOnly.titleHighlight).toBe('Post D: tips &amp; tricks');
+    expect(semanticOnly.snippet).toBe('Excerpt of Post D: tips &amp; tricks');
+    expect(semanticOnly.scores.fulltextPosition).toBeNull();
+  });
+
+  it('should continue after the cursor without repeating results', async () => {
+    const { useCase } = setup();
+
+    const first = await useCase.execute({
+      query: 'caching',
+      mode: 'hybrid',
+      limit: 2,
+    });
+    expect(first.success).toBe(true);
+    if (!first.success) return;
+    expect(first.data.results.map((r) => r.id)).toEqual([a.id, c.id]);
+    expect(first.data.hasMore).toBe(true);
+    expect(first.data.nextCursor).not.toBeNull();
+
+    const second = await useCase.execute({
+      query: 'caching',
+      mode: 'hybrid',
+      limit: 2,
+      cursor: first.data.nextCursor ?? undefined,
+    });
+    expect(second.success).toBe(true);
+    if (!second.success) return;
+    expect(second.data.results.map((r) => r.id)).toEqual([b.id, d.id]);
+    expect(second.data.hasMore).toBe(false);
+    expect(second.data.nextCursor).toBeNull();
+  });
+
+  it('should flag results cut off by the candidate limit', async () => {
+    const { useCase } = setup({ candidateLimit: 3 });
+
+    const result = await useCase.execute({ query: 'caching', mode: 'hybrid' });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Record Video View Use Case Tests
+ *
+ * The quality watched must fit the video_views check: a rendition height,
+ * or NULL when the player picks the rendition automatically.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { VideoEntity } from '@blog/shared/domain';
+import { RecordVideoViewUseCase } from '../../use-cases/views/record-video-view.use-case.js';
+import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
+import type { IVideoRepository } from '../../ports/repositories/video.repository.interface.js';
+import type {
+  IViewRepository,
+  UpsertVideoViewInput,
+} from '../../ports/repositories/view.repository.interface.js';
+
+const VIDEO_ID = '00000000-0000-4000-8000-000000000010';
+const SESSION_ID = '00000000-0000-4000-8000-000000000020';
+
+describe('RecordVideoViewUseCase', () => {
+  const setup = () => {
+    const recorded: UpsertVideoViewInput[] = [];
+
+    const video = {
+      canBeDisplayed: () => true,
+      toJSON: () => ({ id: VIDEO_ID, postId: null, duration: 120 }),
+    } as unknown as VideoEntity;
+
+    const useCase = new RecordVideoViewUseCase({
+      videoRepository: {
+        findById: async () => video,
+      } as unknown as IVideoRepository,
+      postRepository: {} as IPostRepository,
+      viewRepository: {
+        recordVideoView: async (data: UpsertVideoViewInput) => {
+          recorded.push(data);
+          return { isNewView: true, durationWatched: data.durationWatched };
+        },
+      } as unknown as IViewRepository,
+    });
+
+    const heartbeat = (quality?: string) =>
+      useCase.execute({
+        videoId: VIDEO_ID,
+        sessionId: SESSION_ID,
+        watchedSeconds: 30,
+        quality,
+      });
+
+    return { heartbeat, recorded };
+  };
+
+  it('should record automatic quality selection as unknown', async () => {
+    const { heartbeat, recorded } = setup();
+
+    const result = await heartbeat('Auto');
+
+    expect(result.success).toBe(true);
+    expect(recorded[0].qualityWatched).toBeNull();
+  });
+
+  it('should record renditions outside the fixed presets', async () => {
+    const { heartbeat, recorded } = setup();
+
+    expect((await heartbeat('1440p')).success).toBe(true);
+    expect((await heartbeat('240P')).success).toBe(true);
+
+    expect(recorded.map((data) => data.qualityWatched)).toEqual([
+      '1440p',
+      '240p',
+    ]);
+  });
+
+  it('should reject a quality that is not a rendition height', async () => {
+    const { heartbeat, recorded } = setup();
+
+    const result = await heartbeat('HD');
+
+    expect(result.success).toBe(false);
+    expect(recorded).toHaveLength(0);
+  });
+});
@@ -22,6 +22,11 @@ export interface VideoQuality {
   segmentsCount: number;
   retryCount: number;
   retryPriority: number; // 1=360p (highest priority), 4=1080p (lowest)
+  /** Encoding ladder rung (bitrates in kbps), unset for older videos */
+  width?: number;
+  height?: number;
+  videoBitrate?: number;
+  audioBitrate?: number;
   errorMessage?: string;
   startedAt?: Date;
   completedAt?: Date;
@@ -34,6 +39,10 @@ export interface CreateVideoQualityInput {
   qualityName: string;
   retryPriority: number;
   status?: VideoQualityStatus;
+  width?: number;
+  height?: number;
+  videoBitrate?: number;
+  audioBitrate?: number;
 }
 
 export interface UpdateVideoQualityInput {
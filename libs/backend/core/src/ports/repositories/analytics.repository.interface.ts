@@ -0,0 +1,107 @@
+/**
+ * Analytics Repository Interface
+ *
+ * Port interface for creator analytics: aggregates an author's post views,
+ * video views, likes, comments, bookmarks and followers over a date range.
+ * Bot views are always excluded.
+ */
+
+/**
+ * Inclusive range of calendar days
+ */
+export interface AnalyticsRange {
+  from: Date;
+  to: Date;
+}
+
+export interface AnalyticsTotals {
+  views: number;
+  /** Distinct viewer sessions over the whole range */
+  uniqueViewers: number;
+  likes: number;
+  comments: number;
+  bookmarks: number;
+  newFollowers: number;
+  videoViews: number;
+  /** Mean video completion rate in percent (null without video views) */
+  avgCompletionRate: number | null;
+}
+
+export interface AnalyticsDailyPoint {
+  /** Calendar day, 'YYYY-MM-DD' */
+  date: string;
+  views: number;
+  uniqueViewers: number;
+  likes: number;
+  newFollowers: number;
+}
+
+export interface PostAnalytics {
+  postId: string;
+  title: string;
+  slug: string;
+  status: string;
+  publishedAt: Date | null;
+  /** Lifetime view counter */
+  totalViews: number;
+  /** The rest are counted within the range */
+  views: number;
+  uniqueViewers: number;
+  likes: number;
+  comments: number;
+  bookmarks: number;
+}
+
+export interface CompletionBucket {
+  /** Lower bound in percent: 0, 10, ..., 90 (90 includes 100) */
+  from: number;
+  to: number;
+  views: number;
+}
+
+export interface ReferrerCount {
+  /** Referrer host, or null for direct/unknown traffic */
+  referrer: string | null;
+  views: number;
+}
+
+export interface IAnalyticsRepository {
+  /**
+   * Totals over the range
+   */
+  getTotals(authorId: string, range: AnalyticsRange): Promise<AnalyticsTotals>;
+
+  /**
+   * One point per day of the range (days without activity are zero)
+   */
+  getDailySeries(
+    authorId: string,
+    range: AnalyticsRange
+  ): Promise<AnalyticsDailyPoint[]>;
+
+  /**
+   * Per-post breakdown of the author's posts, most viewed first
+   */
+  getPostBreakdown(
+    authorId: string,
+    range: AnalyticsRange,
+    limit: number
+  ): Promise<PostAnalytics[]>;
+
+  /**
+   * Video views by completion rate, in ten 10% buckets
+   */
+  getVideoCompletionHistogram(
+    authorId: string,
+    range: AnalyticsRange
+  ): Promise<CompletionBucket[]>;
+
+  /**
+   * Referrer hosts of post views, most frequent first
+   */
+  getTopReferrers(
+    authorId: string,
+    range: AnalyticsRange,
+    limit: number
+  ): Promise<ReferrerCount[]>;
+}
@@ -17,8 +17,24 @@ export type {
   PostQueryOptions,
   PostFeedOptions,
   PostSearchOptions,
+  PostSearchCursor,
+  PostSearchHit,
+  PostSimilarityHit,
+  RelatedPostsOptions,
+  RelatedPostWeights,
+  RelatedPostHit,
   TrendingOptions,
+  TrendingPeriod,
+  TrendingWeights,
+  TrendingScoredOptions,
+  TrendingPostHit,
 } from './post.repository.interface.js';
+export type {
+  IPostChunkRepository,
+  PostChunkInput,
+  PostChunkHit,
+  PostChunkSearchOptions,
+} from './post-chunk.repository.interface.js';
 export type {
   ICategoryRepository,
   CategoryQueryOptions,
@@ -39,6 +55,33 @@ export type {
   VideoUpdateData,
 } from './video.repository.interface.js';
 export type { IVideoQualityRepository } from './video-quality.repository.interface.js';
+export type {
+  IVideoUploadRepository,
+  MultipartUpload,
+  CreateMultipartUploadData,
+} from './video-upload.repository.interface.js';
+export type {
+  IVideoCaptionRepository,
+  VideoCaption,
+  CaptionSourceFormat,
+  UpsertVideoCaptionData,
+} from './video-caption.repository.interface.js';
+export type {
+  IVideoTranscriptRepository,
+  VideoTranscript,
+  UpsertVideoTranscriptData,
+} from './video-transcript.repository.interface.js';
+export type { IVideoChapterRepository } from './video-chapter.repository.interface.js';
+export type {
+  IVideoThumbnailCandidateRepository,
+  VideoThumbnailCandidate,
+  CreateVideoThumbnailCandidateData,
+} from './video-thumbnail-candidate.repository.interface.js';
+export type {
+  IVideoEncryptionKeyRepository,
+  VideoEncryptionKey,
+} from './video-encryption-key.repository.interface.js';
+export type { IVideoLoudnessRepository } from './video-loudness.repository.interface.js';
 export type { ISessionRepository } from './session.repository.interface.js';
 export type {
   IFollowRepository,
@@ -73,3 +116,67 @@ export type {
   BookmarkQueryOptions,
 } from './bookmark.repository.interface.js';
 export type { IBookmarkFolderRepository } from './bookmark-folder.repository.interface.js';
+export type {
+  ISearchQueryRepository,
+  SearchQueryType,
+  CreateSearchQueryInput,
+} from './search-query.repository.interface.js';
+export type {
+  IViewRepository,
+  CreatePostViewInput,
+  UpsertVideoViewInput,
+  RecordedVideoView,
+} from './view.repository.interface.js';
+export type {
+  IAnalyticsRepository,
+  AnalyticsRange,
+  AnalyticsTotals,
+  AnalyticsDailyPoint,
+  PostAnalytics,
+  CompletionBucket,
+  ReferrerCount,
+} from './analytics.repository.interface.js';
+export type {
+  IOutboxRepository,
+  OutboxEvent,
+  OutboxEventStatus,
+} from './outbox.repository.interface.js';
+export type {
+  IUnitOfWork,
+  UnitOfWorkRepositories,
+} from './unit-of-work.interface.js';
+export type {
+  INotificationRepository,
+  UserNotificationType,
+  UserNotification,
+  CreateNotificationInput,
+  NotificationCursor,
+  NotificationQueryOptions,
+} from './notification.repository.interface.js';
+export type {
+  INotificationPreferenceRepository,
+  DigestFrequency,
+  NotificationTypePreference,
+  StoredNotificationPreferences,
+} from './notification-preference.repository.interface.js';
+export type {
+  INotificationDigestRepository,
+  DigestRecipient,
+  DigestPost,
+  DigestReply,
+  DigestPostLikes,
+  DigestContent,
+  DigestContentOptions,
+} from './notification-digest.repository.interface.js';
+export type {
+  IWebhookRepository,
+  WebhookEventType,
+  WebhookEndpoint,
+  CreateWebhookEndpointData,
+  UpdateWebhookEndpointData,
+  WebhookDeliveryStatus,
+  WebhookDelivery,
+  CreateWebhookDeliveryData,
+  WebhookAttemptResult,
+  WebhookDeliveryCursor,
+} from './webhook.repository.interface.js';
@@ -0,0 +1,82 @@
+/**
+ * Notification Digest Repository Interface
+ *
+ * Port interface for digest emails: who is due for one, and what happened
+ * since their last digest.
+ */
+
+import type { DigestFrequency } from './notification-preference.repository.interface.js';
+
+export interface DigestRecipient {
+  userId: string;
+  email: string;
+  username: string;
+  fullName: string | null;
+  /** Null if no digest was sent yet */
+  lastDigestSentAt: Date | null;
+}
+
+export interface DigestPost {
+  id: string;
+  slug: string;
+  title: string;
+  authorUsername: string;
+  authorName: string | null;
+  publishedAt: Date;
+}
+
+export interface DigestReply {
+  commentId: string;
+  postSlug: string;
+  postTitle: string;
+  authorUsername: string;
+  authorName: string | null;
+  content: string;
+  createdAt: Date;
+}
+
+export interface DigestPostLikes {
+  postId: string;
+  postSlug: string;
+  postTitle: string;
+  likeCount: number;
+}
+
+export interface DigestContent {
+  /** Published by people the user follows */
+  newPosts: DigestPost[];
+  /** Comments on the user's posts and replies to their comments */
+  replies: DigestReply[];
+  /** New likes per post of the user, most liked first */
+  postLikes: DigestPostLikes[];
+  /** New likes on the user's comments */
+  commentLikeCount: number;
+}
+
+export interface DigestContentOptions {
+  /** Items per list */
+  limit: number;
+  includeReplies: boolean;
+  includeLikes: boolean;
+}
+
+export interface INotificationDigestRepository {
+  /**
+   * Active, verified users on this schedule whose last digest was sent
+   * before the given time (or never)
+   */
+  findDueRecipients(
+    frequency: Exclude<DigestFrequency, 'off'>,
+    sentBefore: Date,
+    limit: number
+  ): Promise<DigestRecipient[]>;
+
+  /** Activity for the user since the given time, excluding their own */
+  getContent(
+    userId: string,
+    since: Date,
+    options: DigestContentOptions
+  ): Promise<DigestContent>;
+
+  markSent(userId: string, sentAt: Date): Promise<void>;
+}
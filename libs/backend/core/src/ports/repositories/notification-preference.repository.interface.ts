@@ -0,0 +1,39 @@
+/**
+ * Notification Preference Repository Interface
+ *
+ * Port interface for the channels (in-app, email) a user receives each
+ * notification type on, and their digest email schedule. Only changed
+ * defaults are stored; see resolveNotificationPreferences.
+ */
+
+import type { UserNotificationType } from './notification.repository.interface.js';
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface NotificationTypePreference {
+  type: UserNotificationType;
+  inApp: boolean;
+  /** Instant email; types without it are summarized in the digest */
+  email: boolean;
+}
+
+export interface StoredNotificationPreferences {
+  types: NotificationTypePreference[];
+  /** Null until the user changes it */
+  digestFrequency: DigestFrequency | null;
+}
+
+export interface INotificationPreferenceRepository {
+  findByUserId(userId: string): Promise<StoredNotificationPreferences>;
+
+  /** Insert or replace the given type preferences */
+  saveTypes(
+    userId: string,
+    preferences: NotificationTypePreference[]
+  ): Promise<void>;
+
+  saveDigestFrequency(
+    userId: string,
+    frequency: DigestFrequency
+  ): Promise<void>;
+}
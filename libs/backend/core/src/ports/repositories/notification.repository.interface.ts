@@ -0,0 +1,94 @@
+/**
+ * Notification Repository Interface
+ *
+ * Port interface for in-app notifications. Notifications are read models
+ * (joined with the actor and post for display), so there is no entity.
+ */
+
+export type UserNotificationType =
+  | 'follow'
+  | 'comment_reply'
+  | 'mention'
+  | 'post_like'
+  | 'comment_like'
+  | 'video_ready'
+  | 'video_failed';
+
+export interface CreateNotificationInput {
+  /** Recipient */
+  userId: string;
+  type: UserNotificationType;
+  /** User who triggered the notification */
+  actorId?: string | null;
+  postId?: string | null;
+  commentId?: string | null;
+  videoId?: string | null;
+  data?: Record<string, unknown>;
+  /** Notifications with the same key are only created once */
+  dedupeKey?: string;
+}
+
+export interface UserNotification {
+  id: string;
+  type: UserNotificationType;
+  actor: {
+    id: string;
+    username: string;
+    fullName: string | null;
+    avatarUrl: string | null;
+  } | null;
+  postId: string | null;
+  postSlug: string | null;
+  postTitle: string | null;
+  commentId: string | null;
+  videoId: string | null;
+  data: Record<string, unknown>;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Position after the last notification of a page (newest first)
+ */
+export interface NotificationCursor {
+  createdAt: Date;
+  id: string;
+}
+
+export interface NotificationQueryOptions {
+  limit?: number;
+  cursor?: NotificationCursor;
+  unreadOnly?: boolean;
+}
+
+export interface INotificationRepository {
+  /**
+   * Create a notification. Returns false if one with the same dedupe key
+   * already exists.
+   */
+  create(input: CreateNotificationInput): Promise<boolean>;
+
+  /**
+   * List a user's notifications, newest first
+   */
+  findByUserId(
+    userId: string,
+    options?: NotificationQueryOptions
+  ): Promise<UserNotification[]>;
+
+  /**
+   * Count a user's unread notifications
+   */
+  countUnread(userId: string): Promise<number>;
+
+  /**
+   * Mark the given notifications of a user as read.
+   * Returns the number updated.
+   */
+  markRead(userId: string, notificationIds: string[]): Promise<number>;
+
+  /**
+   * Mark all notifications of a user as read. Returns the number updated.
+   */
+  markAllRead(userId: string): Promise<number>;
+}
@@ -0,0 +1,57 @@
+/**
+ * Outbox Repository Interface
+ *
+ * Port interface for the transactional outbox (outbox_events). Events are
+ * added inside the unit of work that changes the aggregate, then relayed
+ * to the event bus with at-least-once delivery.
+ */
+
+import type { DomainEvent } from '@blog/shared/domain';
+import type { DomainEventMessage } from '../services/event-bus.interface.js';
+
+export type OutboxEventStatus = 'pending' | 'published' | 'dead';
+
+export interface OutboxEvent {
+  id: string;
+  message: DomainEventMessage;
+  status: OutboxEventStatus;
+  /** Relay attempts so far, including the current one */
+  attempts: number;
+  lastError: string | null;
+  createdAt: Date;
+}
+
+export interface IOutboxRepository {
+  /**
+   * Store events for relaying (call inside the unit of work)
+   */
+  add(events: ReadonlyArray<DomainEvent>): Promise<void>;
+
+  /**
+   * Claim up to limit pending events that are due. Claimed events are hidden
+   * from other relays for leaseMs; if the relay dies they are claimed again.
+   */
+  claimPending(limit: number, leaseMs: number): Promise<OutboxEvent[]>;
+
+  /**
+   * Mark events as relayed
+   */
+  markPublished(ids: string[]): Promise<void>;
+
+  /**
+   * Record a failed relay attempt. The event is retried after retryDelayMs,
+   * or moved to the dead-letter state once maxAttempts is reached.
+   */
+  markFailed(
+    id: string,
+    error: string,
+    retryDelayMs: number,
+    maxAttempts: number
+  ): Promise<OutboxEventStatus>;
+
+  /**
+   * Delete relayed events published before the given date.
+   * Returns the number deleted.
+   */
+  deletePublishedBefore(date: Date): Promise<number>;
+}
@@ -0,0 +1,49 @@
+/**
+ * Post Chunk Repository Interface
+ *
+ * Port interface for embedded post passages used by question answering.
+ */
+
+export interface PostChunkInput {
+  chunkIndex: number;
+  content: string;
+  embedding: number[];
+}
+
+export interface PostChunkHit {
+  postId: string;
+  postTitle: string;
+  postSlug: string;
+  chunkIndex: number;
+  content: string;
+  /** Cosine similarity to the query embedding (higher is closer) */
+  similarity: number;
+}
+
+export interface PostChunkSearchOptions {
+  /** Max chunks to return (default: 6) */
+  limit?: number;
+  /** Minimum cosine similarity */
+  minScore?: number;
+}
+
+export interface IPostChunkRepository {
+  /**
+   * Replace all chunks of a post (atomic)
+   */
+  replaceForPost(postId: string, chunks: PostChunkInput[]): Promise<void>;
+
+  /**
+   * Remove all chunks of a post
+   */
+  deleteByPostId(postId: string): Promise<void>;
+
+  /**
+   * Find the chunks closest to an embedding.
+   * Only chunks of published, public, non-deleted posts are returned.
+   */
+  searchSimilar(
+    embedding: number[],
+    options?: PostChunkSearchOptions
+  ): Promise<PostChunkHit[]>;
+}
@@ -16,6 +16,11 @@ export interface IPostRepository {
    */
   findBySlug(slug: string): Promise<PostEntity | null>;
 
+  /**
+   * Find the post a video is attached to
+   */
+  findByVideoId(videoId: string): Promise<PostEntity | null>;
+
   /**
    * Find posts by author ID
    */
@@ -53,12 +58,27 @@ export interface IPostRepository {
   ): Promise<PostEntity[]>;
 
   /**
-   * Semantic search using embeddings
+   * Full-text search returning relevance rank and highlighted snippets
+   * (ordered by rank desc, then id desc)
+   */
+  searchFullTextRanked(
+    query: string,
+    options?: PostSearchOptions
+  ): Promise<PostSearchHit[]>;
+
+  /**
+   * Semantic search using embeddings (cosine similarity, ordered by
+   * similarity desc, then id desc)
    */
   searchSemantic(
     embedding: number[],
     options?: PostSearchOptions
-  ): Promise<PostEntity[]>;
+  ): Promise<PostSimilarityHit[]>;
+
+  /**
+   * Store (or clear) the embedding vector of a post
+   */
+  updateEmbedding(postId: string, embedding: number[] | null): Promise<void>;
 
   /**
    * Find posts by category
@@ -78,6 +98,16 @@ export interface IPostRepository {
    */
   findRelated(postId: string, limit?: number): Promise<PostEntity[]>;
 
+  /**
+   * Find related published public posts with their relevance score.
+   * Combines tag/category overlap (Jaccard), embedding similarity,
+   * recency and same-author signals.
+   */
+  findRelatedScored(
+    postId: string,
+    options?: RelatedPostsOptions
+  ): Promise<RelatedPostHit[]>;
+
   /**
    * Count posts by status
    */
@@ -92,6 +122,20 @@ export interface IPostRepository {
    * Find trending posts (high view/like count)
    */
   findTrending(options?: TrendingOptions): Promise<PostEntity[]>;
+
+  /**
+   * Rebuild the precomputed trending scores of every period from recent
+   * likes, comments, bookmarks and unique (non-bot) views, each decayed
+   * by age. Returns the number of scored rows.
+   */
+  refreshTrendingScores(weights?: Partial<TrendingWeights>): Promise<number>;
+
+  /**
+   * Find published public posts by precomputed trending score (best first)
+   */
+  findTrendingScored(
+    options: TrendingScoredOptions
+  ): Promise<TrendingPostHit[]>;
 }
 
 /**
@@ -129,7 +173,80 @@ export interface PostSearchOptions {
   limit?: number;
   offset?: number;
   status?: string;
-  minScore?: number; // minimum relevance score
+  minScore?: number; // minimum relevance score (ts_rank or cosine similarity)
+  categoryId?: string;
+  tagId?: string;
+  authorId?: string;
+  publishedFrom?: Date;
+  publishedTo?: Date;
+  cursor?: PostSearchCursor; // keyset cursor (rank + id of last hit)
+}
+
+/**
+ * Keyset cursor for ranked search results (rank = ts_rank or similarity)
+ */
+export interface PostSearchCursor {
+  rank: number;
+  id: string;
+}
+
+/**
+ * Ranked search hit
+ */
+export interface PostSearchHit {
+  post: PostEntity;
+  rank: number;
+  /** HTML: escaped title with matched terms wrapped in <mark> */
+  titleHighlight: string;
+  /** HTML: escaped fragments of the content's text, matches in <mark> */
+  snippet: string;
+}
+
+/**
+ * Semantic search hit
+ */
+export interface PostSimilarityHit {
+  post: PostEntity;
+  /** Cosine similarity (1 - cosine distance) */
+  similarity: number;
+}
+
+/**
+ * Related Posts Options
+ */
+export interface RelatedPostsOptions {
+  limit?: number;
+  weights?: Partial<RelatedPostWeights>;
+}
+
+/**
+ * Weight of each signal in the related-post score
+ */
+export interface RelatedPostWeights {
+  tags: number;
+  categories: number;
+  similarity: number;
+  recency: number;
+  sameAuthor: number;
+}
+
+/**
+ * Related post with per-signal scores (each in [0, 1])
+ */
+export interface RelatedPostHit {
+  post: PostEntity;
+  score: number;
+  signals: {
+    /** Jaccard index of the two posts' tag sets */
+    tagOverlap: number;
+    /** Jaccard index of the two posts' category sets */
+    categoryOverlap: number;
+    /** Cosine similarity of embeddings (null if either post has none) */
+    similarity: number | null;
+    /** 1 for a post published now, halving every 90 days */
+    recency: number;
+    sameAuthor: boolean;
+  };
 }
 
 /**
@@ -139,3 +256,40 @@ export interface TrendingOptions {
   period?: 'day' | 'week' | 'month' | 'all';
   limit?: number;
 }
+
+/**
+ * Trending period of the precomputed feed
+ */
+export type TrendingPeriod = 'day' | 'week' | 'month';
+
+/**
+ * Weight of each engagement event in the trending score
+ */
+export interface TrendingWeights {
+  like: number;
+  comment: number;
+  bookmark: number;
+  uniqueView: number;
+}
+
+/**
+ * Precomputed Trending Options
+ */
+export interface TrendingScoredOptions {
+  period: TrendingPeriod;
+  limit?: number;
+  cursor?: PostSearchCursor; // keyset cursor (score + id of last hit)
+}
+
+/**
+ * Trending post with its decayed score and raw engagement in the period
+ */
+export interface TrendingPostHit {
+  post: PostEntity;
+  score: number;
+  likes: number;
+  comments: number;
+  bookmarks: number;
+  uniqueViews: number;
+  computedAt: Date;
+}
@@ -0,0 +1,21 @@
+/**
+ * Search Query Repository Interface
+ *
+ * Port interface for logging search queries (search analytics).
+ */
+
+export type SearchQueryType = 'fulltext' | 'semantic' | 'hybrid' | 'rag';
+
+export interface CreateSearchQueryInput {
+  userId?: string | null;
+  query: string;
+  searchType: SearchQueryType;
+  resultsCount: number;
+}
+
+export interface ISearchQueryRepository {
+  /**
+   * Record a search query
+   */
+  create(input: CreateSearchQueryInput): Promise<void>;
+}
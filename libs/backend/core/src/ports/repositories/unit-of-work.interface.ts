@@ -0,0 +1,38 @@
+/**
+ * Unit of Work Interface
+ *
+ * Runs work against repositories that share one database transaction, so
+ * changes spanning several aggregates (and their outbox events) are
+ * committed or rolled back together.
+ */
+
+import type { IUserRepository } from './user.repository.interface.js';
+import type { IPostRepository } from './post.repository.interface.js';
+import type { ICommentRepository } from './comment.repository.interface.js';
+import type { IFollowRepository } from './follow.repository.interface.js';
+import type { ILikeRepository } from './like.repository.interface.js';
+import type { ICommentLikeRepository } from './comment-like.repository.interface.js';
+import type { IOutboxRepository } from './outbox.repository.interface.js';
+
+/**
+ * Repositories bound to the unit of work's transaction
+ */
+export interface UnitOfWorkRepositories {
+  userRepository: IUserRepository;
+  postRepository: IPostRepository;
+  commentRepository: ICommentRepository;
+  followRepository: IFollowRepository;
+  likeRepository: ILikeRepository;
+  commentLikeRepository: ICommentLikeRepository;
+  outboxRepository: IOutboxRepository;
+}
+
+export interface IUnitOfWork {
+  /**
+   * Run work in a transaction. Commits when work resolves and rolls back
+   * (rethrowing) when it rejects.
+   */
+  execute<T>(
+    work: (repositories: UnitOfWorkRepositories) => Promise<T>
+  ): Promise<T>;
+}
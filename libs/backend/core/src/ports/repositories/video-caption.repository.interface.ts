@@ -0,0 +1,54 @@
+/**
+ * Video Caption Repository Interface
+ *
+ * Port interface for the caption tracks of videos. A video has at most one
+ * track per language and at most one default track.
+ */
+
+export type CaptionSourceFormat = 'vtt' | 'srt';
+
+export interface VideoCaption {
+  id: string;
+  videoId: string;
+  /** BCP 47 language tag, e.g. "en" or "pt-BR" */
+  language: string;
+  /** Name shown in the player's caption menu */
+  label: string;
+  isDefault: boolean;
+  /** Format the author uploaded; the stored file is always WebVTT */
+  sourceFormat: CaptionSourceFormat;
+  /** Generated by speech-to-text rather than uploaded by the author */
+  isGenerated: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type UpsertVideoCaptionData = Pick<
+  VideoCaption,
+  | 'videoId'
+  | 'language'
+  | 'label'
+  | 'isDefault'
+  | 'sourceFormat'
+  | 'isGenerated'
+>;
+
+export interface IVideoCaptionRepository {
+  /**
+   * Create the track for the language, or replace it. A default track
+   * stops the video's other tracks from being the default.
+   */
+  upsert(data: UpsertVideoCaptionData): Promise<VideoCaption>;
+
+  /**
+   * Tracks of a video, default first, then by language
+   */
+  findByVideoId(videoId: string): Promise<VideoCaption[]>;
+
+  findByLanguage(
+    videoId: string,
+    language: string
+  ): Promise<VideoCaption | null>;
+
+  delete(videoId: string, language: string): Promise<boolean>;
+}
@@ -0,0 +1,20 @@
+/**
+ * Video Chapter Repository Interface
+ *
+ * Port interface for the chapters of videos. Chapters are always set as a
+ * whole list, ordered by start time.
+ */
+
+import type { VideoChapter } from '@blog/shared/domain';
+
+export interface IVideoChapterRepository {
+  /**
+   * Chapters of a video, by start time
+   */
+  findByVideoId(videoId: string): Promise<VideoChapter[]>;
+
+  /**
+   * Replace all chapters of a video (an empty list removes them)
+   */
+  replace(videoId: string, chapters: VideoChapter[]): Promise<VideoChapter[]>;
+}
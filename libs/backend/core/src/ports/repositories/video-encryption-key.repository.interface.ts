@@ -0,0 +1,36 @@
+/**
+ * Video Encryption Key Repository Interface
+ *
+ * Port interface for the AES-128 keys HLS segments are encrypted with. Each
+ * encode of a video creates a new version; older versions are kept so that
+ * playlists players loaded before a re-encode keep working.
+ */
+
+export interface VideoEncryptionKey {
+  videoId: string;
+  /** Starts at 1, one more for every encode */
+  version: number;
+  /** Raw 16-byte key */
+  key: Buffer;
+  createdAt: Date;
+}
+
+export interface IVideoEncryptionKeyRepository {
+  /**
+   * Store a new key for a video as its next version
+   */
+  create(videoId: string, key: Buffer): Promise<VideoEncryptionKey>;
+
+  /**
+   * Find a given version of a video's key
+   */
+  findByVersion(
+    videoId: string,
+    version: number
+  ): Promise<VideoEncryptionKey | null>;
+
+  /**
+   * The most recent key of a video
+   */
+  findLatest(videoId: string): Promise<VideoEncryptionKey | null>;
+}
@@ -0,0 +1,20 @@
+/**
+ * Video Loudness Repository Interface
+ *
+ * Port interface for the loudness of videos' audio, measured when they are
+ * encoded. Videos without audio have none.
+ */
+
+import type { VideoLoudness } from '@blog/shared/domain';
+
+export interface IVideoLoudnessRepository {
+  /**
+   * Loudness of a video's audio, or null when it has not been measured
+   */
+  findByVideoId(videoId: string): Promise<VideoLoudness | null>;
+
+  /**
+   * Store the loudness of a video's audio, replacing an earlier measurement
+   */
+  upsert(videoId: string, loudness: VideoLoudness): Promise<VideoLoudness>;
+}
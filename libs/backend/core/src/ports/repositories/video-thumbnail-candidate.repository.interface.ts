@@ -0,0 +1,45 @@
+/**
+ * Video Thumbnail Candidate Repository Interface
+ *
+ * Port interface for the poster candidates of videos: frames extracted when
+ * the video is encoded, which the author can pick the poster from. They are
+ * replaced as a whole each time the video is encoded.
+ */
+
+export interface VideoThumbnailCandidate {
+  id: string;
+  videoId: string;
+  /** Object key in the thumbnails bucket */
+  storageKey: string;
+  /** Seconds from the start of the video */
+  time: number;
+  /** Sharpness/brightness score, higher is better */
+  score: number;
+  createdAt: Date;
+}
+
+export interface CreateVideoThumbnailCandidateData {
+  storageKey: string;
+  time: number;
+  score: number;
+}
+
+export interface IVideoThumbnailCandidateRepository {
+  /**
+   * Candidates of a video, in video order
+   */
+  findByVideoId(videoId: string): Promise<VideoThumbnailCandidate[]>;
+
+  /**
+   * Find a candidate by ID
+   */
+  findById(id: string): Promise<VideoThumbnailCandidate | null>;
+
+  /**
+   * Replace all candidates of a video
+   */
+  replace(
+    videoId: string,
+    candidates: CreateVideoThumbnailCandidateData[]
+  ): Promise<VideoThumbnailCandidate[]>;
+}
@@ -0,0 +1,31 @@
+/**
+ * Video Transcript Repository Interface
+ *
+ * Port interface for the speech-to-text transcripts of videos. The text is
+ * indexed for full-text search, so posts match words spoken in their video.
+ */
+
+export interface VideoTranscript {
+  videoId: string;
+  /** BCP 47 language tag of the speech */
+  language: string;
+  text: string;
+  /** Transcription engine and model that produced it */
+  model: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type UpsertVideoTranscriptData = Pick<
+  VideoTranscript,
+  'videoId' | 'language' | 'text' | 'model'
+>;
+
+export interface IVideoTranscriptRepository {
+  /**
+   * Create the transcript of a video, or replace it
+   */
+  upsert(data: UpsertVideoTranscriptData): Promise<VideoTranscript>;
+
+  findByVideoId(videoId: string): Promise<VideoTranscript | null>;
+}
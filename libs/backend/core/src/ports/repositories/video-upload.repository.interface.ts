@@ -0,0 +1,36 @@
+/**
+ * Video Upload Repository Interface
+ *
+ * Port interface for multipart uploads of raw videos that are in progress.
+ * A record lives from initiation until the upload is completed or aborted,
+ * so the uploader can resume it and stale ones can be aborted.
+ */
+
+export interface MultipartUpload {
+  videoId: string;
+  /** Uploader; videos have no owner until they are attached to a post */
+  userId: string;
+  /** Upload ID issued by the object storage */
+  uploadId: string;
+  bucket: string;
+  key: string;
+  /** Size of every part but the last, in bytes */
+  partSize: number;
+  partCount: number;
+  createdAt: Date;
+}
+
+export type CreateMultipartUploadData = Omit<MultipartUpload, 'createdAt'>;
+
+export interface IVideoUploadRepository {
+  create(data: CreateMultipartUploadData): Promise<MultipartUpload>;
+
+  findByVideoId(videoId: string): Promise<MultipartUpload | null>;
+
+  /**
+   * Uploads initiated before a date, oldest first
+   */
+  findStale(olderThan: Date, limit: number): Promise<MultipartUpload[]>;
+
+  delete(videoId: string): Promise<boolean>;
+}
@@ -141,6 +141,9 @@ export interface VideoUpdateData {
   status: string;
   hlsUrl?: string;
   thumbnailUrl?: string;
+  thumbnailsVttUrl?: string;
+  /** null when a re-encode no longer has one */
+  dashManifestUrl?: string | null;
   duration?: number;
   width?: number;
   height?: number;
@@ -0,0 +1,56 @@
+/**
+ * View Repository Interface
+ *
+ * Port interface for post and video view tracking (post_views, video_views).
+ * Views are deduplicated per viewer session and day.
+ */
+
+export interface CreatePostViewInput {
+  postId: string;
+  /** Anonymous viewer session (cookie) */
+  sessionId: string;
+  userId?: string | null;
+  referrer?: string | null;
+  userAgent?: string | null;
+  isBot: boolean;
+}
+
+export interface UpsertVideoViewInput {
+  videoId: string;
+  /** Anonymous viewer session (cookie) */
+  sessionId: string;
+  userId?: string | null;
+  /** Seconds watched so far (kept at the maximum reported) */
+  durationWatched: number;
+  /** Video length in seconds */
+  totalDuration: number;
+  qualityWatched?: string | null;
+  referrer?: string | null;
+  userAgent?: string | null;
+  isBot: boolean;
+}
+
+export interface RecordedVideoView {
+  /** True for the first heartbeat of the session and day */
+  isNewView: boolean;
+  durationWatched: number;
+}
+
+export interface IViewRepository {
+  /**
+   * Record a post view. Returns false if the session already viewed the
+   * post today (the view is not counted twice).
+   */
+  recordPostView(input: CreatePostViewInput): Promise<boolean>;
+
+  /**
+   * Record a video view or update it with a player heartbeat
+   */
+  recordVideoView(input: UpsertVideoViewInput): Promise<RecordedVideoView>;
+
+  /**
+   * Add up to batchSize uncounted non-bot post views to posts.view_count.
+   * Returns the number of views counted.
+   */
+  syncPostViewCounts(batchSize: number): Promise<number>;
+}
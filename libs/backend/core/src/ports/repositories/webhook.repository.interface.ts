@@ -0,0 +1,135 @@
+/**
+ * Webhook Repository Interface
+ *
+ * Port interface for user-registered webhook endpoints and their delivery
+ * log. Like notifications these are plain records, so there is no entity.
+ */
+
+export type WebhookEventType =
+  | 'post.published'
+  | 'comment.created'
+  | 'video.ready'
+  | 'video.failed';
+
+export interface WebhookEndpoint {
+  id: string;
+  userId: string;
+  url: string;
+  description: string | null;
+  /** HMAC-SHA256 signing key; only shown to the owner once */
+  secret: string;
+  events: WebhookEventType[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateWebhookEndpointData {
+  userId: string;
+  url: string;
+  description: string | null;
+  secret: string;
+  events: WebhookEventType[];
+}
+
+export interface UpdateWebhookEndpointData {
+  url?: string;
+  description?: string | null;
+  events?: WebhookEventType[];
+  isActive?: boolean;
+}
+
+/** pending: queued or waiting for a retry, failed: retries exhausted */
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  /** Shared by replays of the same event */
+  eventId: string;
+  /** A WebhookEventType, or webhook.test */
+  eventName: string;
+  /** Request body as sent */
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** Outcome of the last attempt */
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  isTest: boolean;
+  /** Delivery this one replays */
+  replayOf: string | null;
+  createdAt: Date;
+  lastAttemptAt: Date | null;
+}
+
+export interface CreateWebhookDeliveryData {
+  endpointId: string;
+  eventId: string;
+  eventName: string;
+  payload: Record<string, unknown>;
+  isTest?: boolean;
+  replayOf?: string | null;
+}
+
+export interface WebhookAttemptResult {
+  status: WebhookDeliveryStatus;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number;
+}
+
+/**
+ * Position after the last delivery of a page (newest first)
+ */
+export interface WebhookDeliveryCursor {
+  createdAt: Date;
+  id: string;
+}
+
+export interface IWebhookRepository {
+  createEndpoint(data: CreateWebhookEndpointData): Promise<WebhookEndpoint>;
+
+  findEndpointById(id: string): Promise<WebhookEndpoint | null>;
+
+  /** Oldest first */
+  findEndpointsByUserId(userId: string): Promise<WebhookEndpoint[]>;
+
+  /** Active endpoints of the user subscribed to the event type */
+  findActiveEndpointsForEvent(
+    userId: string,
+    eventType: WebhookEventType
+  ): Promise<WebhookEndpoint[]>;
+
+  countEndpointsByUserId(userId: string): Promise<number>;
+
+  updateEndpoint(
+    id: string,
+    data: UpdateWebhookEndpointData
+  ): Promise<WebhookEndpoint | null>;
+
+  /** Also deletes its delivery log */
+  deleteEndpoint(id: string): Promise<boolean>;
+
+  /**
+   * Null if the endpoint already has a delivery of this event (domain
+   * events are delivered at least once); replays and tests always create
+   */
+  createDelivery(
+    data: CreateWebhookDeliveryData
+  ): Promise<WebhookDelivery | null>;
+
+  findDeliveryById(id: string): Promise<WebhookDelivery | null>;
+
+  /** Newest first */
+  findDeliveriesByEndpointId(
+    endpointId: string,
+    options?: { limit?: number; cursor?: WebhookDeliveryCursor }
+  ): Promise<WebhookDelivery[]>;
+
+  /** Store the outcome of an attempt and count it */
+  recordAttempt(id: string, result: WebhookAttemptResult): Promise<void>;
+}
@@ -4,6 +4,9 @@
  * Port interface for sending emails (verification, password reset, etc.)
  */
 
+import type { DigestContent } from '../repositories/notification-digest.repository.interface.js';
+import type { DigestFrequency } from '../repositories/notification-preference.repository.interface.js';
+
 export interface EmailOptions {
   to: string;
   subject: string;
@@ -36,6 +39,27 @@ export interface WelcomeEmailData {
   username: string;
 }
 
+export interface NotificationEmailData {
+  to: string;
+  username: string;
+  subject: string;
+  /** One-line description, e.g. "alice replied to your comment on ..." */
+  message: string;
+  actionUrl: string;
+  actionLabel: string;
+  /** Signed one-click link turning off this type of email */
+  unsubscribeUrl: string;
+}
+
+export interface DigestEmailData {
+  to: string;
+  username: string;
+  frequency: Exclude<DigestFrequency, 'off'>;
+  content: DigestContent;
+  /** Signed one-click link turning off the digest */
+  unsubscribeUrl: string;
+}
+
 /**
  * Email Service Port
  *
@@ -64,6 +88,16 @@ export interface IEmailService {
    */
   sendWelcomeEmail(data: WelcomeEmailData): Promise<SendEmailResult>;
 
+  /**
+   * Send an instant email for an in-app notification
+   */
+  sendNotificationEmail(data: NotificationEmailData): Promise<SendEmailResult>;
+
+  /**
+   * Send a daily or weekly activity digest
+   */
+  sendDigestEmail(data: DigestEmailData): Promise<SendEmailResult>;
+
   /**
    * Check if email service is configured and ready
    */
@@ -0,0 +1,31 @@
+/**
+ * Embedding Service Interface (Port)
+ *
+ * Defines the contract for turning text into vector embeddings
+ * for semantic search (posts.embedding vector(1536)).
+ */
+
+/** Dimensions of posts.embedding (must match the pgvector column) */
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface IEmbeddingService {
+  /** Model identifier (for logging/diagnostics) */
+  readonly model: string;
+
+  /**
+   * Embed a document (post content) for storage
+   * @returns Vector of EMBEDDING_DIMENSIONS numbers
+   */
+  embedDocument(text: string): Promise<number[]>;
+
+  /**
+   * Embed a search query
+   * @returns Vector of EMBEDDING_DIMENSIONS numbers
+   */
+  embedQuery(text: string): Promise<number[]>;
+
+  /**
+   * Check if the embedding backend is reachable
+   */
+  isAvailable(): Promise<boolean>;
+}
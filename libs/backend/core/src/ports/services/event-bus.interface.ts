@@ -0,0 +1,57 @@
+/**
+ * Event Bus Interface (Port)
+ *
+ * Publishes domain events after the state change they describe has been
+ * committed, and delivers them to subscribers. Subscribers receive the
+ * serialized form (DomainEvent.toJSON()) so in-process and cross-process
+ * (Redis Streams) delivery look the same.
+ */
+
+import type { DomainEvent, IEventEmitter } from '@blog/shared/domain';
+
+/**
+ * Serialized domain event as delivered to subscribers
+ */
+export interface DomainEventMessage {
+  eventId: string;
+  /** e.g. 'post.published' */
+  eventName: string;
+  aggregateId: string;
+  aggregateType: string;
+  /** ISO timestamp */
+  occurredAt: string;
+  payload: Record<string, unknown>;
+}
+
+export type DomainEventHandler = (
+  event: DomainEventMessage
+) => Promise<void> | void;
+
+/** Subscribe to every event name */
+export const ALL_EVENTS = '*';
+
+export interface IEventBus {
+  /**
+   * Publish events. Call only after the change has been persisted.
+   * Never rejects because of a failing subscriber.
+   */
+  publish(...events: DomainEvent[]): Promise<void>;
+
+  /**
+   * Hand over already serialized events (outbox relay).
+   * Rejects if they could not be delivered, so the caller can retry.
+   */
+  publishMessages(messages: ReadonlyArray<DomainEventMessage>): Promise<void>;
+
+  /**
+   * Publish the events recorded by an aggregate and clear them
+   */
+  publishFrom(emitter: IEventEmitter): Promise<void>;
+
+  /**
+   * Register a handler for an event name (or ALL_EVENTS).
+   * Returns a function that removes the handler.
+   * An event may be delivered more than once; handlers must be idempotent.
+   */
+  subscribe(eventName: string, handler: DomainEventHandler): () => void;
+}
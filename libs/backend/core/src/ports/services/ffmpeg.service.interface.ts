@@ -24,6 +24,8 @@ export interface VideoMetadata {
   fileSize: number;
   /** Container format */
   format: string;
+  /** Whether the file has an audio stream */
+  hasAudio: boolean;
 }
 
 /**
@@ -42,13 +44,99 @@ export interface HLSQuality {
   audioBitrate: number;
 }
 
+/**
+ * How hard a video is to compress, measured by encoding sample segments at
+ * a constant quality (CRF): detailed, fast-moving content needs more bits
+ * to look the same
+ */
+export interface ComplexityAnalysis {
+  /** Height the samples were encoded at */
+  probeHeight: number;
+  /** Bitrate the samples came out at, in kbps */
+  probeBitrate: number;
+  /** Number of samples encoded */
+  sampleCount: number;
+}
+
+/**
+ * Loudness of a video's audio (EBU R128), measured by a first pass of
+ * ffmpeg's loudnorm filter against a target. With it the encode normalizes
+ * the audio linearly (one gain for the whole video) instead of adjusting
+ * it as it plays.
+ */
+export interface LoudnessMeasurement {
+  /** Integrated loudness, in LUFS */
+  integratedLufs: number;
+  /** True peak, in dBTP */
+  truePeakDbtp: number;
+  /** Loudness range, in LU */
+  loudnessRangeLu: number;
+  /** Gating threshold, in LUFS */
+  thresholdLufs: number;
+  /** Gain still needed after normalizing to reach the target, in LU */
+  targetOffsetLu: number;
+  /** Integrated loudness measured against, in LUFS */
+  targetLufs: number;
+}
+
+/**
+ * AES-128 encryption of HLS segments. The key itself is never written next
+ * to the segments; players fetch it from keyUri.
+ */
+export interface HLSEncryption {
+  /** Raw 16-byte key */
+  key: Buffer;
+  /** URI of the key written to the media playlists (relative to them) */
+  keyUri: string;
+  /**
+   * Included in the segment file names (segment_<keyId>_000.ts), so that
+   * segments encrypted with a new key never overwrite the ones playlists
+   * loaded before a re-encode point at
+   */
+  keyId: string;
+}
+
+/**
+ * Segment format: MPEG-TS for HLS only, or fragmented MP4 (CMAF) that the
+ * HLS playlists and a DASH manifest both point at
+ */
+export type HLSPackaging = 'ts' | 'cmaf';
+
+/**
+ * Options of an HLS encode
+ */
+export interface HLSEncodingOptions {
+  /** Segment format (default: 'ts') */
+  packaging?: HLSPackaging;
+  /** Encrypt the segments with AES-128 */
+  encryption?: HLSEncryption;
+  /** Normalize the audio to the target of this measurement */
+  loudness?: LoudnessMeasurement;
+}
+
 /**
  * HLS encoding result
  */
 export interface HLSEncodingResult {
   /** Path to master playlist */
   masterPlaylistPath: string;
-  /** Paths to quality variant playlists */
+  /**
+   * Path to the DASH manifest, next to the master playlist. Only with CMAF
+   * packaging and unencrypted segments (DASH players expect Common
+   * Encryption, not AES-128 of whole segments).
+   */
+  dashManifestPath?: string;
+  /** Segment format of the variants */
+  packaging: HLSPackaging;
+  /**
+   * The audio rendition all variants play, encoded once (none when the
+   * source has no audio)
+   */
+  audioPlaylist?: {
+    playlistPath: string;
+    segmentsDir: string;
+  };
+  /** Paths to quality variant playlists (video only) */
   variantPlaylists: {
     quality: string;
     playlistPath: string;
@@ -63,6 +151,32 @@ export interface HLSEncodingResult {
   }[];
 }
 
+/**
+ * Seek bar preview thumbnails: frames at a fixed interval tiled into sprite
+ * sheets, indexed by a WebVTT file whose cues point at
+ * `sprites/<sheet>.jpg#xywh=x,y,w,h` (relative to the VTT file)
+ */
+export interface ThumbnailSpritesResult {
+  /** Path to the WebVTT index */
+  vttPath: string;
+  /** Paths to the sprite sheet images, in order */
+  spritePaths: string[];
+  /** Seconds between frames */
+  interval: number;
+}
+
+/**
+ * A frame extracted as a poster candidate
+ */
+export interface ThumbnailCandidateFrame {
+  /** Path to the image */
+  path: string;
+  /** Seconds from the start of the video */
+  time: number;
+  /** Sharpness/brightness score, higher is better */
+  score: number;
+}
+
 /**
  * Encoding progress callback
  */
@@ -100,20 +214,80 @@ export interface IFFmpegService {
     timestamp?: number | string
   ): Promise<string>;
 
+  /**
+   * Extract poster candidates spread across a video, scored by sharpness
+   * and brightness
+   * @param inputPath Path to the video file
+   * @param outputDir Directory to save the candidate images
+   * @param duration Duration of the video in seconds
+   * @param count Number of candidates (default: 6)
+   */
+  extractThumbnailCandidates(
+    inputPath: string,
+    outputDir: string,
+    duration: number,
+    count?: number
+  ): Promise<ThumbnailCandidateFrame[]>;
+
+  /**
+   * Generate sprite sheets and their WebVTT index for seek bar previews
+   * @param inputPath Path to the video file
+   * @param outputDir Directory to save thumbnails.vtt and sprites/
+   * @param source Duration and dimensions of the video
+   */
+  generateThumbnailSprites(
+    inputPath: string,
+    outputDir: string,
+    source: Pick<VideoMetadata, 'duration' | 'width' | 'height'>
+  ): Promise<ThumbnailSpritesResult>;
+
+  /**
+   * Measure the complexity of a video with a quick constant-quality encode
+   * of a few samples, to derive its encoding ladder from
+   * @param inputPath Path to the video file
+   * @param outputDir Directory for the sample encodes
+   * @param source Duration and height of the video
+   */
+  analyzeComplexity(
+    inputPath: string,
+    outputDir: string,
+    source: Pick<VideoMetadata, 'duration' | 'height'>
+  ): Promise<ComplexityAnalysis>;
+
+  /**
+   * Measure the loudness of a video's audio (it must have an audio stream)
+   * @param inputPath Path to the video file
+   * @param targetLufs Integrated loudness it is to be normalized to
+   */
+  measureLoudness(
+    inputPath: string,
+    targetLufs: number
+  ): Promise<LoudnessMeasurement>;
+
   /**
    * Encode video to HLS format with multiple quality variants
    * @param inputPath Path to the source video
    * @param outputDir Directory to save HLS files
    * @param qualities Quality presets to encode (default: all 4 qualities)
    * @param onProgress Progress callback
+   * @param options Segment format, encryption and loudness normalization
    */
   encodeToHLS(
     inputPath: string,
     outputDir: string,
     qualities?: HLSQuality[],
-    onProgress?: EncodingProgressCallback
+    onProgress?: EncodingProgressCallback,
+    options?: HLSEncodingOptions
   ): Promise<HLSEncodingResult>;
 
+  /**
+   * Extract the audio track for speech recognition
+   * (16kHz mono 16-bit PCM WAV)
+   * @param inputPath Path to the video file
+   * @param outputPath Path to save the WAV file
+   */
+  extractAudio(inputPath: string, outputPath: string): Promise<string>;
+
   /**
    * Check if FFmpeg is available
    */
@@ -15,6 +15,8 @@ export type {
   VerificationEmailData,
   PasswordResetEmailData,
   WelcomeEmailData,
+  NotificationEmailData,
+  DigestEmailData,
 } from './email.service.interface.js';
 export type {
   IStorageService,
@@ -26,6 +28,11 @@ export type {
   CopyObjectOptions,
   ObjectInfo,
   ListObjectsOptions,
+  InitiateMultipartUploadOptions,
+  MultipartUploadRef,
+  PresignedPartUrlOptions,
+  UploadedPart,
+  CompleteMultipartUploadOptions,
   StorageBucket,
 } from './storage.service.interface.js';
 export { StorageBuckets } from './storage.service.interface.js';
@@ -39,7 +46,14 @@ export type {
   IFFmpegService,
   VideoMetadata,
   HLSQuality,
+  ComplexityAnalysis,
+  LoudnessMeasurement,
+  HLSEncryption,
+  HLSPackaging,
+  HLSEncodingOptions,
   HLSEncodingResult,
+  ThumbnailSpritesResult,
+  ThumbnailCandidateFrame,
   EncodingProgressCallback,
 } from './ffmpeg.service.interface.js';
 export { DEFAULT_HLS_QUALITIES } from './ffmpeg.service.interface.js';
@@ -48,3 +62,53 @@ export type {
   VideoNotificationData,
 } from './notification.service.interface.js';
 export { NotificationType } from './notification.service.interface.js';
+export type { IEmbeddingService } from './embedding.service.interface.js';
+export { EMBEDDING_DIMENSIONS } from './embedding.service.interface.js';
+export type {
+  ILlmService,
+  LlmCompletionRequest,
+} from './llm.service.interface.js';
+export type {
+  IEventBus,
+  DomainEventMessage,
+  DomainEventHandler,
+} from './event-bus.interface.js';
+export { ALL_EVENTS } from './event-bus.interface.js';
+export type {
+  IRealtimePublisher,
+  IRealtimeGateway,
+  RealtimeMessage,
+  RealtimeHandler,
+  VideoProgressData,
+} from './realtime.interface.js';
+export {
+  RealtimeChannels,
+  RealtimeMessageTypes,
+} from './realtime.interface.js';
+export type {
+  IUnsubscribeTokenService,
+  UnsubscribeScope,
+  UnsubscribeTokenPayload,
+} from './unsubscribe-token.interface.js';
+export type {
+  IPlaybackTokenService,
+  PlaybackTokenPayload,
+} from './playback-token.interface.js';
+export type {
+  IWebhookSender,
+  WebhookRequest,
+  WebhookResponse,
+  IWebhookQueue,
+  WebhookDeliveryJob,
+  WebhookJobContext,
+  WebhookDeliveryHandler,
+} from './webhook.interface.js';
+export type {
+  ITranscriptionService,
+  TranscriptSegment,
+  TranscriptionResult,
+  TranscribeOptions,
+  ITranscriptionQueue,
+  TranscriptionJob,
+  TranscriptionJobHandler,
+} from './transcription.interface.js';
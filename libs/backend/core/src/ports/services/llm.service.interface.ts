@@ -0,0 +1,33 @@
+/**
+ * LLM Service Interface (Port)
+ *
+ * Defines the contract for text generation (question answering).
+ */
+
+export interface LlmCompletionRequest {
+  /** System instructions */
+  system: string;
+  /** User prompt (question plus retrieved context) */
+  prompt: string;
+  /** Sampling temperature (default: provider-specific) */
+  temperature?: number;
+  /** Max tokens to generate */
+  maxTokens?: number;
+  /** Abort generation (e.g., client disconnected) */
+  signal?: AbortSignal;
+}
+
+export interface ILlmService {
+  /** Model identifier (for logging/diagnostics) */
+  readonly model: string;
+
+  /**
+   * Generate a completion, yielding text fragments as they are produced
+   */
+  streamCompletion(request: LlmCompletionRequest): AsyncIterable<string>;
+
+  /**
+   * Check if the LLM backend is reachable
+   */
+  isAvailable(): Promise<boolean>;
+}
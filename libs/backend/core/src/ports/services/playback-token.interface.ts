@@ -0,0 +1,25 @@
+/**
+ * Playback Token Service Interface (Port)
+ *
+ * Signs the short-lived tokens that let a viewer load the files of one
+ * video (playlists, segments, captions, preview thumbnails) through the
+ * playback proxy. They are issued after the viewer was allowed to see the
+ * video's post, and are not checked against the post again.
+ */
+
+export interface PlaybackTokenPayload {
+  videoId: string;
+  /** Viewer the token was issued to (null when not logged in) */
+  userId: string | null;
+  expiresAt: Date;
+}
+
+export interface IPlaybackTokenService {
+  sign(payload: PlaybackTokenPayload): string;
+
+  /**
+   * Null if the token is malformed, the signature does not match or it
+   * has expired
+   */
+  verify(token: string): PlaybackTokenPayload | null;
+}
@@ -0,0 +1,63 @@
+/**
+ * Realtime Gateway Interface (Port)
+ *
+ * Short-lived push messages for connected clients: encoding progress and
+ * new notifications. Unlike domain events they are fire-and-forget, a
+ * client that is not connected simply misses them and catches up through
+ * the regular API.
+ */
+
+/** Channel names messages are published on */
+export const RealtimeChannels = {
+  /** Messages for one user (notifications) */
+  user: (userId: string) => `user:${userId}`,
+  /** Processing updates of one video */
+  video: (videoId: string) => `video:${videoId}`,
+} as const;
+
+/** Message types pushed to clients */
+export const RealtimeMessageTypes = {
+  VIDEO_PROGRESS: 'video.progress',
+  VIDEO_STATUS: 'video.status',
+  NOTIFICATION_CREATED: 'notification.created',
+} as const;
+
+export interface RealtimeMessage {
+  channel: string;
+  /** One of RealtimeMessageTypes */
+  type: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Payload of a video.progress message
+ */
+export interface VideoProgressData {
+  videoId: string;
+  /** Overall job progress (0-100) */
+  progress: number;
+  /** Encoding progress per quality (0-100), e.g. { '720p': 42 } */
+  qualities: Record<string, number>;
+}
+
+export type RealtimeHandler = (message: RealtimeMessage) => void;
+
+export interface IRealtimePublisher {
+  /**
+   * Publish a message to everyone subscribed to the channel.
+   * Never rejects, a lost progress update must not fail the caller.
+   */
+  publish(
+    channel: string,
+    type: string,
+    data: Record<string, unknown>
+  ): Promise<void>;
+}
+
+export interface IRealtimeGateway extends IRealtimePublisher {
+  /**
+   * Receive the messages of some channels.
+   * Returns a function that removes the subscription.
+   */
+  subscribe(channels: string[], handler: RealtimeHandler): () => void;
+}
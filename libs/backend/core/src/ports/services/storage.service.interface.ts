@@ -82,6 +82,45 @@ export interface PresignedUrlResult {
   expiresAt: Date;
 }
 
+export interface InitiateMultipartUploadOptions {
+  /** Bucket name */
+  bucket: string;
+  /** Object key (file path) */
+  key: string;
+  /** Content type of the assembled object */
+  contentType?: string;
+}
+
+export interface MultipartUploadRef {
+  /** Bucket name */
+  bucket: string;
+  /** Object key (file path) */
+  key: string;
+  /** Upload ID returned when the upload was initiated */
+  uploadId: string;
+}
+
+export interface PresignedPartUrlOptions extends MultipartUploadRef {
+  /** Part number, from 1 to 10000 */
+  partNumber: number;
+  /** URL expiration time in seconds (default: 3600 = 1 hour) */
+  expiresIn?: number;
+}
+
+export interface UploadedPart {
+  /** Part number */
+  partNumber: number;
+  /** ETag returned when the part was uploaded */
+  etag: string;
+  /** Part size in bytes */
+  size: number;
+}
+
+export interface CompleteMultipartUploadOptions extends MultipartUploadRef {
+  /** Parts to assemble, in part number order */
+  parts: Pick<UploadedPart, 'partNumber' | 'etag'>[];
+}
+
 /**
  * Storage Service Port
  *
@@ -148,6 +187,37 @@ export interface IStorageService {
    */
   getObjectInfo(options: GetObjectOptions): Promise<ObjectInfo>;
 
+  /**
+   * Start a multipart upload and return its upload ID
+   */
+  initiateMultipartUpload(
+    options: InitiateMultipartUploadOptions
+  ): Promise<string>;
+
+  /**
+   * Generate a presigned URL for uploading one part of a multipart upload
+   */
+  generatePresignedPartUrl(
+    options: PresignedPartUrlOptions
+  ): Promise<PresignedUrlResult>;
+
+  /**
+   * List the parts uploaded so far, in part number order
+   */
+  listMultipartParts(options: MultipartUploadRef): Promise<UploadedPart[]>;
+
+  /**
+   * Assemble the uploaded parts into the object
+   */
+  completeMultipartUpload(
+    options: CompleteMultipartUploadOptions
+  ): Promise<void>;
+
+  /**
+   * Abort a multipart upload and discard its parts
+   */
+  abortMultipartUpload(options: MultipartUploadRef): Promise<void>;
+
   /**
    * Get public URL for an object (if bucket is public)
    */
@@ -165,7 +235,7 @@ export interface IStorageService {
 export const StorageBuckets = {
   /** Raw uploaded videos (private) */
   VIDEOS_RAW: 'videos-raw',
-  /** Encoded HLS videos (public-read) */
+  /** Encoded HLS videos (private, played through the playback proxy) */
   VIDEOS_ENCODED: 'videos-encoded',
   /** Video thumbnails (public-read) */
   THUMBNAILS: 'thumbnails',
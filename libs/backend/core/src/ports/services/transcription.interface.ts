@@ -0,0 +1,62 @@
+/**
+ * Transcription Interfaces (Ports)
+ *
+ * ITranscriptionService turns the audio track of a video into timed text;
+ * ITranscriptionQueue runs transcription as its own background job, so it
+ * never delays a video becoming playable.
+ */
+
+export interface TranscriptSegment {
+  /** Start time in seconds */
+  start: number;
+  /** End time in seconds */
+  end: number;
+  text: string;
+}
+
+export interface TranscriptionResult {
+  /** Spoken language (BCP 47 tag), detected unless it was given */
+  language: string;
+  segments: TranscriptSegment[];
+}
+
+export interface TranscribeOptions {
+  /** Spoken language; detected when omitted */
+  language?: string;
+}
+
+export interface ITranscriptionService {
+  /** Engine and model identifier (stored with transcripts) */
+  readonly model: string;
+
+  /**
+   * Transcribe a 16kHz mono WAV file
+   */
+  transcribe(
+    audioPath: string,
+    options?: TranscribeOptions
+  ): Promise<TranscriptionResult>;
+
+  /**
+   * Check if the engine can run
+   */
+  isAvailable(): Promise<boolean>;
+}
+
+export interface TranscriptionJob {
+  videoId: string;
+  /** Raw upload ("bucket/key") to take the audio from */
+  rawFilePath: string;
+}
+
+/** Rejecting schedules a retry, unless it was the last attempt */
+export type TranscriptionJobHandler = (job: TranscriptionJob) => Promise<void>;
+
+export interface ITranscriptionQueue {
+  enqueue(job: TranscriptionJob): Promise<void>;
+
+  /** Start processing jobs with the handler */
+  process(handler: TranscriptionJobHandler): void;
+
+  close(): Promise<void>;
+}
@@ -0,0 +1,24 @@
+/**
+ * Unsubscribe Token Service Interface (Port)
+ *
+ * Signs the tokens of one-click unsubscribe links in notification emails.
+ * They work without logging in and do not expire, so they may only ever
+ * turn emails off.
+ */
+
+import type { UserNotificationType } from '../repositories/notification.repository.interface.js';
+
+/** What a link unsubscribes from: every email, the digest, or one type */
+export type UnsubscribeScope = 'all' | 'digest' | UserNotificationType;
+
+export interface UnsubscribeTokenPayload {
+  userId: string;
+  scope: UnsubscribeScope;
+}
+
+export interface IUnsubscribeTokenService {
+  sign(payload: UnsubscribeTokenPayload): string;
+
+  /** Null if the token is malformed or the signature does not match */
+  verify(token: string): UnsubscribeTokenPayload | null;
+}
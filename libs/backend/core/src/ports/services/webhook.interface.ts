@@ -0,0 +1,56 @@
+/**
+ * Webhook Interfaces (Ports)
+ *
+ * IWebhookSender makes the signed HTTP request of a delivery;
+ * IWebhookQueue schedules deliveries and retries them with backoff.
+ */
+
+export interface WebhookRequest {
+  url: string;
+  /** Key for the HMAC-SHA256 signature */
+  secret: string;
+  deliveryId: string;
+  eventName: string;
+  /** JSON request body */
+  body: string;
+}
+
+export interface WebhookResponse {
+  /** Null if no response was received */
+  statusCode: number | null;
+  /** Truncated response body */
+  body: string | null;
+  durationMs: number;
+  /** Network error, timeout or blocked URL */
+  error: string | null;
+}
+
+export interface IWebhookSender {
+  /** Never rejects; failures are described in the response */
+  send(request: WebhookRequest): Promise<WebhookResponse>;
+}
+
+export interface WebhookDeliveryJob {
+  deliveryId: string;
+}
+
+export interface WebhookJobContext {
+  /** 1 for the first attempt */
+  attempt: number;
+  maxAttempts: number;
+}
+
+/** Rejecting schedules a retry, unless it was the last attempt */
+export type WebhookDeliveryHandler = (
+  job: WebhookDeliveryJob,
+  context: WebhookJobContext
+) => Promise<void>;
+
+export interface IWebhookQueue {
+  enqueue(job: WebhookDeliveryJob): Promise<void>;
+
+  /** Start processing jobs with the handler */
+  process(handler: WebhookDeliveryHandler): void;
+
+  close(): Promise<void>;
+}
@@ -0,0 +1,81 @@
+/**
+ * Delete Caption Use Case
+ *
+ * Removes the caption track of one language of a video, its files and its
+ * entry in the master playlist.
+ */
+
+import type { IVideoRepository } from '../../ports/repositories/video.repository.interface.js';
+import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
+import type { IVideoCaptionRepository } from '../../ports/repositories/video-caption.repository.interface.js';
+import type { IStorageService } from '../../ports/services/storage.service.interface.js';
+import { StorageBuckets } from '../../ports/services/storage.service.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+import {
+  getCaptionStorageKeys,
+  publishVideoCaptions,
+} from './publish-video-captions.use-case.js';
+
+export interface DeleteCaptionInput {
+  videoId: string;
+  userId: string;
+  language: string;
+}
+
+export interface DeleteCaptionOutput {
+  videoId: string;
+  language: string;
+}
+
+export interface DeleteCaptionDependencies {
+  videoRepository: IVideoRepository;
+  postRepository: IPostRepository;
+  captionRepository: IVideoCaptionRepository;
+  storageService: IStorageService;
+}
+
+export class DeleteCaptionUseCase {
+  constructor(private readonly deps: DeleteCaptionDependencies) {}
+
+  async execute(
+    input: DeleteCaptionInput
+  ): Promise<Result<DeleteCaptionOutput>> {
+    // 1. Find the video and check ownership (through its post)
+    const video = await this.deps.videoRepository.findById(input.videoId);
+    if (!video) {
+      return failure(ErrorCodes.NOT_FOUND, 'Video not found');
+    }
+
+    const post = await this.deps.postRepository.findByVideoId(input.videoId);
+    if (!post || post.authorId !== input.userId) {
+      return failure(ErrorCodes.FORBIDDEN, 'You do not own this video');
+    }
+
+    // 2. Delete the track
+    const language = input.language.toLowerCase();
+    const deleted = await this.deps.captionRepository.delete(
+      input.videoId,
+      language
+    );
+    if (!deleted) {
+      return failure(ErrorCodes.NOT_FOUND, 'Caption not found');
+    }
+
+    // 3. Take it out of the master playlist before deleting its files, so
+    //    players never follow a reference to a missing playlist
+    await publishVideoCaptions(
+      this.deps,
+      input.videoId,
+      video.toJSON().duration,
+      await this.deps.captionRepository.findByVideoId(input.videoId)
+    );
+
+    const keys = getCaptionStorageKeys(input.videoId, language);
+    await this.deps.storageService.deleteObjects(
+      StorageBuckets.VIDEOS_ENCODED,
+      [keys.vtt, keys.playlist]
+    );
+
+    return success({ videoId: input.videoId, language });
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Generate Video Transcript Use Case
+ *
+ * Runs speech-to-text on the audio of a video. The transcript is stored for
+ * full-text search, and becomes an auto-generated caption track unless the
+ * author uploaded one for the spoken language.
+ */
+
+import type { IVideoRepository } from '../../ports/repositories/video.repository.interface.js';
+import type { IVideoCaptionRepository } from '../../ports/repositories/video-caption.repository.interface.js';
+import type { IVideoTranscriptRepository } from '../../ports/repositories/video-transcript.repository.interface.js';
+import type { IStorageService } from '../../ports/services/storage.service.interface.js';
+import type {
+  ITranscriptionService,
+  TranscriptSegment,
+} from '../../ports/services/transcription.interface.js';
+import { StorageBuckets } from '../../ports/services/storage.service.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+import {
+  getCaptionStorageKeys,
+  publishVideoCaptions,
+} from './publish-video-captions.use-case.js';
+import { isLanguageTag } from './upload-caption.use-case.js';
+
+export interface GenerateVideoTranscriptInput {
+  videoId: string;
+  /** 16kHz mono WAV of the video's audio */
+  audioPath: string;
+  /** Spoken language; detected when omitted */
+  language?: string;
+}
+
+export interface GenerateVideoTranscriptOutput {
+  language: string;
+  segments: number;
+  /** False if the author has a track for the language, or nothing was said */
+  captionSaved: boolean;
+}
+
+export interface GenerateVideoTranscriptDependencies {
+  videoRepository: IVideoRepository;
+  captionRepository: IVideoCaptionRepository;
+  transcriptRepository: IVideoTranscriptRepository;
+  storageService: IStorageService;
+  transcriptionService: ITranscriptionService;
+}
+
+const formatVttTimestamp = (seconds: number): string => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(
+    s
+  ).padStart(2, '0')}.${String(ms % 1000).padStart(3, '0')}`;
+};
+
+/**
+ * A WebVTT file with a cue per transcript segment
+ */
+export function transcriptToVtt(segments: TranscriptSegment[]): string {
+  const cues = segments
+    .filter((segment) => segment.text.trim().length > 0)
+    .map(
+      (segment) =>
+        `${formatVttTimestamp(segment.start)} --> ${formatVttTimestamp(
+          Math.max(segment.end, segment.start)
+        )}\n${segment.text.trim()}`
+    );
+
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+}
+
+const getGeneratedLabel = (language: string): string => {
+  let name = language;
+  try {
+    name =
+      new Intl.DisplayNames(['en'], { type: 'language' }).of(language) ??
+      language;
+  } catch {
+    // Not a tag Intl knows; show the tag itself
+  }
+  return `${name} (auto-generated)`;
+};
+
+export class GenerateVideoTranscriptUseCase {
+  constructor(private readonly deps: GenerateVideoTranscriptDependencies) {}
+
+  async execute(
+    input: GenerateVideoTranscriptInput
+  ): Promise<Result<GenerateVideoTranscriptOutput>> {
+    // 1. Find the video
+    const video = await this.deps.videoRepository.findById(input.videoId);
+    if (!video) {
+      return failure(ErrorCodes.NOT_FOUND, 'Video not found');
+    }
+
+    // 2. Transcribe the audio
+    const result = await this.deps.transcriptionService.transcribe(
+      input.audioPath,
+      { language: input.language }
+    );
+    const language = result.language.toLowerCase();
+    if (!isLanguageTag(language)) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        `Transcription returned an invalid language "${result.language}"`
+      );
+    }
+
+    const text = result.segments
+      .map((segment) => segment.text.trim())
+      .filter(Boolean)
+      .join(' ');
+    if (!text) {
+      return success({ language, segments: 0, captionSaved: false });
+    }
+
+    // 3. Store the transcript for search
+    await this.deps.transcriptRepository.upsert({
+      videoId: input.videoId,
+      language,
+      text,
+      model: this.deps.transcriptionService.model,
+    });
+
+    // 4. Keep a track the author uploaded for the language
+    const existing = await this.deps.captionRepository.findByLanguage(
+      input.videoId,
+      language
+    );
+    if (existing && !existing.isGenerated) {
+      return success({
+        language,
+        segments: result.segments.length,
+        captionSaved: false,
+      });
+    }
+
+    // 5. Store the generated track (never the default: viewers turn
+    //    auto-generated captions on themselves)
+    await this.deps.storageService.uploadFile({
+      bucket: StorageBuckets.VIDEOS_ENCODED,
+      key: getCaptionStorageKeys(input.videoId, language).vtt,
+      data: Buffer.from(transcriptToVtt(result.segments)),
+      contentType: 'text/vtt',
+    });
+
+    await this.deps.captionRepository.upsert({
+      videoId: input.videoId,
+      language,
+      label: getGeneratedLabel(language),
+      isDefault: existing?.isDefault ?? false,
+      sourceFormat: 'vtt',
+      isGenerated: true,
+    });
+
+    // 6. List it in the master playlist
+    await publishVideoCaptions(
+      this.deps,
+      input.videoId,
+      video.toJSON().duration,
+      await this.deps.captionRepository.findByVideoId(input.videoId)
+    );
+
+    return success({
+      language,
+      segments: result.segments.length,
+      captionSaved: true,
+    });
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Get Video Captions Use Case
+ *
+ * Lists the caption tracks of a video with the URLs of their WebVTT files,
+ * to viewers who may watch the video.
+ */
+
+import type { IVideoRepository } from '../../ports/repositories/video.repository.interface.js';
+import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
+import type {
+  IVideoCaptionRepository,
+  VideoCaption,
+} from '../../ports/repositories/video-caption.repository.interface.js';
+import type { IStorageService } from '../../ports/services/storage.service.interface.js';
+import { StorageBuckets } from '../../ports/services/storage.service.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+import { getCaptionStorageKeys } from './publish-video-captions.use-case.js';
+import { canWatchPostVideo } from '../videos/authorize-video-playback.use-case.js';
+
+export interface VideoCaptionTrack extends VideoCaption {
+  /** Presigned URL of the WebVTT file (expires in an hour) */
+  url: string;
+}
+
+export interface GetVideoCaptionsInput {
+  videoId: string;
+  /** Logged in viewer, if any */
+  userId?: string;
+}
+
+export interface GetVideoCaptionsOutput {
+  captions: VideoCaptionTrack[];
+}
+
+export interface GetVideoCaptionsDependencies {
+  videoRepository: IVideoRepository;
+  postRepository: IPostRepository;
+  captionRepository: IVideoCaptionRepository;
+  storageService: IStorageService;
+}
+
+export class GetVideoCaptionsUseCase {
+  constructor(private readonly deps: GetVideoCaptionsDependencies) {}
+
+  async execute(
+    input: GetVideoCaptionsInput
+  ): Promise<Result<GetVideoCaptionsOutput>> {
+    // 1. Find the video
+    const video = await this.deps.videoRepository.findById(input.videoId);
+    if (!video) {
+      return failure(ErrorCodes.NOT_FOUND, 'Video not found');
+    }
+
+    // 2. Captions are as private as the video. Videos not attached to a
+    //    post yet have no owner to check, as when deleting them.
+    const post = await this.deps.postRepository.findByVideoId(input.videoId);
+    if (post && !canWatchPostVideo(post, input.userId)) {
+      return failure(
+        ErrorCodes.FORBIDDEN,
+        'You do not have permission to watch this video'
+      );
+    }
+
+    // 3. List its tracks
+    const captions = await this.deps.captionRepository.findByVideoId(
+      input.videoId
+    );
+
+    const tracks: VideoCaptionTrack[] = [];
+    for (const caption of captions) {
+      const { url } =
+        await this.deps.storageService.generatePresignedDownloadUrl({
+          bucket: StorageBuckets.VIDEOS_ENCODED,
+          key: getCaptionStorageKeys(input.videoId, caption.language).vtt,
+        });
+      tracks.push({ ...caption, url });
+    }
+
+    return success({ captions: tracks });
+  }
+}
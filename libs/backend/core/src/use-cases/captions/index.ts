@@ -0,0 +1,50 @@
+/**
+ * Caption Use Cases - Barrel Export
+ */
+
+export {
+  PublishVideoCaptionsUseCase,
+  SUBTITLES_GROUP_ID,
+  getCaptionStorageKeys,
+  buildSubtitlePlaylist,
+  applySubtitlesToMasterPlaylist,
+  publishVideoCaptions,
+  type PublishVideoCaptionsInput,
+  type PublishVideoCaptionsOutput,
+  type PublishVideoCaptionsDependencies,
+} from './publish-video-captions.use-case.js';
+
+export {
+  UploadCaptionUseCase,
+  MAX_CAPTION_FILE_SIZE,
+  MAX_CAPTIONS_PER_VIDEO,
+  isLanguageTag,
+  srtToVtt,
+  toWebVtt,
+  type UploadCaptionInput,
+  type UploadCaptionOutput,
+  type UploadCaptionDependencies,
+} from './upload-caption.use-case.js';
+
+export {
+  GetVideoCaptionsUseCase,
+  type VideoCaptionTrack,
+  type GetVideoCaptionsInput,
+  type GetVideoCaptionsOutput,
+  type GetVideoCaptionsDependencies,
+} from './get-video-captions.use-case.js';
+
+export {
+  DeleteCaptionUseCase,
+  type DeleteCaptionInput,
+  type DeleteCaptionOutput,
+  type DeleteCaptionDependencies,
+} from './delete-caption.use-case.js';
+
+export {
+  GenerateVideoTranscriptUseCase,
+  transcriptToVtt,
+  type GenerateVideoTranscriptInput,
+  type GenerateVideoTranscriptOutput,
+  type GenerateVideoTranscriptDependencies,
+} from './generate-video-transcript.use-case.js';
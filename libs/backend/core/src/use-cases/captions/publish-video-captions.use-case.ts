@@ -0,0 +1,199 @@
+/**
+ * Publish Video Captions Use Case
+ *
+ * Makes a video's caption tracks part of its HLS output: writes a subtitle
+ * playlist next to each track's WebVTT file and lists the tracks in the
+ * master playlist as EXT-X-MEDIA subtitle renditions. Run whenever the
+ * tracks change, and by the worker once encoding has written the master
+ * playlist (tracks can be added while the video is still processing).
+ */
+
+import type { IVideoRepository } from '../../ports/repositories/video.repository.interface.js';
+import type {
+  IVideoCaptionRepository,
+  VideoCaption,
+} from '../../ports/repositories/video-caption.repository.interface.js';
+import type { IStorageService } from '../../ports/services/storage.service.interface.js';
+import { StorageBuckets } from '../../ports/services/storage.service.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+/** GROUP-ID of the subtitle renditions in the master playlist */
+export const SUBTITLES_GROUP_ID = 'subs';
+
+const PLAYLIST_CONTENT_TYPE = 'application/vnd.apple.mpegurl';
+
+export interface PublishVideoCaptionsInput {
+  videoId: string;
+}
+
+export interface PublishVideoCaptionsOutput {
+  /** Tracks listed in the master playlist */
+  tracks: number;
+  /** False while the video has no master playlist yet */
+  masterUpdated: boolean;
+}
+
+export interface PublishVideoCaptionsDependencies {
+  videoRepository: IVideoRepository;
+  captionRepository: IVideoCaptionRepository;
+  storageService: IStorageService;
+}
+
+/**
+ * Storage keys (in the encoded videos bucket) of a caption track's files
+ */
+export function getCaptionStorageKeys(
+  videoId: string,
+  language: string
+): { vtt: string; playlist: string } {
+  return {
+    vtt: `${videoId}/captions/${language}.vtt`,
+    playlist: `${videoId}/captions/${language}.m3u8`,
+  };
+}
+
+/**
+ * A subtitle media playlist with the whole WebVTT file as its one segment
+ */
+export function buildSubtitlePlaylist(
+  language: string,
+  duration: number
+): string {
+  return [
+    '#EXTM3U',
+    '#EXT-X-VERSION:3',
+    `#EXT-X-TARGETDURATION:${Math.max(1, Math.ceil(duration))}`,
+    '#EXT-X-MEDIA-SEQUENCE:0',
+    '#EXT-X-PLAYLIST-TYPE:VOD',
+    `#EXTINF:${duration.toFixed(3)},`,
+    `${language}.vtt`,
+    '#EXT-X-ENDLIST',
+    '',
+  ].join('\n');
+}
+
+// Rewriting the renditions again must not pile up blank lines
+const collapseBlankLines = (lines: string[]): string =>
+  lines.join('\n').replace(/\n{3,}/g, '\n\n');
+
+/**
+ * Replace the subtitle renditions of a master playlist with the given
+ * tracks (none removes them) and point every variant at them.
+ */
+export function applySubtitlesToMasterPlaylist(
+  master: string,
+  captions: Pick<VideoCaption, 'language' | 'label' | 'isDefault'>[]
+): string {
+  const lines = master
+    .split('\n')
+    .filter((line) => !line.startsWith('#EXT-X-MEDIA:TYPE=SUBTITLES'))
+    .map((line) =>
+      line.startsWith('#EXT-X-STREAM-INF:')
+        ? line.replace(/,SUBTITLES="[^"]*"/, '')
+        : line
+    );
+
+  if (captions.length === 0) {
+    return collapseBlankLines(lines);
+  }
+
+  const media = captions.map((caption) => {
+    // Quoted attribute values cannot contain quotes or line breaks
+    const name = caption.label.replace(/["\r\n]/g, '').trim();
+    return (
+      `#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="${SUBTITLES_GROUP_ID}",` +
+      `NAME="${name}",LANGUAGE="${caption.language}",` +
+      `DEFAULT=${caption.isDefault ? 'YES' : 'NO'},AUTOSELECT=YES,` +
+      `URI="captions/${caption.language}.m3u8"`
+    );
+  });
+
+  // The renditions go right before the first variant
+  const output: string[] = [];
+  let mediaAdded = false;
+  for (const line of lines) {
+    if (line.startsWith('#EXT-X-STREAM-INF:')) {
+      if (!mediaAdded) {
+        output.push(...media, '');
+        mediaAdded = true;
+      }
+      output.push(`${line},SUBTITLES="${SUBTITLES_GROUP_ID}"`);
+    } else {
+      output.push(line);
+    }
+  }
+  return collapseBlankLines(output);
+}
+
+/**
+ * Write the subtitle playlists and rewrite the master playlist of a video.
+ * Returns false while the video has no master playlist yet.
+ */
+export async function publishVideoCaptions(
+  deps: PublishVideoCaptionsDependencies,
+  videoId: string,
+  duration: number | null,
+  captions: VideoCaption[]
+): Promise<boolean> {
+  // Nothing to reference the tracks from until encoding has written the
+  // master playlist (the duration is known by then)
+  const masterKey = `${videoId}/master.m3u8`;
+  const hasMaster = await deps.storageService.objectExists({
+    bucket: StorageBuckets.VIDEOS_ENCODED,
+    key: masterKey,
+  });
+  if (!hasMaster || !duration) {
+    return false;
+  }
+
+  for (const caption of captions) {
+    await deps.storageService.uploadFile({
+      bucket: StorageBuckets.VIDEOS_ENCODED,
+      key: getCaptionStorageKeys(videoId, caption.language).playlist,
+      data: Buffer.from(buildSubtitlePlaylist(caption.language, duration)),
+      contentType: PLAYLIST_CONTENT_TYPE,
+    });
+  }
+
+  const master = await deps.storageService.getObjectBuffer({
+    bucket: StorageBuckets.VIDEOS_ENCODED,
+    key: masterKey,
+  });
+  await deps.storageService.uploadFile({
+    bucket: StorageBuckets.VIDEOS_ENCODED,
+    key: masterKey,
+    data: Buffer.from(
+      applySubtitlesToMasterPlaylist(master.toString('utf8'), captions)
+    ),
+    contentType: PLAYLIST_CONTENT_TYPE,
+  });
+  return true;
+}
+
+export class PublishVideoCaptionsUseCase {
+  constructor(private readonly deps: PublishVideoCaptionsDependencies) {}
+
+  async execute(
+    input: PublishVideoCaptionsInput
+  ): Promise<Result<PublishVideoCaptionsOutput>> {
+    // 1. Find the video and its tracks
+    const video = await this.deps.videoRepository.findById(input.videoId);
+    if (!video) {
+      return failure(ErrorCodes.NOT_FOUND, 'Video not found');
+    }
+
+    const captions = await this.deps.captionRepository.findByVideoId(
+      input.videoId
+    );
+
+    // 2. Write the playlists
+    const masterUpdated = await publishVideoCaptions(
+      this.deps,
+      input.videoId,
+      video.toJSON().duration,
+      captions
+    );
+
+    return success({ tracks: captions.length, masterUpdated });
+  }
+}
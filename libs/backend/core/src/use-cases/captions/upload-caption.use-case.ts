@@ -0,0 +1,195 @@
+/**
+ * Upload Caption Use Case
+ *
+ * Adds (or replaces) the caption track of one language of a video. Authors
+ * upload WebVTT or SRT; SRT is converted to WebVTT, which is stored next to
+ * the video's HLS output and listed in its master playlist.
+ */
+
+import type { IVideoRepository } from '../../ports/repositories/video.repository.interface.js';
+import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
+import type {
+  IVideoCaptionRepository,
+  VideoCaption,
+  CaptionSourceFormat,
+} from '../../ports/repositories/video-caption.repository.interface.js';
+import type { IStorageService } from '../../ports/services/storage.service.interface.js';
+import { StorageBuckets } from '../../ports/services/storage.service.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+import {
+  getCaptionStorageKeys,
+  publishVideoCaptions,
+} from './publish-video-captions.use-case.js';
+
+/** 2MB of text is hours of captions */
+export const MAX_CAPTION_FILE_SIZE = 2 * 1024 * 1024;
+
+export const MAX_CAPTIONS_PER_VIDEO = 20;
+
+/** BCP 47 language tag, e.g. "en", "pt-BR" or "zh-Hant" */
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+const CUE_TIMING_PATTERN =
+  /^(?:\d{2,}:)?\d{2}:\d{2}\.\d{3}\s+-->\s+(?:\d{2,}:)?\d{2}:\d{2}\.\d{3}/m;
+
+export interface UploadCaptionInput {
+  videoId: string;
+  userId: string;
+  language: string;
+  /** Defaults to the language tag */
+  label?: string;
+  isDefault?: boolean;
+  format: CaptionSourceFormat;
+  content: string;
+}
+
+export interface UploadCaptionOutput {
+  caption: VideoCaption;
+}
+
+export interface UploadCaptionDependencies {
+  videoRepository: IVideoRepository;
+  postRepository: IPostRepository;
+  captionRepository: IVideoCaptionRepository;
+  storageService: IStorageService;
+}
+
+/**
+ * Whether a string is a BCP 47 language tag caption tracks can use
+ */
+export function isLanguageTag(language: string): boolean {
+  return language.length <= 35 && LANGUAGE_PATTERN.test(language);
+}
+
+/**
+ * Convert SubRip subtitles to WebVTT: add the header and use a dot as the
+ * decimal separator of cue timings. Cue numbers are kept as cue identifiers.
+ */
+export function srtToVtt(srt: string): string {
+  const body = srt
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .trim()
+    .replace(
+      /^(\d{2,}:\d{2}:\d{2}),(\d{3})\s+-->\s+(\d{2,}:\d{2}:\d{2}),(\d{3})/gm,
+      '$1.$2 --> $3.$4'
+    );
+
+  return `WEBVTT\n\n${body}\n`;
+}
+
+/**
+ * The caption file as WebVTT, or null if it is not valid for its format
+ */
+export function toWebVtt(
+  content: string,
+  format: CaptionSourceFormat
+): string | null {
+  const vtt =
+    format === 'srt'
+      ? srtToVtt(content)
+      : content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+  if (!/^WEBVTT(?:[ \t].*)?(?:\n|$)/.test(vtt)) return null;
+  if (!CUE_TIMING_PATTERN.test(vtt)) return null;
+  return vtt;
+}
+
+export class UploadCaptionUseCase {
+  constructor(private readonly deps: UploadCaptionDependencies) {}
+
+  async execute(
+    input: UploadCaptionInput
+  ): Promise<Result<UploadCaptionOutput>> {
+    // 1. Validate the track
+    if (!isLanguageTag(input.language)) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        'Language must be a language tag like "en" or "pt-BR"'
+      );
+    }
+
+    const label = (input.label ?? input.language).trim();
+    if (label.length === 0 || label.length > 100) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        'Label must be between 1 and 100 characters'
+      );
+    }
+
+    if (Buffer.byteLength(input.content) > MAX_CAPTION_FILE_SIZE) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        'Caption file exceeds maximum size of 2MB'
+      );
+    }
+
+    const vtt = toWebVtt(input.content, input.format);
+    if (!vtt) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        input.format === 'srt'
+          ? 'Caption file is not valid SRT'
+          : 'Caption file is not valid WebVTT'
+      );
+    }
+
+    // 2. Find the video and check ownership (through its post)
+    const video = await this.deps.videoRepository.findById(input.videoId);
+    if (!video) {
+      return failure(ErrorCodes.NOT_FOUND, 'Video not found');
+    }
+
+    const post = await this.deps.postRepository.findByVideoId(input.videoId);
+    if (!post || post.authorId !== input.userId) {
+      return failure(ErrorCodes.FORBIDDEN, 'You do not own this video');
+    }
+
+    // 3. Check the track limit (replacing a language does not count)
+    const language = input.language.toLowerCase();
+    const captions = await this.deps.captionRepository.findByVideoId(
+      input.videoId
+    );
+    const existing = captions.find((caption) => caption.language === language);
+    if (!existing && captions.length >= MAX_CAPTIONS_PER_VIDEO) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        `Maximum caption limit (${MAX_CAPTIONS_PER_VIDEO}) reached`
+      );
+    }
+
+    // 4. Store the WebVTT file
+    await this.deps.storageService.uploadFile({
+      bucket: StorageBuckets.VIDEOS_ENCODED,
+      key: getCaptionStorageKeys(input.videoId, language).vtt,
+      data: Buffer.from(vtt),
+      contentType: 'text/vtt',
+    });
+
+    // 5. Save the track (the first uploaded one is the default unless told
+    //    otherwise; it replaces a generated track for the language)
+    const isFirstUpload = captions.every((caption) => caption.isGenerated);
+    const caption = await this.deps.captionRepository.upsert({
+      videoId: input.videoId,
+      language,
+      label,
+      isDefault:
+        input.isDefault ??
+        (existing && !existing.isGenerated
+          ? existing.isDefault
+          : isFirstUpload),
+      sourceFormat: input.format,
+      isGenerated: false,
+    });
+
+    // 6. List it in the master playlist
+    await publishVideoCaptions(
+      this.deps,
+      input.videoId,
+      video.toJSON().duration,
+      await this.deps.captionRepository.findByVideoId(input.videoId)
+    );
+
+    return success({ caption });
+  }
+}
@@ -4,10 +4,12 @@
  * Handles liking a comment.
  */
 
-import { CommentLikeEntity } from '@blog/shared/domain';
+import { CommentLikeEntity, CommentLikedEvent } from '@blog/shared/domain';
 import type { ICommentLikeRepository } from '../../ports/repositories/comment-like.repository.interface.js';
 import type { ICommentRepository } from '../../ports/repositories/comment.repository.interface.js';
 import type { IUserRepository } from '../../ports/repositories/user.repository.interface.js';
+import type { IUnitOfWork } from '../../ports/repositories/unit-of-work.interface.js';
+import type { IEventBus } from '../../ports/services/event-bus.interface.js';
 import { type Result, success, failure, ErrorCodes } from '../common/result.js';
 
 export interface LikeCommentInput {
@@ -24,6 +26,10 @@ export interface LikeCommentDependencies {
   commentLikeRepository: ICommentLikeRepository;
   commentRepository: ICommentRepository;
   userRepository: IUserRepository;
+  /** Saves the like and its event (outbox) in one transaction */
+  unitOfWork?: IUnitOfWork;
+  /** Publishes comment.liked after saving (without unitOfWork) */
+  eventBus?: IEventBus;
 }
 
 export class LikeCommentUseCase {
@@ -71,8 +77,24 @@ export class LikeCommentUseCase {
       commentId: input.commentId,
     });
 
-    // 5. Save like
-    await this.deps.commentLikeRepository.save(like);
+    // 5. Save like and publish event
+    const event = new CommentLikedEvent(
+      comment.id,
+      comment.postId,
+      input.userId
+    );
+
+    if (this.deps.unitOfWork) {
+      await this.deps.unitOfWork.execute(
+        async ({ commentLikeRepository, outboxRepository }) => {
+          await commentLikeRepository.save(like);
+          await outboxRepository.add([event]);
+        }
+      );
+    } else {
+      await this.deps.commentLikeRepository.save(like);
+      await this.deps.eventBus?.publish(event);
+    }
 
     // 6. Get updated like count
     const likeCount = await this.deps.commentLikeRepository.countByCommentId(
@@ -4,10 +4,16 @@
  * Handles creating a new comment or reply with business rules validation.
  */
 
-import { CommentEntity, CommentStatus } from '@blog/shared/domain';
+import {
+  CommentEntity,
+  CommentStatus,
+  CommentCreatedEvent,
+} from '@blog/shared/domain';
 import type { ICommentRepository } from '../../ports/repositories/comment.repository.interface.js';
 import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
 import type { IUserRepository } from '../../ports/repositories/user.repository.interface.js';
+import type { IUnitOfWork } from '../../ports/repositories/unit-of-work.interface.js';
+import type { IEventBus } from '../../ports/services/event-bus.interface.js';
 import { type Result, success, failure, ErrorCodes } from '../common/result.js';
 
 export interface CreateCommentInput {
@@ -43,6 +49,10 @@ export interface CreateCommentDependencies {
   commentRepository: ICommentRepository;
   postRepository: IPostRepository;
   userRepository: IUserRepository;
+  /** Saves the comment and its event (outbox) in one transaction */
+  unitOfWork?: IUnitOfWork;
+  /** Publishes comment.created after saving (without unitOfWork) */
+  eventBus?: IEventBus;
 }
 
 export class CreateCommentUseCase {
@@ -171,8 +181,25 @@ export class CreateCommentUseCase {
 
     const comment = CommentEntity.fromPersistence(commentData);
 
-    // 7. Save comment
-    await this.deps.commentRepository.save(comment);
+    // 7. Save comment and publish event
+    const event = new CommentCreatedEvent(
+      commentData.id,
+      commentData.postId,
+      commentData.userId,
+      commentData.parentId ?? undefined
+    );
+
+    if (this.deps.unitOfWork) {
+      await this.deps.unitOfWork.execute(
+        async ({ commentRepository, outboxRepository }) => {
+          await commentRepository.save(comment);
+          await outboxRepository.add([event]);
+        }
+      );
+    } else {
+      await this.deps.commentRepository.save(comment);
+      await this.deps.eventBus?.publish(event);
+    }
 
     // 8. Return result
     return success({
@@ -85,6 +85,9 @@ export const ErrorCodes = {
   VIDEO_NOT_FOUND: 'VIDEO_NOT_FOUND',
   VIDEO_PROCESSING_FAILED: 'VIDEO_PROCESSING_FAILED',
 
+  // Search
+  SEARCH_UNAVAILABLE: 'SEARCH_UNAVAILABLE',
+
   // General
   INTERNAL_ERROR: 'INTERNAL_ERROR',
   NOT_FOUND: 'NOT_FOUND',
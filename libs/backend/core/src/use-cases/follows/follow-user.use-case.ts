@@ -4,9 +4,11 @@
  * Handles following another user with business rules validation.
  */
 
-import { FollowEntity } from '@blog/shared/domain';
+import { FollowEntity, UserFollowedEvent } from '@blog/shared/domain';
 import type { IFollowRepository } from '../../ports/repositories/follow.repository.interface.js';
 import type { IUserRepository } from '../../ports/repositories/user.repository.interface.js';
+import type { IUnitOfWork } from '../../ports/repositories/unit-of-work.interface.js';
+import type { IEventBus } from '../../ports/services/event-bus.interface.js';
 import { type Result, success, failure, ErrorCodes } from '../common/result.js';
 
 export interface FollowUserInput {
@@ -30,6 +32,10 @@ export interface FollowUserOutput {
 export interface FollowUserDependencies {
   followRepository: IFollowRepository;
   userRepository: IUserRepository;
+  /** Saves the follow and its event (outbox) in one transaction */
+  unitOfWork?: IUnitOfWork;
+  /** Publishes user.followed after saving (without unitOfWork) */
+  eventBus?: IEventBus;
 }
 
 export class FollowUserUseCase {
@@ -83,14 +89,31 @@ export class FollowUserUseCase {
       followingId: followingData.id,
     });
 
-    await this.deps.followRepository.save(follow);
+    // 6. Save follow and publish event
+    const event = new UserFollowedEvent(
+      followingData.id,
+      followerData.id,
+      follow.id
+    );
+
+    if (this.deps.unitOfWork) {
+      await this.deps.unitOfWork.execute(
+        async ({ followRepository, outboxRepository }) => {
+          await followRepository.save(follow);
+          await outboxRepository.add([event]);
+        }
+      );
+    } else {
+      await this.deps.followRepository.save(follow);
+      await this.deps.eventBus?.publish(event);
+    }
 
-    // 6. Get updated follower count
+    // 7. Get updated follower count
     const followerCount = await this.deps.followRepository.countFollowers(
       followingData.id
     );
 
-    // 7. Return result
+    // 8. Return result
     return success({
       success: true,
       following: {
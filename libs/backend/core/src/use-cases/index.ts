@@ -29,4 +29,19 @@ export * from './comment-likes/index.js';
 // Video Use Cases
 export * from './videos/index.js';
 
+// Caption Use Cases
+export * from './captions/index.js';
+
 export * from './bookmarks/index.js';
+
+// Search Use Cases
+export * from './search/index.js';
+
+// View Tracking Use Cases
+export * from './views/index.js';
+
+// Notification Use Cases
+export * from './notifications/index.js';
+
+// Webhook Use Cases
+export * from './webhooks/index.js';
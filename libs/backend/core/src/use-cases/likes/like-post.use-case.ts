@@ -4,10 +4,12 @@
  * Handles liking a post with business rules validation.
  */
 
-import { LikeEntity } from '@blog/shared/domain';
+import { LikeEntity, PostLikedEvent } from '@blog/shared/domain';
 import type { ILikeRepository } from '../../ports/repositories/like.repository.interface.js';
 import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
 import type { IUserRepository } from '../../ports/repositories/user.repository.interface.js';
+import type { IUnitOfWork } from '../../ports/repositories/unit-of-work.interface.js';
+import type { IEventBus } from '../../ports/services/event-bus.interface.js';
 import { type Result, success, failure, ErrorCodes } from '../common/result.js';
 
 export interface LikePostInput {
@@ -26,6 +28,10 @@ export interface LikePostDependencies {
   likeRepository: ILikeRepository;
   postRepository: IPostRepository;
   userRepository: IUserRepository;
+  /** Saves the like and its event (outbox) in one transaction */
+  unitOfWork?: IUnitOfWork;
+  /** Publishes post.liked after saving (without unitOfWork) */
+  eventBus?: IEventBus;
 }
 
 export class LikePostUseCase {
@@ -80,13 +86,25 @@ export class LikePostUseCase {
       );
     }
 
-    // 4. Create like
+    // 4. Create like and publish event
     const like = LikeEntity.create({
       userId: input.userId,
       postId,
     });
 
-    await this.deps.likeRepository.save(like);
+    const event = new PostLikedEvent(postId, input.userId);
+
+    if (this.deps.unitOfWork) {
+      await this.deps.unitOfWork.execute(
+        async ({ likeRepository, outboxRepository }) => {
+          await likeRepository.save(like);
+          await outboxRepository.add([event]);
+        }
+      );
+    } else {
+      await this.deps.likeRepository.save(like);
+      await this.deps.eventBus?.publish(event);
+    }
 
     // 5. Get updated like count from database (trigger has updated post.like_count)
     const updatedPost = await this.deps.postRepository.findById(postId);
@@ -0,0 +1,389 @@
+/**
+ * Create Event Notifications Use Case
+ *
+ * Turns a domain event into in-app notifications for the users it concerns:
+ * follows, comment replies, mentions, post/comment likes and video
+ * processing results. Users are never notified of their own actions, and
+ * every notification has a dedupe key so redelivered events (and liking
+ * again after unliking) do not notify twice. Connected recipients are told
+ * through the realtime gateway so their bell updates without polling.
+ * Each recipient's preferences decide whether a type shows in-app and/or
+ * is emailed right away; types not emailed go to their digest.
+ */
+
+import type { IUserRepository } from '../../ports/repositories/user.repository.interface.js';
+import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
+import type { ICommentRepository } from '../../ports/repositories/comment.repository.interface.js';
+import type {
+  INotificationRepository,
+  CreateNotificationInput,
+} from '../../ports/repositories/notification.repository.interface.js';
+import type { INotificationPreferenceRepository } from '../../ports/repositories/notification-preference.repository.interface.js';
+import type { IEmailService } from '../../ports/services/email.service.interface.js';
+import type { IUnsubscribeTokenService } from '../../ports/services/unsubscribe-token.interface.js';
+import type { DomainEventMessage } from '../../ports/services/event-bus.interface.js';
+import {
+  type IRealtimePublisher,
+  RealtimeChannels,
+  RealtimeMessageTypes,
+} from '../../ports/services/realtime.interface.js';
+import { type Result, success } from '../common/result.js';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  resolveNotificationPreferences,
+} from './get-notification-preferences.use-case.js';
+
+export interface CreateEventNotificationsOutput {
+  /** Notifications created (duplicates are not counted) */
+  created: number;
+}
+
+export interface CreateEventNotificationsDependencies {
+  notificationRepository: INotificationRepository;
+  userRepository: IUserRepository;
+  postRepository: IPostRepository;
+  commentRepository: ICommentRepository;
+  /** Pushes notification.created to the recipient */
+  realtimePublisher?: IRealtimePublisher;
+  /** Without it everyone gets the default preferences */
+  preferenceRepository?: INotificationPreferenceRepository;
+  /** Instant emails are only sent with all of the following */
+  emailService?: IEmailService;
+  unsubscribeTokenService?: IUnsubscribeTokenService;
+  /** Web app URL for links in emails */
+  appUrl?: string;
+}
+
+interface NotificationEmailContent {
+  subject: string;
+  message: string;
+  actionUrl: string;
+  actionLabel: string;
+}
+
+/** Events this use case creates notifications for */
+export const NOTIFICATION_EVENTS = [
+  'user.followed',
+  'comment.created',
+  'post.liked',
+  'comment.liked',
+  'video.processing_completed',
+  'video.processing_failed',
+] as const;
+
+const MAX_MENTIONS_PER_COMMENT = 10;
+const MENTION_PATTERN =
+  /(?:^|[^a-z0-9_@-])@([a-z0-9][a-z0-9_-]{1,48}[a-z0-9])/gi;
+
+/**
+ * Usernames mentioned as @username in a text (lowercased, unique)
+ */
+export function extractMentions(text: string): string[] {
+  const usernames = new Set<string>();
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    usernames.add(match[1].toLowerCase());
+    if (usernames.size >= MAX_MENTIONS_PER_COMMENT) break;
+  }
+  return [...usernames];
+}
+
+export class CreateEventNotificationsUseCase {
+  constructor(private readonly deps: CreateEventNotificationsDependencies) {}
+
+  async execute(
+    event: DomainEventMessage
+  ): Promise<Result<CreateEventNotificationsOutput>> {
+    // 1. Work out who to notify
+    const notifications = await this.buildNotifications(event);
+
+    // 2. Deliver them on the channels each recipient wants, skipping
+    //    self-notifications and duplicates
+    let created = 0;
+    for (const notification of notifications) {
+      if (
+        notification.actorId &&
+        notification.actorId === notification.userId
+      ) {
+        continue;
+      }
+
+      const channels = await this.getChannels(notification);
+      if (channels.inApp) {
+        if (!(await this.deps.notificationRepository.create(notification))) {
+          continue;
+        }
+        created++;
+        await this.deps.realtimePublisher?.publish(
+          RealtimeChannels.user(notification.userId),
+          RealtimeMessageTypes.NOTIFICATION_CREATED,
+          { type: notification.type }
+        );
+      }
+      // Without an in-app notification there is no dedupe key to check, so
+      // a redelivered event may email twice
+      if (channels.email) {
+        await this.sendEmail(notification);
+      }
+    }
+
+    return success({ created });
+  }
+
+  private async buildNotifications(
+    event: DomainEventMessage
+  ): Promise<CreateNotificationInput[]> {
+    const payload = event.payload;
+
+    switch (event.eventName) {
+      case 'user.followed': {
+        const followerId = payload.followerId as string;
+        return [
+          {
+            userId: event.aggregateId,
+            type: 'follow',
+            actorId: followerId,
+            dedupeKey: `follow:${followerId}:${event.aggregateId}`,
+          },
+        ];
+      }
+
+      case 'comment.created':
+        return this.buildCommentNotifications(event);
+
+      case 'post.liked': {
+        const post = await this.deps.postRepository.findById(event.aggregateId);
+        if (!post) return [];
+
+        const userId = payload.userId as string;
+        return [
+          {
+            userId: post.authorId,
+            type: 'post_like',
+            actorId: userId,
+            postId: post.id,
+            dedupeKey: `post_like:${post.id}:${userId}`,
+          },
+        ];
+      }
+
+      case 'comment.liked': {
+        const comment = await this.deps.commentRepository.findById(
+          event.aggregateId
+        );
+        if (!comment) return [];
+
+        const userId = payload.userId as string;
+        return [
+          {
+            userId: comment.userId,
+            type: 'comment_like',
+            actorId: userId,
+            postId: comment.postId,
+            commentId: comment.id,
+            dedupeKey: `comment_like:${comment.id}:${userId}`,
+          },
+        ];
+      }
+
+      case 'video.processing_completed':
+      case 'video.processing_failed': {
+        // Videos have no uploader column; the author of the post they are
+        // attached to is notified. Videos not attached yet are skipped, their
+        // uploader is watching the status on the upload page.
+        const post = await this.deps.postRepository.findByVideoId(
+          event.aggregateId
+        );
+        if (!post) return [];
+
+        const ready = event.eventName === 'video.processing_completed';
+        return [
+          {
+            userId: post.authorId,
+            type: ready ? 'video_ready' : 'video_failed',
+            postId: post.id,
+            videoId: event.aggregateId,
+            data: ready
+              ? { qualities: payload.qualities }
+              : { error: payload.error },
+            // A video can fail again after a retry, but is only ready once
+            dedupeKey: ready
+              ? `video_ready:${event.aggregateId}`
+              : `video_failed:${event.eventId}`,
+          },
+        ];
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  private async buildCommentNotifications(
+    event: DomainEventMessage
+  ): Promise<CreateNotificationInput[]> {
+    const comment = await this.deps.commentRepository.findById(
+      event.aggregateId
+    );
+    if (!comment) return [];
+
+    const notifications: CreateNotificationInput[] = [];
+    const notified = new Set<string>([comment.userId]);
+
+    // Reply to a comment
+    if (comment.parentId) {
+      const parent = await this.deps.commentRepository.findById(
+        comment.parentId
+      );
+      if (parent && !notified.has(parent.userId)) {
+        notified.add(parent.userId);
+        notifications.push({
+          userId: parent.userId,
+          type: 'comment_reply',
+          actorId: comment.userId,
+          postId: comment.postId,
+          commentId: comment.id,
+          dedupeKey: `comment_reply:${comment.id}`,
+        });
+      }
+    }
+
+    // @mentions (a replied-to user gets the reply notification only)
+    for (const username of extractMentions(comment.content)) {
+      const user = await this.deps.userRepository.findByUsername(username);
+      if (!user || notified.has(user.id)) continue;
+
+      notified.add(user.id);
+      notifications.push({
+        userId: user.id,
+        type: 'mention',
+        actorId: comment.userId,
+        postId: comment.postId,
+        commentId: comment.id,
+        dedupeKey: `mention:${comment.id}:${user.id}`,
+      });
+    }
+
+    return notifications;
+  }
+
+  private async getChannels(
+    notification: CreateNotificationInput
+  ): Promise<{ inApp: boolean; email: boolean }> {
+    if (!this.deps.preferenceRepository) {
+      return DEFAULT_NOTIFICATION_PREFERENCES[notification.type];
+    }
+
+    const preferences = resolveNotificationPreferences(
+      await this.deps.preferenceRepository.findByUserId(notification.userId)
+    );
+    const preference = preferences.types.find(
+      (p) => p.type === notification.type
+    );
+    return preference ?? DEFAULT_NOTIFICATION_PREFERENCES[notification.type];
+  }
+
+  private async sendEmail(
+    notification: CreateNotificationInput
+  ): Promise<void> {
+    const { emailService, unsubscribeTokenService, appUrl } = this.deps;
+    if (!emailService?.isConfigured() || !unsubscribeTokenService || !appUrl) {
+      return;
+    }
+
+    const recipient = await this.deps.userRepository.findById(
+      notification.userId
+    );
+    if (!recipient || !recipient.isActive || !recipient.isEmailVerified) {
+      return;
+    }
+
+    const content = await this.buildEmailContent(notification, appUrl);
+    if (!content) return;
+
+    const token = unsubscribeTokenService.sign({
+      userId: recipient.id,
+      scope: notification.type,
+    });
+    // A failed email is not worth redelivering the event for; the
+    // notification is still in-app
+    await emailService.sendNotificationEmail({
+      to: recipient.email,
+      username: recipient.toJSON().fullName || recipient.username,
+      ...content,
+      unsubscribeUrl: `${appUrl}/unsubscribe?token=${token}`,
+    });
+  }
+
+  private async buildEmailContent(
+    notification: CreateNotificationInput,
+    appUrl: string
+  ): Promise<NotificationEmailContent | null> {
+    const actor = notification.actorId
+      ? await this.deps.userRepository.findById(notification.actorId)
+      : null;
+    const post = notification.postId
+      ? await this.deps.postRepository.findById(notification.postId)
+      : null;
+
+    const actorName = actor
+      ? actor.toJSON().fullName || actor.username
+      : 'Someone';
+    const postTitle = post ? `"${post.title}"` : 'a post';
+    const postUrl = post ? `${appUrl}/posts/${post.slug}` : appUrl;
+
+    switch (notification.type) {
+      case 'follow':
+        if (!actor) return null;
+        return {
+          subject: `${actorName} started following you`,
+          message: `${actorName} started following you.`,
+          actionUrl: `${appUrl}/users/${actor.username}`,
+          actionLabel: 'View profile',
+        };
+      case 'comment_reply':
+        return {
+          subject: `${actorName} replied to your comment`,
+          message: `${actorName} replied to your comment on ${postTitle}.`,
+          actionUrl: postUrl,
+          actionLabel: 'View reply',
+        };
+      case 'mention':
+        return {
+          subject: `${actorName} mentioned you`,
+          message: `${actorName} mentioned you in a comment on ${postTitle}.`,
+          actionUrl: postUrl,
+          actionLabel: 'View comment',
+        };
+      case 'post_like':
+        return {
+          subject: `${actorName} liked your post`,
+          message: `${actorName} liked your post ${postTitle}.`,
+          actionUrl: postUrl,
+          actionLabel: 'View post',
+        };
+      case 'comment_like':
+        return {
+          subject: `${actorName} liked your comment`,
+          message: `${actorName} liked your comment on ${postTitle}.`,
+          actionUrl: postUrl,
+          actionLabel: 'View comment',
+        };
+      case 'video_ready':
+        return {
+          subject: 'Your video is ready',
+          message: `Your video for ${postTitle} is ready to watch.`,
+          actionUrl: postUrl,
+          actionLabel: 'Watch video',
+        };
+      case 'video_failed':
+        return {
+          subject: 'Your video failed to process',
+          message: `Your video for ${postTitle} failed to process.`,
+          actionUrl: postUrl,
+          actionLabel: 'View post',
+        };
+      default:
+        return null;
+    }
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Get Notification Preferences Use Case
+ *
+ * Returns the current user's notification preferences, with defaults for
+ * everything they have not changed.
+ */
+
+import type { UserNotificationType } from '../../ports/repositories/notification.repository.interface.js';
+import type {
+  INotificationPreferenceRepository,
+  DigestFrequency,
+  NotificationTypePreference,
+  StoredNotificationPreferences,
+} from '../../ports/repositories/notification-preference.repository.interface.js';
+import { type Result, success } from '../common/result.js';
+
+export interface GetNotificationPreferencesInput {
+  userId: string;
+}
+
+export interface NotificationPreferences {
+  /** One entry per notification type, in NOTIFICATION_TYPES order */
+  types: NotificationTypePreference[];
+  digestFrequency: DigestFrequency;
+}
+
+export interface GetNotificationPreferencesDependencies {
+  preferenceRepository: INotificationPreferenceRepository;
+}
+
+/** Every notification type, in the order settings list them */
+export const NOTIFICATION_TYPES: readonly UserNotificationType[] = [
+  'comment_reply',
+  'mention',
+  'follow',
+  'post_like',
+  'comment_like',
+  'video_ready',
+  'video_failed',
+];
+
+/**
+ * Defaults: everything in-app; instant email only for what needs an
+ * answer or concerns the user's own uploads, the rest goes to the digest
+ */
+export const DEFAULT_NOTIFICATION_PREFERENCES: Record<
+  UserNotificationType,
+  { inApp: boolean; email: boolean }
+> = {
+  comment_reply: { inApp: true, email: true },
+  mention: { inApp: true, email: true },
+  follow: { inApp: true, email: false },
+  post_like: { inApp: true, email: false },
+  comment_like: { inApp: true, email: false },
+  video_ready: { inApp: true, email: true },
+  video_failed: { inApp: true, email: true },
+};
+
+export const DEFAULT_DIGEST_FREQUENCY: DigestFrequency = 'weekly';
+
+/**
+ * Merge stored preferences over the defaults
+ */
+export function resolveNotificationPreferences(
+  stored: StoredNotificationPreferences
+): NotificationPreferences {
+  const byType = new Map(stored.types.map((p) => [p.type, p]));
+
+  return {
+    types: NOTIFICATION_TYPES.map((type) => ({
+      type,
+      inApp:
+        byType.get(type)?.inApp ?? DEFAULT_NOTIFICATION_PREFERENCES[type].inApp,
+      email:
+        byType.get(type)?.email ?? DEFAULT_NOTIFICATION_PREFERENCES[type].email,
+    })),
+    digestFrequency: stored.digestFrequency ?? DEFAULT_DIGEST_FREQUENCY,
+  };
+}
+
+export class GetNotificationPreferencesUseCase {
+  constructor(private readonly deps: GetNotificationPreferencesDependencies) {}
+
+  async execute(
+    input: GetNotificationPreferencesInput
+  ): Promise<Result<NotificationPreferences>> {
+    const stored = await this.deps.preferenceRepository.findByUserId(
+      input.userId
+    );
+    return success(resolveNotificationPreferences(stored));
+  }
+}
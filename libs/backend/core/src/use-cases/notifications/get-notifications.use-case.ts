@@ -0,0 +1,89 @@
+/**
+ * Get Notifications Use Case
+ *
+ * Lists the current user's in-app notifications, newest first, with the
+ * unread count for the notification badge.
+ */
+
+import type {
+  INotificationRepository,
+  NotificationCursor,
+  UserNotification,
+} from '../../ports/repositories/notification.repository.interface.js';
+import {
+  encodeSearchCursor,
+  decodeSearchCursor,
+} from '../search/search-posts.use-case.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+export interface GetNotificationsInput {
+  userId: string;
+  /** Opaque cursor from a previous page (nextCursor) */
+  cursor?: string;
+  /** Page size (default: 20, max: 50) */
+  limit?: number;
+  /** Only list unread notifications */
+  unreadOnly?: boolean;
+}
+
+export interface GetNotificationsOutput {
+  notifications: UserNotification[];
+  nextCursor: string | null;
+  hasMore: boolean;
+  unreadCount: number;
+}
+
+export interface GetNotificationsDependencies {
+  notificationRepository: INotificationRepository;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+export class GetNotificationsUseCase {
+  constructor(private readonly deps: GetNotificationsDependencies) {}
+
+  async execute(
+    input: GetNotificationsInput
+  ): Promise<Result<GetNotificationsOutput>> {
+    // 1. Validate input
+    const requestedLimit = Number.isFinite(input.limit)
+      ? (input.limit as number)
+      : DEFAULT_LIMIT;
+    const limit = Math.min(Math.max(requestedLimit, 1), MAX_LIMIT);
+
+    // The (score, id) cursor carries created_at as epoch milliseconds
+    let cursor: NotificationCursor | undefined;
+    if (input.cursor) {
+      const decoded = decodeSearchCursor(input.cursor);
+      if (!decoded) {
+        return failure(ErrorCodes.INVALID_INPUT, 'Invalid cursor');
+      }
+      cursor = { createdAt: new Date(decoded.rank), id: decoded.id };
+    }
+
+    // 2. Fetch one extra notification to know if there is a next page
+    const [notifications, unreadCount] = await Promise.all([
+      this.deps.notificationRepository.findByUserId(input.userId, {
+        limit: limit + 1,
+        cursor,
+        unreadOnly: input.unreadOnly,
+      }),
+      this.deps.notificationRepository.countUnread(input.userId),
+    ]);
+    const hasMore = notifications.length > limit;
+    const page = hasMore ? notifications.slice(0, limit) : notifications;
+
+    // 3. Return result
+    const last = page[page.length - 1];
+    return success({
+      notifications: page,
+      nextCursor:
+        hasMore && last
+          ? encodeSearchCursor({ rank: last.createdAt.getTime(), id: last.id })
+          : null,
+      hasMore,
+      unreadCount,
+    });
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Notification Use Cases - Barrel Export
+ */
+
+export {
+  GetNotificationsUseCase,
+  type GetNotificationsInput,
+  type GetNotificationsOutput,
+  type GetNotificationsDependencies,
+} from './get-notifications.use-case.js';
+
+export {
+  MarkNotificationsReadUseCase,
+  type MarkNotificationsReadInput,
+  type MarkNotificationsReadOutput,
+  type MarkNotificationsReadDependencies,
+} from './mark-notifications-read.use-case.js';
+
+export {
+  CreateEventNotificationsUseCase,
+  NOTIFICATION_EVENTS,
+  extractMentions,
+  type CreateEventNotificationsOutput,
+  type CreateEventNotificationsDependencies,
+} from './create-event-notifications.use-case.js';
+
+export {
+  GetNotificationPreferencesUseCase,
+  NOTIFICATION_TYPES,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  DEFAULT_DIGEST_FREQUENCY,
+  resolveNotificationPreferences,
+  type GetNotificationPreferencesInput,
+  type NotificationPreferences,
+  type GetNotificationPreferencesDependencies,
+} from './get-notification-preferences.use-case.js';
+
+export {
+  UpdateNotificationPreferencesUseCase,
+  type UpdateNotificationPreferencesInput,
+  type UpdateNotificationPreferencesDependencies,
+} from './update-notification-preferences.use-case.js';
+
+export {
+  UnsubscribeNotificationsUseCase,
+  type UnsubscribeNotificationsInput,
+  type UnsubscribeNotificationsOutput,
+  type UnsubscribeNotificationsDependencies,
+} from './unsubscribe-notifications.use-case.js';
+
+export {
+  SendNotificationDigestsUseCase,
+  type SendNotificationDigestsInput,
+  type SendNotificationDigestsOutput,
+  type SendNotificationDigestsDependencies,
+} from './send-notification-digests.use-case.js';
@@ -0,0 +1,62 @@
+/**
+ * Mark Notifications Read Use Case
+ *
+ * Marks some (or all) of the current user's notifications as read.
+ */
+
+import type { INotificationRepository } from '../../ports/repositories/notification.repository.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+export interface MarkNotificationsReadInput {
+  userId: string;
+  /** Notifications to mark; all unread notifications when omitted */
+  notificationIds?: string[];
+}
+
+export interface MarkNotificationsReadOutput {
+  updated: number;
+  unreadCount: number;
+}
+
+export interface MarkNotificationsReadDependencies {
+  notificationRepository: INotificationRepository;
+}
+
+const MAX_IDS = 100;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class MarkNotificationsReadUseCase {
+  constructor(private readonly deps: MarkNotificationsReadDependencies) {}
+
+  async execute(
+    input: MarkNotificationsReadInput
+  ): Promise<Result<MarkNotificationsReadOutput>> {
+    const { notificationRepository } = this.deps;
+
+    // 1. Validate input
+    if (input.notificationIds) {
+      if (input.notificationIds.length > MAX_IDS) {
+        return failure(
+          ErrorCodes.VALIDATION_ERROR,
+          `At most ${MAX_IDS} notifications can be marked at once`
+        );
+      }
+      if (!input.notificationIds.every((id) => UUID_PATTERN.test(id))) {
+        return failure(ErrorCodes.INVALID_INPUT, 'Invalid notification ID');
+      }
+    }
+
+    // 2. Mark as read (only the user's own notifications are touched)
+    const updated = input.notificationIds
+      ? await notificationRepository.markRead(
+          input.userId,
+          input.notificationIds
+        )
+      : await notificationRepository.markAllRead(input.userId);
+
+    // 3. Return result
+    const unreadCount = await notificationRepository.countUnread(input.userId);
+    return success({ updated, unreadCount });
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Send Notification Digests Use Case
+ *
+ * Emails daily or weekly digests to the users due for one: new posts from
+ * people they follow, plus replies and likes they did not get instant
+ * emails for. Run periodically by a job; a digest covers the time since
+ * the previous one (at most one period).
+ */
+
+import type {
+  INotificationDigestRepository,
+  DigestContent,
+} from '../../ports/repositories/notification-digest.repository.interface.js';
+import type { INotificationPreferenceRepository } from '../../ports/repositories/notification-preference.repository.interface.js';
+import type { IEmailService } from '../../ports/services/email.service.interface.js';
+import type { IUnsubscribeTokenService } from '../../ports/services/unsubscribe-token.interface.js';
+import { type Result, success } from '../common/result.js';
+import { resolveNotificationPreferences } from './get-notification-preferences.use-case.js';
+
+export interface SendNotificationDigestsInput {
+  frequency: 'daily' | 'weekly';
+  /** Web app URL for unsubscribe links */
+  appUrl: string;
+  now?: Date;
+  /** Recipients loaded per query (default: 100) */
+  batchSize?: number;
+}
+
+export interface SendNotificationDigestsOutput {
+  sent: number;
+  /** Nothing happened since the last digest */
+  skipped: number;
+  /** Left due, retried on the next run */
+  failed: number;
+}
+
+export interface SendNotificationDigestsDependencies {
+  digestRepository: INotificationDigestRepository;
+  preferenceRepository: INotificationPreferenceRepository;
+  emailService: IEmailService;
+  unsubscribeTokenService: IUnsubscribeTokenService;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PERIOD_MS = { daily: DAY_MS, weekly: 7 * DAY_MS };
+// Runs are not exactly one period apart; without slack a digest would
+// slip by one run interval every period
+const SCHEDULE_SLACK_MS = 60 * 60 * 1000;
+const ITEMS_PER_SECTION = 10;
+
+function isEmpty(content: DigestContent): boolean {
+  return (
+    content.newPosts.length === 0 &&
+    content.replies.length === 0 &&
+    content.postLikes.length === 0 &&
+    content.commentLikeCount === 0
+  );
+}
+
+export class SendNotificationDigestsUseCase {
+  constructor(private readonly deps: SendNotificationDigestsDependencies) {}
+
+  async execute(
+    input: SendNotificationDigestsInput
+  ): Promise<Result<SendNotificationDigestsOutput>> {
+    const { digestRepository, preferenceRepository, emailService } = this.deps;
+    const now = input.now ?? new Date();
+    const periodMs = PERIOD_MS[input.frequency];
+    const sentBefore = new Date(now.getTime() - periodMs + SCHEDULE_SLACK_MS);
+    const batchSize = input.batchSize ?? 100;
+
+    let sent = 0;
+    let skipped = 0;
+    const failedUserIds = new Set<string>();
+
+    for (;;) {
+      // 1. Load the next users due (failed ones stay due, skip them)
+      const recipients = (
+        await digestRepository.findDueRecipients(
+          input.frequency,
+          sentBefore,
+          batchSize + failedUserIds.size
+        )
+      ).filter((recipient) => !failedUserIds.has(recipient.userId));
+      if (recipients.length === 0) break;
+
+      for (const recipient of recipients) {
+        // 2. Replies and likes are included unless emailed instantly
+        const preferences = resolveNotificationPreferences(
+          await preferenceRepository.findByUserId(recipient.userId)
+        );
+        const emailed = new Set(
+          preferences.types.filter((p) => p.email).map((p) => p.type)
+        );
+
+        const windowStart = Math.max(
+          recipient.lastDigestSentAt?.getTime() ?? 0,
+          now.getTime() - periodMs
+        );
+        const content = await digestRepository.getContent(
+          recipient.userId,
+          new Date(windowStart),
+          {
+            limit: ITEMS_PER_SECTION,
+            includeReplies: !emailed.has('comment_reply'),
+            includeLikes:
+              !emailed.has('post_like') || !emailed.has('comment_like'),
+          }
+        );
+
+        // 3. Send (nothing to report still moves the window)
+        if (isEmpty(content)) {
+          await digestRepository.markSent(recipient.userId, now);
+          skipped++;
+          continue;
+        }
+
+        const token = this.deps.unsubscribeTokenService.sign({
+          userId: recipient.userId,
+          scope: 'digest',
+        });
+        const result = await emailService.sendDigestEmail({
+          to: recipient.email,
+          username: recipient.fullName || recipient.username,
+          frequency: input.frequency,
+          content,
+          unsubscribeUrl: `${input.appUrl}/unsubscribe?token=${token}`,
+        });
+
+        if (result.success) {
+          await digestRepository.markSent(recipient.userId, now);
+          sent++;
+        } else {
+          failedUserIds.add(recipient.userId);
+        }
+      }
+    }
+
+    return success({ sent, skipped, failed: failedUserIds.size });
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Unsubscribe Notifications Use Case
+ *
+ * Handles one-click unsubscribe links from notification emails. The signed
+ * token identifies the user, so no login is needed; it can only turn
+ * emails off.
+ */
+
+import type { INotificationPreferenceRepository } from '../../ports/repositories/notification-preference.repository.interface.js';
+import type {
+  IUnsubscribeTokenService,
+  UnsubscribeScope,
+} from '../../ports/services/unsubscribe-token.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+import { resolveNotificationPreferences } from './get-notification-preferences.use-case.js';
+
+export interface UnsubscribeNotificationsInput {
+  token: string;
+}
+
+export interface UnsubscribeNotificationsOutput {
+  scope: UnsubscribeScope;
+}
+
+export interface UnsubscribeNotificationsDependencies {
+  preferenceRepository: INotificationPreferenceRepository;
+  unsubscribeTokenService: IUnsubscribeTokenService;
+}
+
+export class UnsubscribeNotificationsUseCase {
+  constructor(private readonly deps: UnsubscribeNotificationsDependencies) {}
+
+  async execute(
+    input: UnsubscribeNotificationsInput
+  ): Promise<Result<UnsubscribeNotificationsOutput>> {
+    const { preferenceRepository, unsubscribeTokenService } = this.deps;
+
+    // 1. Verify token
+    const payload = unsubscribeTokenService.verify(input.token);
+    if (!payload) {
+      return failure(ErrorCodes.INVALID_TOKEN, 'Invalid unsubscribe link');
+    }
+
+    // 2. Turn off the emails of the scope, keeping in-app preferences
+    const { userId, scope } = payload;
+    if (scope === 'digest' || scope === 'all') {
+      await preferenceRepository.saveDigestFrequency(userId, 'off');
+    }
+    if (scope !== 'digest') {
+      const current = resolveNotificationPreferences(
+        await preferenceRepository.findByUserId(userId)
+      );
+      await preferenceRepository.saveTypes(
+        userId,
+        current.types
+          .filter((preference) => scope === 'all' || preference.type === scope)
+          .map((preference) => ({ ...preference, email: false }))
+      );
+    }
+
+    return success({ scope });
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Update Notification Preferences Use Case
+ *
+ * Changes the channels of some notification types and/or the digest
+ * schedule of the current user.
+ */
+
+import type {
+  INotificationPreferenceRepository,
+  DigestFrequency,
+  NotificationTypePreference,
+} from '../../ports/repositories/notification-preference.repository.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+import {
+  NOTIFICATION_TYPES,
+  resolveNotificationPreferences,
+  type NotificationPreferences,
+} from './get-notification-preferences.use-case.js';
+
+export interface UpdateNotificationPreferencesInput {
+  userId: string;
+  /** Types to change; others keep their current preference */
+  types?: NotificationTypePreference[];
+  digestFrequency?: DigestFrequency;
+}
+
+export interface UpdateNotificationPreferencesDependencies {
+  preferenceRepository: INotificationPreferenceRepository;
+}
+
+const DIGEST_FREQUENCIES: readonly DigestFrequency[] = [
+  'off',
+  'daily',
+  'weekly',
+];
+
+export class UpdateNotificationPreferencesUseCase {
+  constructor(
+    private readonly deps: UpdateNotificationPreferencesDependencies
+  ) {}
+
+  async execute(
+    input: UpdateNotificationPreferencesInput
+  ): Promise<Result<NotificationPreferences>> {
+    const { preferenceRepository } = this.deps;
+
+    // 1. Validate input
+    if (
+      input.types?.some(
+        (preference) => !NOTIFICATION_TYPES.includes(preference.type)
+      )
+    ) {
+      return failure(ErrorCodes.INVALID_INPUT, 'Unknown notification type');
+    }
+    if (
+      input.digestFrequency &&
+      !DIGEST_FREQUENCIES.includes(input.digestFrequency)
+    ) {
+      return failure(ErrorCodes.INVALID_INPUT, 'Invalid digest frequency');
+    }
+
+    // 2. Save changes
+    if (input.types && input.types.length > 0) {
+      await preferenceRepository.saveTypes(input.userId, input.types);
+    }
+    if (input.digestFrequency) {
+      await preferenceRepository.saveDigestFrequency(
+        input.userId,
+        input.digestFrequency
+      );
+    }
+
+    // 3. Return the resulting preferences
+    const stored = await preferenceRepository.findByUserId(input.userId);
+    return success(resolveNotificationPreferences(stored));
+  }
+}
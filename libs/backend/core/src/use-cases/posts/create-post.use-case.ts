@@ -9,11 +9,16 @@ import {
   CreatePostDtoSchema,
   PostStatus,
   PostVisibility,
+  PostCreatedEvent,
+  PostPublishedEvent,
+  type DomainEvent,
 } from '@blog/shared/domain';
 import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
 import type { IUserRepository } from '../../ports/repositories/user.repository.interface.js';
 import type { ICategoryRepository } from '../../ports/repositories/category.repository.interface.js';
 import type { ITagRepository } from '../../ports/repositories/tag.repository.interface.js';
+import type { IUnitOfWork } from '../../ports/repositories/unit-of-work.interface.js';
+import type { IEventBus } from '../../ports/services/event-bus.interface.js';
 import { type Result, success, failure, ErrorCodes } from '../common/result.js';
 
 /** Maximum posts per user (BR-02) */
@@ -54,6 +59,16 @@ export interface CreatePostDependencies {
   userRepository: IUserRepository;
   categoryRepository: ICategoryRepository;
   tagRepository: ITagRepository;
+  /**
+   * Saves the post and its events (outbox) in one transaction.
+   * Takes precedence over eventBus.
+   */
+  unitOfWork?: IUnitOfWork;
+  /**
+   * Publishes post.created / post.published after saving.
+   * Embedding generation (BR-05) subscribes to post.published.
+   */
+  eventBus?: IEventBus;
 }
 
 export class CreatePostUseCase {
@@ -164,13 +179,30 @@ export class CreatePostUseCase {
     // Note: Slug uniqueness was already verified above with retries.
     // The slug is set when the post is created, so no further action needed.
 
-    // 8. Save post
-    await this.deps.postRepository.save(post);
+    // 8. Save post and publish events
+    // (subscribers queue embedding generation, BR-05)
+    const events: DomainEvent[] = [
+      new PostCreatedEvent(post.id, input.authorId, post.title, post.slug),
+    ];
+    if (post.isPublished) {
+      events.push(
+        new PostPublishedEvent(post.id, input.authorId, post.title, post.slug)
+      );
+    }
 
-    // 9. TODO: If status is published, queue embedding generation (BR-05)
-    // This would be handled by an event/message queue in production
+    if (this.deps.unitOfWork) {
+      await this.deps.unitOfWork.execute(
+        async ({ postRepository, outboxRepository }) => {
+          await postRepository.save(post);
+          await outboxRepository.add(events);
+        }
+      );
+    } else {
+      await this.deps.postRepository.save(post);
+      await this.deps.eventBus?.publish(...events);
+    }
 
-    // 10. Return result
+    // 9. Return result
     const postData = post.toJSON();
     return success({
       post: {
@@ -0,0 +1,168 @@
+/**
+ * Generate Post Embedding Use Case
+ *
+ * Computes and stores the semantic-search embedding of a published post (BR-05).
+ * When a chunk repository is configured, also re-embeds the post's passages
+ * used by question answering (POST /api/ask).
+ * Triggered after publish and after significant content changes.
+ */
+
+import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
+import type {
+  IPostChunkRepository,
+  PostChunkInput,
+} from '../../ports/repositories/post-chunk.repository.interface.js';
+import type { IEmbeddingService } from '../../ports/services/embedding.service.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+/** Max characters sent to the embedding model (long posts are truncated) */
+const MAX_EMBEDDING_INPUT_CHARS = 8000;
+
+/** Passage size for question answering (characters, with overlap) */
+const CHUNK_SIZE = 1000;
+const CHUNK_OVERLAP = 200;
+const MAX_CHUNKS = 50;
+
+export interface GeneratePostEmbeddingInput {
+  postId: string;
+}
+
+export interface GeneratePostEmbeddingOutput {
+  postId: string;
+  /** False when the post is not published (nothing to index) */
+  embedded: boolean;
+  /** Number of passages stored for question answering */
+  chunks: number;
+  model: string;
+}
+
+export interface GeneratePostEmbeddingDependencies {
+  postRepository: IPostRepository;
+  embeddingService: IEmbeddingService;
+  /** Enables passage embeddings for question answering */
+  postChunkRepository?: IPostChunkRepository;
+}
+
+export class GeneratePostEmbeddingUseCase {
+  constructor(private readonly deps: GeneratePostEmbeddingDependencies) {}
+
+  async execute(
+    input: GeneratePostEmbeddingInput
+  ): Promise<Result<GeneratePostEmbeddingOutput>> {
+    // 1. Find post
+    const post = await this.deps.postRepository.findById(input.postId);
+    if (!post) {
+      return failure(ErrorCodes.POST_NOT_FOUND, 'Post not found');
+    }
+
+    // 2. Only published posts are searchable
+    if (!post.isPublished) {
+      await this.deps.postChunkRepository?.deleteByPostId(post.id);
+      return success({
+        postId: post.id,
+        embedded: false,
+        chunks: 0,
+        model: this.deps.embeddingService.model,
+      });
+    }
+
+    // 3. Embed title + content
+    const postData = post.toJSON();
+    const text = buildEmbeddingText(postData.title, postData.content);
+
+    let embedding: number[];
+    try {
+      embedding = await this.deps.embeddingService.embedDocument(text);
+      post.setEmbedding(embedding);
+    } catch (error) {
+      return failure(
+        ErrorCodes.INTERNAL_ERROR,
+        error instanceof Error ? error.message : 'Embedding generation failed'
+      );
+    }
+
+    // 4. Persist only the vector (avoid overwriting concurrent edits)
+    await this.deps.postRepository.updateEmbedding(post.id, embedding);
+
+    // 5. Re-embed passages (title prefix gives each passage its context)
+    let chunkCount = 0;
+    if (this.deps.postChunkRepository) {
+      const chunks: PostChunkInput[] = [];
+      try {
+        for (const [chunkIndex, content] of splitIntoChunks(
+          toPlainText(postData.content)
+        ).entries()) {
+          chunks.push({
+            chunkIndex,
+            content,
+            embedding: await this.deps.embeddingService.embedDocument(
+              `${postData.title}\n\n${content}`
+            ),
+          });
+        }
+      } catch (error) {
+        return failure(
+          ErrorCodes.INTERNAL_ERROR,
+          error instanceof Error ? error.message : 'Chunk embedding failed'
+        );
+      }
+
+      await this.deps.postChunkRepository.replaceForPost(post.id, chunks);
+      chunkCount = chunks.length;
+    }
+
+    return success({
+      postId: post.id,
+      embedded: true,
+      chunks: chunkCount,
+      model: this.deps.embeddingService.model,
+    });
+  }
+}
+
+/**
+ * Build the text that represents a post in embedding space
+ */
+export function buildEmbeddingText(title: string, content: string): string {
+  return `${title}\n\n${toPlainText(content)}`.slice(
+    0,
+    MAX_EMBEDDING_INPUT_CHARS
+  );
+}
+
+/**
+ * Split plain text into overlapping passages, preferring sentence boundaries
+ */
+export function splitIntoChunks(text: string): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < text.length && chunks.length < MAX_CHUNKS) {
+    let end = Math.min(start + CHUNK_SIZE, text.length);
+    if (end < text.length) {
+      const boundary = text.lastIndexOf('. ', end);
+      if (boundary > start + CHUNK_SIZE / 2) end = boundary + 1;
+    }
+
+    const chunk = text.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= text.length) break;
+
+    // Overlap so facts spanning a boundary stay retrievable
+    const next = end - CHUNK_OVERLAP;
+    const wordStart = text.indexOf(' ', next);
+    start = wordStart > next && wordStart < end ? wordStart + 1 : end;
+  }
+
+  return chunks;
+}
+
+function toPlainText(content: string): string {
+  return content
+    .replace(/<[^>]+>/g, ' ') // HTML tags
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ') // markdown images
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1') // markdown links -> text
+    .replace(/[#>*_`~]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
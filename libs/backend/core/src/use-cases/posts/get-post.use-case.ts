@@ -1,14 +1,20 @@
 /**
  * Get Post Use Case
  *
- * Retrieves a single post with permission checking and view tracking.
+ * Retrieves a single post with permission checking. Views are recorded
+ * separately (RecordPostViewUseCase).
  */
 
-import { PostStatus, PostVisibility } from '@blog/shared/domain';
+import {
+  PostStatus,
+  PostVisibility,
+  type VideoChapter,
+} from '@blog/shared/domain';
 import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
 import type { IUserRepository } from '../../ports/repositories/user.repository.interface.js';
 import type { ILikeRepository } from '../../ports/repositories/like.repository.interface.js';
 import type { IBookmarkRepository } from '../../ports/repositories/bookmark.repository.interface.js';
+import type { IVideoChapterRepository } from '../../ports/repositories/video-chapter.repository.interface.js';
 import { type Result, success, failure, ErrorCodes } from '../common/result.js';
 
 export interface GetPostInput {
@@ -16,8 +22,6 @@ export interface GetPostInput {
   postIdOrSlug: string;
   /** Current user ID (for permission checking) */
   userId?: string;
-  /** Whether to track view count */
-  trackView?: boolean;
 }
 
 export interface GetPostOutput {
@@ -54,9 +58,12 @@ export interface GetPostOutput {
     status: string;
     hlsUrl: string | null;
     thumbnailUrl: string | null;
+    thumbnailsVttUrl: string | null;
+    dashManifestUrl: string | null;
     duration: number | null;
     width: number | null;
     height: number | null;
+    chapters?: VideoChapter[];
   } | null;
 }
 
@@ -65,6 +72,7 @@ export interface GetPostDependencies {
   userRepository: IUserRepository;
   likeRepository?: ILikeRepository;
   bookmarkRepository?: IBookmarkRepository;
+  chapterRepository?: IVideoChapterRepository;
 }
 
 export class GetPostUseCase {
@@ -107,13 +115,7 @@ export class GetPostUseCase {
       }
     }
 
-    // 4. Track view (only for non-owners viewing public posts)
-    if (input.trackView !== false && !isOwner && isPublished) {
-      post.incrementViewCount();
-      await this.deps.postRepository.save(post);
-    }
-
-    // 5. Get author info
+    // 4. Get author info
     const author = await this.deps.userRepository.findById(postData.authorId);
     if (!author) {
       return failure(ErrorCodes.USER_NOT_FOUND, 'Author not found');
@@ -121,7 +123,7 @@ export class GetPostUseCase {
 
     const authorData = author.toJSON();
 
-    // 6. Check if current user has liked this post
+    // 5. Check if current user has liked this post
     let isLiked = false;
     if (input.userId && this.deps.likeRepository) {
       isLiked = await this.deps.likeRepository.isPostLikedByUser(
@@ -130,7 +132,7 @@ export class GetPostUseCase {
       );
     }
 
-    // 7. Check if current user has bookmarked this post
+    // 6. Check if current user has bookmarked this post
     let isBookmarked = false;
     if (input.userId && this.deps.bookmarkRepository) {
       isBookmarked = await this.deps.bookmarkRepository.isPostBookmarkedByUser(
@@ -139,6 +141,16 @@ export class GetPostUseCase {
       );
     }
 
+    // 7. Get the video's chapters
+    const video = postData.video
+      ? {
+          ...postData.video,
+          chapters: this.deps.chapterRepository
+            ? await this.deps.chapterRepository.findByVideoId(postData.video.id)
+            : [],
+        }
+      : null;
+
     // 8. Return result
     return success({
       post: {
@@ -168,7 +180,7 @@ export class GetPostUseCase {
         fullName: authorData.fullName,
         avatarUrl: authorData.avatarUrl,
       },
-      video: postData.video ?? null,
+      video,
     });
   }
 
@@ -0,0 +1,143 @@
+/**
+ * Get Related Posts Use Case
+ *
+ * Recommends published public posts related to a post, scored by
+ * tag/category overlap, embedding similarity, recency and same author.
+ */
+
+import { PostStatus, PostVisibility } from '@blog/shared/domain';
+import type {
+  IPostRepository,
+  RelatedPostHit,
+} from '../../ports/repositories/post.repository.interface.js';
+import type { IUserRepository } from '../../ports/repositories/user.repository.interface.js';
+import type { IBookmarkRepository } from '../../ports/repositories/bookmark.repository.interface.js';
+import type { PostSummary } from './list-posts.use-case.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+export interface GetRelatedPostsInput {
+  /** Post ID or slug */
+  postIdOrSlug: string;
+  /** Number of related posts (default: 5, max: 12) */
+  limit?: number;
+  /** Current user ID (for permission checking and bookmark flags) */
+  userId?: string;
+}
+
+export interface RelatedPostResult extends PostSummary {
+  /** Weighted relevance score */
+  score: number;
+  signals: RelatedPostHit['signals'];
+}
+
+export interface GetRelatedPostsOutput {
+  posts: RelatedPostResult[];
+}
+
+export interface GetRelatedPostsDependencies {
+  postRepository: IPostRepository;
+  userRepository: IUserRepository;
+  bookmarkRepository?: IBookmarkRepository;
+}
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 12;
+
+export class GetRelatedPostsUseCase {
+  constructor(private readonly deps: GetRelatedPostsDependencies) {}
+
+  async execute(
+    input: GetRelatedPostsInput
+  ): Promise<Result<GetRelatedPostsOutput>> {
+    // 1. Find post by ID or slug
+    const isUuid = this.isValidUuid(input.postIdOrSlug);
+    const post = isUuid
+      ? await this.deps.postRepository.findById(input.postIdOrSlug)
+      : await this.deps.postRepository.findBySlug(input.postIdOrSlug);
+
+    if (!post || post.isDeleted()) {
+      return failure(ErrorCodes.POST_NOT_FOUND, 'Post not found');
+    }
+
+    // 2. Same visibility rules as viewing the post itself
+    const postData = post.toJSON();
+    const isOwner = input.userId === postData.authorId;
+    if (!isOwner) {
+      if (postData.status !== PostStatus.PUBLISHED) {
+        return failure(
+          ErrorCodes.FORBIDDEN,
+          'You do not have permission to view this post'
+        );
+      }
+      if (postData.visibility === PostVisibility.PRIVATE) {
+        return failure(ErrorCodes.FORBIDDEN, 'This post is private');
+      }
+    }
+
+    const requestedLimit = Number.isFinite(input.limit)
+      ? (input.limit as number)
+      : DEFAULT_LIMIT;
+    const limit = Math.min(Math.max(requestedLimit, 1), MAX_LIMIT);
+
+    // 3. Score related posts (only published public posts are returned)
+    const hits = await this.deps.postRepository.findRelatedScored(post.id, {
+      limit,
+    });
+
+    // 4. Batch load authors
+    const authorIds = [...new Set(hits.map((h) => h.post.authorId))];
+    const authors = await this.deps.userRepository.findByIds(authorIds);
+    const authorMap = new Map(authors.map((a) => [a.toJSON().id, a]));
+
+    // 5. Bulk check bookmarks (if user is authenticated)
+    let bookmarkedMap = new Map<string, boolean>();
+    if (input.userId && this.deps.bookmarkRepository && hits.length > 0) {
+      bookmarkedMap =
+        await this.deps.bookmarkRepository.isPostsBookmarkedByUser(
+          input.userId,
+          hits.map((h) => h.post.id)
+        );
+    }
+
+    // 6. Build response
+    const posts: RelatedPostResult[] = hits.map((hit) => {
+      const relatedData = hit.post.toJSON();
+      const authorData = authorMap.get(relatedData.authorId)?.toJSON();
+
+      return {
+        id: relatedData.id,
+        authorId: relatedData.authorId,
+        title: relatedData.title,
+        slug: relatedData.slug,
+        excerpt: relatedData.excerpt,
+        featuredImageUrl: relatedData.featuredImageUrl,
+        videoId: relatedData.videoId,
+        video: relatedData.video ?? null,
+        status: relatedData.status,
+        visibility: relatedData.visibility,
+        viewCount: relatedData.viewCount,
+        likeCount: relatedData.likeCount,
+        commentCount: relatedData.commentCount,
+        isBookmarked: bookmarkedMap.get(relatedData.id) ?? false,
+        publishedAt: relatedData.publishedAt,
+        createdAt: relatedData.createdAt,
+        author: {
+          id: authorData?.id ?? relatedData.authorId,
+          username: authorData?.username ?? 'unknown',
+          fullName: authorData?.fullName ?? null,
+          avatarUrl: authorData?.avatarUrl ?? null,
+        },
+        score: hit.score,
+        signals: hit.signals,
+      };
+    });
+
+    return success({ posts });
+  }
+
+  private isValidUuid(value: string): boolean {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    return uuidRegex.test(value);
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Get Trending Posts Use Case
+ *
+ * Reads the precomputed trending feed: published public posts ranked by
+ * time-decayed likes, comments, bookmarks and unique views in the period.
+ */
+
+import type {
+  IPostRepository,
+  PostSearchCursor,
+  TrendingPeriod,
+} from '../../ports/repositories/post.repository.interface.js';
+import type { IUserRepository } from '../../ports/repositories/user.repository.interface.js';
+import type { IBookmarkRepository } from '../../ports/repositories/bookmark.repository.interface.js';
+import type { PostSummary } from './list-posts.use-case.js';
+import {
+  encodeSearchCursor,
+  decodeSearchCursor,
+} from '../search/search-posts.use-case.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+export interface GetTrendingPostsInput {
+  /** Trending window (default: 'week') */
+  period?: TrendingPeriod;
+  /** Opaque cursor from a previous page (nextCursor) */
+  cursor?: string;
+  /** Page size (default: 20, max: 50) */
+  limit?: number;
+  /** Current user ID (for bookmark flags) */
+  userId?: string;
+}
+
+export interface TrendingPostResult extends PostSummary {
+  /** Time-decayed engagement score */
+  trendingScore: number;
+  /** Engagement within the period (not decayed) */
+  engagement: {
+    likes: number;
+    comments: number;
+    bookmarks: number;
+    uniqueViews: number;
+  };
+}
+
+export interface GetTrendingPostsOutput {
+  period: TrendingPeriod;
+  posts: TrendingPostResult[];
+  nextCursor: string | null;
+  hasMore: boolean;
+  /** When the scores were last refreshed (null if the page is empty) */
+  computedAt: Date | null;
+}
+
+export interface GetTrendingPostsDependencies {
+  postRepository: IPostRepository;
+  userRepository: IUserRepository;
+  bookmarkRepository?: IBookmarkRepository;
+}
+
+const TRENDING_PERIODS: readonly TrendingPeriod[] = ['day', 'week', 'month'];
+const DEFAULT_PERIOD: TrendingPeriod = 'week';
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+export class GetTrendingPostsUseCase {
+  constructor(private readonly deps: GetTrendingPostsDependencies) {}
+
+  async execute(
+    input: GetTrendingPostsInput
+  ): Promise<Result<GetTrendingPostsOutput>> {
+    // 1. Validate input
+    const period = input.period ?? DEFAULT_PERIOD;
+    if (!TRENDING_PERIODS.includes(period)) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        `Period must be one of: ${TRENDING_PERIODS.join(', ')}`
+      );
+    }
+
+    const requestedLimit = Number.isFinite(input.limit)
+      ? (input.limit as number)
+      : DEFAULT_LIMIT;
+    const limit = Math.min(Math.max(requestedLimit, 1), MAX_LIMIT);
+
+    let cursor: PostSearchCursor | undefined;
+    if (input.cursor) {
+      cursor = decodeSearchCursor(input.cursor) ?? undefined;
+      if (!cursor) {
+        return failure(ErrorCodes.INVALID_INPUT, 'Invalid cursor');
+      }
+    }
+
+    // 2. Fetch one extra hit to know if there is a next page
+    const hits = await this.deps.postRepository.findTrendingScored({
+      period,
+      limit: limit + 1,
+      cursor,
+    });
+    const hasMore = hits.length > limit;
+    const pageHits = hasMore ? hits.slice(0, limit) : hits;
+
+    // 3. Batch load authors
+    const authorIds = [...new Set(pageHits.map((h) => h.post.authorId))];
+    const authors = await this.deps.userRepository.findByIds(authorIds);
+    const authorMap = new Map(authors.map((a) => [a.toJSON().id, a]));
+
+    // 4. Bulk check bookmarks (if user is authenticated)
+    let bookmarkedMap = new Map<string, boolean>();
+    if (input.userId && this.deps.bookmarkRepository && pageHits.length > 0) {
+      bookmarkedMap =
+        await this.deps.bookmarkRepository.isPostsBookmarkedByUser(
+          input.userId,
+          pageHits.map((h) => h.post.id)
+        );
+    }
+
+    // 5. Build response
+    const posts: TrendingPostResult[] = pageHits.map((hit) => {
+      const postData = hit.post.toJSON();
+      const authorData = authorMap.get(postData.authorId)?.toJSON();
+
+      return {
+        id: postData.id,
+        authorId: postData.authorId,
+        title: postData.title,
+        slug: postData.slug,
+        excerpt: postData.excerpt,
+        featuredImageUrl: postData.featuredImageUrl,
+        videoId: postData.videoId,
+        video: postData.video ?? null,
+        status: postData.status,
+        visibility: postData.visibility,
+        viewCount: postData.viewCount,
+        likeCount: postData.likeCount,
+        commentCount: postData.commentCount,
+        isBookmarked: bookmarkedMap.get(postData.id) ?? false,
+        publishedAt: postData.publishedAt,
+        createdAt: postData.createdAt,
+        author: {
+          id: authorData?.id ?? postData.authorId,
+          username: authorData?.username ?? 'unknown',
+          fullName: authorData?.fullName ?? null,
+          avatarUrl: authorData?.avatarUrl ?? null,
+        },
+        trendingScore: hit.score,
+        engagement: {
+          likes: hit.likes,
+          comments: hit.comments,
+          bookmarks: hit.bookmarks,
+          uniqueViews: hit.uniqueViews,
+        },
+      };
+    });
+
+    const last = pageHits[pageHits.length - 1];
+
+    return success({
+      period,
+      posts,
+      nextCursor:
+        hasMore && last
+          ? encodeSearchCursor({ rank: last.score, id: last.post.id })
+          : null,
+      hasMore,
+      computedAt: pageHits[0]?.computedAt ?? null,
+    });
+  }
+}
@@ -37,3 +37,28 @@ export {
   type ListPostsDependencies,
   type PostSummary,
 } from './list-posts.use-case.js';
+
+export {
+  GetRelatedPostsUseCase,
+  type GetRelatedPostsInput,
+  type GetRelatedPostsOutput,
+  type GetRelatedPostsDependencies,
+  type RelatedPostResult,
+} from './get-related-posts.use-case.js';
+
+export {
+  GetTrendingPostsUseCase,
+  type GetTrendingPostsInput,
+  type GetTrendingPostsOutput,
+  type GetTrendingPostsDependencies,
+  type TrendingPostResult,
+} from './get-trending-posts.use-case.js';
+
+export {
+  GeneratePostEmbeddingUseCase,
+  buildEmbeddingText,
+  splitIntoChunks,
+  type GeneratePostEmbeddingInput,
+  type GeneratePostEmbeddingOutput,
+  type GeneratePostEmbeddingDependencies,
+} from './generate-post-embedding.use-case.js';
@@ -46,6 +46,8 @@ export interface PostSummary {
     status: string;
     hlsUrl: string | null;
     thumbnailUrl: string | null;
+    thumbnailsVttUrl: string | null;
+    dashManifestUrl: string | null;
     duration: number | null;
     width: number | null;
     height: number | null;
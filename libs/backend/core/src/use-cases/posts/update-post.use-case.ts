@@ -4,11 +4,19 @@
  * Handles post updates with ownership verification and business rules.
  */
 
-import { UpdatePostDtoSchema, PostStatus } from '@blog/shared/domain';
+import {
+  UpdatePostDtoSchema,
+  PostStatus,
+  PostPublishedEvent,
+  PostUpdatedEvent,
+  type DomainEvent,
+} from '@blog/shared/domain';
 import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
 import type { IUserRepository } from '../../ports/repositories/user.repository.interface.js';
 import type { ICategoryRepository } from '../../ports/repositories/category.repository.interface.js';
 import type { ITagRepository } from '../../ports/repositories/tag.repository.interface.js';
+import type { IUnitOfWork } from '../../ports/repositories/unit-of-work.interface.js';
+import type { IEventBus } from '../../ports/services/event-bus.interface.js';
 import { type Result, success, failure, ErrorCodes } from '../common/result.js';
 
 export interface UpdatePostInput {
@@ -46,6 +54,16 @@ export interface UpdatePostDependencies {
   userRepository: IUserRepository;
   categoryRepository: ICategoryRepository;
   tagRepository: ITagRepository;
+  /**
+   * Saves the post and its events (outbox) in one transaction.
+   * Takes precedence over eventBus.
+   */
+  unitOfWork?: IUnitOfWork;
+  /**
+   * Publishes post.published / post.updated after saving.
+   * Embedding generation (BR-05) subscribes to both.
+   */
+  eventBus?: IEventBus;
 }
 
 export class UpdatePostUseCase {
@@ -175,14 +193,45 @@ export class UpdatePostUseCase {
       post.archive();
     }
 
-    // 10. Save post
-    await this.deps.postRepository.save(post);
+    // 10. Save post and publish events
+    // (subscribers queue embedding generation, BR-05)
+    const updatedPostData = post.toJSON();
+    const events: DomainEvent[] = [];
+    if (post.isPublished && postData.status !== PostStatus.PUBLISHED) {
+      events.push(
+        new PostPublishedEvent(
+          post.id,
+          updatedPostData.authorId,
+          updatedPostData.title,
+          updatedPostData.slug
+        )
+      );
+    } else {
+      events.push(
+        new PostUpdatedEvent(post.id, {
+          fields: Object.keys(input.updates),
+          // Published posts are re-embedded when the content changed
+          // significantly or was never embedded
+          requiresReembedding:
+            post.isPublished &&
+            (requiresReembedding || postData.embedding === null),
+        })
+      );
+    }
 
-    // 11. TODO: If requiresReembedding and post is published, queue re-embedding
-    // This would be handled by an event/message queue in production
+    if (this.deps.unitOfWork) {
+      await this.deps.unitOfWork.execute(
+        async ({ postRepository, outboxRepository }) => {
+          await postRepository.save(post);
+          await outboxRepository.add(events);
+        }
+      );
+    } else {
+      await this.deps.postRepository.save(post);
+      await this.deps.eventBus?.publish(...events);
+    }
 
-    // 12. Return result
-    const updatedPostData = post.toJSON();
+    // 11. Return result
     return success({
       post: {
         id: updatedPostData.id,
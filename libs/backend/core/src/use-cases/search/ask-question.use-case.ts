@@ -0,0 +1,192 @@
+/**
+ * Ask Question Use Case
+ *
+ * "Ask the blog": answers a question grounded in published public posts (RAG).
+ * Retrieves the closest post passages via the embedding index, then streams
+ * an LLM answer that cites its sources as [n] (see citations).
+ */
+
+import { PostVisibility } from '@blog/shared/domain';
+import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
+import type {
+  IPostChunkRepository,
+  PostChunkHit,
+} from '../../ports/repositories/post-chunk.repository.interface.js';
+import type { ISearchQueryRepository } from '../../ports/repositories/search-query.repository.interface.js';
+import type { IEmbeddingService } from '../../ports/services/embedding.service.interface.js';
+import type { ILlmService } from '../../ports/services/llm.service.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+export interface AskQuestionInput {
+  question: string;
+  /** Current user ID (for search analytics) */
+  userId?: string;
+  /** Stops generation (e.g., client disconnected) */
+  signal?: AbortSignal;
+}
+
+export interface AskCitation {
+  /** Number used in the answer, e.g. [1] */
+  index: number;
+  postId: string;
+  title: string;
+  slug: string;
+}
+
+export interface AskQuestionOutput {
+  citations: AskCitation[];
+  /** Answer text, streamed as it is generated */
+  answer: AsyncIterable<string>;
+  model: string;
+}
+
+export interface AskQuestionDependencies {
+  postRepository: IPostRepository;
+  postChunkRepository: IPostChunkRepository;
+  embeddingService?: IEmbeddingService;
+  llmService?: ILlmService;
+  searchQueryRepository?: ISearchQueryRepository;
+  /** Passages retrieved per question (default: 6) */
+  topK?: number;
+}
+
+const MAX_QUESTION_LENGTH = 500;
+const DEFAULT_TOP_K = 6;
+
+const NO_CONTEXT_ANSWER =
+  "I couldn't find any published posts on this blog that answer that question.";
+
+const SYSTEM_PROMPT = [
+  'You answer questions about a blog using only the numbered sources provided.',
+  'Cite sources inline with their number in square brackets, e.g. [1].',
+  'If the sources do not contain the answer, say so instead of guessing.',
+  'Answer concisely in the language of the question.',
+].join(' ');
+
+export class AskQuestionUseCase {
+  constructor(private readonly deps: AskQuestionDependencies) {}
+
+  async execute(input: AskQuestionInput): Promise<Result<AskQuestionOutput>> {
+    // 1. Validate input
+    const question = input.question?.trim() ?? '';
+    if (!question) {
+      return failure(ErrorCodes.VALIDATION_ERROR, 'Question is required');
+    }
+    if (question.length > MAX_QUESTION_LENGTH) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        `Question must be at most ${MAX_QUESTION_LENGTH} characters`
+      );
+    }
+
+    const { embeddingService, llmService } = this.deps;
+    if (!embeddingService || !llmService) {
+      return failure(
+        ErrorCodes.SEARCH_UNAVAILABLE,
+        'Question answering is not configured'
+      );
+    }
+
+    // 2. Retrieve closest passages
+    let queryEmbedding: number[];
+    try {
+      queryEmbedding = await embeddingService.embedQuery(question);
+    } catch (error) {
+      return failure(
+        ErrorCodes.SEARCH_UNAVAILABLE,
+        'Question answering is temporarily unavailable',
+        { reason: error instanceof Error ? error.message : String(error) }
+      );
+    }
+
+    const hits = await this.deps.postChunkRepository.searchSimilar(
+      queryEmbedding,
+      { limit: this.deps.topK ?? DEFAULT_TOP_K }
+    );
+
+    // 3. Re-check visibility: private/unlisted/draft posts must never leak
+    const passages = await this.filterVisible(hits);
+
+    // 4. Number sources by post (first appearance = best match)
+    const citations: AskCitation[] = [];
+    const passagesByPost = new Map<string, string[]>();
+    for (const hit of passages) {
+      if (!passagesByPost.has(hit.postId)) {
+        passagesByPost.set(hit.postId, []);
+        citations.push({
+          index: citations.length + 1,
+          postId: hit.postId,
+          title: hit.postTitle,
+          slug: hit.postSlug,
+        });
+      }
+      passagesByPost.get(hit.postId)?.push(hit.content);
+    }
+
+    // 5. Log question (failures never affect the answer)
+    try {
+      await this.deps.searchQueryRepository?.create({
+        userId: input.userId ?? null,
+        query: question,
+        searchType: 'rag',
+        resultsCount: citations.length,
+      });
+    } catch {
+      // Analytics only
+    }
+
+    // 6. Generate (skip the model when nothing relevant was found)
+    if (citations.length === 0) {
+      return success({
+        citations,
+        answer: cannedAnswer(NO_CONTEXT_ANSWER),
+        model: llmService.model,
+      });
+    }
+
+    const sources = citations
+      .map(
+        (citation) =>
+          `[${citation.index}] ${citation.title}\n${(
+            passagesByPost.get(citation.postId) ?? []
+          ).join('\n…\n')}`
+      )
+      .join('\n\n');
+
+    return success({
+      citations,
+      answer: llmService.streamCompletion({
+        system: SYSTEM_PROMPT,
+        prompt: `Sources:\n\n${sources}\n\nQuestion: ${question}`,
+        temperature: 0.2,
+        signal: input.signal,
+      }),
+      model: llmService.model,
+    });
+  }
+
+  private async filterVisible(hits: PostChunkHit[]): Promise<PostChunkHit[]> {
+    const postIds = [...new Set(hits.map((hit) => hit.postId))];
+    const posts = await Promise.all(
+      postIds.map((id) => this.deps.postRepository.findById(id))
+    );
+
+    const visible = new Set(
+      posts
+        .filter(
+          (post) =>
+            post !== null &&
+            post.isPublished &&
+            post.visibility === PostVisibility.PUBLIC &&
+            !post.toJSON().deletedAt
+        )
+        .map((post) => post?.id)
+    );
+
+    return hits.filter((hit) => visible.has(hit.postId));
+  }
+}
+
+async function* cannedAnswer(text: string): AsyncIterable<string> {
+  yield text;
+}
@@ -0,0 +1,23 @@
+/**
+ * Search Use Cases - Barrel Export
+ */
+
+export {
+  SearchPostsUseCase,
+  encodeSearchCursor,
+  decodeSearchCursor,
+  type SearchPostsInput,
+  type SearchPostsOutput,
+  type SearchPostsDependencies,
+  type SearchPostResult,
+  type SearchResultScores,
+  type HybridSearchOptions,
+  type SearchMode,
+} from './search-posts.use-case.js';
+export {
+  AskQuestionUseCase,
+  type AskQuestionInput,
+  type AskQuestionOutput,
+  type AskQuestionDependencies,
+  type AskCitation,
+} from './ask-question.use-case.js';
@@ -0,0 +1,464 @@
+/**
+ * Search Posts Use Case
+ *
+ * Searches published public posts with keyset pagination:
+ * - fulltext: tsvector + ts_rank with highlighted snippets
+ * - semantic: cosine similarity over post embeddings (pgvector)
+ * - hybrid: reciprocal-rank fusion (RRF) of the fulltext and semantic lists
+ *
+ * First-page searches are logged to search_queries for search analytics.
+ */
+
+import type {
+  IPostRepository,
+  PostSearchCursor,
+  PostSearchHit,
+  PostSearchOptions,
+} from '../../ports/repositories/post.repository.interface.js';
+import type { IUserRepository } from '../../ports/repositories/user.repository.interface.js';
+import type { IBookmarkRepository } from '../../ports/repositories/bookmark.repository.interface.js';
+import type { ISearchQueryRepository } from '../../ports/repositories/search-query.repository.interface.js';
+import type { IEmbeddingService } from '../../ports/services/embedding.service.interface.js';
+import type { PostSummary } from '../posts/list-posts.use-case.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+export type SearchMode = 'fulltext' | 'semantic' | 'hybrid';
+
+const SEARCH_MODES: readonly SearchMode[] = ['fulltext', 'semantic', 'hybrid'];
+
+export interface SearchPostsInput {
+  /** Search query (fulltext supports websearch syntax: "quoted phrase", -exclude, or) */
+  query: string;
+  /** Search strategy (default: fulltext) */
+  mode?: SearchMode;
+  /** Filter by category ID */
+  categoryId?: string;
+  /** Filter by tag ID */
+  tagId?: string;
+  /** Filter by author ID */
+  authorId?: string;
+  /** Only posts published at or after this date */
+  from?: Date;
+  /** Only posts published at or before this date */
+  to?: Date;
+  /** Pagination cursor (opaque, from previous page) */
+  cursor?: string;
+  /** Number of results per page */
+  limit?: number;
+  /** Current user ID (for bookmark flags) */
+  userId?: string;
+}
+
+/**
+ * Per-signal scores of a result (null when the signal did not match).
+ * Positions are 1-based ranks within each signal's candidate list.
+ */
+export interface SearchResultScores {
+  fulltextRank: number | null;
+  fulltextPosition: number | null;
+  semanticSimilarity: number | null;
+  semanticPosition: number | null;
+  /** RRF score (hybrid mode only) */
+  fused: number | null;
+}
+
+export interface SearchPostResult extends PostSummary {
+  /** Relevance score (ts_rank for fulltext, cosine similarity for semantic, RRF score for hybrid) */
+  rank: number;
+  /** Escaped title with matched terms wrapped in <mark> (title only for semantic-only matches) */
+  titleHighlight: string;
+  /** Escaped content text with matched terms wrapped in <mark> (excerpt for semantic-only matches) */
+  snippet: string;
+  scores: SearchResultScores;
+}
+
+export interface SearchPostsOutput {
+  mode: SearchMode;
+  results: SearchPostResult[];
+  nextCursor: string | null;
+  hasMore: boolean;
+  /**
+   * Hybrid only: a candidate list hit candidateLimit, so paging ends after
+   * the best fused results rather than at the last matching post
+   */
+  truncated: boolean;
+}
+
+/**
+ * Reciprocal-rank fusion tuning: score = Σ weight / (k + position)
+ */
+export interface HybridSearchOptions {
+  /** Rank smoothing constant (default: 60) */
+  k?: number;
+  /** Weight of the fulltext list (default: 1) */
+  fulltextWeight?: number;
+  /** Weight of the semantic list (default: 1) */
+  semanticWeight?: number;
+  /** Candidates fetched from each list before fusion (default: 100) */
+  candidateLimit?: number;
+}
+
+export interface SearchPostsDependencies {
+  postRepository: IPostRepository;
+  userRepository: IUserRepository;
+  bookmarkRepository?: IBookmarkRepository;
+  /** Required for semantic and hybrid modes */
+  embeddingService?: IEmbeddingService;
+  /** Search analytics log (optional; failures never affect the search) */
+  searchQueryRepository?: ISearchQueryRepository;
+  hybridOptions?: HybridSearchOptions;
+}
+
+interface ScoredHit extends PostSearchHit {
+  scores: SearchResultScores;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const MAX_QUERY_LENGTH = 200;
+
+const DEFAULT_RRF_K = 60;
+const DEFAULT_HYBRID_CANDIDATES = 100;
+
+export class SearchPostsUseCase {
+  constructor(private readonly deps: SearchPostsDependencies) {}
+
+  async execute(input: SearchPostsInput): Promise<Result<SearchPostsOutput>> {
+    // 1. Validate input
+    const mode = input.mode ?? 'fulltext';
+    if (!SEARCH_MODES.includes(mode)) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        `Search mode must be one of: ${SEARCH_MODES.join(', ')}`
+      );
+    }
+
+    const query = input.query?.trim() ?? '';
+    if (!query) {
+      return failure(ErrorCodes.VALIDATION_ERROR, 'Search query is required');
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        `Search query must be at most ${MAX_QUERY_LENGTH} characters`
+      );
+    }
+
+    if (input.from && isNaN(input.from.getTime())) {
+      return failure(ErrorCodes.VALIDATION_ERROR, 'Invalid "from" date');
+    }
+    if (input.to && isNaN(input.to.getTime())) {
+      return failure(ErrorCodes.VALIDATION_ERROR, 'Invalid "to" date');
+    }
+
+    let cursor: PostSearchCursor | undefined;
+    if (input.cursor) {
+      cursor = decodeSearchCursor(input.cursor) ?? undefined;
+      if (!cursor) {
+        return failure(ErrorCodes.INVALID_INPUT, 'Invalid pagination cursor');
+      }
+    }
+
+    const requestedLimit = Number.isFinite(input.limit)
+      ? (input.limit as number)
+      : DEFAULT_LIMIT;
+    const limit = Math.min(Math.max(requestedLimit, 1), MAX_LIMIT);
+
+    // 2. Ranked search (fetch one extra to check hasMore)
+    const searchOptions: PostSearchOptions = {
+      categoryId: input.categoryId,
+      tagId: input.tagId,
+      authorId: input.authorId,
+      publishedFrom: input.from,
+      publishedTo: input.to,
+      cursor,
+      limit: limit + 1,
+    };
+
+    let hits: ScoredHit[];
+    let truncated = false;
+    if (mode === 'fulltext') {
+      const fulltext = await this.deps.postRepository.searchFullTextRanked(
+        query,
+        searchOptions
+      );
+      hits = fulltext.map((hit) => ({
+        ...hit,
+        scores: { ...EMPTY_SCORES, fulltextRank: hit.rank },
+      }));
+    } else {
+      if (!this.deps.embeddingService) {
+        return failure(
+          ErrorCodes.SEARCH_UNAVAILABLE,
+          `${
+            mode === 'hybrid' ? 'Hybrid' : 'Semantic'
+          } search is not configured`
+        );
+      }
+
+      let queryEmbedding: number[];
+      try {
+        queryEmbedding = await this.deps.embeddingService.embedQuery(query);
+      } catch (error) {
+        return failure(
+          ErrorCodes.SEARCH_UNAVAILABLE,
+          `${
+            mode === 'hybrid' ? 'Hybrid' : 'Semantic'
+          } search is temporarily unavailable`,
+          { reason: error instanceof Error ? error.message : String(error) }
+        );
+      }
+
+      if (mode === 'semantic') {
+        const similar = await this.deps.postRepository.searchSemantic(
+          queryEmbedding,
+          searchOptions
+        );
+        hits = similar.map(({ post, similarity }) => ({
+          post,
+          rank: similarity,
+          titleHighlight: escapeHtml(post.title),
+          snippet: escapeHtml(post.toJSON().excerpt ?? ''),
+          scores: { ...EMPTY_SCORES, semanticSimilarity: similarity },
+        }));
+      } else {
+        ({ hits, truncated } = await this.hybridSearch(
+          query,
+          queryEmbedding,
+          searchOptions
+        ));
+      }
+    }
+
+    const hasMore = hits.length > limit;
+    if (hasMore) {
+      hits = hits.slice(0, limit);
+    }
+
+    // 3. Batch load authors
+    const authorIds = [...new Set(hits.map((h) => h.post.authorId))];
+    const authors = await this.deps.userRepository.findByIds(authorIds);
+    const authorMap = new Map(authors.map((a) => [a.toJSON().id, a]));
+
+    // 4. Bulk check bookmarks (if user is authenticated)
+    let bookmarkedMap = new Map<string, boolean>();
+    if (input.userId && this.deps.bookmarkRepository && hits.length > 0) {
+      bookmarkedMap =
+        await this.deps.bookmarkRepository.isPostsBookmarkedByUser(
+          input.userId,
+          hits.map((h) => h.post.id)
+        );
+    }
+
+    // 5. Build response
+    const results: SearchPostResult[] = hits.map((hit) => {
+      const postData = hit.post.toJSON();
+      const authorData = authorMap.get(postData.authorId)?.toJSON();
+
+      return {
+        id: postData.id,
+        authorId: postData.authorId,
+        title: postData.title,
+        slug: postData.slug,
+        excerpt: postData.excerpt,
+        featuredImageUrl: postData.featuredImageUrl,
+        videoId: postData.videoId,
+        video: postData.video ?? null,
+        status: postData.status,
+        visibility: postData.visibility,
+        viewCount: postData.viewCount,
+        likeCount: postData.likeCount,
+        commentCount: postData.commentCount,
+        isBookmarked: bookmarkedMap.get(postData.id) ?? false,
+        publishedAt: postData.publishedAt,
+        createdAt: postData.createdAt,
+        author: {
+          id: authorData?.id ?? postData.authorId,
+          username: authorData?.username ?? 'unknown',
+          fullName: authorData?.fullName ?? null,
+          avatarUrl: authorData?.avatarUrl ?? null,
+        },
+        rank: hit.rank,
+        titleHighlight: hit.titleHighlight,
+        snippet: hit.snippet,
+        scores: hit.scores,
+      };
+    });
+
+    const last = hits[hits.length - 1];
+    const nextCursor =
+      hasMore && last
+        ? encodeSearchCursor({ rank: last.rank, id: last.post.id })
+        : null;
+
+    // 6. Log search (first page only, so pagination is not counted twice)
+    if (!cursor) {
+      await this.logSearch({
+        userId: input.userId,
+        query,
+        mode,
+        resultsCount: results.length,
+      });
+    }
+
+    return success({ mode, results, nextCursor, hasMore, truncated });
+  }
+
+  /**
+   * Fetch both candidate lists (same filters, no cursor), fuse them with
+   * RRF and page through the fused list with the (score, id) cursor.
+   * Only the first candidateLimit hits of each list are fused.
+   */
+  private async hybridSearch(
+    query: string,
+    queryEmbedding: number[],
+    options: PostSearchOptions
+  ): Promise<{ hits: ScoredHit[]; truncated: boolean }> {
+    const { cursor, limit, ...filters } = options;
+    const k = this.deps.hybridOptions?.k ?? DEFAULT_RRF_K;
+    const fulltextWeight = this.deps.hybridOptions?.fulltextWeight ?? 1;
+    const semanticWeight = this.deps.hybridOptions?.semanticWeight ?? 1;
+    const candidateLimit =
+      this.deps.hybridOptions?.candidateLimit ?? DEFAULT_HYBRID_CANDIDATES;
+
+    const [fulltext, semantic] = await Promise.all([
+      this.deps.postRepository.searchFullTextRanked(query, {
+        ...filters,
+        limit: candidateLimit,
+      }),
+      this.deps.postRepository.searchSemantic(queryEmbedding, {
+        ...filters,
+        limit: candidateLimit,
+      }),
+    ]);
+
+    // Dedupe by post ID, accumulating each signal's contribution
+    const fused = new Map<string, ScoredHit>();
+
+    fulltext.forEach((hit, index) => {
+      fused.set(hit.post.id, {
+        ...hit,
+        rank: fulltextWeight / (k + index + 1),
+        scores: {
+          ...EMPTY_SCORES,
+          fulltextRank: hit.rank,
+          fulltextPosition: index + 1,
+        },
+      });
+    });
+
+    semantic.forEach(({ post, similarity }, index) => {
+      const contribution = semanticWeight / (k + index + 1);
+      const existing = fused.get(post.id);
+      if (existing) {
+        existing.rank += contribution;
+        existing.scores.semanticSimilarity = similarity;
+        existing.scores.semanticPosition = index + 1;
+      } else {
+        fused.set(post.id, {
+          post,
+          rank: contribution,
+          titleHighlight: escapeHtml(post.title),
+          snippet: escapeHtml(post.toJSON().excerpt ?? ''),
+          scores: {
+            ...EMPTY_SCORES,
+            semanticSimilarity: similarity,
+            semanticPosition: index + 1,
+          },
+        });
+      }
+    });
+
+    const ranked = [...fused.values()]
+      .map((hit) => ({ ...hit, scores: { ...hit.scores, fused: hit.rank } }))
+      .sort((a, b) => b.rank - a.rank || compareIdsDesc(a.post.id, b.post.id))
+      .filter(
+        (hit) =>
+          !cursor ||
+          hit.rank < cursor.rank ||
+          (hit.rank === cursor.rank && hit.post.id < cursor.id)
+      );
+
+    return {
+      hits: ranked.slice(0, limit),
+      truncated:
+        fulltext.length >= candidateLimit || semantic.length >= candidateLimit,
+    };
+  }
+
+  private async logSearch(entry: {
+    userId?: string;
+    query: string;
+    mode: SearchMode;
+    resultsCount: number;
+  }): Promise<void> {
+    if (!this.deps.searchQueryRepository) return;
+
+    try {
+      await this.deps.searchQueryRepository.create({
+        userId: entry.userId ?? null,
+        query: entry.query,
+        searchType: entry.mode,
+        resultsCount: entry.resultsCount,
+      });
+    } catch {
+      // Analytics must never fail a search
+    }
+  }
+}
+
+const EMPTY_SCORES: SearchResultScores = {
+  fulltextRank: null,
+  fulltextPosition: null,
+  semanticSimilarity: null,
+  semanticPosition: null,
+  fused: null,
+};
+
+function compareIdsDesc(a: string, b: string): number {
+  return a < b ? 1 : a > b ? -1 : 0;
+}
+
+/**
+ * Escape text for the HTML of titleHighlight/snippet
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Encode a ranked cursor as an opaque base64url token
+ */
+export function encodeSearchCursor(cursor: PostSearchCursor): string {
+  return Buffer.from(JSON.stringify([cursor.rank, cursor.id])).toString(
+    'base64url'
+  );
+}
+
+/**
+ * Decode a ranked cursor token (null if malformed)
+ */
+export function decodeSearchCursor(token: string): PostSearchCursor | null {
+  try {
+    const parsed: unknown = JSON.parse(
+      Buffer.from(token, 'base64url').toString('utf8')
+    );
+    if (
+      Array.isArray(parsed) &&
+      typeof parsed[0] === 'number' &&
+      Number.isFinite(parsed[0]) &&
+      typeof parsed[1] === 'string' &&
+      /^[0-9a-f-]{36}$/i.test(parsed[1])
+    ) {
+      return { rank: parsed[0], id: parsed[1] };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
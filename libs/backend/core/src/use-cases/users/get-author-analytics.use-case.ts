@@ -0,0 +1,104 @@
+/**
+ * Get Author Analytics Use Case
+ *
+ * Creator analytics for the current user: daily time series, per-post
+ * breakdown, video completion histogram and top referrers over the last
+ * N days (today included).
+ */
+
+import type {
+  IAnalyticsRepository,
+  AnalyticsTotals,
+  AnalyticsDailyPoint,
+  PostAnalytics,
+  CompletionBucket,
+  ReferrerCount,
+} from '../../ports/repositories/analytics.repository.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+const POST_BREAKDOWN_LIMIT = 50;
+const REFERRER_LIMIT = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface GetAuthorAnalyticsInput {
+  userId: string;
+  /** Number of days to cover, ending today (default 30, max 365) */
+  days?: number;
+}
+
+export interface GetAuthorAnalyticsOutput {
+  range: {
+    /** 'YYYY-MM-DD' */
+    from: string;
+    to: string;
+    days: number;
+  };
+  totals: AnalyticsTotals;
+  daily: AnalyticsDailyPoint[];
+  posts: PostAnalytics[];
+  videoCompletion: CompletionBucket[];
+  referrers: ReferrerCount[];
+}
+
+export interface GetAuthorAnalyticsDependencies {
+  analyticsRepository: IAnalyticsRepository;
+}
+
+export class GetAuthorAnalyticsUseCase {
+  constructor(private readonly deps: GetAuthorAnalyticsDependencies) {}
+
+  async execute(
+    input: GetAuthorAnalyticsInput
+  ): Promise<Result<GetAuthorAnalyticsOutput>> {
+    // 1. Validate range
+    const days = input.days ?? DEFAULT_DAYS;
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        `days must be an integer between 1 and ${MAX_DAYS}`
+      );
+    }
+
+    // 2. Resolve calendar days (UTC)
+    const now = new Date();
+    const to = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+    );
+    const from = new Date(to.getTime() - (days - 1) * DAY_MS);
+    const range = { from, to };
+
+    // 3. Aggregate
+    const { analyticsRepository } = this.deps;
+    const [totals, daily, posts, videoCompletion, referrers] =
+      await Promise.all([
+        analyticsRepository.getTotals(input.userId, range),
+        analyticsRepository.getDailySeries(input.userId, range),
+        analyticsRepository.getPostBreakdown(
+          input.userId,
+          range,
+          POST_BREAKDOWN_LIMIT
+        ),
+        analyticsRepository.getVideoCompletionHistogram(input.userId, range),
+        analyticsRepository.getTopReferrers(
+          input.userId,
+          range,
+          REFERRER_LIMIT
+        ),
+      ]);
+
+    return success({
+      range: {
+        from: from.toISOString().slice(0, 10),
+        to: to.toISOString().slice(0, 10),
+        days,
+      },
+      totals,
+      daily,
+      posts,
+      videoCompletion,
+      referrers,
+    });
+  }
+}
@@ -16,3 +16,10 @@ export {
   type UpdateUserProfileOutput,
   type UpdateUserProfileDependencies,
 } from './update-user-profile.use-case.js';
+
+export {
+  GetAuthorAnalyticsUseCase,
+  type GetAuthorAnalyticsInput,
+  type GetAuthorAnalyticsOutput,
+  type GetAuthorAnalyticsDependencies,
+} from './get-author-analytics.use-case.js';
@@ -0,0 +1,58 @@
+/**
+ * Abort Multipart Upload Use Case
+ *
+ * Cancels an upload in progress: discards the uploaded parts and deletes
+ * the pending video record.
+ */
+
+import type { IVideoRepository } from '../../ports/repositories/video.repository.interface.js';
+import type { IVideoUploadRepository } from '../../ports/repositories/video-upload.repository.interface.js';
+import type { IStorageService } from '../../ports/services/storage.service.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+export interface AbortMultipartUploadInput {
+  videoId: string;
+  userId: string;
+}
+
+export interface AbortMultipartUploadOutput {
+  videoId: string;
+}
+
+export interface AbortMultipartUploadDependencies {
+  videoRepository: IVideoRepository;
+  videoUploadRepository: IVideoUploadRepository;
+  storageService: IStorageService;
+}
+
+export class AbortMultipartUploadUseCase {
+  constructor(private readonly deps: AbortMultipartUploadDependencies) {}
+
+  async execute(
+    input: AbortMultipartUploadInput
+  ): Promise<Result<AbortMultipartUploadOutput>> {
+    // 1. Find the upload and check ownership
+    const upload = await this.deps.videoUploadRepository.findByVideoId(
+      input.videoId
+    );
+    if (!upload) {
+      return failure(ErrorCodes.NOT_FOUND, 'Upload not found');
+    }
+
+    if (upload.userId !== input.userId) {
+      return failure(ErrorCodes.FORBIDDEN, 'You do not own this upload');
+    }
+
+    // 2. Discard the parts in storage
+    await this.deps.storageService.abortMultipartUpload({
+      bucket: upload.bucket,
+      key: upload.key,
+      uploadId: upload.uploadId,
+    });
+
+    // 3. Delete the pending video (the upload record goes with it)
+    await this.deps.videoRepository.hardDelete(upload.videoId);
+
+    return success({ videoId: upload.videoId });
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Authorize Video Playback Use Case
+ *
+ * The encoded videos bucket is private: viewers load a video's files
+ * through the playback proxy with a short-lived signed token. A token is
+ * only issued to viewers who may see the post the video is attached to,
+ * by the same rules as the post itself (drafts and private posts are for
+ * their author only). Players ask for a new token before it expires.
+ */
+
+import {
+  PostStatus,
+  PostVisibility,
+  type PostEntity,
+} from '@blog/shared/domain';
+import type { IVideoRepository } from '../../ports/repositories/video.repository.interface.js';
+import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
+import type { IPlaybackTokenService } from '../../ports/services/playback-token.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+/** Lifetime of a playback token in seconds */
+export const PLAYBACK_TOKEN_TTL = 10 * 60;
+
+export interface AuthorizeVideoPlaybackInput {
+  videoId: string;
+  /** Logged in viewer, if any */
+  userId?: string;
+}
+
+export interface AuthorizeVideoPlaybackOutput {
+  token: string;
+  expiresAt: Date;
+}
+
+export interface AuthorizeVideoPlaybackDependencies {
+  videoRepository: IVideoRepository;
+  postRepository: IPostRepository;
+  playbackTokenService: IPlaybackTokenService;
+}
+
+/**
+ * Whether a viewer may watch the video of a post: published public and
+ * unlisted posts are for anyone, everything else for the author only
+ */
+export function canWatchPostVideo(
+  post: PostEntity,
+  userId: string | undefined
+): boolean {
+  const postData = post.toJSON();
+  if (userId && userId === postData.authorId) {
+    return true;
+  }
+  return (
+    !post.isDeleted() &&
+    postData.status === PostStatus.PUBLISHED &&
+    postData.visibility !== PostVisibility.PRIVATE
+  );
+}
+
+export class AuthorizeVideoPlaybackUseCase {
+  constructor(private readonly deps: AuthorizeVideoPlaybackDependencies) {}
+
+  async execute(
+    input: AuthorizeVideoPlaybackInput
+  ): Promise<Result<AuthorizeVideoPlaybackOutput>> {
+    // 1. Find the video; only encoded videos can be played
+    const video = await this.deps.videoRepository.findById(input.videoId);
+    const videoData = video?.toJSON();
+    if (!videoData || videoData.deletedAt || !videoData.hlsMasterUrl) {
+      return failure(ErrorCodes.NOT_FOUND, 'Video not found');
+    }
+
+    // 2. Check the viewer may see its post. Videos not attached to a post
+    //    have no audience yet.
+    const post = await this.deps.postRepository.findByVideoId(input.videoId);
+    if (!post || post.isDeleted()) {
+      return failure(ErrorCodes.NOT_FOUND, 'Video not found');
+    }
+    if (!canWatchPostVideo(post, input.userId)) {
+      return failure(
+        ErrorCodes.FORBIDDEN,
+        'You do not have permission to watch this video'
+      );
+    }
+
+    // 3. Sign a token for the video's files
+    const expiresAt = new Date(Date.now() + PLAYBACK_TOKEN_TTL * 1000);
+    const token = this.deps.playbackTokenService.sign({
+      videoId: input.videoId,
+      userId: input.userId ?? null,
+      expiresAt,
+    });
+
+    return success({ token, expiresAt });
+  }
+}
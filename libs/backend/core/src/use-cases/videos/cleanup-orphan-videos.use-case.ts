@@ -3,11 +3,14 @@
  *
  * Cleans up videos that were uploaded but never attached to a post.
  * These videos are considered orphans after a configurable time period (default: 24 hours).
+ * Multipart uploads that were never completed are aborted first, so their
+ * parts do not linger in storage once the pending video is gone.
  *
  * Use case: Scheduled job runs periodically to remove orphan videos and free up storage.
  */
 
 import type { IVideoRepository } from '../../ports/repositories/video.repository.interface.js';
+import type { IVideoUploadRepository } from '../../ports/repositories/video-upload.repository.interface.js';
 import type { IStorageService } from '../../ports/services/storage.service.interface.js';
 import type { IVideoQueueService } from '../../ports/services/video-queue.service.interface.js';
 import { type Result } from '../common/result.js';
@@ -19,6 +22,8 @@ export interface CleanupOrphanVideosInput {
   batchSize?: number;
   /** If true, only report what would be deleted without actually deleting */
   dryRun?: boolean;
+  /** Hours after which an unfinished multipart upload is aborted (default: 24) */
+  staleUploadHours?: number;
 }
 
 export interface CleanupOrphanVideosOutput {
@@ -30,6 +35,8 @@ export interface CleanupOrphanVideosOutput {
   cleanedVideoIds: string[];
   /** IDs of videos that failed to cleanup */
   failedVideoIds: string[];
+  /** Number of stale multipart uploads aborted (or found, on a dry run) */
+  abortedUploads: number;
   /** Was this a dry run? */
   dryRun: boolean;
 }
@@ -38,29 +45,45 @@ export interface CleanupOrphanVideosUseCaseDeps {
   videoRepository: IVideoRepository;
   storageService: IStorageService;
   videoQueueService: IVideoQueueService;
+  /** Without it stale multipart uploads are left alone */
+  videoUploadRepository?: IVideoUploadRepository;
 }
 
 export class CleanupOrphanVideosUseCase {
   private readonly videoRepository: IVideoRepository;
   private readonly storageService: IStorageService;
   private readonly videoQueueService: IVideoQueueService;
+  private readonly videoUploadRepository?: IVideoUploadRepository;
 
   constructor(deps: CleanupOrphanVideosUseCaseDeps) {
     this.videoRepository = deps.videoRepository;
     this.storageService = deps.storageService;
     this.videoQueueService = deps.videoQueueService;
+    this.videoUploadRepository = deps.videoUploadRepository;
   }
 
   async execute(
     input: CleanupOrphanVideosInput = {}
   ): Promise<Result<CleanupOrphanVideosOutput>> {
-    const { orphanAgeHours = 24, batchSize = 100, dryRun = false } = input;
+    const {
+      orphanAgeHours = 24,
+      batchSize = 100,
+      dryRun = false,
+      staleUploadHours = 24,
+    } = input;
 
     console.log(
       `🧹 Starting orphan video cleanup (age: ${orphanAgeHours}h, batch: ${batchSize}, dryRun: ${dryRun})`
     );
 
     try {
+      // Abort multipart uploads that were never completed
+      const abortedUploads = await this.abortStaleUploads(
+        staleUploadHours,
+        batchSize,
+        dryRun
+      );
+
       // Find orphan videos older than the specified age
       const orphanVideos = await this.videoRepository.findOrphanVideos(
         orphanAgeHours
@@ -81,6 +104,7 @@ export class CleanupOrphanVideosUseCase {
             cleanedUp: 0,
             cleanedVideoIds: [],
             failedVideoIds: [],
+            abortedUploads,
             dryRun: true,
           },
         };
@@ -138,6 +162,7 @@ export class CleanupOrphanVideosUseCase {
           cleanedUp: cleanedVideoIds.length,
           cleanedVideoIds,
           failedVideoIds,
+          abortedUploads,
           dryRun: false,
         },
       };
@@ -156,6 +181,46 @@ export class CleanupOrphanVideosUseCase {
     }
   }
 
+  private async abortStaleUploads(
+    staleUploadHours: number,
+    batchSize: number,
+    dryRun: boolean
+  ): Promise<number> {
+    if (!this.videoUploadRepository) return 0;
+
+    const olderThan = new Date(Date.now() - staleUploadHours * 60 * 60 * 1000);
+    const staleUploads = await this.videoUploadRepository.findStale(
+      olderThan,
+      batchSize
+    );
+
+    console.log(`📊 Found ${staleUploads.length} stale multipart uploads`);
+
+    if (dryRun) return staleUploads.length;
+
+    let aborted = 0;
+    for (const upload of staleUploads) {
+      try {
+        await this.storageService.abortMultipartUpload({
+          bucket: upload.bucket,
+          key: upload.key,
+          uploadId: upload.uploadId,
+        });
+        // The pending video is removed by the orphan pass once it is old
+        // enough; a later completion attempt fails with "Upload not found"
+        await this.videoUploadRepository.delete(upload.videoId);
+        aborted++;
+      } catch (error) {
+        console.warn(
+          `⚠️ Failed to abort multipart upload for ${upload.videoId}:`,
+          error
+        );
+      }
+    }
+
+    return aborted;
+  }
+
   private async deleteVideoFiles(
     videoId: string,
     rawFilePath?: string
@@ -192,14 +257,20 @@ export class CleanupOrphanVideosUseCase {
       console.warn(`⚠️ Failed to delete encoded files for ${videoId}:`, error);
     }
 
-    // Delete thumbnail
+    // Delete thumbnails (the poster, its candidates and custom posters)
     try {
-      await this.storageService.deleteObject({
+      const objects = await this.storageService.listObjects({
         bucket: 'thumbnails',
-        key: `${videoId}/thumbnail.jpg`,
+        prefix: `${videoId}/`,
       });
+      if (objects.length > 0) {
+        await this.storageService.deleteObjects(
+          'thumbnails',
+          objects.map((obj) => obj.key)
+        );
+      }
     } catch (error) {
-      console.warn(`⚠️ Failed to delete thumbnail for ${videoId}:`, error);
+      console.warn(`⚠️ Failed to delete thumbnails for ${videoId}:`, error);
     }
   }
 }
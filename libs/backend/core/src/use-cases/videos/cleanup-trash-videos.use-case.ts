@@ -178,14 +178,20 @@ export class CleanupTrashVideosUseCase {
       console.warn(`⚠️ Failed to delete encoded files for ${videoId}:`, error);
     }
 
-    // Delete thumbnail
+    // Delete thumbnails (the poster, its candidates and custom posters)
     try {
-      await this.storageService.deleteObject({
+      const objects = await this.storageService.listObjects({
         bucket: 'thumbnails',
-        key: `${videoId}/thumbnail.jpg`,
+        prefix: `${videoId}/`,
       });
+      if (objects.length > 0) {
+        await this.storageService.deleteObjects(
+          'thumbnails',
+          objects.map((obj) => obj.key)
+        );
+      }
     } catch (error) {
-      console.warn(`⚠️ Failed to delete thumbnail for ${videoId}:`, error);
+      console.warn(`⚠️ Failed to delete thumbnails for ${videoId}:`, error);
     }
   }
 }
@@ -0,0 +1,95 @@
+/**
+ * Complete Multipart Upload Use Case
+ *
+ * Assembles the uploaded parts into the raw video file. The part list comes
+ * from storage rather than the client, and every part must be there with
+ * the expected total size. The video stays in uploading status: the client
+ * confirms the upload afterwards, as with a single presigned upload.
+ */
+
+import type { IVideoRepository } from '../../ports/repositories/video.repository.interface.js';
+import type { IVideoUploadRepository } from '../../ports/repositories/video-upload.repository.interface.js';
+import type { IStorageService } from '../../ports/services/storage.service.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+export interface CompleteMultipartUploadInput {
+  videoId: string;
+  userId: string;
+}
+
+export interface CompleteMultipartUploadOutput {
+  videoId: string;
+  fileSize: number;
+}
+
+export interface CompleteMultipartUploadDependencies {
+  videoRepository: IVideoRepository;
+  videoUploadRepository: IVideoUploadRepository;
+  storageService: IStorageService;
+}
+
+export class CompleteMultipartUploadUseCase {
+  constructor(private readonly deps: CompleteMultipartUploadDependencies) {}
+
+  async execute(
+    input: CompleteMultipartUploadInput
+  ): Promise<Result<CompleteMultipartUploadOutput>> {
+    // 1. Find the upload and check ownership
+    const upload = await this.deps.videoUploadRepository.findByVideoId(
+      input.videoId
+    );
+    if (!upload) {
+      return failure(ErrorCodes.NOT_FOUND, 'Upload not found');
+    }
+
+    if (upload.userId !== input.userId) {
+      return failure(ErrorCodes.FORBIDDEN, 'You do not own this upload');
+    }
+
+    const video = await this.deps.videoRepository.findById(input.videoId);
+    if (!video) {
+      return failure(ErrorCodes.NOT_FOUND, 'Video not found');
+    }
+
+    // 2. Check every part is in storage
+    const ref = {
+      bucket: upload.bucket,
+      key: upload.key,
+      uploadId: upload.uploadId,
+    };
+    const parts = await this.deps.storageService.listMultipartParts(ref);
+
+    const missing = [];
+    for (let partNumber = 1; partNumber <= upload.partCount; partNumber++) {
+      if (!parts.some((part) => part.partNumber === partNumber)) {
+        missing.push(partNumber);
+      }
+    }
+    if (missing.length > 0 || parts.length !== upload.partCount) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        `Upload is incomplete: ${missing.length} part(s) missing`,
+        { missingParts: missing }
+      );
+    }
+
+    // 3. Check the parts add up to the announced file size
+    const fileSize = parts.reduce((sum, part) => sum + part.size, 0);
+    const expectedSize = video.toJSON().fileSize;
+    if (fileSize !== expectedSize) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        `Uploaded size (${fileSize} bytes) does not match the file size (${expectedSize} bytes)`
+      );
+    }
+
+    // 4. Assemble the object and stop tracking the upload
+    await this.deps.storageService.completeMultipartUpload({
+      ...ref,
+      parts: parts.map(({ partNumber, etag }) => ({ partNumber, etag })),
+    });
+    await this.deps.videoUploadRepository.delete(upload.videoId);
+
+    return success({ videoId: upload.videoId, fileSize });
+  }
+}
@@ -178,16 +178,20 @@ export class DeleteVideoUseCase {
       }
     }
 
-    // Delete thumbnail
+    // Delete thumbnails (the poster, its candidates and custom posters)
     if (videoData.thumbnailUrl) {
       try {
-        // Extract key from thumbnail URL
-        const thumbnailKey = `${videoId}/thumbnail.jpg`;
-        await this.deps.storageService.deleteObject({
+        const objects = await this.deps.storageService.listObjects({
           bucket: StorageBuckets.THUMBNAILS,
-          key: thumbnailKey,
+          prefix: `${videoId}/`,
         });
-        console.log(`🗑️ Deleted thumbnail for video ${videoId}`);
+        if (objects.length > 0) {
+          await this.deps.storageService.deleteObjects(
+            StorageBuckets.THUMBNAILS,
+            objects.map((obj) => obj.key)
+          );
+        }
+        console.log(`🗑️ Deleted thumbnails for video ${videoId}`);
       } catch (error) {
         console.error(`Failed to delete thumbnail for video ${videoId}`, error);
       }
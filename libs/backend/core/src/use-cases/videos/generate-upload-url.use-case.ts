@@ -18,13 +18,13 @@ import { StorageBuckets } from '../../ports/services/storage.service.interface.j
 import { type Result, success, failure, ErrorCodes } from '../common/result.js';
 
 /** Maximum file size: 2GB (BR-02) */
-const MAX_FILE_SIZE = 2 * 1024 * 1024 * 1024;
+export const MAX_FILE_SIZE = 2 * 1024 * 1024 * 1024;
 
 /** Presigned URL expiration: 1 hour */
 const PRESIGNED_URL_EXPIRY = 3600;
 
 /** Maximum videos per user (to prevent abuse) */
-const MAX_VIDEOS_PER_USER = 50;
+export const MAX_VIDEOS_PER_USER = 50;
 
 export interface GenerateUploadUrlInput {
   userId: string;
@@ -130,6 +130,8 @@ export class GenerateUploadUrlUseCase {
       rawFilePath: `${StorageBuckets.VIDEOS_RAW}/${storageKey}`,
       hlsMasterUrl: null,
       thumbnailUrl: null,
+      thumbnailsVttUrl: null,
+      dashManifestUrl: null,
       availableQualities: [],
       retryCount: 0,
       errorMessage: null,
@@ -0,0 +1,64 @@
+/**
+ * Get Multipart Upload Use Case
+ *
+ * Returns an upload in progress with the parts already in storage, so the
+ * uploader can resume it (e.g. after a reload) and skip those parts.
+ */
+
+import type { IVideoUploadRepository } from '../../ports/repositories/video-upload.repository.interface.js';
+import type {
+  IStorageService,
+  UploadedPart,
+} from '../../ports/services/storage.service.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+export interface GetMultipartUploadInput {
+  videoId: string;
+  userId: string;
+}
+
+export interface GetMultipartUploadOutput {
+  videoId: string;
+  partSize: number;
+  partCount: number;
+  uploadedParts: UploadedPart[];
+}
+
+export interface GetMultipartUploadDependencies {
+  videoUploadRepository: IVideoUploadRepository;
+  storageService: IStorageService;
+}
+
+export class GetMultipartUploadUseCase {
+  constructor(private readonly deps: GetMultipartUploadDependencies) {}
+
+  async execute(
+    input: GetMultipartUploadInput
+  ): Promise<Result<GetMultipartUploadOutput>> {
+    // 1. Find the upload and check ownership
+    const upload = await this.deps.videoUploadRepository.findByVideoId(
+      input.videoId
+    );
+    if (!upload) {
+      return failure(ErrorCodes.NOT_FOUND, 'Upload not found');
+    }
+
+    if (upload.userId !== input.userId) {
+      return failure(ErrorCodes.FORBIDDEN, 'You do not own this upload');
+    }
+
+    // 2. Ask storage which parts it already has
+    const uploadedParts = await this.deps.storageService.listMultipartParts({
+      bucket: upload.bucket,
+      key: upload.key,
+      uploadId: upload.uploadId,
+    });
+
+    return success({
+      videoId: upload.videoId,
+      partSize: upload.partSize,
+      partCount: upload.partCount,
+      uploadedParts,
+    });
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Get Upload Part URLs Use Case
+ *
+ * Presigns upload URLs for parts of a multipart upload. The uploader asks
+ * for a batch at a time rather than for every part up front, so URLs do
+ * not expire while earlier parts are still uploading.
+ */
+
+import type { IVideoUploadRepository } from '../../ports/repositories/video-upload.repository.interface.js';
+import type { IStorageService } from '../../ports/services/storage.service.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+/** Presigned part URL expiration: 1 hour */
+const PART_URL_EXPIRY = 3600;
+
+/** Part URLs presigned per request */
+const MAX_PART_URLS = 100;
+
+export interface GetUploadPartUrlsInput {
+  videoId: string;
+  userId: string;
+  partNumbers: number[];
+}
+
+export interface UploadPartUrl {
+  partNumber: number;
+  url: string;
+}
+
+export interface GetUploadPartUrlsOutput {
+  parts: UploadPartUrl[];
+  expiresAt: Date;
+}
+
+export interface GetUploadPartUrlsDependencies {
+  videoUploadRepository: IVideoUploadRepository;
+  storageService: IStorageService;
+}
+
+export class GetUploadPartUrlsUseCase {
+  constructor(private readonly deps: GetUploadPartUrlsDependencies) {}
+
+  async execute(
+    input: GetUploadPartUrlsInput
+  ): Promise<Result<GetUploadPartUrlsOutput>> {
+    // 1. Find the upload and check ownership
+    const upload = await this.deps.videoUploadRepository.findByVideoId(
+      input.videoId
+    );
+    if (!upload) {
+      return failure(ErrorCodes.NOT_FOUND, 'Upload not found');
+    }
+
+    if (upload.userId !== input.userId) {
+      return failure(ErrorCodes.FORBIDDEN, 'You do not own this upload');
+    }
+
+    // 2. Validate part numbers
+    const partNumbers = [...new Set(input.partNumbers)];
+    if (partNumbers.length === 0 || partNumbers.length > MAX_PART_URLS) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        `Request between 1 and ${MAX_PART_URLS} parts`
+      );
+    }
+
+    const invalid = partNumbers.find(
+      (n) => !Number.isInteger(n) || n < 1 || n > upload.partCount
+    );
+    if (invalid !== undefined) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        `Part numbers must be between 1 and ${upload.partCount}`
+      );
+    }
+
+    // 3. Presign a URL per part
+    let expiresAt = new Date(Date.now() + PART_URL_EXPIRY * 1000);
+    const parts: UploadPartUrl[] = [];
+    for (const partNumber of partNumbers) {
+      const presigned = await this.deps.storageService.generatePresignedPartUrl(
+        {
+          bucket: upload.bucket,
+          key: upload.key,
+          uploadId: upload.uploadId,
+          partNumber,
+          expiresIn: PART_URL_EXPIRY,
+        }
+      );
+      parts.push({ partNumber, url: presigned.url });
+      if (presigned.expiresAt < expiresAt) expiresAt = presigned.expiresAt;
+    }
+
+    return success({ parts, expiresAt });
+  }
+}
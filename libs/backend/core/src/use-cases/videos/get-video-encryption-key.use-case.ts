@@ -0,0 +1,91 @@
+/**
+ * Get Video Encryption Key Use Case
+ *
+ * Encrypted HLS segments are useless without their key, so the key is only
+ * given to viewers who may watch the video: players bring the playback
+ * token the proxy added to the key URI of the playlist; other clients are
+ * checked against the post like for a playback token. Every version of a
+ * video's key stays available so playlists loaded before a re-encode keep
+ * working.
+ */
+
+import type { IVideoRepository } from '../../ports/repositories/video.repository.interface.js';
+import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
+import type { IVideoEncryptionKeyRepository } from '../../ports/repositories/video-encryption-key.repository.interface.js';
+import type { IPlaybackTokenService } from '../../ports/services/playback-token.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+import { canWatchPostVideo } from './authorize-video-playback.use-case.js';
+
+export interface GetVideoEncryptionKeyInput {
+  videoId: string;
+  /** Key version from the playlist (default: the latest) */
+  version?: number;
+  /** Playback token for the video */
+  token?: string;
+  /** Logged in viewer, if any (checked when there is no token) */
+  userId?: string;
+}
+
+export interface GetVideoEncryptionKeyOutput {
+  version: number;
+  /** Raw 16-byte AES-128 key */
+  key: Buffer;
+}
+
+export interface GetVideoEncryptionKeyDependencies {
+  videoRepository: IVideoRepository;
+  postRepository: IPostRepository;
+  encryptionKeyRepository: IVideoEncryptionKeyRepository;
+  playbackTokenService: IPlaybackTokenService;
+}
+
+export class GetVideoEncryptionKeyUseCase {
+  constructor(private readonly deps: GetVideoEncryptionKeyDependencies) {}
+
+  async execute(
+    input: GetVideoEncryptionKeyInput
+  ): Promise<Result<GetVideoEncryptionKeyOutput>> {
+    // 1. Find the video
+    const video = await this.deps.videoRepository.findById(input.videoId);
+    if (!video || video.toJSON().deletedAt) {
+      return failure(ErrorCodes.NOT_FOUND, 'Video not found');
+    }
+
+    // 2. Check the viewer may watch it: a playback token for this video,
+    //    or the same checks as issuing one
+    if (input.token) {
+      const payload = this.deps.playbackTokenService.verify(input.token);
+      if (!payload || payload.videoId !== input.videoId) {
+        return failure(
+          ErrorCodes.INVALID_TOKEN,
+          'Invalid or expired playback token'
+        );
+      }
+    } else {
+      const post = await this.deps.postRepository.findByVideoId(input.videoId);
+      if (!post || post.isDeleted()) {
+        return failure(ErrorCodes.NOT_FOUND, 'Video not found');
+      }
+      if (!canWatchPostVideo(post, input.userId)) {
+        return failure(
+          ErrorCodes.FORBIDDEN,
+          'You do not have permission to watch this video'
+        );
+      }
+    }
+
+    // 3. Find the key
+    const key =
+      input.version === undefined
+        ? await this.deps.encryptionKeyRepository.findLatest(input.videoId)
+        : await this.deps.encryptionKeyRepository.findByVersion(
+            input.videoId,
+            input.version
+          );
+    if (!key) {
+      return failure(ErrorCodes.NOT_FOUND, 'Encryption key not found');
+    }
+
+    return success({ version: key.version, key: key.key });
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Get Video Playback File Use Case
+ *
+ * The playback proxy: serves a file of a video to the holder of a playback
+ * token. Playlists, the DASH manifest and the preview thumbnails track are
+ * read from storage and every URI in them is given the token, so the player keeps coming back
+ * through the proxy; any other file (segments, captions, sprite sheets) is
+ * a redirect to a presigned storage URL that expires shortly.
+ */
+
+import type { IPlaybackTokenService } from '../../ports/services/playback-token.interface.js';
+import type { IStorageService } from '../../ports/services/storage.service.interface.js';
+import { StorageBuckets } from '../../ports/services/storage.service.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+/** Lifetime of the presigned URLs redirected to, in seconds */
+export const PLAYBACK_FILE_URL_TTL = 5 * 60;
+
+const PLAYLIST_CONTENT_TYPE = 'application/vnd.apple.mpegurl';
+const DASH_MANIFEST_CONTENT_TYPE = 'application/dash+xml';
+const VTT_CONTENT_TYPE = 'text/vtt';
+const THUMBNAILS_TRACK = 'thumbnails.vtt';
+
+/** Path segments of a video's files: no "..", no hidden files */
+const PATH_SEGMENT_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9_.-]*$/;
+
+export interface GetVideoPlaybackFileInput {
+  videoId: string;
+  /** Path of the file in the video's folder, e.g. 720p/segment_001.ts */
+  path: string;
+  token: string;
+}
+
+export type GetVideoPlaybackFileOutput =
+  | { type: 'content'; contentType: string; body: string }
+  | { type: 'redirect'; url: string };
+
+export interface GetVideoPlaybackFileDependencies {
+  storageService: IStorageService;
+  playbackTokenService: IPlaybackTokenService;
+}
+
+/**
+ * A relative URI with the token as its query (absolute ones are left alone)
+ */
+function addToken(uri: string, token: string): string {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(uri) || uri.startsWith('/')) {
+    return uri;
+  }
+  const [path, fragment] = uri.split('#', 2);
+  const separator = path.includes('?') ? '&' : '?';
+  const withToken = `${path}${separator}token=${encodeURIComponent(token)}`;
+  return fragment === undefined ? withToken : `${withToken}#${fragment}`;
+}
+
+/**
+ * Give every URI of an HLS playlist the token: variant and segment lines,
+ * and the URI attribute of tags (renditions, keys, init segments)
+ */
+export function addTokenToPlaylist(playlist: string, token: string): string {
+  return playlist
+    .split('\n')
+    .map((line) => {
+      const trimmed = line.trim();
+      if (!trimmed) return line;
+      if (trimmed.startsWith('#')) {
+        return line.replace(
+          /URI="([^"]*)"/g,
+          (_, uri: string) => `URI="${addToken(uri, token)}"`
+        );
+      }
+      return addToken(trimmed, token);
+    })
+    .join('\n');
+}
+
+/**
+ * Give the segment and init segment URLs of a DASH manifest the token
+ */
+export function addTokenToDashManifest(
+  manifest: string,
+  token: string
+): string {
+  return manifest.replace(
+    /\b(media|sourceURL|initialization)="([^"]*)"/g,
+    (_, attribute: string, uri: string) =>
+      // The separator may be an ampersand, which XML wants escaped
+      `${attribute}="${addToken(uri, token).replace(/&(?!amp;)/g, '&amp;')}"`
+  );
+}
+
+/**
+ * Give the sprite sheet URLs of a WebVTT thumbnails track the token
+ */
+export function addTokenToThumbnailsTrack(vtt: string, token: string): string {
+  return vtt
+    .split('\n')
+    .map((line) =>
+      /#xywh=\d+,\d+,\d+,\d+\s*$/.test(line)
+        ? addToken(line.trim(), token)
+        : line
+    )
+    .join('\n');
+}
+
+/**
+ * How to serve a file that references other files, if the path is one
+ */
+function getRewritableFile(path: string):
+  | {
+      contentType: string;
+      addToken: (content: string, token: string) => string;
+    }
+  | undefined {
+  if (path.endsWith('.m3u8')) {
+    return { contentType: PLAYLIST_CONTENT_TYPE, addToken: addTokenToPlaylist };
+  }
+  if (path.endsWith('.mpd')) {
+    return {
+      contentType: DASH_MANIFEST_CONTENT_TYPE,
+      addToken: addTokenToDashManifest,
+    };
+  }
+  if (path === THUMBNAILS_TRACK) {
+    return {
+      contentType: VTT_CONTENT_TYPE,
+      addToken: addTokenToThumbnailsTrack,
+    };
+  }
+  return undefined;
+}
+
+export class GetVideoPlaybackFileUseCase {
+  constructor(private readonly deps: GetVideoPlaybackFileDependencies) {}
+
+  async execute(
+    input: GetVideoPlaybackFileInput
+  ): Promise<Result<GetVideoPlaybackFileOutput>> {
+    // 1. Check the token is for this video
+    const payload = this.deps.playbackTokenService.verify(input.token);
+    if (!payload || payload.videoId !== input.videoId) {
+      return failure(
+        ErrorCodes.INVALID_TOKEN,
+        'Invalid or expired playback token'
+      );
+    }
+
+    const segments = input.path.split('/');
+    if (!segments.every((segment) => PATH_SEGMENT_PATTERN.test(segment))) {
+      return failure(ErrorCodes.NOT_FOUND, 'File not found');
+    }
+    const key = `${input.videoId}/${input.path}`;
+
+    // 2. Playlists and manifests are rewritten so the player comes back
+    //    with the token
+    const rewritable = getRewritableFile(input.path);
+    if (rewritable) {
+      const exists = await this.deps.storageService.objectExists({
+        bucket: StorageBuckets.VIDEOS_ENCODED,
+        key,
+      });
+      if (!exists) {
+        return failure(ErrorCodes.NOT_FOUND, 'File not found');
+      }
+
+      const content = (
+        await this.deps.storageService.getObjectBuffer({
+          bucket: StorageBuckets.VIDEOS_ENCODED,
+          key,
+        })
+      ).toString('utf8');
+
+      return success({
+        type: 'content',
+        contentType: rewritable.contentType,
+        body: rewritable.addToken(content, input.token),
+      });
+    }
+
+    // 3. Anything else is downloaded straight from storage
+    const { url } = await this.deps.storageService.generatePresignedDownloadUrl(
+      {
+        bucket: StorageBuckets.VIDEOS_ENCODED,
+        key,
+        expiresIn: PLAYBACK_FILE_URL_TTL,
+      }
+    );
+
+    return success({ type: 'redirect', url });
+  }
+}
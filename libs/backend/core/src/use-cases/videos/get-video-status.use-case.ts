@@ -6,6 +6,8 @@
 
 import type { VideoStatusResponseDto } from '@blog/shared/domain';
 import type { IVideoRepository } from '../../ports/repositories/video.repository.interface.js';
+import type { IVideoChapterRepository } from '../../ports/repositories/video-chapter.repository.interface.js';
+import type { IVideoLoudnessRepository } from '../../ports/repositories/video-loudness.repository.interface.js';
 import type { IVideoQueueService } from '../../ports/services/video-queue.service.interface.js';
 import { type Result, success, failure, ErrorCodes } from '../common/result.js';
 import { VideoStatus } from '@blog/shared/domain';
@@ -21,6 +23,8 @@ export interface GetVideoStatusOutput {
 export interface GetVideoStatusDependencies {
   videoRepository: IVideoRepository;
   videoQueueService?: IVideoQueueService; // Optional - for real-time progress
+  chapterRepository?: IVideoChapterRepository;
+  loudnessRepository?: IVideoLoudnessRepository;
 }
 
 export class GetVideoStatusUseCase {
@@ -61,7 +65,21 @@ export class GetVideoStatusUseCase {
       }
     }
 
-    // 4. Return status DTO
+    // 4. Add the chapters
+    if (this.deps.chapterRepository) {
+      statusDto.chapters = await this.deps.chapterRepository.findByVideoId(
+        input.videoId
+      );
+    }
+
+    // 5. Add the loudness of the audio, once it has been measured
+    if (this.deps.loudnessRepository) {
+      statusDto.loudness = await this.deps.loudnessRepository.findByVideoId(
+        input.videoId
+      );
+    }
+
+    // 6. Return status DTO
     return success({
       status: statusDto,
     });
@@ -0,0 +1,78 @@
+/**
+ * Get Video Thumbnail Candidates Use Case
+ *
+ * Lists the frames extracted as poster candidates when the video was
+ * encoded, with the poster currently in use, for the author to choose from.
+ */
+
+import type { IVideoRepository } from '../../ports/repositories/video.repository.interface.js';
+import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
+import type { IVideoThumbnailCandidateRepository } from '../../ports/repositories/video-thumbnail-candidate.repository.interface.js';
+import type { IStorageService } from '../../ports/services/storage.service.interface.js';
+import { StorageBuckets } from '../../ports/services/storage.service.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+export interface GetVideoThumbnailCandidatesInput {
+  videoId: string;
+  userId: string;
+}
+
+export interface VideoThumbnailCandidateOutput {
+  id: string;
+  url: string;
+  /** Seconds from the start of the video */
+  time: number;
+  score: number;
+}
+
+export interface GetVideoThumbnailCandidatesOutput {
+  /** The poster in use */
+  thumbnailUrl: string | null;
+  /** In video order */
+  candidates: VideoThumbnailCandidateOutput[];
+}
+
+export interface GetVideoThumbnailCandidatesDependencies {
+  videoRepository: IVideoRepository;
+  postRepository: IPostRepository;
+  thumbnailCandidateRepository: IVideoThumbnailCandidateRepository;
+  storageService: IStorageService;
+}
+
+export class GetVideoThumbnailCandidatesUseCase {
+  constructor(private readonly deps: GetVideoThumbnailCandidatesDependencies) {}
+
+  async execute(
+    input: GetVideoThumbnailCandidatesInput
+  ): Promise<Result<GetVideoThumbnailCandidatesOutput>> {
+    // 1. Find the video and check ownership (through its post)
+    const video = await this.deps.videoRepository.findById(input.videoId);
+    if (!video) {
+      return failure(ErrorCodes.NOT_FOUND, 'Video not found');
+    }
+
+    // Videos not attached to a post yet (it is still being written) have no
+    // owner to check, as when deleting them
+    const post = await this.deps.postRepository.findByVideoId(input.videoId);
+    if (post && post.authorId !== input.userId) {
+      return failure(ErrorCodes.FORBIDDEN, 'You do not own this video');
+    }
+
+    // 2. List the candidates
+    const candidates =
+      await this.deps.thumbnailCandidateRepository.findByVideoId(input.videoId);
+
+    return success({
+      thumbnailUrl: video.toJSON().thumbnailUrl,
+      candidates: candidates.map((candidate) => ({
+        id: candidate.id,
+        url: this.deps.storageService.getPublicUrl(
+          StorageBuckets.THUMBNAILS,
+          candidate.storageKey
+        ),
+        time: candidate.time,
+        score: candidate.score,
+      })),
+    });
+  }
+}
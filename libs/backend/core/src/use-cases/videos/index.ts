@@ -9,6 +9,43 @@ export {
   type GenerateUploadUrlDependencies,
 } from './generate-upload-url.use-case.js';
 
+export {
+  InitiateMultipartUploadUseCase,
+  MULTIPART_PART_SIZE,
+  type InitiateMultipartUploadInput,
+  type InitiateMultipartUploadOutput,
+  type InitiateMultipartUploadDependencies,
+} from './initiate-multipart-upload.use-case.js';
+
+export {
+  GetMultipartUploadUseCase,
+  type GetMultipartUploadInput,
+  type GetMultipartUploadOutput,
+  type GetMultipartUploadDependencies,
+} from './get-multipart-upload.use-case.js';
+
+export {
+  GetUploadPartUrlsUseCase,
+  type GetUploadPartUrlsInput,
+  type GetUploadPartUrlsOutput,
+  type GetUploadPartUrlsDependencies,
+  type UploadPartUrl,
+} from './get-upload-part-urls.use-case.js';
+
+export {
+  CompleteMultipartUploadUseCase,
+  type CompleteMultipartUploadInput,
+  type CompleteMultipartUploadOutput,
+  type CompleteMultipartUploadDependencies,
+} from './complete-multipart-upload.use-case.js';
+
+export {
+  AbortMultipartUploadUseCase,
+  type AbortMultipartUploadInput,
+  type AbortMultipartUploadOutput,
+  type AbortMultipartUploadDependencies,
+} from './abort-multipart-upload.use-case.js';
+
 export {
   ConfirmUploadUseCase,
   type ConfirmUploadInput,
@@ -50,3 +87,57 @@ export {
   type CleanupTrashVideosOutput,
   type CleanupTrashVideosUseCaseDeps,
 } from './cleanup-trash-videos.use-case.js';
+
+export {
+  SetVideoChaptersUseCase,
+  MAX_CHAPTERS_PER_VIDEO,
+  parseTimestamp,
+  parseChaptersFromContent,
+  type SetVideoChaptersInput,
+  type SetVideoChaptersOutput,
+  type SetVideoChaptersDependencies,
+} from './set-video-chapters.use-case.js';
+
+export {
+  GetVideoThumbnailCandidatesUseCase,
+  type GetVideoThumbnailCandidatesInput,
+  type GetVideoThumbnailCandidatesOutput,
+  type VideoThumbnailCandidateOutput,
+  type GetVideoThumbnailCandidatesDependencies,
+} from './get-video-thumbnail-candidates.use-case.js';
+
+export {
+  SelectVideoThumbnailUseCase,
+  MAX_THUMBNAIL_IMAGE_SIZE,
+  detectImageType,
+  type SelectVideoThumbnailInput,
+  type SelectVideoThumbnailOutput,
+  type SelectVideoThumbnailDependencies,
+} from './select-video-thumbnail.use-case.js';
+
+export {
+  AuthorizeVideoPlaybackUseCase,
+  PLAYBACK_TOKEN_TTL,
+  canWatchPostVideo,
+  type AuthorizeVideoPlaybackInput,
+  type AuthorizeVideoPlaybackOutput,
+  type AuthorizeVideoPlaybackDependencies,
+} from './authorize-video-playback.use-case.js';
+
+export {
+  GetVideoPlaybackFileUseCase,
+  PLAYBACK_FILE_URL_TTL,
+  addTokenToPlaylist,
+  addTokenToDashManifest,
+  addTokenToThumbnailsTrack,
+  type GetVideoPlaybackFileInput,
+  type GetVideoPlaybackFileOutput,
+  type GetVideoPlaybackFileDependencies,
+} from './get-video-playback-file.use-case.js';
+
+export {
+  GetVideoEncryptionKeyUseCase,
+  type GetVideoEncryptionKeyInput,
+  type GetVideoEncryptionKeyOutput,
+  type GetVideoEncryptionKeyDependencies,
+} from './get-video-encryption-key.use-case.js';
@@ -0,0 +1,176 @@
+/**
+ * Initiate Multipart Upload Use Case
+ *
+ * Starts a resumable upload of a raw video: the file is split into parts
+ * that the browser uploads in parallel with presigned part URLs, so a
+ * dropped connection only costs the parts in flight. Creates the pending
+ * video record and tracks the upload until it is completed or aborted.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  VideoEntity,
+  VideoStatus,
+  RequestUploadUrlDtoSchema,
+} from '@blog/shared/domain';
+import type { IVideoRepository } from '../../ports/repositories/video.repository.interface.js';
+import type { IUserRepository } from '../../ports/repositories/user.repository.interface.js';
+import type { IVideoUploadRepository } from '../../ports/repositories/video-upload.repository.interface.js';
+import type { IStorageService } from '../../ports/services/storage.service.interface.js';
+import { StorageBuckets } from '../../ports/services/storage.service.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+import {
+  MAX_FILE_SIZE,
+  MAX_VIDEOS_PER_USER,
+} from './generate-upload-url.use-case.js';
+
+/**
+ * Part size: 16MB. S3 needs at least 5MB per part (but the last) and at
+ * most 10000 parts; a 2GB file is 128 parts.
+ */
+export const MULTIPART_PART_SIZE = 16 * 1024 * 1024;
+
+export interface InitiateMultipartUploadInput {
+  userId: string;
+  filename: string;
+  fileSize: number;
+  mimeType: string;
+}
+
+export interface InitiateMultipartUploadOutput {
+  videoId: string;
+  partSize: number;
+  partCount: number;
+}
+
+export interface InitiateMultipartUploadDependencies {
+  videoRepository: IVideoRepository;
+  userRepository: IUserRepository;
+  videoUploadRepository: IVideoUploadRepository;
+  storageService: IStorageService;
+}
+
+export class InitiateMultipartUploadUseCase {
+  constructor(private readonly deps: InitiateMultipartUploadDependencies) {}
+
+  async execute(
+    input: InitiateMultipartUploadInput
+  ): Promise<Result<InitiateMultipartUploadOutput>> {
+    // 1. Validate input with Zod schema
+    const validation = RequestUploadUrlDtoSchema.safeParse({
+      filename: input.filename,
+      fileSize: input.fileSize,
+      mimeType: input.mimeType,
+    });
+
+    if (!validation.success) {
+      return failure(ErrorCodes.VALIDATION_ERROR, 'Invalid input', {
+        errors: validation.error.flatten().fieldErrors,
+      });
+    }
+
+    // 2. Check file size limit
+    if (input.fileSize > MAX_FILE_SIZE) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        'File size exceeds maximum limit of 2GB'
+      );
+    }
+
+    // 3. Check user exists and is verified
+    const user = await this.deps.userRepository.findById(input.userId);
+    if (!user) {
+      return failure(ErrorCodes.USER_NOT_FOUND, 'User not found');
+    }
+
+    if (!user.isActive) {
+      return failure(ErrorCodes.USER_INACTIVE, 'User account is inactive');
+    }
+
+    if (!user.emailVerified) {
+      return failure(
+        ErrorCodes.EMAIL_NOT_VERIFIED,
+        'Email must be verified to upload videos'
+      );
+    }
+
+    // 4. Check user hasn't exceeded video limit
+    const videoCount = await this.deps.videoRepository.countByUploader(
+      input.userId
+    );
+    if (videoCount >= MAX_VIDEOS_PER_USER) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        `Maximum video limit (${MAX_VIDEOS_PER_USER}) reached`
+      );
+    }
+
+    // 5. Generate video ID and storage key
+    const videoId = uuidv4();
+    const fileExtension = this.getFileExtension(input.filename);
+    const storageKey = `${videoId}${fileExtension}`;
+
+    // 6. Start the multipart upload
+    const uploadId = await this.deps.storageService.initiateMultipartUpload({
+      bucket: StorageBuckets.VIDEOS_RAW,
+      key: storageKey,
+      contentType: input.mimeType,
+    });
+
+    // 7. Create pending video record
+    const video = new VideoEntity({
+      id: videoId,
+      postId: null,
+      originalFilename: input.filename,
+      fileSize: input.fileSize,
+      mimeType: input.mimeType,
+      status: VideoStatus.UPLOADING,
+      duration: null,
+      width: null,
+      height: null,
+      originalCodec: null,
+      originalBitrate: null,
+      rawFilePath: `${StorageBuckets.VIDEOS_RAW}/${storageKey}`,
+      hlsMasterUrl: null,
+      thumbnailUrl: null,
+      thumbnailsVttUrl: null,
+      dashManifestUrl: null,
+      availableQualities: [],
+      retryCount: 0,
+      errorMessage: null,
+      uploadedAt: null,
+      processingCompletedAt: null,
+      createdAt: new Date(),
+      deletedAt: null,
+    });
+
+    await this.deps.videoRepository.save(video);
+
+    // 8. Track the upload so it can be resumed (or aborted when stale)
+    const partCount = Math.max(
+      1,
+      Math.ceil(input.fileSize / MULTIPART_PART_SIZE)
+    );
+    await this.deps.videoUploadRepository.create({
+      videoId,
+      userId: input.userId,
+      uploadId,
+      bucket: StorageBuckets.VIDEOS_RAW,
+      key: storageKey,
+      partSize: MULTIPART_PART_SIZE,
+      partCount,
+    });
+
+    // 9. Return result
+    return success({
+      videoId,
+      partSize: MULTIPART_PART_SIZE,
+      partCount,
+    });
+  }
+
+  private getFileExtension(filename: string): string {
+    const lastDot = filename.lastIndexOf('.');
+    return lastDot > 0 ? filename.substring(lastDot) : '.mp4';
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Select Video Thumbnail Use Case
+ *
+ * Sets the poster of a video to one of its candidate frames or to an image
+ * the author uploads. The post the video is attached to gets the poster as
+ * its featured image too, unless the author set another one.
+ */
+
+import type { IVideoRepository } from '../../ports/repositories/video.repository.interface.js';
+import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
+import type { IVideoThumbnailCandidateRepository } from '../../ports/repositories/video-thumbnail-candidate.repository.interface.js';
+import type { IStorageService } from '../../ports/services/storage.service.interface.js';
+import { StorageBuckets } from '../../ports/services/storage.service.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+export const MAX_THUMBNAIL_IMAGE_SIZE = 2 * 1024 * 1024;
+
+/** Image types accepted for custom posters, by file extension */
+const THUMBNAIL_IMAGE_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export interface SelectVideoThumbnailInput {
+  videoId: string;
+  userId: string;
+  /** A candidate frame of the video... */
+  candidateId?: string;
+  /** ...or an uploaded image */
+  image?: {
+    contentType: string;
+    data: Buffer;
+  };
+}
+
+export interface SelectVideoThumbnailOutput {
+  thumbnailUrl: string;
+  /** Whether the post's featured image was set to the poster */
+  featuredImageUpdated: boolean;
+}
+
+export interface SelectVideoThumbnailDependencies {
+  videoRepository: IVideoRepository;
+  postRepository: IPostRepository;
+  thumbnailCandidateRepository: IVideoThumbnailCandidateRepository;
+  storageService: IStorageService;
+}
+
+/**
+ * Content type of a JPEG, PNG or WebP image from its first bytes
+ */
+export function detectImageType(data: Buffer): string | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8) {
+    return data[2] === 0xff ? 'image/jpeg' : null;
+  }
+  if (
+    data.length >= 8 &&
+    data.subarray(0, 8).equals(Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]))
+  ) {
+    return 'image/png';
+  }
+  if (
+    data.length >= 12 &&
+    data.toString('ascii', 0, 4) === 'RIFF' &&
+    data.toString('ascii', 8, 12) === 'WEBP'
+  ) {
+    return 'image/webp';
+  }
+  return null;
+}
+
+export class SelectVideoThumbnailUseCase {
+  constructor(private readonly deps: SelectVideoThumbnailDependencies) {}
+
+  async execute(
+    input: SelectVideoThumbnailInput
+  ): Promise<Result<SelectVideoThumbnailOutput>> {
+    if (!input.candidateId === !input.image) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        'Choose a candidate frame or upload an image'
+      );
+    }
+
+    // 1. Find the video and check ownership (through its post)
+    const video = await this.deps.videoRepository.findById(input.videoId);
+    if (!video) {
+      return failure(ErrorCodes.NOT_FOUND, 'Video not found');
+    }
+
+    // Videos not attached to a post yet (it is still being written) have no
+    // owner to check, as when deleting them
+    const post = await this.deps.postRepository.findByVideoId(input.videoId);
+    if (post && post.authorId !== input.userId) {
+      return failure(ErrorCodes.FORBIDDEN, 'You do not own this video');
+    }
+
+    // 2. Find the candidate, or store the uploaded image
+    let storageKey: string;
+    if (input.candidateId) {
+      const candidate = await this.deps.thumbnailCandidateRepository.findById(
+        input.candidateId
+      );
+      if (!candidate || candidate.videoId !== input.videoId) {
+        return failure(ErrorCodes.NOT_FOUND, 'Thumbnail candidate not found');
+      }
+      storageKey = candidate.storageKey;
+    } else {
+      const image = input.image as NonNullable<typeof input.image>;
+      const extension = THUMBNAIL_IMAGE_TYPES[image.contentType];
+      if (!extension || detectImageType(image.data) !== image.contentType) {
+        return failure(
+          ErrorCodes.VALIDATION_ERROR,
+          'The poster must be a JPEG, PNG or WebP image'
+        );
+      }
+      if (image.data.length > MAX_THUMBNAIL_IMAGE_SIZE) {
+        return failure(
+          ErrorCodes.VALIDATION_ERROR,
+          `The poster image must be at most ${
+            MAX_THUMBNAIL_IMAGE_SIZE / 1024 / 1024
+          }MB`
+        );
+      }
+
+      // A new key each time, so caches do not keep showing the old poster
+      storageKey = `${input.videoId}/custom-${Date.now()}.${extension}`;
+      await this.deps.storageService.uploadFile({
+        bucket: StorageBuckets.THUMBNAILS,
+        key: storageKey,
+        data: image.data,
+        contentType: image.contentType,
+      });
+    }
+
+    // 3. Use it as the poster
+    const previousUrl = video.toJSON().thumbnailUrl;
+    const thumbnailUrl = this.deps.storageService.getPublicUrl(
+      StorageBuckets.THUMBNAILS,
+      storageKey
+    );
+    await this.deps.videoRepository.update(input.videoId, { thumbnailUrl });
+
+    // 4. And as the featured image of the post, when it has none or had
+    //    the previous poster
+    let featuredImageUpdated = false;
+    const featuredImageUrl = post?.toJSON().featuredImageUrl;
+    if (post && (!featuredImageUrl || featuredImageUrl === previousUrl)) {
+      post.update({ featuredImageUrl: thumbnailUrl });
+      await this.deps.postRepository.save(post);
+      featuredImageUpdated = true;
+    }
+
+    return success({ thumbnailUrl, featuredImageUpdated });
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Set Video Chapters Use Case
+ *
+ * Replaces the chapters of a video. Authors either list the chapters or
+ * have them parsed from "00:00 Intro" lines in the content of the post the
+ * video is attached to.
+ */
+
+import { VideoChapterSchema, type VideoChapter } from '@blog/shared/domain';
+import type { IVideoRepository } from '../../ports/repositories/video.repository.interface.js';
+import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
+import type { IVideoChapterRepository } from '../../ports/repositories/video-chapter.repository.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+export const MAX_CHAPTERS_PER_VIDEO = 100;
+
+/** "1:02:03", "02:03" or "2:03" */
+const TIMESTAMP_PATTERN = /^(?:(\d{1,2}):)?(\d{1,2}):([0-5]\d)$/;
+
+/** A timestamp line: "00:00 Intro", "- 1:30 - Setup", "(2:45) Demo" */
+const CHAPTER_LINE_PATTERN =
+  /^(?:[-*•]\s*)?\(?((?:\d{1,2}:)?\d{1,2}:[0-5]\d)\)?\s*(?:[-–—:|]\s*)?(\S.*)$/;
+
+export interface SetVideoChaptersInput {
+  videoId: string;
+  userId: string;
+  /** The new chapters (ignored when parsing the post content) */
+  chapters?: VideoChapter[];
+  /** Parse the chapters from the post content instead */
+  fromPostContent?: boolean;
+}
+
+export interface SetVideoChaptersOutput {
+  chapters: VideoChapter[];
+}
+
+export interface SetVideoChaptersDependencies {
+  videoRepository: IVideoRepository;
+  postRepository: IPostRepository;
+  chapterRepository: IVideoChapterRepository;
+}
+
+/**
+ * Seconds of a "h:mm:ss" or "m:ss" timestamp, or null if it is not one
+ */
+export function parseTimestamp(value: string): number | null {
+  const match = TIMESTAMP_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  const [, hours, minutes, seconds] = match;
+  if (hours !== undefined && Number(minutes) > 59) return null;
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+const htmlToLines = (content: string): string[] =>
+  content
+    .replace(/<br\s*\/?>|<\/(?:p|div|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .split('\n')
+    .map((line) => line.trim());
+
+/**
+ * Chapters listed as timestamp lines in post content (HTML or plain text).
+ * Like video sites do, a list only counts if it starts at 0:00 and has at
+ * least two chapters, so a stray timestamp in the text is not a chapter.
+ */
+export function parseChaptersFromContent(content: string): VideoChapter[] {
+  const chapters = new Map<number, string>();
+
+  for (const line of htmlToLines(content)) {
+    const match = CHAPTER_LINE_PATTERN.exec(line);
+    if (!match) continue;
+
+    const startTime = parseTimestamp(match[1]);
+    const title = match[2].trim().slice(0, 100);
+    if (startTime === null || !title || chapters.has(startTime)) continue;
+    chapters.set(startTime, title);
+  }
+
+  const parsed = [...chapters]
+    .map(([startTime, title]) => ({ startTime, title }))
+    .sort((a, b) => a.startTime - b.startTime);
+
+  return parsed.length >= 2 && parsed[0].startTime === 0 ? parsed : [];
+}
+
+export class SetVideoChaptersUseCase {
+  constructor(private readonly deps: SetVideoChaptersDependencies) {}
+
+  async execute(
+    input: SetVideoChaptersInput
+  ): Promise<Result<SetVideoChaptersOutput>> {
+    // 1. Find the video and check ownership (through its post)
+    const video = await this.deps.videoRepository.findById(input.videoId);
+    if (!video) {
+      return failure(ErrorCodes.NOT_FOUND, 'Video not found');
+    }
+
+    const post = await this.deps.postRepository.findByVideoId(input.videoId);
+    if (!post || post.authorId !== input.userId) {
+      return failure(ErrorCodes.FORBIDDEN, 'You do not own this video');
+    }
+
+    // 2. Take the chapters from the request or the post content
+    let chapters: VideoChapter[];
+    if (input.fromPostContent) {
+      chapters = parseChaptersFromContent(post.toJSON().content);
+      if (chapters.length === 0) {
+        return failure(
+          ErrorCodes.VALIDATION_ERROR,
+          'No chapter list found in the post content. List chapters on their own lines, starting with "0:00 Title".'
+        );
+      }
+    } else {
+      const parsed = VideoChapterSchema.array().safeParse(input.chapters ?? []);
+      if (!parsed.success) {
+        return failure(ErrorCodes.VALIDATION_ERROR, 'Invalid chapters', {
+          errors: parsed.error.flatten(),
+        });
+      }
+      chapters = [...parsed.data].sort((a, b) => a.startTime - b.startTime);
+    }
+
+    // 3. Check the chapters fit the video
+    if (chapters.length > MAX_CHAPTERS_PER_VIDEO) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        `A video can have at most ${MAX_CHAPTERS_PER_VIDEO} chapters`
+      );
+    }
+
+    const startTimes = new Set(chapters.map((chapter) => chapter.startTime));
+    if (startTimes.size !== chapters.length) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        'Two chapters cannot start at the same time'
+      );
+    }
+
+    const duration = video.toJSON().duration;
+    if (duration && chapters.some((chapter) => chapter.startTime >= duration)) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        'A chapter starts after the end of the video'
+      );
+    }
+
+    // 4. Save them
+    const saved = await this.deps.chapterRepository.replace(
+      input.videoId,
+      chapters
+    );
+
+    return success({ chapters: saved });
+  }
+}
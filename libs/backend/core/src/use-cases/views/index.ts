@@ -0,0 +1,18 @@
+/**
+ * View Tracking Use Cases - Barrel Export
+ */
+
+export {
+  RecordPostViewUseCase,
+  isBotUserAgent,
+  type RecordPostViewInput,
+  type RecordPostViewOutput,
+  type RecordPostViewDependencies,
+} from './record-post-view.use-case.js';
+
+export {
+  RecordVideoViewUseCase,
+  type RecordVideoViewInput,
+  type RecordVideoViewOutput,
+  type RecordVideoViewDependencies,
+} from './record-video-view.use-case.js';
@@ -0,0 +1,95 @@
+/**
+ * Record Post View Use Case
+ *
+ * Records a view of a published post, deduplicated per viewer session and
+ * day. posts.view_count is updated later by the batched counter sync.
+ */
+
+import { PostStatus, PostVisibility } from '@blog/shared/domain';
+import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
+import type { IViewRepository } from '../../ports/repositories/view.repository.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+export interface RecordPostViewInput {
+  postId: string;
+  /** Anonymous viewer session ID (UUID from the session cookie) */
+  sessionId: string;
+  /** Current user ID (if authenticated) */
+  userId?: string;
+  userAgent?: string;
+  referrer?: string;
+}
+
+export interface RecordPostViewOutput {
+  /** False if this session already viewed the post today or is the author */
+  recorded: boolean;
+  isBot: boolean;
+}
+
+export interface RecordPostViewDependencies {
+  postRepository: IPostRepository;
+  viewRepository: IViewRepository;
+}
+
+// Crawlers, link previewers, monitoring and HTTP libraries
+const BOT_USER_AGENT_PATTERN =
+  /bot\b|bot\/|crawl|spider|slurp|mediapartners|facebookexternalhit|embedly|preview|headless|phantomjs|lighthouse|pingdom|uptime|curl\/|wget\/|python-requests|python-urllib|axios\/|node-fetch|go-http-client|okhttp|java\/|libwww|httpclient/i;
+
+/**
+ * Heuristic bot detection from the User-Agent header (missing = bot)
+ */
+export function isBotUserAgent(userAgent: string | undefined): boolean {
+  if (!userAgent || userAgent.trim().length === 0) return true;
+  return BOT_USER_AGENT_PATTERN.test(userAgent);
+}
+
+export class RecordPostViewUseCase {
+  constructor(private readonly deps: RecordPostViewDependencies) {}
+
+  async execute(
+    input: RecordPostViewInput
+  ): Promise<Result<RecordPostViewOutput>> {
+    // 1. Find post
+    const post = this.isValidUuid(input.postId)
+      ? await this.deps.postRepository.findById(input.postId)
+      : null;
+    if (!post || post.isDeleted()) {
+      return failure(ErrorCodes.POST_NOT_FOUND, 'Post not found');
+    }
+
+    // 2. Only published posts visible to the viewer count
+    const postData = post.toJSON();
+    const isOwner = input.userId === postData.authorId;
+    if (
+      postData.status !== PostStatus.PUBLISHED ||
+      (postData.visibility === PostVisibility.PRIVATE && !isOwner)
+    ) {
+      return failure(ErrorCodes.FORBIDDEN, 'Post is not viewable');
+    }
+
+    const isBot = isBotUserAgent(input.userAgent);
+
+    // 3. Authors reading their own post do not inflate the count
+    if (isOwner) {
+      return success({ recorded: false, isBot });
+    }
+
+    // 4. Record (deduplicated per session and day)
+    const recorded = await this.deps.viewRepository.recordPostView({
+      postId: postData.id,
+      sessionId: input.sessionId,
+      userId: input.userId ?? null,
+      referrer: input.referrer ?? null,
+      userAgent: input.userAgent ?? null,
+      isBot,
+    });
+
+    return success({ recorded, isBot });
+  }
+
+  private isValidUuid(value: string): boolean {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    return uuidRegex.test(value);
+  }
+}
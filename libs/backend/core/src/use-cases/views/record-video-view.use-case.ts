@@ -0,0 +1,123 @@
+/**
+ * Record Video View Use Case
+ *
+ * Handles player heartbeats: the first heartbeat of a viewer session and day
+ * creates the video view, later ones raise the watched duration and record
+ * the quality being played.
+ */
+
+import { PostStatus, PostVisibility } from '@blog/shared/domain';
+import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
+import type { IVideoRepository } from '../../ports/repositories/video.repository.interface.js';
+import type { IViewRepository } from '../../ports/repositories/view.repository.interface.js';
+import { isBotUserAgent } from './record-post-view.use-case.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+export interface RecordVideoViewInput {
+  videoId: string;
+  /** Anonymous viewer session ID (UUID from the session cookie) */
+  sessionId: string;
+  /** Seconds of the video actually played so far in this session */
+  watchedSeconds: number;
+  /** Quality being played (e.g. '720p'; 'auto' is recorded as unknown) */
+  quality?: string;
+  /** Current user ID (if authenticated) */
+  userId?: string;
+  userAgent?: string;
+  referrer?: string;
+}
+
+export interface RecordVideoViewOutput {
+  isNewView: boolean;
+  durationWatched: number;
+  totalDuration: number;
+}
+
+export interface RecordVideoViewDependencies {
+  videoRepository: IVideoRepository;
+  postRepository: IPostRepository;
+  viewRepository: IViewRepository;
+}
+
+const QUALITY_PATTERN = /^(\d{3,4}p|auto)$/i;
+const AUTO_QUALITY = 'auto';
+
+export class RecordVideoViewUseCase {
+  constructor(private readonly deps: RecordVideoViewDependencies) {}
+
+  async execute(
+    input: RecordVideoViewInput
+  ): Promise<Result<RecordVideoViewOutput>> {
+    // 1. Validate input
+    if (!Number.isFinite(input.watchedSeconds) || input.watchedSeconds < 0) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        'watchedSeconds must be a non-negative number'
+      );
+    }
+    if (input.quality && !QUALITY_PATTERN.test(input.quality)) {
+      return failure(ErrorCodes.VALIDATION_ERROR, 'Invalid quality');
+    }
+
+    // 2. Only ready videos can be watched
+    const video = this.isValidUuid(input.videoId)
+      ? await this.deps.videoRepository.findById(input.videoId)
+      : null;
+    if (!video || !video.canBeDisplayed()) {
+      return failure(ErrorCodes.VIDEO_NOT_FOUND, 'Video not found');
+    }
+    const videoData = video.toJSON();
+
+    // 3. Same visibility rules as the post the video belongs to
+    if (videoData.postId) {
+      const post = await this.deps.postRepository.findById(videoData.postId);
+      const postData = post?.toJSON();
+      const isOwner = !!postData && input.userId === postData.authorId;
+      if (
+        !post ||
+        post.isDeleted() ||
+        (!isOwner &&
+          (postData?.status !== PostStatus.PUBLISHED ||
+            postData?.visibility === PostVisibility.PRIVATE))
+      ) {
+        return failure(ErrorCodes.FORBIDDEN, 'Video is not viewable');
+      }
+    }
+
+    // 4. Clamp to the video length (the column check requires it)
+    const totalDuration = videoData.duration ?? Math.ceil(input.watchedSeconds);
+    const durationWatched = Math.min(
+      Math.floor(input.watchedSeconds),
+      totalDuration
+    );
+
+    // 5. Automatic selection says nothing about the rendition played
+    const quality = input.quality?.toLowerCase();
+    const qualityWatched = quality && quality !== AUTO_QUALITY ? quality : null;
+
+    // 6. Upsert the view for this session and day
+    const view = await this.deps.viewRepository.recordVideoView({
+      videoId: videoData.id,
+      sessionId: input.sessionId,
+      userId: input.userId ?? null,
+      durationWatched,
+      totalDuration,
+      qualityWatched,
+      referrer: input.referrer ?? null,
+      userAgent: input.userAgent ?? null,
+      isBot: isBotUserAgent(input.userAgent),
+    });
+
+    return success({
+      isNewView: view.isNewView,
+      durationWatched: view.durationWatched,
+      totalDuration,
+    });
+  }
+
+  private isValidUuid(value: string): boolean {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    return uuidRegex.test(value);
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Create Webhook Endpoint Use Case
+ *
+ * Registers a URL that receives signed POST requests for events on the
+ * user's content. The signing secret is generated here and returned once.
+ */
+
+import crypto from 'crypto';
+import type {
+  IWebhookRepository,
+  WebhookEventType,
+} from '../../ports/repositories/webhook.repository.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+import {
+  WEBHOOK_EVENT_TYPES,
+  toPublicWebhookEndpoint,
+  type PublicWebhookEndpoint,
+} from './get-webhook-endpoints.use-case.js';
+
+export interface CreateWebhookEndpointInput {
+  userId: string;
+  url: string;
+  description?: string | null;
+  events: WebhookEventType[];
+}
+
+export interface CreateWebhookEndpointOutput {
+  endpoint: PublicWebhookEndpoint;
+  /** Signing secret; not retrievable later */
+  secret: string;
+}
+
+export interface CreateWebhookEndpointDependencies {
+  webhookRepository: IWebhookRepository;
+}
+
+export const MAX_WEBHOOK_ENDPOINTS_PER_USER = 10;
+const MAX_URL_LENGTH = 2048;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+/**
+ * Validate the editable fields of an endpoint (null if valid)
+ */
+export function validateWebhookEndpoint(data: {
+  url?: string;
+  description?: string | null;
+  events?: WebhookEventType[];
+}): string | null {
+  if (data.url !== undefined) {
+    let url: URL;
+    try {
+      url = new URL(data.url);
+    } catch {
+      return 'Invalid URL';
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      return 'URL must use http or https';
+    }
+    if (url.username || url.password) {
+      return 'URL must not contain credentials';
+    }
+    if (data.url.length > MAX_URL_LENGTH) {
+      return `URL must be at most ${MAX_URL_LENGTH} characters`;
+    }
+  }
+
+  if (data.description && data.description.length > MAX_DESCRIPTION_LENGTH) {
+    return `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+
+  if (data.events !== undefined) {
+    if (data.events.length === 0) {
+      return 'Select at least one event';
+    }
+    if (data.events.some((event) => !WEBHOOK_EVENT_TYPES.includes(event))) {
+      return 'Unknown event type';
+    }
+  }
+
+  return null;
+}
+
+export class CreateWebhookEndpointUseCase {
+  constructor(private readonly deps: CreateWebhookEndpointDependencies) {}
+
+  async execute(
+    input: CreateWebhookEndpointInput
+  ): Promise<Result<CreateWebhookEndpointOutput>> {
+    const { webhookRepository } = this.deps;
+
+    // 1. Validate input
+    const error = validateWebhookEndpoint(input);
+    if (error) {
+      return failure(ErrorCodes.VALIDATION_ERROR, error);
+    }
+
+    // 2. Check the per-user limit
+    const count = await webhookRepository.countEndpointsByUserId(input.userId);
+    if (count >= MAX_WEBHOOK_ENDPOINTS_PER_USER) {
+      return failure(
+        ErrorCodes.VALIDATION_ERROR,
+        `You can register at most ${MAX_WEBHOOK_ENDPOINTS_PER_USER} webhooks`
+      );
+    }
+
+    // 3. Create the endpoint with a new signing secret
+    const secret = `whsec_${crypto.randomBytes(24).toString('hex')}`;
+    const endpoint = await webhookRepository.createEndpoint({
+      userId: input.userId,
+      url: input.url,
+      description: input.description?.trim() || null,
+      secret,
+      events: [...new Set(input.events)],
+    });
+
+    return success({ endpoint: toPublicWebhookEndpoint(endpoint), secret });
+  }
+}
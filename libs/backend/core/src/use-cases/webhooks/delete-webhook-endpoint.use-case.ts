@@ -0,0 +1,45 @@
+/**
+ * Delete Webhook Endpoint Use Case
+ *
+ * Removes an endpoint and its delivery log. Queued deliveries are dropped
+ * when their job runs.
+ */
+
+import type { IWebhookRepository } from '../../ports/repositories/webhook.repository.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+export interface DeleteWebhookEndpointInput {
+  userId: string;
+  endpointId: string;
+}
+
+export interface DeleteWebhookEndpointOutput {
+  success: boolean;
+}
+
+export interface DeleteWebhookEndpointDependencies {
+  webhookRepository: IWebhookRepository;
+}
+
+export class DeleteWebhookEndpointUseCase {
+  constructor(private readonly deps: DeleteWebhookEndpointDependencies) {}
+
+  async execute(
+    input: DeleteWebhookEndpointInput
+  ): Promise<Result<DeleteWebhookEndpointOutput>> {
+    const { webhookRepository } = this.deps;
+
+    // 1. Find endpoint and verify ownership
+    const endpoint = await webhookRepository.findEndpointById(input.endpointId);
+    if (!endpoint) {
+      return failure(ErrorCodes.NOT_FOUND, 'Webhook not found');
+    }
+    if (endpoint.userId !== input.userId) {
+      return failure(ErrorCodes.FORBIDDEN, 'You do not own this webhook');
+    }
+
+    // 2. Delete
+    const deleted = await webhookRepository.deleteEndpoint(input.endpointId);
+    return success({ success: deleted });
+  }
+}
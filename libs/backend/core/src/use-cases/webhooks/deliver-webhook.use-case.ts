@@ -0,0 +1,98 @@
+/**
+ * Deliver Webhook Use Case
+ *
+ * Makes one attempt at a queued delivery and records the outcome in the
+ * delivery log. Any 2xx response counts as delivered; anything else is
+ * retried by the queue until the last attempt, which marks it failed.
+ */
+
+import type {
+  IWebhookRepository,
+  WebhookDeliveryStatus,
+} from '../../ports/repositories/webhook.repository.interface.js';
+import type { IWebhookSender } from '../../ports/services/webhook.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+export interface DeliverWebhookInput {
+  deliveryId: string;
+  /** No retry follows if this attempt fails */
+  finalAttempt: boolean;
+}
+
+export interface DeliverWebhookOutput {
+  status: WebhookDeliveryStatus;
+  /** The attempt failed and should be retried */
+  retry: boolean;
+}
+
+export interface DeliverWebhookDependencies {
+  webhookRepository: IWebhookRepository;
+  webhookSender: IWebhookSender;
+}
+
+export class DeliverWebhookUseCase {
+  constructor(private readonly deps: DeliverWebhookDependencies) {}
+
+  async execute(
+    input: DeliverWebhookInput
+  ): Promise<Result<DeliverWebhookOutput>> {
+    const { webhookRepository, webhookSender } = this.deps;
+
+    // 1. Load delivery and endpoint (both gone if the endpoint was deleted)
+    const delivery = await webhookRepository.findDeliveryById(input.deliveryId);
+    if (!delivery) {
+      return failure(ErrorCodes.NOT_FOUND, 'Webhook delivery not found');
+    }
+    if (delivery.status !== 'pending') {
+      return success({ status: delivery.status, retry: false });
+    }
+    const endpoint = await webhookRepository.findEndpointById(
+      delivery.endpointId
+    );
+    if (!endpoint) {
+      return failure(ErrorCodes.NOT_FOUND, 'Webhook not found');
+    }
+
+    // 2. Disabled endpoints only receive test events
+    if (!endpoint.isActive && !delivery.isTest) {
+      await webhookRepository.recordAttempt(delivery.id, {
+        status: 'failed',
+        responseStatus: null,
+        responseBody: null,
+        error: 'Webhook is disabled',
+        durationMs: 0,
+      });
+      return success({ status: 'failed', retry: false });
+    }
+
+    // 3. Send and record the outcome
+    const response = await webhookSender.send({
+      url: endpoint.url,
+      secret: endpoint.secret,
+      deliveryId: delivery.id,
+      eventName: delivery.eventName,
+      body: JSON.stringify(delivery.payload),
+    });
+    const delivered =
+      response.statusCode !== null &&
+      response.statusCode >= 200 &&
+      response.statusCode < 300;
+    const status: WebhookDeliveryStatus = delivered
+      ? 'succeeded'
+      : input.finalAttempt
+      ? 'failed'
+      : 'pending';
+
+    await webhookRepository.recordAttempt(delivery.id, {
+      status,
+      responseStatus: response.statusCode,
+      responseBody: response.body,
+      error:
+        response.error ??
+        (delivered ? null : `Unexpected status ${response.statusCode}`),
+      durationMs: response.durationMs,
+    });
+
+    return success({ status, retry: status === 'pending' });
+  }
+}
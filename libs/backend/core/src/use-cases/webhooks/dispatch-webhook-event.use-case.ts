@@ -0,0 +1,176 @@
+/**
+ * Dispatch Webhook Event Use Case
+ *
+ * Turns a domain event into webhook deliveries for the endpoints of the
+ * user whose content it concerns: their post was published, commented on,
+ * or its video finished (or failed) processing. Deliveries are logged and
+ * queued; the queue sends and retries them.
+ */
+
+import type { IPostRepository } from '../../ports/repositories/post.repository.interface.js';
+import type { ICommentRepository } from '../../ports/repositories/comment.repository.interface.js';
+import type {
+  IWebhookRepository,
+  WebhookEventType,
+} from '../../ports/repositories/webhook.repository.interface.js';
+import type { DomainEventMessage } from '../../ports/services/event-bus.interface.js';
+import type { IWebhookQueue } from '../../ports/services/webhook.interface.js';
+import type { PostEntity } from '@blog/shared/domain';
+import { type Result, success } from '../common/result.js';
+
+export interface DispatchWebhookEventOutput {
+  /** Deliveries queued (redelivered events are not counted) */
+  queued: number;
+}
+
+export interface DispatchWebhookEventDependencies {
+  webhookRepository: IWebhookRepository;
+  webhookQueue: IWebhookQueue;
+  postRepository: IPostRepository;
+  commentRepository: ICommentRepository;
+  /** Web app URL for links in payloads */
+  appUrl: string;
+}
+
+/** Domain events webhooks are sent for */
+export const WEBHOOK_SOURCE_EVENTS = [
+  'post.published',
+  'comment.created',
+  'video.processing_completed',
+  'video.processing_failed',
+] as const;
+
+interface WebhookEventData {
+  /** Owner of the endpoints to notify */
+  userId: string;
+  type: WebhookEventType;
+  data: Record<string, unknown>;
+}
+
+export class DispatchWebhookEventUseCase {
+  constructor(private readonly deps: DispatchWebhookEventDependencies) {}
+
+  async execute(
+    event: DomainEventMessage
+  ): Promise<Result<DispatchWebhookEventOutput>> {
+    const { webhookRepository, webhookQueue } = this.deps;
+
+    // 1. Work out whose endpoints get the event, and its data
+    const webhookEvent = await this.buildEvent(event);
+    if (!webhookEvent) return success({ queued: 0 });
+
+    // 2. Log and queue a delivery per subscribed endpoint
+    const endpoints = await webhookRepository.findActiveEndpointsForEvent(
+      webhookEvent.userId,
+      webhookEvent.type
+    );
+
+    let queued = 0;
+    for (const endpoint of endpoints) {
+      const delivery = await webhookRepository.createDelivery({
+        endpointId: endpoint.id,
+        eventId: event.eventId,
+        eventName: webhookEvent.type,
+        payload: {
+          id: event.eventId,
+          type: webhookEvent.type,
+          createdAt: event.occurredAt,
+          data: webhookEvent.data,
+        },
+      });
+      if (!delivery) continue;
+
+      await webhookQueue.enqueue({ deliveryId: delivery.id });
+      queued++;
+    }
+
+    return success({ queued });
+  }
+
+  private async buildEvent(
+    event: DomainEventMessage
+  ): Promise<WebhookEventData | null> {
+    const payload = event.payload;
+
+    switch (event.eventName) {
+      case 'post.published': {
+        const post = await this.deps.postRepository.findById(event.aggregateId);
+        if (!post) return null;
+
+        return {
+          userId: post.authorId,
+          type: 'post.published',
+          data: { post: this.toPostData(post) },
+        };
+      }
+
+      case 'comment.created': {
+        const comment = await this.deps.commentRepository.findById(
+          event.aggregateId
+        );
+        if (!comment) return null;
+        const post = await this.deps.postRepository.findById(comment.postId);
+        if (!post) return null;
+
+        return {
+          userId: post.authorId,
+          type: 'comment.created',
+          data: {
+            comment: {
+              id: comment.id,
+              parentId: comment.parentId,
+              authorId: comment.userId,
+              content: comment.content,
+              status: comment.status,
+              createdAt: comment.createdAt.toISOString(),
+            },
+            post: this.toPostData(post),
+          },
+        };
+      }
+
+      case 'video.processing_completed':
+      case 'video.processing_failed': {
+        // Like notifications, only videos attached to a post have an owner
+        const post = await this.deps.postRepository.findByVideoId(
+          event.aggregateId
+        );
+        if (!post) return null;
+
+        const ready = event.eventName === 'video.processing_completed';
+        return {
+          userId: post.authorId,
+          type: ready ? 'video.ready' : 'video.failed',
+          data: {
+            video: ready
+              ? {
+                  id: event.aggregateId,
+                  duration: payload.duration,
+                  qualities: payload.qualities,
+                }
+              : { id: event.aggregateId, error: payload.error },
+            post: this.toPostData(post),
+          },
+        };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  private toPostData(post: PostEntity): Record<string, unknown> {
+    const data = post.toJSON();
+    return {
+      id: post.id,
+      title: post.title,
+      slug: post.slug,
+      excerpt: data.excerpt ?? null,
+      status: post.status,
+      visibility: post.visibility,
+      authorId: post.authorId,
+      publishedAt: data.publishedAt?.toISOString() ?? null,
+      url: `${this.deps.appUrl}/posts/${post.slug}`,
+    };
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Get Webhook Deliveries Use Case
+ *
+ * Lists the delivery log of one of the current user's endpoints, newest
+ * first.
+ */
+
+import type {
+  IWebhookRepository,
+  WebhookDelivery,
+  WebhookDeliveryCursor,
+} from '../../ports/repositories/webhook.repository.interface.js';
+import {
+  encodeSearchCursor,
+  decodeSearchCursor,
+} from '../search/search-posts.use-case.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+export interface GetWebhookDeliveriesInput {
+  userId: string;
+  endpointId: string;
+  /** Opaque cursor from a previous page (nextCursor) */
+  cursor?: string;
+  /** Page size (default: 20, max: 50) */
+  limit?: number;
+}
+
+export interface GetWebhookDeliveriesOutput {
+  deliveries: WebhookDelivery[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface GetWebhookDeliveriesDependencies {
+  webhookRepository: IWebhookRepository;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+export class GetWebhookDeliveriesUseCase {
+  constructor(private readonly deps: GetWebhookDeliveriesDependencies) {}
+
+  async execute(
+    input: GetWebhookDeliveriesInput
+  ): Promise<Result<GetWebhookDeliveriesOutput>> {
+    const { webhookRepository } = this.deps;
+
+    // 1. Validate input
+    const requestedLimit = Number.isFinite(input.limit)
+      ? (input.limit as number)
+      : DEFAULT_LIMIT;
+    const limit = Math.min(Math.max(requestedLimit, 1), MAX_LIMIT);
+
+    // The (score, id) cursor carries created_at as epoch milliseconds
+    let cursor: WebhookDeliveryCursor | undefined;
+    if (input.cursor) {
+      const decoded = decodeSearchCursor(input.cursor);
+      if (!decoded) {
+        return failure(ErrorCodes.INVALID_INPUT, 'Invalid cursor');
+      }
+      cursor = { createdAt: new Date(decoded.rank), id: decoded.id };
+    }
+
+    // 2. Find endpoint and verify ownership
+    const endpoint = await webhookRepository.findEndpointById(input.endpointId);
+    if (!endpoint) {
+      return failure(ErrorCodes.NOT_FOUND, 'Webhook not found');
+    }
+    if (endpoint.userId !== input.userId) {
+      return failure(ErrorCodes.FORBIDDEN, 'You do not own this webhook');
+    }
+
+    // 3. Fetch one extra delivery to know if there is a next page
+    const deliveries = await webhookRepository.findDeliveriesByEndpointId(
+      input.endpointId,
+      { limit: limit + 1, cursor }
+    );
+    const hasMore = deliveries.length > limit;
+    const page = hasMore ? deliveries.slice(0, limit) : deliveries;
+
+    // 4. Return result
+    const last = page[page.length - 1];
+    return success({
+      deliveries: page,
+      nextCursor:
+        hasMore && last
+          ? encodeSearchCursor({ rank: last.createdAt.getTime(), id: last.id })
+          : null,
+      hasMore,
+    });
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Get Webhook Endpoints Use Case
+ *
+ * Lists the current user's webhook endpoints (without their secrets).
+ */
+
+import type {
+  IWebhookRepository,
+  WebhookEndpoint,
+  WebhookEventType,
+} from '../../ports/repositories/webhook.repository.interface.js';
+import { type Result, success } from '../common/result.js';
+
+export interface GetWebhookEndpointsInput {
+  userId: string;
+}
+
+export interface GetWebhookEndpointsOutput {
+  endpoints: PublicWebhookEndpoint[];
+}
+
+export interface GetWebhookEndpointsDependencies {
+  webhookRepository: IWebhookRepository;
+}
+
+/** Every event type endpoints can subscribe to */
+export const WEBHOOK_EVENT_TYPES: readonly WebhookEventType[] = [
+  'post.published',
+  'comment.created',
+  'video.ready',
+  'video.failed',
+];
+
+/** Endpoint as returned by the API; the secret is only shown on creation */
+export type PublicWebhookEndpoint = Omit<WebhookEndpoint, 'secret'>;
+
+export function toPublicWebhookEndpoint(
+  endpoint: WebhookEndpoint
+): PublicWebhookEndpoint {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { secret, ...rest } = endpoint;
+  return rest;
+}
+
+export class GetWebhookEndpointsUseCase {
+  constructor(private readonly deps: GetWebhookEndpointsDependencies) {}
+
+  async execute(
+    input: GetWebhookEndpointsInput
+  ): Promise<Result<GetWebhookEndpointsOutput>> {
+    const endpoints = await this.deps.webhookRepository.findEndpointsByUserId(
+      input.userId
+    );
+    return success({ endpoints: endpoints.map(toPublicWebhookEndpoint) });
+  }
+}
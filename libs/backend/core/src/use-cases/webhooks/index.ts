@@ -0,0 +1,69 @@
+/**
+ * Webhook Use Cases - Barrel Export
+ */
+
+export {
+  GetWebhookEndpointsUseCase,
+  WEBHOOK_EVENT_TYPES,
+  toPublicWebhookEndpoint,
+  type PublicWebhookEndpoint,
+  type GetWebhookEndpointsInput,
+  type GetWebhookEndpointsOutput,
+  type GetWebhookEndpointsDependencies,
+} from './get-webhook-endpoints.use-case.js';
+
+export {
+  CreateWebhookEndpointUseCase,
+  MAX_WEBHOOK_ENDPOINTS_PER_USER,
+  validateWebhookEndpoint,
+  type CreateWebhookEndpointInput,
+  type CreateWebhookEndpointOutput,
+  type CreateWebhookEndpointDependencies,
+} from './create-webhook-endpoint.use-case.js';
+
+export {
+  UpdateWebhookEndpointUseCase,
+  type UpdateWebhookEndpointInput,
+  type UpdateWebhookEndpointDependencies,
+} from './update-webhook-endpoint.use-case.js';
+
+export {
+  DeleteWebhookEndpointUseCase,
+  type DeleteWebhookEndpointInput,
+  type DeleteWebhookEndpointOutput,
+  type DeleteWebhookEndpointDependencies,
+} from './delete-webhook-endpoint.use-case.js';
+
+export {
+  GetWebhookDeliveriesUseCase,
+  type GetWebhookDeliveriesInput,
+  type GetWebhookDeliveriesOutput,
+  type GetWebhookDeliveriesDependencies,
+} from './get-webhook-deliveries.use-case.js';
+
+export {
+  DispatchWebhookEventUseCase,
+  WEBHOOK_SOURCE_EVENTS,
+  type DispatchWebhookEventOutput,
+  type DispatchWebhookEventDependencies,
+} from './dispatch-webhook-event.use-case.js';
+
+export {
+  DeliverWebhookUseCase,
+  type DeliverWebhookInput,
+  type DeliverWebhookOutput,
+  type DeliverWebhookDependencies,
+} from './deliver-webhook.use-case.js';
+
+export {
+  ReplayWebhookDeliveryUseCase,
+  type ReplayWebhookDeliveryInput,
+  type ReplayWebhookDeliveryDependencies,
+} from './replay-webhook-delivery.use-case.js';
+
+export {
+  SendTestWebhookUseCase,
+  WEBHOOK_TEST_EVENT,
+  type SendTestWebhookInput,
+  type SendTestWebhookDependencies,
+} from './send-test-webhook.use-case.js';
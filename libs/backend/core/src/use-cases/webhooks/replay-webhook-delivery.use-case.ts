@@ -0,0 +1,64 @@
+/**
+ * Replay Webhook Delivery Use Case
+ *
+ * Sends a past delivery again with the same event id and payload, as a new
+ * entry in the delivery log.
+ */
+
+import type {
+  IWebhookRepository,
+  WebhookDelivery,
+} from '../../ports/repositories/webhook.repository.interface.js';
+import type { IWebhookQueue } from '../../ports/services/webhook.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+export interface ReplayWebhookDeliveryInput {
+  userId: string;
+  deliveryId: string;
+}
+
+export interface ReplayWebhookDeliveryDependencies {
+  webhookRepository: IWebhookRepository;
+  webhookQueue: IWebhookQueue;
+}
+
+export class ReplayWebhookDeliveryUseCase {
+  constructor(private readonly deps: ReplayWebhookDeliveryDependencies) {}
+
+  async execute(
+    input: ReplayWebhookDeliveryInput
+  ): Promise<Result<WebhookDelivery>> {
+    const { webhookRepository, webhookQueue } = this.deps;
+
+    // 1. Find delivery and verify ownership of its endpoint
+    const original = await webhookRepository.findDeliveryById(input.deliveryId);
+    if (!original) {
+      return failure(ErrorCodes.NOT_FOUND, 'Webhook delivery not found');
+    }
+    const endpoint = await webhookRepository.findEndpointById(
+      original.endpointId
+    );
+    if (!endpoint) {
+      return failure(ErrorCodes.NOT_FOUND, 'Webhook not found');
+    }
+    if (endpoint.userId !== input.userId) {
+      return failure(ErrorCodes.FORBIDDEN, 'You do not own this webhook');
+    }
+
+    // 2. Log and queue the replay
+    const delivery = await webhookRepository.createDelivery({
+      endpointId: original.endpointId,
+      eventId: original.eventId,
+      eventName: original.eventName,
+      payload: original.payload,
+      isTest: original.isTest,
+      replayOf: original.id,
+    });
+    if (!delivery) {
+      return failure(ErrorCodes.INTERNAL_ERROR, 'Failed to replay delivery');
+    }
+
+    await webhookQueue.enqueue({ deliveryId: delivery.id });
+    return success(delivery);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Send Test Webhook Use Case
+ *
+ * Queues a webhook.test event to an endpoint so its owner can check the
+ * URL and their signature verification. Also sent to disabled endpoints.
+ */
+
+import crypto from 'crypto';
+import type {
+  IWebhookRepository,
+  WebhookDelivery,
+} from '../../ports/repositories/webhook.repository.interface.js';
+import type { IWebhookQueue } from '../../ports/services/webhook.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+
+export interface SendTestWebhookInput {
+  userId: string;
+  endpointId: string;
+}
+
+export interface SendTestWebhookDependencies {
+  webhookRepository: IWebhookRepository;
+  webhookQueue: IWebhookQueue;
+}
+
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export class SendTestWebhookUseCase {
+  constructor(private readonly deps: SendTestWebhookDependencies) {}
+
+  async execute(input: SendTestWebhookInput): Promise<Result<WebhookDelivery>> {
+    const { webhookRepository, webhookQueue } = this.deps;
+
+    // 1. Find endpoint and verify ownership
+    const endpoint = await webhookRepository.findEndpointById(input.endpointId);
+    if (!endpoint) {
+      return failure(ErrorCodes.NOT_FOUND, 'Webhook not found');
+    }
+    if (endpoint.userId !== input.userId) {
+      return failure(ErrorCodes.FORBIDDEN, 'You do not own this webhook');
+    }
+
+    // 2. Log and queue the test event
+    const eventId = crypto.randomUUID();
+    const delivery = await webhookRepository.createDelivery({
+      endpointId: endpoint.id,
+      eventId,
+      eventName: WEBHOOK_TEST_EVENT,
+      payload: {
+        id: eventId,
+        type: WEBHOOK_TEST_EVENT,
+        createdAt: new Date().toISOString(),
+        data: {
+          message: 'This is a test event.',
+          webhookId: endpoint.id,
+        },
+      },
+      isTest: true,
+    });
+    if (!delivery) {
+      return failure(ErrorCodes.INTERNAL_ERROR, 'Failed to send test event');
+    }
+
+    await webhookQueue.enqueue({ deliveryId: delivery.id });
+    return success(delivery);
+  }
+}
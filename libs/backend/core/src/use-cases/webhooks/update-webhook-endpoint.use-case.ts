@@ -0,0 +1,70 @@
+/**
+ * Update Webhook Endpoint Use Case
+ *
+ * Changes the URL, description, events or active state of an endpoint.
+ */
+
+import type {
+  IWebhookRepository,
+  WebhookEventType,
+} from '../../ports/repositories/webhook.repository.interface.js';
+import { type Result, success, failure, ErrorCodes } from '../common/result.js';
+import {
+  toPublicWebhookEndpoint,
+  type PublicWebhookEndpoint,
+} from './get-webhook-endpoints.use-case.js';
+import { validateWebhookEndpoint } from './create-webhook-endpoint.use-case.js';
+
+export interface UpdateWebhookEndpointInput {
+  userId: string;
+  endpointId: string;
+  url?: string;
+  description?: string | null;
+  events?: WebhookEventType[];
+  isActive?: boolean;
+}
+
+export interface UpdateWebhookEndpointDependencies {
+  webhookRepository: IWebhookRepository;
+}
+
+export class UpdateWebhookEndpointUseCase {
+  constructor(private readonly deps: UpdateWebhookEndpointDependencies) {}
+
+  async execute(
+    input: UpdateWebhookEndpointInput
+  ): Promise<Result<PublicWebhookEndpoint>> {
+    const { webhookRepository } = this.deps;
+
+    // 1. Find endpoint and verify ownership
+    const endpoint = await webhookRepository.findEndpointById(input.endpointId);
+    if (!endpoint) {
+      return failure(ErrorCodes.NOT_FOUND, 'Webhook not found');
+    }
+    if (endpoint.userId !== input.userId) {
+      return failure(ErrorCodes.FORBIDDEN, 'You do not own this webhook');
+    }
+
+    // 2. Validate changes
+    const error = validateWebhookEndpoint(input);
+    if (error) {
+      return failure(ErrorCodes.VALIDATION_ERROR, error);
+    }
+
+    // 3. Update
+    const updated = await webhookRepository.updateEndpoint(input.endpointId, {
+      url: input.url,
+      description:
+        input.description === undefined
+          ? undefined
+          : input.description?.trim() || null,
+      events: input.events ? [...new Set(input.events)] : undefined,
+      isActive: input.isActive,
+    });
+    if (!updated) {
+      return failure(ErrorCodes.NOT_FOUND, 'Webhook not found');
+    }
+
+    return success(toPublicWebhookEndpoint(updated));
+  }
+}
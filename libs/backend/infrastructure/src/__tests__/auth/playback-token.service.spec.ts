@@ -0,0 +1,103 @@
+/**
+ * HMAC Playback Token Service Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { addTokenToPlaylist } from '@blog/backend/core';
+import { HmacPlaybackTokenService } from '../../auth/playback-token.service.js';
+
+const SECRET = 'playback-secret-for-tests-only-0123456789';
+const VIDEO_ID = '7b0d8e5e-1d2f-4a51-9c3e-2f1a6f0c9b10';
+
+const inMinutes = (minutes: number) =>
+  new Date(Date.now() + minutes * 60 * 1000);
+
+describe('HmacPlaybackTokenService', () => {
+  const service = new HmacPlaybackTokenService(SECRET);
+
+  it('should verify a token it signed', () => {
+    const expiresAt = inMinutes(10);
+    const token = service.sign({ videoId: VIDEO_ID, userId: null, expiresAt });
+
+    expect(service.verify(token)).toEqual({
+      videoId: VIDEO_ID,
+      userId: null,
+      expiresAt: new Date(Math.floor(expiresAt.getTime() / 1000) * 1000),
+    });
+  });
+
+  it('should reject an expired token', () => {
+    const token = service.sign({
+      videoId: VIDEO_ID,
+      userId: 'user-1',
+      expiresAt: inMinutes(-1),
+    });
+
+    expect(service.verify(token)).toBeNull();
+  });
+
+  it('should reject a token signed with another secret', () => {
+    const token = new HmacPlaybackTokenService('another-secret').sign({
+      videoId: VIDEO_ID,
+      userId: null,
+      expiresAt: inMinutes(10),
+    });
+
+    expect(service.verify(token)).toBeNull();
+  });
+
+  it('should reject a token whose payload was changed', () => {
+    const token = service.sign({
+      videoId: VIDEO_ID,
+      userId: null,
+      expiresAt: inMinutes(10),
+    });
+    const [, signature] = token.split('.');
+    const body = Buffer.from(
+      JSON.stringify({ v: 'another-video', u: null, e: 9999999999 })
+    ).toString('base64url');
+
+    expect(service.verify(`${body}.${signature}`)).toBeNull();
+    expect(service.verify('not-a-token')).toBeNull();
+  });
+});
+
+describe('addTokenToPlaylist', () => {
+  it('should add the token to variant URIs and rendition attributes', () => {
+    const master = [
+      '#EXTM3U',
+      '#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="English",URI="captions/en.m3u8"',
+      '#EXT-X-STREAM-INF:BANDWIDTH=2800000,RESOLUTION=1280x720,SUBTITLES="subs"',
+      '720p/playlist.m3u8',
+      '',
+    ].join('\n');
+
+    expect(addTokenToPlaylist(master, 'abc.def')).toBe(
+      [
+        '#EXTM3U',
+        '#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="English",URI="captions/en.m3u8?token=abc.def"',
+        '#EXT-X-STREAM-INF:BANDWIDTH=2800000,RESOLUTION=1280x720,SUBTITLES="subs"',
+        '720p/playlist.m3u8?token=abc.def',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should add the token to segments but leave absolute URIs alone', () => {
+    const media = [
+      '#EXTINF:6.000000,',
+      'segment_000.ts',
+      '#EXTINF:6.000000,',
+      'https://cdn.example.com/segment_001.ts',
+    ].join('\n');
+
+    expect(addTokenToPlaylist(media, 't')).toBe(
+      [
+        '#EXTINF:6.000000,',
+        'segment_000.ts?token=t',
+        '#EXTINF:6.000000,',
+        'https://cdn.example.com/segment_001.ts',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * In-Memory Event Bus Tests
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { PostPublishedEvent, CommentCreatedEvent } from '@blog/shared/domain';
+import {
+  ALL_EVENTS,
+  type DomainEventHandler,
+  type DomainEventMessage,
+} from '@blog/backend/core';
+import { InMemoryEventBus } from '../../events/in-memory-event-bus.js';
+
+describe('InMemoryEventBus', () => {
+  const published = () =>
+    new PostPublishedEvent('post-1', 'author-1', 'Hello', 'hello');
+
+  it('should deliver serialized events to subscribers of the name', async () => {
+    const bus = new InMemoryEventBus();
+    const received: DomainEventMessage[] = [];
+    bus.subscribe('post.published', (event) => {
+      received.push(event);
+    });
+    bus.subscribe('comment.created', () => {
+      throw new Error('should not be called');
+    });
+
+    await bus.publish(published());
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      eventName: 'post.published',
+      aggregateId: 'post-1',
+      payload: { authorId: 'author-1' },
+    });
+  });
+
+  it('should deliver every event to ALL_EVENTS subscribers', async () => {
+    const bus = new InMemoryEventBus();
+    const names: string[] = [];
+    bus.subscribe(ALL_EVENTS, (event) => {
+      names.push(event.eventName);
+    });
+
+    await bus.publish(
+      published(),
+      new CommentCreatedEvent('comment-1', 'post-1', 'user-1')
+    );
+
+    expect(names).toEqual(['post.published', 'comment.created']);
+  });
+
+  it('should keep delivering when a handler fails', async () => {
+    const bus = new InMemoryEventBus();
+    const handler = jest.fn<DomainEventHandler>();
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined);
+    bus.subscribe('post.published', () => {
+      throw new Error('boom');
+    });
+    bus.subscribe('post.published', handler);
+
+    await expect(bus.publish(published())).resolves.toBeUndefined();
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    consoleError.mockRestore();
+  });
+
+  it('should rerun only the handlers that failed on redelivery', async () => {
+    const bus = new InMemoryEventBus();
+    const succeeding = jest.fn<DomainEventHandler>();
+    const failing = jest.fn<DomainEventHandler>().mockImplementationOnce(() => {
+      throw new Error('boom');
+    });
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined);
+    bus.subscribe('post.published', succeeding);
+    bus.subscribe('post.published', failing);
+    const message = published().toJSON() as unknown as DomainEventMessage;
+    const completed = new Set<DomainEventHandler>();
+
+    await expect(bus.dispatch(message, completed)).resolves.toBe(false);
+    await expect(bus.dispatch(message, completed)).resolves.toBe(true);
+
+    expect(succeeding).toHaveBeenCalledTimes(1);
+    expect(failing).toHaveBeenCalledTimes(2);
+    consoleError.mockRestore();
+  });
+
+  it('should stop delivering after unsubscribe', async () => {
+    const bus = new InMemoryEventBus();
+    const handler = jest.fn<DomainEventHandler>();
+    const unsubscribe = bus.subscribe('post.published', handler);
+
+    unsubscribe();
+    await bus.publish(published());
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * CMAF Packaging Tests
+ *
+ * The DASH manifest is built from the HLS playlists of the fMP4 encode.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildDashManifest,
+  parseHlsMediaPlaylist,
+} from '../../ffmpeg/ffmpeg.service.js';
+
+const playlist = [
+  '#EXTM3U',
+  '#EXT-X-VERSION:7',
+  '#EXT-X-TARGETDURATION:6',
+  '#EXT-X-MEDIA-SEQUENCE:0',
+  '#EXT-X-PLAYLIST-TYPE:VOD',
+  '#EXT-X-MAP:URI="segment_init.mp4"',
+  '#EXTINF:6.000000,',
+  'segment_000.m4s',
+  '#EXTINF:3.500000,',
+  'segment_001.m4s',
+  '#EXT-X-ENDLIST',
+  '',
+].join('\n');
+
+describe('parseHlsMediaPlaylist', () => {
+  it('should read the init segment and the segments with their durations', () => {
+    expect(parseHlsMediaPlaylist(playlist)).toEqual({
+      initialization: 'segment_init.mp4',
+      segments: [
+        { uri: 'segment_000.m4s', duration: 6 },
+        { uri: 'segment_001.m4s', duration: 3.5 },
+      ],
+    });
+  });
+
+  it('should have no init segment for MPEG-TS playlists', () => {
+    const tsPlaylist = playlist
+      .replace('#EXT-X-MAP:URI="segment_init.mp4"\n', '')
+      .replace(/\.m4s/g, '.ts');
+
+    expect(parseHlsMediaPlaylist(tsPlaylist).initialization).toBeNull();
+  });
+});
+
+describe('buildDashManifest', () => {
+  const { segments } = parseHlsMediaPlaylist(playlist);
+  const manifest = buildDashManifest([
+    {
+      id: '720p',
+      bandwidth: 2_928_000,
+      width: 1280,
+      height: 720,
+      codecs: 'avc1.4d401f,mp4a.40.2',
+      initialization: '720p/segment_init.mp4',
+      segments: segments.map((s) => ({ ...s, uri: `720p/${s.uri}` })),
+    },
+  ]);
+
+  it('should describe a static presentation as long as the segments', () => {
+    expect(manifest).toContain('type="static"');
+    expect(manifest).toContain('mediaPresentationDuration="PT9.5S"');
+  });
+
+  it('should list each representation with its init segment and segments', () => {
+    expect(manifest).toContain(
+      '<Representation id="720p" bandwidth="2928000" width="1280" height="720"'
+    );
+    expect(manifest).toContain(
+      '<Initialization sourceURL="720p/segment_init.mp4"/>'
+    );
+    expect(manifest).toContain('<S d="6000"/>');
+    expect(manifest).toContain('<S d="3500"/>');
+    expect(manifest).toContain('<SegmentURL media="720p/segment_000.m4s"/>');
+    expect(manifest).toContain('<SegmentURL media="720p/segment_001.m4s"/>');
+  });
+
+  it('should put the shared audio rendition in its own adaptation set', () => {
+    const withAudio = buildDashManifest(
+      [
+        {
+          id: '720p',
+          bandwidth: 2_800_000,
+          width: 1280,
+          height: 720,
+          codecs: 'avc1.4d401f',
+          initialization: '720p/segment_init.mp4',
+          segments: segments.map((s) => ({ ...s, uri: `720p/${s.uri}` })),
+        },
+      ],
+      [
+        {
+          id: 'audio',
+          bandwidth: 128_000,
+          codecs: 'mp4a.40.2',
+          initialization: 'audio/segment_init.mp4',
+          segments: segments.map((s) => ({ ...s, uri: `audio/${s.uri}` })),
+        },
+      ]
+    );
+
+    expect(withAudio).toContain('<AdaptationSet mimeType="video/mp4"');
+    expect(withAudio).toContain('<AdaptationSet mimeType="audio/mp4"');
+    expect(withAudio).toContain(
+      '<Representation id="audio" bandwidth="128000" audioSamplingRate="48000" codecs="mp4a.40.2">'
+    );
+    expect(withAudio).toContain('<SegmentURL media="audio/segment_000.m4s"/>');
+  });
+});
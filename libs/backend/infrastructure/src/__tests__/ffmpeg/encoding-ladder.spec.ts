@@ -0,0 +1,67 @@
+/**
+ * Content-Aware Encoding Ladder Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { DEFAULT_HLS_QUALITIES } from '@blog/backend/core';
+import { buildEncodingLadder } from '../../ffmpeg/ffmpeg.service.js';
+
+const bitrates = (ladder: { name: string; videoBitrate: number }[]) =>
+  Object.fromEntries(ladder.map((q) => [q.name, q.videoBitrate]));
+
+describe('buildEncodingLadder', () => {
+  it('should give simple content lower bitrates than complex content', () => {
+    const source = { height: 1080, bitrate: 20_000_000 };
+
+    const slideshow = bitrates(
+      buildEncodingLadder(
+        { probeHeight: 720, probeBitrate: 300, sampleCount: 3 },
+        source
+      )
+    );
+    const game = bitrates(
+      buildEncodingLadder(
+        { probeHeight: 720, probeBitrate: 2500, sampleCount: 3 },
+        source
+      )
+    );
+
+    for (const quality of ['360p', '480p', '720p', '1080p']) {
+      expect(slideshow[quality]).toBeLessThan(game[quality]);
+    }
+    expect(slideshow['720p']).toBe(360);
+  });
+
+  it('should keep bitrates within the bounds of the presets', () => {
+    const ladder = bitrates(
+      buildEncodingLadder(
+        { probeHeight: 720, probeBitrate: 20_000, sampleCount: 3 },
+        { height: 1080, bitrate: 50_000_000 }
+      )
+    );
+
+    const preset = DEFAULT_HLS_QUALITIES.find((q) => q.name === '1080p');
+    expect(ladder['1080p']).toBe((preset?.videoBitrate ?? 0) * 1.5);
+  });
+
+  it('should cap bitrates at the source bitrate', () => {
+    const ladder = bitrates(
+      buildEncodingLadder(
+        { probeHeight: 720, probeBitrate: 2000, sampleCount: 3 },
+        { height: 1080, bitrate: 900_000 }
+      )
+    );
+
+    expect(ladder['1080p']).toBe(900);
+    expect(ladder['720p']).toBe(900);
+  });
+
+  it('should skip qualities above the source height', () => {
+    const ladder = buildEncodingLadder(
+      { probeHeight: 480, probeBitrate: 800, sampleCount: 1 },
+      { height: 480, bitrate: 0 }
+    );
+
+    expect(ladder.map((q) => q.name)).toEqual(['480p', '360p']);
+  });
+});
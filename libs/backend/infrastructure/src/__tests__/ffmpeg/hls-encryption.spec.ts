@@ -0,0 +1,14 @@
+/**
+ * HLS Encryption Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildHlsKeyInfo } from '../../ffmpeg/ffmpeg.service.js';
+
+describe('buildHlsKeyInfo', () => {
+  it('should list the key URI, then the key file, without an IV', () => {
+    expect(buildHlsKeyInfo('../../key?version=2', '/tmp/hls-key/a.key')).toBe(
+      '../../key?version=2\n/tmp/hls-key/a.key\n'
+    );
+  });
+});
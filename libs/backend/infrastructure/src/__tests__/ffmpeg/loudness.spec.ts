@@ -0,0 +1,78 @@
+/**
+ * Loudness Normalization Tests
+ *
+ * Two-pass loudnorm: the first pass measures, the second normalizes
+ * linearly with the measurement.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildLoudnormFilter,
+  parseLoudnormOutput,
+} from '../../ffmpeg/ffmpeg.service.js';
+
+const firstPassLog = `
+Output #0, null, to 'pipe:':
+size=N/A time=00:02:13.33 bitrate=N/A speed= 412x
+[Parsed_loudnorm_0 @ 0x55d0c1a3f2c0]
+{
+	"input_i" : "-27.61",
+	"input_tp" : "-8.43",
+	"input_lra" : "6.20",
+	"input_thresh" : "-38.05",
+	"output_i" : "-16.37",
+	"output_tp" : "-1.50",
+	"output_lra" : "5.10",
+	"output_thresh" : "-26.72",
+	"normalization_type" : "dynamic",
+	"target_offset" : "0.37"
+}
+`;
+
+describe('parseLoudnormOutput', () => {
+  it('should read the measurement of the first pass', () => {
+    expect(parseLoudnormOutput(firstPassLog, -16)).toEqual({
+      integratedLufs: -27.61,
+      truePeakDbtp: -8.43,
+      loudnessRangeLu: 6.2,
+      thresholdLufs: -38.05,
+      targetOffsetLu: 0.37,
+      targetLufs: -16,
+    });
+  });
+
+  it('should reject silent audio', () => {
+    const silence = firstPassLog
+      .replace('"-27.61"', '"-inf"')
+      .replace('"-8.43"', '"-inf"');
+
+    expect(() => parseLoudnormOutput(silence, -16)).toThrow('silent');
+  });
+
+  it('should reject a log without a measurement', () => {
+    expect(() => parseLoudnormOutput('Conversion failed!', -16)).toThrow(
+      'No loudness measurement'
+    );
+  });
+});
+
+describe('buildLoudnormFilter', () => {
+  it('should print the measurement in the first pass', () => {
+    expect(buildLoudnormFilter(-16)).toBe(
+      'loudnorm=I=-16:TP=-1.5:LRA=20:print_format=json'
+    );
+  });
+
+  it('should normalize linearly with the measurement in the second pass', () => {
+    const filter = buildLoudnormFilter(
+      -16,
+      parseLoudnormOutput(firstPassLog, -16)
+    );
+
+    expect(filter).toBe(
+      'loudnorm=I=-16:TP=-1.5:LRA=20:measured_I=-27.61:measured_TP=-8.43' +
+        ':measured_LRA=6.2:measured_thresh=-38.05:offset=0.37:linear=true,' +
+        'aresample=48000'
+    );
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Thumbnail Candidate Scoring Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { scoreThumbnailFrame } from '../../ffmpeg/ffmpeg.service.js';
+
+const WIDTH = 16;
+const HEIGHT = 9;
+
+const frame = (pixel: (x: number, y: number) => number): Uint8Array => {
+  const pixels = new Uint8Array(WIDTH * HEIGHT);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      pixels[y * WIDTH + x] = pixel(x, y);
+    }
+  }
+  return pixels;
+};
+
+// A sharp pattern around a given brightness
+const checkerboard = (base: number) =>
+  frame((x, y) => ((x + y) % 2 === 0 ? base + 40 : base - 40));
+
+describe('scoreThumbnailFrame', () => {
+  it('should score a black frame zero', () => {
+    expect(
+      scoreThumbnailFrame(
+        frame(() => 0),
+        WIDTH,
+        HEIGHT
+      )
+    ).toBe(0);
+  });
+
+  it('should score a detailed frame above a flat one', () => {
+    const flat = scoreThumbnailFrame(
+      frame(() => 128),
+      WIDTH,
+      HEIGHT
+    );
+    const detailed = scoreThumbnailFrame(checkerboard(128), WIDTH, HEIGHT);
+
+    expect(flat).toBe(0);
+    expect(detailed).toBeGreaterThan(0);
+  });
+
+  it('should score a blurred frame below a sharp one', () => {
+    const sharp = scoreThumbnailFrame(
+      frame((x) => (x < WIDTH / 2 ? 60 : 200)),
+      WIDTH,
+      HEIGHT
+    );
+    const blurred = scoreThumbnailFrame(
+      frame((x) => 60 + (140 * x) / (WIDTH - 1)),
+      WIDTH,
+      HEIGHT
+    );
+
+    expect(sharp).toBeGreaterThan(blurred);
+  });
+
+  it('should score dark and overexposed frames below well exposed ones', () => {
+    const exposed = scoreThumbnailFrame(checkerboard(128), WIDTH, HEIGHT);
+
+    expect(scoreThumbnailFrame(checkerboard(50), WIDTH, HEIGHT)).toBeLessThan(
+      exposed
+    );
+    expect(scoreThumbnailFrame(checkerboard(210), WIDTH, HEIGHT)).toBeLessThan(
+      exposed
+    );
+  });
+});
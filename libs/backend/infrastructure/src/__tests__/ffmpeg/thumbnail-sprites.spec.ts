@@ -0,0 +1,44 @@
+/**
+ * Thumbnail Sprites Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildThumbnailsVtt } from '../../ffmpeg/ffmpeg.service.js';
+
+const layout = { interval: 5, width: 160, height: 90, columns: 2, rows: 2 };
+
+describe('buildThumbnailsVtt', () => {
+  it('should map each interval to its tile in the sprite sheet', () => {
+    const vtt = buildThumbnailsVtt(12, layout, ['sprite_001.jpg']);
+
+    expect(vtt).toBe(
+      'WEBVTT\n\n' +
+        '00:00:00.000 --> 00:00:05.000\n' +
+        'sprites/sprite_001.jpg#xywh=0,0,160,90\n\n' +
+        '00:00:05.000 --> 00:00:10.000\n' +
+        'sprites/sprite_001.jpg#xywh=160,0,160,90\n\n' +
+        '00:00:10.000 --> 00:00:12.000\n' +
+        'sprites/sprite_001.jpg#xywh=0,90,160,90\n'
+    );
+  });
+
+  it('should continue on the next sprite sheet when one is full', () => {
+    const vtt = buildThumbnailsVtt(30, layout, [
+      'sprite_001.jpg',
+      'sprite_002.jpg',
+    ]);
+
+    expect(vtt).toContain(
+      '00:00:15.000 --> 00:00:20.000\nsprites/sprite_001.jpg#xywh=160,90,160,90'
+    );
+    expect(vtt).toContain(
+      '00:00:20.000 --> 00:00:25.000\nsprites/sprite_002.jpg#xywh=0,0,160,90'
+    );
+  });
+
+  it('should not point at frames missing from the sprite sheets', () => {
+    const vtt = buildThumbnailsVtt(30, layout, ['sprite_001.jpg']);
+
+    expect(vtt.match(/-->/g)).toHaveLength(4);
+  });
+});
@@ -51,6 +51,8 @@ export function createTestVideo(
     rawFilePath: null,
     hlsMasterUrl: null,
     thumbnailUrl: null,
+    thumbnailsVttUrl: null,
+    dashManifestUrl: null,
     availableQualities: [],
     retryCount: options.retryCount ?? 0,
     errorMessage: options.errorMessage ?? null,
@@ -112,6 +114,8 @@ export function createTestReadyVideo(
     rawFilePath: `/raw/test-video-${uniqueSuffix}.mp4`,
     hlsMasterUrl: `https://cdn.example.com/videos/${uniqueSuffix}/master.m3u8`,
     thumbnailUrl: `https://cdn.example.com/videos/${uniqueSuffix}/thumbnail.jpg`,
+    thumbnailsVttUrl: `https://cdn.example.com/videos/${uniqueSuffix}/thumbnails.vtt`,
+    dashManifestUrl: null,
     availableQualities: [
       VideoQuality.Q1080P,
       VideoQuality.Q720P,
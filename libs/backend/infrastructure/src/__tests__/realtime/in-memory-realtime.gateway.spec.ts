@@ -0,0 +1,62 @@
+/**
+ * In-Memory Realtime Gateway Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { RealtimeChannels, type RealtimeMessage } from '@blog/backend/core';
+import { InMemoryRealtimeGateway } from '../../realtime/in-memory-realtime.gateway.js';
+
+describe('InMemoryRealtimeGateway', () => {
+  it('should deliver messages to subscribers of the channel only', async () => {
+    const gateway = new InMemoryRealtimeGateway();
+    const received: RealtimeMessage[] = [];
+    gateway.subscribe([RealtimeChannels.video('video-1')], (message) => {
+      received.push(message);
+    });
+    gateway.subscribe([RealtimeChannels.video('video-2')], () => {
+      throw new Error('should not be called');
+    });
+
+    await gateway.publish(RealtimeChannels.video('video-1'), 'video.progress', {
+      progress: 42,
+    });
+
+    expect(received).toEqual([
+      {
+        channel: 'video:video-1',
+        type: 'video.progress',
+        data: { progress: 42 },
+      },
+    ]);
+  });
+
+  it('should keep delivering when a handler throws', async () => {
+    const gateway = new InMemoryRealtimeGateway();
+    let delivered = 0;
+    gateway.subscribe(['user:1'], () => {
+      throw new Error('boom');
+    });
+    gateway.subscribe(['user:1'], () => {
+      delivered++;
+    });
+
+    await gateway.publish('user:1', 'notification.created', {});
+
+    expect(delivered).toBe(1);
+  });
+
+  it('should stop delivering and forget the channel after unsubscribe', async () => {
+    const gateway = new InMemoryRealtimeGateway();
+    let delivered = 0;
+    const unsubscribe = gateway.subscribe(['user:1', 'video:1'], () => {
+      delivered++;
+    });
+
+    unsubscribe();
+    await gateway.publish('user:1', 'notification.created', {});
+
+    expect(delivered).toBe(0);
+    expect(gateway.has('user:1')).toBe(false);
+    expect(gateway.has('video:1')).toBe(false);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Analytics Repository Integration Tests
+ *
+ * Tests PostgresAnalyticsRepository with real database operations.
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import { Kysely } from 'kysely';
+import type { Database } from '../../database/types.js';
+import { PostgresAnalyticsRepository } from '../../repositories/analytics.repository.js';
+import { PostgresViewRepository } from '../../repositories/view.repository.js';
+import { PostgresPostRepository } from '../../repositories/post.repository.js';
+import { PostgresUserRepository } from '../../repositories/user.repository.js';
+import {
+  startTestDatabase,
+  stopTestDatabase,
+  cleanDatabase,
+} from '../test-database.js';
+import {
+  createTestUser,
+  createTestPublishedPost,
+  resetPostCounter,
+} from '../fixtures/index.js';
+
+const SESSION_A = '00000000-0000-4000-8000-00000000000a';
+const SESSION_B = '00000000-0000-4000-8000-00000000000b';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('PostgresAnalyticsRepository', () => {
+  let db: Kysely<Database>;
+  let analyticsRepository: PostgresAnalyticsRepository;
+  let viewRepository: PostgresViewRepository;
+  let authorId: string;
+  let postId: string;
+
+  const today = new Date();
+  const range = { from: new Date(today.getTime() - 6 * DAY_MS), to: today };
+
+  beforeAll(async () => {
+    const result = await startTestDatabase();
+    db = result.db;
+    analyticsRepository = new PostgresAnalyticsRepository(db);
+    viewRepository = new PostgresViewRepository(db);
+  }, 60000);
+
+  afterAll(async () => {
+    await stopTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(db);
+    resetPostCounter();
+
+    const author = createTestUser({
+      email: 'author@example.com',
+      username: 'author',
+    });
+    await new PostgresUserRepository(db).save(author);
+    authorId = author.id;
+
+    const post = createTestPublishedPost({ authorId });
+    await new PostgresPostRepository(db).save(post);
+    postId = post.id;
+
+    await viewRepository.recordPostView({
+      postId,
+      sessionId: SESSION_A,
+      referrer: 'https://news.ycombinator.com/item?id=1',
+      isBot: false,
+    });
+    await viewRepository.recordPostView({
+      postId,
+      sessionId: SESSION_B,
+      isBot: true,
+    });
+  });
+
+  it('should exclude bot views from totals', async () => {
+    const totals = await analyticsRepository.getTotals(authorId, range);
+
+    expect(totals.views).toBe(1);
+    expect(totals.uniqueViewers).toBe(1);
+    expect(totals.avgCompletionRate).toBeNull();
+  });
+
+  it('should return one zero-filled point per day', async () => {
+    const daily = await analyticsRepository.getDailySeries(authorId, range);
+
+    expect(daily).toHaveLength(7);
+    expect(daily.reduce((sum, point) => sum + point.views, 0)).toBe(1);
+  });
+
+  it('should break down views per post', async () => {
+    const posts = await analyticsRepository.getPostBreakdown(
+      authorId,
+      range,
+      10
+    );
+
+    expect(posts).toHaveLength(1);
+    expect(posts[0].postId).toBe(postId);
+    expect(posts[0].views).toBe(1);
+  });
+
+  it('should group referrers by host', async () => {
+    const referrers = await analyticsRepository.getTopReferrers(
+      authorId,
+      range,
+      10
+    );
+
+    expect(referrers).toEqual([{ referrer: 'news.ycombinator.com', views: 1 }]);
+  });
+
+  it('should return ten completion buckets', async () => {
+    const buckets = await analyticsRepository.getVideoCompletionHistogram(
+      authorId,
+      range
+    );
+
+    expect(buckets).toHaveLength(10);
+    expect(buckets[9]).toEqual({ from: 90, to: 100, views: 0 });
+  });
+});
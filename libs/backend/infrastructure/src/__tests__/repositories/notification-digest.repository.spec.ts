@@ -0,0 +1,171 @@
+/**
+ * Notification Preference and Digest Repository Integration Tests
+ *
+ * Tests PostgresNotificationPreferenceRepository and
+ * PostgresNotificationDigestRepository with real database operations.
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import { Kysely } from 'kysely';
+import type { Database } from '../../database/types.js';
+import { PostgresNotificationPreferenceRepository } from '../../repositories/notification-preference.repository.js';
+import { PostgresNotificationDigestRepository } from '../../repositories/notification-digest.repository.js';
+import { PostgresFollowRepository } from '../../repositories/follow.repository.js';
+import { PostgresPostRepository } from '../../repositories/post.repository.js';
+import { PostgresUserRepository } from '../../repositories/user.repository.js';
+import {
+  startTestDatabase,
+  stopTestDatabase,
+  cleanDatabase,
+} from '../test-database.js';
+import {
+  createTestVerifiedUser,
+  createTestFollow,
+  createTestPublishedPost,
+  resetPostCounter,
+} from '../fixtures/index.js';
+
+describe('Notification preference and digest repositories', () => {
+  let db: Kysely<Database>;
+  let preferenceRepository: PostgresNotificationPreferenceRepository;
+  let digestRepository: PostgresNotificationDigestRepository;
+  let authorId: string;
+  let readerId: string;
+
+  beforeAll(async () => {
+    const result = await startTestDatabase();
+    db = result.db;
+    preferenceRepository = new PostgresNotificationPreferenceRepository(db);
+    digestRepository = new PostgresNotificationDigestRepository(db);
+  }, 60000);
+
+  afterAll(async () => {
+    await stopTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(db);
+    resetPostCounter();
+
+    const userRepository = new PostgresUserRepository(db);
+    const author = createTestVerifiedUser({
+      email: 'author@example.com',
+      username: 'author',
+    });
+    const reader = createTestVerifiedUser({
+      email: 'reader@example.com',
+      username: 'reader',
+    });
+    await userRepository.save(author);
+    await userRepository.save(reader);
+    authorId = author.id;
+    readerId = reader.id;
+  });
+
+  describe('PostgresNotificationPreferenceRepository', () => {
+    it('should return nothing stored for a new user', async () => {
+      const stored = await preferenceRepository.findByUserId(readerId);
+
+      expect(stored.types).toHaveLength(0);
+      expect(stored.digestFrequency).toBeNull();
+    });
+
+    it('should insert and replace type preferences', async () => {
+      await preferenceRepository.saveTypes(readerId, [
+        { type: 'follow', inApp: true, email: true },
+      ]);
+      await preferenceRepository.saveTypes(readerId, [
+        { type: 'follow', inApp: false, email: true },
+        { type: 'mention', inApp: true, email: false },
+      ]);
+
+      const stored = await preferenceRepository.findByUserId(readerId);
+
+      expect(stored.types).toHaveLength(2);
+      expect(stored.types).toContainEqual({
+        type: 'follow',
+        inApp: false,
+        email: true,
+      });
+    });
+
+    it('should save the digest frequency', async () => {
+      await preferenceRepository.saveDigestFrequency(readerId, 'daily');
+      await preferenceRepository.saveDigestFrequency(readerId, 'off');
+
+      const stored = await preferenceRepository.findByUserId(readerId);
+
+      expect(stored.digestFrequency).toBe('off');
+    });
+  });
+
+  describe('PostgresNotificationDigestRepository', () => {
+    it('should find users due on the default schedule', async () => {
+      await preferenceRepository.saveDigestFrequency(authorId, 'daily');
+
+      const weekly = await digestRepository.findDueRecipients(
+        'weekly',
+        new Date(),
+        10
+      );
+      const daily = await digestRepository.findDueRecipients(
+        'daily',
+        new Date(),
+        10
+      );
+
+      expect(weekly.map((r) => r.userId)).toEqual([readerId]);
+      expect(daily.map((r) => r.userId)).toEqual([authorId]);
+    });
+
+    it('should not find users who got a digest recently', async () => {
+      const sentAt = new Date();
+      await digestRepository.markSent(readerId, sentAt);
+
+      const due = await digestRepository.findDueRecipients(
+        'weekly',
+        new Date(sentAt.getTime() - 1000),
+        10
+      );
+
+      expect(due.map((r) => r.userId)).not.toContain(readerId);
+    });
+
+    it('should collect new posts and likes since a time', async () => {
+      const since = new Date(Date.now() - 60 * 60 * 1000);
+      await new PostgresFollowRepository(db).save(
+        createTestFollow({ followerId: readerId, followingId: authorId })
+      );
+      const post = createTestPublishedPost({ authorId });
+      await new PostgresPostRepository(db).save(post);
+      await db
+        .insertInto('likes')
+        .values({ user_id: readerId, post_id: post.id })
+        .execute();
+
+      const readerContent = await digestRepository.getContent(readerId, since, {
+        limit: 10,
+        includeReplies: true,
+        includeLikes: true,
+      });
+      const authorContent = await digestRepository.getContent(authorId, since, {
+        limit: 10,
+        includeReplies: true,
+        includeLikes: true,
+      });
+
+      expect(readerContent.newPosts.map((p) => p.id)).toEqual([post.id]);
+      expect(authorContent.newPosts).toHaveLength(0);
+      expect(authorContent.postLikes).toEqual([
+        expect.objectContaining({ postId: post.id, likeCount: 1 }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Notification Repository Integration Tests
+ *
+ * Tests PostgresNotificationRepository with real database operations.
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import { Kysely } from 'kysely';
+import type { Database } from '../../database/types.js';
+import { PostgresNotificationRepository } from '../../repositories/notification.repository.js';
+import { PostgresPostRepository } from '../../repositories/post.repository.js';
+import { PostgresUserRepository } from '../../repositories/user.repository.js';
+import {
+  startTestDatabase,
+  stopTestDatabase,
+  cleanDatabase,
+} from '../test-database.js';
+import {
+  createTestUser,
+  createTestPublishedPost,
+  resetPostCounter,
+} from '../fixtures/index.js';
+
+describe('PostgresNotificationRepository', () => {
+  let db: Kysely<Database>;
+  let notificationRepository: PostgresNotificationRepository;
+  let authorId: string;
+  let readerId: string;
+  let postId: string;
+
+  beforeAll(async () => {
+    const result = await startTestDatabase();
+    db = result.db;
+    notificationRepository = new PostgresNotificationRepository(db);
+  }, 60000);
+
+  afterAll(async () => {
+    await stopTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(db);
+    resetPostCounter();
+
+    const userRepository = new PostgresUserRepository(db);
+    const author = createTestUser({
+      email: 'author@example.com',
+      username: 'author',
+    });
+    const reader = createTestUser({
+      email: 'reader@example.com',
+      username: 'reader',
+    });
+    await userRepository.save(author);
+    await userRepository.save(reader);
+    authorId = author.id;
+    readerId = reader.id;
+
+    const post = createTestPublishedPost({ authorId });
+    await new PostgresPostRepository(db).save(post);
+    postId = post.id;
+  });
+
+  it('should create a notification with actor and post details', async () => {
+    const created = await notificationRepository.create({
+      userId: authorId,
+      type: 'post_like',
+      actorId: readerId,
+      postId,
+      dedupeKey: `post_like:${postId}:${readerId}`,
+    });
+
+    const [notification] = await notificationRepository.findByUserId(
+      authorId
+    );
+
+    expect(created).toBe(true);
+    expect(notification.type).toBe('post_like');
+    expect(notification.actor?.username).toBe('reader');
+    expect(notification.postId).toBe(postId);
+    expect(notification.postSlug).toBeTruthy();
+    expect(notification.readAt).toBeNull();
+  });
+
+  it('should ignore duplicates of the same dedupe key', async () => {
+    const input = {
+      userId: authorId,
+      type: 'follow' as const,
+      actorId: readerId,
+      dedupeKey: `follow:${readerId}:${authorId}`,
+    };
+
+    expect(await notificationRepository.create(input)).toBe(true);
+    expect(await notificationRepository.create(input)).toBe(false);
+    expect(await notificationRepository.countUnread(authorId)).toBe(1);
+  });
+
+  it('should page with a (createdAt, id) cursor', async () => {
+    for (let i = 0; i < 3; i++) {
+      await notificationRepository.create({
+        userId: authorId,
+        type: 'mention',
+        actorId: readerId,
+        postId,
+      });
+    }
+
+    const firstPage = await notificationRepository.findByUserId(authorId, {
+      limit: 2,
+    });
+    const last = firstPage[firstPage.length - 1];
+    const secondPage = await notificationRepository.findByUserId(authorId, {
+      limit: 2,
+      cursor: { createdAt: last.createdAt, id: last.id },
+    });
+
+    expect(firstPage).toHaveLength(2);
+    expect(secondPage).toHaveLength(1);
+    expect(firstPage.map((n) => n.id)).not.toContain(secondPage[0].id);
+  });
+
+  it('should only mark the recipient notifications as read', async () => {
+    await notificationRepository.create({
+      userId: authorId,
+      type: 'follow',
+      actorId: readerId,
+    });
+    const [notification] = await notificationRepository.findByUserId(
+      authorId
+    );
+
+    expect(
+      await notificationRepository.markRead(readerId, [notification.id])
+    ).toBe(0);
+    expect(
+      await notificationRepository.markRead(authorId, [notification.id])
+    ).toBe(1);
+    expect(await notificationRepository.countUnread(authorId)).toBe(0);
+  });
+
+  it('should mark all notifications as read', async () => {
+    await notificationRepository.create({
+      userId: authorId,
+      type: 'follow',
+      actorId: readerId,
+    });
+    await notificationRepository.create({
+      userId: authorId,
+      type: 'post_like',
+      actorId: readerId,
+      postId,
+    });
+
+    expect(await notificationRepository.markAllRead(authorId)).toBe(2);
+    expect(
+      await notificationRepository.findByUserId(authorId, { unreadOnly: true })
+    ).toHaveLength(0);
+  });
+});
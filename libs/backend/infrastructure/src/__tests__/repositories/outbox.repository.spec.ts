@@ -0,0 +1,139 @@
+/**
+ * Outbox Repository Integration Tests
+ *
+ * Tests PostgresOutboxRepository and KyselyUnitOfWork with real database
+ * operations.
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import { Kysely } from 'kysely';
+import { PostCreatedEvent } from '@blog/shared/domain';
+import type { Database } from '../../database/types.js';
+import { PostgresOutboxRepository } from '../../repositories/outbox.repository.js';
+import { KyselyUnitOfWork } from '../../repositories/unit-of-work.js';
+import { PostgresUserRepository } from '../../repositories/user.repository.js';
+import {
+  startTestDatabase,
+  stopTestDatabase,
+  cleanDatabase,
+} from '../test-database.js';
+import { createTestUser, createTestPost } from '../fixtures/index.js';
+
+const POST_ID = '00000000-0000-4000-8000-000000000001';
+
+describe('PostgresOutboxRepository', () => {
+  let db: Kysely<Database>;
+  let outboxRepository: PostgresOutboxRepository;
+
+  const createEvent = () =>
+    new PostCreatedEvent(POST_ID, 'author-id', 'Title', 'title');
+
+  beforeAll(async () => {
+    const result = await startTestDatabase();
+    db = result.db;
+    outboxRepository = new PostgresOutboxRepository(db);
+  }, 60000);
+
+  afterAll(async () => {
+    await stopTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(db);
+  });
+
+  it('should claim pending events once per lease', async () => {
+    const event = createEvent();
+    await outboxRepository.add([event]);
+
+    const claimed = await outboxRepository.claimPending(10, 60000);
+    expect(claimed).toHaveLength(1);
+    expect(claimed[0].attempts).toBe(1);
+    expect(claimed[0].message.eventId).toBe(event.eventId);
+    expect(claimed[0].message.eventName).toBe('post.created');
+
+    // Leased rows are hidden from other relays
+    expect(await outboxRepository.claimPending(10, 60000)).toHaveLength(0);
+  });
+
+  it('should not claim published events', async () => {
+    await outboxRepository.add([createEvent()]);
+    const [claimed] = await outboxRepository.claimPending(10, 0);
+
+    await outboxRepository.markPublished([claimed.id]);
+
+    expect(await outboxRepository.claimPending(10, 0)).toHaveLength(0);
+  });
+
+  it('should retry failed events until max attempts', async () => {
+    await outboxRepository.add([createEvent()]);
+
+    const [first] = await outboxRepository.claimPending(10, 0);
+    expect(await outboxRepository.markFailed(first.id, 'boom', 0, 2)).toBe(
+      'pending'
+    );
+
+    const [second] = await outboxRepository.claimPending(10, 0);
+    expect(second.attempts).toBe(2);
+    expect(await outboxRepository.markFailed(second.id, 'boom', 0, 2)).toBe(
+      'dead'
+    );
+
+    expect(await outboxRepository.claimPending(10, 0)).toHaveLength(0);
+  });
+
+  it('should delete published events older than a date', async () => {
+    await outboxRepository.add([createEvent()]);
+    const [claimed] = await outboxRepository.claimPending(10, 0);
+    await outboxRepository.markPublished([claimed.id]);
+
+    const deleted = await outboxRepository.deletePublishedBefore(
+      new Date(Date.now() + 1000)
+    );
+
+    expect(deleted).toBe(1);
+  });
+
+  describe('KyselyUnitOfWork', () => {
+    it('should roll back the outbox together with the change', async () => {
+      const unitOfWork = new KyselyUnitOfWork(db);
+      const author = createTestUser();
+
+      await expect(
+        unitOfWork.execute(async ({ userRepository, outboxRepository }) => {
+          await userRepository.save(author);
+          await outboxRepository.add([createEvent()]);
+          throw new Error('rollback');
+        })
+      ).rejects.toThrow('rollback');
+
+      expect(await new PostgresUserRepository(db).findById(author.id)).toBe(
+        null
+      );
+      expect(await outboxRepository.claimPending(10, 0)).toHaveLength(0);
+    });
+
+    it('should commit the outbox together with the change', async () => {
+      const unitOfWork = new KyselyUnitOfWork(db);
+      const author = createTestUser();
+      const post = createTestPost({ authorId: author.id });
+
+      await unitOfWork.execute(
+        async ({ userRepository, postRepository, outboxRepository }) => {
+          await userRepository.save(author);
+          await postRepository.save(post);
+          await outboxRepository.add([createEvent()]);
+        }
+      );
+
+      expect(await outboxRepository.claimPending(10, 0)).toHaveLength(1);
+    });
+  });
+});
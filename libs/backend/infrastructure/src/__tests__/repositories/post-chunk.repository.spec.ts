@@ -0,0 +1,150 @@
+/**
+ * Post Chunk Repository Integration Tests
+ *
+ * Tests PostgresPostChunkRepository with real database operations
+ * (pgvector). Chunks carry no visibility of their own: only passages of
+ * published public posts may be retrieved.
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import { Kysely } from 'kysely';
+import type { PostEntity } from '@blog/shared/domain';
+import { PostStatus, PostVisibility } from '@blog/shared/domain';
+import type { Database } from '../../database/types.js';
+import { PostgresPostChunkRepository } from '../../repositories/post-chunk.repository.js';
+import { PostgresPostRepository } from '../../repositories/post.repository.js';
+import { PostgresUserRepository } from '../../repositories/user.repository.js';
+import {
+  startTestDatabase,
+  stopTestDatabase,
+  cleanDatabase,
+} from '../test-database.js';
+import {
+  createTestUser,
+  createTestPost,
+  createTestPublishedPost,
+  createTestDraftPost,
+  resetAllCounters,
+} from '../fixtures/index.js';
+
+const DIMENSIONS = 1536;
+
+/** Unit vector along one axis, plus a little of a second one */
+function vector(axis: number, tilt = 0): number[] {
+  const values = new Array<number>(DIMENSIONS).fill(0);
+  values[axis] = 1;
+  values[axis + 1] = tilt;
+  return values;
+}
+
+describe('PostgresPostChunkRepository', () => {
+  let db: Kysely<Database>;
+  let chunkRepository: PostgresPostChunkRepository;
+  let postRepository: PostgresPostRepository;
+  let authorId: string;
+
+  beforeAll(async () => {
+    const result = await startTestDatabase();
+    db = result.db;
+    chunkRepository = new PostgresPostChunkRepository(db);
+    postRepository = new PostgresPostRepository(db);
+  }, 60000);
+
+  afterAll(async () => {
+    await stopTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(db);
+    resetAllCounters();
+
+    const author = createTestUser();
+    await new PostgresUserRepository(db).save(author);
+    authorId = author.id;
+  });
+
+  const saveWithChunk = async (post: PostEntity, tilt: number) => {
+    await postRepository.save(post);
+    await chunkRepository.replaceForPost(post.id, [
+      {
+        chunkIndex: 0,
+        content: `Passage of ${post.title}`,
+        embedding: vector(0, tilt),
+      },
+    ]);
+  };
+
+  const publishedWith = (visibility: 'private' | 'unlisted') => {
+    const post = createTestPost({
+      authorId,
+      status: PostStatus.PUBLISHED,
+      visibility,
+    });
+    post.publish();
+    return post;
+  };
+
+  describe('searchSimilar', () => {
+    it('should only return passages of published public posts', async () => {
+      const publicPost = createTestPublishedPost({ authorId });
+      const deletedPost = createTestPublishedPost({ authorId });
+      deletedPost.softDelete();
+
+      // The public post is the furthest match; every other one is closer
+      await saveWithChunk(publicPost, 0.5);
+      await saveWithChunk(publishedWith(PostVisibility.UNLISTED), 0);
+      await saveWithChunk(publishedWith(PostVisibility.PRIVATE), 0);
+      await saveWithChunk(createTestDraftPost({ authorId }), 0);
+      await saveWithChunk(deletedPost, 0);
+
+      const hits = await chunkRepository.searchSimilar(vector(0), {
+        limit: 10,
+      });
+
+      expect(hits.map((hit) => hit.postId)).toEqual([publicPost.id]);
+      expect(hits[0]).toMatchObject({
+        postTitle: publicPost.title,
+        postSlug: publicPost.slug,
+        chunkIndex: 0,
+      });
+    });
+
+    it('should order passages by similarity and apply the minimum score', async () => {
+      const close = createTestPublishedPost({ authorId });
+      const far = createTestPublishedPost({ authorId });
+      await saveWithChunk(close, 0.1);
+      await saveWithChunk(far, 2);
+
+      const hits = await chunkRepository.searchSimilar(vector(0));
+      expect(hits.map((hit) => hit.postId)).toEqual([close.id, far.id]);
+      expect(hits[0].similarity).toBeGreaterThan(hits[1].similarity);
+
+      const strict = await chunkRepository.searchSimilar(vector(0), {
+        minScore: 0.9,
+      });
+      expect(strict.map((hit) => hit.postId)).toEqual([close.id]);
+    });
+  });
+
+  describe('replaceForPost', () => {
+    it('should replace the previous chunks of the post', async () => {
+      const post = createTestPublishedPost({ authorId });
+      await saveWithChunk(post, 0);
+
+      await chunkRepository.replaceForPost(post.id, [
+        { chunkIndex: 0, content: 'First', embedding: vector(0) },
+        { chunkIndex: 1, content: 'Second', embedding: vector(0, 0.2) },
+      ]);
+
+      const hits = await chunkRepository.searchSimilar(vector(0));
+      expect(hits.map((hit) => hit.content)).toEqual(['First', 'Second']);
+    });
+  });
+});
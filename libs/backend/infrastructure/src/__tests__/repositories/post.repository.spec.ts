@@ -12,7 +12,7 @@ import {
   afterAll,
   beforeEach,
 } from '@jest/globals';
-import { Kysely } from 'kysely';
+import { Kysely, sql } from 'kysely';
 import type { Database } from '../../database/types.js';
 import { PostgresPostRepository } from '../../repositories/post.repository.js';
 import { PostgresUserRepository } from '../../repositories/user.repository.js';
@@ -297,6 +297,93 @@ describe('PostgresPostRepository', () => {
     });
   });
 
+  describe('searchFullTextRanked', () => {
+    beforeEach(async () => {
+      const post1 = createTestPublishedPost({
+        authorId: testUserId,
+        title: 'TypeScript Generics in Depth',
+        content:
+          'Generics let TypeScript code stay type safe. TypeScript generics are everywhere. ' +
+          'a'.repeat(100),
+      });
+      const post2 = createTestPublishedPost({
+        authorId: testUserId,
+        title: 'A Short Note on Tooling',
+        content:
+          'We mention TypeScript once while talking about build tools. ' +
+          'b'.repeat(100),
+      });
+      const privatePost = createTestPost({
+        authorId: testUserId,
+        title: 'Private TypeScript Notes for Myself',
+        content: 'TypeScript TypeScript TypeScript. ' + 'c'.repeat(100),
+        status: PostStatus.PUBLISHED,
+        visibility: PostVisibility.PRIVATE,
+      });
+      privatePost.publish();
+
+      await postRepository.save(post1);
+      await postRepository.save(post2);
+      await postRepository.save(privatePost);
+    });
+
+    it('should order hits by rank and highlight matches', async () => {
+      const hits = await postRepository.searchFullTextRanked('typescript');
+
+      expect(hits).toHaveLength(2); // private post excluded
+      expect(hits[0].post.title).toBe('TypeScript Generics in Depth');
+      expect(hits[0].rank).toBeGreaterThanOrEqual(hits[1].rank);
+      expect(hits[0].titleHighlight).toContain('<mark>TypeScript</mark>');
+      expect(hits[1].snippet).toContain('<mark>TypeScript</mark>');
+    });
+
+    it('should continue after the cursor without repeating hits', async () => {
+      const [first] = await postRepository.searchFullTextRanked('typescript', {
+        limit: 1,
+      });
+      const next = await postRepository.searchFullTextRanked('typescript', {
+        limit: 1,
+        cursor: { rank: first.rank, id: first.post.id },
+      });
+
+      expect(next).toHaveLength(1);
+      expect(next[0].post.id).not.toBe(first.post.id);
+    });
+
+    it('should search and quote the text of HTML content, escaped', async () => {
+      const htmlPost = createTestPublishedPost({
+        authorId: testUserId,
+        title: 'Rust & <Friends>',
+        content:
+          '<p>Ownership makes <b>Rust</b> safe.</p>' +
+          '<img src="x" onerror="alert(1)"> ' +
+          'c'.repeat(100),
+      });
+      await postRepository.save(htmlPost);
+
+      const [hit] = await postRepository.searchFullTextRanked('rust');
+      const markup = /<(?!\/?mark>)/;
+
+      expect(hit.post.id).toBe(htmlPost.id);
+      expect(hit.titleHighlight).toBe(
+        '<mark>Rust</mark> &amp; &lt;Friends&gt;'
+      );
+      expect(hit.snippet).toContain('<mark>Rust</mark>');
+      expect(hit.snippet).not.toMatch(markup);
+      expect(hit.snippet).not.toContain('onerror');
+      expect(await postRepository.searchFullTextRanked('onerror')).toHaveLength(
+        0
+      );
+    });
+
+    it('should filter by published date', async () => {
+      const hits = await postRepository.searchFullTextRanked('typescript', {
+        publishedTo: new Date(Date.now() - 24 * 60 * 60 * 1000),
+      });
+      expect(hits).toHaveLength(0);
+    });
+  });
+
   describe('slugExists', () => {
     it('should return false for non-existent slug', async () => {
       const exists = await postRepository.slugExists('non-existent-slug');
@@ -441,6 +528,47 @@ describe('PostgresPostRepository', () => {
     });
   });
 
+  describe('findTrendingScored', () => {
+    it('should rank recent engagement and count unique non-bot views', async () => {
+      const liked = createTestPublishedPost({ authorId: testUserId });
+      const viewed = createTestPublishedPost({ authorId: testUserId });
+      const quiet = createTestPublishedPost({ authorId: testUserId });
+      for (const post of [liked, viewed, quiet]) {
+        await postRepository.save(post);
+      }
+
+      await db
+        .insertInto('likes')
+        .values({ user_id: testUserId, post_id: liked.id })
+        .execute();
+
+      const sessionId = '00000000-0000-4000-8000-000000000001';
+      await db
+        .insertInto('post_views')
+        .values([
+          { post_id: viewed.id, session_id: sessionId },
+          {
+            post_id: viewed.id,
+            session_id: '00000000-0000-4000-8000-000000000002',
+            is_bot: true,
+          },
+        ])
+        .execute();
+
+      await postRepository.refreshTrendingScores();
+      const trending = await postRepository.findTrendingScored({
+        period: 'day',
+        limit: 10,
+      });
+
+      // A like outweighs a single view; posts without activity are not scored
+      expect(trending.map((hit) => hit.post.id)).toEqual([liked.id, viewed.id]);
+      expect(trending[0].likes).toBe(1);
+      expect(trending[1].uniqueViews).toBe(1);
+      expect(trending[0].score).toBeGreaterThan(trending[1].score);
+    });
+  });
+
   describe('findRelated', () => {
     it('should find related posts by same author', async () => {
       const post1 = createTestPublishedPost({ authorId: testUserId });
@@ -462,4 +590,132 @@ describe('PostgresPostRepository', () => {
       expect(related).toEqual([]);
     });
   });
+
+  describe('findRelatedScored', () => {
+    it('should rank posts sharing tags above unrelated posts', async () => {
+      const otherUser = createTestUser({
+        email: 'other@example.com',
+        username: 'other',
+      });
+      await userRepository.save(otherUser);
+
+      const source = createTestPublishedPost({ authorId: testUserId });
+      const sharesTag = createTestPublishedPost({ authorId: otherUser.id });
+      const sameAuthor = createTestPublishedPost({ authorId: testUserId });
+      const unrelated = createTestPublishedPost({ authorId: otherUser.id });
+      for (const post of [source, sharesTag, sameAuthor, unrelated]) {
+        await postRepository.save(post);
+      }
+
+      const tag = await db
+        .insertInto('tags')
+        .values({ name: 'kysely', slug: 'kysely' })
+        .returning('id')
+        .executeTakeFirstOrThrow();
+      await db
+        .insertInto('post_tags')
+        .values([
+          { post_id: source.id, tag_id: tag.id },
+          { post_id: sharesTag.id, tag_id: tag.id },
+        ])
+        .execute();
+
+      const related = await postRepository.findRelatedScored(source.id, {
+        limit: 5,
+      });
+
+      // unrelated shares nothing with source, so it is not a candidate
+      expect(related.map((hit) => hit.post.id)).toEqual([
+        sharesTag.id,
+        sameAuthor.id,
+      ]);
+      expect(related[0].signals.tagOverlap).toBe(1);
+      expect(related[1].signals.sameAuthor).toBe(true);
+      expect(related[0].score).toBeGreaterThan(related[1].score);
+    });
+  });
+
+  describe('searchSemantic', () => {
+    /** Unit vector along the first axis, tilted towards the second */
+    const embedding = (tilt: number): number[] => {
+      const values = new Array<number>(1536).fill(0);
+      values[0] = 1;
+      values[1] = tilt;
+      return values;
+    };
+    const query = embedding(0);
+
+    beforeAll(async () => {
+      // ivfflat lists are trained on the rows present when the index is
+      // built (none here); search these few rows exactly instead
+      await sql`DROP INDEX IF EXISTS idx_posts_embedding`.execute(db);
+    });
+
+    it('should order embedded public posts by similarity', async () => {
+      const close = createTestPublishedPost({ authorId: testUserId });
+      const far = createTestPublishedPost({ authorId: testUserId });
+      const notEmbedded = createTestPublishedPost({ authorId: testUserId });
+      const privatePost = createTestPost({
+        authorId: testUserId,
+        status: PostStatus.PUBLISHED,
+        visibility: PostVisibility.PRIVATE,
+      });
+      privatePost.publish();
+      for (const post of [close, far, notEmbedded, privatePost]) {
+        await postRepository.save(post);
+      }
+      await postRepository.updateEmbedding(close.id, embedding(0.1));
+      await postRepository.updateEmbedding(far.id, embedding(1));
+      await postRepository.updateEmbedding(privatePost.id, embedding(0));
+
+      const hits = await postRepository.searchSemantic(query);
+
+      expect(hits.map((hit) => hit.post.id)).toEqual([close.id, far.id]);
+      expect(hits[0].similarity).toBeCloseTo(1 / Math.sqrt(1.01), 5);
+      expect(hits[1].similarity).toBeCloseTo(1 / Math.sqrt(2), 5);
+    });
+
+    it('should page with the similarity cursor, ties broken by id', async () => {
+      const posts = Array.from({ length: 3 }, () =>
+        createTestPublishedPost({ authorId: testUserId })
+      );
+      for (const post of posts) {
+        await postRepository.save(post);
+      }
+      await postRepository.updateEmbedding(posts[0].id, embedding(0.2));
+      await postRepository.updateEmbedding(posts[1].id, embedding(0.2));
+      await postRepository.updateEmbedding(posts[2].id, embedding(0.5));
+
+      const all = await postRepository.searchSemantic(query);
+      const paged: string[] = [];
+      let cursor: { rank: number; id: string } | undefined;
+      for (let page = 0; page < 4; page++) {
+        const [hit] = await postRepository.searchSemantic(query, {
+          limit: 1,
+          cursor,
+        });
+        if (!hit) break;
+        paged.push(hit.post.id);
+        cursor = { rank: hit.similarity, id: hit.post.id };
+      }
+
+      expect(all).toHaveLength(3);
+      expect(paged).toEqual(all.map((hit) => hit.post.id));
+      // The tied pair comes first, higher id first
+      expect([paged[0], paged[1]]).toEqual(
+        [posts[0].id, posts[1].id].sort().reverse()
+      );
+    });
+
+    it('should drop a post whose embedding was cleared', async () => {
+      const post = createTestPublishedPost({ authorId: testUserId });
+      await postRepository.save(post);
+      await postRepository.updateEmbedding(post.id, embedding(0));
+      expect(await postRepository.searchSemantic(query)).toHaveLength(1);
+
+      await postRepository.updateEmbedding(post.id, null);
+
+      expect(await postRepository.searchSemantic(query)).toHaveLength(0);
+    });
+  });
 });
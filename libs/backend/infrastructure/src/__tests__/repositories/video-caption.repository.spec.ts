@@ -0,0 +1,136 @@
+/**
+ * Video Caption Repository Integration Tests
+ *
+ * Tests PostgresVideoCaptionRepository with real database operations.
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import { Kysely } from 'kysely';
+import type { Database } from '../../database/types.js';
+import { PostgresVideoCaptionRepository } from '../../repositories/video-caption.repository.js';
+import { PostgresVideoRepository } from '../../repositories/video.repository.js';
+import {
+  startTestDatabase,
+  stopTestDatabase,
+  cleanDatabase,
+} from '../test-database.js';
+import { createTestVideo } from '../fixtures/index.js';
+
+describe('PostgresVideoCaptionRepository', () => {
+  let db: Kysely<Database>;
+  let captionRepository: PostgresVideoCaptionRepository;
+  let videoId: string;
+
+  beforeAll(async () => {
+    const result = await startTestDatabase();
+    db = result.db;
+    captionRepository = new PostgresVideoCaptionRepository(db);
+  }, 60000);
+
+  afterAll(async () => {
+    await stopTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(db);
+
+    const video = createTestVideo();
+    await new PostgresVideoRepository(db).save(video);
+    videoId = video.id;
+  });
+
+  it('should create a caption and find it by language', async () => {
+    await captionRepository.upsert({
+      videoId,
+      language: 'en',
+      label: 'English',
+      isDefault: true,
+      sourceFormat: 'vtt',
+      isGenerated: false,
+    });
+
+    const found = await captionRepository.findByLanguage(videoId, 'en');
+
+    expect(found).toMatchObject({
+      videoId,
+      language: 'en',
+      label: 'English',
+      isDefault: true,
+      sourceFormat: 'vtt',
+      isGenerated: false,
+    });
+  });
+
+  it('should replace the caption of a language', async () => {
+    const created = await captionRepository.upsert({
+      videoId,
+      language: 'en',
+      label: 'English',
+      isDefault: false,
+      sourceFormat: 'vtt',
+      isGenerated: false,
+    });
+
+    const replaced = await captionRepository.upsert({
+      videoId,
+      language: 'en',
+      label: 'English (CC)',
+      isDefault: false,
+      sourceFormat: 'srt',
+      isGenerated: false,
+    });
+
+    expect(replaced.id).toBe(created.id);
+    expect(replaced.label).toBe('English (CC)');
+    expect(replaced.sourceFormat).toBe('srt');
+    expect(await captionRepository.findByVideoId(videoId)).toHaveLength(1);
+  });
+
+  it('should keep a single default caption', async () => {
+    await captionRepository.upsert({
+      videoId,
+      language: 'en',
+      label: 'English',
+      isDefault: true,
+      sourceFormat: 'vtt',
+      isGenerated: false,
+    });
+    await captionRepository.upsert({
+      videoId,
+      language: 'fr',
+      label: 'Français',
+      isDefault: true,
+      sourceFormat: 'vtt',
+      isGenerated: false,
+    });
+
+    const captions = await captionRepository.findByVideoId(videoId);
+
+    expect(captions.map((c) => [c.language, c.isDefault])).toEqual([
+      ['fr', true],
+      ['en', false],
+    ]);
+  });
+
+  it('should delete a caption', async () => {
+    await captionRepository.upsert({
+      videoId,
+      language: 'en',
+      label: 'English',
+      isDefault: false,
+      sourceFormat: 'vtt',
+      isGenerated: false,
+    });
+
+    expect(await captionRepository.delete(videoId, 'en')).toBe(true);
+    expect(await captionRepository.delete(videoId, 'en')).toBe(false);
+    expect(await captionRepository.findByLanguage(videoId, 'en')).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Video Chapter Repository Integration Tests
+ *
+ * Tests PostgresVideoChapterRepository with real database operations.
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import { Kysely } from 'kysely';
+import type { Database } from '../../database/types.js';
+import { PostgresVideoChapterRepository } from '../../repositories/video-chapter.repository.js';
+import { PostgresVideoRepository } from '../../repositories/video.repository.js';
+import {
+  startTestDatabase,
+  stopTestDatabase,
+  cleanDatabase,
+} from '../test-database.js';
+import { createTestVideo } from '../fixtures/index.js';
+
+describe('PostgresVideoChapterRepository', () => {
+  let db: Kysely<Database>;
+  let chapterRepository: PostgresVideoChapterRepository;
+  let videoId: string;
+
+  beforeAll(async () => {
+    const result = await startTestDatabase();
+    db = result.db;
+    chapterRepository = new PostgresVideoChapterRepository(db);
+  }, 60000);
+
+  afterAll(async () => {
+    await stopTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(db);
+
+    const video = createTestVideo();
+    await new PostgresVideoRepository(db).save(video);
+    videoId = video.id;
+  });
+
+  it('should return no chapters for a video without any', async () => {
+    expect(await chapterRepository.findByVideoId(videoId)).toEqual([]);
+  });
+
+  it('should save chapters and return them by start time', async () => {
+    await chapterRepository.replace(videoId, [
+      { startTime: 90, title: 'Setup' },
+      { startTime: 0, title: 'Intro' },
+    ]);
+
+    expect(await chapterRepository.findByVideoId(videoId)).toEqual([
+      { startTime: 0, title: 'Intro' },
+      { startTime: 90, title: 'Setup' },
+    ]);
+  });
+
+  it('should replace the existing chapters', async () => {
+    await chapterRepository.replace(videoId, [
+      { startTime: 0, title: 'Intro' },
+      { startTime: 90, title: 'Setup' },
+    ]);
+    await chapterRepository.replace(videoId, [
+      { startTime: 0, title: 'Start' },
+    ]);
+
+    expect(await chapterRepository.findByVideoId(videoId)).toEqual([
+      { startTime: 0, title: 'Start' },
+    ]);
+  });
+
+  it('should remove all chapters when replaced with none', async () => {
+    await chapterRepository.replace(videoId, [
+      { startTime: 0, title: 'Intro' },
+    ]);
+    await chapterRepository.replace(videoId, []);
+
+    expect(await chapterRepository.findByVideoId(videoId)).toEqual([]);
+  });
+});
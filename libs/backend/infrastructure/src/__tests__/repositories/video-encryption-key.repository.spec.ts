@@ -0,0 +1,82 @@
+/**
+ * Video Encryption Key Repository Integration Tests
+ *
+ * Tests PostgresVideoEncryptionKeyRepository with real database operations.
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import { randomBytes } from 'crypto';
+import { Kysely } from 'kysely';
+import type { Database } from '../../database/types.js';
+import { PostgresVideoEncryptionKeyRepository } from '../../repositories/video-encryption-key.repository.js';
+import { PostgresVideoRepository } from '../../repositories/video.repository.js';
+import {
+  startTestDatabase,
+  stopTestDatabase,
+  cleanDatabase,
+} from '../test-database.js';
+import { createTestVideo } from '../fixtures/index.js';
+
+describe('PostgresVideoEncryptionKeyRepository', () => {
+  let db: Kysely<Database>;
+  let keyRepository: PostgresVideoEncryptionKeyRepository;
+  let videoId: string;
+
+  beforeAll(async () => {
+    const result = await startTestDatabase();
+    db = result.db;
+    keyRepository = new PostgresVideoEncryptionKeyRepository(db);
+  }, 60000);
+
+  afterAll(async () => {
+    await stopTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(db);
+
+    const video = createTestVideo();
+    await new PostgresVideoRepository(db).save(video);
+    videoId = video.id;
+  });
+
+  it('should return no key for a video without any', async () => {
+    expect(await keyRepository.findLatest(videoId)).toBeNull();
+  });
+
+  it('should store the first key as version 1', async () => {
+    const key = randomBytes(16);
+
+    const created = await keyRepository.create(videoId, key);
+
+    expect(created.version).toBe(1);
+    expect(created.key.equals(key)).toBe(true);
+  });
+
+  it('should keep earlier versions when a new key is created', async () => {
+    const first = randomBytes(16);
+    const second = randomBytes(16);
+    await keyRepository.create(videoId, first);
+    await keyRepository.create(videoId, second);
+
+    const latest = await keyRepository.findLatest(videoId);
+    const previous = await keyRepository.findByVersion(videoId, 1);
+
+    expect(latest?.version).toBe(2);
+    expect(latest?.key.equals(second)).toBe(true);
+    expect(previous?.key.equals(first)).toBe(true);
+  });
+
+  it('should return null for an unknown version', async () => {
+    await keyRepository.create(videoId, randomBytes(16));
+
+    expect(await keyRepository.findByVersion(videoId, 5)).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Video Loudness Repository Integration Tests
+ *
+ * Tests PostgresVideoLoudnessRepository with real database operations.
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import { Kysely } from 'kysely';
+import type { Database } from '../../database/types.js';
+import { PostgresVideoLoudnessRepository } from '../../repositories/video-loudness.repository.js';
+import { PostgresVideoRepository } from '../../repositories/video.repository.js';
+import {
+  startTestDatabase,
+  stopTestDatabase,
+  cleanDatabase,
+} from '../test-database.js';
+import { createTestVideo } from '../fixtures/index.js';
+
+describe('PostgresVideoLoudnessRepository', () => {
+  let db: Kysely<Database>;
+  let loudnessRepository: PostgresVideoLoudnessRepository;
+  let videoId: string;
+
+  beforeAll(async () => {
+    const result = await startTestDatabase();
+    db = result.db;
+    loudnessRepository = new PostgresVideoLoudnessRepository(db);
+  }, 60000);
+
+  afterAll(async () => {
+    await stopTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(db);
+
+    const video = createTestVideo();
+    await new PostgresVideoRepository(db).save(video);
+    videoId = video.id;
+  });
+
+  it('should return null for a video not measured', async () => {
+    expect(await loudnessRepository.findByVideoId(videoId)).toBeNull();
+  });
+
+  it('should store the loudness and find it by video', async () => {
+    await loudnessRepository.upsert(videoId, {
+      integratedLufs: -23.5,
+      truePeakDbtp: -4.25,
+      loudnessRangeLu: 7.5,
+      targetLufs: -16,
+    });
+
+    expect(await loudnessRepository.findByVideoId(videoId)).toEqual({
+      integratedLufs: -23.5,
+      truePeakDbtp: -4.25,
+      loudnessRangeLu: 7.5,
+      targetLufs: -16,
+    });
+  });
+
+  it('should replace an earlier measurement', async () => {
+    await loudnessRepository.upsert(videoId, {
+      integratedLufs: -23.5,
+      truePeakDbtp: -4.25,
+      loudnessRangeLu: 7.5,
+      targetLufs: -16,
+    });
+    await loudnessRepository.upsert(videoId, {
+      integratedLufs: -12,
+      truePeakDbtp: 0.5,
+      loudnessRangeLu: 3,
+      targetLufs: -14,
+    });
+
+    const found = await loudnessRepository.findByVideoId(videoId);
+
+    expect(found?.integratedLufs).toBe(-12);
+    expect(found?.targetLufs).toBe(-14);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Video Thumbnail Candidate Repository Integration Tests
+ *
+ * Tests PostgresVideoThumbnailCandidateRepository with real database operations.
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import { Kysely } from 'kysely';
+import type { Database } from '../../database/types.js';
+import { PostgresVideoThumbnailCandidateRepository } from '../../repositories/video-thumbnail-candidate.repository.js';
+import { PostgresVideoRepository } from '../../repositories/video.repository.js';
+import {
+  startTestDatabase,
+  stopTestDatabase,
+  cleanDatabase,
+} from '../test-database.js';
+import { createTestVideo } from '../fixtures/index.js';
+
+describe('PostgresVideoThumbnailCandidateRepository', () => {
+  let db: Kysely<Database>;
+  let candidateRepository: PostgresVideoThumbnailCandidateRepository;
+  let videoId: string;
+
+  beforeAll(async () => {
+    const result = await startTestDatabase();
+    db = result.db;
+    candidateRepository = new PostgresVideoThumbnailCandidateRepository(db);
+  }, 60000);
+
+  afterAll(async () => {
+    await stopTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(db);
+
+    const video = createTestVideo();
+    await new PostgresVideoRepository(db).save(video);
+    videoId = video.id;
+  });
+
+  it('should return no candidates for a video without any', async () => {
+    expect(await candidateRepository.findByVideoId(videoId)).toEqual([]);
+  });
+
+  it('should save candidates and return them in video order', async () => {
+    await candidateRepository.replace(videoId, [
+      {
+        storageKey: `${videoId}/candidates/candidate_02.jpg`,
+        time: 20,
+        score: 4.5,
+      },
+      {
+        storageKey: `${videoId}/candidates/candidate_01.jpg`,
+        time: 10,
+        score: 7.25,
+      },
+    ]);
+
+    const candidates = await candidateRepository.findByVideoId(videoId);
+
+    expect(candidates.map((c) => [c.time, c.score])).toEqual([
+      [10, 7.25],
+      [20, 4.5],
+    ]);
+    expect(candidates[0].videoId).toBe(videoId);
+  });
+
+  it('should find a candidate by id', async () => {
+    await candidateRepository.replace(videoId, [
+      {
+        storageKey: `${videoId}/candidates/candidate_01.jpg`,
+        time: 10,
+        score: 3,
+      },
+    ]);
+    const [candidate] = await candidateRepository.findByVideoId(videoId);
+
+    const found = await candidateRepository.findById(candidate.id);
+
+    expect(found?.storageKey).toBe(`${videoId}/candidates/candidate_01.jpg`);
+  });
+
+  it('should replace the existing candidates', async () => {
+    await candidateRepository.replace(videoId, [
+      {
+        storageKey: `${videoId}/candidates/candidate_01.jpg`,
+        time: 10,
+        score: 3,
+      },
+      {
+        storageKey: `${videoId}/candidates/candidate_02.jpg`,
+        time: 20,
+        score: 5,
+      },
+    ]);
+    await candidateRepository.replace(videoId, [
+      {
+        storageKey: `${videoId}/candidates/candidate_01.jpg`,
+        time: 12,
+        score: 6,
+      },
+    ]);
+
+    const candidates = await candidateRepository.findByVideoId(videoId);
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].time).toBe(12);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Video Transcript Repository Integration Tests
+ *
+ * Tests PostgresVideoTranscriptRepository with real database operations.
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import { Kysely } from 'kysely';
+import type { Database } from '../../database/types.js';
+import { PostgresVideoTranscriptRepository } from '../../repositories/video-transcript.repository.js';
+import { PostgresVideoRepository } from '../../repositories/video.repository.js';
+import {
+  startTestDatabase,
+  stopTestDatabase,
+  cleanDatabase,
+} from '../test-database.js';
+import { createTestVideo } from '../fixtures/index.js';
+
+describe('PostgresVideoTranscriptRepository', () => {
+  let db: Kysely<Database>;
+  let transcriptRepository: PostgresVideoTranscriptRepository;
+  let videoId: string;
+
+  beforeAll(async () => {
+    const result = await startTestDatabase();
+    db = result.db;
+    transcriptRepository = new PostgresVideoTranscriptRepository(db);
+  }, 60000);
+
+  afterAll(async () => {
+    await stopTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(db);
+
+    const video = createTestVideo();
+    await new PostgresVideoRepository(db).save(video);
+    videoId = video.id;
+  });
+
+  it('should create a transcript and find it by video', async () => {
+    await transcriptRepository.upsert({
+      videoId,
+      language: 'en',
+      text: 'Welcome to this video about encoding.',
+      model: 'fixture',
+    });
+
+    const found = await transcriptRepository.findByVideoId(videoId);
+
+    expect(found).toMatchObject({
+      videoId,
+      language: 'en',
+      text: 'Welcome to this video about encoding.',
+      model: 'fixture',
+    });
+  });
+
+  it('should replace the transcript of a video', async () => {
+    await transcriptRepository.upsert({
+      videoId,
+      language: 'en',
+      text: 'First attempt',
+      model: 'fixture',
+    });
+    await transcriptRepository.upsert({
+      videoId,
+      language: 'de',
+      text: 'Zweiter Versuch',
+      model: 'whisper.cpp:ggml-base.bin',
+    });
+
+    const found = await transcriptRepository.findByVideoId(videoId);
+
+    expect(found).toMatchObject({
+      language: 'de',
+      text: 'Zweiter Versuch',
+      model: 'whisper.cpp:ggml-base.bin',
+    });
+  });
+
+  it('should return null for a video without transcript', async () => {
+    expect(await transcriptRepository.findByVideoId(videoId)).toBeNull();
+  });
+
+  it('should be deleted with its video', async () => {
+    await transcriptRepository.upsert({
+      videoId,
+      language: 'en',
+      text: 'Gone soon',
+      model: 'fixture',
+    });
+
+    await db.deleteFrom('videos').where('id', '=', videoId).execute();
+
+    expect(await transcriptRepository.findByVideoId(videoId)).toBeNull();
+  });
+});
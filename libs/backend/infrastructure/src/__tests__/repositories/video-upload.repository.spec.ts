@@ -0,0 +1,110 @@
+/**
+ * Video Upload Repository Integration Tests
+ *
+ * Tests PostgresVideoUploadRepository with real database operations.
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import { Kysely, sql } from 'kysely';
+import type { Database } from '../../database/types.js';
+import { PostgresVideoUploadRepository } from '../../repositories/video-upload.repository.js';
+import { PostgresVideoRepository } from '../../repositories/video.repository.js';
+import { PostgresUserRepository } from '../../repositories/user.repository.js';
+import {
+  startTestDatabase,
+  stopTestDatabase,
+  cleanDatabase,
+} from '../test-database.js';
+import { createTestUser, createTestVideo } from '../fixtures/index.js';
+
+describe('PostgresVideoUploadRepository', () => {
+  let db: Kysely<Database>;
+  let videoUploadRepository: PostgresVideoUploadRepository;
+  let videoRepository: PostgresVideoRepository;
+  let userId: string;
+
+  beforeAll(async () => {
+    const result = await startTestDatabase();
+    db = result.db;
+    videoUploadRepository = new PostgresVideoUploadRepository(db);
+    videoRepository = new PostgresVideoRepository(db);
+  }, 60000);
+
+  afterAll(async () => {
+    await stopTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(db);
+
+    const user = createTestUser({
+      email: 'uploader@example.com',
+      username: 'uploader',
+    });
+    await new PostgresUserRepository(db).save(user);
+    userId = user.id;
+  });
+
+  const createUpload = async () => {
+    const video = createTestVideo();
+    await videoRepository.save(video);
+    return videoUploadRepository.create({
+      videoId: video.id,
+      userId,
+      uploadId: `upload-${video.id}`,
+      bucket: 'videos-raw',
+      key: `${video.id}.mp4`,
+      partSize: 16 * 1024 * 1024,
+      partCount: 3,
+    });
+  };
+
+  it('should create and find an upload by video id', async () => {
+    const upload = await createUpload();
+
+    const found = await videoUploadRepository.findByVideoId(upload.videoId);
+
+    expect(found).toMatchObject({
+      videoId: upload.videoId,
+      userId,
+      key: `${upload.videoId}.mp4`,
+      partCount: 3,
+    });
+  });
+
+  it('should only find uploads older than the cutoff, oldest first', async () => {
+    const recent = await createUpload();
+    const stale = await createUpload();
+    await sql`UPDATE video_multipart_uploads SET created_at = NOW() - INTERVAL '2 days' WHERE video_id = ${stale.videoId}`.execute(
+      db
+    );
+
+    const found = await videoUploadRepository.findStale(
+      new Date(Date.now() - 24 * 60 * 60 * 1000),
+      10
+    );
+
+    expect(found.map((u) => u.videoId)).toEqual([stale.videoId]);
+    expect(found.map((u) => u.videoId)).not.toContain(recent.videoId);
+  });
+
+  it('should delete an upload, and go away with its video', async () => {
+    const deleted = await createUpload();
+    const withVideo = await createUpload();
+
+    expect(await videoUploadRepository.delete(deleted.videoId)).toBe(true);
+    expect(await videoUploadRepository.delete(deleted.videoId)).toBe(false);
+
+    await videoRepository.hardDelete(withVideo.videoId);
+    expect(
+      await videoUploadRepository.findByVideoId(withVideo.videoId)
+    ).toBeNull();
+  });
+});
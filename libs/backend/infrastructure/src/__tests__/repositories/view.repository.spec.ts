@@ -0,0 +1,98 @@
+/**
+ * View Repository Integration Tests
+ *
+ * Tests PostgresViewRepository with real database operations.
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import { Kysely } from 'kysely';
+import type { Database } from '../../database/types.js';
+import { PostgresViewRepository } from '../../repositories/view.repository.js';
+import { PostgresPostRepository } from '../../repositories/post.repository.js';
+import { PostgresUserRepository } from '../../repositories/user.repository.js';
+import {
+  startTestDatabase,
+  stopTestDatabase,
+  cleanDatabase,
+} from '../test-database.js';
+import {
+  createTestUser,
+  createTestPublishedPost,
+  resetPostCounter,
+} from '../fixtures/index.js';
+
+const SESSION_A = '00000000-0000-4000-8000-00000000000a';
+const SESSION_B = '00000000-0000-4000-8000-00000000000b';
+
+describe('PostgresViewRepository', () => {
+  let db: Kysely<Database>;
+  let viewRepository: PostgresViewRepository;
+  let postRepository: PostgresPostRepository;
+  let postId: string;
+
+  beforeAll(async () => {
+    const result = await startTestDatabase();
+    db = result.db;
+    viewRepository = new PostgresViewRepository(db);
+    postRepository = new PostgresPostRepository(db);
+  }, 60000);
+
+  afterAll(async () => {
+    await stopTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(db);
+    resetPostCounter();
+
+    const author = createTestUser({
+      email: 'author@example.com',
+      username: 'author',
+    });
+    await new PostgresUserRepository(db).save(author);
+
+    const post = createTestPublishedPost({ authorId: author.id });
+    await postRepository.save(post);
+    postId = post.id;
+  });
+
+  describe('recordPostView', () => {
+    it('should record a session once per day', async () => {
+      const view = { postId, sessionId: SESSION_A, isBot: false };
+
+      expect(await viewRepository.recordPostView(view)).toBe(true);
+      expect(await viewRepository.recordPostView(view)).toBe(false);
+      expect(
+        await viewRepository.recordPostView({ ...view, sessionId: SESSION_B })
+      ).toBe(true);
+    });
+  });
+
+  describe('syncPostViewCounts', () => {
+    it('should add uncounted non-bot views to the post once', async () => {
+      await viewRepository.recordPostView({
+        postId,
+        sessionId: SESSION_A,
+        isBot: false,
+      });
+      await viewRepository.recordPostView({
+        postId,
+        sessionId: SESSION_B,
+        isBot: true,
+      });
+
+      expect(await viewRepository.syncPostViewCounts(100)).toBe(1);
+      expect(await viewRepository.syncPostViewCounts(100)).toBe(0);
+
+      const post = await postRepository.findById(postId);
+      expect(post?.toJSON().viewCount).toBe(1);
+    });
+  });
+});
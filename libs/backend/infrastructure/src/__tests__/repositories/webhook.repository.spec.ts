@@ -0,0 +1,169 @@
+/**
+ * Webhook Repository Integration Tests
+ *
+ * Tests PostgresWebhookRepository with real database operations.
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import crypto from 'crypto';
+import { Kysely } from 'kysely';
+import type { Database } from '../../database/types.js';
+import { PostgresWebhookRepository } from '../../repositories/webhook.repository.js';
+import { PostgresUserRepository } from '../../repositories/user.repository.js';
+import {
+  startTestDatabase,
+  stopTestDatabase,
+  cleanDatabase,
+} from '../test-database.js';
+import { createTestUser } from '../fixtures/index.js';
+
+describe('PostgresWebhookRepository', () => {
+  let db: Kysely<Database>;
+  let webhookRepository: PostgresWebhookRepository;
+  let userId: string;
+
+  beforeAll(async () => {
+    const result = await startTestDatabase();
+    db = result.db;
+    webhookRepository = new PostgresWebhookRepository(db);
+  }, 60000);
+
+  afterAll(async () => {
+    await stopTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(db);
+
+    const user = createTestUser({
+      email: 'creator@example.com',
+      username: 'creator',
+    });
+    await new PostgresUserRepository(db).save(user);
+    userId = user.id;
+  });
+
+  const createEndpoint = () =>
+    webhookRepository.createEndpoint({
+      userId,
+      url: 'https://example.com/hooks',
+      description: 'CI',
+      secret: 'whsec_test',
+      events: ['post.published', 'video.ready'],
+    });
+
+  it('should only find active endpoints subscribed to the event', async () => {
+    const endpoint = await createEndpoint();
+    const disabled = await createEndpoint();
+    await webhookRepository.updateEndpoint(disabled.id, { isActive: false });
+
+    const forPosts = await webhookRepository.findActiveEndpointsForEvent(
+      userId,
+      'post.published'
+    );
+    const forComments = await webhookRepository.findActiveEndpointsForEvent(
+      userId,
+      'comment.created'
+    );
+
+    expect(forPosts.map((e) => e.id)).toEqual([endpoint.id]);
+    expect(forComments).toHaveLength(0);
+    expect(await webhookRepository.countEndpointsByUserId(userId)).toBe(2);
+  });
+
+  it('should create one delivery per endpoint and event', async () => {
+    const endpoint = await createEndpoint();
+    const data = {
+      endpointId: endpoint.id,
+      eventId: crypto.randomUUID(),
+      eventName: 'post.published',
+      payload: { type: 'post.published' },
+    };
+
+    const delivery = await webhookRepository.createDelivery(data);
+    const duplicate = await webhookRepository.createDelivery(data);
+    const replay = await webhookRepository.createDelivery({
+      ...data,
+      replayOf: delivery?.id,
+    });
+
+    expect(delivery?.status).toBe('pending');
+    expect(delivery?.payload).toEqual({ type: 'post.published' });
+    expect(duplicate).toBeNull();
+    expect(replay?.replayOf).toBe(delivery?.id);
+  });
+
+  it('should record attempts', async () => {
+    const endpoint = await createEndpoint();
+    const delivery = await webhookRepository.createDelivery({
+      endpointId: endpoint.id,
+      eventId: crypto.randomUUID(),
+      eventName: 'webhook.test',
+      payload: {},
+      isTest: true,
+    });
+
+    const deliveryId = delivery?.id as string;
+    await webhookRepository.recordAttempt(deliveryId, {
+      status: 'succeeded',
+      responseStatus: 200,
+      responseBody: 'ok',
+      error: null,
+      durationMs: 42,
+    });
+    const updated = await webhookRepository.findDeliveryById(deliveryId);
+
+    expect(updated?.status).toBe('succeeded');
+    expect(updated?.attempts).toBe(1);
+    expect(updated?.responseStatus).toBe(200);
+    expect(updated?.lastAttemptAt).toBeInstanceOf(Date);
+  });
+
+  it('should page deliveries with a (createdAt, id) cursor', async () => {
+    const endpoint = await createEndpoint();
+    for (let i = 0; i < 3; i++) {
+      await webhookRepository.createDelivery({
+        endpointId: endpoint.id,
+        eventId: crypto.randomUUID(),
+        eventName: 'video.ready',
+        payload: {},
+      });
+    }
+
+    const firstPage = await webhookRepository.findDeliveriesByEndpointId(
+      endpoint.id,
+      { limit: 2 }
+    );
+    const last = firstPage[firstPage.length - 1];
+    const secondPage = await webhookRepository.findDeliveriesByEndpointId(
+      endpoint.id,
+      { limit: 2, cursor: { createdAt: last.createdAt, id: last.id } }
+    );
+
+    expect(firstPage).toHaveLength(2);
+    expect(secondPage).toHaveLength(1);
+    expect(firstPage.map((d) => d.id)).not.toContain(secondPage[0].id);
+  });
+
+  it('should delete the delivery log with the endpoint', async () => {
+    const endpoint = await createEndpoint();
+    const delivery = await webhookRepository.createDelivery({
+      endpointId: endpoint.id,
+      eventId: crypto.randomUUID(),
+      eventName: 'post.published',
+      payload: {},
+    });
+
+    expect(await webhookRepository.deleteEndpoint(endpoint.id)).toBe(true);
+    expect(
+      await webhookRepository.findDeliveryById(delivery?.id as string)
+    ).toBeNull();
+  });
+});
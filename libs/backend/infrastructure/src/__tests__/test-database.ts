@@ -8,11 +8,12 @@ import {
   PostgreSqlContainer,
   type StartedPostgreSqlContainer,
 } from '@testcontainers/postgresql';
-import { Kysely, PostgresDialect } from 'kysely';
+import type { Kysely } from 'kysely';
 import pg from 'pg';
 import fs from 'fs';
 import path from 'path';
 import type { Database } from '../database/types.js';
+import { createKyselyInstance } from '../database/connection.js';
 
 const { Pool } = pg;
 
@@ -26,8 +27,8 @@ export async function startTestDatabase(): Promise<{
   db: Kysely<Database>;
   container: StartedPostgreSqlContainer;
 }> {
-  // Start PostgreSQL container
-  container = await new PostgreSqlContainer('postgres:15-alpine')
+  // Start PostgreSQL container (with pgvector, as in docker-compose)
+  container = await new PostgreSqlContainer('pgvector/pgvector:pg17')
     .withDatabase('test_db')
     .withUsername('test')
     .withPassword('test')
@@ -42,10 +43,8 @@ export async function startTestDatabase(): Promise<{
     password: container.getPassword(),
   });
 
-  // Create Kysely instance
-  testDb = new Kysely<Database>({
-    dialect: new PostgresDialect({ pool }),
-  });
+  // Create Kysely instance (CamelCasePlugin, as in production)
+  testDb = createKyselyInstance(pool);
 
   // Run migrations
   await runMigrations(pool);
@@ -62,6 +61,36 @@ async function runMigrations(pool: pg.Pool): Promise<void> {
     'database/migrations/001_initial_schema.sql',
     'database/migrations/002_security_tokens.sql',
     'database/migrations/003_follows.sql',
+    'database/migrations/004_video_qualities_tracking.sql',
+    'database/migrations/005_add_updated_at_to_videos.sql',
+    'database/migrations/006_add_uploaded_status.sql',
+    'database/migrations/007_video_soft_delete.sql',
+    'database/migrations/008_comment_likes.sql',
+    'database/migrations/009_post_likes_trigger.sql',
+    'database/migrations/010_post_comments_trigger.sql',
+    'database/migrations/011_fix_comment_count_trigger.sql',
+    'database/migrations/012_bookmark_count_triggers.sql',
+    'database/migrations/013_add_bookmark_fields.sql',
+    'database/migrations/014_search_queries_hybrid.sql',
+    'database/migrations/015_post_chunks.sql',
+    'database/migrations/016_post_trending_scores.sql',
+    'database/migrations/017_view_tracking.sql',
+    'database/migrations/018_outbox_events.sql',
+    'database/migrations/019_notifications.sql',
+    'database/migrations/020_notification_preferences.sql',
+    'database/migrations/021_webhooks.sql',
+    'database/migrations/022_video_multipart_uploads.sql',
+    'database/migrations/023_video_captions.sql',
+    'database/migrations/024_video_transcripts.sql',
+    'database/migrations/025_video_chapters.sql',
+    'database/migrations/026_video_thumbnail_sprites.sql',
+    'database/migrations/027_video_thumbnail_candidates.sql',
+    'database/migrations/028_video_encryption_keys.sql',
+    'database/migrations/029_video_quality_ladder.sql',
+    'database/migrations/030_video_dash_manifest.sql',
+    'database/migrations/031_video_loudness.sql',
+    'database/migrations/032_post_search_plain_text.sql',
+    'database/migrations/033_video_view_quality.sql',
   ];
 
   for (const migrationFile of migrationFiles) {
@@ -70,22 +99,17 @@ async function runMigrations(pool: pg.Pool): Promise<void> {
     if (fs.existsSync(migrationPath)) {
       const migration = fs.readFileSync(migrationPath, 'utf-8');
 
-      // Split by semicolons and execute each statement
-      const statements = migration
-        .split(';')
-        .map((s) => s.trim())
-        .filter((s) => s.length > 0 && !s.startsWith('--'));
+      // Split by semicolons and execute each statement (comment lines are
+      // stripped first, and semicolons in $$-quoted function bodies kept)
+      const statements = splitStatements(
+        migration
+          .split('\n')
+          .filter((line) => !line.trim().startsWith('--'))
+          .join('\n')
+      );
 
       for (const statement of statements) {
         try {
-          // Skip extension creation (may not be available in test container)
-          if (statement.includes('CREATE EXTENSION')) {
-            continue;
-          }
-          // Skip vector-related statements
-          if (statement.includes('vector') || statement.includes('ivfflat')) {
-            continue;
-          }
           await pool.query(statement);
         } catch (error) {
           // Ignore errors for optional features
@@ -100,6 +124,29 @@ async function runMigrations(pool: pg.Pool): Promise<void> {
   }
 }
 
+/**
+ * Split a migration into statements on semicolons outside $$ quotes
+ */
+function splitStatements(migration: string): string[] {
+  return migration
+    .split('$$')
+    .reduce<string[]>(
+      (statements, part, index) => {
+        if (index % 2 === 1) {
+          // Inside $$ ... $$: part of the current statement
+          statements[statements.length - 1] += `$$${part}$$`;
+          return statements;
+        }
+        const [first, ...rest] = part.split(';');
+        statements[statements.length - 1] += first;
+        return [...statements, ...rest];
+      },
+      ['']
+    )
+    .map((statement) => statement.trim())
+    .filter((statement) => statement.length > 0);
+}
+
 /**
  * Stop the test database
  */
@@ -131,6 +178,12 @@ export function getTestDatabase(): Kysely<Database> {
  */
 export async function cleanDatabase(db: Kysely<Database>): Promise<void> {
   // Delete in correct order to respect foreign keys
+  await db.deleteFrom('outbox_events').execute();
+  await db.deleteFrom('notifications').execute();
+  await db.deleteFrom('notification_preferences').execute();
+  await db.deleteFrom('notification_settings').execute();
+  await db.deleteFrom('webhook_deliveries').execute();
+  await db.deleteFrom('webhook_endpoints').execute();
   await db.deleteFrom('activity_logs').execute();
   await db.deleteFrom('search_queries').execute();
   await db.deleteFrom('video_views').execute();
@@ -138,10 +191,19 @@ export async function cleanDatabase(db: Kysely<Database>): Promise<void> {
   await db.deleteFrom('sessions').execute();
   await db.deleteFrom('bookmarks').execute();
   await db.deleteFrom('bookmark_folders').execute();
+  await db.deleteFrom('comment_likes').execute();
   await db.deleteFrom('likes').execute();
   await db.deleteFrom('comments').execute();
   await db.deleteFrom('post_tags').execute();
   await db.deleteFrom('post_categories').execute();
+  await db.deleteFrom('post_chunks').execute();
+  await db.deleteFrom('video_multipart_uploads').execute();
+  await db.deleteFrom('video_captions').execute();
+  await db.deleteFrom('video_transcripts').execute();
+  await db.deleteFrom('video_chapters').execute();
+  await db.deleteFrom('video_thumbnail_candidates').execute();
+  await db.deleteFrom('video_encryption_keys').execute();
+  await db.deleteFrom('video_loudness').execute();
   await db.deleteFrom('videos').execute();
   await db.deleteFrom('posts').execute();
   await db.deleteFrom('follows').execute();
@@ -0,0 +1,74 @@
+/**
+ * Transcription Service Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import path from 'path';
+import { parseWhisperCppOutput } from '../../transcription/whisper-cpp-transcription.service.js';
+import { FixtureTranscriptionService } from '../../transcription/fixture-transcription.service.js';
+
+describe('parseWhisperCppOutput', () => {
+  it('should convert millisecond offsets to seconds and trim text', () => {
+    const result = parseWhisperCppOutput({
+      result: { language: 'en' },
+      transcription: [
+        { offsets: { from: 0, to: 2340 }, text: ' Hello and welcome.' },
+        { offsets: { from: 2340, to: 5000 }, text: ' Today we encode video.' },
+      ],
+    });
+
+    expect(result).toEqual({
+      language: 'en',
+      segments: [
+        { start: 0, end: 2.34, text: 'Hello and welcome.' },
+        { start: 2.34, end: 5, text: 'Today we encode video.' },
+      ],
+    });
+  });
+
+  it('should drop segments without speech', () => {
+    const result = parseWhisperCppOutput({
+      result: { language: 'en' },
+      transcription: [
+        { offsets: { from: 0, to: 1000 }, text: ' [BLANK_AUDIO]' },
+        { offsets: { from: 1000, to: 2000 }, text: ' (music)' },
+        { offsets: { from: 2000, to: 3000 }, text: '  ' },
+        { offsets: { from: 3000, to: 4000 }, text: ' Hi.' },
+      ],
+    });
+
+    expect(result.segments).toEqual([{ start: 3, end: 4, text: 'Hi.' }]);
+  });
+
+  it('should fall back to the requested language', () => {
+    expect(parseWhisperCppOutput({}, 'fr')).toEqual({
+      language: 'fr',
+      segments: [],
+    });
+  });
+});
+
+describe('FixtureTranscriptionService', () => {
+  it('should return the transcript from a fixture file', async () => {
+    const service = new FixtureTranscriptionService(
+      path.join(__dirname, '../fixtures/transcript.fixture.json')
+    );
+
+    const result = await service.transcribe('/any/audio.wav');
+
+    expect(result.language).toBe('de');
+    expect(result.segments).toHaveLength(2);
+    expect(result.segments[0].text).toBe('Willkommen zu diesem Video.');
+  });
+
+  it('should use the requested language', async () => {
+    const service = new FixtureTranscriptionService();
+
+    const result = await service.transcribe('/any/audio.wav', {
+      language: 'es',
+    });
+
+    expect(result.language).toBe('es');
+    expect(result.segments.length).toBeGreaterThan(0);
+  });
+});
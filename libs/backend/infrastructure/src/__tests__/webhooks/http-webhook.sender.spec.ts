@@ -0,0 +1,97 @@
+/**
+ * HTTP Webhook Sender Tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  HttpWebhookSender,
+  signWebhookPayload,
+} from '../../webhooks/http-webhook.sender.js';
+
+const request = (url: string) => ({
+  url,
+  secret: 'whsec_test',
+  deliveryId: 'delivery-1',
+  eventName: 'webhook.test',
+  body: '{}',
+});
+
+describe('signWebhookPayload', () => {
+  it('should sign the timestamp and body with the secret', () => {
+    const expected = crypto
+      .createHmac('sha256', 'whsec_test')
+      .update('1700000000.{"id":"evt"}')
+      .digest('hex');
+
+    expect(signWebhookPayload('whsec_test', '{"id":"evt"}', 1700000000)).toBe(
+      `t=1700000000,v1=${expected}`
+    );
+  });
+});
+
+describe('HttpWebhookSender', () => {
+  it.each([
+    'http://127.0.0.1/hook',
+    'http://10.1.2.3/hook',
+    'http://169.254.169.254/latest/meta-data',
+    'http://[::1]/hook',
+    'http://[::ffff:192.168.0.1]/hook',
+  ])('should refuse private network URL %s', async (url) => {
+    const response = await new HttpWebhookSender().send(request(url));
+
+    expect(response.statusCode).toBeNull();
+    expect(response.error).toBe('URL resolves to a private network address');
+  });
+
+  it('should refuse hostnames resolving to a private network address', async () => {
+    const response = await new HttpWebhookSender().send(
+      request('http://localhost:9/hook')
+    );
+
+    expect(response.statusCode).toBeNull();
+    expect(response.error).toBe('URL resolves to a private network address');
+  });
+
+  describe('delivery', () => {
+    let server: http.Server;
+    let url: string;
+    const received: http.IncomingHttpHeaders[] = [];
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        received.push(req.headers);
+        req.resume();
+        req.on('end', () => {
+          res.writeHead(200, { 'Content-Type': 'text/plain' });
+          res.end('x'.repeat(1024 * 1024));
+        });
+      });
+      await new Promise<void>((resolve) =>
+        server.listen(0, '127.0.0.1', resolve)
+      );
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should post the signed body and keep only the start of the response', async () => {
+      const sender = new HttpWebhookSender({ allowPrivateNetworks: true });
+
+      const response = await sender.send(request(url));
+
+      expect(response.error).toBeNull();
+      expect(response.statusCode).toBe(200);
+      expect(response.body).toHaveLength(2048);
+      expect(received[0]['x-webhook-delivery']).toBe('delivery-1');
+      expect(received[0]['x-webhook-signature']).toMatch(
+        /^t=\d+,v1=[0-9a-f]{64}$/
+      );
+    });
+  });
+});
@@ -0,0 +1,19 @@
+/**
+ * AI Services - Barrel Export
+ */
+
+export {
+  OllamaEmbeddingService,
+  createOllamaEmbeddingService,
+  type OllamaEmbeddingServiceConfig,
+} from './ollama-embedding.service.js';
+export {
+  LocalEmbeddingService,
+  createLocalEmbeddingService,
+} from './local-embedding.service.js';
+export {
+  OllamaLlmService,
+  createOllamaLlmService,
+  type OllamaLlmServiceConfig,
+} from './ollama-llm.service.js';
+export { LocalLlmService, createLocalLlmService } from './local-llm.service.js';
@@ -0,0 +1,64 @@
+/**
+ * Local Embedding Service (Stub)
+ *
+ * Deterministic, dependency-free embeddings for tests and offline development.
+ * Uses the hashing trick over lower-cased word tokens, so texts that share
+ * words are close in cosine space. Not a substitute for a real model.
+ */
+
+import type { IEmbeddingService } from '@blog/backend/core';
+import { EMBEDDING_DIMENSIONS } from '@blog/backend/core';
+
+export class LocalEmbeddingService implements IEmbeddingService {
+  readonly model = 'local-hashing';
+
+  constructor(private readonly dimensions: number = EMBEDDING_DIMENSIONS) {}
+
+  async embedDocument(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+    for (const token of tokens) {
+      const hash = fnv1a(token);
+      const index = hash % this.dimensions;
+      // Use a separate bit for the sign to reduce collision bias
+      vector[index] += (hash >>> 31) & 1 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create local (deterministic) embedding service
+ */
+export function createLocalEmbeddingService(
+  dimensions?: number
+): IEmbeddingService {
+  return new LocalEmbeddingService(dimensions);
+}
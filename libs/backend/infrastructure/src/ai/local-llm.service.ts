@@ -0,0 +1,47 @@
+/**
+ * Local LLM Service (Stub)
+ *
+ * Canned, deterministic answers for tests and offline development.
+ * Lists the numbered sources found in the prompt ("[1] Title") so the
+ * citation flow can be exercised end to end without a model.
+ */
+
+import type { ILlmService, LlmCompletionRequest } from '@blog/backend/core';
+
+const SOURCE_LINE = /^\[(\d+)\]\s+(.+)$/gm;
+
+export class LocalLlmService implements ILlmService {
+  readonly model = 'local-canned';
+
+  async *streamCompletion(
+    request: LlmCompletionRequest
+  ): AsyncIterable<string> {
+    const sources = [...request.prompt.matchAll(SOURCE_LINE)].map(
+      ([, index, title]) => `${title.trim()} [${index}]`
+    );
+
+    const answer =
+      sources.length > 0
+        ? `This is a canned answer from the local model. The most relevant posts are: ${sources.join(
+            '; '
+          )}.`
+        : "This is a canned answer from the local model. I couldn't find anything about that on this blog.";
+
+    // Stream word by word to mimic a real model
+    for (const token of answer.split(/(?<= )/)) {
+      if (request.signal?.aborted) return;
+      yield token;
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+}
+
+/**
+ * Create local (canned) LLM service
+ */
+export function createLocalLlmService(): ILlmService {
+  return new LocalLlmService();
+}
@@ -0,0 +1,117 @@
+/**
+ * Ollama Embedding Service Implementation
+ *
+ * Generates embeddings with a local Ollama server (POST /api/embed).
+ * Vectors shorter than the posts.embedding column (e.g. 768-dim
+ * nomic-embed-text) are zero-padded, which leaves cosine distance unchanged.
+ */
+
+import type { IEmbeddingService } from '@blog/backend/core';
+import { EMBEDDING_DIMENSIONS } from '@blog/backend/core';
+
+export interface OllamaEmbeddingServiceConfig {
+  /** Ollama base URL (e.g., 'http://localhost:11434') */
+  baseUrl: string;
+  /** Embedding model (default: 'nomic-embed-text') */
+  model?: string;
+  /** Request timeout in milliseconds (default: 30000) */
+  timeoutMs?: number;
+}
+
+interface OllamaEmbedResponse {
+  embeddings?: number[][];
+}
+
+const DEFAULT_MODEL = 'nomic-embed-text';
+const DEFAULT_TIMEOUT_MS = 30000;
+
+export class OllamaEmbeddingService implements IEmbeddingService {
+  readonly model: string;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+
+  constructor(config: OllamaEmbeddingServiceConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.model = config.model ?? DEFAULT_MODEL;
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  async embedDocument(text: string): Promise<number[]> {
+    return this.embed(this.withTaskPrefix('search_document', text));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(this.withTaskPrefix('search_query', text));
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/tags`, {
+        signal: AbortSignal.timeout(5000),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  private async embed(input: string): Promise<number[]> {
+    const response = await fetch(`${this.baseUrl}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.model, input }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(
+        `Ollama embed failed (${response.status}): ${
+          body || response.statusText
+        }`
+      );
+    }
+
+    const data = (await response.json()) as OllamaEmbedResponse;
+    const vector = data.embeddings?.[0];
+    if (!vector || vector.length === 0) {
+      throw new Error('Ollama returned an empty embedding');
+    }
+
+    return padToDimensions(vector, EMBEDDING_DIMENSIONS);
+  }
+
+  /**
+   * nomic-embed-text expects task prefixes; other models get raw text
+   */
+  private withTaskPrefix(
+    task: 'search_document' | 'search_query',
+    text: string
+  ): string {
+    return this.model.startsWith('nomic-embed-text')
+      ? `${task}: ${text}`
+      : text;
+  }
+}
+
+/**
+ * Zero-pad a vector to the target size (cosine distance is preserved)
+ */
+function padToDimensions(vector: number[], dimensions: number): number[] {
+  if (vector.length > dimensions) {
+    throw new Error(
+      `Embedding has ${vector.length} dimensions, column supports ${dimensions}`
+    );
+  }
+  if (vector.length === dimensions) return vector;
+  return [...vector, ...new Array<number>(dimensions - vector.length).fill(0)];
+}
+
+/**
+ * Create Ollama embedding service
+ */
+export function createOllamaEmbeddingService(
+  config: OllamaEmbeddingServiceConfig
+): IEmbeddingService {
+  return new OllamaEmbeddingService(config);
+}
@@ -0,0 +1,142 @@
+/**
+ * Ollama LLM Service Implementation
+ *
+ * Streams completions from a local Ollama server (POST /api/generate).
+ * Ollama streams newline-delimited JSON objects: { response, done }.
+ */
+
+import type { ILlmService, LlmCompletionRequest } from '@blog/backend/core';
+
+export interface OllamaLlmServiceConfig {
+  /** Ollama base URL (e.g., 'http://localhost:11434') */
+  baseUrl: string;
+  /** Generation model (default: 'llama3') */
+  model?: string;
+  /** Time to wait for the first byte in milliseconds (default: 60000) */
+  timeoutMs?: number;
+}
+
+interface OllamaGenerateChunk {
+  response?: string;
+  done?: boolean;
+  error?: string;
+}
+
+const DEFAULT_MODEL = 'llama3';
+const DEFAULT_TIMEOUT_MS = 60000;
+
+export class OllamaLlmService implements ILlmService {
+  readonly model: string;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+
+  constructor(config: OllamaLlmServiceConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.model = config.model ?? DEFAULT_MODEL;
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  async *streamCompletion(
+    request: LlmCompletionRequest
+  ): AsyncIterable<string> {
+    // Only the time to first byte is bounded; generation may take longer
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    const timer = setTimeout(abort, this.timeoutMs);
+    request.signal?.addEventListener('abort', abort, { once: true });
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/api/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.model,
+          system: request.system,
+          prompt: request.prompt,
+          stream: true,
+          options: {
+            temperature: request.temperature,
+            num_predict: request.maxTokens,
+          },
+        }),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      request.signal?.removeEventListener('abort', abort);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok || !response.body) {
+      request.signal?.removeEventListener('abort', abort);
+      const body = await response.text().catch(() => '');
+      throw new Error(
+        `Ollama generate failed (${response.status}): ${
+          body || response.statusText
+        }`
+      );
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const chunk = parseChunk(line);
+          if (!chunk) continue;
+          if (chunk.error) throw new Error(`Ollama error: ${chunk.error}`);
+          if (chunk.response) yield chunk.response;
+          if (chunk.done) return;
+        }
+      }
+
+      const tail = parseChunk(buffer);
+      if (tail?.response) yield tail.response;
+    } finally {
+      request.signal?.removeEventListener('abort', abort);
+      // Stops the download if the consumer stopped early
+      await reader.cancel().catch(() => undefined);
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/tags`, {
+        signal: AbortSignal.timeout(5000),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+}
+
+function parseChunk(line: string): OllamaGenerateChunk | null {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+  try {
+    return JSON.parse(trimmed) as OllamaGenerateChunk;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create Ollama LLM service
+ */
+export function createOllamaLlmService(
+  config: OllamaLlmServiceConfig
+): ILlmService {
+  return new OllamaLlmService(config);
+}
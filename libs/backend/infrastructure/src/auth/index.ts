@@ -4,3 +4,5 @@
 
 export * from './password-hasher.js';
 export * from './token-generator.js';
+export * from './unsubscribe-token.service.js';
+export * from './playback-token.service.js';
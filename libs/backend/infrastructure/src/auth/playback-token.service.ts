@@ -0,0 +1,75 @@
+/**
+ * HMAC Playback Token Service
+ *
+ * Implementation of IPlaybackTokenService. A token is the base64url JSON
+ * payload (with the expiry in seconds since the epoch) and its HMAC-SHA256
+ * signature, joined by a dot, like unsubscribe tokens.
+ */
+
+import crypto from 'crypto';
+import type {
+  IPlaybackTokenService,
+  PlaybackTokenPayload,
+} from '@blog/backend/core';
+
+export class HmacPlaybackTokenService implements IPlaybackTokenService {
+  constructor(private readonly secret: string) {}
+
+  sign(payload: PlaybackTokenPayload): string {
+    const body = Buffer.from(
+      JSON.stringify({
+        v: payload.videoId,
+        u: payload.userId,
+        e: Math.floor(payload.expiresAt.getTime() / 1000),
+      })
+    ).toString('base64url');
+    return `${body}.${this.signature(body)}`;
+  }
+
+  verify(token: string): PlaybackTokenPayload | null {
+    const [body, signature, ...rest] = token.split('.');
+    if (!body || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(this.signature(body));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !crypto.timingSafeEqual(expected, actual)
+    ) {
+      return null;
+    }
+
+    try {
+      const decoded = JSON.parse(Buffer.from(body, 'base64url').toString());
+      if (
+        typeof decoded.v !== 'string' ||
+        (decoded.u !== null && typeof decoded.u !== 'string') ||
+        typeof decoded.e !== 'number'
+      ) {
+        return null;
+      }
+      const expiresAt = new Date(decoded.e * 1000);
+      if (expiresAt.getTime() <= Date.now()) return null;
+
+      return { videoId: decoded.v, userId: decoded.u, expiresAt };
+    } catch {
+      return null;
+    }
+  }
+
+  private signature(body: string): string {
+    return crypto
+      .createHmac('sha256', this.secret)
+      .update(body)
+      .digest('base64url');
+  }
+}
+
+/**
+ * Create a playback token service
+ */
+export function createPlaybackTokenService(
+  secret: string
+): IPlaybackTokenService {
+  return new HmacPlaybackTokenService(secret);
+}
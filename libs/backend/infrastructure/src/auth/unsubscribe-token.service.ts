@@ -0,0 +1,64 @@
+/**
+ * HMAC Unsubscribe Token Service
+ *
+ * Implementation of IUnsubscribeTokenService. A token is the base64url
+ * JSON payload and its HMAC-SHA256 signature, joined by a dot. Tokens do
+ * not expire: an unsubscribe link must keep working in old emails.
+ */
+
+import crypto from 'crypto';
+import type {
+  IUnsubscribeTokenService,
+  UnsubscribeTokenPayload,
+} from '@blog/backend/core';
+
+export class HmacUnsubscribeTokenService implements IUnsubscribeTokenService {
+  constructor(private readonly secret: string) {}
+
+  sign(payload: UnsubscribeTokenPayload): string {
+    const body = Buffer.from(
+      JSON.stringify({ u: payload.userId, s: payload.scope })
+    ).toString('base64url');
+    return `${body}.${this.signature(body)}`;
+  }
+
+  verify(token: string): UnsubscribeTokenPayload | null {
+    const [body, signature, ...rest] = token.split('.');
+    if (!body || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(this.signature(body));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !crypto.timingSafeEqual(expected, actual)
+    ) {
+      return null;
+    }
+
+    try {
+      const decoded = JSON.parse(Buffer.from(body, 'base64url').toString());
+      if (typeof decoded.u !== 'string' || typeof decoded.s !== 'string') {
+        return null;
+      }
+      return { userId: decoded.u, scope: decoded.s };
+    } catch {
+      return null;
+    }
+  }
+
+  private signature(body: string): string {
+    return crypto
+      .createHmac('sha256', this.secret)
+      .update(body)
+      .digest('base64url');
+  }
+}
+
+/**
+ * Create an unsubscribe token service
+ */
+export function createUnsubscribeTokenService(
+  secret: string
+): IUnsubscribeTokenService {
+  return new HmacUnsubscribeTokenService(secret);
+}
@@ -113,6 +113,8 @@ export interface VideosTable {
   raw_file_path: string | null;
   hls_master_url: string | null;
   thumbnail_url: string | null;
+  thumbnails_vtt_url: string | null;
+  dash_manifest_url: string | null;
   available_qualities: Record<string, unknown>[];
   retry_count: ColumnType<number, number | undefined, number>;
   error_message: string | null;
@@ -141,7 +143,12 @@ export interface PostsTable {
   like_count: ColumnType<number, number | undefined, number>;
   comment_count: ColumnType<number, number | undefined, number>;
   bookmark_count: ColumnType<number, number | undefined, number>;
-  embedding: number[] | null;
+  /** pgvector text literal, e.g. '[0.1,0.2,...]' (see toVectorLiteral) */
+  embedding: ColumnType<
+    string | null,
+    string | null | undefined,
+    string | null
+  >;
   published_at: Date | null;
   created_at: CreatedAt;
   updated_at: UpdatedAt;
@@ -256,8 +263,10 @@ export interface PostViewsTable {
   referrer: string | null;
   user_agent: string | null;
   is_bot: ColumnType<boolean, boolean | undefined, boolean>;
+  /** Added to posts.view_count by the batched sync */
+  counted: ColumnType<boolean, boolean | undefined, boolean>;
   viewed_at: ColumnType<Date, Date | undefined, never>;
-  view_date: Date; // Generated column
+  view_date: ColumnType<Date, never, never>; // Generated column
 }
 
 /**
@@ -270,10 +279,14 @@ export interface VideoViewsTable {
   user_id: string | null;
   duration_watched: number;
   total_duration: number;
-  completion_rate: number; // Generated column
+  completion_rate: ColumnType<number, never, never>; // Generated column
   quality_watched: string | null;
   referrer: string | null;
+  user_agent: string | null;
+  is_bot: ColumnType<boolean, boolean | undefined, boolean>;
   viewed_at: ColumnType<Date, Date | undefined, never>;
+  last_heartbeat_at: ColumnType<Date, Date | undefined, Date>;
+  view_date: ColumnType<Date, never, never>; // Generated column
 }
 
 /**
@@ -289,6 +302,33 @@ export interface ActivityLogsTable {
   created_at: CreatedAt;
 }
 
+/**
+ * Post Chunks table (embedded passages for question answering)
+ */
+export interface PostChunksTable {
+  id: UUID;
+  post_id: string;
+  chunk_index: number;
+  content: string;
+  /** pgvector text literal, e.g. '[0.1,0.2,...]' (see toVectorLiteral) */
+  embedding: string;
+  created_at: CreatedAt;
+}
+
+/**
+ * Post Trending Scores table (materialized trending feed)
+ */
+export interface PostTrendingScoresTable {
+  post_id: string;
+  period: 'day' | 'week' | 'month';
+  score: number;
+  likes: number;
+  comments: number;
+  bookmarks: number;
+  unique_views: number;
+  computed_at: CreatedAt;
+}
+
 /**
  * Search Queries table
  */
@@ -311,6 +351,206 @@ export interface FollowsTable {
   created_at: CreatedAt;
 }
 
+/**
+ * Outbox Events table (transactional outbox)
+ */
+export interface OutboxEventsTable {
+  id: UUID;
+  event_id: string;
+  event_name: string;
+  aggregate_type: string;
+  aggregate_id: string;
+  message: ColumnType<
+    Record<string, unknown>,
+    string | Record<string, unknown>,
+    never
+  >;
+  status: ColumnType<
+    'pending' | 'published' | 'dead',
+    'pending' | undefined,
+    'pending' | 'published' | 'dead'
+  >;
+  attempts: ColumnType<number, number | undefined, number>;
+  last_error: ColumnType<
+    string | null,
+    string | null | undefined,
+    string | null
+  >;
+  available_at: ColumnType<Date, Date | undefined, Date>;
+  created_at: CreatedAt;
+  published_at: ColumnType<Date | null, Date | null | undefined, Date | null>;
+}
+
+/**
+ * Notifications table (in-app notifications)
+ */
+export interface NotificationsTable {
+  id: UUID;
+  user_id: string;
+  actor_id: string | null;
+  type: string;
+  post_id: string | null;
+  comment_id: string | null;
+  video_id: string | null;
+  data: ColumnType<
+    Record<string, unknown>,
+    string | Record<string, unknown> | undefined,
+    never
+  >;
+  dedupe_key: string | null;
+  read_at: ColumnType<Date | null, Date | null | undefined, Date | null>;
+  created_at: CreatedAt;
+}
+
+/**
+ * Notification Preferences table (changed defaults only)
+ */
+export interface NotificationPreferencesTable {
+  user_id: string;
+  type: string;
+  in_app: boolean;
+  email: boolean;
+  updated_at: UpdatedAt;
+}
+
+/**
+ * Notification Settings table (digest schedule)
+ */
+export interface NotificationSettingsTable {
+  user_id: string;
+  digest_frequency: ColumnType<string, string | undefined, string>;
+  last_digest_sent_at: ColumnType<
+    Date | null,
+    Date | null | undefined,
+    Date | null
+  >;
+  updated_at: UpdatedAt;
+}
+
+/**
+ * Video Multipart Uploads table
+ */
+export interface VideoMultipartUploadsTable {
+  video_id: string;
+  user_id: string;
+  upload_id: string;
+  bucket: string;
+  object_key: string;
+  part_size: number;
+  part_count: number;
+  created_at: CreatedAt;
+}
+
+/**
+ * Video Captions table
+ */
+export interface VideoCaptionsTable {
+  id: UUID;
+  video_id: string;
+  language: string;
+  label: string;
+  is_default: ColumnType<boolean, boolean | undefined, boolean>;
+  source_format: string;
+  is_generated: ColumnType<boolean, boolean | undefined, boolean>;
+  created_at: CreatedAt;
+  updated_at: UpdatedAt;
+}
+
+/**
+ * Video Transcripts table
+ */
+export interface VideoTranscriptsTable {
+  video_id: string;
+  language: string;
+  text: string;
+  model: string;
+  search_vector: ColumnType<string, never, never>;
+  created_at: CreatedAt;
+  updated_at: UpdatedAt;
+}
+
+/**
+ * Video Chapters table
+ */
+export interface VideoChaptersTable {
+  id: UUID;
+  video_id: string;
+  start_time: number;
+  title: string;
+  created_at: CreatedAt;
+}
+
+/**
+ * Video Thumbnail Candidates table
+ */
+export interface VideoThumbnailCandidatesTable {
+  id: UUID;
+  video_id: string;
+  storage_key: string;
+  frame_time: number;
+  score: number;
+  created_at: CreatedAt;
+}
+
+/**
+ * Video Encryption Keys table
+ */
+export interface VideoEncryptionKeysTable {
+  video_id: string;
+  version: number;
+  key_data: Buffer;
+  created_at: CreatedAt;
+}
+
+/**
+ * Video Loudness table
+ */
+export interface VideoLoudnessTable {
+  video_id: string;
+  integrated_lufs: number;
+  true_peak_dbtp: number;
+  loudness_range_lu: number;
+  target_lufs: number;
+  created_at: CreatedAt;
+  updated_at: UpdatedAt;
+}
+
+/**
+ * Webhook Endpoints table
+ */
+export interface WebhookEndpointsTable {
+  id: UUID;
+  user_id: string;
+  url: string;
+  description: string | null;
+  secret: string;
+  events: string[];
+  is_active: ColumnType<boolean, boolean | undefined, boolean>;
+  created_at: CreatedAt;
+  updated_at: UpdatedAt;
+}
+
+/**
+ * Webhook Deliveries table (delivery log)
+ */
+export interface WebhookDeliveriesTable {
+  id: UUID;
+  endpoint_id: string;
+  event_id: string;
+  event_name: string;
+  payload: ColumnType<Record<string, unknown>, string, never>;
+  status: ColumnType<string, string | undefined, string>;
+  attempts: ColumnType<number, number | undefined, number>;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number | null;
+  is_test: ColumnType<boolean, boolean | undefined, never>;
+  replay_of: string | null;
+  created_at: CreatedAt;
+  last_attempt_at: Date | null;
+}
+
 // =====================================================
 // DATABASE SCHEMA
 // =====================================================
@@ -324,6 +564,8 @@ export interface Database {
   tags: TagsTable;
   videos: VideosTable;
   posts: PostsTable;
+  post_chunks: PostChunksTable;
+  post_trending_scores: PostTrendingScoresTable;
   post_categories: PostCategoriesTable;
   post_tags: PostTagsTable;
   comments: CommentsTable;
@@ -337,6 +579,19 @@ export interface Database {
   activity_logs: ActivityLogsTable;
   search_queries: SearchQueriesTable;
   follows: FollowsTable;
+  outbox_events: OutboxEventsTable;
+  notifications: NotificationsTable;
+  notification_preferences: NotificationPreferencesTable;
+  notification_settings: NotificationSettingsTable;
+  video_multipart_uploads: VideoMultipartUploadsTable;
+  video_captions: VideoCaptionsTable;
+  video_transcripts: VideoTranscriptsTable;
+  video_chapters: VideoChaptersTable;
+  video_thumbnail_candidates: VideoThumbnailCandidatesTable;
+  video_encryption_keys: VideoEncryptionKeysTable;
+  video_loudness: VideoLoudnessTable;
+  webhook_endpoints: WebhookEndpointsTable;
+  webhook_deliveries: WebhookDeliveriesTable;
 }
 
 // =====================================================
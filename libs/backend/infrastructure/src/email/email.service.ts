@@ -15,6 +15,8 @@ import type {
   VerificationEmailData,
   PasswordResetEmailData,
   WelcomeEmailData,
+  NotificationEmailData,
+  DigestEmailData,
 } from '@blog/backend/core';
 
 export interface EmailServiceConfig {
@@ -38,6 +40,22 @@ export interface EmailServiceConfig {
   useEthereal?: boolean;
 }
 
+/**
+ * Escape user-provided text (names, titles, comments) for HTML emails
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
 export class EmailService implements IEmailService {
   private transporter: Transporter | null = null;
   private config: EmailServiceConfig;
@@ -329,6 +347,216 @@ Need help? Contact our support team anytime.
       text,
     });
   }
+
+  async sendNotificationEmail(
+    data: NotificationEmailData
+  ): Promise<SendEmailResult> {
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(data.subject)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { text-align: center; padding: 20px 0; }
+    .logo { font-size: 28px; font-weight: bold; color: #2563eb; }
+    .content { background: #f9fafb; border-radius: 8px; padding: 30px; margin: 20px 0; }
+    .button { display: inline-block; background: #2563eb; color: white !important; text-decoration: none; padding: 12px 30px; border-radius: 6px; font-weight: 600; margin: 20px 0; }
+    .button:hover { background: #1d4ed8; }
+    .footer { text-align: center; color: #6b7280; font-size: 12px; padding: 20px 0; }
+    .footer a { color: #6b7280; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <div class="logo">Blog Video Platform</div>
+    </div>
+    <div class="content">
+      <p>Hi ${escapeHtml(data.username)},</p>
+      <p>${escapeHtml(data.message)}</p>
+      <p style="text-align: center;">
+        <a href="${data.actionUrl}" class="button">${escapeHtml(
+      data.actionLabel
+    )}</a>
+      </p>
+    </div>
+    <div class="footer">
+      <p>You receive this email because of your notification settings.</p>
+      <p><a href="${data.unsubscribeUrl}">Unsubscribe from these emails</a></p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    const text = `
+Hi ${data.username},
+
+${data.message}
+
+${data.actionLabel}: ${data.actionUrl}
+
+Unsubscribe from these emails: ${data.unsubscribeUrl}
+    `;
+
+    return this.sendEmail({
+      to: data.to,
+      subject: `${data.subject} - Blog Video Platform`,
+      html,
+      text,
+    });
+  }
+
+  async sendDigestEmail(data: DigestEmailData): Promise<SendEmailResult> {
+    const { content } = data;
+    const period = data.frequency === 'daily' ? 'today' : 'this week';
+    const postUrl = (slug: string) => `${this.config.appUrl}/posts/${slug}`;
+
+    const sections: { html: string; text: string }[] = [];
+
+    if (content.newPosts.length > 0) {
+      sections.push({
+        html: `
+      <h3>New posts from people you follow</h3>
+      <ul>
+        ${content.newPosts
+          .map(
+            (post) =>
+              `<li><a href="${postUrl(post.slug)}">${escapeHtml(
+                post.title
+              )}</a> by ${escapeHtml(
+                post.authorName || post.authorUsername
+              )}</li>`
+          )
+          .join('\n        ')}
+      </ul>`,
+        text: [
+          'New posts from people you follow:',
+          ...content.newPosts.map(
+            (post) =>
+              `- ${post.title} by ${
+                post.authorName || post.authorUsername
+              }: ${postUrl(post.slug)}`
+          ),
+        ].join('\n'),
+      });
+    }
+
+    if (content.replies.length > 0) {
+      sections.push({
+        html: `
+      <h3>New comments and replies</h3>
+      <ul>
+        ${content.replies
+          .map(
+            (reply) =>
+              `<li>${escapeHtml(
+                reply.authorName || reply.authorUsername
+              )} on <a href="${postUrl(reply.postSlug)}">${escapeHtml(
+                reply.postTitle
+              )}</a>: “${escapeHtml(truncate(reply.content, 140))}”</li>`
+          )
+          .join('\n        ')}
+      </ul>`,
+        text: [
+          'New comments and replies:',
+          ...content.replies.map(
+            (reply) =>
+              `- ${reply.authorName || reply.authorUsername} on ${
+                reply.postTitle
+              }: "${truncate(reply.content, 140)}"`
+          ),
+        ].join('\n'),
+      });
+    }
+
+    if (content.postLikes.length > 0 || content.commentLikeCount > 0) {
+      const likeLines = content.postLikes.map((likes) => ({
+        html: `<li><a href="${postUrl(likes.postSlug)}">${escapeHtml(
+          likes.postTitle
+        )}</a>: ${likes.likeCount} new like${
+          likes.likeCount === 1 ? '' : 's'
+        }</li>`,
+        text: `- ${likes.postTitle}: ${likes.likeCount} new like${
+          likes.likeCount === 1 ? '' : 's'
+        }`,
+      }));
+      if (content.commentLikeCount > 0) {
+        const line = `Your comments: ${content.commentLikeCount} new like${
+          content.commentLikeCount === 1 ? '' : 's'
+        }`;
+        likeLines.push({ html: `<li>${line}</li>`, text: `- ${line}` });
+      }
+      sections.push({
+        html: `
+      <h3>Likes</h3>
+      <ul>
+        ${likeLines.map((line) => line.html).join('\n        ')}
+      </ul>`,
+        text: ['Likes:', ...likeLines.map((line) => line.text)].join('\n'),
+      });
+    }
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Your ${data.frequency} digest</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { text-align: center; padding: 20px 0; }
+    .logo { font-size: 28px; font-weight: bold; color: #2563eb; }
+    .content { background: #f9fafb; border-radius: 8px; padding: 30px; margin: 20px 0; }
+    .content a { color: #2563eb; }
+    .footer { text-align: center; color: #6b7280; font-size: 12px; padding: 20px 0; }
+    .footer a { color: #6b7280; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <div class="logo">Blog Video Platform</div>
+    </div>
+    <div class="content">
+      <p>Hi ${escapeHtml(data.username)},</p>
+      <p>Here is what happened ${period}:</p>
+      ${sections.map((section) => section.html).join('\n')}
+    </div>
+    <div class="footer">
+      <p>You can change how often you get this digest in your settings.</p>
+      <p><a href="${data.unsubscribeUrl}">Unsubscribe from the ${
+      data.frequency
+    } digest</a></p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    const text = `
+Hi ${data.username},
+
+Here is what happened ${period}:
+
+${sections.map((section) => section.text).join('\n\n')}
+
+Unsubscribe from the ${data.frequency} digest: ${data.unsubscribeUrl}
+    `;
+
+    return this.sendEmail({
+      to: data.to,
+      subject: `Your ${data.frequency} digest - Blog Video Platform`,
+      html,
+      text,
+    });
+  }
 }
 
 /**
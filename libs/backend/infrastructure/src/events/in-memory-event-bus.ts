@@ -0,0 +1,95 @@
+/**
+ * In-Memory Event Bus
+ *
+ * Delivers domain events to subscribers in the same process. Used in tests
+ * and single-instance setups without Redis. publish() resolves once every
+ * handler has run, which keeps tests deterministic.
+ */
+
+import type { DomainEvent, IEventEmitter } from '@blog/shared/domain';
+import {
+  ALL_EVENTS,
+  type IEventBus,
+  type DomainEventHandler,
+  type DomainEventMessage,
+} from '@blog/backend/core';
+
+export class InMemoryEventBus implements IEventBus {
+  private readonly handlers = new Map<string, Set<DomainEventHandler>>();
+
+  async publish(...events: DomainEvent[]): Promise<void> {
+    await this.publishMessages(
+      events.map((event) => event.toJSON() as unknown as DomainEventMessage)
+    );
+  }
+
+  async publishMessages(
+    messages: ReadonlyArray<DomainEventMessage>
+  ): Promise<void> {
+    for (const message of messages) {
+      await this.dispatch(message);
+    }
+  }
+
+  async publishFrom(emitter: IEventEmitter): Promise<void> {
+    const events = emitter.domainEvents;
+    emitter.clearEvents();
+    await this.publish(...events);
+  }
+
+  subscribe(eventName: string, handler: DomainEventHandler): () => void {
+    let handlers = this.handlers.get(eventName);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(eventName, handlers);
+    }
+    handlers.add(handler);
+
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  /**
+   * Run the handlers of one event. A failing handler is logged and does not
+   * stop the others (or the publisher).
+   *
+   * Handlers in `completed` are skipped and handlers that succeed are added
+   * to it, so a redelivered event only reruns the ones that failed.
+   * Resolves to whether every handler succeeded.
+   */
+  async dispatch(
+    message: DomainEventMessage,
+    completed: Set<DomainEventHandler> = new Set()
+  ): Promise<boolean> {
+    const handlers = [
+      ...(this.handlers.get(message.eventName) ?? []),
+      ...(this.handlers.get(ALL_EVENTS) ?? []),
+    ];
+
+    let succeeded = true;
+    for (const handler of handlers) {
+      if (completed.has(handler)) continue;
+
+      try {
+        await handler(message);
+        completed.add(handler);
+      } catch (error) {
+        succeeded = false;
+        console.error(
+          `❌ Event handler failed for ${message.eventName} (${message.eventId}):`,
+          error
+        );
+      }
+    }
+
+    return succeeded;
+  }
+}
+
+/**
+ * Create an InMemoryEventBus instance
+ */
+export function createInMemoryEventBus(): InMemoryEventBus {
+  return new InMemoryEventBus();
+}
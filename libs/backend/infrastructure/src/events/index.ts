@@ -0,0 +1,14 @@
+/**
+ * Event Bus - Barrel Export
+ */
+
+export {
+  InMemoryEventBus,
+  createInMemoryEventBus,
+} from './in-memory-event-bus.js';
+export {
+  RedisStreamEventBus,
+  createRedisStreamEventBus,
+  DOMAIN_EVENTS_STREAM,
+  type RedisStreamEventBusConfig,
+} from './redis-stream-event-bus.js';
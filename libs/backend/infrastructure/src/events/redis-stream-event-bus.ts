@@ -0,0 +1,334 @@
+/**
+ * Redis Streams Event Bus
+ *
+ * Appends domain events to a Redis stream shared by api-server and
+ * video-worker. Each service reads the stream through its own consumer
+ * group, so an event is handled once per service even with several
+ * instances running. Processes that only publish never call start().
+ *
+ * Delivery is at least once: an entry is acknowledged only after every
+ * handler succeeded. Entries left pending by a failed handler or a crashed
+ * consumer are claimed again once idle, so handlers must be idempotent.
+ */
+
+import { hostname } from 'node:os';
+import { Redis, type RedisOptions } from 'ioredis';
+import type { DomainEvent, IEventEmitter } from '@blog/shared/domain';
+import type {
+  IEventBus,
+  DomainEventHandler,
+  DomainEventMessage,
+} from '@blog/backend/core';
+import { InMemoryEventBus } from './in-memory-event-bus.js';
+
+/** Default stream key for domain events */
+export const DOMAIN_EVENTS_STREAM = 'domain-events';
+
+export interface RedisStreamEventBusConfig {
+  /** Redis connection options */
+  redis: RedisOptions;
+  /** Consumer group, one per service (e.g. 'api-server') */
+  consumerGroup: string;
+  /**
+   * Consumer name within the group (default: hostname). Keep it stable
+   * across restarts so the consumer picks up its own pending entries.
+   */
+  consumerName?: string;
+  /** Stream key (default: 'domain-events') */
+  stream?: string;
+  /** Approximate maximum stream length (default: 100000) */
+  maxLength?: number;
+  /** Entries per read (default: 50) */
+  batchSize?: number;
+  /** How long a read blocks waiting for entries, in ms (default: 5000) */
+  blockMs?: number;
+  /**
+   * Entries pending longer than this are claimed and handled again, in ms
+   * (default: 60000)
+   */
+  claimIdleMs?: number;
+  /** Deliveries before an entry is given up and acknowledged (default: 10) */
+  maxDeliveries?: number;
+}
+
+/** Fields are null for entries trimmed (MAXLEN) while pending */
+type StreamEntry = [id: string, fields: string[] | null];
+type StreamReadResponse = [stream: string, entries: StreamEntry[]][] | null;
+type AutoClaimResponse = [
+  next: string,
+  entries: StreamEntry[],
+  ...rest: unknown[]
+];
+type PendingEntry = [
+  id: string,
+  consumer: string,
+  idleMs: number,
+  deliveries: number
+];
+
+/** Pending entries whose succeeded handlers are remembered */
+const MAX_TRACKED_ENTRIES = 10000;
+
+export class RedisStreamEventBus implements IEventBus {
+  private readonly writer: Redis;
+  private reader: Redis | null = null;
+  private readonly local = new InMemoryEventBus();
+  private readonly stream: string;
+  private readonly consumerName: string;
+  private readonly claimIdleMs: number;
+  /** Handlers that already succeeded, per pending entry */
+  private readonly completedHandlers = new Map<
+    string,
+    Set<DomainEventHandler>
+  >();
+  private running = false;
+  private loop: Promise<void> | null = null;
+
+  constructor(private readonly config: RedisStreamEventBusConfig) {
+    this.writer = new Redis(config.redis);
+    this.stream = config.stream ?? DOMAIN_EVENTS_STREAM;
+    this.consumerName = config.consumerName ?? hostname();
+    this.claimIdleMs = config.claimIdleMs ?? 60000;
+  }
+
+  async publish(...events: DomainEvent[]): Promise<void> {
+    try {
+      await this.publishMessages(
+        events.map((event) => event.toJSON() as unknown as DomainEventMessage)
+      );
+    } catch (error) {
+      // The change is already committed; a lost event must not fail it
+      console.error(
+        `❌ Failed to publish ${events.map((e) => e.eventName).join(', ')}:`,
+        error
+      );
+    }
+  }
+
+  async publishMessages(
+    messages: ReadonlyArray<DomainEventMessage>
+  ): Promise<void> {
+    if (messages.length === 0) return;
+
+    const pipeline = this.writer.pipeline();
+    for (const message of messages) {
+      pipeline.xadd(
+        this.stream,
+        'MAXLEN',
+        '~',
+        this.config.maxLength ?? 100000,
+        '*',
+        'event',
+        JSON.stringify(message)
+      );
+    }
+
+    const results = await pipeline.exec();
+    const failed = results?.find(([error]) => error);
+    if (failed) throw failed[0];
+  }
+
+  async publishFrom(emitter: IEventEmitter): Promise<void> {
+    const events = emitter.domainEvents;
+    emitter.clearEvents();
+    await this.publish(...events);
+  }
+
+  subscribe(eventName: string, handler: DomainEventHandler): () => void {
+    return this.local.subscribe(eventName, handler);
+  }
+
+  /**
+   * Start consuming the stream for this service's consumer group
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    try {
+      await this.writer.xgroup(
+        'CREATE',
+        this.stream,
+        this.config.consumerGroup,
+        '$',
+        'MKSTREAM'
+      );
+    } catch (error) {
+      if (!(error instanceof Error && error.message.includes('BUSYGROUP'))) {
+        throw error;
+      }
+    }
+
+    // Blocking reads need their own connection
+    this.reader = this.writer.duplicate();
+    this.running = true;
+    this.loop = this.consume(this.reader);
+  }
+
+  /**
+   * Stop consuming and close the connections
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    // Disconnecting aborts a pending blocking read
+    this.reader?.disconnect();
+    await this.loop;
+    this.reader = null;
+    this.loop = null;
+    await this.writer.quit();
+  }
+
+  private async consume(reader: Redis): Promise<void> {
+    // Start with entries delivered to this consumer before a restart but
+    // never acknowledged, then switch to new entries
+    let cursor = '0';
+    let nextClaimAt = Date.now() + this.claimIdleMs;
+
+    while (this.running) {
+      try {
+        if (cursor === '>' && Date.now() >= nextClaimAt) {
+          await this.claimIdleEntries(reader);
+          nextClaimAt = Date.now() + this.claimIdleMs;
+        }
+
+        const response = (await reader.xreadgroup(
+          'GROUP',
+          this.config.consumerGroup,
+          this.consumerName,
+          'COUNT',
+          this.config.batchSize ?? 50,
+          'BLOCK',
+          this.config.blockMs ?? 5000,
+          'STREAMS',
+          this.stream,
+          cursor
+        )) as StreamReadResponse;
+
+        const entries = response?.[0]?.[1] ?? [];
+        if (cursor !== '>') {
+          if (entries.length === 0) {
+            cursor = '>';
+            continue;
+          }
+          // Read past these; the ones that fail again are left to the claim
+          cursor = entries[entries.length - 1][0];
+        }
+
+        for (const [id, fields] of entries) {
+          await this.handleEntry(reader, id, fields);
+        }
+      } catch (error) {
+        if (!this.running) break;
+        console.error('❌ Event stream read failed:', error);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+    }
+  }
+
+  /**
+   * Claim the group's entries that have been pending longer than
+   * claimIdleMs (failed handlers, crashed consumers) and handle them again
+   */
+  private async claimIdleEntries(reader: Redis): Promise<void> {
+    const maxDeliveries = this.config.maxDeliveries ?? 10;
+    let start = '0-0';
+
+    do {
+      const [next, entries] = (await reader.xautoclaim(
+        this.stream,
+        this.config.consumerGroup,
+        this.consumerName,
+        this.claimIdleMs,
+        start,
+        'COUNT',
+        this.config.batchSize ?? 50
+      )) as AutoClaimResponse;
+      start = next;
+
+      if (entries.length === 0) continue;
+
+      const pending = (await reader.xpending(
+        this.stream,
+        this.config.consumerGroup,
+        entries[0][0],
+        entries[entries.length - 1][0],
+        entries.length,
+        this.consumerName
+      )) as PendingEntry[];
+      const deliveries = new Map(pending.map(([id, , , count]) => [id, count]));
+
+      for (const [id, fields] of entries) {
+        const count = deliveries.get(id) ?? 0;
+        if (count > maxDeliveries) {
+          console.error(
+            `❌ Giving up on event ${id} in ${this.stream} after ${count} deliveries`
+          );
+          await this.acknowledge(reader, id);
+          continue;
+        }
+        await this.handleEntry(reader, id, fields);
+      }
+    } while (start !== '0-0' && this.running);
+  }
+
+  private async handleEntry(
+    reader: Redis,
+    id: string,
+    fields: string[] | null
+  ): Promise<void> {
+    if (!fields) {
+      console.warn(`⚠️ Event ${id} was trimmed from ${this.stream} unhandled`);
+      await this.acknowledge(reader, id);
+      return;
+    }
+
+    const index = fields.indexOf('event');
+    const raw = index >= 0 ? fields[index + 1] : undefined;
+
+    let message: DomainEventMessage;
+    try {
+      message = JSON.parse(raw ?? '') as DomainEventMessage;
+    } catch (error) {
+      console.error(`❌ Malformed event ${id} in ${this.stream}:`, error);
+      await this.acknowledge(reader, id);
+      return;
+    }
+
+    // A redelivered entry only reruns the handlers that failed here before
+    let completed = this.completedHandlers.get(id);
+    if (!completed) {
+      completed = new Set();
+      this.completedHandlers.set(id, completed);
+      this.forgetOldestEntries();
+    }
+
+    // Failed handlers leave the entry pending until it is claimed again
+    if (await this.local.dispatch(message, completed)) {
+      await this.acknowledge(reader, id);
+    }
+  }
+
+  private async acknowledge(reader: Redis, id: string): Promise<void> {
+    await reader.xack(this.stream, this.config.consumerGroup, id);
+    this.completedHandlers.delete(id);
+  }
+
+  /**
+   * Entries claimed and acknowledged by another consumer are never
+   * acknowledged here; keep the map from growing without bound
+   */
+  private forgetOldestEntries(): void {
+    for (const id of this.completedHandlers.keys()) {
+      if (this.completedHandlers.size <= MAX_TRACKED_ENTRIES) break;
+      this.completedHandlers.delete(id);
+    }
+  }
+}
+
+/**
+ * Create a RedisStreamEventBus instance
+ */
+export function createRedisStreamEventBus(
+  config: RedisStreamEventBusConfig
+): RedisStreamEventBus {
+  return new RedisStreamEventBus(config);
+}
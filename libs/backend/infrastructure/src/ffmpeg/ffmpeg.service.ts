@@ -7,11 +7,17 @@
 import ffmpeg from 'fluent-ffmpeg';
 import * as path from 'path';
 import * as fs from 'fs';
+import * as os from 'os';
 import type {
   IFFmpegService,
   VideoMetadata,
   HLSQuality,
+  ComplexityAnalysis,
+  LoudnessMeasurement,
+  HLSEncodingOptions,
   HLSEncodingResult,
+  ThumbnailSpritesResult,
+  ThumbnailCandidateFrame,
   EncodingProgressCallback,
 } from '@blog/backend/core';
 import { DEFAULT_HLS_QUALITIES } from '@blog/backend/core';
@@ -41,6 +47,452 @@ export const ENCODING_CONFIG = {
   } as Record<string, number>,
 } as const;
 
+/**
+ * Seek bar preview sprite sheets
+ */
+export const THUMBNAIL_SPRITE_CONFIG = {
+  // Seconds between preview frames
+  INTERVAL: 5,
+
+  // Width of one preview frame; the height follows the aspect ratio
+  WIDTH: 160,
+
+  // Frames per sprite sheet (10x10 = 100 frames, 8m20s of video)
+  COLUMNS: 10,
+  ROWS: 10,
+} as const;
+
+/**
+ * Poster candidates
+ */
+export const THUMBNAIL_CANDIDATE_CONFIG = {
+  // Frames extracted, evenly spaced (the first and last moments are skipped)
+  COUNT: 6,
+
+  // Size of the grayscale copy a frame is scored on
+  SCORE_WIDTH: 160,
+  SCORE_HEIGHT: 90,
+} as const;
+
+/**
+ * Content-aware encoding ladder
+ */
+export const ENCODING_LADDER_CONFIG = {
+  // Samples encoded to measure complexity, evenly spaced
+  PROBE_SAMPLES: 3,
+  PROBE_SAMPLE_DURATION: 4,
+
+  // Samples are encoded at this height (or the source's, if lower)
+  PROBE_HEIGHT: 720,
+
+  // Constant quality of the probe, visually transparent for streaming
+  PROBE_CRF: 23,
+
+  // Bitrate grows slower than the pixel count: bitrate ~ pixels^0.75
+  PIXEL_EXPONENT: 0.75,
+
+  // A bitrate-targeted encode needs a bit more than the CRF one to match it
+  HEADROOM: 1.2,
+
+  // Bounds relative to the preset bitrate of each quality
+  MIN_BITRATE_RATIO: 0.25,
+  MAX_BITRATE_RATIO: 1.5,
+
+  // Never below this, in kbps
+  MIN_VIDEO_BITRATE: 150,
+} as const;
+
+/**
+ * Audio loudness normalization (EBU R128)
+ */
+export const LOUDNESS_CONFIG = {
+  // Ceiling for peaks after normalizing, in dBTP (headroom for the AAC encode)
+  TRUE_PEAK: -1.5,
+
+  // loudnorm only normalizes linearly when the source's loudness range is
+  // within this (in LU); wider sources get compressed
+  LOUDNESS_RANGE: 20,
+
+  // loudnorm outputs 192kHz; the audio is resampled back to this
+  SAMPLE_RATE: 48000,
+} as const;
+
+export interface ThumbnailSpriteLayout {
+  interval: number;
+  width: number;
+  height: number;
+  columns: number;
+  rows: number;
+}
+
+const formatVttTimestamp = (seconds: number): string => {
+  const ms = Math.round(seconds * 1000);
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms % 1000, 3)}`;
+};
+
+/**
+ * WebVTT thumbnails track: one cue per frame, pointing at its tile in the
+ * sprite sheets (sprites/ next to the VTT file)
+ */
+export function buildThumbnailsVtt(
+  duration: number,
+  layout: ThumbnailSpriteLayout,
+  spriteFiles: string[]
+): string {
+  const framesPerSheet = layout.columns * layout.rows;
+  const frameCount = Math.min(
+    Math.ceil(duration / layout.interval),
+    spriteFiles.length * framesPerSheet
+  );
+
+  const cues: string[] = [];
+  for (let frame = 0; frame < frameCount; frame++) {
+    const tile = frame % framesPerSheet;
+    const x = (tile % layout.columns) * layout.width;
+    const y = Math.floor(tile / layout.columns) * layout.height;
+    const start = frame * layout.interval;
+    const end = Math.min(start + layout.interval, duration);
+
+    cues.push(
+      `${formatVttTimestamp(start)} --> ${formatVttTimestamp(end)}\n` +
+        `sprites/${spriteFiles[Math.floor(frame / framesPerSheet)]}` +
+        `#xywh=${x},${y},${layout.width},${layout.height}`
+    );
+  }
+
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+}
+
+/** Target segment duration in seconds */
+const HLS_SEGMENT_DURATION = 6;
+
+/** H.264 Main@3.1 (both encoders use that profile and level) */
+const VIDEO_CODEC = 'avc1.4d401f';
+
+/** AAC-LC */
+const AUDIO_CODEC = 'mp4a.40.2';
+
+/** Audio rendition group of the master playlist, and its folder */
+const AUDIO_GROUP_ID = 'audio';
+
+/** The audio rendition of an encode, with its bitrate in kbps */
+interface AudioRendition {
+  playlistPath: string;
+  segmentsDir: string;
+  bitrate: number;
+}
+
+/** Bandwidth and resolution of qualities not in the ladder */
+const FALLBACK_VARIANT_INFO: Record<
+  string,
+  { bandwidth: number; width: number; height: number }
+> = {
+  '1080p': { bandwidth: 2800000, width: 1920, height: 1080 },
+  '720p': { bandwidth: 1400000, width: 1280, height: 720 },
+  '480p': { bandwidth: 800000, width: 854, height: 480 },
+  '360p': { bandwidth: 400000, width: 640, height: 360 },
+};
+
+/**
+ * Bandwidth of the video of a variant (bits per second) and its
+ * resolution, from the ladder of the video when it has the quality
+ */
+function getVariantInfo(
+  qualityName: string,
+  qualities: HLSQuality[]
+): { bandwidth: number; width: number; height: number } {
+  const quality = qualities.find((q) => q.name === qualityName);
+  if (quality) {
+    return {
+      bandwidth: quality.videoBitrate * 1000,
+      width: quality.width,
+      height: quality.height,
+    };
+  }
+  return (
+    FALLBACK_VARIANT_INFO[qualityName] ?? {
+      bandwidth: 1000000,
+      width: 1280,
+      height: 720,
+    }
+  );
+}
+
+export interface HlsMediaPlaylist {
+  /** URI of the init segment (EXT-X-MAP), with fMP4 segments */
+  initialization: string | null;
+  segments: { uri: string; duration: number }[];
+}
+
+/**
+ * Init segment and segments (with their EXTINF durations) of an HLS media
+ * playlist
+ */
+export function parseHlsMediaPlaylist(content: string): HlsMediaPlaylist {
+  let initialization: string | null = null;
+  const segments: HlsMediaPlaylist['segments'] = [];
+  let duration: number | null = null;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#EXT-X-MAP:')) {
+      initialization = line.match(/URI="([^"]*)"/)?.[1] ?? null;
+    } else if (line.startsWith('#EXTINF:')) {
+      duration = parseFloat(line.slice('#EXTINF:'.length));
+    } else if (!line.startsWith('#') && duration !== null) {
+      segments.push({ uri: line, duration });
+      duration = null;
+    }
+  }
+
+  return { initialization, segments };
+}
+
+export interface DashRepresentation {
+  id: string;
+  /** Bits per second */
+  bandwidth: number;
+  /** Resolution of video representations */
+  width?: number;
+  height?: number;
+  codecs: string;
+  /** URI of the init segment, relative to the manifest */
+  initialization: string;
+  /** Segment URIs relative to the manifest, with durations in seconds */
+  segments: { uri: string; duration: number }[];
+}
+
+const formatDashDuration = (seconds: number): string =>
+  `PT${Number(seconds.toFixed(3))}S`;
+
+const buildDashAdaptationSet = (
+  mimeType: string,
+  representations: DashRepresentation[]
+): string[] => {
+  const lines = [
+    `    <AdaptationSet mimeType="${mimeType}" segmentAlignment="true" ` +
+      'startWithSAP="1">',
+  ];
+
+  for (const representation of representations) {
+    const resolution =
+      representation.width && representation.height
+        ? `width="${representation.width}" height="${representation.height}" `
+        : `audioSamplingRate="${LOUDNESS_CONFIG.SAMPLE_RATE}" `;
+    lines.push(
+      `      <Representation id="${representation.id}" ` +
+        `bandwidth="${representation.bandwidth}" ` +
+        resolution +
+        `codecs="${representation.codecs}">`,
+      '        <SegmentList timescale="1000">',
+      `          <Initialization sourceURL="${representation.initialization}"/>`,
+      '          <SegmentTimeline>'
+    );
+    for (const segment of representation.segments) {
+      lines.push(`            <S d="${Math.round(segment.duration * 1000)}"/>`);
+    }
+    lines.push('          </SegmentTimeline>');
+    for (const segment of representation.segments) {
+      lines.push(`          <SegmentURL media="${segment.uri}"/>`);
+    }
+    lines.push('        </SegmentList>', '      </Representation>');
+  }
+
+  lines.push('    </AdaptationSet>');
+  return lines;
+};
+
+/**
+ * Static DASH manifest listing the segments of each representation, the
+ * same files as the HLS playlists: the video qualities in one adaptation
+ * set, the audio rendition they share in another.
+ */
+export function buildDashManifest(
+  video: DashRepresentation[],
+  audio: DashRepresentation[] = []
+): string {
+  const representations = [...video, ...audio];
+  const duration = Math.max(
+    0,
+    ...representations.map((representation) =>
+      representation.segments.reduce((sum, s) => sum + s.duration, 0)
+    )
+  );
+  const maxSegmentDuration = Math.max(
+    HLS_SEGMENT_DURATION,
+    ...representations.flatMap((representation) =>
+      representation.segments.map((s) => s.duration)
+    )
+  );
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" ' +
+      'profiles="urn:mpeg:dash:profile:isoff-main:2011" type="static" ' +
+      `mediaPresentationDuration="${formatDashDuration(duration)}" ` +
+      `maxSegmentDuration="${formatDashDuration(maxSegmentDuration)}" ` +
+      `minBufferTime="${formatDashDuration(HLS_SEGMENT_DURATION)}">`,
+    '  <Period start="PT0S">',
+    ...buildDashAdaptationSet('video/mp4', video),
+  ];
+  if (audio.length > 0) {
+    lines.push(...buildDashAdaptationSet('audio/mp4', audio));
+  }
+  lines.push('  </Period>', '</MPD>');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * loudnorm filter normalizing to a target: the measuring first pass, or
+ * with its measurement the linear second pass. loudnorm resamples to
+ * 192kHz, so the second pass resamples back.
+ */
+export function buildLoudnormFilter(
+  targetLufs: number,
+  measured?: LoudnessMeasurement
+): string {
+  const { TRUE_PEAK, LOUDNESS_RANGE, SAMPLE_RATE } = LOUDNESS_CONFIG;
+  const target = `loudnorm=I=${targetLufs}:TP=${TRUE_PEAK}:LRA=${LOUDNESS_RANGE}`;
+  if (!measured) return `${target}:print_format=json`;
+
+  return (
+    `${target}:measured_I=${measured.integratedLufs}` +
+    `:measured_TP=${measured.truePeakDbtp}` +
+    `:measured_LRA=${measured.loudnessRangeLu}` +
+    `:measured_thresh=${measured.thresholdLufs}` +
+    `:offset=${measured.targetOffsetLu}:linear=true,` +
+    `aresample=${SAMPLE_RATE}`
+  );
+}
+
+/**
+ * Measurement printed by the first loudnorm pass: a JSON object at the end
+ * of ffmpeg's log, with the values as strings
+ */
+export function parseLoudnormOutput(
+  log: string,
+  targetLufs: number
+): LoudnessMeasurement {
+  let stats: Record<string, string>;
+  try {
+    stats = JSON.parse(
+      log.slice(log.lastIndexOf('{'), log.lastIndexOf('}') + 1)
+    );
+  } catch {
+    throw new Error('No loudness measurement in the ffmpeg output');
+  }
+
+  const measurement: LoudnessMeasurement = {
+    integratedLufs: parseFloat(stats.input_i),
+    truePeakDbtp: parseFloat(stats.input_tp),
+    loudnessRangeLu: parseFloat(stats.input_lra),
+    thresholdLufs: parseFloat(stats.input_thresh),
+    targetOffsetLu: parseFloat(stats.target_offset),
+    targetLufs,
+  };
+  // Silence measures -inf, there is nothing to normalize
+  if (!Object.values(measurement).every(Number.isFinite)) {
+    throw new Error('The audio is silent, its loudness cannot be measured');
+  }
+  return measurement;
+}
+
+/**
+ * Encoding ladder for a video: the presets up to its height, with video
+ * bitrates scaled from the complexity probe instead of fixed, and never
+ * above the bitrate of the source itself (re-encoding cannot add quality)
+ */
+export function buildEncodingLadder(
+  analysis: ComplexityAnalysis,
+  source: Pick<VideoMetadata, 'height' | 'bitrate'>,
+  qualities: HLSQuality[] = DEFAULT_HLS_QUALITIES
+): HLSQuality[] {
+  const config = ENCODING_LADDER_CONFIG;
+  const sourceBitrate =
+    source.bitrate > 0 ? Math.floor(source.bitrate / 1000) : Infinity;
+
+  return qualities
+    .filter((quality) => quality.height <= source.height)
+    .map((quality) => {
+      // Pixel count scales with the square of the height
+      const estimate =
+        analysis.probeBitrate *
+        Math.pow(
+          quality.height / analysis.probeHeight,
+          2 * config.PIXEL_EXPONENT
+        ) *
+        config.HEADROOM;
+      const bounded = Math.min(
+        Math.max(estimate, quality.videoBitrate * config.MIN_BITRATE_RATIO),
+        quality.videoBitrate * config.MAX_BITRATE_RATIO,
+        sourceBitrate
+      );
+
+      return {
+        ...quality,
+        videoBitrate: Math.max(config.MIN_VIDEO_BITRATE, Math.round(bounded)),
+      };
+    });
+}
+
+/**
+ * ffmpeg key info file for encrypted HLS: the key URI written to the
+ * playlist, then the path of the key file. Without an IV line ffmpeg uses
+ * each segment's sequence number, as players expect when the playlist has
+ * no IV attribute.
+ */
+export function buildHlsKeyInfo(keyUri: string, keyPath: string): string {
+  return `${keyUri}\n${keyPath}\n`;
+}
+
+/**
+ * Poster score of a grayscale frame: its sharpness (mean absolute
+ * Laplacian), scaled down for frames that are too dark or too bright. Black
+ * frames, fades and motion blur score low.
+ */
+export function scoreThumbnailFrame(
+  pixels: Uint8Array,
+  width: number,
+  height: number
+): number {
+  if (width < 3 || height < 3 || pixels.length < width * height) return 0;
+
+  let brightness = 0;
+  for (let i = 0; i < width * height; i++) brightness += pixels[i];
+  brightness /= width * height;
+
+  let sharpness = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      sharpness += Math.abs(
+        4 * pixels[i] -
+          pixels[i - 1] -
+          pixels[i + 1] -
+          pixels[i - width] -
+          pixels[i + width]
+      );
+    }
+  }
+  sharpness /= (width - 2) * (height - 2);
+
+  // Full weight between 60 and 190, none below 15 or above 240
+  const exposure =
+    brightness < 60
+      ? Math.max(0, (brightness - 15) / 45)
+      : brightness > 190
+      ? Math.max(0, (240 - brightness) / 50)
+      : 1;
+
+  return Math.round(sharpness * exposure * 100) / 100;
+}
+
 export class FFmpegService implements IFFmpegService {
   private activeCommands: Map<string, any> = new Map(); // Store active FFmpeg commands
   private nvencAvailable: boolean | null = null; // Cache NVENC availability check
@@ -77,7 +529,9 @@ export class FFmpegService implements IFFmpegService {
         })
         .catch(() => {
           this.nvencAvailable = false;
-          console.warn('⚠️ Failed to check NVENC availability, using CPU encoding');
+          console.warn(
+            '⚠️ Failed to check NVENC availability, using CPU encoding'
+          );
           resolve(false);
         });
     });
@@ -128,6 +582,7 @@ export class FFmpegService implements IFFmpegService {
             ? parseInt(String(metadata.format.size), 10)
             : 0,
           format: metadata.format.format_name || 'unknown',
+          hasAudio: metadata.streams.some((s) => s.codec_type === 'audio'),
         });
       });
     });
@@ -164,11 +619,230 @@ export class FFmpegService implements IFFmpegService {
     });
   }
 
+  async extractThumbnailCandidates(
+    inputPath: string,
+    outputDir: string,
+    duration: number,
+    count: number = THUMBNAIL_CANDIDATE_CONFIG.COUNT
+  ): Promise<ThumbnailCandidateFrame[]> {
+    const { SCORE_WIDTH, SCORE_HEIGHT } = THUMBNAIL_CANDIDATE_CONFIG;
+    const candidates: ThumbnailCandidateFrame[] = [];
+
+    for (let i = 1; i <= count; i++) {
+      const time = Math.round(((duration * i) / (count + 1)) * 100) / 100;
+      const name = `candidate_${i.toString().padStart(2, '0')}`;
+      const imagePath = path.join(outputDir, `${name}.jpg`);
+      const pixelsPath = path.join(outputDir, `${name}.gray`);
+
+      await this.generateThumbnail(inputPath, imagePath, time);
+
+      // Score a small grayscale copy of the image
+      await new Promise<void>((resolve, reject) => {
+        ffmpeg(imagePath)
+          .size(`${SCORE_WIDTH}x${SCORE_HEIGHT}`)
+          .outputOptions(['-f rawvideo', '-pix_fmt gray'])
+          .output(pixelsPath)
+          .on('end', () => {
+            resolve();
+          })
+          .on('error', (err) => {
+            reject(new Error(`Failed to score thumbnail: ${err.message}`));
+          })
+          .run();
+      });
+      const pixels = fs.readFileSync(pixelsPath);
+      fs.unlinkSync(pixelsPath);
+
+      candidates.push({
+        path: imagePath,
+        time,
+        score: scoreThumbnailFrame(pixels, SCORE_WIDTH, SCORE_HEIGHT),
+      });
+    }
+
+    return candidates;
+  }
+
+  async analyzeComplexity(
+    inputPath: string,
+    outputDir: string,
+    source: Pick<VideoMetadata, 'duration' | 'height'>
+  ): Promise<ComplexityAnalysis> {
+    const { PROBE_SAMPLES, PROBE_SAMPLE_DURATION, PROBE_HEIGHT, PROBE_CRF } =
+      ENCODING_LADDER_CONFIG;
+
+    if (!fs.existsSync(outputDir)) {
+      fs.mkdirSync(outputDir, { recursive: true });
+    }
+
+    // Even height, as libx264 requires
+    const probeHeight =
+      Math.floor(Math.min(PROBE_HEIGHT, source.height || PROBE_HEIGHT) / 2) * 2;
+    const sampleDuration = Math.min(PROBE_SAMPLE_DURATION, source.duration);
+    // Short videos are probed whole
+    const sampleCount =
+      source.duration > PROBE_SAMPLES * PROBE_SAMPLE_DURATION
+        ? PROBE_SAMPLES
+        : 1;
+
+    let bits = 0;
+    for (let i = 0; i < sampleCount; i++) {
+      const start =
+        sampleCount === 1
+          ? 0
+          : ((source.duration - sampleDuration) * (i + 1)) / (sampleCount + 1);
+      const samplePath = path.join(outputDir, `probe_${i}.mp4`);
+
+      await new Promise<void>((resolve, reject) => {
+        ffmpeg(inputPath)
+          .seekInput(start)
+          .duration(sampleDuration)
+          .noAudio()
+          .videoCodec('libx264')
+          .videoFilters(`scale=-2:${probeHeight}`)
+          .addOptions(['-preset veryfast', `-crf ${PROBE_CRF}`])
+          .output(samplePath)
+          .on('end', () => {
+            resolve();
+          })
+          .on('error', (err) => {
+            reject(new Error(`Failed to probe complexity: ${err.message}`));
+          })
+          .run();
+      });
+
+      bits += fs.statSync(samplePath).size * 8;
+      fs.unlinkSync(samplePath);
+    }
+
+    return {
+      probeHeight,
+      probeBitrate: Math.round(bits / (sampleCount * sampleDuration) / 1000),
+      sampleCount,
+    };
+  }
+
+  async generateThumbnailSprites(
+    inputPath: string,
+    outputDir: string,
+    source: Pick<VideoMetadata, 'duration' | 'width' | 'height'>
+  ): Promise<ThumbnailSpritesResult> {
+    const { INTERVAL, WIDTH, COLUMNS, ROWS } = THUMBNAIL_SPRITE_CONFIG;
+    // Even height keeping the aspect ratio (16:9 when unknown)
+    const height =
+      source.width > 0 && source.height > 0
+        ? Math.max(
+            2,
+            Math.round((WIDTH * source.height) / source.width / 2) * 2
+          )
+        : Math.round((WIDTH * 9) / 16);
+    const layout: ThumbnailSpriteLayout = {
+      interval: INTERVAL,
+      width: WIDTH,
+      height,
+      columns: COLUMNS,
+      rows: ROWS,
+    };
+
+    const spritesDir = path.join(outputDir, 'sprites');
+
+    // Ensure output directory exists
+    if (!fs.existsSync(spritesDir)) {
+      fs.mkdirSync(spritesDir, { recursive: true });
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg(inputPath)
+        .noAudio()
+        .videoFilters(
+          `fps=1/${INTERVAL},scale=${WIDTH}:${height},tile=${COLUMNS}x${ROWS}`
+        )
+        .outputOptions(['-q:v 5'])
+        .output(path.join(spritesDir, 'sprite_%03d.jpg'))
+        .on('end', () => {
+          resolve();
+        })
+        .on('error', (err) => {
+          reject(
+            new Error(`Failed to generate thumbnail sprites: ${err.message}`)
+          );
+        })
+        .run();
+    });
+
+    const spriteFiles = fs
+      .readdirSync(spritesDir)
+      .filter((file) => file.endsWith('.jpg'))
+      .sort();
+    const vttPath = path.join(outputDir, 'thumbnails.vtt');
+    fs.writeFileSync(
+      vttPath,
+      buildThumbnailsVtt(source.duration, layout, spriteFiles)
+    );
+
+    return {
+      vttPath,
+      spritePaths: spriteFiles.map((file) => path.join(spritesDir, file)),
+      interval: INTERVAL,
+    };
+  }
+
+  async extractAudio(inputPath: string, outputPath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const outputDir = path.dirname(outputPath);
+
+      // Ensure output directory exists
+      if (!fs.existsSync(outputDir)) {
+        fs.mkdirSync(outputDir, { recursive: true });
+      }
+
+      ffmpeg(inputPath)
+        .noVideo()
+        .audioChannels(1)
+        .audioFrequency(16000)
+        .audioCodec('pcm_s16le')
+        .format('wav')
+        .output(outputPath)
+        .on('end', () => {
+          resolve(outputPath);
+        })
+        .on('error', (err) => {
+          reject(new Error(`Failed to extract audio: ${err.message}`));
+        })
+        .run();
+    });
+  }
+
+  async measureLoudness(
+    inputPath: string,
+    targetLufs: number
+  ): Promise<LoudnessMeasurement> {
+    return new Promise((resolve, reject) => {
+      ffmpeg(inputPath)
+        .noVideo()
+        .audioFilters(buildLoudnormFilter(targetLufs))
+        .format('null')
+        .output('-')
+        .on('end', (_stdout, stderr) => {
+          try {
+            resolve(parseLoudnormOutput(stderr ?? '', targetLufs));
+          } catch (error) {
+            reject(error);
+          }
+        })
+        .on('error', (err) => {
+          reject(new Error(`Failed to measure loudness: ${err.message}`));
+        })
+        .run();
+    });
+  }
+
   async encodeToHLS(
     inputPath: string,
     outputDir: string,
     qualities: HLSQuality[] = DEFAULT_HLS_QUALITIES,
-    onProgress?: EncodingProgressCallback
+    onProgress?: EncodingProgressCallback,
+    options: HLSEncodingOptions = {}
   ): Promise<HLSEncodingResult> {
     const startTime = Date.now();
 
@@ -185,6 +859,22 @@ export class FFmpegService implements IFFmpegService {
       (q) => q.height <= metadata.height
     );
 
+    // The audio is encoded once, as the rendition every variant plays (at
+    // the highest audio bitrate of the ladder)
+    const audio =
+      metadata.hasAudio && applicableQualities.length > 0
+        ? await this.encodeAudio(
+            inputPath,
+            path.join(outputDir, AUDIO_GROUP_ID),
+            Math.max(...applicableQualities.map((q) => q.audioBitrate)),
+            options
+          )
+        : undefined;
+    const audioPlaylist = audio && {
+      playlistPath: audio.playlistPath,
+      segmentsDir: audio.segmentsDir,
+    };
+
     if (ENCODING_CONFIG.ENABLE_PARALLEL) {
       // PARALLEL ENCODING: Encode all qualities simultaneously using Promise.allSettled
       // This is 2.5-3x faster than sequential encoding
@@ -209,7 +899,8 @@ export class FFmpegService implements IFFmpegService {
                 timemark,
               });
             }
-          }
+          },
+          options
         )
           .then(() => ({
             status: 'fulfilled' as const,
@@ -245,14 +936,31 @@ export class FFmpegService implements IFFmpegService {
         }
       }
 
-      // Generate master playlist with successfully encoded qualities
+      // Generate master playlist (and DASH manifest) with successfully
+      // encoded qualities
       const masterPlaylistPath = path.join(outputDir, 'master.m3u8');
+      let dashManifestPath: string | undefined;
       if (variantPlaylists.length > 0) {
-        await this.generateMasterPlaylist(masterPlaylistPath, variantPlaylists);
+        await this.generateMasterPlaylist(
+          masterPlaylistPath,
+          variantPlaylists,
+          applicableQualities,
+          audio
+        );
+        dashManifestPath = this.generateDashManifest(
+          outputDir,
+          variantPlaylists,
+          applicableQualities,
+          options,
+          audio
+        );
       }
 
       return {
         masterPlaylistPath,
+        dashManifestPath,
+        packaging: options.packaging ?? 'ts',
+        audioPlaylist,
         variantPlaylists,
         encodingTime: Date.now() - startTime,
         failedQualities,
@@ -282,7 +990,8 @@ export class FFmpegService implements IFFmpegService {
                 timemark,
               });
             }
-          }
+          },
+          options
         );
 
         variantPlaylists.push({
@@ -292,12 +1001,27 @@ export class FFmpegService implements IFFmpegService {
         });
       }
 
-      // Generate master playlist
+      // Generate master playlist (and DASH manifest)
       const masterPlaylistPath = path.join(outputDir, 'master.m3u8');
-      await this.generateMasterPlaylist(masterPlaylistPath, variantPlaylists);
+      await this.generateMasterPlaylist(
+        masterPlaylistPath,
+        variantPlaylists,
+        applicableQualities,
+        audio
+      );
+      const dashManifestPath = this.generateDashManifest(
+        outputDir,
+        variantPlaylists,
+        applicableQualities,
+        options,
+        audio
+      );
 
       return {
         masterPlaylistPath,
+        dashManifestPath,
+        packaging: options.packaging ?? 'ts',
+        audioPlaylist,
         variantPlaylists,
         encodingTime: Date.now() - startTime,
       };
@@ -350,14 +1074,14 @@ export class FFmpegService implements IFFmpegService {
     inputPath: string,
     outputDir: string,
     quality: HLSQuality,
-    onProgress: (percent: number, frames: number, timemark: string) => void
+    onProgress: (percent: number, frames: number, timemark: string) => void,
+    options: HLSEncodingOptions = {}
   ): Promise<void> {
     // Check if NVENC is available
     const useNvenc = await this.checkNvencAvailability();
 
     return new Promise((resolve, reject) => {
       const playlistPath = path.join(outputDir, 'playlist.m3u8');
-      const segmentPattern = path.join(outputDir, 'segment_%03d.ts');
       const commandKey = `${quality.name}-${Date.now()}`;
 
       let command = ffmpeg(inputPath);
@@ -402,20 +1126,19 @@ export class FFmpegService implements IFFmpegService {
           ]);
       }
 
-      // Common settings for both GPU and CPU
+      // Common settings for both GPU and CPU: the audio is its own
+      // rendition, shared by all qualities
+      command.noAudio();
+      if (options.packaging === 'cmaf') {
+        // Segments start at the same times in every quality, so DASH
+        // players can switch between them
+        command.addOptions([
+          `-force_key_frames expr:gte(t,n_forced*${HLS_SEGMENT_DURATION})`,
+        ]);
+      }
+      const removeKey = this.addHlsOutputOptions(command, outputDir, options);
+
       command
-        // Audio settings
-        .audioCodec('aac')
-        .audioBitrate(`${quality.audioBitrate}k`)
-        .audioChannels(2)
-        // HLS settings
-        .addOptions([
-          '-f hls',
-          '-hls_time 6',
-          '-hls_list_size 0',
-          `-hls_segment_filename ${segmentPattern}`,
-          '-hls_playlist_type vod',
-        ])
         .output(playlistPath)
         .on('progress', (progress) => {
           onProgress(
@@ -426,15 +1149,21 @@ export class FFmpegService implements IFFmpegService {
         })
         .on('end', () => {
           this.activeCommands.delete(commandKey);
+          removeKey();
           console.log(
-            `  ✅ Successfully encoded ${quality.name} with ${useNvenc ? 'GPU' : 'CPU'}`
+            `  ✅ Successfully encoded ${quality.name} with ${
+              useNvenc ? 'GPU' : 'CPU'
+            }`
           );
           resolve();
         })
         .on('error', (err) => {
           this.activeCommands.delete(commandKey);
+          removeKey();
           console.error(
-            `  ❌ Failed to encode ${quality.name} with ${useNvenc ? 'GPU' : 'CPU'}:`,
+            `  ❌ Failed to encode ${quality.name} with ${
+              useNvenc ? 'GPU' : 'CPU'
+            }:`,
             err.message
           );
           reject(new Error(`Failed to encode ${quality.name}: ${err.message}`));
@@ -446,33 +1175,132 @@ export class FFmpegService implements IFFmpegService {
     });
   }
 
+  /**
+   * The audio rendition: the audio alone, normalized to the target
+   * loudness when measured, in segments of the same length as the video's
+   */
+  private encodeAudio(
+    inputPath: string,
+    outputDir: string,
+    bitrate: number,
+    options: HLSEncodingOptions
+  ): Promise<AudioRendition> {
+    if (!fs.existsSync(outputDir)) {
+      fs.mkdirSync(outputDir, { recursive: true });
+    }
+
+    return new Promise((resolve, reject) => {
+      const playlistPath = path.join(outputDir, 'playlist.m3u8');
+      const command = ffmpeg(inputPath)
+        .noVideo()
+        .audioCodec('aac')
+        .audioBitrate(`${bitrate}k`)
+        .audioChannels(2)
+        .audioFrequency(LOUDNESS_CONFIG.SAMPLE_RATE);
+
+      if (options.loudness) {
+        command.audioFilters(
+          buildLoudnormFilter(options.loudness.targetLufs, options.loudness)
+        );
+      }
+      const removeKey = this.addHlsOutputOptions(command, outputDir, options);
+
+      command
+        .output(playlistPath)
+        .on('end', () => {
+          removeKey();
+          console.log(`  ✅ Successfully encoded audio at ${bitrate}kbps`);
+          resolve({ playlistPath, segmentsDir: outputDir, bitrate });
+        })
+        .on('error', (err) => {
+          removeKey();
+          reject(new Error(`Failed to encode audio: ${err.message}`));
+        })
+        .run();
+    });
+  }
+
+  /**
+   * HLS output settings shared by the video variants and the audio
+   * rendition: segment files (fMP4 with CMAF packaging) and the encryption
+   * key. The key goes to a private temp dir, never next to the segments
+   * that get uploaded; the returned function removes it.
+   */
+  private addHlsOutputOptions(
+    command: ffmpeg.FfmpegCommand,
+    outputDir: string,
+    options: HLSEncodingOptions
+  ): () => void {
+    const { encryption } = options;
+    const cmaf = options.packaging === 'cmaf';
+    const segmentPrefix = encryption
+      ? `segment_${encryption.keyId}_`
+      : 'segment_';
+    const segmentPattern = path.join(
+      outputDir,
+      `${segmentPrefix}%03d.${cmaf ? 'm4s' : 'ts'}`
+    );
+
+    command.addOptions([
+      '-f hls',
+      `-hls_time ${HLS_SEGMENT_DURATION}`,
+      '-hls_list_size 0',
+      `-hls_segment_filename ${segmentPattern}`,
+      '-hls_playlist_type vod',
+    ]);
+
+    if (cmaf) {
+      command.addOptions([
+        '-hls_segment_type fmp4',
+        `-hls_fmp4_init_filename ${segmentPrefix}init.mp4`,
+      ]);
+    }
+
+    if (!encryption) {
+      return () => undefined;
+    }
+
+    const keyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hls-key-'));
+    const keyPath = path.join(keyDir, 'segments.key');
+    const keyInfoPath = path.join(keyDir, 'segments.keyinfo');
+    fs.writeFileSync(keyPath, encryption.key, { mode: 0o600 });
+    fs.writeFileSync(keyInfoPath, buildHlsKeyInfo(encryption.keyUri, keyPath), {
+      mode: 0o600,
+    });
+    command.addOptions([`-hls_key_info_file ${keyInfoPath}`]);
+
+    return () => fs.rmSync(keyDir, { recursive: true, force: true });
+  }
+
   private generateMasterPlaylist(
     masterPath: string,
-    variants: HLSEncodingResult['variantPlaylists']
+    variants: HLSEncodingResult['variantPlaylists'],
+    qualities: HLSQuality[],
+    audio?: AudioRendition
   ): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
-        const bandwidthMap: Record<string, number> = {
-          '1080p': 2800000,
-          '720p': 1400000,
-          '480p': 800000,
-          '360p': 400000,
-        };
-
-        const resolutionMap: Record<string, string> = {
-          '1080p': '1920x1080',
-          '720p': '1280x720',
-          '480p': '854x480',
-          '360p': '640x360',
-        };
-
         let content = '#EXTM3U\n#EXT-X-VERSION:3\n\n';
 
+        // Every variant plays the one audio rendition
+        if (audio) {
+          content +=
+            `#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="${AUDIO_GROUP_ID}",` +
+            'NAME="Audio",DEFAULT=YES,AUTOSELECT=YES,CHANNELS="2",' +
+            `URI="${AUDIO_GROUP_ID}/playlist.m3u8"\n\n`;
+        }
+        const codecs = audio ? `${VIDEO_CODEC},${AUDIO_CODEC}` : VIDEO_CODEC;
+        const audioAttributes = audio ? `,AUDIO="${AUDIO_GROUP_ID}"` : '';
+
         for (const variant of variants) {
-          const bandwidth = bandwidthMap[variant.quality] || 1000000;
-          const resolution = resolutionMap[variant.quality] || '1280x720';
+          const { bandwidth, width, height } = getVariantInfo(
+            variant.quality,
+            qualities
+          );
+          // A variant's bandwidth includes the audio it plays
+          const totalBandwidth = bandwidth + (audio ? audio.bitrate * 1000 : 0);
 
-          content += `#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},RESOLUTION=${resolution}\n`;
+          content += `#EXT-X-STREAM-INF:BANDWIDTH=${totalBandwidth},RESOLUTION=${width}x${height},CODECS="${codecs}"${audioAttributes}\n`;
           content += `${variant.quality}/playlist.m3u8\n`;
         }
 
@@ -483,6 +1311,67 @@ export class FFmpegService implements IFFmpegService {
       }
     });
   }
+
+  /**
+   * DASH manifest over the CMAF segments of the variants and the audio
+   * rendition, built from their media playlists. Returns its path, or
+   * undefined when the segments cannot be played with DASH (MPEG-TS, or
+   * AES-128 encrypted).
+   */
+  private generateDashManifest(
+    outputDir: string,
+    variants: HLSEncodingResult['variantPlaylists'],
+    qualities: HLSQuality[],
+    options: HLSEncodingOptions,
+    audio?: AudioRendition
+  ): string | undefined {
+    if (options.packaging !== 'cmaf' || options.encryption) {
+      return undefined;
+    }
+
+    const toRepresentation = (
+      name: string,
+      playlistPath: string
+    ): Pick<DashRepresentation, 'id' | 'initialization' | 'segments'> => {
+      const playlist = parseHlsMediaPlaylist(
+        fs.readFileSync(playlistPath, 'utf8')
+      );
+      if (!playlist.initialization) {
+        throw new Error(`No init segment in ${name} playlist`);
+      }
+
+      return {
+        id: name,
+        initialization: `${name}/${playlist.initialization}`,
+        segments: playlist.segments.map((segment) => ({
+          uri: `${name}/${segment.uri}`,
+          duration: segment.duration,
+        })),
+      };
+    };
+
+    const video: DashRepresentation[] = variants.map((variant) => ({
+      ...toRepresentation(variant.quality, variant.playlistPath),
+      ...getVariantInfo(variant.quality, qualities),
+      codecs: VIDEO_CODEC,
+    }));
+    const audioRepresentations: DashRepresentation[] = audio
+      ? [
+          {
+            ...toRepresentation(AUDIO_GROUP_ID, audio.playlistPath),
+            bandwidth: audio.bitrate * 1000,
+            codecs: AUDIO_CODEC,
+          },
+        ]
+      : [];
+
+    const manifestPath = path.join(outputDir, 'manifest.mpd');
+    fs.writeFileSync(
+      manifestPath,
+      buildDashManifest(video, audioRepresentations)
+    );
+    return manifestPath;
+  }
 }
 
 /**
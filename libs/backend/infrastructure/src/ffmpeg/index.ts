@@ -4,5 +4,22 @@
 export {
   FFmpegService,
   createFFmpegService,
+  buildThumbnailsVtt,
+  buildHlsKeyInfo,
+  buildEncodingLadder,
+  buildDashManifest,
+  parseHlsMediaPlaylist,
+  buildLoudnormFilter,
+  parseLoudnormOutput,
+  scoreThumbnailFrame,
   ENCODING_CONFIG,
+  ENCODING_LADDER_CONFIG,
+  LOUDNESS_CONFIG,
+  THUMBNAIL_SPRITE_CONFIG,
+  THUMBNAIL_CANDIDATE_CONFIG,
+} from './ffmpeg.service.js';
+export type {
+  ThumbnailSpriteLayout,
+  HlsMediaPlaylist,
+  DashRepresentation,
 } from './ffmpeg.service.js';
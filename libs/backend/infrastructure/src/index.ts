@@ -21,6 +21,21 @@ export * from './ffmpeg/index.js';
 // Notifications
 export * from './notifications/index.js';
 
+// Events
+export * from './events/index.js';
+
+// Realtime (push to connected clients)
+export * from './realtime/index.js';
+
+// Webhooks (signed HTTP deliveries)
+export * from './webhooks/index.js';
+
+// AI (embeddings)
+export * from './ai/index.js';
+
+// Transcription (speech-to-text)
+export * from './transcription/index.js';
+
 // Mappers
 export * from './mappers/index.js';
 
@@ -22,6 +22,8 @@ interface CamelCasePostRow {
   videoStatus?: string | null;
   videoHlsUrl?: string | null;
   videoThumbnailUrl?: string | null;
+  videoThumbnailsVttUrl?: string | null;
+  videoDashManifestUrl?: string | null;
   videoDuration?: number | null;
   videoWidth?: number | null;
   videoHeight?: number | null;
@@ -31,7 +33,7 @@ interface CamelCasePostRow {
   likeCount: number;
   commentCount: number;
   bookmarkCount: number;
-  embedding: number[] | null;
+  embedding: string | null;
   publishedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
@@ -52,6 +54,8 @@ export function toDomainPost(row: PostRow): PostEntity {
         status: camelRow.videoStatus ?? 'unknown',
         hlsUrl: camelRow.videoHlsUrl ?? null,
         thumbnailUrl: camelRow.videoThumbnailUrl ?? null,
+        thumbnailsVttUrl: camelRow.videoThumbnailsVttUrl ?? null,
+        dashManifestUrl: camelRow.videoDashManifestUrl ?? null,
         duration: camelRow.videoDuration ?? null,
         width: camelRow.videoWidth ?? null,
         height: camelRow.videoHeight ?? null,
@@ -74,7 +78,7 @@ export function toDomainPost(row: PostRow): PostEntity {
     likeCount: camelRow.likeCount,
     commentCount: camelRow.commentCount,
     bookmarkCount: camelRow.bookmarkCount,
-    embedding: camelRow.embedding ?? null,
+    embedding: parseVectorLiteral(camelRow.embedding),
     publishedAt: camelRow.publishedAt ?? null,
     createdAt: camelRow.createdAt,
     updatedAt: camelRow.updatedAt,
@@ -105,7 +109,7 @@ export function toNewPostRow(entity: PostEntity): NewPost {
     like_count: data.likeCount,
     comment_count: data.commentCount,
     bookmark_count: data.bookmarkCount,
-    embedding: data.embedding,
+    embedding: toVectorLiteral(data.embedding),
     published_at: data.publishedAt,
     created_at: data.createdAt,
     updated_at: data.updatedAt,
@@ -131,9 +135,28 @@ export function toPostUpdateRow(entity: PostEntity): PostUpdate {
     like_count: data.likeCount,
     comment_count: data.commentCount,
     bookmark_count: data.bookmarkCount,
-    embedding: data.embedding,
+    embedding: toVectorLiteral(data.embedding),
     published_at: data.publishedAt,
     updated_at: new Date(),
     deleted_at: data.deletedAt,
   };
 }
+
+/**
+ * Serialize an embedding to the pgvector text format ('[1,2,3]')
+ */
+export function toVectorLiteral(embedding: number[] | null): string | null {
+  return embedding ? `[${embedding.join(',')}]` : null;
+}
+
+/**
+ * Parse a pgvector text value ('[1,2,3]') into numbers
+ */
+export function parseVectorLiteral(
+  value: string | number[] | null | undefined
+): number[] | null {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return value;
+  const inner = value.trim().replace(/^\[|\]$/g, '');
+  return inner ? inner.split(',').map(Number) : [];
+}
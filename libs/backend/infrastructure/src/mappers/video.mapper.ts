@@ -23,6 +23,8 @@ interface CamelCaseVideoRow {
   rawFilePath: string | null;
   hlsMasterUrl: string | null;
   thumbnailUrl: string | null;
+  thumbnailsVttUrl: string | null;
+  dashManifestUrl: string | null;
   availableQualities: Record<string, unknown>[];
   retryCount: number;
   errorMessage: string | null;
@@ -61,6 +63,8 @@ export function toDomainVideo(row: VideoRow): VideoEntity {
     rawFilePath: camelRow.rawFilePath ?? null,
     hlsMasterUrl: camelRow.hlsMasterUrl ?? null,
     thumbnailUrl: camelRow.thumbnailUrl ?? null,
+    thumbnailsVttUrl: camelRow.thumbnailsVttUrl ?? null,
+    dashManifestUrl: camelRow.dashManifestUrl ?? null,
     availableQualities: (camelRow.availableQualities ?? []) as unknown as (
       | '1080p'
       | '720p'
@@ -98,6 +102,8 @@ export function toNewVideoRow(entity: VideoEntity): NewVideo {
     raw_file_path: data.rawFilePath,
     hls_master_url: data.hlsMasterUrl,
     thumbnail_url: data.thumbnailUrl,
+    thumbnails_vtt_url: data.thumbnailsVttUrl,
+    dash_manifest_url: data.dashManifestUrl,
     available_qualities: data.availableQualities as unknown as Record<
       string,
       unknown
@@ -126,6 +132,8 @@ export function toVideoUpdateRow(entity: VideoEntity): VideoUpdate {
     raw_file_path: data.rawFilePath,
     hls_master_url: data.hlsMasterUrl,
     thumbnail_url: data.thumbnailUrl,
+    thumbnails_vtt_url: data.thumbnailsVttUrl,
+    dash_manifest_url: data.dashManifestUrl,
     available_qualities: data.availableQualities as unknown as Record<
       string,
       unknown
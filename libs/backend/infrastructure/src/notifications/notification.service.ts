@@ -2,11 +2,10 @@
  * Notification Service Implementation
  *
  * Handles notifications for video encoding events.
- * Currently logs to console, can be extended to support:
- * - Email notifications
- * - WebSocket/SSE for real-time updates
+ * In-app notifications, emails, realtime pushes and webhooks are sent by
+ * the api-server from the video.processing_completed/failed domain events;
+ * this service only logs. Can be extended to support:
  * - Push notifications
- * - Webhook callbacks
  */
 
 import type {
@@ -30,11 +29,7 @@ export class NotificationService implements INotificationService {
       hlsUrl: data.hlsUrl,
     });
 
-    // TODO: Implement actual notification delivery:
-    // - Send email to user
-    // - Push WebSocket notification to connected clients
-    // - Send push notification to mobile devices
-    // - Trigger webhook if configured
+    // TODO: Send push notification to mobile devices
   }
 
   async notifyVideoPartialReady(data: VideoNotificationData): Promise<void> {
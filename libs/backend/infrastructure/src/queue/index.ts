@@ -4,3 +4,5 @@
 
 export * from './video-queue.service.js';
 export * from './quality-retry-queue.service.js';
+export * from './webhook-queue.service.js';
+export * from './transcription-queue.service.js';
@@ -0,0 +1,109 @@
+/**
+ * Transcription Queue Service
+ *
+ * BullMQ queue for speech-to-text jobs, kept apart from the encoding queue
+ * so a slow transcription never holds up encoding the next video.
+ */
+
+import { Queue, QueueEvents, Worker } from 'bullmq';
+import type { RedisOptions } from 'ioredis';
+import type {
+  ITranscriptionQueue,
+  TranscriptionJob,
+  TranscriptionJobHandler,
+} from '@blog/backend/core';
+
+/** Queue name for transcription jobs */
+export const TRANSCRIPTION_QUEUE = 'video-transcription';
+
+export interface TranscriptionQueueConfig {
+  redis: RedisOptions;
+  /** Attempts per video (default: 2) */
+  maxAttempts?: number;
+  /** Videos transcribed at the same time (default: 1) */
+  concurrency?: number;
+}
+
+export class TranscriptionQueueService implements ITranscriptionQueue {
+  private queue: Queue<TranscriptionJob>;
+  private queueEvents: QueueEvents;
+  private worker: Worker<TranscriptionJob> | null = null;
+
+  constructor(private readonly config: TranscriptionQueueConfig) {
+    this.queue = new Queue<TranscriptionJob>(TRANSCRIPTION_QUEUE, {
+      connection: config.redis,
+      defaultJobOptions: {
+        attempts: config.maxAttempts ?? 2,
+        backoff: {
+          type: 'exponential',
+          delay: 60000,
+        },
+        removeOnComplete: {
+          age: 24 * 3600,
+          count: 1000,
+        },
+        removeOnFail: {
+          age: 7 * 24 * 3600,
+        },
+      },
+    });
+
+    this.queueEvents = new QueueEvents(TRANSCRIPTION_QUEUE, {
+      connection: config.redis,
+    });
+
+    this.queueEvents.on('failed', ({ jobId, failedReason }) => {
+      console.error(`❌ Transcription job ${jobId} failed:`, failedReason);
+    });
+  }
+
+  async enqueue(job: TranscriptionJob): Promise<void> {
+    // One job per video; a finished one is replaced when it is re-encoded
+    const jobId = `transcribe-${job.videoId}`;
+    const existing = await this.queue.getJob(jobId);
+    if (existing && (await existing.isCompleted())) {
+      await existing.remove();
+    }
+    await this.queue.add('transcribe', job, { jobId });
+  }
+
+  process(handler: TranscriptionJobHandler): void {
+    if (this.worker) return;
+
+    this.worker = new Worker<TranscriptionJob>(
+      TRANSCRIPTION_QUEUE,
+      async (job) => {
+        await handler(job.data);
+      },
+      {
+        connection: this.config.redis,
+        concurrency: this.config.concurrency ?? 1,
+        // Long recordings take a while on CPU
+        lockDuration: 5 * 60 * 1000,
+      }
+    );
+
+    this.worker.on('error', (error) => {
+      console.error('❌ Transcription worker error:', error);
+    });
+  }
+
+  /**
+   * Close the worker and the queue
+   */
+  async close(): Promise<void> {
+    await this.worker?.close();
+    await this.queueEvents.close();
+    await this.queue.close();
+    console.log('📦 Transcription queue service closed');
+  }
+}
+
+/**
+ * Factory function to create TranscriptionQueueService
+ */
+export function createTranscriptionQueueService(
+  config: TranscriptionQueueConfig
+): TranscriptionQueueService {
+  return new TranscriptionQueueService(config);
+}
@@ -0,0 +1,106 @@
+/**
+ * Webhook Queue Service
+ *
+ * BullMQ queue for webhook deliveries. Failed attempts are retried with
+ * exponential backoff (30s, 1m, 2m, ... about 1 hour in total) before the
+ * delivery is given up on.
+ */
+
+import { Queue, QueueEvents, Worker } from 'bullmq';
+import type { RedisOptions } from 'ioredis';
+import type {
+  IWebhookQueue,
+  WebhookDeliveryHandler,
+  WebhookDeliveryJob,
+} from '@blog/backend/core';
+
+/** Queue name for webhook delivery jobs */
+export const WEBHOOK_DELIVERY_QUEUE = 'webhook-delivery';
+
+export interface WebhookQueueConfig {
+  redis: RedisOptions;
+  /** Attempts per delivery (default: 8) */
+  maxAttempts?: number;
+  /** Deliveries sent at the same time (default: 5) */
+  concurrency?: number;
+}
+
+export class WebhookQueueService implements IWebhookQueue {
+  private queue: Queue<WebhookDeliveryJob>;
+  private queueEvents: QueueEvents;
+  private worker: Worker<WebhookDeliveryJob> | null = null;
+
+  constructor(private readonly config: WebhookQueueConfig) {
+    this.queue = new Queue<WebhookDeliveryJob>(WEBHOOK_DELIVERY_QUEUE, {
+      connection: config.redis,
+      defaultJobOptions: {
+        attempts: config.maxAttempts ?? 8,
+        backoff: {
+          type: 'exponential',
+          delay: 30000, // Start with 30s
+        },
+        removeOnComplete: {
+          age: 24 * 3600,
+          count: 1000,
+        },
+        removeOnFail: {
+          age: 7 * 24 * 3600,
+        },
+      },
+    });
+
+    this.queueEvents = new QueueEvents(WEBHOOK_DELIVERY_QUEUE, {
+      connection: config.redis,
+    });
+
+    this.queueEvents.on('failed', ({ jobId, failedReason }) => {
+      console.error(`❌ Webhook delivery job ${jobId} failed:`, failedReason);
+    });
+  }
+
+  async enqueue(job: WebhookDeliveryJob): Promise<void> {
+    // The delivery id doubles as job id, so a delivery is queued only once
+    await this.queue.add('deliver', job, { jobId: job.deliveryId });
+  }
+
+  process(handler: WebhookDeliveryHandler): void {
+    if (this.worker) return;
+
+    this.worker = new Worker<WebhookDeliveryJob>(
+      WEBHOOK_DELIVERY_QUEUE,
+      async (job) => {
+        await handler(job.data, {
+          attempt: job.attemptsMade + 1,
+          maxAttempts: job.opts.attempts ?? 1,
+        });
+      },
+      {
+        connection: this.config.redis,
+        concurrency: this.config.concurrency ?? 5,
+      }
+    );
+
+    this.worker.on('error', (error) => {
+      console.error('❌ Webhook worker error:', error);
+    });
+  }
+
+  /**
+   * Close the worker and the queue
+   */
+  async close(): Promise<void> {
+    await this.worker?.close();
+    await this.queueEvents.close();
+    await this.queue.close();
+    console.log('📦 Webhook queue service closed');
+  }
+}
+
+/**
+ * Factory function to create WebhookQueueService
+ */
+export function createWebhookQueueService(
+  config: WebhookQueueConfig
+): WebhookQueueService {
+  return new WebhookQueueService(config);
+}
@@ -0,0 +1,75 @@
+/**
+ * In-Memory Realtime Gateway
+ *
+ * Delivers realtime messages to subscribers in the same process. Used in
+ * tests and single-instance setups without Redis, where the video-worker
+ * cannot reach the API's clients.
+ */
+
+import type {
+  IRealtimeGateway,
+  RealtimeHandler,
+  RealtimeMessage,
+} from '@blog/backend/core';
+
+export class InMemoryRealtimeGateway implements IRealtimeGateway {
+  private readonly handlers = new Map<string, Set<RealtimeHandler>>();
+
+  async publish(
+    channel: string,
+    type: string,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    this.dispatch({ channel, type, data });
+  }
+
+  subscribe(channels: string[], handler: RealtimeHandler): () => void {
+    for (const channel of channels) {
+      let handlers = this.handlers.get(channel);
+      if (!handlers) {
+        handlers = new Set();
+        this.handlers.set(channel, handlers);
+      }
+      handlers.add(handler);
+    }
+
+    return () => {
+      for (const channel of channels) {
+        const handlers = this.handlers.get(channel);
+        handlers?.delete(handler);
+        if (handlers?.size === 0) {
+          this.handlers.delete(channel);
+        }
+      }
+    };
+  }
+
+  /**
+   * Hand a message to the handlers of its channel. A failing handler is
+   * logged and does not stop the others.
+   */
+  dispatch(message: RealtimeMessage): void {
+    for (const handler of this.handlers.get(message.channel) ?? []) {
+      try {
+        handler(message);
+      } catch (error) {
+        console.error(
+          `❌ Realtime handler failed for ${message.type} on ${message.channel}:`,
+          error
+        );
+      }
+    }
+  }
+
+  /** Whether the channel has at least one subscriber */
+  has(channel: string): boolean {
+    return this.handlers.has(channel);
+  }
+}
+
+/**
+ * Create an InMemoryRealtimeGateway instance
+ */
+export function createInMemoryRealtimeGateway(): InMemoryRealtimeGateway {
+  return new InMemoryRealtimeGateway();
+}
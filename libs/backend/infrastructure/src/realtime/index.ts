@@ -0,0 +1,14 @@
+/**
+ * Realtime Gateway - Barrel Export
+ */
+
+export {
+  InMemoryRealtimeGateway,
+  createInMemoryRealtimeGateway,
+} from './in-memory-realtime.gateway.js';
+export {
+  RedisPubSubRealtimeGateway,
+  createRedisPubSubRealtimeGateway,
+  REALTIME_CHANNEL_PREFIX,
+  type RedisPubSubRealtimeGatewayConfig,
+} from './redis-pubsub-realtime.gateway.js';
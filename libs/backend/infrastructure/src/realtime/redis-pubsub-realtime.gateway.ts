@@ -0,0 +1,125 @@
+/**
+ * Redis Pub/Sub Realtime Gateway
+ *
+ * Fans realtime messages out through Redis pub/sub so that any process
+ * (e.g. the video-worker) can reach clients connected to any api-server
+ * instance. The subscriber connection is opened on the first subscribe()
+ * and each Redis channel is subscribed once per process, however many
+ * clients listen to it. Processes that only publish never open it.
+ */
+
+import { Redis, type RedisOptions } from 'ioredis';
+import type {
+  IRealtimeGateway,
+  RealtimeHandler,
+  RealtimeMessage,
+} from '@blog/backend/core';
+import { InMemoryRealtimeGateway } from './in-memory-realtime.gateway.js';
+
+/** Default prefix of the Redis channels */
+export const REALTIME_CHANNEL_PREFIX = 'realtime:';
+
+export interface RedisPubSubRealtimeGatewayConfig {
+  /** Redis connection options */
+  redis: RedisOptions;
+  /** Redis channel prefix (default: 'realtime:') */
+  channelPrefix?: string;
+}
+
+export class RedisPubSubRealtimeGateway implements IRealtimeGateway {
+  private readonly publisher: Redis;
+  private subscriber: Redis | null = null;
+  private readonly local = new InMemoryRealtimeGateway();
+  private readonly prefix: string;
+
+  constructor(private readonly config: RedisPubSubRealtimeGatewayConfig) {
+    this.publisher = new Redis(config.redis);
+    this.prefix = config.channelPrefix ?? REALTIME_CHANNEL_PREFIX;
+  }
+
+  async publish(
+    channel: string,
+    type: string,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await this.publisher.publish(
+        this.prefix + channel,
+        JSON.stringify({ type, data })
+      );
+    } catch (error) {
+      console.error(`❌ Failed to publish ${type} on ${channel}:`, error);
+    }
+  }
+
+  subscribe(channels: string[], handler: RealtimeHandler): () => void {
+    const subscriber = this.getSubscriber();
+
+    // Only channels nobody in this process listens to yet
+    const added = channels.filter((channel) => !this.local.has(channel));
+    const unsubscribeLocal = this.local.subscribe(channels, handler);
+    if (added.length > 0) {
+      subscriber
+        .subscribe(...added.map((channel) => this.prefix + channel))
+        .catch((error) =>
+          console.error('❌ Failed to subscribe to realtime channels:', error)
+        );
+    }
+
+    return () => {
+      unsubscribeLocal();
+
+      const removed = channels.filter((channel) => !this.local.has(channel));
+      if (removed.length > 0) {
+        subscriber
+          .unsubscribe(...removed.map((channel) => this.prefix + channel))
+          .catch((error) =>
+            console.error(
+              '❌ Failed to unsubscribe from realtime channels:',
+              error
+            )
+          );
+      }
+    };
+  }
+
+  private getSubscriber(): Redis {
+    if (this.subscriber) return this.subscriber;
+
+    this.subscriber = new Redis(this.config.redis);
+    this.subscriber.on('message', (redisChannel: string, raw: string) => {
+      try {
+        const { type, data } = JSON.parse(raw) as Omit<
+          RealtimeMessage,
+          'channel'
+        >;
+        this.local.dispatch({
+          channel: redisChannel.slice(this.prefix.length),
+          type,
+          data,
+        });
+      } catch (error) {
+        console.error(`❌ Invalid realtime message on ${redisChannel}:`, error);
+      }
+    });
+
+    return this.subscriber;
+  }
+
+  /**
+   * Close the Redis connections
+   */
+  async close(): Promise<void> {
+    await Promise.all([this.publisher.quit(), this.subscriber?.quit()]);
+    this.subscriber = null;
+  }
+}
+
+/**
+ * Create a RedisPubSubRealtimeGateway instance
+ */
+export function createRedisPubSubRealtimeGateway(
+  config: RedisPubSubRealtimeGatewayConfig
+): RedisPubSubRealtimeGateway {
+  return new RedisPubSubRealtimeGateway(config);
+}
@@ -0,0 +1,240 @@
+/**
+ * PostgreSQL Analytics Repository
+ *
+ * Implementation of IAnalyticsRepository using Kysely (raw SQL aggregates).
+ */
+
+import { sql, type Kysely, type RawBuilder } from 'kysely';
+import type { Database } from '../database/types.js';
+import type {
+  IAnalyticsRepository,
+  AnalyticsRange,
+  AnalyticsTotals,
+  AnalyticsDailyPoint,
+  PostAnalytics,
+  CompletionBucket,
+  ReferrerCount,
+} from '@blog/backend/core';
+
+const COMPLETION_BUCKET_SIZE = 10;
+
+/**
+ * 'YYYY-MM-DD' of a range bound (UTC calendar day)
+ */
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * SQL predicate: column falls on a day of the range
+ */
+function inRange(column: RawBuilder<unknown>, range: AnalyticsRange) {
+  return sql<boolean>`${column} >= ${toDay(
+    range.from
+  )}::date AND ${column} < ${toDay(range.to)}::date + 1`;
+}
+
+export class PostgresAnalyticsRepository implements IAnalyticsRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async getTotals(
+    authorId: string,
+    range: AnalyticsRange
+  ): Promise<AnalyticsTotals> {
+    const result = await sql<{
+      views: number;
+      uniqueViewers: number;
+      likes: number;
+      comments: number;
+      bookmarks: number;
+      newFollowers: number;
+      videoViews: number;
+      avgCompletionRate: number | null;
+    }>`
+      SELECT
+        (SELECT COUNT(*)::int FROM post_views pv JOIN posts p ON p.id = pv.post_id
+          WHERE p.author_id = ${authorId} AND pv.is_bot IS NOT TRUE
+            AND ${inRange(sql`pv.viewed_at`, range)}) AS views,
+        (SELECT COUNT(DISTINCT pv.session_id)::int FROM post_views pv JOIN posts p ON p.id = pv.post_id
+          WHERE p.author_id = ${authorId} AND pv.is_bot IS NOT TRUE
+            AND ${inRange(sql`pv.viewed_at`, range)}) AS unique_viewers,
+        (SELECT COUNT(*)::int FROM likes l JOIN posts p ON p.id = l.post_id
+          WHERE p.author_id = ${authorId}
+            AND ${inRange(sql`l.created_at`, range)}) AS likes,
+        (SELECT COUNT(*)::int FROM comments c JOIN posts p ON p.id = c.post_id
+          WHERE p.author_id = ${authorId} AND c.deleted_at IS NULL AND c.status = 'approved'
+            AND ${inRange(sql`c.created_at`, range)}) AS comments,
+        (SELECT COUNT(*)::int FROM bookmarks b JOIN posts p ON p.id = b.post_id
+          WHERE p.author_id = ${authorId}
+            AND ${inRange(sql`b.created_at`, range)}) AS bookmarks,
+        (SELECT COUNT(*)::int FROM follows f
+          WHERE f.following_id = ${authorId}
+            AND ${inRange(sql`f.created_at`, range)}) AS new_followers,
+        (SELECT COUNT(*)::int FROM video_views vv JOIN posts p ON p.video_id = vv.video_id
+          WHERE p.author_id = ${authorId} AND vv.is_bot IS NOT TRUE
+            AND ${inRange(sql`vv.viewed_at`, range)}) AS video_views,
+        (SELECT AVG(vv.completion_rate) FROM video_views vv JOIN posts p ON p.video_id = vv.video_id
+          WHERE p.author_id = ${authorId} AND vv.is_bot IS NOT TRUE
+            AND ${inRange(sql`vv.viewed_at`, range)}) AS avg_completion_rate
+    `.execute(this.db);
+
+    // CamelCasePlugin transforms raw query aliases as well
+    const row = result.rows[0];
+    return {
+      views: row?.views ?? 0,
+      uniqueViewers: row?.uniqueViewers ?? 0,
+      likes: row?.likes ?? 0,
+      comments: row?.comments ?? 0,
+      bookmarks: row?.bookmarks ?? 0,
+      newFollowers: row?.newFollowers ?? 0,
+      videoViews: row?.videoViews ?? 0,
+      avgCompletionRate:
+        row?.avgCompletionRate === null || row?.avgCompletionRate === undefined
+          ? null
+          : Number(row.avgCompletionRate),
+    };
+  }
+
+  async getDailySeries(
+    authorId: string,
+    range: AnalyticsRange
+  ): Promise<AnalyticsDailyPoint[]> {
+    const result = await sql<AnalyticsDailyPoint>`
+      WITH days AS (
+        SELECT generate_series(
+          ${toDay(range.from)}::date,
+          ${toDay(range.to)}::date,
+          interval '1 day'
+        )::date AS day
+      ),
+      views AS (
+        SELECT pv.viewed_at::date AS day,
+          COUNT(*)::int AS views,
+          COUNT(DISTINCT pv.session_id)::int AS unique_viewers
+        FROM post_views pv JOIN posts p ON p.id = pv.post_id
+        WHERE p.author_id = ${authorId} AND pv.is_bot IS NOT TRUE
+          AND ${inRange(sql`pv.viewed_at`, range)}
+        GROUP BY 1
+      ),
+      post_likes AS (
+        SELECT l.created_at::date AS day, COUNT(*)::int AS likes
+        FROM likes l JOIN posts p ON p.id = l.post_id
+        WHERE p.author_id = ${authorId}
+          AND ${inRange(sql`l.created_at`, range)}
+        GROUP BY 1
+      ),
+      followers AS (
+        SELECT f.created_at::date AS day, COUNT(*)::int AS new_followers
+        FROM follows f
+        WHERE f.following_id = ${authorId}
+          AND ${inRange(sql`f.created_at`, range)}
+        GROUP BY 1
+      )
+      SELECT
+        to_char(days.day, 'YYYY-MM-DD') AS date,
+        COALESCE(views.views, 0) AS views,
+        COALESCE(views.unique_viewers, 0) AS unique_viewers,
+        COALESCE(post_likes.likes, 0) AS likes,
+        COALESCE(followers.new_followers, 0) AS new_followers
+      FROM days
+      LEFT JOIN views ON views.day = days.day
+      LEFT JOIN post_likes ON post_likes.day = days.day
+      LEFT JOIN followers ON followers.day = days.day
+      ORDER BY days.day
+    `.execute(this.db);
+
+    return result.rows;
+  }
+
+  async getPostBreakdown(
+    authorId: string,
+    range: AnalyticsRange,
+    limit: number
+  ): Promise<PostAnalytics[]> {
+    const result = await sql<PostAnalytics>`
+      SELECT * FROM (
+        SELECT
+          p.id AS post_id,
+          p.title,
+          p.slug,
+          p.status,
+          p.published_at,
+          p.view_count AS total_views,
+          (SELECT COUNT(*)::int FROM post_views pv
+            WHERE pv.post_id = p.id AND pv.is_bot IS NOT TRUE
+              AND ${inRange(sql`pv.viewed_at`, range)}) AS views,
+          (SELECT COUNT(DISTINCT pv.session_id)::int FROM post_views pv
+            WHERE pv.post_id = p.id AND pv.is_bot IS NOT TRUE
+              AND ${inRange(sql`pv.viewed_at`, range)}) AS unique_viewers,
+          (SELECT COUNT(*)::int FROM likes l
+            WHERE l.post_id = p.id
+              AND ${inRange(sql`l.created_at`, range)}) AS likes,
+          (SELECT COUNT(*)::int FROM comments c
+            WHERE c.post_id = p.id AND c.deleted_at IS NULL AND c.status = 'approved'
+              AND ${inRange(sql`c.created_at`, range)}) AS comments,
+          (SELECT COUNT(*)::int FROM bookmarks b
+            WHERE b.post_id = p.id
+              AND ${inRange(sql`b.created_at`, range)}) AS bookmarks
+        FROM posts p
+        WHERE p.author_id = ${authorId} AND p.deleted_at IS NULL
+      ) AS breakdown
+      ORDER BY views DESC, total_views DESC, published_at DESC NULLS LAST
+      LIMIT ${limit}
+    `.execute(this.db);
+
+    return result.rows;
+  }
+
+  async getVideoCompletionHistogram(
+    authorId: string,
+    range: AnalyticsRange
+  ): Promise<CompletionBucket[]> {
+    const result = await sql<{ bucket: number; views: number }>`
+      SELECT
+        LEAST(FLOOR(vv.completion_rate / ${COMPLETION_BUCKET_SIZE}), 9)::int AS bucket,
+        COUNT(*)::int AS views
+      FROM video_views vv JOIN posts p ON p.video_id = vv.video_id
+      WHERE p.author_id = ${authorId} AND vv.is_bot IS NOT TRUE
+        AND ${inRange(sql`vv.viewed_at`, range)}
+      GROUP BY 1
+    `.execute(this.db);
+
+    const viewsByBucket = new Map(
+      result.rows.map((row) => [row.bucket, row.views])
+    );
+    return Array.from({ length: 10 }, (_, bucket) => ({
+      from: bucket * COMPLETION_BUCKET_SIZE,
+      to: (bucket + 1) * COMPLETION_BUCKET_SIZE,
+      views: viewsByBucket.get(bucket) ?? 0,
+    }));
+  }
+
+  async getTopReferrers(
+    authorId: string,
+    range: AnalyticsRange,
+    limit: number
+  ): Promise<ReferrerCount[]> {
+    const result = await sql<ReferrerCount>`
+      SELECT
+        lower(substring(pv.referrer FROM '^(?:[a-zA-Z][a-zA-Z0-9+.-]*://)?([^/?#:]+)')) AS referrer,
+        COUNT(*)::int AS views
+      FROM post_views pv JOIN posts p ON p.id = pv.post_id
+      WHERE p.author_id = ${authorId} AND pv.is_bot IS NOT TRUE
+        AND ${inRange(sql`pv.viewed_at`, range)}
+      GROUP BY 1
+      ORDER BY views DESC, referrer NULLS LAST
+      LIMIT ${limit}
+    `.execute(this.db);
+
+    return result.rows;
+  }
+}
+
+/**
+ * Create a PostgresAnalyticsRepository instance
+ */
+export function createAnalyticsRepository(
+  db: Kysely<Database>
+): IAnalyticsRepository {
+  return new PostgresAnalyticsRepository(db);
+}
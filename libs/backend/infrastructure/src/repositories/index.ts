@@ -4,8 +4,16 @@
 
 export * from './user.repository.js';
 export * from './post.repository.js';
+export * from './post-chunk.repository.js';
 export * from './video.repository.js';
 export * from './video-quality.repository.js';
+export * from './video-upload.repository.js';
+export * from './video-caption.repository.js';
+export * from './video-transcript.repository.js';
+export * from './video-chapter.repository.js';
+export * from './video-thumbnail-candidate.repository.js';
+export * from './video-encryption-key.repository.js';
+export * from './video-loudness.repository.js';
 export * from './session.repository.js';
 export * from './category.repository.js';
 export * from './tag.repository.js';
@@ -18,3 +26,12 @@ export * from './comment.repository.js';
 export * from './comment-like.repository.js';
 export * from './bookmark.repository.js';
 export * from './bookmark-folder.repository.js';
+export * from './search-query.repository.js';
+export * from './view.repository.js';
+export * from './analytics.repository.js';
+export * from './outbox.repository.js';
+export * from './unit-of-work.js';
+export * from './notification.repository.js';
+export * from './notification-preference.repository.js';
+export * from './notification-digest.repository.js';
+export * from './webhook.repository.js';
@@ -0,0 +1,256 @@
+/**
+ * PostgreSQL Notification Digest Repository
+ *
+ * Implementation of INotificationDigestRepository using Kysely.
+ */
+
+import type { Kysely } from 'kysely';
+import type { Database } from '../database/types.js';
+import {
+  DEFAULT_DIGEST_FREQUENCY,
+  type INotificationDigestRepository,
+  type DigestContent,
+  type DigestContentOptions,
+  type DigestFrequency,
+  type DigestPost,
+  type DigestPostLikes,
+  type DigestRecipient,
+  type DigestReply,
+} from '@blog/backend/core';
+
+// Types for the rows after CamelCasePlugin transforms them
+interface CamelCaseRecipientRow {
+  userId: string;
+  email: string;
+  username: string;
+  fullName: string | null;
+  lastDigestSentAt: Date | null;
+}
+
+interface CamelCasePostLikesRow {
+  postId: string;
+  postSlug: string;
+  postTitle: string;
+  likeCount: string | number;
+}
+
+export class PostgresNotificationDigestRepository
+  implements INotificationDigestRepository
+{
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async findDueRecipients(
+    frequency: Exclude<DigestFrequency, 'off'>,
+    sentBefore: Date,
+    limit: number
+  ): Promise<DigestRecipient[]> {
+    const rows = await this.db
+      .selectFrom('users as u')
+      .leftJoin('notification_settings as s', 's.user_id', 'u.id')
+      .select([
+        'u.id as user_id',
+        'u.email',
+        'u.username',
+        'u.full_name',
+        's.last_digest_sent_at',
+      ])
+      .where('u.email_verified', '=', true)
+      .where('u.is_active', '=', true)
+      .where('u.deleted_at', 'is', null)
+      // Users without settings are on the default schedule
+      .where((eb) =>
+        frequency === DEFAULT_DIGEST_FREQUENCY
+          ? eb.or([
+              eb('s.digest_frequency', '=', frequency),
+              eb('s.digest_frequency', 'is', null),
+            ])
+          : eb('s.digest_frequency', '=', frequency)
+      )
+      .where((eb) =>
+        eb.or([
+          eb('s.last_digest_sent_at', 'is', null),
+          eb('s.last_digest_sent_at', '<', sentBefore),
+        ])
+      )
+      .orderBy('s.last_digest_sent_at', (ob) => ob.asc().nullsFirst())
+      .orderBy('u.id')
+      .limit(limit)
+      .execute();
+
+    return rows.map((row) => {
+      const r = row as unknown as CamelCaseRecipientRow;
+      return {
+        userId: r.userId,
+        email: r.email,
+        username: r.username,
+        fullName: r.fullName,
+        lastDigestSentAt: r.lastDigestSentAt,
+      };
+    });
+  }
+
+  async getContent(
+    userId: string,
+    since: Date,
+    options: DigestContentOptions
+  ): Promise<DigestContent> {
+    const [newPosts, replies, postLikes, commentLikeCount] = await Promise.all([
+      this.findNewPosts(userId, since, options.limit),
+      options.includeReplies
+        ? this.findReplies(userId, since, options.limit)
+        : Promise.resolve([]),
+      options.includeLikes
+        ? this.findPostLikes(userId, since, options.limit)
+        : Promise.resolve([]),
+      options.includeLikes
+        ? this.countCommentLikes(userId, since)
+        : Promise.resolve(0),
+    ]);
+
+    return { newPosts, replies, postLikes, commentLikeCount };
+  }
+
+  async markSent(userId: string, sentAt: Date): Promise<void> {
+    await this.db
+      .insertInto('notification_settings')
+      .values({ user_id: userId, last_digest_sent_at: sentAt })
+      .onConflict((oc) =>
+        oc.column('user_id').doUpdateSet({ last_digest_sent_at: sentAt })
+      )
+      .execute();
+  }
+
+  /**
+   * Public posts published by people the user follows
+   */
+  private async findNewPosts(
+    userId: string,
+    since: Date,
+    limit: number
+  ): Promise<DigestPost[]> {
+    const rows = await this.db
+      .selectFrom('posts as p')
+      .innerJoin('follows as f', 'f.following_id', 'p.author_id')
+      .innerJoin('users as a', 'a.id', 'p.author_id')
+      .select([
+        'p.id',
+        'p.slug',
+        'p.title',
+        'p.published_at',
+        'a.username as author_username',
+        'a.full_name as author_name',
+      ])
+      .where('f.follower_id', '=', userId)
+      .where('p.status', '=', 'published')
+      .where('p.visibility', '=', 'public')
+      .where('p.deleted_at', 'is', null)
+      .where('p.published_at', '>=', since)
+      .orderBy('p.published_at', 'desc')
+      .limit(limit)
+      .execute();
+
+    return rows as unknown as DigestPost[];
+  }
+
+  /**
+   * Comments by others on the user's posts or replying to their comments
+   */
+  private async findReplies(
+    userId: string,
+    since: Date,
+    limit: number
+  ): Promise<DigestReply[]> {
+    const rows = await this.db
+      .selectFrom('comments as c')
+      .innerJoin('posts as p', 'p.id', 'c.post_id')
+      .innerJoin('users as a', 'a.id', 'c.user_id')
+      .leftJoin('comments as parent', 'parent.id', 'c.parent_id')
+      .select([
+        'c.id as comment_id',
+        'c.content',
+        'c.created_at',
+        'p.slug as post_slug',
+        'p.title as post_title',
+        'a.username as author_username',
+        'a.full_name as author_name',
+      ])
+      .where('c.user_id', '!=', userId)
+      .where('c.status', '=', 'approved')
+      .where('c.deleted_at', 'is', null)
+      .where('c.created_at', '>=', since)
+      .where('p.deleted_at', 'is', null)
+      .where((eb) =>
+        eb.or([
+          eb('p.author_id', '=', userId),
+          eb('parent.user_id', '=', userId),
+        ])
+      )
+      .orderBy('c.created_at', 'desc')
+      .limit(limit)
+      .execute();
+
+    return rows as unknown as DigestReply[];
+  }
+
+  /**
+   * New likes by others per post of the user, most liked first
+   */
+  private async findPostLikes(
+    userId: string,
+    since: Date,
+    limit: number
+  ): Promise<DigestPostLikes[]> {
+    const rows = await this.db
+      .selectFrom('likes as l')
+      .innerJoin('posts as p', 'p.id', 'l.post_id')
+      .select((eb) => [
+        'p.id as post_id',
+        'p.slug as post_slug',
+        'p.title as post_title',
+        eb.fn.count<number>('l.id').as('like_count'),
+      ])
+      .where('p.author_id', '=', userId)
+      .where('p.deleted_at', 'is', null)
+      .where('l.user_id', '!=', userId)
+      .where('l.created_at', '>=', since)
+      .groupBy(['p.id', 'p.slug', 'p.title'])
+      .orderBy('like_count', 'desc')
+      .limit(limit)
+      .execute();
+
+    return rows.map((row) => {
+      const r = row as unknown as CamelCasePostLikesRow;
+      return {
+        postId: r.postId,
+        postSlug: r.postSlug,
+        postTitle: r.postTitle,
+        likeCount: Number(r.likeCount),
+      };
+    });
+  }
+
+  private async countCommentLikes(
+    userId: string,
+    since: Date
+  ): Promise<number> {
+    const result = await this.db
+      .selectFrom('comment_likes as cl')
+      .innerJoin('comments as c', 'c.id', 'cl.comment_id')
+      .select(this.db.fn.countAll<number>().as('count'))
+      .where('c.user_id', '=', userId)
+      .where('cl.user_id', '!=', userId)
+      .where('cl.created_at', '>=', since)
+      .executeTakeFirst();
+
+    return Number(result?.count ?? 0);
+  }
+}
+
+/**
+ * Create a PostgresNotificationDigestRepository instance
+ */
+export function createNotificationDigestRepository(
+  db: Kysely<Database>
+): INotificationDigestRepository {
+  return new PostgresNotificationDigestRepository(db);
+}
@@ -0,0 +1,109 @@
+/**
+ * PostgreSQL Notification Preference Repository
+ *
+ * Implementation of INotificationPreferenceRepository using Kysely.
+ */
+
+import type { Kysely } from 'kysely';
+import type { Database } from '../database/types.js';
+import type {
+  INotificationPreferenceRepository,
+  DigestFrequency,
+  NotificationTypePreference,
+  StoredNotificationPreferences,
+  UserNotificationType,
+} from '@blog/backend/core';
+
+// Type for the row after CamelCasePlugin transforms it
+interface CamelCasePreferenceRow {
+  type: string;
+  inApp: boolean;
+  email: boolean;
+}
+
+export class PostgresNotificationPreferenceRepository
+  implements INotificationPreferenceRepository
+{
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async findByUserId(userId: string): Promise<StoredNotificationPreferences> {
+    const [rows, settings] = await Promise.all([
+      this.db
+        .selectFrom('notification_preferences')
+        .select(['type', 'in_app', 'email'])
+        .where('user_id', '=', userId)
+        .execute(),
+      this.db
+        .selectFrom('notification_settings')
+        .select('digest_frequency')
+        .where('user_id', '=', userId)
+        .executeTakeFirst(),
+    ]);
+
+    return {
+      types: rows.map((row) => {
+        const r = row as unknown as CamelCasePreferenceRow;
+        return {
+          type: r.type as UserNotificationType,
+          inApp: r.inApp,
+          email: r.email,
+        };
+      }),
+      digestFrequency: settings
+        ? ((settings as unknown as { digestFrequency: string })
+            .digestFrequency as DigestFrequency)
+        : null,
+    };
+  }
+
+  async saveTypes(
+    userId: string,
+    preferences: NotificationTypePreference[]
+  ): Promise<void> {
+    if (preferences.length === 0) return;
+
+    await this.db
+      .insertInto('notification_preferences')
+      .values(
+        preferences.map((preference) => ({
+          user_id: userId,
+          type: preference.type,
+          in_app: preference.inApp,
+          email: preference.email,
+        }))
+      )
+      .onConflict((oc) =>
+        oc.columns(['user_id', 'type']).doUpdateSet((eb) => ({
+          in_app: eb.ref('excluded.in_app'),
+          email: eb.ref('excluded.email'),
+          updated_at: new Date(),
+        }))
+      )
+      .execute();
+  }
+
+  async saveDigestFrequency(
+    userId: string,
+    frequency: DigestFrequency
+  ): Promise<void> {
+    await this.db
+      .insertInto('notification_settings')
+      .values({ user_id: userId, digest_frequency: frequency })
+      .onConflict((oc) =>
+        oc.column('user_id').doUpdateSet({
+          digest_frequency: frequency,
+          updated_at: new Date(),
+        })
+      )
+      .execute();
+  }
+}
+
+/**
+ * Create a PostgresNotificationPreferenceRepository instance
+ */
+export function createNotificationPreferenceRepository(
+  db: Kysely<Database>
+): INotificationPreferenceRepository {
+  return new PostgresNotificationPreferenceRepository(db);
+}
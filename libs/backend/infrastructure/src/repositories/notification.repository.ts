@@ -0,0 +1,180 @@
+/**
+ * PostgreSQL Notification Repository
+ *
+ * Implementation of INotificationRepository using Kysely.
+ */
+
+import type { Kysely } from 'kysely';
+import type { Database } from '../database/types.js';
+import type {
+  INotificationRepository,
+  CreateNotificationInput,
+  NotificationQueryOptions,
+  UserNotification,
+  UserNotificationType,
+} from '@blog/backend/core';
+
+// Type for the joined row after CamelCasePlugin transforms it
+interface CamelCaseNotificationRow {
+  id: string;
+  type: string;
+  postId: string | null;
+  commentId: string | null;
+  videoId: string | null;
+  data: Record<string, unknown>;
+  readAt: Date | null;
+  createdAt: Date;
+  actorId: string | null;
+  actorUsername: string | null;
+  actorFullName: string | null;
+  actorAvatarUrl: string | null;
+  postSlug: string | null;
+  postTitle: string | null;
+}
+
+function toUserNotification(row: CamelCaseNotificationRow): UserNotification {
+  return {
+    id: row.id,
+    type: row.type as UserNotificationType,
+    actor:
+      row.actorId && row.actorUsername
+        ? {
+            id: row.actorId,
+            username: row.actorUsername,
+            fullName: row.actorFullName,
+            avatarUrl: row.actorAvatarUrl,
+          }
+        : null,
+    postId: row.postId,
+    postSlug: row.postSlug,
+    postTitle: row.postTitle,
+    commentId: row.commentId,
+    videoId: row.videoId,
+    data: row.data,
+    readAt: row.readAt,
+    createdAt: row.createdAt,
+  };
+}
+
+export class PostgresNotificationRepository implements INotificationRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async create(input: CreateNotificationInput): Promise<boolean> {
+    const row = await this.db
+      .insertInto('notifications')
+      .values({
+        user_id: input.userId,
+        actor_id: input.actorId ?? null,
+        type: input.type,
+        post_id: input.postId ?? null,
+        comment_id: input.commentId ?? null,
+        video_id: input.videoId ?? null,
+        data: JSON.stringify(input.data ?? {}),
+        dedupe_key: input.dedupeKey ?? null,
+      })
+      .onConflict((oc) => oc.column('dedupe_key').doNothing())
+      .returning('id')
+      .executeTakeFirst();
+
+    return row !== undefined;
+  }
+
+  async findByUserId(
+    userId: string,
+    options?: NotificationQueryOptions
+  ): Promise<UserNotification[]> {
+    const limit = options?.limit ?? 20;
+
+    let query = this.db
+      .selectFrom('notifications as n')
+      .leftJoin('users as actor', 'actor.id', 'n.actor_id')
+      .leftJoin('posts as p', 'p.id', 'n.post_id')
+      .select([
+        'n.id',
+        'n.type',
+        'n.post_id',
+        'n.comment_id',
+        'n.video_id',
+        'n.data',
+        'n.read_at',
+        'n.created_at',
+        'actor.id as actor_id',
+        'actor.username as actor_username',
+        'actor.full_name as actor_full_name',
+        'actor.avatar_url as actor_avatar_url',
+        'p.slug as post_slug',
+        'p.title as post_title',
+      ])
+      .where('n.user_id', '=', userId);
+
+    if (options?.unreadOnly) {
+      query = query.where('n.read_at', 'is', null);
+    }
+
+    // Cursor pagination by (created_at, id)
+    if (options?.cursor) {
+      const { createdAt, id } = options.cursor;
+      query = query.where((eb) =>
+        eb.or([
+          eb('n.created_at', '<', createdAt),
+          eb.and([eb('n.created_at', '=', createdAt), eb('n.id', '<', id)]),
+        ])
+      );
+    }
+
+    const rows = await query
+      .orderBy('n.created_at', 'desc')
+      .orderBy('n.id', 'desc')
+      .limit(limit)
+      .execute();
+
+    return rows.map((row) =>
+      toUserNotification(row as unknown as CamelCaseNotificationRow)
+    );
+  }
+
+  async countUnread(userId: string): Promise<number> {
+    const result = await this.db
+      .selectFrom('notifications')
+      .select(this.db.fn.countAll<number>().as('count'))
+      .where('user_id', '=', userId)
+      .where('read_at', 'is', null)
+      .executeTakeFirst();
+
+    return Number(result?.count ?? 0);
+  }
+
+  async markRead(userId: string, notificationIds: string[]): Promise<number> {
+    if (notificationIds.length === 0) return 0;
+
+    const result = await this.db
+      .updateTable('notifications')
+      .set({ read_at: new Date() })
+      .where('user_id', '=', userId)
+      .where('id', 'in', notificationIds)
+      .where('read_at', 'is', null)
+      .executeTakeFirst();
+
+    return Number(result.numUpdatedRows);
+  }
+
+  async markAllRead(userId: string): Promise<number> {
+    const result = await this.db
+      .updateTable('notifications')
+      .set({ read_at: new Date() })
+      .where('user_id', '=', userId)
+      .where('read_at', 'is', null)
+      .executeTakeFirst();
+
+    return Number(result.numUpdatedRows);
+  }
+}
+
+/**
+ * Create a PostgresNotificationRepository instance
+ */
+export function createNotificationRepository(
+  db: Kysely<Database>
+): INotificationRepository {
+  return new PostgresNotificationRepository(db);
+}
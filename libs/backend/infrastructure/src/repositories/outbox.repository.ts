@@ -0,0 +1,123 @@
+/**
+ * PostgreSQL Outbox Repository
+ *
+ * Implementation of IOutboxRepository using Kysely.
+ */
+
+import { sql, type Kysely } from 'kysely';
+import type { DomainEvent } from '@blog/shared/domain';
+import type { Database } from '../database/types.js';
+import type {
+  IOutboxRepository,
+  OutboxEvent,
+  OutboxEventStatus,
+  DomainEventMessage,
+} from '@blog/backend/core';
+
+export class PostgresOutboxRepository implements IOutboxRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async add(events: ReadonlyArray<DomainEvent>): Promise<void> {
+    if (events.length === 0) return;
+
+    await this.db
+      .insertInto('outbox_events')
+      .values(
+        events.map((event) => ({
+          event_id: event.eventId,
+          event_name: event.eventName,
+          aggregate_type: event.aggregateType,
+          aggregate_id: event.aggregateId,
+          message: JSON.stringify(event.toJSON()),
+        }))
+      )
+      .execute();
+  }
+
+  async claimPending(limit: number, leaseMs: number): Promise<OutboxEvent[]> {
+    // SKIP LOCKED lets several relays claim disjoint batches; pushing
+    // available_at forward is the lease
+    const result = await sql<{
+      id: string;
+      message: DomainEventMessage;
+      status: OutboxEventStatus;
+      attempts: number;
+      lastError: string | null;
+      createdAt: Date;
+    }>`
+      UPDATE outbox_events
+      SET attempts = attempts + 1,
+          available_at = CURRENT_TIMESTAMP + make_interval(secs => ${
+            leaseMs / 1000
+          })
+      WHERE id IN (
+        SELECT id FROM outbox_events
+        WHERE status = 'pending' AND available_at <= CURRENT_TIMESTAMP
+        ORDER BY created_at
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, message, status, attempts, last_error, created_at
+    `.execute(this.db);
+
+    // Relay in the order the events were written
+    return result.rows.sort(
+      (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+    );
+  }
+
+  async markPublished(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.db
+      .updateTable('outbox_events')
+      .set({
+        status: 'published',
+        published_at: new Date(),
+        last_error: null,
+      })
+      .where('id', 'in', ids)
+      .execute();
+  }
+
+  async markFailed(
+    id: string,
+    error: string,
+    retryDelayMs: number,
+    maxAttempts: number
+  ): Promise<OutboxEventStatus> {
+    const row = await this.db
+      .updateTable('outbox_events')
+      .set({
+        status: sql<OutboxEventStatus>`CASE WHEN attempts >= ${maxAttempts} THEN 'dead' ELSE 'pending' END`,
+        last_error: error.slice(0, 2000),
+        available_at: sql<Date>`CURRENT_TIMESTAMP + make_interval(secs => ${
+          retryDelayMs / 1000
+        })`,
+      })
+      .where('id', '=', id)
+      .returning('status')
+      .executeTakeFirst();
+
+    return row?.status ?? 'dead';
+  }
+
+  async deletePublishedBefore(date: Date): Promise<number> {
+    const result = await this.db
+      .deleteFrom('outbox_events')
+      .where('status', '=', 'published')
+      .where('published_at', '<', date)
+      .executeTakeFirst();
+
+    return Number(result.numDeletedRows);
+  }
+}
+
+/**
+ * Create a PostgresOutboxRepository instance
+ */
+export function createOutboxRepository(
+  db: Kysely<Database>
+): IOutboxRepository {
+  return new PostgresOutboxRepository(db);
+}
@@ -0,0 +1,121 @@
+/**
+ * PostgreSQL Post Chunk Repository
+ *
+ * Implementation of IPostChunkRepository using Kysely + pgvector.
+ */
+
+import { sql, type Kysely } from 'kysely';
+import type { Database } from '../database/types.js';
+import type {
+  IPostChunkRepository,
+  PostChunkInput,
+  PostChunkHit,
+  PostChunkSearchOptions,
+} from '@blog/backend/core';
+import { toVectorLiteral } from '../mappers/post.mapper.js';
+
+const DEFAULT_SEARCH_LIMIT = 6;
+
+// Type for the row after CamelCasePlugin transforms it
+interface CamelCaseChunkHitRow {
+  postId: string;
+  postTitle: string;
+  postSlug: string;
+  chunkIndex: number;
+  content: string;
+  similarity: number | string;
+}
+
+export class PostgresPostChunkRepository implements IPostChunkRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async replaceForPost(
+    postId: string,
+    chunks: PostChunkInput[]
+  ): Promise<void> {
+    await this.db.transaction().execute(async (trx) => {
+      await trx
+        .deleteFrom('post_chunks')
+        .where('post_id', '=', postId)
+        .execute();
+
+      if (chunks.length === 0) return;
+
+      await trx
+        .insertInto('post_chunks')
+        .values(
+          chunks.map((chunk) => ({
+            post_id: postId,
+            chunk_index: chunk.chunkIndex,
+            content: chunk.content,
+            embedding: toVectorLiteral(chunk.embedding) as string,
+          }))
+        )
+        .execute();
+    });
+  }
+
+  async deleteByPostId(postId: string): Promise<void> {
+    await this.db
+      .deleteFrom('post_chunks')
+      .where('post_id', '=', postId)
+      .execute();
+  }
+
+  async searchSimilar(
+    embedding: number[],
+    options?: PostChunkSearchOptions
+  ): Promise<PostChunkHit[]> {
+    // Cosine distance (<=>) is served by idx_post_chunks_embedding (hnsw)
+    const queryVector = toVectorLiteral(embedding);
+    const distance = sql<number>`post_chunks.embedding <=> ${queryVector}::vector`;
+    const similarity = sql<number>`1 - (${distance})`;
+
+    // Visibility lives on posts only: always join and filter here
+    let dbQuery = this.db
+      .selectFrom('post_chunks')
+      .innerJoin('posts', 'posts.id', 'post_chunks.post_id')
+      .select([
+        'post_chunks.post_id as post_id',
+        'posts.title as post_title',
+        'posts.slug as post_slug',
+        'post_chunks.chunk_index',
+        'post_chunks.content',
+        similarity.as('similarity'),
+      ])
+      .where('posts.status', '=', 'published')
+      .where('posts.visibility', '=', 'public')
+      .where('posts.deleted_at', 'is', null);
+
+    if (options?.minScore !== undefined) {
+      dbQuery = dbQuery.where(similarity, '>=', options.minScore);
+    }
+
+    const rows = await dbQuery
+      .orderBy(distance)
+      .orderBy('post_chunks.id')
+      .limit(options?.limit ?? DEFAULT_SEARCH_LIMIT)
+      .execute();
+
+    return rows.map((row) => {
+      const r = row as unknown as CamelCaseChunkHitRow;
+      return {
+        postId: r.postId,
+        postTitle: r.postTitle,
+        postSlug: r.postSlug,
+        chunkIndex: r.chunkIndex,
+        content: r.content,
+        similarity: Number(r.similarity),
+      };
+    });
+  }
+}
+
+/**
+ * Create a PostgresPostChunkRepository instance
+ */
+export function createPostChunkRepository(
+  db: Kysely<Database>
+): IPostChunkRepository {
+  return new PostgresPostChunkRepository(db);
+}
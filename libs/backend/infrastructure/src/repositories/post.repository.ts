@@ -4,22 +4,104 @@
  * Implementation of IPostRepository using Kysely.
  */
 
-import type { Kysely } from 'kysely';
+import { sql, type Kysely } from 'kysely';
 import type { Database } from '../database/types.js';
 import type {
   IPostRepository,
   PostQueryOptions,
   PostFeedOptions,
   PostSearchOptions,
+  PostSearchHit,
+  PostSimilarityHit,
+  RelatedPostsOptions,
+  RelatedPostHit,
+  RelatedPostWeights,
   TrendingOptions,
+  TrendingScoredOptions,
+  TrendingPostHit,
+  TrendingWeights,
 } from '@blog/backend/core';
 import { PostEntity } from '@blog/shared/domain';
 import {
   toDomainPost,
   toNewPostRow,
   toPostUpdateRow,
+  toVectorLiteral,
 } from '../mappers/post.mapper.js';
 
+// ts_headline options for search results. Matches are delimited with
+// control characters, which become <mark> tags once the text is escaped
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+const TITLE_HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", HighlightAll=true`;
+const SNIPPET_HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+
+/**
+ * HTML of a ts_headline result: the text escaped, matches in <mark>
+ */
+function toHighlightHtml(headline: string): string {
+  return headline
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .replace(new RegExp(HIGHLIGHT_START, 'g'), '<mark>')
+    .replace(new RegExp(HIGHLIGHT_STOP, 'g'), '</mark>');
+}
+
+// Extra columns selected by searchFullTextRanked (after CamelCasePlugin)
+interface CamelCaseSearchRow {
+  searchRank: number | string;
+  titleHighlight: string;
+  snippet: string;
+}
+
+// Extra columns selected by findRelatedScored (after CamelCasePlugin)
+interface CamelCaseRelatedRow {
+  tagOverlap: number | string;
+  categoryOverlap: number | string;
+  similarity: number | string | null;
+  recency: number | string;
+  sameAuthor: boolean;
+  relatedScore: number | string;
+}
+
+// Extra columns selected by findTrendingScored (after CamelCasePlugin)
+interface CamelCaseTrendingRow {
+  trendingScore: number | string;
+  trendingLikes: number;
+  trendingComments: number;
+  trendingBookmarks: number;
+  trendingUniqueViews: number;
+  trendingComputedAt: Date;
+}
+
+// Related posts scoring (each signal is in [0, 1])
+const DEFAULT_RELATED_WEIGHTS: RelatedPostWeights = {
+  tags: 0.35,
+  categories: 0.2,
+  similarity: 0.3,
+  recency: 0.1,
+  sameAuthor: 0.05,
+};
+const RECENCY_HALF_LIFE_DAYS = 90;
+const RELATED_EMBEDDING_CANDIDATES = 50;
+
+// Trending scoring: each event counts weight * 0.5^(age / half-life) within
+// the period window; short periods decay fast so fresh activity wins
+const DEFAULT_TRENDING_WEIGHTS: TrendingWeights = {
+  like: 3,
+  comment: 5,
+  bookmark: 4,
+  uniqueView: 1,
+};
+const TRENDING_PERIODS = [
+  { period: 'day', windowHours: 24, halfLifeHours: 6 },
+  { period: 'week', windowHours: 7 * 24, halfLifeHours: 36 },
+  { period: 'month', windowHours: 30 * 24, halfLifeHours: 7 * 24 },
+] as const;
+
 export class PostgresPostRepository implements IPostRepository {
   constructor(private readonly db: Kysely<Database>) {}
 
@@ -33,6 +115,8 @@ export class PostgresPostRepository implements IPostRepository {
         'videos.status as video_status',
         'videos.hls_master_url as video_hls_url',
         'videos.thumbnail_url as video_thumbnail_url',
+        'videos.thumbnails_vtt_url as video_thumbnails_vtt_url',
+        'videos.dash_manifest_url as video_dash_manifest_url',
         'videos.duration as video_duration',
         'videos.width as video_width',
         'videos.height as video_height',
@@ -54,6 +138,8 @@ export class PostgresPostRepository implements IPostRepository {
         'videos.status as video_status',
         'videos.hls_master_url as video_hls_url',
         'videos.thumbnail_url as video_thumbnail_url',
+        'videos.thumbnails_vtt_url as video_thumbnails_vtt_url',
+        'videos.dash_manifest_url as video_dash_manifest_url',
         'videos.duration as video_duration',
         'videos.width as video_width',
         'videos.height as video_height',
@@ -65,6 +151,29 @@ export class PostgresPostRepository implements IPostRepository {
     return row ? toDomainPost(row) : null;
   }
 
+  async findByVideoId(videoId: string): Promise<PostEntity | null> {
+    const row = await this.db
+      .selectFrom('posts')
+      .leftJoin('videos', 'posts.video_id', 'videos.id')
+      .selectAll('posts')
+      .select([
+        'videos.id as joined_video_id',
+        'videos.status as video_status',
+        'videos.hls_master_url as video_hls_url',
+        'videos.thumbnail_url as video_thumbnail_url',
+        'videos.thumbnails_vtt_url as video_thumbnails_vtt_url',
+        'videos.dash_manifest_url as video_dash_manifest_url',
+        'videos.duration as video_duration',
+        'videos.width as video_width',
+        'videos.height as video_height',
+      ])
+      .where('posts.video_id', '=', videoId)
+      .where('posts.deleted_at', 'is', null)
+      .executeTakeFirst();
+
+    return row ? toDomainPost(row) : null;
+  }
+
   async findByAuthorId(
     authorId: string,
     options?: PostQueryOptions
@@ -78,6 +187,8 @@ export class PostgresPostRepository implements IPostRepository {
         'videos.status as video_status',
         'videos.hls_master_url as video_hls_url',
         'videos.thumbnail_url as video_thumbnail_url',
+        'videos.thumbnails_vtt_url as video_thumbnails_vtt_url',
+        'videos.dash_manifest_url as video_dash_manifest_url',
         'videos.duration as video_duration',
         'videos.width as video_width',
         'videos.height as video_height',
@@ -136,6 +247,8 @@ export class PostgresPostRepository implements IPostRepository {
         'videos.status as video_status',
         'videos.hls_master_url as video_hls_url',
         'videos.thumbnail_url as video_thumbnail_url',
+        'videos.thumbnails_vtt_url as video_thumbnails_vtt_url',
+        'videos.dash_manifest_url as video_dash_manifest_url',
         'videos.duration as video_duration',
         'videos.width as video_width',
         'videos.height as video_height',
@@ -217,23 +330,133 @@ export class PostgresPostRepository implements IPostRepository {
     query: string,
     options?: PostSearchOptions
   ): Promise<PostEntity[]> {
-    // Use PostgreSQL full-text search
+    const hits = await this.searchFullTextRanked(query, options);
+    return hits.map((hit) => hit.post);
+  }
+
+  async searchFullTextRanked(
+    query: string,
+    options?: PostSearchOptions
+  ): Promise<PostSearchHit[]> {
+    // Expression must match idx_posts_fulltext for the GIN index to be used.
+    // Content is HTML: only its text is searched and quoted
+    const document = sql`to_tsvector('english', posts.title || ' ' || html_to_text(posts.content))`;
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    // Words spoken in the post's video (its transcript) match too, but rank
+    // lower than the post's own text
+    const rank = sql<number>`ts_rank(${document}, ${tsQuery}) + 0.5::real * coalesce(ts_rank(video_transcripts.search_vector, ${tsQuery}), 0)`;
+
     let dbQuery = this.db
       .selectFrom('posts')
-      .selectAll()
-      .where('status', '=', options?.status ?? 'published')
-      .where('deleted_at', 'is', null);
-
-    // Simple ILIKE search for now (can be upgraded to ts_vector)
-    dbQuery = dbQuery.where((eb) =>
-      eb.or([
-        eb('title', 'ilike', `%${query}%`),
-        eb('content', 'ilike', `%${query}%`),
+      .leftJoin('videos', 'posts.video_id', 'videos.id')
+      .leftJoin(
+        'video_transcripts',
+        'video_transcripts.video_id',
+        'posts.video_id'
+      )
+      .selectAll('posts')
+      .select([
+        'videos.id as joined_video_id',
+        'videos.status as video_status',
+        'videos.hls_master_url as video_hls_url',
+        'videos.thumbnail_url as video_thumbnail_url',
+        'videos.thumbnails_vtt_url as video_thumbnails_vtt_url',
+        'videos.dash_manifest_url as video_dash_manifest_url',
+        'videos.duration as video_duration',
+        'videos.width as video_width',
+        'videos.height as video_height',
+        rank.as('search_rank'),
+        sql<string>`ts_headline('english', posts.title, ${tsQuery}, ${TITLE_HEADLINE_OPTIONS})`.as(
+          'title_highlight'
+        ),
+        // Quote the transcript when only the video matched
+        sql<string>`CASE WHEN ${document} @@ ${tsQuery} OR video_transcripts.text IS NULL
+          THEN ts_headline('english', html_to_text(posts.content), ${tsQuery}, ${SNIPPET_HEADLINE_OPTIONS})
+          ELSE ts_headline('english', video_transcripts.text, ${tsQuery}, ${SNIPPET_HEADLINE_OPTIONS})
+          END`.as('snippet'),
       ])
-    );
+      // Candidates come from each index separately (an OR across both
+      // tables could use neither); only they are ranked and quoted
+      .where('posts.id', 'in', (eb) =>
+        eb
+          .selectFrom('posts')
+          .select('posts.id')
+          .where(sql<boolean>`${document} @@ ${tsQuery}`)
+          .union(
+            eb
+              .selectFrom('video_transcripts')
+              .innerJoin(
+                'posts',
+                'posts.video_id',
+                'video_transcripts.video_id'
+              )
+              .select('posts.id')
+              .where(
+                sql<boolean>`video_transcripts.search_vector @@ ${tsQuery}`
+              )
+          )
+      )
+      .where('posts.status', '=', options?.status ?? 'published')
+      .where('posts.visibility', '=', 'public')
+      .where('posts.deleted_at', 'is', null);
+
+    if (options?.minScore !== undefined) {
+      dbQuery = dbQuery.where(rank, '>=', options.minScore);
+    }
+
+    if (options?.authorId) {
+      dbQuery = dbQuery.where('posts.author_id', '=', options.authorId);
+    }
+
+    if (options?.categoryId) {
+      const categoryId = options.categoryId;
+      dbQuery = dbQuery.where('posts.id', 'in', (eb) =>
+        eb
+          .selectFrom('post_categories')
+          .select('post_categories.post_id')
+          .where('post_categories.category_id', '=', categoryId)
+      );
+    }
+
+    if (options?.tagId) {
+      const tagId = options.tagId;
+      dbQuery = dbQuery.where('posts.id', 'in', (eb) =>
+        eb
+          .selectFrom('post_tags')
+          .select('post_tags.post_id')
+          .where('post_tags.tag_id', '=', tagId)
+      );
+    }
+
+    if (options?.publishedFrom) {
+      dbQuery = dbQuery.where(
+        'posts.published_at',
+        '>=',
+        options.publishedFrom
+      );
+    }
+
+    if (options?.publishedTo) {
+      dbQuery = dbQuery.where('posts.published_at', '<=', options.publishedTo);
+    }
+
+    if (options?.cursor) {
+      // ts_rank returns real; compare as real so the cursor row is excluded exactly
+      const { rank: cursorRank, id: cursorId } = options.cursor;
+      dbQuery = dbQuery.where((eb) =>
+        eb.or([
+          eb(rank, '<', sql<number>`${cursorRank}::real`),
+          eb.and([
+            eb(rank, '=', sql<number>`${cursorRank}::real`),
+            eb('posts.id', '<', cursorId),
+          ]),
+        ])
+      );
+    }
 
     dbQuery = dbQuery
-      .orderBy('published_at', 'desc')
+      .orderBy('search_rank', 'desc')
+      .orderBy('posts.id', 'desc')
       .limit(options?.limit ?? 20);
 
     if (options?.offset) {
@@ -241,17 +464,127 @@ export class PostgresPostRepository implements IPostRepository {
     }
 
     const rows = await dbQuery.execute();
-    return rows.map(toDomainPost);
+    return rows.map((row) => {
+      // CamelCasePlugin transforms the aliases as well
+      const searchRow = row as unknown as CamelCaseSearchRow;
+      return {
+        post: toDomainPost(row),
+        rank: Number(searchRow.searchRank),
+        titleHighlight: toHighlightHtml(searchRow.titleHighlight),
+        snippet: toHighlightHtml(searchRow.snippet),
+      };
+    });
   }
 
   async searchSemantic(
-    _embedding: number[],
+    embedding: number[],
     options?: PostSearchOptions
-  ): Promise<PostEntity[]> {
-    // Vector similarity search using pgvector
-    // For now, fall back to regular search since embedding requires raw SQL
-    // TODO: Implement proper vector search with Kysely raw SQL
-    return this.findPublished({ limit: options?.limit ?? 20 });
+  ): Promise<PostSimilarityHit[]> {
+    // Cosine distance (<=>) is served by idx_posts_embedding (ivfflat)
+    const queryVector = toVectorLiteral(embedding);
+    const distance = sql<number>`posts.embedding <=> ${queryVector}::vector`;
+    const similarity = sql<number>`1 - (${distance})`;
+
+    let dbQuery = this.db
+      .selectFrom('posts')
+      .leftJoin('videos', 'posts.video_id', 'videos.id')
+      .selectAll('posts')
+      .select([
+        'videos.id as joined_video_id',
+        'videos.status as video_status',
+        'videos.hls_master_url as video_hls_url',
+        'videos.thumbnail_url as video_thumbnail_url',
+        'videos.thumbnails_vtt_url as video_thumbnails_vtt_url',
+        'videos.dash_manifest_url as video_dash_manifest_url',
+        'videos.duration as video_duration',
+        'videos.width as video_width',
+        'videos.height as video_height',
+        similarity.as('similarity'),
+      ])
+      .where('posts.embedding', 'is not', null)
+      .where('posts.status', '=', options?.status ?? 'published')
+      .where('posts.visibility', '=', 'public')
+      .where('posts.deleted_at', 'is', null);
+
+    if (options?.minScore !== undefined) {
+      dbQuery = dbQuery.where(similarity, '>=', options.minScore);
+    }
+
+    if (options?.authorId) {
+      dbQuery = dbQuery.where('posts.author_id', '=', options.authorId);
+    }
+
+    if (options?.categoryId) {
+      const categoryId = options.categoryId;
+      dbQuery = dbQuery.where('posts.id', 'in', (eb) =>
+        eb
+          .selectFrom('post_categories')
+          .select('post_categories.post_id')
+          .where('post_categories.category_id', '=', categoryId)
+      );
+    }
+
+    if (options?.tagId) {
+      const tagId = options.tagId;
+      dbQuery = dbQuery.where('posts.id', 'in', (eb) =>
+        eb
+          .selectFrom('post_tags')
+          .select('post_tags.post_id')
+          .where('post_tags.tag_id', '=', tagId)
+      );
+    }
+
+    if (options?.publishedFrom) {
+      dbQuery = dbQuery.where(
+        'posts.published_at',
+        '>=',
+        options.publishedFrom
+      );
+    }
+
+    if (options?.publishedTo) {
+      dbQuery = dbQuery.where('posts.published_at', '<=', options.publishedTo);
+    }
+
+    if (options?.cursor) {
+      const { rank: cursorSimilarity, id: cursorId } = options.cursor;
+      dbQuery = dbQuery.where((eb) =>
+        eb.or([
+          eb(similarity, '<', cursorSimilarity),
+          eb.and([
+            eb(similarity, '=', cursorSimilarity),
+            eb('posts.id', '<', cursorId),
+          ]),
+        ])
+      );
+    }
+
+    // Order by the raw distance so the planner can use the ivfflat index
+    dbQuery = dbQuery
+      .orderBy(distance)
+      .orderBy('posts.id', 'desc')
+      .limit(options?.limit ?? 20);
+
+    if (options?.offset) {
+      dbQuery = dbQuery.offset(options.offset);
+    }
+
+    const rows = await dbQuery.execute();
+    return rows.map((row) => ({
+      post: toDomainPost(row),
+      similarity: Number((row as unknown as { similarity: number }).similarity),
+    }));
+  }
+
+  async updateEmbedding(
+    postId: string,
+    embedding: number[] | null
+  ): Promise<void> {
+    await this.db
+      .updateTable('posts')
+      .set({ embedding: toVectorLiteral(embedding) })
+      .where('id', '=', postId)
+      .execute();
   }
 
   async findByCategory(
@@ -268,6 +601,8 @@ export class PostgresPostRepository implements IPostRepository {
         'videos.status as video_status',
         'videos.hls_master_url as video_hls_url',
         'videos.thumbnail_url as video_thumbnail_url',
+        'videos.thumbnails_vtt_url as video_thumbnails_vtt_url',
+        'videos.dash_manifest_url as video_dash_manifest_url',
         'videos.duration as video_duration',
         'videos.width as video_width',
         'videos.height as video_height',
@@ -302,6 +637,8 @@ export class PostgresPostRepository implements IPostRepository {
         'videos.status as video_status',
         'videos.hls_master_url as video_hls_url',
         'videos.thumbnail_url as video_thumbnail_url',
+        'videos.thumbnails_vtt_url as video_thumbnails_vtt_url',
+        'videos.dash_manifest_url as video_dash_manifest_url',
         'videos.duration as video_duration',
         'videos.width as video_width',
         'videos.height as video_height',
@@ -323,12 +660,44 @@ export class PostgresPostRepository implements IPostRepository {
   }
 
   async findRelated(postId: string, limit = 5): Promise<PostEntity[]> {
-    // Find posts with overlapping categories/tags
-    const post = await this.findById(postId);
-    if (!post) return [];
+    const hits = await this.findRelatedScored(postId, { limit });
+    return hits.map((hit) => hit.post);
+  }
 
-    // Simple related posts: same author, excluding current post
-    const rows = await this.db
+  async findRelatedScored(
+    postId: string,
+    options?: RelatedPostsOptions
+  ): Promise<RelatedPostHit[]> {
+    const source = await this.findById(postId);
+    if (!source) return [];
+
+    const weights = { ...DEFAULT_RELATED_WEIGHTS, ...options?.weights };
+
+    // Jaccard index: |A ∩ B| / |A ∪ B| (0 when both sets are empty)
+    const jaccard = (
+      table: 'post_tags' | 'post_categories',
+      column: string
+    ) => {
+      const tableRef = sql.table(table);
+      const columnRef = sql.ref(column);
+      const shared = sql`(SELECT count(*) FROM ${tableRef} t WHERE t.post_id = posts.id AND t.${columnRef} IN (SELECT s.${columnRef} FROM ${tableRef} s WHERE s.post_id = ${postId}))`;
+      const union = sql`((SELECT count(*) FROM ${tableRef} t WHERE t.post_id = posts.id) + (SELECT count(*) FROM ${tableRef} s WHERE s.post_id = ${postId}) - ${shared})`;
+      return sql<number>`COALESCE(${shared}::float8 / NULLIF(${union}, 0), 0)`;
+    };
+    const tagOverlap = jaccard('post_tags', 'tag_id');
+    const categoryOverlap = jaccard('post_categories', 'category_id');
+
+    // NULL when either post has no embedding
+    const sourceEmbedding = sql`(SELECT s.embedding FROM posts s WHERE s.id = ${postId})`;
+    const similarity = sql<
+      number | null
+    >`1 - (posts.embedding <=> ${sourceEmbedding})`;
+
+    // Halves every RECENCY_HALF_LIFE_DAYS (exponent capped to avoid underflow)
+    const recency = sql<number>`power(0.5::float8, LEAST(EXTRACT(EPOCH FROM (now() - COALESCE(posts.published_at, posts.created_at))) / 86400 / ${RECENCY_HALF_LIFE_DAYS}, 50))`;
+    const sameAuthor = sql<boolean>`posts.author_id = ${source.authorId}`;
+
+    const candidates = this.db
       .selectFrom('posts')
       .leftJoin('videos', 'posts.video_id', 'videos.id')
       .selectAll('posts')
@@ -337,20 +706,87 @@ export class PostgresPostRepository implements IPostRepository {
         'videos.status as video_status',
         'videos.hls_master_url as video_hls_url',
         'videos.thumbnail_url as video_thumbnail_url',
+        'videos.thumbnails_vtt_url as video_thumbnails_vtt_url',
+        'videos.dash_manifest_url as video_dash_manifest_url',
         'videos.duration as video_duration',
         'videos.width as video_width',
         'videos.height as video_height',
+        tagOverlap.as('tag_overlap'),
+        categoryOverlap.as('category_overlap'),
+        similarity.as('similarity'),
+        recency.as('recency'),
+        sameAuthor.as('same_author'),
       ])
-      .where('posts.author_id', '=', post.authorId)
       .where('posts.id', '!=', postId)
       .where('posts.status', '=', 'published')
       .where('posts.visibility', '=', 'public')
       .where('posts.deleted_at', 'is', null)
-      .orderBy('posts.published_at', 'desc')
-      .limit(limit)
+      // Candidates: shared tag/category, same author or nearest embeddings
+      .where((eb) =>
+        eb.or([
+          eb('posts.id', 'in', (sub) =>
+            sub
+              .selectFrom('post_tags as t')
+              .innerJoin('post_tags as s', 's.tag_id', 't.tag_id')
+              .select('t.post_id')
+              .where('s.post_id', '=', postId)
+          ),
+          eb('posts.id', 'in', (sub) =>
+            sub
+              .selectFrom('post_categories as t')
+              .innerJoin(
+                'post_categories as s',
+                's.category_id',
+                't.category_id'
+              )
+              .select('t.post_id')
+              .where('s.post_id', '=', postId)
+          ),
+          eb('posts.author_id', '=', source.authorId),
+          eb(
+            'posts.id',
+            'in',
+            sql<string>`(SELECT n.id FROM posts n WHERE n.embedding IS NOT NULL AND n.id <> ${postId} ORDER BY n.embedding <=> ${sourceEmbedding} LIMIT ${RELATED_EMBEDDING_CANDIDATES})`
+          ),
+        ])
+      );
+
+    const score = sql<number>`(
+      ${weights.tags} * related.tag_overlap
+      + ${weights.categories} * related.category_overlap
+      + ${weights.similarity} * COALESCE(related.similarity, 0)
+      + ${weights.recency} * related.recency
+      + ${weights.sameAuthor} * (CASE WHEN related.same_author THEN 1 ELSE 0 END)
+    )`;
+
+    const rows = await this.db
+      .selectFrom(candidates.as('related'))
+      .selectAll('related')
+      .select(score.as('related_score'))
+      .orderBy('related_score', 'desc')
+      .orderBy('related.published_at', 'desc')
+      .orderBy('related.id', 'desc')
+      .limit(options?.limit ?? 5)
       .execute();
 
-    return rows.map(toDomainPost);
+    return rows.map((row) => {
+      // CamelCasePlugin transforms the aliases as well
+      const relatedRow = row as unknown as CamelCaseRelatedRow;
+      return {
+        post: toDomainPost(row),
+        score: Number(relatedRow.relatedScore),
+        signals: {
+          tagOverlap: Number(relatedRow.tagOverlap),
+          categoryOverlap: Number(relatedRow.categoryOverlap),
+          similarity:
+            relatedRow.similarity === null
+              ? null
+              : Number(relatedRow.similarity),
+          recency: Number(relatedRow.recency),
+          sameAuthor: relatedRow.sameAuthor,
+        },
+      };
+    });
   }
 
   async countByStatus(status: string): Promise<number> {
@@ -385,6 +821,8 @@ export class PostgresPostRepository implements IPostRepository {
         'videos.status as video_status',
         'videos.hls_master_url as video_hls_url',
         'videos.thumbnail_url as video_thumbnail_url',
+        'videos.thumbnails_vtt_url as video_thumbnails_vtt_url',
+        'videos.dash_manifest_url as video_dash_manifest_url',
         'videos.duration as video_duration',
         'videos.width as video_width',
         'videos.height as video_height',
@@ -424,6 +862,136 @@ export class PostgresPostRepository implements IPostRepository {
     const rows = await query.execute();
     return rows.map(toDomainPost);
   }
+
+  async refreshTrendingScores(
+    weights?: Partial<TrendingWeights>
+  ): Promise<number> {
+    const w = { ...DEFAULT_TRENDING_WEIGHTS, ...weights };
+    const periods = sql.join(
+      TRENDING_PERIODS.map(
+        (p) =>
+          sql`(${p.period}::varchar, ${p.windowHours}::float8, ${p.halfLifeHours}::float8)`
+      )
+    );
+
+    return this.db.transaction().execute(async (trx) => {
+      // Serialize concurrent refreshes (several API instances share the table)
+      await sql`SELECT pg_advisory_xact_lock(hashtext('post_trending_scores'))`.execute(
+        trx
+      );
+
+      await trx.deleteFrom('post_trending_scores').execute();
+
+      // A session viewing on several days counts once, at its latest view
+      const result = await sql`
+        INSERT INTO post_trending_scores
+          (post_id, period, score, likes, comments, bookmarks, unique_views, computed_at)
+        SELECT
+          e.post_id,
+          p.period,
+          SUM(e.weight * power(0.5::float8, EXTRACT(EPOCH FROM (now() - e.at)) / 3600 / p.half_life_hours)),
+          COUNT(*) FILTER (WHERE e.kind = 'like'),
+          COUNT(*) FILTER (WHERE e.kind = 'comment'),
+          COUNT(*) FILTER (WHERE e.kind = 'bookmark'),
+          COUNT(*) FILTER (WHERE e.kind = 'view'),
+          now()
+        FROM (VALUES ${periods}) AS p(period, window_hours, half_life_hours)
+        CROSS JOIN LATERAL (
+          SELECT l.post_id, l.created_at AS at, 'like' AS kind, ${w.like}::float8 AS weight
+          FROM likes l
+          WHERE l.created_at >= now() - make_interval(hours => p.window_hours::int)
+          UNION ALL
+          SELECT c.post_id, c.created_at, 'comment', ${w.comment}::float8
+          FROM comments c
+          WHERE c.created_at >= now() - make_interval(hours => p.window_hours::int)
+            AND c.deleted_at IS NULL
+            AND c.status = 'approved'
+          UNION ALL
+          SELECT b.post_id, b.created_at, 'bookmark', ${w.bookmark}::float8
+          FROM bookmarks b
+          WHERE b.created_at >= now() - make_interval(hours => p.window_hours::int)
+          UNION ALL
+          SELECT v.post_id, MAX(v.viewed_at), 'view', ${w.uniqueView}::float8
+          FROM post_views v
+          WHERE v.viewed_at >= now() - make_interval(hours => p.window_hours::int)
+            AND v.is_bot IS NOT TRUE
+          GROUP BY v.post_id, v.session_id
+        ) AS e
+        JOIN posts ON posts.id = e.post_id
+        WHERE posts.status = 'published'
+          AND posts.visibility = 'public'
+          AND posts.deleted_at IS NULL
+        GROUP BY e.post_id, p.period
+      `.execute(trx);
+
+      return Number(result.numAffectedRows ?? 0);
+    });
+  }
+
+  async findTrendingScored(
+    options: TrendingScoredOptions
+  ): Promise<TrendingPostHit[]> {
+    let query = this.db
+      .selectFrom('post_trending_scores')
+      .innerJoin('posts', 'posts.id', 'post_trending_scores.post_id')
+      .leftJoin('videos', 'posts.video_id', 'videos.id')
+      .selectAll('posts')
+      .select([
+        'videos.id as joined_video_id',
+        'videos.status as video_status',
+        'videos.hls_master_url as video_hls_url',
+        'videos.thumbnail_url as video_thumbnail_url',
+        'videos.thumbnails_vtt_url as video_thumbnails_vtt_url',
+        'videos.dash_manifest_url as video_dash_manifest_url',
+        'videos.duration as video_duration',
+        'videos.width as video_width',
+        'videos.height as video_height',
+        'post_trending_scores.score as trending_score',
+        'post_trending_scores.likes as trending_likes',
+        'post_trending_scores.comments as trending_comments',
+        'post_trending_scores.bookmarks as trending_bookmarks',
+        'post_trending_scores.unique_views as trending_unique_views',
+        'post_trending_scores.computed_at as trending_computed_at',
+      ])
+      .where('post_trending_scores.period', '=', options.period)
+      // Visibility may have changed since the last refresh
+      .where('posts.status', '=', 'published')
+      .where('posts.visibility', '=', 'public')
+      .where('posts.deleted_at', 'is', null);
+
+    if (options.cursor) {
+      const { rank: cursorScore, id: cursorId } = options.cursor;
+      query = query.where((eb) =>
+        eb.or([
+          eb('post_trending_scores.score', '<', cursorScore),
+          eb.and([
+            eb('post_trending_scores.score', '=', cursorScore),
+            eb('post_trending_scores.post_id', '<', cursorId),
+          ]),
+        ])
+      );
+    }
+
+    const rows = await query
+      .orderBy('post_trending_scores.score', 'desc')
+      .orderBy('post_trending_scores.post_id', 'desc')
+      .limit(options.limit ?? 20)
+      .execute();
+
+    return rows.map((row) => {
+      // CamelCasePlugin transforms the aliases as well
+      const trendingRow = row as unknown as CamelCaseTrendingRow;
+      return {
+        post: toDomainPost(row),
+        score: Number(trendingRow.trendingScore),
+        likes: Number(trendingRow.trendingLikes),
+        comments: Number(trendingRow.trendingComments),
+        bookmarks: Number(trendingRow.trendingBookmarks),
+        uniqueViews: Number(trendingRow.trendingUniqueViews),
+        computedAt: trendingRow.trendingComputedAt,
+      };
+    });
+  }
 }
 
 /**
@@ -0,0 +1,37 @@
+/**
+ * PostgreSQL Search Query Repository
+ *
+ * Implementation of ISearchQueryRepository using Kysely.
+ */
+
+import type { Kysely } from 'kysely';
+import type { Database } from '../database/types.js';
+import type {
+  ISearchQueryRepository,
+  CreateSearchQueryInput,
+} from '@blog/backend/core';
+
+export class PostgresSearchQueryRepository implements ISearchQueryRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async create(input: CreateSearchQueryInput): Promise<void> {
+    await this.db
+      .insertInto('search_queries')
+      .values({
+        user_id: input.userId ?? null,
+        query: input.query,
+        search_type: input.searchType,
+        results_count: input.resultsCount,
+      })
+      .execute();
+  }
+}
+
+/**
+ * Create a PostgresSearchQueryRepository instance
+ */
+export function createSearchQueryRepository(
+  db: Kysely<Database>
+): ISearchQueryRepository {
+  return new PostgresSearchQueryRepository(db);
+}
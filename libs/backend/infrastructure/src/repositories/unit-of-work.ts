@@ -0,0 +1,44 @@
+/**
+ * Kysely Unit of Work
+ *
+ * Implementation of IUnitOfWork: repositories are created on the
+ * transaction so everything they write commits or rolls back together.
+ */
+
+import type { Kysely } from 'kysely';
+import type { Database } from '../database/types.js';
+import type { IUnitOfWork, UnitOfWorkRepositories } from '@blog/backend/core';
+import { PostgresUserRepository } from './user.repository.js';
+import { PostgresPostRepository } from './post.repository.js';
+import { PostgresCommentRepository } from './comment.repository.js';
+import { PostgresFollowRepository } from './follow.repository.js';
+import { PostgresLikeRepository } from './like.repository.js';
+import { PostgresCommentLikeRepository } from './comment-like.repository.js';
+import { PostgresOutboxRepository } from './outbox.repository.js';
+
+export class KyselyUnitOfWork implements IUnitOfWork {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async execute<T>(
+    work: (repositories: UnitOfWorkRepositories) => Promise<T>
+  ): Promise<T> {
+    return this.db.transaction().execute((trx) =>
+      work({
+        userRepository: new PostgresUserRepository(trx),
+        postRepository: new PostgresPostRepository(trx),
+        commentRepository: new PostgresCommentRepository(trx),
+        followRepository: new PostgresFollowRepository(trx),
+        likeRepository: new PostgresLikeRepository(trx),
+        commentLikeRepository: new PostgresCommentLikeRepository(trx),
+        outboxRepository: new PostgresOutboxRepository(trx),
+      })
+    );
+  }
+}
+
+/**
+ * Create a KyselyUnitOfWork instance
+ */
+export function createUnitOfWork(db: Kysely<Database>): IUnitOfWork {
+  return new KyselyUnitOfWork(db);
+}
@@ -0,0 +1,133 @@
+/**
+ * PostgreSQL Video Caption Repository
+ *
+ * Implementation of IVideoCaptionRepository using Kysely.
+ */
+
+import type { Kysely } from 'kysely';
+import type { Database } from '../database/types.js';
+import type {
+  IVideoCaptionRepository,
+  VideoCaption,
+  CaptionSourceFormat,
+  UpsertVideoCaptionData,
+} from '@blog/backend/core';
+
+// Type for rows after CamelCasePlugin transforms them
+interface CamelCaseVideoCaptionRow {
+  id: string;
+  videoId: string;
+  language: string;
+  label: string;
+  isDefault: boolean;
+  sourceFormat: string;
+  isGenerated: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function toVideoCaption(row: CamelCaseVideoCaptionRow): VideoCaption {
+  return {
+    id: row.id,
+    videoId: row.videoId,
+    language: row.language,
+    label: row.label,
+    isDefault: row.isDefault,
+    sourceFormat: row.sourceFormat as CaptionSourceFormat,
+    isGenerated: row.isGenerated,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export class PostgresVideoCaptionRepository implements IVideoCaptionRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async upsert(data: UpsertVideoCaptionData): Promise<VideoCaption> {
+    return this.db.transaction().execute(async (trx) => {
+      // Only one default track per video
+      if (data.isDefault) {
+        await trx
+          .updateTable('video_captions')
+          .set({ is_default: false, updated_at: new Date() })
+          .where('video_id', '=', data.videoId)
+          .where('language', '!=', data.language)
+          .where('is_default', '=', true)
+          .execute();
+      }
+
+      const row = await trx
+        .insertInto('video_captions')
+        .values({
+          video_id: data.videoId,
+          language: data.language,
+          label: data.label,
+          is_default: data.isDefault,
+          source_format: data.sourceFormat,
+          is_generated: data.isGenerated,
+        })
+        .onConflict((oc) =>
+          oc.columns(['video_id', 'language']).doUpdateSet({
+            label: data.label,
+            is_default: data.isDefault,
+            source_format: data.sourceFormat,
+            is_generated: data.isGenerated,
+            updated_at: new Date(),
+          })
+        )
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      return toVideoCaption(row as unknown as CamelCaseVideoCaptionRow);
+    });
+  }
+
+  async findByVideoId(videoId: string): Promise<VideoCaption[]> {
+    const rows = await this.db
+      .selectFrom('video_captions')
+      .selectAll()
+      .where('video_id', '=', videoId)
+      .orderBy('is_default', 'desc')
+      .orderBy('language', 'asc')
+      .execute();
+
+    return rows.map((row) =>
+      toVideoCaption(row as unknown as CamelCaseVideoCaptionRow)
+    );
+  }
+
+  async findByLanguage(
+    videoId: string,
+    language: string
+  ): Promise<VideoCaption | null> {
+    const row = await this.db
+      .selectFrom('video_captions')
+      .selectAll()
+      .where('video_id', '=', videoId)
+      .where('language', '=', language)
+      .executeTakeFirst();
+
+    return row
+      ? toVideoCaption(row as unknown as CamelCaseVideoCaptionRow)
+      : null;
+  }
+
+  async delete(videoId: string, language: string): Promise<boolean> {
+    const result = await this.db
+      .deleteFrom('video_captions')
+      .where('video_id', '=', videoId)
+      .where('language', '=', language)
+      .executeTakeFirst();
+
+    return Number(result.numDeletedRows) > 0;
+  }
+}
+
+/**
+ * Factory function to create video caption repository
+ */
+export function createVideoCaptionRepository(
+  db: Kysely<Database>
+): PostgresVideoCaptionRepository {
+  return new PostgresVideoCaptionRepository(db);
+}
@@ -0,0 +1,70 @@
+/**
+ * PostgreSQL Video Chapter Repository
+ *
+ * Implementation of IVideoChapterRepository using Kysely.
+ */
+
+import type { Kysely } from 'kysely';
+import type { VideoChapter } from '@blog/shared/domain';
+import type { Database } from '../database/types.js';
+import type { IVideoChapterRepository } from '@blog/backend/core';
+
+// Type for rows after CamelCasePlugin transforms them
+interface CamelCaseVideoChapterRow {
+  startTime: number;
+  title: string;
+}
+
+export class PostgresVideoChapterRepository implements IVideoChapterRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async findByVideoId(videoId: string): Promise<VideoChapter[]> {
+    const rows = await this.db
+      .selectFrom('video_chapters')
+      .select(['start_time', 'title'])
+      .where('video_id', '=', videoId)
+      .orderBy('start_time', 'asc')
+      .execute();
+
+    return rows.map((row) => {
+      const chapter = row as unknown as CamelCaseVideoChapterRow;
+      return { startTime: chapter.startTime, title: chapter.title };
+    });
+  }
+
+  async replace(
+    videoId: string,
+    chapters: VideoChapter[]
+  ): Promise<VideoChapter[]> {
+    await this.db.transaction().execute(async (trx) => {
+      await trx
+        .deleteFrom('video_chapters')
+        .where('video_id', '=', videoId)
+        .execute();
+
+      if (chapters.length > 0) {
+        await trx
+          .insertInto('video_chapters')
+          .values(
+            chapters.map((chapter) => ({
+              video_id: videoId,
+              start_time: chapter.startTime,
+              title: chapter.title,
+            }))
+          )
+          .execute();
+      }
+    });
+
+    return this.findByVideoId(videoId);
+  }
+}
+
+/**
+ * Factory function to create video chapter repository
+ */
+export function createVideoChapterRepository(
+  db: Kysely<Database>
+): PostgresVideoChapterRepository {
+  return new PostgresVideoChapterRepository(db);
+}
@@ -0,0 +1,108 @@
+/**
+ * PostgreSQL Video Encryption Key Repository
+ *
+ * Implementation of IVideoEncryptionKeyRepository using Kysely.
+ */
+
+import type { Kysely } from 'kysely';
+import type { Database } from '../database/types.js';
+import type {
+  IVideoEncryptionKeyRepository,
+  VideoEncryptionKey,
+} from '@blog/backend/core';
+
+// Type for rows after CamelCasePlugin transforms them
+interface CamelCaseVideoEncryptionKeyRow {
+  videoId: string;
+  version: number;
+  keyData: Buffer;
+  createdAt: Date;
+}
+
+function toVideoEncryptionKey(
+  row: CamelCaseVideoEncryptionKeyRow
+): VideoEncryptionKey {
+  return {
+    videoId: row.videoId,
+    version: row.version,
+    key: row.keyData,
+    createdAt: row.createdAt,
+  };
+}
+
+export class PostgresVideoEncryptionKeyRepository
+  implements IVideoEncryptionKeyRepository
+{
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async create(videoId: string, key: Buffer): Promise<VideoEncryptionKey> {
+    const row = await this.db.transaction().execute(async (trx) => {
+      // Lock the video so concurrent encodes get distinct versions
+      await trx
+        .selectFrom('videos')
+        .select('id')
+        .where('id', '=', videoId)
+        .forUpdate()
+        .executeTakeFirst();
+
+      const latest = await trx
+        .selectFrom('video_encryption_keys')
+        .select((eb) => eb.fn.max('version').as('version'))
+        .where('video_id', '=', videoId)
+        .executeTakeFirst();
+
+      return trx
+        .insertInto('video_encryption_keys')
+        .values({
+          video_id: videoId,
+          version: (latest?.version ?? 0) + 1,
+          key_data: key,
+        })
+        .returningAll()
+        .executeTakeFirstOrThrow();
+    });
+
+    return toVideoEncryptionKey(
+      row as unknown as CamelCaseVideoEncryptionKeyRow
+    );
+  }
+
+  async findByVersion(
+    videoId: string,
+    version: number
+  ): Promise<VideoEncryptionKey | null> {
+    const row = await this.db
+      .selectFrom('video_encryption_keys')
+      .selectAll()
+      .where('video_id', '=', videoId)
+      .where('version', '=', version)
+      .executeTakeFirst();
+
+    return row
+      ? toVideoEncryptionKey(row as unknown as CamelCaseVideoEncryptionKeyRow)
+      : null;
+  }
+
+  async findLatest(videoId: string): Promise<VideoEncryptionKey | null> {
+    const row = await this.db
+      .selectFrom('video_encryption_keys')
+      .selectAll()
+      .where('video_id', '=', videoId)
+      .orderBy('version', 'desc')
+      .limit(1)
+      .executeTakeFirst();
+
+    return row
+      ? toVideoEncryptionKey(row as unknown as CamelCaseVideoEncryptionKeyRow)
+      : null;
+  }
+}
+
+/**
+ * Factory function to create video encryption key repository
+ */
+export function createVideoEncryptionKeyRepository(
+  db: Kysely<Database>
+): PostgresVideoEncryptionKeyRepository {
+  return new PostgresVideoEncryptionKeyRepository(db);
+}
@@ -0,0 +1,87 @@
+/**
+ * PostgreSQL Video Loudness Repository
+ *
+ * Implementation of IVideoLoudnessRepository using Kysely.
+ */
+
+import type { Kysely } from 'kysely';
+import type { VideoLoudness } from '@blog/shared/domain';
+import type { Database } from '../database/types.js';
+import type { IVideoLoudnessRepository } from '@blog/backend/core';
+
+// Type for rows after CamelCasePlugin transforms them
+interface CamelCaseVideoLoudnessRow {
+  integratedLufs: number;
+  truePeakDbtp: number;
+  loudnessRangeLu: number;
+  targetLufs: number;
+}
+
+function toVideoLoudness(row: CamelCaseVideoLoudnessRow): VideoLoudness {
+  return {
+    integratedLufs: row.integratedLufs,
+    truePeakDbtp: row.truePeakDbtp,
+    loudnessRangeLu: row.loudnessRangeLu,
+    targetLufs: row.targetLufs,
+  };
+}
+
+export class PostgresVideoLoudnessRepository
+  implements IVideoLoudnessRepository
+{
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async findByVideoId(videoId: string): Promise<VideoLoudness | null> {
+    const row = await this.db
+      .selectFrom('video_loudness')
+      .select([
+        'integrated_lufs',
+        'true_peak_dbtp',
+        'loudness_range_lu',
+        'target_lufs',
+      ])
+      .where('video_id', '=', videoId)
+      .executeTakeFirst();
+
+    return row
+      ? toVideoLoudness(row as unknown as CamelCaseVideoLoudnessRow)
+      : null;
+  }
+
+  async upsert(
+    videoId: string,
+    loudness: VideoLoudness
+  ): Promise<VideoLoudness> {
+    const values = {
+      integrated_lufs: loudness.integratedLufs,
+      true_peak_dbtp: loudness.truePeakDbtp,
+      loudness_range_lu: loudness.loudnessRangeLu,
+      target_lufs: loudness.targetLufs,
+    };
+
+    const row = await this.db
+      .insertInto('video_loudness')
+      .values({ video_id: videoId, ...values })
+      .onConflict((oc) =>
+        oc.column('video_id').doUpdateSet({ ...values, updated_at: new Date() })
+      )
+      .returning([
+        'integrated_lufs',
+        'true_peak_dbtp',
+        'loudness_range_lu',
+        'target_lufs',
+      ])
+      .executeTakeFirstOrThrow();
+
+    return toVideoLoudness(row as unknown as CamelCaseVideoLoudnessRow);
+  }
+}
+
+/**
+ * Factory function to create video loudness repository
+ */
+export function createVideoLoudnessRepository(
+  db: Kysely<Database>
+): PostgresVideoLoudnessRepository {
+  return new PostgresVideoLoudnessRepository(db);
+}
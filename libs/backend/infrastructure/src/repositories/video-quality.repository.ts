@@ -13,21 +13,20 @@ import {
 } from '@blog/backend/core';
 import { IVideoQualityRepository } from '@blog/backend/core';
 
+/** Columns set on insert, in the order of toParams */
+const COLUMN_COUNT = 8;
+
 export class VideoQualityRepository implements IVideoQualityRepository {
   constructor(private pool: Pool) {}
 
   async create(input: CreateVideoQualityInput): Promise<VideoQuality> {
     const result = await this.pool.query<VideoQuality>(
       `INSERT INTO video_qualities 
-       (video_id, quality_name, retry_priority, status)
-       VALUES ($1, $2, $3, $4)
+       (video_id, quality_name, retry_priority, status,
+        width, height, video_bitrate, audio_bitrate)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
        RETURNING *`,
-      [
-        input.videoId,
-        input.qualityName,
-        input.retryPriority,
-        input.status || VideoQualityStatus.PENDING,
-      ]
+      this.toParams(input)
     );
     return this.mapRow(result.rows[0]);
   }
@@ -39,20 +38,20 @@ export class VideoQualityRepository implements IVideoQualityRepository {
 
     const values = inputs
       .map(
-        (_, i) => `($${i * 4 + 1}, $${i * 4 + 2}, $${i * 4 + 3}, $${i * 4 + 4})`
+        (_, i) =>
+          `(${Array.from(
+            { length: COLUMN_COUNT },
+            (_, j) => `$${i * COLUMN_COUNT + j + 1}`
+          ).join(', ')})`
       )
       .join(', ');
 
-    const params = inputs.flatMap((input) => [
-      input.videoId,
-      input.qualityName,
-      input.retryPriority,
-      input.status || VideoQualityStatus.PENDING,
-    ]);
+    const params = inputs.flatMap((input) => this.toParams(input));
 
     const result = await this.pool.query<VideoQuality>(
       `INSERT INTO video_qualities
-       (video_id, quality_name, retry_priority, status)
+       (video_id, quality_name, retry_priority, status,
+        width, height, video_bitrate, audio_bitrate)
        VALUES ${values}
        RETURNING *`,
       params
@@ -68,25 +67,29 @@ export class VideoQualityRepository implements IVideoQualityRepository {
 
     const values = inputs
       .map(
-        (_, i) => `($${i * 4 + 1}, $${i * 4 + 2}, $${i * 4 + 3}, $${i * 4 + 4})`
+        (_, i) =>
+          `(${Array.from(
+            { length: COLUMN_COUNT },
+            (_, j) => `$${i * COLUMN_COUNT + j + 1}`
+          ).join(', ')})`
       )
       .join(', ');
 
-    const params = inputs.flatMap((input) => [
-      input.videoId,
-      input.qualityName,
-      input.retryPriority,
-      input.status || VideoQualityStatus.PENDING,
-    ]);
+    const params = inputs.flatMap((input) => this.toParams(input));
 
     const result = await this.pool.query<VideoQuality>(
       `INSERT INTO video_qualities
-       (video_id, quality_name, retry_priority, status)
+       (video_id, quality_name, retry_priority, status,
+        width, height, video_bitrate, audio_bitrate)
        VALUES ${values}
        ON CONFLICT (video_id, quality_name)
        DO UPDATE SET
          retry_priority = EXCLUDED.retry_priority,
          status = EXCLUDED.status,
+         width = EXCLUDED.width,
+         height = EXCLUDED.height,
+         video_bitrate = EXCLUDED.video_bitrate,
+         audio_bitrate = EXCLUDED.audio_bitrate,
          started_at = NULL,
          completed_at = NULL,
          error_message = NULL,
@@ -249,6 +252,19 @@ export class VideoQualityRepository implements IVideoQualityRepository {
     ]);
   }
 
+  private toParams(input: CreateVideoQualityInput): unknown[] {
+    return [
+      input.videoId,
+      input.qualityName,
+      input.retryPriority,
+      input.status || VideoQualityStatus.PENDING,
+      input.width ?? null,
+      input.height ?? null,
+      input.videoBitrate ?? null,
+      input.audioBitrate ?? null,
+    ];
+  }
+
   private mapRow(row: any): VideoQuality {
     return {
       id: row.id,
@@ -259,6 +275,10 @@ export class VideoQualityRepository implements IVideoQualityRepository {
       segmentsCount: row.segments_count || 0,
       retryCount: row.retry_count || 0,
       retryPriority: row.retry_priority,
+      width: row.width ?? undefined,
+      height: row.height ?? undefined,
+      videoBitrate: row.video_bitrate ?? undefined,
+      audioBitrate: row.audio_bitrate ?? undefined,
       errorMessage: row.error_message,
       startedAt: row.started_at ? new Date(row.started_at) : undefined,
       completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
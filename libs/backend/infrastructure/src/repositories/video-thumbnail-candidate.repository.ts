@@ -0,0 +1,108 @@
+/**
+ * PostgreSQL Video Thumbnail Candidate Repository
+ *
+ * Implementation of IVideoThumbnailCandidateRepository using Kysely.
+ */
+
+import type { Kysely } from 'kysely';
+import type { Database } from '../database/types.js';
+import type {
+  IVideoThumbnailCandidateRepository,
+  VideoThumbnailCandidate,
+  CreateVideoThumbnailCandidateData,
+} from '@blog/backend/core';
+
+// Type for rows after CamelCasePlugin transforms them
+interface CamelCaseVideoThumbnailCandidateRow {
+  id: string;
+  videoId: string;
+  storageKey: string;
+  frameTime: number;
+  score: number;
+  createdAt: Date;
+}
+
+function toVideoThumbnailCandidate(
+  row: CamelCaseVideoThumbnailCandidateRow
+): VideoThumbnailCandidate {
+  return {
+    id: row.id,
+    videoId: row.videoId,
+    storageKey: row.storageKey,
+    time: row.frameTime,
+    score: row.score,
+    createdAt: row.createdAt,
+  };
+}
+
+export class PostgresVideoThumbnailCandidateRepository
+  implements IVideoThumbnailCandidateRepository
+{
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async findByVideoId(videoId: string): Promise<VideoThumbnailCandidate[]> {
+    const rows = await this.db
+      .selectFrom('video_thumbnail_candidates')
+      .selectAll()
+      .where('video_id', '=', videoId)
+      .orderBy('frame_time', 'asc')
+      .execute();
+
+    return rows.map((row) =>
+      toVideoThumbnailCandidate(
+        row as unknown as CamelCaseVideoThumbnailCandidateRow
+      )
+    );
+  }
+
+  async findById(id: string): Promise<VideoThumbnailCandidate | null> {
+    const row = await this.db
+      .selectFrom('video_thumbnail_candidates')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst();
+
+    return row
+      ? toVideoThumbnailCandidate(
+          row as unknown as CamelCaseVideoThumbnailCandidateRow
+        )
+      : null;
+  }
+
+  async replace(
+    videoId: string,
+    candidates: CreateVideoThumbnailCandidateData[]
+  ): Promise<VideoThumbnailCandidate[]> {
+    await this.db.transaction().execute(async (trx) => {
+      await trx
+        .deleteFrom('video_thumbnail_candidates')
+        .where('video_id', '=', videoId)
+        .execute();
+
+      if (candidates.length > 0) {
+        await trx
+          .insertInto('video_thumbnail_candidates')
+          .values(
+            candidates.map((candidate) => ({
+              video_id: videoId,
+              storage_key: candidate.storageKey,
+              frame_time: candidate.time,
+              score: candidate.score,
+            }))
+          )
+          .execute();
+      }
+    });
+
+    return this.findByVideoId(videoId);
+  }
+}
+
+/**
+ * Factory function to create video thumbnail candidate repository
+ */
+export function createVideoThumbnailCandidateRepository(
+  db: Kysely<Database>
+): PostgresVideoThumbnailCandidateRepository {
+  return new PostgresVideoThumbnailCandidateRepository(db);
+}
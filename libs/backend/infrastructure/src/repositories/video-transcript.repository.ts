@@ -0,0 +1,98 @@
+/**
+ * PostgreSQL Video Transcript Repository
+ *
+ * Implementation of IVideoTranscriptRepository using Kysely.
+ */
+
+import type { Kysely } from 'kysely';
+import type { Database } from '../database/types.js';
+import type {
+  IVideoTranscriptRepository,
+  VideoTranscript,
+  UpsertVideoTranscriptData,
+} from '@blog/backend/core';
+
+// Type for rows after CamelCasePlugin transforms them
+interface CamelCaseVideoTranscriptRow {
+  videoId: string;
+  language: string;
+  text: string;
+  model: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function toVideoTranscript(row: CamelCaseVideoTranscriptRow): VideoTranscript {
+  return {
+    videoId: row.videoId,
+    language: row.language,
+    text: row.text,
+    model: row.model,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export class PostgresVideoTranscriptRepository
+  implements IVideoTranscriptRepository
+{
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async upsert(data: UpsertVideoTranscriptData): Promise<VideoTranscript> {
+    const row = await this.db
+      .insertInto('video_transcripts')
+      .values({
+        video_id: data.videoId,
+        language: data.language,
+        text: data.text,
+        model: data.model,
+      })
+      .onConflict((oc) =>
+        oc.column('video_id').doUpdateSet({
+          language: data.language,
+          text: data.text,
+          model: data.model,
+          updated_at: new Date(),
+        })
+      )
+      .returning([
+        'video_id',
+        'language',
+        'text',
+        'model',
+        'created_at',
+        'updated_at',
+      ])
+      .executeTakeFirstOrThrow();
+
+    return toVideoTranscript(row as unknown as CamelCaseVideoTranscriptRow);
+  }
+
+  async findByVideoId(videoId: string): Promise<VideoTranscript | null> {
+    const row = await this.db
+      .selectFrom('video_transcripts')
+      .select([
+        'video_id',
+        'language',
+        'text',
+        'model',
+        'created_at',
+        'updated_at',
+      ])
+      .where('video_id', '=', videoId)
+      .executeTakeFirst();
+
+    return row
+      ? toVideoTranscript(row as unknown as CamelCaseVideoTranscriptRow)
+      : null;
+  }
+}
+
+/**
+ * Factory function to create video transcript repository
+ */
+export function createVideoTranscriptRepository(
+  db: Kysely<Database>
+): PostgresVideoTranscriptRepository {
+  return new PostgresVideoTranscriptRepository(db);
+}
@@ -0,0 +1,104 @@
+/**
+ * PostgreSQL Video Upload Repository
+ *
+ * Implementation of IVideoUploadRepository using Kysely.
+ */
+
+import type { Kysely } from 'kysely';
+import type { Database } from '../database/types.js';
+import type {
+  IVideoUploadRepository,
+  CreateMultipartUploadData,
+  MultipartUpload,
+} from '@blog/backend/core';
+
+// Type for rows after CamelCasePlugin transforms them
+interface CamelCaseMultipartUploadRow {
+  videoId: string;
+  userId: string;
+  uploadId: string;
+  bucket: string;
+  objectKey: string;
+  partSize: number;
+  partCount: number;
+  createdAt: Date;
+}
+
+function toMultipartUpload(row: CamelCaseMultipartUploadRow): MultipartUpload {
+  return {
+    videoId: row.videoId,
+    userId: row.userId,
+    uploadId: row.uploadId,
+    bucket: row.bucket,
+    key: row.objectKey,
+    partSize: row.partSize,
+    partCount: row.partCount,
+    createdAt: row.createdAt,
+  };
+}
+
+export class PostgresVideoUploadRepository implements IVideoUploadRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async create(data: CreateMultipartUploadData): Promise<MultipartUpload> {
+    const row = await this.db
+      .insertInto('video_multipart_uploads')
+      .values({
+        video_id: data.videoId,
+        user_id: data.userId,
+        upload_id: data.uploadId,
+        bucket: data.bucket,
+        object_key: data.key,
+        part_size: data.partSize,
+        part_count: data.partCount,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    return toMultipartUpload(row as unknown as CamelCaseMultipartUploadRow);
+  }
+
+  async findByVideoId(videoId: string): Promise<MultipartUpload | null> {
+    const row = await this.db
+      .selectFrom('video_multipart_uploads')
+      .selectAll()
+      .where('video_id', '=', videoId)
+      .executeTakeFirst();
+
+    return row
+      ? toMultipartUpload(row as unknown as CamelCaseMultipartUploadRow)
+      : null;
+  }
+
+  async findStale(olderThan: Date, limit: number): Promise<MultipartUpload[]> {
+    const rows = await this.db
+      .selectFrom('video_multipart_uploads')
+      .selectAll()
+      .where('created_at', '<', olderThan)
+      .orderBy('created_at', 'asc')
+      .limit(limit)
+      .execute();
+
+    return rows.map((row) =>
+      toMultipartUpload(row as unknown as CamelCaseMultipartUploadRow)
+    );
+  }
+
+  async delete(videoId: string): Promise<boolean> {
+    const result = await this.db
+      .deleteFrom('video_multipart_uploads')
+      .where('video_id', '=', videoId)
+      .executeTakeFirst();
+
+    return Number(result.numDeletedRows) > 0;
+  }
+}
+
+/**
+ * Factory function to create video upload repository
+ */
+export function createVideoUploadRepository(
+  db: Kysely<Database>
+): PostgresVideoUploadRepository {
+  return new PostgresVideoUploadRepository(db);
+}
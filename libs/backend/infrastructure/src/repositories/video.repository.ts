@@ -182,6 +182,12 @@ export class PostgresVideoRepository implements IVideoRepository {
     if (updates.thumbnailUrl !== undefined) {
       updateData.thumbnail_url = updates.thumbnailUrl;
     }
+    if (updates.thumbnailsVttUrl !== undefined) {
+      updateData.thumbnails_vtt_url = updates.thumbnailsVttUrl;
+    }
+    if (updates.dashManifestUrl !== undefined) {
+      updateData.dash_manifest_url = updates.dashManifestUrl;
+    }
     if (updates.duration !== undefined) {
       updateData.duration = updates.duration;
     }
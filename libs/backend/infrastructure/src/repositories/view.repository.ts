@@ -0,0 +1,125 @@
+/**
+ * PostgreSQL View Repository
+ *
+ * Implementation of IViewRepository using Kysely.
+ */
+
+import { sql, type Kysely } from 'kysely';
+import type { Database } from '../database/types.js';
+import type {
+  IViewRepository,
+  CreatePostViewInput,
+  UpsertVideoViewInput,
+  RecordedVideoView,
+} from '@blog/backend/core';
+
+export class PostgresViewRepository implements IViewRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async recordPostView(input: CreatePostViewInput): Promise<boolean> {
+    const row = await this.db
+      .insertInto('post_views')
+      .values({
+        post_id: input.postId,
+        session_id: input.sessionId,
+        user_id: input.userId ?? null,
+        referrer: input.referrer?.slice(0, 500) ?? null,
+        user_agent: input.userAgent ?? null,
+        is_bot: input.isBot,
+        // Bot views are never added to posts.view_count
+        counted: input.isBot,
+      })
+      .onConflict((oc) =>
+        oc.columns(['post_id', 'session_id', 'view_date']).doNothing()
+      )
+      .returning('id')
+      .executeTakeFirst();
+
+    return row !== undefined;
+  }
+
+  async recordVideoView(
+    input: UpsertVideoViewInput
+  ): Promise<RecordedVideoView> {
+    const row = await this.db
+      .insertInto('video_views')
+      .values({
+        video_id: input.videoId,
+        session_id: input.sessionId,
+        user_id: input.userId ?? null,
+        duration_watched: input.durationWatched,
+        total_duration: input.totalDuration,
+        quality_watched: input.qualityWatched ?? null,
+        referrer: input.referrer?.slice(0, 500) ?? null,
+        user_agent: input.userAgent ?? null,
+        is_bot: input.isBot,
+      })
+      .onConflict((oc) =>
+        oc.columns(['video_id', 'session_id', 'view_date']).doUpdateSet({
+          duration_watched: sql<number>`GREATEST(video_views.duration_watched, excluded.duration_watched)`,
+          total_duration: sql<number>`GREATEST(video_views.total_duration, excluded.total_duration)`,
+          quality_watched: sql<
+            string | null
+          >`COALESCE(excluded.quality_watched, video_views.quality_watched)`,
+          user_id: sql<
+            string | null
+          >`COALESCE(video_views.user_id, excluded.user_id)`,
+          last_heartbeat_at: sql<Date>`CURRENT_TIMESTAMP`,
+        })
+      )
+      // xmax is 0 only for freshly inserted rows
+      .returning(['duration_watched', sql<boolean>`(xmax = 0)`.as('inserted')])
+      .executeTakeFirstOrThrow();
+
+    // CamelCasePlugin transforms returned columns
+    const viewRow = row as unknown as {
+      durationWatched: number;
+      inserted: boolean;
+    };
+    return {
+      isNewView: viewRow.inserted,
+      durationWatched: viewRow.durationWatched,
+    };
+  }
+
+  async syncPostViewCounts(batchSize: number): Promise<number> {
+    // SKIP LOCKED lets concurrent syncs take disjoint batches; each post row
+    // is updated once per batch instead of once per view
+    const result = await sql<{ counted: number | string }>`
+      WITH batch AS (
+        UPDATE post_views
+        SET counted = TRUE
+        WHERE id IN (
+          SELECT id FROM post_views
+          WHERE counted = FALSE
+          ORDER BY viewed_at
+          LIMIT ${batchSize}
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING post_id
+      ),
+      totals AS (
+        SELECT post_id, COUNT(*)::int AS views
+        FROM batch
+        GROUP BY post_id
+      ),
+      updated AS (
+        UPDATE posts
+        SET view_count = posts.view_count + totals.views
+        FROM totals
+        WHERE posts.id = totals.post_id
+        RETURNING totals.views
+      )
+      SELECT COALESCE(SUM(views), 0) AS counted FROM updated
+    `.execute(this.db);
+
+    return Number(result.rows[0]?.counted ?? 0);
+  }
+}
+
+/**
+ * Create a PostgresViewRepository instance
+ */
+export function createViewRepository(db: Kysely<Database>): IViewRepository {
+  return new PostgresViewRepository(db);
+}
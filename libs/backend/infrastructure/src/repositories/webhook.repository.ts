@@ -0,0 +1,292 @@
+/**
+ * PostgreSQL Webhook Repository
+ *
+ * Implementation of IWebhookRepository using Kysely.
+ */
+
+import { sql, type Kysely } from 'kysely';
+import type { Database } from '../database/types.js';
+import type {
+  IWebhookRepository,
+  CreateWebhookEndpointData,
+  UpdateWebhookEndpointData,
+  CreateWebhookDeliveryData,
+  WebhookAttemptResult,
+  WebhookDelivery,
+  WebhookDeliveryCursor,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEventType,
+} from '@blog/backend/core';
+
+// Types for rows after CamelCasePlugin transforms them
+interface CamelCaseWebhookEndpointRow {
+  id: string;
+  userId: string;
+  url: string;
+  description: string | null;
+  secret: string;
+  events: string[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface CamelCaseWebhookDeliveryRow {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventName: string;
+  payload: Record<string, unknown>;
+  status: string;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  isTest: boolean;
+  replayOf: string | null;
+  createdAt: Date;
+  lastAttemptAt: Date | null;
+}
+
+function toWebhookEndpoint(row: CamelCaseWebhookEndpointRow): WebhookEndpoint {
+  return {
+    id: row.id,
+    userId: row.userId,
+    url: row.url,
+    description: row.description,
+    secret: row.secret,
+    events: row.events as WebhookEventType[],
+    isActive: row.isActive,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toWebhookDelivery(row: CamelCaseWebhookDeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    endpointId: row.endpointId,
+    eventId: row.eventId,
+    eventName: row.eventName,
+    payload: row.payload,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts,
+    responseStatus: row.responseStatus,
+    responseBody: row.responseBody,
+    error: row.error,
+    durationMs: row.durationMs,
+    isTest: row.isTest,
+    replayOf: row.replayOf,
+    createdAt: row.createdAt,
+    lastAttemptAt: row.lastAttemptAt,
+  };
+}
+
+export class PostgresWebhookRepository implements IWebhookRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async createEndpoint(
+    data: CreateWebhookEndpointData
+  ): Promise<WebhookEndpoint> {
+    const row = await this.db
+      .insertInto('webhook_endpoints')
+      .values({
+        user_id: data.userId,
+        url: data.url,
+        description: data.description ?? null,
+        secret: data.secret,
+        events: data.events,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    return toWebhookEndpoint(row as unknown as CamelCaseWebhookEndpointRow);
+  }
+
+  async findEndpointById(id: string): Promise<WebhookEndpoint | null> {
+    const row = await this.db
+      .selectFrom('webhook_endpoints')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst();
+
+    return row
+      ? toWebhookEndpoint(row as unknown as CamelCaseWebhookEndpointRow)
+      : null;
+  }
+
+  async findEndpointsByUserId(userId: string): Promise<WebhookEndpoint[]> {
+    const rows = await this.db
+      .selectFrom('webhook_endpoints')
+      .selectAll()
+      .where('user_id', '=', userId)
+      .orderBy('created_at', 'asc')
+      .execute();
+
+    return rows.map((row) =>
+      toWebhookEndpoint(row as unknown as CamelCaseWebhookEndpointRow)
+    );
+  }
+
+  async findActiveEndpointsForEvent(
+    userId: string,
+    eventType: WebhookEventType
+  ): Promise<WebhookEndpoint[]> {
+    const rows = await this.db
+      .selectFrom('webhook_endpoints')
+      .selectAll()
+      .where('user_id', '=', userId)
+      .where('is_active', '=', true)
+      .where(sql<boolean>`${eventType} = ANY(events)`)
+      .orderBy('created_at', 'asc')
+      .execute();
+
+    return rows.map((row) =>
+      toWebhookEndpoint(row as unknown as CamelCaseWebhookEndpointRow)
+    );
+  }
+
+  async countEndpointsByUserId(userId: string): Promise<number> {
+    const result = await this.db
+      .selectFrom('webhook_endpoints')
+      .select(this.db.fn.countAll<number>().as('count'))
+      .where('user_id', '=', userId)
+      .executeTakeFirst();
+
+    return Number(result?.count ?? 0);
+  }
+
+  async updateEndpoint(
+    id: string,
+    data: UpdateWebhookEndpointData
+  ): Promise<WebhookEndpoint | null> {
+    const row = await this.db
+      .updateTable('webhook_endpoints')
+      .set({
+        ...(data.url !== undefined && { url: data.url }),
+        ...(data.description !== undefined && {
+          description: data.description,
+        }),
+        ...(data.events !== undefined && { events: data.events }),
+        ...(data.isActive !== undefined && { is_active: data.isActive }),
+        updated_at: new Date(),
+      })
+      .where('id', '=', id)
+      .returningAll()
+      .executeTakeFirst();
+
+    return row
+      ? toWebhookEndpoint(row as unknown as CamelCaseWebhookEndpointRow)
+      : null;
+  }
+
+  async deleteEndpoint(id: string): Promise<boolean> {
+    const result = await this.db
+      .deleteFrom('webhook_endpoints')
+      .where('id', '=', id)
+      .executeTakeFirst();
+
+    return Number(result.numDeletedRows) > 0;
+  }
+
+  async createDelivery(
+    data: CreateWebhookDeliveryData
+  ): Promise<WebhookDelivery | null> {
+    const row = await this.db
+      .insertInto('webhook_deliveries')
+      .values({
+        endpoint_id: data.endpointId,
+        event_id: data.eventId,
+        event_name: data.eventName,
+        payload: JSON.stringify(data.payload),
+        is_test: data.isTest ?? false,
+        replay_of: data.replayOf ?? null,
+      })
+      // Matches the partial unique index on original event deliveries
+      .onConflict((oc) =>
+        oc
+          .columns(['endpoint_id', 'event_id'])
+          .where('replay_of', 'is', null)
+          .where('is_test', '=', false)
+          .doNothing()
+      )
+      .returningAll()
+      .executeTakeFirst();
+
+    return row
+      ? toWebhookDelivery(row as unknown as CamelCaseWebhookDeliveryRow)
+      : null;
+  }
+
+  async findDeliveryById(id: string): Promise<WebhookDelivery | null> {
+    const row = await this.db
+      .selectFrom('webhook_deliveries')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst();
+
+    return row
+      ? toWebhookDelivery(row as unknown as CamelCaseWebhookDeliveryRow)
+      : null;
+  }
+
+  async findDeliveriesByEndpointId(
+    endpointId: string,
+    options?: { limit?: number; cursor?: WebhookDeliveryCursor }
+  ): Promise<WebhookDelivery[]> {
+    const limit = options?.limit ?? 20;
+
+    let query = this.db
+      .selectFrom('webhook_deliveries')
+      .selectAll()
+      .where('endpoint_id', '=', endpointId);
+
+    // Cursor pagination by (created_at, id)
+    if (options?.cursor) {
+      const { createdAt, id } = options.cursor;
+      query = query.where((eb) =>
+        eb.or([
+          eb('created_at', '<', createdAt),
+          eb.and([eb('created_at', '=', createdAt), eb('id', '<', id)]),
+        ])
+      );
+    }
+
+    const rows = await query
+      .orderBy('created_at', 'desc')
+      .orderBy('id', 'desc')
+      .limit(limit)
+      .execute();
+
+    return rows.map((row) =>
+      toWebhookDelivery(row as unknown as CamelCaseWebhookDeliveryRow)
+    );
+  }
+
+  async recordAttempt(id: string, result: WebhookAttemptResult): Promise<void> {
+    await this.db
+      .updateTable('webhook_deliveries')
+      .set((eb) => ({
+        status: result.status,
+        attempts: eb('attempts', '+', 1),
+        response_status: result.responseStatus,
+        response_body: result.responseBody,
+        error: result.error,
+        duration_ms: result.durationMs,
+        last_attempt_at: new Date(),
+      }))
+      .where('id', '=', id)
+      .execute();
+  }
+}
+
+/**
+ * Factory function to create webhook repository
+ */
+export function createWebhookRepository(
+  db: Kysely<Database>
+): PostgresWebhookRepository {
+  return new PostgresWebhookRepository(db);
+}
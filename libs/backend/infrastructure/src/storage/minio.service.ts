@@ -18,6 +18,11 @@ import type {
   CopyObjectOptions,
   ObjectInfo,
   ListObjectsOptions,
+  InitiateMultipartUploadOptions,
+  MultipartUploadRef,
+  PresignedPartUrlOptions,
+  UploadedPart,
+  CompleteMultipartUploadOptions,
 } from '@blog/backend/core';
 
 export interface MinIOServiceConfig {
@@ -35,14 +40,24 @@ export interface MinIOServiceConfig {
   publicUrl?: string;
 }
 
+/**
+ * The SDK only lists the parts of an upload internally (for resumable
+ * putObject); multipart uploads resumed from the browser need it too
+ */
+class MultipartClient extends Client {
+  listUploadedParts(bucket: string, key: string, uploadId: string) {
+    return this.listParts(bucket, key, uploadId);
+  }
+}
+
 export class MinIOService implements IStorageService {
-  private client: Client;
+  private client: MultipartClient;
   private config: MinIOServiceConfig;
   private initialized = false;
 
   constructor(config: MinIOServiceConfig) {
     this.config = config;
-    this.client = new Client({
+    this.client = new MultipartClient({
       endPoint: config.endPoint,
       port: config.port,
       useSSL: config.useSSL,
@@ -253,6 +268,76 @@ export class MinIOService implements IStorageService {
     };
   }
 
+  async initiateMultipartUpload(
+    options: InitiateMultipartUploadOptions
+  ): Promise<string> {
+    await this.ensureBucket(options.bucket);
+
+    return this.client.initiateNewMultipartUpload(
+      options.bucket,
+      options.key,
+      options.contentType ? { 'Content-Type': options.contentType } : {}
+    );
+  }
+
+  async generatePresignedPartUrl(
+    options: PresignedPartUrlOptions
+  ): Promise<PresignedUrlResult> {
+    const expiresIn = options.expiresIn || 3600; // 1 hour default
+
+    const url = await this.client.presignedUrl(
+      'PUT',
+      options.bucket,
+      options.key,
+      expiresIn,
+      {
+        partNumber: String(options.partNumber),
+        uploadId: options.uploadId,
+      }
+    );
+
+    const expiresAt = new Date(Date.now() + expiresIn * 1000);
+
+    return { url, expiresAt };
+  }
+
+  async listMultipartParts(
+    options: MultipartUploadRef
+  ): Promise<UploadedPart[]> {
+    const parts = await this.client.listUploadedParts(
+      options.bucket,
+      options.key,
+      options.uploadId
+    );
+
+    return parts
+      .map((part) => ({
+        partNumber: part.part,
+        etag: part.etag,
+        size: part.size,
+      }))
+      .sort((a, b) => a.partNumber - b.partNumber);
+  }
+
+  async completeMultipartUpload(
+    options: CompleteMultipartUploadOptions
+  ): Promise<void> {
+    await this.client.completeMultipartUpload(
+      options.bucket,
+      options.key,
+      options.uploadId,
+      options.parts.map((part) => ({ part: part.partNumber, etag: part.etag }))
+    );
+  }
+
+  async abortMultipartUpload(options: MultipartUploadRef): Promise<void> {
+    await this.client.abortMultipartUpload(
+      options.bucket,
+      options.key,
+      options.uploadId
+    );
+  }
+
   getPublicUrl(bucket: string, key: string): string {
     const baseUrl =
       this.config.publicUrl ||
@@ -0,0 +1,63 @@
+/**
+ * Fixture Transcription Service (Stub)
+ *
+ * Returns a fixed transcript whatever the audio, for tests and offline
+ * development. The transcript is given directly or read from a JSON file
+ * in TranscriptionResult shape.
+ */
+
+import fs from 'fs/promises';
+import type {
+  ITranscriptionService,
+  TranscribeOptions,
+  TranscriptionResult,
+} from '@blog/backend/core';
+
+const DEFAULT_TRANSCRIPT: TranscriptionResult = {
+  language: 'en',
+  segments: [
+    { start: 0, end: 2.5, text: 'This is a fixture transcript.' },
+    { start: 2.5, end: 5, text: 'No speech recognition was run.' },
+  ],
+};
+
+export class FixtureTranscriptionService implements ITranscriptionService {
+  readonly model = 'fixture';
+
+  /**
+   * @param fixture - Transcript, or path to a JSON file with one
+   */
+  constructor(
+    private readonly fixture: TranscriptionResult | string = DEFAULT_TRANSCRIPT
+  ) {}
+
+  async transcribe(
+    _audioPath: string,
+    options: TranscribeOptions = {}
+  ): Promise<TranscriptionResult> {
+    const result =
+      typeof this.fixture === 'string'
+        ? (JSON.parse(
+            await fs.readFile(this.fixture, 'utf-8')
+          ) as TranscriptionResult)
+        : this.fixture;
+
+    return {
+      language: options.language ?? result.language,
+      segments: result.segments.map((segment) => ({ ...segment })),
+    };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+}
+
+/**
+ * Create fixture (stub) transcription service
+ */
+export function createFixtureTranscriptionService(
+  fixture?: TranscriptionResult | string
+): ITranscriptionService {
+  return new FixtureTranscriptionService(fixture);
+}
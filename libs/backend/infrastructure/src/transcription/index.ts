@@ -0,0 +1,15 @@
+/**
+ * Transcription Services - Barrel Export
+ */
+
+export {
+  WhisperCppTranscriptionService,
+  createWhisperCppTranscriptionService,
+  parseWhisperCppOutput,
+  type WhisperCppTranscriptionServiceConfig,
+  type WhisperCppOutput,
+} from './whisper-cpp-transcription.service.js';
+export {
+  FixtureTranscriptionService,
+  createFixtureTranscriptionService,
+} from './fixture-transcription.service.js';
@@ -0,0 +1,137 @@
+/**
+ * whisper.cpp Transcription Service Implementation
+ *
+ * Transcribes audio with the whisper.cpp CLI (whisper-cli) and a local GGML
+ * model. The CLI writes its result as JSON (-oj) next to a temporary output
+ * base, which is read back and removed.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type {
+  ITranscriptionService,
+  TranscribeOptions,
+  TranscriptionResult,
+} from '@blog/backend/core';
+
+const execFileAsync = promisify(execFile);
+
+export interface WhisperCppTranscriptionServiceConfig {
+  /** whisper.cpp CLI binary (default: 'whisper-cli' from PATH) */
+  binaryPath?: string;
+  /** GGML model file (e.g., '/models/ggml-base.bin') */
+  modelPath: string;
+  /** CPU threads (default: 4) */
+  threads?: number;
+  /** Run time limit in milliseconds (default: 1 hour) */
+  timeoutMs?: number;
+}
+
+/** The parts of whisper.cpp's -oj output that are used */
+export interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription?: {
+    offsets?: { from?: number; to?: number };
+    text?: string;
+  }[];
+}
+
+const DEFAULT_BINARY = 'whisper-cli';
+const DEFAULT_THREADS = 4;
+const DEFAULT_TIMEOUT_MS = 60 * 60 * 1000;
+
+/**
+ * Parse whisper.cpp JSON output. Offsets are in milliseconds; segments
+ * without speech ("[BLANK_AUDIO]", "(music)") are dropped.
+ */
+export function parseWhisperCppOutput(
+  output: WhisperCppOutput,
+  fallbackLanguage = 'en'
+): TranscriptionResult {
+  const segments = (output.transcription ?? [])
+    .map((segment) => ({
+      start: (segment.offsets?.from ?? 0) / 1000,
+      end: (segment.offsets?.to ?? 0) / 1000,
+      text: (segment.text ?? '').trim(),
+    }))
+    .filter((segment) => segment.text && !/^[[(].*[\])]$/.test(segment.text));
+
+  return {
+    language: output.result?.language || fallbackLanguage,
+    segments,
+  };
+}
+
+export class WhisperCppTranscriptionService implements ITranscriptionService {
+  readonly model: string;
+  private readonly binaryPath: string;
+  private readonly modelPath: string;
+  private readonly threads: number;
+  private readonly timeoutMs: number;
+
+  constructor(config: WhisperCppTranscriptionServiceConfig) {
+    this.binaryPath = config.binaryPath ?? DEFAULT_BINARY;
+    this.modelPath = config.modelPath;
+    this.threads = config.threads ?? DEFAULT_THREADS;
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.model = `whisper.cpp:${path.basename(config.modelPath)}`;
+  }
+
+  async transcribe(
+    audioPath: string,
+    options: TranscribeOptions = {}
+  ): Promise<TranscriptionResult> {
+    const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'whisper-'));
+    const outputBase = path.join(outputDir, 'transcript');
+
+    try {
+      await execFileAsync(
+        this.binaryPath,
+        [
+          '-m',
+          this.modelPath,
+          '-f',
+          audioPath,
+          '-l',
+          options.language ?? 'auto',
+          '-t',
+          String(this.threads),
+          '-oj',
+          '-of',
+          outputBase,
+          '-np',
+        ],
+        { timeout: this.timeoutMs, maxBuffer: 16 * 1024 * 1024 }
+      );
+
+      const output = JSON.parse(
+        await fs.readFile(`${outputBase}.json`, 'utf-8')
+      ) as WhisperCppOutput;
+      return parseWhisperCppOutput(output, options.language);
+    } finally {
+      await fs.rm(outputDir, { recursive: true, force: true });
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await fs.access(this.modelPath);
+      await execFileAsync(this.binaryPath, ['--help'], { timeout: 5000 });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Create whisper.cpp transcription service
+ */
+export function createWhisperCppTranscriptionService(
+  config: WhisperCppTranscriptionServiceConfig
+): ITranscriptionService {
+  return new WhisperCppTranscriptionService(config);
+}
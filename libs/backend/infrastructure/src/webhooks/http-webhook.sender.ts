@@ -0,0 +1,225 @@
+/**
+ * HTTP Webhook Sender
+ *
+ * POSTs webhook deliveries with an HMAC-SHA256 signature that receivers
+ * verify with their endpoint secret:
+ *
+ *   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC of "<t>.<body>">
+ *
+ * The timestamp is signed with the body so receivers can reject replayed
+ * requests. URLs resolving to loopback, private or link-local addresses are
+ * refused (unless allowed for local development), and redirects are not
+ * followed, so webhooks cannot be used to reach internal services. The
+ * address is checked in the lookup of the connection itself, so a hostname
+ * cannot pass the check and then resolve elsewhere (DNS rebinding).
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import { lookup, type LookupAddress } from 'dns';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import type {
+  IWebhookSender,
+  WebhookRequest,
+  WebhookResponse,
+} from '@blog/backend/core';
+
+export interface HttpWebhookSenderConfig {
+  /** Request timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+  /** Allow URLs on private networks, e.g. for local development */
+  allowPrivateNetworks?: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const MAX_RESPONSE_BODY_LENGTH = 2048;
+const USER_AGENT = 'BlogVideoPlatform-Webhooks/1.0';
+const PRIVATE_ADDRESS_ERROR = 'URL resolves to a private network address';
+
+const PRIVATE_NETWORKS = new BlockList();
+PRIVATE_NETWORKS.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('224.0.0.0', 3, 'ipv4');
+PRIVATE_NETWORKS.addAddress('::', 'ipv6');
+PRIVATE_NETWORKS.addAddress('::1', 'ipv6');
+PRIVATE_NETWORKS.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_NETWORKS.addSubnet('fe80::', 10, 'ipv6');
+PRIVATE_NETWORKS.addSubnet('ff00::', 8, 'ipv6');
+
+/**
+ * Signature header value for a request body
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as IPv4
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return PRIVATE_NETWORKS.check(mapped[1], 'ipv4');
+
+  return PRIVATE_NETWORKS.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * DNS lookup that refuses hostnames resolving to a private address. Used as
+ * the connection's lookup, so the checked address is the one connected to.
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+
+    const resolved = addresses as LookupAddress[];
+    if (
+      resolved.length === 0 ||
+      resolved.some((a) => isPrivateAddress(a.address))
+    ) {
+      return callback(new Error(PRIVATE_ADDRESS_ERROR), []);
+    }
+
+    if (options.all) return callback(null, resolved);
+    callback(null, resolved[0].address, resolved[0].family);
+  });
+};
+
+export class HttpWebhookSender implements IWebhookSender {
+  private readonly timeoutMs: number;
+  private readonly allowPrivateNetworks: boolean;
+
+  constructor(config: HttpWebhookSenderConfig = {}) {
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.allowPrivateNetworks = config.allowPrivateNetworks ?? false;
+  }
+
+  async send(request: WebhookRequest): Promise<WebhookResponse> {
+    const startedAt = Date.now();
+    const result = (
+      statusCode: number | null,
+      body: string | null,
+      error: string | null
+    ): WebhookResponse => ({
+      statusCode,
+      body,
+      error,
+      durationMs: Date.now() - startedAt,
+    });
+
+    try {
+      const blocked = this.checkUrl(request.url);
+      if (blocked) return result(null, null, blocked);
+
+      const response = await this.post(request);
+      return result(response.statusCode, response.body, null);
+    } catch (error) {
+      const message =
+        error instanceof Error && error.name === 'TimeoutError'
+          ? `Timed out after ${this.timeoutMs}ms`
+          : error instanceof Error
+          ? error.message
+          : 'Request failed';
+      return result(null, null, message);
+    }
+  }
+
+  /**
+   * Reason the URL may not be called, or null. Hostnames are checked when
+   * the connection resolves them.
+   */
+  private checkUrl(url: string): string | null {
+    if (this.allowPrivateNetworks) return null;
+
+    const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+    return isIP(hostname) && isPrivateAddress(hostname)
+      ? PRIVATE_ADDRESS_ERROR
+      : null;
+  }
+
+  /**
+   * POST the delivery. Redirects are not followed, and only the start of
+   * the response body is read (for the delivery log).
+   */
+  private post(
+    request: WebhookRequest
+  ): Promise<{ statusCode: number; body: string }> {
+    const url = new URL(request.url);
+    const client = url.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const req = client.request(
+        url,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(request.body),
+            'User-Agent': USER_AGENT,
+            'X-Webhook-Event': request.eventName,
+            'X-Webhook-Delivery': request.deliveryId,
+            'X-Webhook-Signature': signWebhookPayload(
+              request.secret,
+              request.body
+            ),
+          },
+          lookup: this.allowPrivateNetworks ? undefined : publicOnlyLookup,
+        },
+        (res) => {
+          const chunks: Buffer[] = [];
+          let length = 0;
+          const done = () => {
+            clearTimeout(timeout);
+            resolve({
+              statusCode: res.statusCode ?? 0,
+              body: Buffer.concat(chunks)
+                .toString('utf8')
+                .slice(0, MAX_RESPONSE_BODY_LENGTH),
+            });
+          };
+
+          res.on('data', (chunk: Buffer) => {
+            chunks.push(chunk);
+            length += chunk.length;
+            // Enough for the log; drop the rest of the response
+            if (length >= MAX_RESPONSE_BODY_LENGTH) res.destroy();
+          });
+          res.on('end', done);
+          res.on('close', done);
+        }
+      );
+
+      const timeout = setTimeout(() => {
+        const error = new Error(`Timed out after ${this.timeoutMs}ms`);
+        error.name = 'TimeoutError';
+        req.destroy(error);
+      }, this.timeoutMs);
+
+      req.on('error', (error) => {
+        clearTimeout(timeout);
+        reject(error);
+      });
+      req.end(request.body);
+    });
+  }
+}
+
+/**
+ * Factory function to create HttpWebhookSender
+ */
+export function createHttpWebhookSender(
+  config?: HttpWebhookSenderConfig
+): HttpWebhookSender {
+  return new HttpWebhookSender(config);
+}
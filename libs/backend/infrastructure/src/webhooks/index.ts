@@ -0,0 +1,10 @@
+/**
+ * Webhooks - Barrel Export
+ */
+
+export {
+  HttpWebhookSender,
+  createHttpWebhookSender,
+  signWebhookPayload,
+  type HttpWebhookSenderConfig,
+} from './http-webhook.sender.js';
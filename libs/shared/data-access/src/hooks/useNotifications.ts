@@ -0,0 +1,167 @@
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  useInfiniteQuery,
+} from '@tanstack/react-query';
+import { apiClient } from '../lib/api-client';
+import { useRealtimeEvents } from './useRealtime';
+import type {
+  NotificationListResponse,
+  MarkNotificationsReadResponse,
+  NotificationPreferences,
+  UpdateNotificationPreferencesInput,
+  UnsubscribeResponse,
+} from '../lib/types';
+
+// How often the unread badge is refreshed while the realtime stream is down
+const UNREAD_COUNT_REFETCH_MS = 60 * 1000;
+
+// Query keys
+export const notificationKeys = {
+  all: ['notifications'] as const,
+  list: () => [...notificationKeys.all, 'list'] as const,
+  unreadCount: () => [...notificationKeys.all, 'unread-count'] as const,
+  preferences: () => [...notificationKeys.all, 'preferences'] as const,
+};
+
+// Get own notifications with infinite scroll (cursor-based)
+export const useNotifications = (enabled = true) => {
+  return useInfiniteQuery({
+    queryKey: notificationKeys.list(),
+    queryFn: async ({ pageParam }): Promise<NotificationListResponse> => {
+      const response = await apiClient.get<NotificationListResponse>(
+        '/notifications',
+        { params: { cursor: pageParam, limit: 10 } }
+      );
+      // Response interceptor already returns response.data
+      return response.data;
+    },
+    getNextPageParam: (lastPage) => {
+      return lastPage.hasMore ? lastPage.nextCursor : undefined;
+    },
+    initialPageParam: undefined as string | undefined,
+    enabled,
+  });
+};
+
+// Get the number of unread notifications for the bell badge. Refreshed when
+// the realtime stream reports a new notification, polled while it is down.
+export const useUnreadNotificationCount = (enabled = true) => {
+  const queryClient = useQueryClient();
+  const refresh = () =>
+    queryClient.invalidateQueries({ queryKey: notificationKeys.all });
+
+  const { connected } = useRealtimeEvents({
+    enabled,
+    onEvent: (type) => {
+      if (type === 'notification.created') refresh();
+    },
+    onConnect: refresh,
+  });
+
+  return useQuery({
+    queryKey: notificationKeys.unreadCount(),
+    queryFn: async (): Promise<number> => {
+      const response = await apiClient.get<NotificationListResponse>(
+        '/notifications',
+        { params: { limit: 1, unread: true } }
+      );
+      return response.data.unreadCount;
+    },
+    refetchInterval: connected ? false : UNREAD_COUNT_REFETCH_MS,
+    enabled,
+  });
+};
+
+// Mark some notifications as read
+export const useMarkNotificationsRead = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      ids: string[]
+    ): Promise<MarkNotificationsReadResponse> => {
+      const response = await apiClient.post<MarkNotificationsReadResponse>(
+        '/notifications/read',
+        { ids }
+      );
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(
+        notificationKeys.unreadCount(),
+        data.unreadCount
+      );
+      queryClient.invalidateQueries({ queryKey: notificationKeys.list() });
+    },
+  });
+};
+
+// Mark all notifications as read
+export const useMarkAllNotificationsRead = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (): Promise<MarkNotificationsReadResponse> => {
+      const response = await apiClient.post<MarkNotificationsReadResponse>(
+        '/notifications/read-all'
+      );
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(
+        notificationKeys.unreadCount(),
+        data.unreadCount
+      );
+      queryClient.invalidateQueries({ queryKey: notificationKeys.list() });
+    },
+  });
+};
+
+// Get own notification preferences (channels per type and digest schedule)
+export const useNotificationPreferences = (enabled = true) => {
+  return useQuery({
+    queryKey: notificationKeys.preferences(),
+    queryFn: async (): Promise<NotificationPreferences> => {
+      const response = await apiClient.get<NotificationPreferences>(
+        '/notifications/preferences'
+      );
+      return response.data;
+    },
+    enabled,
+  });
+};
+
+// Update own notification preferences
+export const useUpdateNotificationPreferences = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      input: UpdateNotificationPreferencesInput
+    ): Promise<NotificationPreferences> => {
+      const response = await apiClient.put<NotificationPreferences>(
+        '/notifications/preferences',
+        input
+      );
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(notificationKeys.preferences(), data);
+    },
+  });
+};
+
+// Unsubscribe with the signed token of an email link (no login needed)
+export const useUnsubscribe = () => {
+  return useMutation({
+    mutationFn: async (token: string): Promise<UnsubscribeResponse> => {
+      const response = await apiClient.post<UnsubscribeResponse>(
+        '/notifications/unsubscribe',
+        { token }
+      );
+      return response.data;
+    },
+  });
+};
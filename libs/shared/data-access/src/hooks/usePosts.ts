@@ -13,6 +13,9 @@ import type {
   PostFilters,
   CursorPaginatedResponse,
   PostDetailResponse,
+  RelatedPostsResponse,
+  TrendingPeriod,
+  TrendingPostsResponse,
 } from '../lib/types';
 
 // Query keys
@@ -22,6 +25,10 @@ export const postKeys = {
   list: (filters: PostFilters) => [...postKeys.lists(), filters] as const,
   details: () => [...postKeys.all, 'detail'] as const,
   detail: (id: string) => [...postKeys.details(), id] as const,
+  related: (id: string, limit?: number) =>
+    [...postKeys.detail(id), 'related', limit] as const,
+  trending: (period: TrendingPeriod, limit?: number) =>
+    [...postKeys.all, 'trending', period, limit] as const,
 };
 
 // Get posts with cursor-based pagination
@@ -92,6 +99,46 @@ export const usePost = (
   });
 };
 
+// Get related posts (tag/category overlap, similarity, recency)
+export const useRelatedPosts = (idOrSlug: string, limit?: number) => {
+  return useQuery({
+    queryKey: postKeys.related(idOrSlug, limit),
+    queryFn: async (): Promise<RelatedPostsResponse> => {
+      const response = await apiClient.get<RelatedPostsResponse>(
+        `/posts/${idOrSlug}/related`,
+        { params: { limit } }
+      );
+      // Response interceptor already returns response.data
+      return response.data;
+    },
+    enabled: !!idOrSlug,
+  });
+};
+
+// Get trending posts with infinite scroll (precomputed, time-decayed score)
+export const useTrendingPosts = (
+  period: TrendingPeriod,
+  limit?: number,
+  enabled = true
+) => {
+  return useInfiniteQuery({
+    queryKey: postKeys.trending(period, limit),
+    queryFn: async ({ pageParam }): Promise<TrendingPostsResponse> => {
+      const response = await apiClient.get<TrendingPostsResponse>(
+        '/posts/trending',
+        { params: { period, limit, cursor: pageParam } }
+      );
+      // Response interceptor already returns response.data
+      return response.data;
+    },
+    getNextPageParam: (lastPage) => {
+      return lastPage.hasMore ? lastPage.nextCursor : undefined;
+    },
+    initialPageParam: undefined as string | undefined,
+    enabled,
+  });
+};
+
 // Create post
 export const useCreatePost = () => {
   const queryClient = useQueryClient();
@@ -0,0 +1,101 @@
+/**
+ * Realtime Hooks
+ *
+ * Subscribes to the server-sent event stream at /api/realtime/events.
+ * Hooks that use it keep polling while it is not connected (no EventSource
+ * support, signed out, network drop), so it only ever saves requests.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { apiClient, getAccessToken } from '../lib/api-client';
+import type { RealtimeEventType } from '../lib/types';
+
+const REALTIME_EVENT_TYPES: RealtimeEventType[] = [
+  'notification.created',
+  'video.progress',
+  'video.status',
+];
+
+// Delay before opening a new stream once the browser gave up reconnecting
+// (e.g. expired token); the new stream picks up the current token
+const RECONNECT_DELAY_MS = 10 * 1000;
+
+export interface UseRealtimeEventsOptions {
+  enabled?: boolean;
+  // Videos to receive video.progress and video.status for
+  videoIds?: string[];
+  onEvent: (type: RealtimeEventType, data: unknown) => void;
+  // Called on every (re)connect, to catch up on missed events
+  onConnect?: () => void;
+}
+
+/**
+ * Open the realtime stream while enabled. Returns whether it is connected.
+ */
+export const useRealtimeEvents = ({
+  enabled = true,
+  videoIds = [],
+  onEvent,
+  onConnect,
+}: UseRealtimeEventsOptions) => {
+  const [connected, setConnected] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+
+  // Keep the latest callbacks without reopening the stream
+  const onEventRef = useRef(onEvent);
+  const onConnectRef = useRef(onConnect);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+    onConnectRef.current = onConnect;
+  });
+
+  const videoIdsKey = videoIds.join(',');
+
+  useEffect(() => {
+    const token = getAccessToken();
+    if (!enabled || !token || typeof EventSource === 'undefined') {
+      return;
+    }
+
+    const params = new URLSearchParams({ access_token: token });
+    if (videoIdsKey) params.set('videoIds', videoIdsKey);
+    const source = new EventSource(
+      `${apiClient.defaults.baseURL}/realtime/events?${params}`
+    );
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    source.addEventListener('ready', () => {
+      setConnected(true);
+      onConnectRef.current?.();
+    });
+
+    for (const type of REALTIME_EVENT_TYPES) {
+      source.addEventListener(type, (event) => {
+        try {
+          onEventRef.current(type, JSON.parse((event as MessageEvent).data));
+        } catch (error) {
+          console.error(`Invalid realtime event ${type}:`, error);
+        }
+      });
+    }
+
+    source.onerror = () => {
+      setConnected(false);
+      // The browser retries by itself unless the server refused the stream
+      if (source.readyState === EventSource.CLOSED) {
+        reconnectTimer = setTimeout(
+          () => setAttempt((n) => n + 1),
+          RECONNECT_DELAY_MS
+        );
+      }
+    };
+
+    return () => {
+      clearTimeout(reconnectTimer);
+      source.close();
+      setConnected(false);
+    };
+  }, [enabled, videoIdsKey, attempt]);
+
+  return { connected };
+};
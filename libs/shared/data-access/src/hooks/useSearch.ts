@@ -0,0 +1,32 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { apiClient } from '../lib/api-client';
+import type { SearchFilters, SearchPostsResponse } from '../lib/types';
+
+// Query keys
+export const searchKeys = {
+  all: ['search'] as const,
+  posts: (filters: SearchFilters) =>
+    [...searchKeys.all, 'posts', filters] as const,
+};
+
+// Search posts with infinite scroll (ranked cursor)
+export const useSearchPosts = (filters: SearchFilters) => {
+  return useInfiniteQuery({
+    queryKey: searchKeys.posts(filters),
+    queryFn: async ({ pageParam }): Promise<SearchPostsResponse> => {
+      const response = await apiClient.get<SearchPostsResponse>(
+        '/search/posts',
+        {
+          params: { ...filters, cursor: pageParam },
+        }
+      );
+      // Response interceptor already returns response.data
+      return response.data;
+    },
+    getNextPageParam: (lastPage) => {
+      return lastPage.hasMore ? lastPage.nextCursor : undefined;
+    },
+    initialPageParam: undefined as string | undefined,
+    enabled: filters.q.trim().length > 0,
+  });
+};
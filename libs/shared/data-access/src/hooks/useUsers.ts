@@ -10,6 +10,7 @@ import type {
   UpdateUserRequest,
   Post,
   CursorPaginatedResponse,
+  AuthorAnalytics,
 } from '../lib/types';
 
 // Query keys
@@ -22,6 +23,8 @@ export const userKeys = {
     [...userKeys.detail(username), 'followers'] as const,
   following: (username: string) =>
     [...userKeys.detail(username), 'following'] as const,
+  analytics: (days: number) =>
+    [...userKeys.all, 'me', 'analytics', days] as const,
 };
 
 // Get user by username
@@ -116,3 +119,18 @@ export const useUpdateProfile = () => {
     },
   });
 };
+
+// Get own creator analytics for the last `days` days
+export const useMyAnalytics = (days: number) => {
+  return useQuery({
+    queryKey: userKeys.analytics(days),
+    queryFn: async (): Promise<AuthorAnalytics> => {
+      const response = await apiClient.get<AuthorAnalytics>(
+        '/users/me/analytics',
+        { params: { days } }
+      );
+      // Response interceptor already returns response.data
+      return response.data;
+    },
+  });
+};
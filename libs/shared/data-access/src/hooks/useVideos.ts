@@ -6,6 +6,13 @@
 
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiClient } from '../lib/api-client';
+import type {
+  VideoChapter,
+  VideoLoudness,
+  VideoProgressEvent,
+} from '../lib/types';
+import { useRealtimeEvents } from './useRealtime';
+import { postKeys } from './usePosts';
 
 // Types
 export interface VideoUploadUrlResponse {
@@ -26,13 +33,20 @@ export interface VideoStatusResponse {
     | 'failed'
     | 'cancelled';
   progress?: number;
+  // Encoding progress per quality, only pushed by the realtime stream
+  qualityProgress?: Record<string, number>;
   thumbnailUrl?: string;
   hlsUrl?: string;
+  thumbnailsVttUrl?: string | null;
+  dashManifestUrl?: string | null;
   duration?: number;
   width?: number;
   height?: number;
   qualities?: string[];
   error?: string;
+  chapters?: VideoChapter[];
+  // Measured once encoded, null for videos without audio
+  loudness?: VideoLoudness | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -44,6 +58,28 @@ export interface GenerateUploadUrlRequest {
   postId?: string;
 }
 
+export interface MultipartUploadResponse {
+  videoId: string;
+  // Size of every part but the last, in bytes
+  partSize: number;
+  partCount: number;
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
+
+export interface MultipartUploadStatusResponse extends MultipartUploadResponse {
+  uploadedParts: UploadedPart[];
+}
+
+export interface UploadPartUrlsResponse {
+  parts: { partNumber: number; url: string }[];
+  expiresAt: string;
+}
+
 export interface DeletedVideo {
   id: string;
   originalFilename: string;
@@ -68,6 +104,60 @@ export interface RestoreVideoResponse {
   requeued: boolean;
 }
 
+export type CaptionFormat = 'vtt' | 'srt';
+
+export interface VideoCaption {
+  id: string;
+  videoId: string;
+  /** BCP 47 language tag */
+  language: string;
+  label: string;
+  isDefault: boolean;
+  sourceFormat: CaptionFormat;
+  /** Generated by speech-to-text rather than uploaded */
+  isGenerated: boolean;
+  /** WebVTT file */
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UploadCaptionRequest {
+  videoId: string;
+  language: string;
+  label?: string;
+  isDefault?: boolean;
+  format: CaptionFormat;
+  content: string;
+}
+
+export interface VideoThumbnailCandidate {
+  id: string;
+  url: string;
+  /** Seconds from the start of the video */
+  time: number;
+  /** Higher for sharper, well exposed frames */
+  score: number;
+}
+
+export interface VideoThumbnailCandidatesResponse {
+  /** The poster in use */
+  thumbnailUrl: string | null;
+  /** In video order */
+  candidates: VideoThumbnailCandidate[];
+}
+
+export interface VideoPlaybackToken {
+  token: string;
+  expiresAt: string;
+}
+
+export interface SelectVideoThumbnailResponse {
+  thumbnailUrl: string;
+  /** Whether the post's featured image was set to the poster */
+  featuredImageUpdated: boolean;
+}
+
 // Query keys
 export const videoKeys = {
   all: ['videos'] as const,
@@ -75,8 +165,24 @@ export const videoKeys = {
   detail: (id: string) => [...videoKeys.details(), id] as const,
   status: (id: string) => [...videoKeys.all, 'status', id] as const,
   deleted: () => [...videoKeys.all, 'deleted'] as const,
+  captions: (id: string) => [...videoKeys.all, 'captions', id] as const,
+  thumbnailCandidates: (id: string) =>
+    [...videoKeys.all, 'thumbnail-candidates', id] as const,
+  playback: (id: string) => [...videoKeys.all, 'playback', id] as const,
 };
 
+/** A new playback token is fetched this long before the current one expires */
+const PLAYBACK_TOKEN_REFRESH_MARGIN = 60 * 1000;
+
+/**
+ * URL of a file of a video in the playback proxy (the player adds the
+ * token): master.m3u8 to play it, thumbnails.vtt for seek previews
+ */
+export const getVideoPlaybackUrl = (
+  videoId: string,
+  file = 'master.m3u8'
+): string => `${apiClient.defaults.baseURL}/videos/${videoId}/playback/${file}`;
+
 /**
  * Hook to generate a presigned upload URL
  */
@@ -94,6 +200,83 @@ export const useGenerateUploadUrl = () => {
   });
 };
 
+/**
+ * Hook to start a resumable multipart upload
+ */
+export const useInitiateMultipartUpload = () => {
+  return useMutation({
+    mutationFn: async (
+      data: GenerateUploadUrlRequest
+    ): Promise<MultipartUploadResponse> => {
+      const response = await apiClient.post<MultipartUploadResponse>(
+        '/videos/multipart',
+        data
+      );
+      return response.data;
+    },
+  });
+};
+
+/**
+ * Hook to get a multipart upload in progress with the parts already
+ * uploaded, to resume it
+ */
+export const useMultipartUploadStatus = () => {
+  return useMutation({
+    mutationFn: async (
+      videoId: string
+    ): Promise<MultipartUploadStatusResponse> => {
+      const response = await apiClient.get<MultipartUploadStatusResponse>(
+        `/videos/${videoId}/multipart`
+      );
+      return response.data;
+    },
+  });
+};
+
+/**
+ * Hook to presign upload URLs for parts of a multipart upload
+ */
+export const useUploadPartUrls = () => {
+  return useMutation({
+    mutationFn: async ({
+      videoId,
+      partNumbers,
+    }: {
+      videoId: string;
+      partNumbers: number[];
+    }): Promise<UploadPartUrlsResponse> => {
+      const response = await apiClient.post<UploadPartUrlsResponse>(
+        `/videos/${videoId}/multipart/part-urls`,
+        { partNumbers }
+      );
+      return response.data;
+    },
+  });
+};
+
+/**
+ * Hook to complete a multipart upload (confirm it afterwards)
+ */
+export const useCompleteMultipartUpload = () => {
+  return useMutation({
+    mutationFn: async (videoId: string): Promise<void> => {
+      await apiClient.post(`/videos/${videoId}/multipart/complete`);
+    },
+  });
+};
+
+/**
+ * Hook to abort a multipart upload and delete its pending video
+ */
+export const useAbortMultipartUpload = () => {
+  return useMutation({
+    mutationFn: async (videoId: string): Promise<void> => {
+      await apiClient.delete(`/videos/${videoId}/multipart`);
+    },
+  });
+};
+
 /**
  * Hook to confirm video upload
  */
@@ -111,15 +294,51 @@ export const useConfirmUpload = () => {
   });
 };
 
+const TERMINAL_VIDEO_STATUSES: VideoStatusResponse['status'][] = [
+  'uploaded',
+  'ready',
+  'partial_ready',
+  'failed',
+  'cancelled',
+];
+
 /**
- * Hook to get video processing status
+ * Hook to get video processing status.
+ * Follows the realtime stream while processing, polls while it is down.
  */
 export const useVideoStatus = (
   videoId: string | null,
   options?: { enabled?: boolean; refetchInterval?: number }
 ) => {
+  const queryClient = useQueryClient();
+  const queryKey = videoKeys.status(videoId ?? '');
+  const enabled = !!videoId && options?.enabled !== false;
+
+  // Read at render time; useQuery below re-renders on every status change
+  const currentStatus =
+    queryClient.getQueryData<VideoStatusResponse>(queryKey)?.status;
+  const isTerminal =
+    !!currentStatus && TERMINAL_VIDEO_STATUSES.includes(currentStatus);
+
+  const { connected } = useRealtimeEvents({
+    enabled: enabled && !isTerminal,
+    videoIds: videoId ? [videoId] : [],
+    onEvent: (type, data) => {
+      if (type === 'video.progress') {
+        const { progress, qualities } = data as VideoProgressEvent;
+        queryClient.setQueryData<VideoStatusResponse>(queryKey, (old) =>
+          old ? { ...old, progress, qualityProgress: qualities } : old
+        );
+      } else if (type === 'video.status') {
+        queryClient.invalidateQueries({ queryKey });
+      }
+    },
+    // Catch up on anything missed while disconnected
+    onConnect: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
   return useQuery({
-    queryKey: videoKeys.status(videoId ?? ''),
+    queryKey,
     queryFn: async (): Promise<VideoStatusResponse> => {
       if (!videoId) throw new Error('Video ID is required');
       const response = await apiClient.get<{
@@ -128,17 +347,11 @@ export const useVideoStatus = (
       }>(`/videos/${videoId}/status`);
       return response.data.data.status;
     },
-    enabled: !!videoId && options?.enabled !== false,
+    enabled,
     refetchInterval: (query) => {
-      // Only refetch for non-terminal states
+      // Only refetch for non-terminal states, and only without the stream
       const status = query.state.data?.status;
-      if (
-        status === 'uploaded' ||
-        status === 'ready' ||
-        status === 'partial_ready' ||
-        status === 'failed' ||
-        status === 'cancelled'
-      ) {
+      if ((status && TERMINAL_VIDEO_STATUSES.includes(status)) || connected) {
         return false;
       }
       return options?.refetchInterval ?? 3000;
@@ -215,16 +428,216 @@ export const useDeletedVideos = () => {
   });
 };
 
+/**
+ * Hook to get the caption tracks of a video
+ */
+export const useVideoCaptions = (videoId: string | undefined) => {
+  return useQuery({
+    queryKey: videoKeys.captions(videoId ?? ''),
+    queryFn: async (): Promise<VideoCaption[]> => {
+      const response = await apiClient.get<{ captions: VideoCaption[] }>(
+        `/videos/${videoId}/captions`
+      );
+      return response.data.captions;
+    },
+    enabled: !!videoId,
+  });
+};
+
+/**
+ * Hook to upload (or replace) the caption track of a language
+ */
+export const useUploadCaption = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      videoId,
+      language,
+      ...data
+    }: UploadCaptionRequest): Promise<void> => {
+      await apiClient.put(
+        `/videos/${videoId}/captions/${encodeURIComponent(language)}`,
+        data
+      );
+    },
+    onSuccess: (_, { videoId }) => {
+      queryClient.invalidateQueries({ queryKey: videoKeys.captions(videoId) });
+    },
+  });
+};
+
+/**
+ * Hook to delete the caption track of a language
+ */
+export const useDeleteCaption = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      videoId,
+      language,
+    }: {
+      videoId: string;
+      language: string;
+    }): Promise<void> => {
+      await apiClient.delete(
+        `/videos/${videoId}/captions/${encodeURIComponent(language)}`
+      );
+    },
+    onSuccess: (_, { videoId }) => {
+      queryClient.invalidateQueries({ queryKey: videoKeys.captions(videoId) });
+    },
+  });
+};
+
+/**
+ * Hook to replace the chapters of a video, with a list or with the
+ * timestamp lines of the post content
+ */
+export const useSetVideoChapters = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      videoId,
+      ...data
+    }: {
+      videoId: string;
+      chapters?: VideoChapter[];
+      fromPostContent?: boolean;
+    }): Promise<VideoChapter[]> => {
+      const response = await apiClient.put<{ chapters: VideoChapter[] }>(
+        `/videos/${videoId}/chapters`,
+        data
+      );
+      return response.data.chapters;
+    },
+    onSuccess: (_, { videoId }) => {
+      queryClient.invalidateQueries({ queryKey: videoKeys.status(videoId) });
+      queryClient.invalidateQueries({ queryKey: postKeys.details() });
+    },
+  });
+};
+
+/**
+ * Hook to get the poster candidates of a video
+ */
+export const useVideoThumbnailCandidates = (
+  videoId: string | undefined,
+  options: { enabled?: boolean } = {}
+) => {
+  return useQuery({
+    queryKey: videoKeys.thumbnailCandidates(videoId ?? ''),
+    queryFn: async (): Promise<VideoThumbnailCandidatesResponse> => {
+      const response = await apiClient.get<VideoThumbnailCandidatesResponse>(
+        `/videos/${videoId}/thumbnail-candidates`
+      );
+      return response.data;
+    },
+    enabled: !!videoId && (options.enabled ?? true),
+  });
+};
+
+const readFileAsBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    // A data URL: strip the "data:<type>;base64," prefix
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Hook to set the poster of a video, to a candidate frame or an image file
+ */
+export const useSelectVideoThumbnail = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      videoId,
+      candidateId,
+      file,
+    }: {
+      videoId: string;
+      candidateId?: string;
+      file?: File;
+    }): Promise<SelectVideoThumbnailResponse> => {
+      const response = await apiClient.put<SelectVideoThumbnailResponse>(
+        `/videos/${videoId}/thumbnail`,
+        file
+          ? {
+              image: {
+                contentType: file.type,
+                data: await readFileAsBase64(file),
+              },
+            }
+          : { candidateId }
+      );
+      return response.data;
+    },
+    onSuccess: (_, { videoId }) => {
+      queryClient.invalidateQueries({
+        queryKey: videoKeys.thumbnailCandidates(videoId),
+      });
+      queryClient.invalidateQueries({ queryKey: videoKeys.status(videoId) });
+      queryClient.invalidateQueries({ queryKey: postKeys.details() });
+    },
+  });
+};
+
+/**
+ * Hook to get a playback token for a video, refreshed before it expires
+ * for as long as the component is mounted
+ */
+export const useVideoPlayback = (
+  videoId: string | undefined,
+  options: { enabled?: boolean } = {}
+) => {
+  return useQuery({
+    queryKey: videoKeys.playback(videoId ?? ''),
+    queryFn: async (): Promise<VideoPlaybackToken> => {
+      const response = await apiClient.post<VideoPlaybackToken>(
+        `/videos/${videoId}/playback`
+      );
+      return response.data;
+    },
+    enabled: !!videoId && (options.enabled ?? true),
+    refetchInterval: (query) =>
+      query.state.data
+        ? Math.max(
+            new Date(query.state.data.expiresAt).getTime() -
+              Date.now() -
+              PLAYBACK_TOKEN_REFRESH_MARGIN,
+            5000
+          )
+        : false,
+    // Playback goes on in a background tab
+    refetchIntervalInBackground: true,
+  });
+};
+
 /**
  * Combined hook for the full video upload workflow
  */
 export const useVideoUpload = () => {
   const generateUrl = useGenerateUploadUrl();
   const confirmUpload = useConfirmUpload();
+  const initiateMultipart = useInitiateMultipartUpload();
+  const multipartStatus = useMultipartUploadStatus();
+  const partUrls = useUploadPartUrls();
+  const completeMultipart = useCompleteMultipartUpload();
+  const abortMultipart = useAbortMultipartUpload();
 
   return {
     generateUploadUrl: generateUrl.mutateAsync,
     confirmUpload: confirmUpload.mutateAsync,
+    initiateMultipartUpload: initiateMultipart.mutateAsync,
+    getMultipartUploadStatus: multipartStatus.mutateAsync,
+    getUploadPartUrls: partUrls.mutateAsync,
+    completeMultipartUpload: completeMultipart.mutateAsync,
+    abortMultipartUpload: abortMultipart.mutateAsync,
     isGeneratingUrl: generateUrl.isPending,
     isConfirming: confirmUpload.isPending,
     generateError: generateUrl.error,
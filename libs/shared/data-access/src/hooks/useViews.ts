@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { apiClient } from '../lib/api-client';
+import type {
+  RecordPostViewResponse,
+  VideoHeartbeatRequest,
+  VideoHeartbeatResponse,
+} from '../lib/types';
+
+// Seconds of playback between heartbeats
+const HEARTBEAT_INTERVAL_SECONDS = 15;
+// Larger jumps between time updates are seeks, not playback
+const MAX_PLAYBACK_STEP_SECONDS = 2;
+// Renditions are reported by height; 'Auto' and other labels are not sent
+const QUALITY_PATTERN = /^\d{3,4}p$/;
+
+// Record a post view (deduplicated per viewer session cookie and day)
+export const useRecordPostView = () => {
+  return useMutation({
+    mutationFn: async (postId: string): Promise<RecordPostViewResponse> => {
+      const response = await apiClient.post<RecordPostViewResponse>(
+        `/views/posts/${postId}`,
+        undefined,
+        // The viewer session cookie is set by the API (cross-origin in dev)
+        { withCredentials: true }
+      );
+      // Response interceptor already returns response.data
+      return response.data;
+    },
+  });
+};
+
+// Send a video watch heartbeat
+export const useVideoHeartbeat = () => {
+  return useMutation({
+    mutationFn: async ({
+      videoId,
+      ...data
+    }: VideoHeartbeatRequest & {
+      videoId: string;
+    }): Promise<VideoHeartbeatResponse> => {
+      const response = await apiClient.post<VideoHeartbeatResponse>(
+        `/views/videos/${videoId}`,
+        data,
+        { withCredentials: true }
+      );
+      return response.data;
+    },
+  });
+};
+
+// Track seconds actually played and report them with heartbeats.
+// Returns VideoPlayer callbacks (onTimeUpdate, onPause, onEnded, onQualityChange).
+export const useVideoViewTracker = (videoId: string | undefined) => {
+  const { mutate: sendHeartbeat } = useVideoHeartbeat();
+  const lastTimeRef = useRef<number | null>(null);
+  const watchedRef = useRef(0);
+  const sentRef = useRef(0);
+  const qualityRef = useRef<string | undefined>(undefined);
+
+  // Start over when the video changes
+  useEffect(() => {
+    lastTimeRef.current = null;
+    watchedRef.current = 0;
+    sentRef.current = 0;
+  }, [videoId]);
+
+  const flush = useCallback(() => {
+    if (!videoId || watchedRef.current <= sentRef.current) return;
+    sentRef.current = watchedRef.current;
+    sendHeartbeat({
+      videoId,
+      watchedSeconds: Math.floor(watchedRef.current),
+      quality: qualityRef.current,
+    });
+  }, [videoId, sendHeartbeat]);
+
+  const onTimeUpdate = useCallback(
+    (currentTime: number) => {
+      const lastTime = lastTimeRef.current;
+      lastTimeRef.current = currentTime;
+      if (lastTime === null) return;
+
+      const step = currentTime - lastTime;
+      if (step > 0 && step <= MAX_PLAYBACK_STEP_SECONDS) {
+        watchedRef.current += step;
+      }
+      if (watchedRef.current - sentRef.current >= HEARTBEAT_INTERVAL_SECONDS) {
+        flush();
+      }
+    },
+    [flush]
+  );
+
+  const onQualityChange = useCallback((quality: string) => {
+    qualityRef.current = QUALITY_PATTERN.test(quality) ? quality : undefined;
+  }, []);
+
+  // Report what was watched when leaving the page
+  useEffect(() => flush, [flush]);
+
+  return {
+    onTimeUpdate,
+    onPause: flush,
+    onEnded: flush,
+    onQualityChange,
+  };
+};
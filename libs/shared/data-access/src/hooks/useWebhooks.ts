@@ -0,0 +1,150 @@
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  useInfiniteQuery,
+} from '@tanstack/react-query';
+import { apiClient } from '../lib/api-client';
+import type {
+  WebhookEndpoint,
+  CreateWebhookInput,
+  CreateWebhookResponse,
+  UpdateWebhookInput,
+  WebhookDelivery,
+  WebhookDeliveryListResponse,
+} from '../lib/types';
+
+// Query keys
+export const webhookKeys = {
+  all: ['webhooks'] as const,
+  list: () => [...webhookKeys.all, 'list'] as const,
+  deliveries: (endpointId: string) =>
+    [...webhookKeys.all, 'deliveries', endpointId] as const,
+};
+
+// Get own webhooks
+export const useWebhooks = (enabled = true) => {
+  return useQuery({
+    queryKey: webhookKeys.list(),
+    queryFn: async (): Promise<WebhookEndpoint[]> => {
+      const response = await apiClient.get<{ endpoints: WebhookEndpoint[] }>(
+        '/webhooks'
+      );
+      // Response interceptor already returns response.data
+      return response.data.endpoints;
+    },
+    enabled,
+  });
+};
+
+// Create a webhook; the response holds its secret, which is not shown again
+export const useCreateWebhook = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      input: CreateWebhookInput
+    ): Promise<CreateWebhookResponse> => {
+      const response = await apiClient.post<CreateWebhookResponse>(
+        '/webhooks',
+        input
+      );
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.list() });
+    },
+  });
+};
+
+// Update a webhook (URL, events, or enable/disable)
+export const useUpdateWebhook = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      ...input
+    }: UpdateWebhookInput & { id: string }): Promise<WebhookEndpoint> => {
+      const response = await apiClient.patch<WebhookEndpoint>(
+        `/webhooks/${id}`,
+        input
+      );
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.list() });
+    },
+  });
+};
+
+// Delete a webhook and its delivery log
+export const useDeleteWebhook = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await apiClient.delete(`/webhooks/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.list() });
+    },
+  });
+};
+
+// Get the delivery log of a webhook with infinite scroll (cursor-based)
+export const useWebhookDeliveries = (endpointId: string, enabled = true) => {
+  return useInfiniteQuery({
+    queryKey: webhookKeys.deliveries(endpointId),
+    queryFn: async ({ pageParam }): Promise<WebhookDeliveryListResponse> => {
+      const response = await apiClient.get<WebhookDeliveryListResponse>(
+        `/webhooks/${endpointId}/deliveries`,
+        { params: { cursor: pageParam, limit: 10 } }
+      );
+      return response.data;
+    },
+    getNextPageParam: (lastPage) => {
+      return lastPage.hasMore ? lastPage.nextCursor : undefined;
+    },
+    initialPageParam: undefined as string | undefined,
+    enabled: enabled && !!endpointId,
+  });
+};
+
+// Queue a webhook.test event to a webhook
+export const useSendTestWebhook = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (endpointId: string): Promise<WebhookDelivery> => {
+      const response = await apiClient.post<WebhookDelivery>(
+        `/webhooks/${endpointId}/test`
+      );
+      return response.data;
+    },
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({
+        queryKey: webhookKeys.deliveries(delivery.endpointId),
+      });
+    },
+  });
+};
+
+// Send a past delivery again
+export const useReplayWebhookDelivery = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (deliveryId: string): Promise<WebhookDelivery> => {
+      const response = await apiClient.post<WebhookDelivery>(
+        `/webhooks/deliveries/${deliveryId}/replay`
+      );
+      return response.data;
+    },
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({
+        queryKey: webhookKeys.deliveries(delivery.endpointId),
+      });
+    },
+  });
+};
@@ -12,3 +12,8 @@ export * from './hooks/useCategories';
 export * from './hooks/useTags';
 export * from './hooks/useVideos';
 export * from './hooks/useBookmarks';
+export * from './hooks/useSearch';
+export * from './hooks/useViews';
+export * from './hooks/useNotifications';
+export * from './hooks/useRealtime';
+export * from './hooks/useWebhooks';
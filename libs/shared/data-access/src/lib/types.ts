@@ -130,14 +130,34 @@ export interface Post {
   updatedAt: string;
 }
 
+export interface VideoChapter {
+  /** Seconds from the start of the video */
+  startTime: number;
+  title: string;
+}
+
+/** Loudness of a video's audio (EBU R128), measured before normalizing */
+export interface VideoLoudness {
+  integratedLufs: number;
+  truePeakDbtp: number;
+  loudnessRangeLu: number;
+  /** Integrated loudness the audio was normalized to */
+  targetLufs: number;
+}
+
 export interface PostVideo {
   id: string;
   status: string;
   hlsUrl?: string | null;
   thumbnailUrl?: string | null;
+  /** WebVTT thumbnails track for seek bar previews */
+  thumbnailsVttUrl?: string | null;
+  /** DASH manifest, with CMAF packaging */
+  dashManifestUrl?: string | null;
   duration?: number | null;
   width?: number | null;
   height?: number | null;
+  chapters?: VideoChapter[];
 }
 
 export interface CreatePostRequest {
@@ -246,6 +266,121 @@ export interface PostSummary {
   author: AuthorSummary;
 }
 
+// Related post - post summary plus score and per-signal breakdown
+export interface RelatedPost extends PostSummary {
+  score: number;
+  signals: {
+    tagOverlap: number;
+    categoryOverlap: number;
+    similarity: number | null;
+    recency: number;
+    sameAuthor: boolean;
+  };
+}
+
+export interface RelatedPostsResponse {
+  posts: RelatedPost[];
+}
+
+export type TrendingPeriod = 'day' | 'week' | 'month';
+
+// Trending post - post summary plus decayed score and period engagement
+export interface TrendingPost extends PostSummary {
+  trendingScore: number;
+  engagement: {
+    likes: number;
+    comments: number;
+    bookmarks: number;
+    uniqueViews: number;
+  };
+}
+
+export interface TrendingPostsResponse {
+  period: TrendingPeriod;
+  posts: TrendingPost[];
+  nextCursor: string | null;
+  hasMore: boolean;
+  computedAt: string | null;
+}
+
+// View tracking
+export interface RecordPostViewResponse {
+  recorded: boolean;
+  isBot: boolean;
+}
+
+export interface VideoHeartbeatRequest {
+  /** Seconds actually played in this session */
+  watchedSeconds: number;
+  /** Quality being played, e.g. '720p' */
+  quality?: string;
+}
+
+export interface VideoHeartbeatResponse {
+  isNewView: boolean;
+  durationWatched: number;
+  totalDuration: number;
+}
+
+// Creator analytics
+export interface AnalyticsTotals {
+  views: number;
+  uniqueViewers: number;
+  likes: number;
+  comments: number;
+  bookmarks: number;
+  newFollowers: number;
+  videoViews: number;
+  /** Mean video completion rate in percent */
+  avgCompletionRate: number | null;
+}
+
+export interface AnalyticsDailyPoint {
+  /** 'YYYY-MM-DD' */
+  date: string;
+  views: number;
+  uniqueViewers: number;
+  likes: number;
+  newFollowers: number;
+}
+
+export interface PostAnalytics {
+  postId: string;
+  title: string;
+  slug: string;
+  status: string;
+  publishedAt: string | null;
+  /** Lifetime view counter */
+  totalViews: number;
+  views: number;
+  uniqueViewers: number;
+  likes: number;
+  comments: number;
+  bookmarks: number;
+}
+
+export interface CompletionBucket {
+  /** Completion rate range in percent */
+  from: number;
+  to: number;
+  views: number;
+}
+
+export interface ReferrerCount {
+  /** Referrer host, null for direct traffic */
+  referrer: string | null;
+  views: number;
+}
+
+export interface AuthorAnalytics {
+  range: { from: string; to: string; days: number };
+  totals: AnalyticsTotals;
+  daily: AnalyticsDailyPoint[];
+  posts: PostAnalytics[];
+  videoCompletion: CompletionBucket[];
+  referrers: ReferrerCount[];
+}
+
 // Cursor-based pagination response (generic)
 export interface CursorPaginatedResponse<T> {
   data: T[];
@@ -283,3 +418,195 @@ export interface PostFilters {
   orderBy?: 'publishedAt' | 'viewCount' | 'likeCount';
   orderDir?: 'asc' | 'desc';
 }
+
+// Search types
+export type SearchMode = 'fulltext' | 'semantic' | 'hybrid';
+
+export interface SearchFilters {
+  q: string;
+  mode?: SearchMode;
+  categoryId?: string;
+  tagId?: string;
+  authorId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+// Per-signal scores (null when the signal did not match)
+export interface SearchResultScores {
+  fulltextRank: number | null;
+  fulltextPosition: number | null;
+  semanticSimilarity: number | null;
+  semanticPosition: number | null;
+  fused: number | null;
+}
+
+// Search hit - post summary plus relevance and <mark>-highlighted text
+export interface SearchPostResult extends PostSummary {
+  rank: number;
+  titleHighlight: string;
+  snippet: string;
+  scores: SearchResultScores;
+}
+
+export interface SearchPostsResponse {
+  mode: SearchMode;
+  results: SearchPostResult[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+// Notification types
+export type UserNotificationType =
+  | 'follow'
+  | 'comment_reply'
+  | 'mention'
+  | 'post_like'
+  | 'comment_like'
+  | 'video_ready'
+  | 'video_failed';
+
+export interface UserNotification {
+  id: string;
+  type: UserNotificationType;
+  // Null for system notifications (video processing)
+  actor: {
+    id: string;
+    username: string;
+    fullName: string | null;
+    avatarUrl: string | null;
+  } | null;
+  postId: string | null;
+  postSlug: string | null;
+  postTitle: string | null;
+  commentId: string | null;
+  videoId: string | null;
+  data: Record<string, unknown>;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationListResponse {
+  notifications: UserNotification[];
+  nextCursor: string | null;
+  hasMore: boolean;
+  unreadCount: number;
+}
+
+export interface MarkNotificationsReadResponse {
+  updated: number;
+  unreadCount: number;
+}
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface NotificationTypePreference {
+  type: UserNotificationType;
+  inApp: boolean;
+  // Instant email; types without it are summarized in the digest
+  email: boolean;
+}
+
+export interface NotificationPreferences {
+  types: NotificationTypePreference[];
+  digestFrequency: DigestFrequency;
+}
+
+export interface UpdateNotificationPreferencesInput {
+  // Types not listed keep their current preferences
+  types?: NotificationTypePreference[];
+  digestFrequency?: DigestFrequency;
+}
+
+export interface UnsubscribeResponse {
+  // What was unsubscribed from: every email, the digest, or one type
+  scope: 'all' | 'digest' | UserNotificationType;
+}
+
+// Realtime event stream (/api/realtime/events)
+export type RealtimeEventType =
+  | 'notification.created'
+  | 'video.progress'
+  | 'video.status';
+
+export interface NotificationCreatedEvent {
+  type: UserNotificationType;
+}
+
+export interface VideoProgressEvent {
+  videoId: string;
+  // Overall processing progress (0-100)
+  progress: number;
+  // Encoding progress per quality (0-100)
+  qualities: Record<string, number>;
+}
+
+export interface VideoStatusEvent {
+  videoId: string;
+  status: string;
+}
+
+// Webhook types
+export type WebhookEventType =
+  | 'post.published'
+  | 'comment.created'
+  | 'video.ready'
+  | 'video.failed';
+
+export interface WebhookEndpoint {
+  id: string;
+  userId: string;
+  url: string;
+  description: string | null;
+  events: WebhookEventType[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateWebhookInput {
+  url: string;
+  description?: string | null;
+  events: WebhookEventType[];
+}
+
+export interface UpdateWebhookInput {
+  url?: string;
+  description?: string | null;
+  events?: WebhookEventType[];
+  isActive?: boolean;
+}
+
+export interface CreateWebhookResponse {
+  endpoint: WebhookEndpoint;
+  // Signing secret, only returned when the webhook is created
+  secret: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  // A WebhookEventType, or webhook.test
+  eventName: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  isTest: boolean;
+  replayOf: string | null;
+  createdAt: string;
+  lastAttemptAt: string | null;
+}
+
+export interface WebhookDeliveryListResponse {
+  deliveries: WebhookDelivery[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from '@jest/globals';
+import { PostPublishedEvent } from '../events/post.events.js';
+import { UserFollowedEvent } from '../events/user.events.js';
+
+describe('DomainEvent', () => {
+  it('should construct events with their own fields', () => {
+    const event = new PostPublishedEvent(
+      'post-1',
+      'author-1',
+      'Hello',
+      'hello'
+    );
+
+    expect(event.authorId).toBe('author-1');
+    expect(event.eventName).toBe('post.published');
+    expect(event.eventId).toBeDefined();
+  });
+
+  it('should serialize name, aggregate and payload', () => {
+    const event = new UserFollowedEvent('user-1', 'user-2', 'follow-1');
+
+    expect(event.toJSON()).toMatchObject({
+      eventName: 'user.followed',
+      aggregateId: 'user-1',
+      aggregateType: 'User',
+      payload: { followerId: 'user-2', followId: 'follow-1' },
+    });
+  });
+});
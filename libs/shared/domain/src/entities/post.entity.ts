@@ -87,6 +87,8 @@ const VideoSchema = z
     status: z.string(),
     hlsUrl: z.string().url().nullable().default(null),
     thumbnailUrl: z.string().url().nullable().default(null),
+    thumbnailsVttUrl: z.string().url().nullable().default(null),
+    dashManifestUrl: z.string().url().nullable().default(null),
     duration: z.number().nullable().default(null),
     width: z.number().nullable().default(null),
     height: z.number().nullable().default(null),
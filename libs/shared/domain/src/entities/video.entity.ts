@@ -100,6 +100,10 @@ export const VideoSchema = z.object({
   rawFilePath: z.string().max(500).nullable().default(null),
   hlsMasterUrl: z.string().max(500).nullable().default(null),
   thumbnailUrl: z.string().max(500).nullable().default(null),
+  /** WebVTT thumbnails track for seek bar previews */
+  thumbnailsVttUrl: z.string().max(500).nullable().default(null),
+  /** DASH manifest, with CMAF packaging */
+  dashManifestUrl: z.string().max(500).nullable().default(null),
   availableQualities: AvailableQualitiesSchema,
   retryCount: RetryCountSchema,
   errorMessage: z.string().nullable().default(null),
@@ -149,6 +153,29 @@ export const ConfirmUploadDtoSchema = z.object({
   videoId: z.string().uuid(),
 });
 
+/**
+ * Video chapter: a titled section starting at a time (seconds)
+ */
+export const VideoChapterSchema = z.object({
+  startTime: z.number().int().min(0),
+  title: z.string().trim().min(1).max(100),
+});
+
+/**
+ * Loudness of a video's audio (EBU R128), measured before it was
+ * normalized
+ */
+export const VideoLoudnessSchema = z.object({
+  /** Integrated loudness of the source, in LUFS */
+  integratedLufs: z.number(),
+  /** True peak of the source, in dBTP */
+  truePeakDbtp: z.number(),
+  /** Loudness range of the source, in LU */
+  loudnessRangeLu: z.number(),
+  /** Integrated loudness the audio was normalized to, in LUFS */
+  targetLufs: z.number(),
+});
+
 /**
  * Video Status Response DTO
  */
@@ -159,8 +186,12 @@ export const VideoStatusResponseDtoSchema = z.object({
   duration: DurationSchema,
   thumbnailUrl: z.string().url().nullable(),
   hlsMasterUrl: z.string().url().nullable(),
+  thumbnailsVttUrl: z.string().url().nullable(),
+  dashManifestUrl: z.string().url().nullable(),
   availableQualities: AvailableQualitiesSchema,
   errorMessage: z.string().nullable(),
+  chapters: z.array(VideoChapterSchema).default([]),
+  loudness: VideoLoudnessSchema.nullable().default(null),
 });
 
 /**
@@ -179,6 +210,8 @@ export type Video = z.infer<typeof VideoSchema>;
 export type RequestUploadUrlDto = z.infer<typeof RequestUploadUrlDtoSchema>;
 export type UploadUrlResponseDto = z.infer<typeof UploadUrlResponseDtoSchema>;
 export type ConfirmUploadDto = z.infer<typeof ConfirmUploadDtoSchema>;
+export type VideoChapter = z.infer<typeof VideoChapterSchema>;
+export type VideoLoudness = z.infer<typeof VideoLoudnessSchema>;
 export type VideoStatusResponseDto = z.infer<
   typeof VideoStatusResponseDtoSchema
 >;
@@ -328,8 +361,13 @@ export class VideoEntity {
       duration: this.props.duration,
       thumbnailUrl: this.props.thumbnailUrl,
       hlsMasterUrl: this.props.hlsMasterUrl,
+      thumbnailsVttUrl: this.props.thumbnailsVttUrl,
+      dashManifestUrl: this.props.dashManifestUrl,
       availableQualities: this.props.availableQualities,
       errorMessage: this.props.errorMessage,
+      // Stored separately; filled in by GetVideoStatusUseCase
+      chapters: [],
+      loudness: null,
     };
   }
 
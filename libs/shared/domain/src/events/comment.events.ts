@@ -131,3 +131,28 @@ export class CommentDeletedEvent extends DomainEvent {
     };
   }
 }
+
+// =====================================================
+// COMMENT LIKED
+// =====================================================
+
+export class CommentLikedEvent extends DomainEvent {
+  constructor(
+    aggregateId: string,
+    public readonly postId: string,
+    public readonly userId: string
+  ) {
+    super(aggregateId, 'Comment');
+  }
+
+  get eventName(): string {
+    return 'comment.liked';
+  }
+
+  protected getPayload(): Record<string, unknown> {
+    return {
+      postId: this.postId,
+      userId: this.userId,
+    };
+  }
+}
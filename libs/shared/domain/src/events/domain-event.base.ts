@@ -15,7 +15,8 @@ export abstract class DomainEvent {
   ) {
     this.occurredAt = new Date();
     this.eventId = crypto.randomUUID();
-    Object.freeze(this);
+    // Not frozen here: subclass parameter properties are assigned after
+    // super() returns, which throws on a frozen object. Fields are readonly.
   }
 
   /**
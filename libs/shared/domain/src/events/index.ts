@@ -20,6 +20,7 @@ export {
   UserProfileUpdatedEvent,
   UserBlockedEvent,
   UserDeletedEvent,
+  UserFollowedEvent,
 } from './user.events.js';
 
 // Post Events
@@ -42,6 +43,7 @@ export {
   CommentFlaggedEvent,
   CommentHiddenEvent,
   CommentDeletedEvent,
+  CommentLikedEvent,
 } from './comment.events.js';
 
 // Video Events
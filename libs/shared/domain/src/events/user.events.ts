@@ -109,3 +109,28 @@ export class UserDeletedEvent extends DomainEvent {
     return {};
   }
 }
+
+// =====================================================
+// USER FOLLOWED
+// =====================================================
+
+export class UserFollowedEvent extends DomainEvent {
+  constructor(
+    aggregateId: string,
+    public readonly followerId: string,
+    public readonly followId: string
+  ) {
+    super(aggregateId, 'User');
+  }
+
+  get eventName(): string {
+    return 'user.followed';
+  }
+
+  protected getPayload(): Record<string, unknown> {
+    return {
+      followerId: this.followerId,
+      followId: this.followId,
+    };
+  }
+}
@@ -92,6 +92,32 @@ describe('CommentCard', () => {
     expect(screen.getByText('JD')).toBeInTheDocument();
   });
 
+  it('links timestamps to the video time', async () => {
+    const onTimestampClick = jest.fn();
+    const user = userEvent.setup();
+    render(
+      <CommentCard
+        {...mockComment}
+        content="Great tip at 12:34, and again at 1:02:03"
+        onTimestampClick={onTimestampClick}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: '12:34' }));
+    expect(onTimestampClick).toHaveBeenCalledWith(754);
+
+    await user.click(screen.getByRole('button', { name: '1:02:03' }));
+    expect(onTimestampClick).toHaveBeenCalledWith(3723);
+  });
+
+  it('renders timestamps as text without onTimestampClick', () => {
+    render(<CommentCard {...mockComment} content="Great tip at 12:34" />);
+    expect(screen.getByText('Great tip at 12:34')).toBeInTheDocument();
+    expect(
+      screen.queryByRole('button', { name: '12:34' })
+    ).not.toBeInTheDocument();
+  });
+
   it('formats date correctly', () => {
     render(<CommentCard {...mockComment} />);
     // The date should be formatted as local date string
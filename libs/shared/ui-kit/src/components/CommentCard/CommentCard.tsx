@@ -1,5 +1,5 @@
 import React from 'react';
-import { Box, Typography, Stack, IconButton } from '@mui/material';
+import { Box, Typography, Stack, IconButton, Link } from '@mui/material';
 import { FavoriteBorder, Favorite, MoreVert } from '@mui/icons-material';
 import { Avatar } from '../Avatar';
 
@@ -16,8 +16,46 @@ export interface CommentCardProps {
   isLiked?: boolean;
   onLike?: () => void;
   onReply?: () => void;
+  /** Turns timestamps like 12:34 in the content into links to that time */
+  onTimestampClick?: (seconds: number) => void;
 }
 
+/** "1:02:03", "12:34" or "2:05" */
+const TIMESTAMP_PATTERN = /\b(?:(\d{1,2}):)?(\d{1,2}):([0-5]\d)\b/g;
+
+const renderContent = (
+  content: string,
+  onTimestampClick?: (seconds: number) => void
+): React.ReactNode => {
+  if (!onTimestampClick) return content;
+
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  for (const match of content.matchAll(TIMESTAMP_PATTERN)) {
+    const [text, hours, minutes, seconds] = match;
+    const index = match.index ?? 0;
+    const time =
+      Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds);
+
+    parts.push(content.slice(lastIndex, index));
+    parts.push(
+      <Link
+        key={index}
+        component="button"
+        variant="body2"
+        onClick={() => onTimestampClick(time)}
+        sx={{ verticalAlign: 'baseline' }}
+      >
+        {text}
+      </Link>
+    );
+    lastIndex = index + text.length;
+  }
+  parts.push(content.slice(lastIndex));
+
+  return parts;
+};
+
 export const CommentCard: React.FC<CommentCardProps> = ({
   content,
   author,
@@ -26,6 +64,7 @@ export const CommentCard: React.FC<CommentCardProps> = ({
   isLiked = false,
   onLike,
   onReply,
+  onTimestampClick,
 }) => {
   return (
     <Box sx={{ py: 2 }}>
@@ -55,7 +94,7 @@ export const CommentCard: React.FC<CommentCardProps> = ({
 
           {/* Comment Content */}
           <Typography variant="body2" paragraph sx={{ mb: 1 }}>
-            {content}
+            {renderContent(content, onTimestampClick)}
           </Typography>
 
           {/* Actions */}
@@ -21,6 +21,8 @@ import {
 } from '@mui/icons-material';
 import { Avatar } from '../Avatar';
 import { Badge } from '../Badge';
+import type { UserNotification } from '@blog/shared-data-access';
+import { NotificationMenu } from './NotificationMenu';
 
 export interface NavigationBarProps {
   title?: string;
@@ -30,6 +32,13 @@ export interface NavigationBarProps {
     avatarUrl?: string;
   };
   notificationCount?: number;
+  /** When provided, the bell opens a dropdown listing these notifications */
+  notifications?: UserNotification[];
+  notificationsLoading?: boolean;
+  hasMoreNotifications?: boolean;
+  onLoadMoreNotifications?: () => void;
+  onNotificationItemClick?: (notification: UserNotification) => void;
+  onMarkAllNotificationsRead?: () => void;
   onMenuClick?: () => void;
   onSearchChange?: (query: string) => void;
   onNotificationClick?: () => void;
@@ -43,6 +52,12 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({
   title = 'Blog Platform',
   user,
   notificationCount = 0,
+  notifications,
+  notificationsLoading,
+  hasMoreNotifications,
+  onLoadMoreNotifications,
+  onNotificationItemClick,
+  onMarkAllNotificationsRead,
   onMenuClick,
   onSearchChange,
   onNotificationClick,
@@ -53,6 +68,8 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({
 }) => {
   const [searchQuery, setSearchQuery] = React.useState('');
   const [anchorEl, setAnchorEl] = React.useState<null | HTMLElement>(null);
+  const [notificationAnchorEl, setNotificationAnchorEl] =
+    React.useState<null | HTMLElement>(null);
 
   const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const value = event.target.value;
@@ -78,6 +95,18 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({
     onLogoutClick?.();
   };
 
+  const handleNotificationClick = (event: React.MouseEvent<HTMLElement>) => {
+    if (notifications) {
+      setNotificationAnchorEl(event.currentTarget);
+    }
+    onNotificationClick?.();
+  };
+
+  const handleNotificationItemClick = (notification: UserNotification) => {
+    setNotificationAnchorEl(null);
+    onNotificationItemClick?.(notification);
+  };
+
   return (
     <AppBar
       position="sticky"
@@ -173,12 +202,26 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({
               </IconButton>
 
               {/* Notifications */}
-              <IconButton color="inherit" onClick={onNotificationClick}>
+              <IconButton color="inherit" onClick={handleNotificationClick}>
                 <Badge badgeContent={notificationCount} color="error">
                   <Notifications />
                 </Badge>
               </IconButton>
 
+              {notifications && (
+                <NotificationMenu
+                  anchorEl={notificationAnchorEl}
+                  onClose={() => setNotificationAnchorEl(null)}
+                  notifications={notifications}
+                  unreadCount={notificationCount}
+                  loading={notificationsLoading}
+                  hasMore={hasMoreNotifications}
+                  onLoadMore={onLoadMoreNotifications}
+                  onItemClick={handleNotificationItemClick}
+                  onMarkAllRead={onMarkAllNotificationsRead}
+                />
+              )}
+
               {/* User Avatar & Menu */}
               <IconButton onClick={handleMenuOpen} sx={{ p: 0.5 }}>
                 <Avatar
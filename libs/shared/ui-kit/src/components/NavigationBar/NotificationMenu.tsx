@@ -0,0 +1,173 @@
+import React from 'react';
+import {
+  Menu,
+  MenuItem,
+  Typography,
+  Box,
+  Button,
+  Divider,
+  CircularProgress,
+  Stack,
+} from '@mui/material';
+import { VideoLibrary, ErrorOutline } from '@mui/icons-material';
+import type { UserNotification } from '@blog/shared-data-access';
+import { Avatar } from '../Avatar';
+
+export interface NotificationMenuProps {
+  anchorEl: HTMLElement | null;
+  onClose: () => void;
+  notifications: UserNotification[];
+  unreadCount?: number;
+  loading?: boolean;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+  onItemClick?: (notification: UserNotification) => void;
+  onMarkAllRead?: () => void;
+}
+
+// One-line description of a notification
+export const getNotificationText = (notification: UserNotification): string => {
+  const actor =
+    notification.actor?.fullName || notification.actor?.username || 'Someone';
+  const post = notification.postTitle
+    ? `"${notification.postTitle}"`
+    : 'a post';
+
+  switch (notification.type) {
+    case 'follow':
+      return `${actor} started following you`;
+    case 'comment_reply':
+      return `${actor} replied to your comment on ${post}`;
+    case 'mention':
+      return `${actor} mentioned you in a comment on ${post}`;
+    case 'post_like':
+      return `${actor} liked your post ${post}`;
+    case 'comment_like':
+      return `${actor} liked your comment on ${post}`;
+    case 'video_ready':
+      return `Your video for ${post} is ready to watch`;
+    case 'video_failed':
+      return `Your video for ${post} failed to process`;
+    default:
+      return 'New notification';
+  }
+};
+
+export const NotificationMenu: React.FC<NotificationMenuProps> = ({
+  anchorEl,
+  onClose,
+  notifications,
+  unreadCount = 0,
+  loading = false,
+  hasMore = false,
+  onLoadMore,
+  onItemClick,
+  onMarkAllRead,
+}) => {
+  return (
+    <Menu
+      anchorEl={anchorEl}
+      open={Boolean(anchorEl)}
+      onClose={onClose}
+      anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+      slotProps={{
+        paper: { sx: { width: 360, maxHeight: 480 } },
+      }}
+    >
+      {/* Header */}
+      <Box
+        sx={{
+          px: 2,
+          py: 1,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+        }}
+      >
+        <Typography variant="subtitle1" fontWeight={600}>
+          Notifications
+        </Typography>
+        {onMarkAllRead && (
+          <Button
+            size="small"
+            onClick={onMarkAllRead}
+            disabled={unreadCount === 0}
+          >
+            Mark all as read
+          </Button>
+        )}
+      </Box>
+      <Divider />
+
+      {notifications.length === 0 && !loading && (
+        <Box sx={{ px: 2, py: 3, textAlign: 'center' }}>
+          <Typography variant="body2" color="text.secondary">
+            No notifications yet
+          </Typography>
+        </Box>
+      )}
+
+      {notifications.map((notification) => {
+        const unread = notification.readAt === null;
+
+        return (
+          <MenuItem
+            key={notification.id}
+            onClick={() => onItemClick?.(notification)}
+            sx={{
+              alignItems: 'flex-start',
+              whiteSpace: 'normal',
+              py: 1.5,
+              bgcolor: unread ? 'action.hover' : undefined,
+            }}
+          >
+            <Stack direction="row" spacing={1.5} alignItems="flex-start">
+              {notification.actor ? (
+                <Avatar
+                  src={notification.actor.avatarUrl ?? undefined}
+                  name={
+                    notification.actor.fullName || notification.actor.username
+                  }
+                  sx={{ width: 36, height: 36 }}
+                />
+              ) : (
+                <Avatar sx={{ width: 36, height: 36 }}>
+                  {notification.type === 'video_failed' ? (
+                    <ErrorOutline fontSize="small" />
+                  ) : (
+                    <VideoLibrary fontSize="small" />
+                  )}
+                </Avatar>
+              )}
+              <Box>
+                <Typography variant="body2" fontWeight={unread ? 600 : 400}>
+                  {getNotificationText(notification)}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {new Date(notification.createdAt).toLocaleDateString()}
+                </Typography>
+              </Box>
+            </Stack>
+          </MenuItem>
+        );
+      })}
+
+      {loading && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+          <CircularProgress size={24} />
+        </Box>
+      )}
+
+      {hasMore && !loading && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 1 }}>
+          <Button size="small" onClick={onLoadMore}>
+            Load more
+          </Button>
+        </Box>
+      )}
+    </Menu>
+  );
+};
+
+export default NotificationMenu;
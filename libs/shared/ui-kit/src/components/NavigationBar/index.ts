@@ -1,2 +1,4 @@
 export { NavigationBar } from './NavigationBar';
 export type { NavigationBarProps } from './NavigationBar';
+export { NotificationMenu, getNotificationText } from './NotificationMenu';
+export type { NotificationMenuProps } from './NotificationMenu';
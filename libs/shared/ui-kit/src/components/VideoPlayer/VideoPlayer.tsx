@@ -1,6 +1,12 @@
 'use client';
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, {
+  useEffect,
+  useRef,
+  useState,
+  useCallback,
+  useImperativeHandle,
+} from 'react';
 import videojs from 'video.js';
 import type Player from 'video.js/dist/types/player';
 import 'video.js/dist/video-js.css';
@@ -15,6 +21,9 @@ import {
   CircularProgress,
 } from '@mui/material';
 import SettingsIcon from '@mui/icons-material/Settings';
+import ClosedCaptionIcon from '@mui/icons-material/ClosedCaption';
+import ClosedCaptionDisabledIcon from '@mui/icons-material/ClosedCaptionDisabled';
+import ChaptersIcon from '@mui/icons-material/FormatListBulleted';
 import FullscreenIcon from '@mui/icons-material/Fullscreen';
 import FullscreenExitIcon from '@mui/icons-material/FullscreenExit';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
@@ -22,6 +31,13 @@ import PauseIcon from '@mui/icons-material/Pause';
 import VolumeUpIcon from '@mui/icons-material/VolumeUp';
 import VolumeOffIcon from '@mui/icons-material/VolumeOff';
 import VolumeDownIcon from '@mui/icons-material/VolumeMute';
+import {
+  type ThumbnailCue,
+  findThumbnailAt,
+  loadThumbnails,
+} from './thumbnails';
+import { getPlaybackBaseUrl, withPlaybackToken } from './playbackToken';
+import { getStreamSources } from './sources';
 
 export interface VideoQuality {
   label: string;
@@ -29,9 +45,38 @@ export interface VideoQuality {
   height: number;
 }
 
+/** A subtitle rendition of the HLS stream */
+export interface CaptionTrackOption {
+  language: string;
+  label: string;
+}
+
+/** A titled section of the video */
+export interface VideoPlayerChapter {
+  /** Seconds from the start */
+  startTime: number;
+  title: string;
+}
+
+/** Controls for the page around the player (e.g. timestamp links) */
+export interface VideoPlayerHandle {
+  /** Jump to a time (seconds) and play from there */
+  seek: (time: number) => void;
+}
+
 export interface VideoPlayerProps {
   /** HLS master playlist URL */
   src: string;
+  /**
+   * DASH manifest URL (next to the master playlist), played instead of HLS
+   * where the browser does not play HLS natively
+   */
+  dashSrc?: string | null;
+  /**
+   * Token added to the requests for the video's files (those next to the
+   * master playlist). A new token is used from the next request on.
+   */
+  playbackToken?: string | null;
   /** Poster/thumbnail image URL */
   poster?: string;
   /** Video title for accessibility */
@@ -46,6 +91,10 @@ export interface VideoPlayerProps {
   loop?: boolean;
   /** Available quality options (auto-detected from HLS if not provided) */
   qualities?: VideoQuality[];
+  /** Chapters, marked on the seek bar and listed in a menu */
+  chapters?: VideoPlayerChapter[];
+  /** WebVTT thumbnails track, previewed when hovering the seek bar */
+  thumbnails?: string | null;
   /** Callback when video ends */
   onEnded?: () => void;
   /** Callback when video plays */
@@ -56,6 +105,8 @@ export interface VideoPlayerProps {
   onTimeUpdate?: (currentTime: number, duration: number) => void;
   /** Callback when quality changes */
   onQualityChange?: (quality: string) => void;
+  /** Callback when captions are turned on (language) or off (null) */
+  onCaptionChange?: (language: string | null) => void;
   /** Callback on error */
   onError?: (error: Error) => void;
   /** Width (default: 100%) */
@@ -68,28 +119,107 @@ export interface VideoPlayerProps {
   className?: string;
 }
 
-export const VideoPlayer: React.FC<VideoPlayerProps> = ({
-  src,
-  poster,
-  title,
-  autoPlay = false,
-  controls = true,
-  muted = false,
-  loop = false,
-  qualities: _qualities,
-  onEnded,
-  onPlay,
-  onPause,
-  onTimeUpdate,
-  onQualityChange,
-  onError,
-  width = '100%',
-  height = 'auto',
-  aspectRatio = 16 / 9,
-  className,
-}) => {
+/** The part of the VHS tech used to rewrite request URLs */
+type VhsRequestHooks = {
+  vhs?: {
+    xhr?: {
+      onRequest(hook: (options: { uri: string }) => { uri: string }): void;
+    };
+  };
+};
+
+/** The viewer's caption language (or "off"), shared by all videos */
+const CAPTION_LANGUAGE_KEY = 'captionLanguage';
+const CAPTIONS_OFF = 'off';
+
+const readCaptionPreference = (): string | null => {
+  try {
+    return localStorage.getItem(CAPTION_LANGUAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const saveCaptionPreference = (language: string): void => {
+  try {
+    localStorage.setItem(CAPTION_LANGUAGE_KEY, language);
+  } catch {
+    // Storage unavailable (e.g. private browsing): not remembered
+  }
+};
+
+const getCaptionTracks = (list: TextTrackList): TextTrack[] =>
+  Array.from({ length: list.length }, (_, i) => list[i]).filter(
+    (track) => track.kind === 'subtitles' || track.kind === 'captions'
+  );
+
+/**
+ * The track for a language: an exact match, else one of the same base
+ * language ("pt" for "pt-BR")
+ */
+const findCaptionTrack = (
+  tracks: TextTrack[],
+  language: string
+): TextTrack | undefined => {
+  const wanted = language.toLowerCase();
+  return (
+    tracks.find((track) => track.language.toLowerCase() === wanted) ??
+    tracks.find(
+      (track) =>
+        track.language.toLowerCase().split('-')[0] === wanted.split('-')[0]
+    )
+  );
+};
+
+/**
+ * The chapter playing at a time: the last one started
+ */
+const findChapterAt = (
+  chapters: VideoPlayerChapter[],
+  time: number
+): VideoPlayerChapter | undefined => {
+  let current: VideoPlayerChapter | undefined;
+  for (const chapter of chapters) {
+    if (chapter.startTime > time) break;
+    current = chapter;
+  }
+  return current;
+};
+
+export const VideoPlayer = React.forwardRef<
+  VideoPlayerHandle,
+  VideoPlayerProps
+>(function VideoPlayer(
+  {
+    src,
+    dashSrc,
+    playbackToken,
+    poster,
+    title,
+    autoPlay = false,
+    controls = true,
+    muted = false,
+    loop = false,
+    qualities: _qualities,
+    chapters = [],
+    thumbnails,
+    onEnded,
+    onPlay,
+    onPause,
+    onTimeUpdate,
+    onQualityChange,
+    onCaptionChange,
+    onError,
+    width = '100%',
+    height = 'auto',
+    aspectRatio = 16 / 9,
+    className,
+  },
+  ref
+) {
   const videoRef = useRef<HTMLDivElement>(null);
   const playerRef = useRef<Player | null>(null);
+  const playbackTokenRef = useRef(playbackToken);
   const [isReady, setIsReady] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
@@ -105,11 +235,33 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     []
   );
 
+  const [captionTracks, setCaptionTracks] = useState<CaptionTrackOption[]>([]);
+  const [currentCaption, setCurrentCaption] = useState<string | null>(null);
+
   // Quality menu
   const [qualityMenuAnchor, setQualityMenuAnchor] =
     useState<null | HTMLElement>(null);
   const qualityMenuOpen = Boolean(qualityMenuAnchor);
 
+  // Caption menu
+  const [captionMenuAnchor, setCaptionMenuAnchor] =
+    useState<null | HTMLElement>(null);
+  const captionMenuOpen = Boolean(captionMenuAnchor);
+
+  // Chapter menu
+  const [chapterMenuAnchor, setChapterMenuAnchor] =
+    useState<null | HTMLElement>(null);
+  const chapterMenuOpen = Boolean(chapterMenuAnchor);
+
+  // Seek bar preview
+  const [thumbnailCues, setThumbnailCues] = useState<ThumbnailCue[]>([]);
+  const [seekHover, setSeekHover] = useState<{
+    time: number;
+    /** Pointer position over the seek bar (px) */
+    x: number;
+    barWidth: number;
+  } | null>(null);
+
   // Initialize player
   useEffect(() => {
     if (!videoRef.current) return;
@@ -119,6 +271,8 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     videoElement.classList.add('vjs-big-play-centered', 'vjs-fluid');
     videoRef.current.appendChild(videoElement);
 
+    const baseUrl = getPlaybackBaseUrl(src);
+
     // Initialize Video.js player
     const player = videojs(videoElement, {
       controls: false, // We'll use custom controls
@@ -129,12 +283,10 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
       fluid: true,
       aspectRatio: `${Math.round(aspectRatio * 9)}:9`,
       responsive: true,
-      sources: [
-        {
-          src: src,
-          type: 'application/x-mpegURL',
-        },
-      ],
+      sources: getStreamSources(src, dashSrc).map((source) => ({
+        ...source,
+        src: withPlaybackToken(source.src, baseUrl, playbackTokenRef.current),
+      })),
       poster: poster,
       html5: {
         vhs: {
@@ -148,6 +300,21 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
 
     playerRef.current = player;
 
+    // Every playlist, segment and caption request carries the newest token
+    player.on('xhr-hooks-ready', () => {
+      const tech = player.tech({
+        IWillNotUseThisInPlugins: true,
+      }) as unknown as VhsRequestHooks;
+      tech?.vhs?.xhr?.onRequest((options) => {
+        options.uri = withPlaybackToken(
+          options.uri,
+          baseUrl,
+          playbackTokenRef.current
+        );
+        return options;
+      });
+    });
+
     // Event handlers
     player.on('ready', () => {
       setIsReady(true);
@@ -257,8 +424,48 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
       setIsFullscreen(player.isFullscreen() || false);
     });
 
+    // Subtitle renditions of the master playlist become text tracks as VHS
+    // loads it; the viewer's remembered language is applied to new ones
+    const textTracks = player.textTracks() as unknown as TextTrackList;
+    const syncCaptionTracks = () => {
+      const tracks = getCaptionTracks(textTracks);
+      setCaptionTracks(
+        tracks.map((track) => ({
+          language: track.language,
+          label: track.label || track.language,
+        }))
+      );
+      const showing = tracks.find((track) => track.mode === 'showing');
+      setCurrentCaption(showing ? showing.language : null);
+    };
+    const applyCaptionPreference = () => {
+      const preference = readCaptionPreference();
+      if (!preference) return;
+
+      const tracks = getCaptionTracks(textTracks);
+      const selected =
+        preference === CAPTIONS_OFF
+          ? undefined
+          : findCaptionTrack(tracks, preference);
+      // Keep the default track if the preferred language is not available
+      if (preference !== CAPTIONS_OFF && !selected) return;
+      tracks.forEach((track) => {
+        track.mode = track === selected ? 'showing' : 'disabled';
+      });
+    };
+    const handleAddTrack = () => {
+      applyCaptionPreference();
+      syncCaptionTracks();
+    };
+    textTracks.addEventListener('addtrack', handleAddTrack);
+    textTracks.addEventListener('removetrack', syncCaptionTracks);
+    textTracks.addEventListener('change', syncCaptionTracks);
+
     // Cleanup
     return () => {
+      textTracks.removeEventListener('addtrack', handleAddTrack);
+      textTracks.removeEventListener('removetrack', syncCaptionTracks);
+      textTracks.removeEventListener('change', syncCaptionTracks);
       if (playerRef.current && !playerRef.current.isDisposed()) {
         playerRef.current.dispose();
         playerRef.current = null;
@@ -266,6 +473,34 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     };
   }, [src]); // Only re-create when src changes
 
+  useEffect(() => {
+    playbackTokenRef.current = playbackToken;
+  }, [playbackToken]);
+
+  // Load the preview thumbnails; without them the preview shows the time only
+  useEffect(() => {
+    setThumbnailCues([]);
+    if (!thumbnails) return;
+
+    const controller = new AbortController();
+    loadThumbnails(
+      withPlaybackToken(
+        thumbnails,
+        getPlaybackBaseUrl(src),
+        playbackTokenRef.current
+      ),
+      controller.signal
+    )
+      .then(setThumbnailCues)
+      .catch((error) => {
+        if (!controller.signal.aborted) {
+          console.warn('Failed to load seek preview thumbnails:', error);
+        }
+      });
+
+    return () => controller.abort();
+  }, [thumbnails, src]);
+
   // Update poster when it changes
   useEffect(() => {
     if (playerRef.current && poster) {
@@ -314,6 +549,36 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     player.currentTime(time);
   }, []);
 
+  const handleSeekHover = useCallback(
+    (event: React.MouseEvent<HTMLElement>) => {
+      if (!duration) return;
+
+      const rect = event.currentTarget.getBoundingClientRect();
+      const x = Math.min(Math.max(event.clientX - rect.left, 0), rect.width);
+      setSeekHover({
+        time: (x / rect.width) * duration,
+        x,
+        barWidth: rect.width,
+      });
+    },
+    [duration]
+  );
+
+  const seekTo = useCallback((time: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+
+    player.currentTime(time);
+    setCurrentTime(time);
+    if (player.paused()) {
+      player.play()?.catch(() => {
+        // Autoplay blocked: the viewer presses play themselves
+      });
+    }
+  }, []);
+
+  useImperativeHandle(ref, () => ({ seek: seekTo }), [seekTo]);
+
   const toggleFullscreen = useCallback(() => {
     const player = playerRef.current;
     if (!player) return;
@@ -374,6 +639,74 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     [onQualityChange]
   );
 
+  const handleCaptionMenuOpen = useCallback(
+    (event: React.MouseEvent<HTMLElement>) => {
+      setCaptionMenuAnchor(event.currentTarget);
+    },
+    []
+  );
+
+  const handleCaptionMenuClose = useCallback(() => {
+    setCaptionMenuAnchor(null);
+  }, []);
+
+  const handleCaptionChange = useCallback(
+    (language: string | null) => {
+      const player = playerRef.current;
+      if (!player) return;
+
+      const tracks = getCaptionTracks(
+        player.textTracks() as unknown as TextTrackList
+      );
+      tracks.forEach((track) => {
+        track.mode =
+          language !== null && track.language === language
+            ? 'showing'
+            : 'disabled';
+      });
+
+      saveCaptionPreference(language ?? CAPTIONS_OFF);
+      onCaptionChange?.(language);
+      handleCaptionMenuClose();
+    },
+    [onCaptionChange, handleCaptionMenuClose]
+  );
+
+  const handleChapterMenuOpen = useCallback(
+    (event: React.MouseEvent<HTMLElement>) => {
+      setChapterMenuAnchor(event.currentTarget);
+    },
+    []
+  );
+
+  const handleChapterMenuClose = useCallback(() => {
+    setChapterMenuAnchor(null);
+  }, []);
+
+  const handleChapterSelect = useCallback(
+    (chapter: VideoPlayerChapter) => {
+      seekTo(chapter.startTime);
+      handleChapterMenuClose();
+    },
+    [seekTo, handleChapterMenuClose]
+  );
+
+  const sortedChapters = [...chapters].sort(
+    (a, b) => a.startTime - b.startTime
+  );
+  const currentChapter = findChapterAt(sortedChapters, currentTime);
+  // A gap in the seek bar where each chapter (but the first) starts
+  const chapterMarks = sortedChapters
+    .filter((chapter) => chapter.startTime > 0 && chapter.startTime < duration)
+    .map((chapter) => ({ value: chapter.startTime }));
+  const hoverThumbnail = seekHover
+    ? findThumbnailAt(thumbnailCues, seekHover.time)
+    : undefined;
+  const hoverChapter = seekHover
+    ? findChapterAt(sortedChapters, seekHover.time)
+    : undefined;
+  const previewWidth = hoverThumbnail?.width ?? 0;
+
   // Format time helper
   const formatTime = (seconds: number): string => {
     const h = Math.floor(seconds / 3600);
@@ -413,6 +746,10 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
         '& .vjs-poster': {
           backgroundSize: 'cover',
         },
+        // Keep captions above the custom controls
+        '& .vjs-text-track-display': {
+          bottom: controls ? '4.5em' : 0,
+        },
       }}
     >
       {/* Video Container */}
@@ -483,30 +820,98 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
           }}
         >
           {/* Progress Bar */}
-          <Slider
-            value={currentTime}
-            min={0}
-            max={duration || 100}
-            onChange={handleSeek as any}
-            sx={{
-              color: 'primary.main',
-              height: 4,
-              p: 0,
-              mb: 1,
-              '& .MuiSlider-thumb': {
-                width: 12,
-                height: 12,
-                transition: '0.2s',
-                '&:hover': {
-                  width: 16,
-                  height: 16,
+          <Box
+            sx={{ position: 'relative', mb: 1 }}
+            onMouseMove={handleSeekHover}
+            onMouseLeave={() => setSeekHover(null)}
+          >
+            {/* Seek Preview */}
+            {seekHover && (
+              <Box
+                sx={{
+                  position: 'absolute',
+                  bottom: 12,
+                  // Centered on the pointer, kept inside the player
+                  left: Math.min(
+                    Math.max(seekHover.x - previewWidth / 2, 0),
+                    Math.max(seekHover.barWidth - previewWidth, 0)
+                  ),
+                  transform: previewWidth ? 'none' : 'translateX(-50%)',
+                  display: 'flex',
+                  flexDirection: 'column',
+                  alignItems: 'center',
+                  pointerEvents: 'none',
+                }}
+              >
+                {hoverThumbnail && (
+                  <Box
+                    sx={{
+                      width: hoverThumbnail.width,
+                      height: hoverThumbnail.height,
+                      backgroundImage: `url("${withPlaybackToken(
+                        hoverThumbnail.url,
+                        getPlaybackBaseUrl(src),
+                        playbackToken
+                      )}")`,
+                      backgroundPosition: `-${hoverThumbnail.x}px -${hoverThumbnail.y}px`,
+                      border: '2px solid white',
+                      borderRadius: 1,
+                      boxSizing: 'content-box',
+                    }}
+                  />
+                )}
+                {hoverChapter && (
+                  <Typography
+                    variant="caption"
+                    color="white"
+                    noWrap
+                    sx={{ maxWidth: 200, textShadow: '0 0 2px black' }}
+                  >
+                    {hoverChapter.title}
+                  </Typography>
+                )}
+                <Typography
+                  variant="caption"
+                  color="white"
+                  sx={{ textShadow: '0 0 2px black' }}
+                >
+                  {formatTime(seekHover.time)}
+                </Typography>
+              </Box>
+            )}
+
+            <Slider
+              value={currentTime}
+              min={0}
+              max={duration || 100}
+              marks={chapterMarks}
+              onChange={handleSeek as any}
+              aria-label="Seek"
+              sx={{
+                color: 'primary.main',
+                height: 4,
+                p: 0,
+                '& .MuiSlider-thumb': {
+                  width: 12,
+                  height: 12,
+                  transition: '0.2s',
+                  '&:hover': {
+                    width: 16,
+                    height: 16,
+                  },
                 },
-              },
-              '& .MuiSlider-rail': {
-                bgcolor: 'rgba(255,255,255,0.3)',
-              },
-            }}
-          />
+                '& .MuiSlider-rail': {
+                  bgcolor: 'rgba(255,255,255,0.3)',
+                },
+                '& .MuiSlider-mark': {
+                  width: 3,
+                  height: 4,
+                  borderRadius: 0,
+                  bgcolor: 'rgba(0,0,0,0.7)',
+                },
+              }}
+            />
+          </Box>
 
           {/* Control Bar */}
           <Stack direction="row" alignItems="center" spacing={1}>
@@ -547,9 +952,101 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
               {formatTime(currentTime)} / {formatTime(duration)}
             </Typography>
 
+            {/* Current Chapter */}
+            {currentChapter && (
+              <Typography
+                variant="caption"
+                noWrap
+                onClick={handleChapterMenuOpen}
+                sx={{ color: 'white', cursor: 'pointer', minWidth: 0 }}
+              >
+                • {currentChapter.title}
+              </Typography>
+            )}
+
             {/* Spacer */}
             <Box sx={{ flex: 1 }} />
 
+            {/* Chapter List */}
+            {sortedChapters.length > 0 && (
+              <>
+                <IconButton
+                  onClick={handleChapterMenuOpen}
+                  sx={{ color: 'white' }}
+                  size="small"
+                  aria-label="Chapters"
+                >
+                  <ChaptersIcon />
+                </IconButton>
+                <Menu
+                  anchorEl={chapterMenuAnchor}
+                  open={chapterMenuOpen}
+                  onClose={handleChapterMenuClose}
+                  anchorOrigin={{ vertical: 'top', horizontal: 'center' }}
+                  transformOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+                  slotProps={{ paper: { sx: { maxHeight: 320 } } }}
+                >
+                  {sortedChapters.map((chapter) => (
+                    <MenuItem
+                      key={chapter.startTime}
+                      selected={chapter === currentChapter}
+                      onClick={() => handleChapterSelect(chapter)}
+                    >
+                      <Typography
+                        variant="body2"
+                        color="text.secondary"
+                        sx={{ minWidth: 56 }}
+                      >
+                        {formatTime(chapter.startTime)}
+                      </Typography>
+                      {chapter.title}
+                    </MenuItem>
+                  ))}
+                </Menu>
+              </>
+            )}
+
+            {/* Caption Selector */}
+            {captionTracks.length > 0 && (
+              <>
+                <IconButton
+                  onClick={handleCaptionMenuOpen}
+                  sx={{ color: 'white' }}
+                  size="small"
+                  aria-label="Captions"
+                >
+                  {currentCaption ? (
+                    <ClosedCaptionIcon />
+                  ) : (
+                    <ClosedCaptionDisabledIcon />
+                  )}
+                </IconButton>
+                <Menu
+                  anchorEl={captionMenuAnchor}
+                  open={captionMenuOpen}
+                  onClose={handleCaptionMenuClose}
+                  anchorOrigin={{ vertical: 'top', horizontal: 'center' }}
+                  transformOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+                >
+                  <MenuItem
+                    selected={currentCaption === null}
+                    onClick={() => handleCaptionChange(null)}
+                  >
+                    Off
+                  </MenuItem>
+                  {captionTracks.map((track) => (
+                    <MenuItem
+                      key={track.language}
+                      selected={currentCaption === track.language}
+                      onClick={() => handleCaptionChange(track.language)}
+                    >
+                      {track.label}
+                    </MenuItem>
+                  ))}
+                </Menu>
+              </>
+            )}
+
             {/* Quality Selector */}
             {availableQualities.length > 0 && (
               <>
@@ -647,6 +1144,6 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
       )}
     </Box>
   );
-};
+});
 
 export default VideoPlayer;
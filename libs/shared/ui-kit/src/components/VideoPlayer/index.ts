@@ -2,4 +2,7 @@ export {
   VideoPlayer,
   type VideoPlayerProps,
   type VideoQuality,
+  type CaptionTrackOption,
+  type VideoPlayerChapter,
+  type VideoPlayerHandle,
 } from './VideoPlayer';
@@ -0,0 +1,36 @@
+/**
+ * Playback Tokens
+ *
+ * Videos are loaded through a playback proxy that wants a short-lived
+ * token on every request. The proxy puts the token it was given on the
+ * URIs of the playlists it serves; the player swaps in the newest token
+ * so that playback outlives any one token.
+ */
+
+/**
+ * The folder of a video's files: the source URL without its file name
+ */
+export const getPlaybackBaseUrl = (src: string): string => {
+  const url = new URL(src, window.location.href);
+  url.search = '';
+  url.hash = '';
+  return url.href.slice(0, url.href.lastIndexOf('/') + 1);
+};
+
+/**
+ * Put the token on a URL of one of the video's files (other URLs, e.g.
+ * presigned storage URLs, are left alone)
+ */
+export const withPlaybackToken = (
+  url: string,
+  baseUrl: string,
+  token: string | null | undefined
+): string => {
+  if (!token) return url;
+
+  const absolute = new URL(url, baseUrl);
+  if (!absolute.href.startsWith(baseUrl)) return url;
+
+  absolute.searchParams.set('token', token);
+  return absolute.href;
+};
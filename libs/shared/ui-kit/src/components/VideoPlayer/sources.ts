@@ -0,0 +1,40 @@
+/**
+ * Stream Sources
+ *
+ * A video may be packaged as both HLS and DASH over the same segments.
+ * The player tries its sources in order, so the format the browser plays
+ * best goes first: HLS where it is played natively (Safari, iOS), DASH
+ * wherever Media Source Extensions are available.
+ */
+
+export const HLS_SOURCE_TYPE = 'application/x-mpegURL';
+export const DASH_SOURCE_TYPE = 'application/dash+xml';
+
+export interface StreamSource {
+  src: string;
+  type: string;
+}
+
+const canPlayHlsNatively = (): boolean =>
+  typeof document !== 'undefined' &&
+  document
+    .createElement('video')
+    .canPlayType('application/vnd.apple.mpegurl') !== '';
+
+const hasMediaSource = (): boolean =>
+  typeof window !== 'undefined' &&
+  ('MediaSource' in window || 'ManagedMediaSource' in window);
+
+/**
+ * The video's sources, the preferred one first
+ */
+export const getStreamSources = (
+  hlsSrc: string,
+  dashSrc?: string | null
+): StreamSource[] => {
+  const hls = { src: hlsSrc, type: HLS_SOURCE_TYPE };
+  if (!dashSrc) return [hls];
+
+  const dash = { src: dashSrc, type: DASH_SOURCE_TYPE };
+  return !canPlayHlsNatively() && hasMediaSource() ? [dash, hls] : [hls, dash];
+};
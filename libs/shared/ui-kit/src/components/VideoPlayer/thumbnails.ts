@@ -0,0 +1,93 @@
+/**
+ * Seek Preview Thumbnails
+ *
+ * Reads a WebVTT thumbnails track: each cue's text is an image URL
+ * (relative to the track) with a #xywh=x,y,w,h fragment selecting one
+ * frame of a sprite sheet.
+ */
+
+export interface ThumbnailCue {
+  /** Seconds */
+  start: number;
+  end: number;
+  /** Absolute URL of the sprite sheet */
+  url: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const CUE_TIMING_PATTERN =
+  /^((?:\d+:)?\d{2}:\d{2}\.\d{3})\s+-->\s+((?:\d+:)?\d{2}:\d{2}\.\d{3})/;
+const XYWH_PATTERN = /#xywh=(\d+),(\d+),(\d+),(\d+)$/;
+
+const parseTimestamp = (value: string): number =>
+  value
+    .split(':')
+    .reduce((seconds, part) => seconds * 60 + parseFloat(part), 0);
+
+export const parseThumbnailsVtt = (
+  vtt: string,
+  baseUrl: string
+): ThumbnailCue[] => {
+  const cues: ThumbnailCue[] = [];
+  const lines = vtt.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length - 1; i++) {
+    const timing = CUE_TIMING_PATTERN.exec(lines[i].trim());
+    if (!timing) continue;
+
+    const text = lines[i + 1].trim();
+    const xywh = XYWH_PATTERN.exec(text);
+    if (!xywh) continue;
+
+    cues.push({
+      start: parseTimestamp(timing[1]),
+      end: parseTimestamp(timing[2]),
+      url: new URL(text.slice(0, xywh.index), baseUrl).href,
+      x: Number(xywh[1]),
+      y: Number(xywh[2]),
+      width: Number(xywh[3]),
+      height: Number(xywh[4]),
+    });
+  }
+
+  return cues;
+};
+
+/**
+ * The frame shown at a time (cues are in order)
+ */
+export const findThumbnailAt = (
+  cues: ThumbnailCue[],
+  time: number
+): ThumbnailCue | undefined => {
+  let low = 0;
+  let high = cues.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (time < cues[mid].start) {
+      high = mid - 1;
+    } else if (time >= cues[mid].end) {
+      low = mid + 1;
+    } else {
+      return cues[mid];
+    }
+  }
+  // Past the last cue (its end is rounded): keep showing the last frame
+  return time >= 0 && cues.length > 0 && low === cues.length
+    ? cues[cues.length - 1]
+    : undefined;
+};
+
+export const loadThumbnails = async (
+  url: string,
+  signal?: AbortSignal
+): Promise<ThumbnailCue[]> => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to load thumbnails (${response.status})`);
+  }
+  return parseThumbnailsVtt(await response.text(), response.url || url);
+};
@@ -2,10 +2,12 @@
  * VideoUpload Component
  *
  * A drag-and-drop video upload component with progress tracking.
- * Uses presigned URLs for direct upload to MinIO/S3.
+ * Uses presigned URLs for direct upload to MinIO/S3. With multipart
+ * handlers the file is uploaded in parts, and an interrupted upload resumes
+ * when the same file is selected again (even after a reload).
  */
 
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
 import {
   Box,
   Typography,
@@ -13,6 +15,7 @@ import {
   IconButton,
   Paper,
   Alert,
+  Button,
   Chip,
 } from '@mui/material';
 import {
@@ -23,6 +26,17 @@ import {
   Error as ErrorIcon,
   Refresh as RefreshIcon,
 } from '@mui/icons-material';
+import {
+  type MultipartUploadHandlers,
+  type MultipartUploadSession,
+  type PendingUpload,
+  getFileFingerprint,
+  findPendingUpload,
+  savePendingUpload,
+  removePendingUpload,
+  listPendingUploads,
+  uploadFileInParts,
+} from './multipartUpload';
 
 export interface VideoUploadConfig {
   /** Maximum file size in bytes (default: 2GB) */
@@ -45,6 +59,8 @@ export interface UploadState {
 }
 
 export interface VideoUploadProps {
+  /** Callback when a valid file is selected, before it is uploaded */
+  onFileSelect?: (file: File) => void;
   /** Callback when upload starts - should return presigned URL */
   onUploadStart?: (
     file: File
@@ -55,6 +71,8 @@ export interface VideoUploadProps {
   onUploadError?: (error: Error) => void;
   /** Callback to confirm upload */
   onConfirmUpload?: (videoId: string) => Promise<void>;
+  /** Upload in resumable parts instead of one request (onUploadStart is not used) */
+  multipart?: MultipartUploadHandlers;
   /** Configuration options */
   config?: VideoUploadConfig;
   /** Custom class name */
@@ -89,10 +107,12 @@ const formatDuration = (seconds: number): string => {
 };
 
 export const VideoUpload: React.FC<VideoUploadProps> = ({
+  onFileSelect,
   onUploadStart,
   onUploadComplete,
   onUploadError,
   onConfirmUpload,
+  multipart,
   config = {},
   className,
   disabled = false,
@@ -105,6 +125,22 @@ export const VideoUpload: React.FC<VideoUploadProps> = ({
     status: 'idle',
     progress: 0,
   });
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  const hasMultipart = !!multipart;
+
+  // Offer to resume uploads interrupted by a reload or a lost connection
+  const refreshPendingUploads = useCallback(() => {
+    if (!hasMultipart) return;
+    listPendingUploads().then(setPendingUploads);
+  }, [hasMultipart]);
+
+  useEffect(() => {
+    refreshPendingUploads();
+  }, [refreshPendingUploads]);
+
+  // Stop uploading parts when unmounted; the upload stays resumable
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const validateFile = useCallback(
     (file: File): string | null => {
@@ -130,6 +166,103 @@ export const VideoUpload: React.FC<VideoUploadProps> = ({
     [mergedConfig]
   );
 
+  const uploadSingle = useCallback(
+    async (file: File): Promise<string> => {
+      // Get presigned URL
+      if (!onUploadStart) {
+        throw new Error('onUploadStart handler not provided');
+      }
+
+      const { uploadUrl, videoId } = await onUploadStart(file);
+
+      // Upload file using XMLHttpRequest for progress tracking
+      await new Promise<void>((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+
+        xhr.upload.onprogress = (event) => {
+          if (event.lengthComputable) {
+            const progress = Math.round((event.loaded / event.total) * 100);
+            setUploadState((prev) => ({ ...prev, progress }));
+          }
+        };
+
+        xhr.onload = () => {
+          if (xhr.status >= 200 && xhr.status < 300) {
+            resolve();
+          } else {
+            reject(new Error(`Upload failed with status ${xhr.status}`));
+          }
+        };
+
+        xhr.onerror = () => reject(new Error('Upload failed'));
+
+        xhr.open('PUT', uploadUrl);
+        xhr.setRequestHeader('Content-Type', file.type);
+        xhr.send(file);
+      });
+
+      return videoId;
+    },
+    [onUploadStart]
+  );
+
+  const uploadMultipart = useCallback(
+    async (file: File, handlers: MultipartUploadHandlers): Promise<string> => {
+      const fingerprint = getFileFingerprint(file);
+      let session: MultipartUploadSession | null = null;
+      let uploadedParts: { partNumber: number; size: number }[] = [];
+
+      // Resume an unfinished upload of the same file
+      const pending = await findPendingUpload(fingerprint);
+      if (pending) {
+        try {
+          uploadedParts = await handlers.getUploadedParts(pending.videoId);
+          session = pending;
+        } catch {
+          // Completed, aborted or expired in the meantime: start over
+          await removePendingUpload(fingerprint);
+        }
+      }
+
+      if (!session) {
+        session = await handlers.initiate(file);
+        await savePendingUpload({
+          videoId: session.videoId,
+          partSize: session.partSize,
+          partCount: session.partCount,
+          fingerprint,
+          fileName: file.name,
+          fileSize: file.size,
+          uploadedBytes: 0,
+          updatedAt: Date.now(),
+        });
+      }
+
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+
+      try {
+        await uploadFileInParts(file, session, handlers, {
+          uploadedParts,
+          signal: controller.signal,
+          onProgress: (uploadedBytes) => {
+            const progress = Math.round((uploadedBytes / file.size) * 100);
+            setUploadState((prev) => ({ ...prev, progress }));
+          },
+        });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw new DOMException('Upload paused', 'AbortError');
+        }
+        throw error;
+      }
+
+      return session.videoId;
+    },
+    []
+  );
+
   const handleFileSelect = useCallback(
     async (file: File) => {
       // Validate file
@@ -142,40 +275,12 @@ export const VideoUpload: React.FC<VideoUploadProps> = ({
 
       setSelectedFile(file);
       setUploadState({ status: 'uploading', progress: 0 });
+      onFileSelect?.(file);
 
       try {
-        // Get presigned URL
-        if (!onUploadStart) {
-          throw new Error('onUploadStart handler not provided');
-        }
-
-        const { uploadUrl, videoId } = await onUploadStart(file);
-
-        // Upload file using XMLHttpRequest for progress tracking
-        await new Promise<void>((resolve, reject) => {
-          const xhr = new XMLHttpRequest();
-
-          xhr.upload.onprogress = (event) => {
-            if (event.lengthComputable) {
-              const progress = Math.round((event.loaded / event.total) * 100);
-              setUploadState((prev) => ({ ...prev, progress }));
-            }
-          };
-
-          xhr.onload = () => {
-            if (xhr.status >= 200 && xhr.status < 300) {
-              resolve();
-            } else {
-              reject(new Error(`Upload failed with status ${xhr.status}`));
-            }
-          };
-
-          xhr.onerror = () => reject(new Error('Upload failed'));
-
-          xhr.open('PUT', uploadUrl);
-          xhr.setRequestHeader('Content-Type', file.type);
-          xhr.send(file);
-        });
+        const videoId = multipart
+          ? await uploadMultipart(file, multipart)
+          : await uploadSingle(file);
 
         // Confirm upload
         setUploadState({ status: 'processing', progress: 100, videoId });
@@ -187,6 +292,10 @@ export const VideoUpload: React.FC<VideoUploadProps> = ({
         setUploadState({ status: 'ready', progress: 100, videoId });
         onUploadComplete?.(videoId);
       } catch (error) {
+        // Paused by the user, nothing failed
+        if (error instanceof DOMException && error.name === 'AbortError') {
+          return;
+        }
         const errorMessage =
           error instanceof Error ? error.message : 'Upload failed';
         setUploadState({ status: 'error', progress: 0, error: errorMessage });
@@ -197,7 +306,10 @@ export const VideoUpload: React.FC<VideoUploadProps> = ({
     },
     [
       validateFile,
-      onUploadStart,
+      onFileSelect,
+      multipart,
+      uploadMultipart,
+      uploadSingle,
       onConfirmUpload,
       onUploadComplete,
       onUploadError,
@@ -258,12 +370,29 @@ export const VideoUpload: React.FC<VideoUploadProps> = ({
   );
 
   const handleReset = useCallback(() => {
+    // Pauses a multipart upload; it can be resumed later
+    abortRef.current?.abort();
+    abortRef.current = null;
     setSelectedFile(null);
     setUploadState({ status: 'idle', progress: 0 });
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
-  }, []);
+    refreshPendingUploads();
+  }, [refreshPendingUploads]);
+
+  const handleDiscardPending = useCallback(
+    async (upload: PendingUpload) => {
+      try {
+        await multipart?.abort?.(upload.videoId);
+      } catch {
+        // Already gone on the server
+      }
+      await removePendingUpload(upload.fingerprint);
+      refreshPendingUploads();
+    },
+    [multipart, refreshPendingUploads]
+  );
 
   const handleRetry = useCallback(() => {
     if (selectedFile) {
@@ -324,6 +453,28 @@ export const VideoUpload: React.FC<VideoUploadProps> = ({
     </Box>
   );
 
+  const renderPendingUploads = () =>
+    pendingUploads.map((upload) => (
+      <Alert
+        key={upload.fingerprint}
+        severity="info"
+        sx={{ mb: 2 }}
+        action={
+          <Button
+            color="inherit"
+            size="small"
+            onClick={() => handleDiscardPending(upload)}
+          >
+            Discard
+          </Button>
+        }
+      >
+        Unfinished upload: {upload.fileName} (
+        {Math.round((upload.uploadedBytes / upload.fileSize) * 100)}% uploaded).
+        Select the same file to resume.
+      </Alert>
+    ));
+
   const renderProgress = () => (
     <Paper sx={{ p: 3 }}>
       <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
@@ -336,7 +487,7 @@ export const VideoUpload: React.FC<VideoUploadProps> = ({
             {selectedFile && formatFileSize(selectedFile.size)}
           </Typography>
         </Box>
-        {uploadState.status !== 'uploading' && (
+        {(uploadState.status !== 'uploading' || multipart) && (
           <IconButton onClick={handleReset} size="small">
             <CloseIcon />
           </IconButton>
@@ -400,6 +551,7 @@ export const VideoUpload: React.FC<VideoUploadProps> = ({
         style={{ display: 'none' }}
       />
 
+      {uploadState.status === 'idle' && renderPendingUploads()}
       {uploadState.status === 'idle' && renderUploadArea()}
       {(uploadState.status === 'uploading' ||
         uploadState.status === 'processing' ||
@@ -7,3 +7,7 @@ export type {
   VideoUploadConfig,
   UploadState,
 } from './VideoUpload';
+export type {
+  MultipartUploadHandlers,
+  MultipartUploadSession,
+} from './multipartUpload';
@@ -0,0 +1,295 @@
+/**
+ * Multipart Upload
+ *
+ * Uploads a file in parts, several at a time, straight to storage with
+ * presigned part URLs. Uploads in progress are remembered in IndexedDB so
+ * that after a reload (or a dropped connection) selecting the same file
+ * again resumes it, skipping the parts storage already has.
+ */
+
+export interface MultipartUploadSession {
+  videoId: string;
+  /** Size of every part but the last, in bytes */
+  partSize: number;
+  partCount: number;
+}
+
+export interface MultipartUploadHandlers {
+  /** Start a new upload for the file */
+  initiate: (file: File) => Promise<MultipartUploadSession>;
+  /** Parts already in storage, to resume an upload */
+  getUploadedParts: (
+    videoId: string
+  ) => Promise<{ partNumber: number; size: number }[]>;
+  /** Presigned PUT URLs for the given parts */
+  getPartUrls: (
+    videoId: string,
+    partNumbers: number[]
+  ) => Promise<{ partNumber: number; url: string }[]>;
+  /** Assemble the uploaded parts */
+  complete: (videoId: string) => Promise<void>;
+  /** Discard an unfinished upload */
+  abort?: (videoId: string) => Promise<void>;
+  /** Parts uploaded in parallel (default: 4) */
+  concurrency?: number;
+}
+
+/** An unfinished upload remembered in IndexedDB */
+export interface PendingUpload extends MultipartUploadSession {
+  /** name:size:lastModified of the file being uploaded */
+  fingerprint: string;
+  fileName: string;
+  fileSize: number;
+  uploadedBytes: number;
+  updatedAt: number;
+}
+
+const DB_NAME = 'video-uploads';
+const STORE_NAME = 'pending';
+
+/** Storage aborts unfinished uploads after a day; forget them a bit later */
+const PENDING_UPLOAD_TTL = 2 * 24 * 60 * 60 * 1000;
+
+/** Part URLs requested at once */
+const PART_URL_BATCH = 20;
+
+const MAX_PART_ATTEMPTS = 3;
+
+export const getFileFingerprint = (file: File): string =>
+  `${file.name}:${file.size}:${file.lastModified}`;
+
+// ---------------------------------------------------------------------------
+// IndexedDB (a no-op where it is unavailable, e.g. private browsing)
+// ---------------------------------------------------------------------------
+
+const openDb = (): Promise<IDBDatabase | null> =>
+  new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'fingerprint' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+  });
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> => {
+  const db = await openDb();
+  if (!db) return undefined;
+
+  return new Promise((resolve) => {
+    const request = operation(
+      db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+    );
+    request.onsuccess = () => {
+      db.close();
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      db.close();
+      resolve(undefined);
+    };
+  });
+};
+
+export const savePendingUpload = async (
+  upload: PendingUpload
+): Promise<void> => {
+  await runRequest('readwrite', (store) => store.put(upload));
+};
+
+export const removePendingUpload = async (
+  fingerprint: string
+): Promise<void> => {
+  await runRequest('readwrite', (store) => store.delete(fingerprint));
+};
+
+export const findPendingUpload = async (
+  fingerprint: string
+): Promise<PendingUpload | null> =>
+  ((await runRequest('readonly', (store) => store.get(fingerprint))) as
+    | PendingUpload
+    | undefined) ?? null;
+
+/**
+ * Unfinished uploads, most recent first. Expired ones are forgotten.
+ */
+export const listPendingUploads = async (): Promise<PendingUpload[]> => {
+  const uploads =
+    ((await runRequest('readonly', (store) => store.getAll())) as
+      | PendingUpload[]
+      | undefined) ?? [];
+
+  const cutoff = Date.now() - PENDING_UPLOAD_TTL;
+  const expired = uploads.filter((upload) => upload.updatedAt < cutoff);
+  for (const upload of expired) {
+    await removePendingUpload(upload.fingerprint);
+  }
+
+  return uploads
+    .filter((upload) => upload.updatedAt >= cutoff)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// ---------------------------------------------------------------------------
+// Upload
+// ---------------------------------------------------------------------------
+
+const partRange = (
+  session: MultipartUploadSession,
+  partNumber: number,
+  fileSize: number
+): [number, number] => {
+  const start = (partNumber - 1) * session.partSize;
+  return [start, Math.min(start + session.partSize, fileSize)];
+};
+
+const putPart = (
+  url: string,
+  body: Blob,
+  onProgress: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+      } else {
+        reject(new Error(`Part upload failed with status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Upload failed'));
+    xhr.onabort = () => reject(new Error('Upload cancelled'));
+    signal?.addEventListener('abort', () => xhr.abort());
+
+    xhr.open('PUT', url);
+    xhr.send(body);
+  });
+
+/**
+ * Upload the parts of the file that storage does not have yet, then
+ * complete the upload. Progress is reported in bytes, counting parts
+ * uploaded before a resume.
+ */
+export const uploadFileInParts = async (
+  file: File,
+  session: MultipartUploadSession,
+  handlers: MultipartUploadHandlers,
+  options: {
+    /** Parts storage already has (when resuming) */
+    uploadedParts?: { partNumber: number; size: number }[];
+    onProgress?: (uploadedBytes: number) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<void> => {
+  const fingerprint = getFileFingerprint(file);
+  const concurrency = handlers.concurrency ?? 4;
+
+  // A part that fails for good stops the others
+  const controller = new AbortController();
+  options.signal?.addEventListener('abort', () => controller.abort());
+
+  // A part only counts as done if storage has all of it
+  const done = new Set<number>();
+  for (const part of options.uploadedParts ?? []) {
+    const [start, end] = partRange(session, part.partNumber, file.size);
+    if (part.size === end - start) done.add(part.partNumber);
+  }
+
+  let uploadedBytes = 0;
+  for (const partNumber of done) {
+    const [start, end] = partRange(session, partNumber, file.size);
+    uploadedBytes += end - start;
+  }
+  const inFlight = new Map<number, number>();
+  const reportProgress = () => {
+    let loaded = uploadedBytes;
+    for (const bytes of inFlight.values()) loaded += bytes;
+    options.onProgress?.(loaded);
+  };
+  reportProgress();
+
+  const remaining: number[] = [];
+  for (let partNumber = 1; partNumber <= session.partCount; partNumber++) {
+    if (!done.has(partNumber)) remaining.push(partNumber);
+  }
+
+  // URLs are requested a batch at a time so they do not expire in the queue
+  for (let i = 0; i < remaining.length; i += PART_URL_BATCH) {
+    const urls = await handlers.getPartUrls(
+      session.videoId,
+      remaining.slice(i, i + PART_URL_BATCH)
+    );
+    const queue = [...urls];
+
+    const uploadPart = async ({
+      partNumber,
+      url,
+    }: {
+      partNumber: number;
+      url: string;
+    }) => {
+      const [start, end] = partRange(session, partNumber, file.size);
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await putPart(
+            url,
+            file.slice(start, end),
+            (loaded) => {
+              inFlight.set(partNumber, loaded);
+              reportProgress();
+            },
+            controller.signal
+          );
+          break;
+        } catch (error) {
+          inFlight.delete(partNumber);
+          if (attempt >= MAX_PART_ATTEMPTS || controller.signal.aborted) {
+            throw error;
+          }
+          await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+        }
+      }
+
+      inFlight.delete(partNumber);
+      uploadedBytes += end - start;
+      reportProgress();
+      await savePendingUpload({
+        ...session,
+        fingerprint,
+        fileName: file.name,
+        fileSize: file.size,
+        uploadedBytes,
+        updatedAt: Date.now(),
+      });
+    };
+
+    const worker = async () => {
+      for (let next = queue.shift(); next; next = queue.shift()) {
+        try {
+          await uploadPart(next);
+        } catch (error) {
+          controller.abort();
+          throw error;
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, queue.length) }, worker)
+    );
+  }
+
+  await handlers.complete(session.videoId);
+  await removePendingUpload(fingerprint);
+};
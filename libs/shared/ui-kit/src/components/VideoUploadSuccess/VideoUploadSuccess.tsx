@@ -3,9 +3,12 @@
  *
  * Displays a beautiful success state after video upload is confirmed.
  * Shows video details and informs user about background processing.
+ * Once processing has taken candidate frames, the author can pick one as
+ * the poster or upload an image instead. Once encoded, the loudness of the
+ * audio is shown next to the level it was normalized to.
  */
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import {
   Box,
   Typography,
@@ -14,6 +17,9 @@ import {
   IconButton,
   Collapse,
   Tooltip,
+  Button,
+  ButtonBase,
+  CircularProgress,
   alpha,
 } from '@mui/material';
 import {
@@ -26,8 +32,26 @@ import {
   CloudDone as CloudDoneIcon,
   Schedule as ScheduleIcon,
   Info as InfoIcon,
+  Image as ImageIcon,
 } from '@mui/icons-material';
 
+/** A frame of the video that can be the poster */
+export interface ThumbnailCandidateOption {
+  id: string;
+  url: string;
+  /** Seconds from the start of the video */
+  time: number;
+}
+
+/** Loudness of the video's audio (EBU R128), before normalizing */
+export interface VideoLoudnessInfo {
+  integratedLufs: number;
+  truePeakDbtp: number;
+  loudnessRangeLu: number;
+  /** Integrated loudness the audio was normalized to */
+  targetLufs: number;
+}
+
 export interface VideoUploadSuccessProps {
   /** The uploaded video ID */
   videoId: string;
@@ -41,8 +65,29 @@ export interface VideoUploadSuccessProps {
   showDetails?: boolean;
   /** Custom class name */
   className?: string;
+  /** Poster candidates (empty until processing has taken them) */
+  thumbnailCandidates?: ThumbnailCandidateOption[];
+  /** The poster in use */
+  selectedThumbnailUrl?: string | null;
+  /** Callback when a candidate is picked as the poster */
+  onSelectThumbnail?: (candidateId: string) => void;
+  /** Callback when an image is chosen as the poster */
+  onUploadThumbnail?: (file: File) => void;
+  /** Whether a poster change is being saved */
+  isThumbnailSaving?: boolean;
+  /** Loudness of the audio (none until encoded, or without audio) */
+  loudness?: VideoLoudnessInfo | null;
 }
 
+const formatFrameTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.floor(seconds % 60);
+  return `${minutes}:${rest.toString().padStart(2, '0')}`;
+};
+
+const formatLoudness = (value: number, unit: string): string =>
+  `${value.toFixed(1)} ${unit}`;
+
 const formatFileSize = (bytes: number): string => {
   if (bytes === 0) return '0 Bytes';
   const k = 1024;
@@ -58,9 +103,30 @@ export const VideoUploadSuccess: React.FC<VideoUploadSuccessProps> = ({
   onRemove,
   showDetails = true,
   className,
+  thumbnailCandidates = [],
+  selectedThumbnailUrl,
+  onSelectThumbnail,
+  onUploadThumbnail,
+  isThumbnailSaving = false,
+  loudness,
 }) => {
   const [expanded, setExpanded] = useState(showDetails);
   const [copied, setCopied] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const showPosterPicker = !!(onSelectThumbnail || onUploadThumbnail);
+  // An uploaded poster is not one of the candidates
+  const customPosterUrl =
+    selectedThumbnailUrl &&
+    !thumbnailCandidates.some((c) => c.url === selectedThumbnailUrl)
+      ? selectedThumbnailUrl
+      : null;
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onUploadThumbnail?.(file);
+    event.target.value = '';
+  };
 
   const handleCopyId = async () => {
     try {
@@ -249,7 +315,7 @@ export const VideoUploadSuccess: React.FC<VideoUploadSuccessProps> = ({
           </Box>
 
           {/* Additional Details Grid */}
-          {(filename || fileSize) && (
+          {(filename || fileSize || loudness) && (
             <Box
               sx={{
                 display: 'grid',
@@ -295,6 +361,136 @@ export const VideoUploadSuccess: React.FC<VideoUploadSuccessProps> = ({
                   </Typography>
                 </Box>
               )}
+              {loudness && (
+                <Box>
+                  <Typography
+                    variant="caption"
+                    color="text.secondary"
+                    fontWeight={600}
+                    sx={{ display: 'block', mb: 0.5 }}
+                  >
+                    AUDIO LOUDNESS
+                  </Typography>
+                  <Typography variant="body2">
+                    {formatLoudness(loudness.integratedLufs, 'LUFS')} →{' '}
+                    {formatLoudness(loudness.targetLufs, 'LUFS')}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    Peak {formatLoudness(loudness.truePeakDbtp, 'dBTP')}, range{' '}
+                    {formatLoudness(loudness.loudnessRangeLu, 'LU')}
+                  </Typography>
+                </Box>
+              )}
+            </Box>
+          )}
+
+          {/* Poster Picker */}
+          {showPosterPicker && (
+            <Box sx={{ mb: 2 }}>
+              <Box
+                sx={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 1,
+                  mb: 0.5,
+                }}
+              >
+                <Typography
+                  variant="caption"
+                  color="text.secondary"
+                  fontWeight={600}
+                  sx={{ flex: 1 }}
+                >
+                  POSTER
+                </Typography>
+                {isThumbnailSaving && <CircularProgress size={14} />}
+                {onUploadThumbnail && (
+                  <>
+                    <Button
+                      size="small"
+                      startIcon={<ImageIcon />}
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={isThumbnailSaving}
+                    >
+                      Upload image
+                    </Button>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept="image/jpeg,image/png,image/webp"
+                      hidden
+                      onChange={handleFileChange}
+                    />
+                  </>
+                )}
+              </Box>
+
+              {thumbnailCandidates.length === 0 && !customPosterUrl ? (
+                <Typography variant="body2" color="text.secondary">
+                  Frames to choose the poster from will be available once
+                  processing finishes.
+                </Typography>
+              ) : (
+                <Box
+                  sx={{
+                    display: 'grid',
+                    gridTemplateColumns:
+                      'repeat(auto-fill, minmax(120px, 1fr))',
+                    gap: 1,
+                  }}
+                >
+                  {customPosterUrl && (
+                    <Box
+                      component="img"
+                      src={customPosterUrl}
+                      alt="Uploaded poster"
+                      sx={{
+                        width: '100%',
+                        aspectRatio: '16 / 9',
+                        objectFit: 'cover',
+                        borderRadius: 1.5,
+                        border: '3px solid',
+                        borderColor: 'primary.main',
+                      }}
+                    />
+                  )}
+                  {thumbnailCandidates.map((candidate) => {
+                    const selected = candidate.url === selectedThumbnailUrl;
+                    const label = `Frame at ${formatFrameTime(candidate.time)}`;
+                    return (
+                      <ButtonBase
+                        key={candidate.id}
+                        title={label}
+                        onClick={() => onSelectThumbnail?.(candidate.id)}
+                        disabled={
+                          !onSelectThumbnail || selected || isThumbnailSaving
+                        }
+                        aria-pressed={selected}
+                        sx={{
+                          borderRadius: 1.5,
+                          overflow: 'hidden',
+                          border: '3px solid',
+                          borderColor: selected
+                            ? 'primary.main'
+                            : 'transparent',
+                        }}
+                      >
+                        <Box
+                          component="img"
+                          src={candidate.url}
+                          alt={label}
+                          sx={{
+                            width: '100%',
+                            aspectRatio: '16 / 9',
+                            objectFit: 'cover',
+                            display: 'block',
+                          }}
+                        />
+                      </ButtonBase>
+                    );
+                  })}
+                </Box>
+              )}
             </Box>
           )}
 
@@ -327,6 +523,9 @@ export const VideoUploadSuccess: React.FC<VideoUploadSuccessProps> = ({
                     (1080p, 720p, 480p)
                   </li>
                   <li>A thumbnail will be automatically generated</li>
+                  <li>
+                    The audio is normalized, so it plays as loud as other videos
+                  </li>
                   <li>
                     You'll receive a notification when processing is complete
                   </li>
@@ -2,4 +2,8 @@
  * VideoUploadSuccess Component Barrel Export
  */
 export { VideoUploadSuccess, default } from './VideoUploadSuccess';
-export type { VideoUploadSuccessProps } from './VideoUploadSuccess';
+export type {
+  VideoUploadSuccessProps,
+  ThumbnailCandidateOption,
+  VideoLoudnessInfo,
+} from './VideoUploadSuccess';